@@ -16,54 +16,70 @@ export class AnalyticsController {
     return this.analyticsService.getTotalVisits();
   }
 
-  @Get(':key')
-  async getAnalytics(@Param('key') key: string, @Query('days') days: number, @UserCtx() user: UserContext) {
-    const link = await this.findLink(key, user.id);
+  @Get(':id')
+  async getAnalytics(@Param('id') id: string, @Query('days') days: number, @UserCtx() user: UserContext) {
+    const link = await this.findLink(id, user.id);
     const data = await this.analyticsService.getClicksOverTime(link.id, days);
-    return { url: link.url, clicksOverTime: data };
+    // Clicks counted by the previous shortener of migrated links are not part of the visits
+    return {
+      id: link.id,
+      url: link.url,
+      variants: link.variants,
+      migratedFrom: link.migratedFrom,
+      migratedClicks: link.migratedClicks,
+      clicksOverTime: data,
+    };
   }
 
-  @Get(':key/devices')
-  async getDevices(@Param('key') key: string, @Query('days') days: number, @UserCtx() user: UserContext) {
-    return this.getGroupedData(key, user.id, days, 'device');
+  @Get(':id/devices')
+  async getDevices(@Param('id') id: string, @Query('days') days: number, @UserCtx() user: UserContext) {
+    return this.getGroupedData(id, user.id, days, 'device');
   }
 
-  @Get(':key/os')
-  async getOs(@Param('key') key: string, @Query('days') days: number, @UserCtx() user: UserContext) {
-    return this.getGroupedData(key, user.id, days, 'os');
+  @Get(':id/os')
+  async getOs(@Param('id') id: string, @Query('days') days: number, @UserCtx() user: UserContext) {
+    return this.getGroupedData(id, user.id, days, 'os');
   }
 
-  @Get(':key/browsers')
-  async getBrowsers(@Param('key') key: string, @Query('days') days: number, @UserCtx() user: UserContext) {
-    return this.getGroupedData(key, user.id, days, 'browser');
+  @Get(':id/browsers')
+  async getBrowsers(@Param('id') id: string, @Query('days') days: number, @UserCtx() user: UserContext) {
+    return this.getGroupedData(id, user.id, days, 'browser');
   }
 
-  @Get(':key/countries')
-  async getCountries(@Param('key') key: string, @Query('days') days: number, @UserCtx() user: UserContext) {
-    return this.getGroupedData(key, user.id, days, 'country');
+  @Get(':id/countries')
+  async getCountries(@Param('id') id: string, @Query('days') days: number, @UserCtx() user: UserContext) {
+    return this.getGroupedData(id, user.id, days, 'country');
   }
 
-  @Get(':key/regions')
-  async getRegions(@Param('key') key: string, @Query('days') days: number, @UserCtx() user: UserContext) {
-    return this.getGroupedData(key, user.id, days, 'region');
+  @Get(':id/regions')
+  async getRegions(@Param('id') id: string, @Query('days') days: number, @UserCtx() user: UserContext) {
+    return this.getGroupedData(id, user.id, days, 'region');
   }
 
-  @Get(':key/cities')
-  async getCities(@Param('key') key: string, @Query('days') days: number, @UserCtx() user: UserContext) {
-    return this.getGroupedData(key, user.id, days, 'city', {
+  @Get(':id/cities')
+  async getCities(@Param('id') id: string, @Query('days') days: number, @UserCtx() user: UserContext) {
+    return this.getGroupedData(id, user.id, days, 'city', {
       country: true,
     });
   }
 
-  @Get(':key/total')
-  async getTotalVisitsForLink(@Param('key') key: string, @UserCtx() user: UserContext) {
-    return this.analyticsService.getTotalVisitsByKey(key, user.id);
+  @Get(':id/variants')
+  async getVariants(@Param('id') id: string, @Query('days') days: number, @UserCtx() user: UserContext) {
+    return this.getGroupedData(id, user.id, days, 'variant');
   }
 
-  private async findLink(key: string, userId: string) {
-    const link = await this.prismaService.link.findUnique({
-      where: { key, userId },
-      select: { id: true, url: true },
+  @Get(':id/total')
+  async getTotalVisitsForLink(@Param('id') id: string, @UserCtx() user: UserContext) {
+    return this.analyticsService.getTotalVisitsByLink(id, user.id);
+  }
+
+  /**
+   * Links are found by their id, their keys are only unique per domain.
+   */
+  private async findLink(id: string, userId: string) {
+    const link = await this.prismaService.link.findFirst({
+      where: { id, userId },
+      select: { id: true, url: true, variants: true, migratedFrom: true, migratedClicks: true },
     });
 
     if (!link) {
@@ -73,8 +89,8 @@ export class AnalyticsController {
     return link;
   }
 
-  private async getGroupedData(key: string, userId: string, days: number, field: string, include?: Record<string, boolean>) {
-    const link = await this.findLink(key, userId);
+  private async getGroupedData(id: string, userId: string, days: number, field: string, include?: Record<string, boolean>) {
+    const link = await this.findLink(id, userId);
     const data = await this.analyticsService.getGroupedByField(link.id, field, days, include);
     return { url: link.url, data };
   }
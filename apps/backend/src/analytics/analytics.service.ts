@@ -7,11 +7,11 @@ import { sub } from 'date-fns';
 export class AnalyticsService {
   constructor(private readonly logger: AppLoggerService, private readonly prismaService: PrismaService) {}
 
-  async getTotalVisitsByKey(key: string, userId: string): Promise<number> {
+  async getTotalVisitsByLink(linkId: string, userId: string): Promise<number> {
     return this.prismaService.visit.count({
       where: {
         link: {
-          key,
+          id: linkId,
           userId,
         },
       },
@@ -28,14 +28,16 @@ export class AnalyticsService {
     })
   }
 
-  async getClicksOverTime(linkId: string, durationDays = 30): Promise<{ day: string; count: string }[]> {
+  async getClicksOverTime(linkId: string, durationDays = 30): Promise<{ day: string; count: string; scans: string }[]> {
     const fromDate = sub(new Date(), { days: durationDays });
     const trunc = durationDays === 1 ? 'hour' : 'day';
 
-    return this.prismaService.$queryRaw<{ day: string; count: string }[]>`
+    // The count includes the scans of the QR code of the link
+    return this.prismaService.$queryRaw<{ day: string; count: string; scans: string }[]>`
       SELECT
         date_trunc(${trunc}, "createdAt")::text AS day,
-        COUNT(*)::text AS count
+        COUNT(*)::text AS count,
+        COUNT(*) FILTER (WHERE "source" = 'QR')::text AS scans
       FROM
         "Visit"
       WHERE
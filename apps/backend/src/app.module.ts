@@ -7,12 +7,20 @@ import { AppConfigModule, AppConfigService } from '@reduced.to/config';
 import { AppLoggerModule } from '@reduced.to/logger';
 import { PrismaService } from '@reduced.to/prisma';
 import { UniqueConstraint } from './shared/decorators/unique/unique.decorator';
+import { IsNotReservedKeyConstraint } from './shared/decorators/is-not-reserved-key/is-not-reserved-key.decorator';
 import { CustomThrottlerGuard } from './shared/guards/custom-throttler/custom-throttler';
 import { ShortenerModule } from './shortener/shortener.module';
 import { UsersModule } from './core/users/users.module';
 import { LinksService } from './core/links/links.service';
 import { LinksModule } from './core/links/links.module';
 import { ReportsModule } from './core/reports/reports.module';
+import { DomainsModule } from './core/domains/domains.module';
+import { TagsModule } from './core/tags/tags.module';
+import { FoldersModule } from './core/folders/folders.module';
+import { PagesModule } from './core/pages/pages.module';
+import { ImportsModule } from './core/imports/imports.module';
+import { ReservedKeysModule } from './core/reserved-keys/reserved-keys.module';
+import { QuarantineModule } from './core/quarantine/quarantine.module';
 import { MetadataModule } from './metadata/metadata.module';
 import { AnalyticsModule } from './analytics/analytics.module';
 import { BillingModule } from './billing/billing.module';
@@ -35,6 +43,13 @@ import { TasksModule } from './tasks/tasks.module';
     UsersModule,
     LinksModule,
     ReportsModule,
+    DomainsModule,
+    TagsModule,
+    FoldersModule,
+    PagesModule,
+    ImportsModule,
+    ReservedKeysModule,
+    QuarantineModule,
     BillingModule,
     MetadataModule,
     AnalyticsModule,
@@ -43,6 +58,7 @@ import { TasksModule } from './tasks/tasks.module';
   providers: [
     PrismaService,
     UniqueConstraint,
+    IsNotReservedKeyConstraint,
     {
       provide: APP_GUARD,
       useClass: CustomThrottlerGuard,
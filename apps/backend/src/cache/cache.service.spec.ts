@@ -1,7 +1,7 @@
 import { CACHE_MANAGER } from '@nestjs/cache-manager';
 import { Test, TestingModule } from '@nestjs/testing';
 import { Cache } from 'cache-manager';
-import { AppCacheService } from './cache.service';
+import { AppCacheService, getLinkCacheKey } from './cache.service';
 
 interface CacheMock extends Cache {
   get: jest.Mock<Promise<any>, [string]>;
@@ -80,4 +80,10 @@ describe('AppCacheService', () => {
   it('should get the cache manager', () => {
     expect(service.getCacheManager).toBe(cache);
   });
+
+  it('should not mix keys of custom domains with keys of the default domain', () => {
+    expect(getLinkCacheKey('promo')).toBe('promo');
+    expect(getLinkCacheKey('promo', 'go.example.com')).toBe('domain:go.example.com:promo');
+    expect(getLinkCacheKey('go.example.com/promo')).not.toBe(getLinkCacheKey('promo', 'go.example.com'));
+  });
 });
@@ -1,14 +1,31 @@
 import { CACHE_MANAGER } from '@nestjs/cache-manager';
 import { Inject, Injectable } from '@nestjs/common';
 import { Cache } from 'cache-manager';
+import { DeepLinks, LinkFile, LinkSnippet, QrPayload, RedirectRule, RedirectVariant } from '@reduced.to/utils';
 
 export interface LinkValue {
+  id?: string; // Only set for links that are stored in the database
   url: string;
   key: string;
   password?: string;
   utm?: Record<string, string>;
+  rules?: RedirectRule[];
+  variants?: RedirectVariant[];
+  stickyVariants?: boolean;
+  deepLinks?: DeepLinks;
+  maxClicks?: number;
+  quarantined?: boolean; // Quarantined links show a warning instead of redirecting
+  payload?: QrPayload; // Payload links serve a landing page delivering the payload instead of redirecting
+  file?: LinkFile; // File links redirect to a signed url of the file, url is a summary of it
+  snippet?: LinkSnippet; // Snippet links serve a page showing the snippet instead of redirecting
 }
 
+/**
+ * Links of custom domains are cached under their domain, since keys are only unique per domain.
+ * Keys cannot contain ":" (see LINK_KEY_REGEX), so a key of the default domain never matches the cache key of a custom domain link.
+ */
+export const getLinkCacheKey = (key: string, domain?: string) => (domain ? `domain:${domain}:${key}` : key);
+
 @Injectable()
 export class AppCacheService {
   constructor(@Inject(CACHE_MANAGER) private cacheManager: Cache) {}
@@ -0,0 +1,191 @@
+import request from 'supertest';
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ServiceUnavailableException, ValidationPipe } from '@nestjs/common';
+import { Role } from '@reduced.to/prisma';
+import { AppConfigModule, AppConfigService } from '@reduced.to/config';
+import { AppLoggerModule } from '@reduced.to/logger';
+import { JwtAuthGuard } from '../../auth/guards/jwt.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { DomainsController } from './domains.controller';
+import { DomainsService } from './domains.service';
+
+describe('DomainsController', () => {
+  let app: INestApplication;
+  let domainsService: DomainsService;
+  let configService: AppConfigService;
+  let userContext: Record<string, any>;
+
+  const DOMAIN = {
+    id: 'domain-id',
+    name: 'go.example.com',
+    userId: 'user-id',
+    verified: false,
+    verificationToken: 'token',
+  };
+
+  beforeEach(async () => {
+    userContext = { id: 'user-id', role: Role.USER, plan: 'PRO' };
+
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [AppConfigModule, AppLoggerModule],
+      controllers: [DomainsController],
+      providers: [
+        {
+          provide: DomainsService,
+          useValue: {
+            findAllByUser: jest.fn().mockResolvedValue([DOMAIN]),
+            findBy: jest.fn().mockResolvedValue(null),
+            count: jest.fn().mockResolvedValue(0),
+            countLinks: jest.fn().mockResolvedValue(0),
+            create: jest.fn().mockResolvedValue(DOMAIN),
+            delete: jest.fn().mockResolvedValue(DOMAIN),
+            verify: jest.fn(),
+            findVerifiedByName: jest.fn().mockResolvedValue(null),
+            getVerificationRecord: jest.fn().mockReturnValue({ type: 'TXT', name: 'name', value: 'value' }),
+          },
+        },
+      ],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue({
+        canActivate: (context) => {
+          const req = context.switchToHttp().getRequest();
+          req.user = userContext;
+          return true;
+        },
+      })
+      .overrideGuard(RolesGuard)
+      .useValue({
+        canActivate: () => {
+          return true;
+        },
+      })
+      .compile();
+
+    app = module.createNestApplication();
+
+    app.useGlobalPipes(new ValidationPipe({ transform: true }));
+    await app.init();
+
+    domainsService = module.get<DomainsService>(DomainsService);
+    configService = module.get<AppConfigService>(AppConfigService);
+    jest.spyOn(configService, 'getConfig').mockReturnValue({ front: { domain: 'reduced.to' } } as any);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  describe('GET /domains', () => {
+    it('should return the domains of the user with their verification record', async () => {
+      const response = await request(app.getHttpServer()).get('/domains').expect(200);
+
+      expect(domainsService.findAllByUser).toHaveBeenCalledWith('user-id');
+      expect(response.body).toEqual([{ ...DOMAIN, verificationRecord: { type: 'TXT', name: 'name', value: 'value' } }]);
+    });
+  });
+
+  describe('POST /domains', () => {
+    it('should create a normalized domain', async () => {
+      await request(app.getHttpServer()).post('/domains').send({ name: 'Go.Example.com' }).expect(201);
+
+      expect(domainsService.create).toHaveBeenCalledWith({ name: 'go.example.com', userId: 'user-id' });
+    });
+
+    it('should not allow users without the custom domains feature', async () => {
+      userContext.plan = 'FREE';
+
+      await request(app.getHttpServer()).post('/domains').send({ name: 'go.example.com' }).expect(401);
+      expect(domainsService.create).not.toHaveBeenCalled();
+    });
+
+    it('should not allow more domains than the plan limit', async () => {
+      jest.spyOn(domainsService, 'count').mockResolvedValue(3);
+
+      await request(app.getHttpServer()).post('/domains').send({ name: 'go.example.com' }).expect(400);
+      expect(domainsService.create).not.toHaveBeenCalled();
+    });
+
+    it('should not allow invalid domains or the default domain', async () => {
+      await request(app.getHttpServer()).post('/domains').send({ name: 'not a domain' }).expect(400);
+      await request(app.getHttpServer()).post('/domains').send({ name: 'reduced.to' }).expect(400);
+      await request(app.getHttpServer()).post('/domains').send({}).expect(400);
+
+      expect(domainsService.create).not.toHaveBeenCalled();
+    });
+
+    it('should not allow domains that are already in use', async () => {
+      jest.spyOn(domainsService, 'findBy').mockResolvedValue(DOMAIN as any);
+
+      await request(app.getHttpServer()).post('/domains').send({ name: 'go.example.com' }).expect(400);
+      expect(domainsService.create).not.toHaveBeenCalled();
+    });
+
+    it('should only be blocked by verified domains or domains of the same user', async () => {
+      await request(app.getHttpServer()).post('/domains').send({ name: 'go.example.com' }).expect(201);
+
+      expect(domainsService.findBy).toHaveBeenCalledWith({ name: 'go.example.com', OR: [{ verified: true }, { userId: 'user-id' }] });
+    });
+  });
+
+  describe('POST /domains/:id/verify', () => {
+    it('should verify the domain', async () => {
+      jest.spyOn(domainsService, 'findBy').mockResolvedValue(DOMAIN as any);
+      jest.spyOn(domainsService, 'verify').mockResolvedValue({ ...DOMAIN, verified: true } as any);
+
+      const response = await request(app.getHttpServer()).post(`/domains/${DOMAIN.id}/verify`).expect(201);
+
+      expect(domainsService.findBy).toHaveBeenCalledWith({ userId: 'user-id', id: DOMAIN.id });
+      expect(response.body.verified).toBe(true);
+    });
+
+    it('should return 400 if the verification record was not found', async () => {
+      jest.spyOn(domainsService, 'findBy').mockResolvedValue(DOMAIN as any);
+      jest.spyOn(domainsService, 'verify').mockResolvedValue(null);
+
+      await request(app.getHttpServer()).post(`/domains/${DOMAIN.id}/verify`).expect(400);
+    });
+
+    it('should return 503 if the DNS lookup failed', async () => {
+      jest.spyOn(domainsService, 'findBy').mockResolvedValue(DOMAIN as any);
+      jest.spyOn(domainsService, 'verify').mockRejectedValue(new ServiceUnavailableException('The DNS lookup failed'));
+
+      await request(app.getHttpServer()).post(`/domains/${DOMAIN.id}/verify`).expect(503);
+    });
+
+    it('should not verify a domain another user already verified', async () => {
+      jest.spyOn(domainsService, 'findBy').mockResolvedValue(DOMAIN as any);
+      jest.spyOn(domainsService, 'findVerifiedByName').mockResolvedValue({ ...DOMAIN, id: 'other-id', userId: 'other-user-id' } as any);
+
+      await request(app.getHttpServer()).post(`/domains/${DOMAIN.id}/verify`).expect(400);
+      expect(domainsService.verify).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 if the domain does not belong to the user', async () => {
+      await request(app.getHttpServer()).post(`/domains/${DOMAIN.id}/verify`).expect(401);
+      expect(domainsService.verify).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /domains/:id', () => {
+    it('should delete the domain', async () => {
+      jest.spyOn(domainsService, 'findBy').mockResolvedValue(DOMAIN as any);
+
+      await request(app.getHttpServer()).delete(`/domains/${DOMAIN.id}`).expect(200);
+      expect(domainsService.delete).toHaveBeenCalledWith(DOMAIN.id);
+    });
+
+    it('should not delete a domain that still has links', async () => {
+      jest.spyOn(domainsService, 'findBy').mockResolvedValue(DOMAIN as any);
+      jest.spyOn(domainsService, 'countLinks').mockResolvedValue(2);
+
+      await request(app.getHttpServer()).delete(`/domains/${DOMAIN.id}`).expect(400);
+      expect(domainsService.delete).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 if the domain does not belong to the user', async () => {
+      await request(app.getHttpServer()).delete(`/domains/${DOMAIN.id}`).expect(401);
+      expect(domainsService.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { BadRequestException, Body, Controller, Delete, Get, Param, Post, UnauthorizedException, UseGuards } from '@nestjs/common';
+import { JwtAuthGuard } from '../../auth/guards/jwt.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { Domain, Role } from '@reduced.to/prisma';
+import { Roles, UserCtx } from '../../shared/decorators';
+import { UserContext } from '../../auth/interfaces/user-context';
+import { AppConfigService } from '@reduced.to/config';
+import { AppLoggerService } from '@reduced.to/logger';
+import { PLAN_LEVELS } from '@reduced.to/subscription-manager';
+import { isValidHostname, normalizeHostname } from '@reduced.to/utils';
+import { DomainsService, VerificationRecord } from './domains.service';
+import { CreateDomainDto } from './dto';
+
+type DomainResponse = Domain & { verificationRecord: VerificationRecord };
+
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller({
+  path: 'domains',
+  version: '1',
+})
+export class DomainsController {
+  constructor(
+    private readonly domainsService: DomainsService,
+    private readonly configService: AppConfigService,
+    private readonly logger: AppLoggerService
+  ) {}
+
+  @Get()
+  @Roles(Role.ADMIN, Role.USER)
+  async findAll(@UserCtx() user: UserContext): Promise<DomainResponse[]> {
+    const domains = await this.domainsService.findAllByUser(user.id);
+    return domains.map((domain) => this.toResponse(domain));
+  }
+
+  @Post()
+  @Roles(Role.ADMIN, Role.USER)
+  async create(@UserCtx() user: UserContext, @Body() { name }: CreateDomainDto): Promise<DomainResponse> {
+    const hostname = normalizeHostname(name);
+
+    if (user.role !== Role.ADMIN) {
+      const feature = PLAN_LEVELS[user.plan || 'FREE'].FEATURES.CUSTOM_DOMAINS;
+      if (!feature.enabled) {
+        throw new UnauthorizedException('This feature is not available for your plan.');
+      }
+
+      const count = await this.domainsService.count({ userId: user.id });
+      if (count >= feature.value) {
+        throw new BadRequestException('You have reached your custom domains limit');
+      }
+    }
+
+    if (!isValidHostname(hostname) || hostname === normalizeHostname(this.configService.getConfig().front.domain)) {
+      throw new BadRequestException('Domain is invalid');
+    }
+
+    // Unverified domains of other users do not block the hostname, otherwise anyone could claim a domain they do not own
+    const existingDomain = await this.domainsService.findBy({ name: hostname, OR: [{ verified: true }, { userId: user.id }] });
+    if (existingDomain) {
+      throw new BadRequestException('This domain is already in use');
+    }
+
+    this.logger.log(`User ${user.id} is adding the domain ${hostname}`);
+    const domain = await this.domainsService.create({ name: hostname, userId: user.id });
+
+    return this.toResponse(domain);
+  }
+
+  @Post(':id/verify')
+  @Roles(Role.ADMIN, Role.USER)
+  async verify(@UserCtx() user: UserContext, @Param('id') id: string): Promise<DomainResponse> {
+    const domain = await this.domainsService.findBy({ userId: user.id, id });
+
+    if (!domain) {
+      throw new UnauthorizedException();
+    }
+
+    if (domain.verified) {
+      return this.toResponse(domain);
+    }
+
+    // Another user may have verified the hostname since it was added
+    if (await this.domainsService.findVerifiedByName(domain.name)) {
+      throw new BadRequestException('This domain is already in use');
+    }
+
+    const verifiedDomain = await this.domainsService.verify(domain);
+    if (!verifiedDomain) {
+      throw new BadRequestException('The verification record was not found, DNS changes may take a while to propagate');
+    }
+
+    this.logger.log(`User ${user.id} verified the domain ${domain.name}`);
+    return this.toResponse(verifiedDomain);
+  }
+
+  @Delete(':id')
+  @Roles(Role.ADMIN, Role.USER)
+  async delete(@UserCtx() user: UserContext, @Param('id') id: string): Promise<Domain> {
+    const domain = await this.domainsService.findBy({ userId: user.id, id });
+
+    if (!domain) {
+      throw new UnauthorizedException();
+    }
+
+    const linksCount = await this.domainsService.countLinks(id);
+    if (linksCount > 0) {
+      throw new BadRequestException('This domain still has links, delete them before deleting the domain');
+    }
+
+    return this.domainsService.delete(id);
+  }
+
+  private toResponse(domain: Domain): DomainResponse {
+    return { ...domain, verificationRecord: this.domainsService.getVerificationRecord(domain) };
+  }
+}
@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../../auth/auth.module';
+import { PrismaModule } from '@reduced.to/prisma';
+import { AppConfigService } from '@reduced.to/config';
+import { DomainsController } from './domains.controller';
+import { DomainsService } from './domains.service';
+import { DnsResolver, NodeDnsResolver, StubDnsResolver } from './resolvers';
+
+@Module({
+  imports: [AuthModule, PrismaModule],
+  controllers: [DomainsController],
+  providers: [
+    {
+      provide: DnsResolver,
+      useFactory: (configService: AppConfigService) => {
+        const { resolver, stubRecords } = configService.getConfig().domains;
+        return resolver === 'stub' ? StubDnsResolver.fromJson(stubRecords) : new NodeDnsResolver();
+      },
+      inject: [AppConfigService],
+    },
+    DomainsService,
+  ],
+  exports: [DomainsService],
+})
+export class DomainsModule {}
@@ -0,0 +1,125 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from '@reduced.to/prisma';
+import { AppConfigModule, AppConfigService } from '@reduced.to/config';
+import { DomainsService } from './domains.service';
+import { DnsResolver, StubDnsResolver } from './resolvers';
+
+describe('DomainsService', () => {
+  let service: DomainsService;
+  let prismaService: PrismaService;
+  let configService: AppConfigService;
+
+  const DOMAIN = {
+    id: 'domain-id',
+    name: 'go.example.com',
+    userId: 'user-id',
+    verified: false,
+    verificationToken: 'token',
+    verifiedAt: null,
+    createdAt: new Date(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [AppConfigModule],
+      providers: [
+        DomainsService,
+        {
+          provide: PrismaService,
+          useValue: {
+            domain: {
+              findFirst: jest.fn(),
+              create: jest.fn(),
+              update: jest.fn().mockImplementation(({ data }) => ({ ...DOMAIN, ...data })),
+            },
+          },
+        },
+        {
+          provide: DnsResolver,
+          useValue: new StubDnsResolver({
+            '_reduced-verification.go.example.com': ['some-other-record', 'reduced-verification=token'],
+          }),
+        },
+      ],
+    }).compile();
+
+    service = module.get<DomainsService>(DomainsService);
+    prismaService = module.get<PrismaService>(PrismaService);
+    configService = module.get<AppConfigService>(AppConfigService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should create the domain with a random verification token', async () => {
+      await service.create({ name: 'go.example.com', userId: 'user-id' });
+
+      expect(prismaService.domain.create).toHaveBeenCalledWith({
+        data: {
+          name: 'go.example.com',
+          userId: 'user-id',
+          verificationToken: expect.stringMatching(/^[a-f0-9]{32}$/),
+        },
+      });
+    });
+  });
+
+  describe('getVerificationRecord', () => {
+    it('should return the TXT record the user has to add', () => {
+      expect(service.getVerificationRecord(DOMAIN)).toStrictEqual({
+        type: 'TXT',
+        name: '_reduced-verification.go.example.com',
+        value: 'reduced-verification=token',
+      });
+    });
+  });
+
+  describe('verify', () => {
+    it('should mark the domain as verified when the TXT record matches', async () => {
+      const result = await service.verify(DOMAIN);
+
+      expect(prismaService.domain.update).toHaveBeenCalledWith({
+        where: { id: DOMAIN.id },
+        data: { verified: true, verifiedAt: expect.any(Date) },
+      });
+      expect(result.verified).toBe(true);
+    });
+
+    it('should return null when the TXT record does not match', async () => {
+      const result = await service.verify({ ...DOMAIN, verificationToken: 'other-token' });
+
+      expect(prismaService.domain.update).not.toHaveBeenCalled();
+      expect(result).toBeNull();
+    });
+
+    it('should return null when the TXT record does not exist', async () => {
+      const result = await service.verify({ ...DOMAIN, name: 'other.example.com' });
+
+      expect(prismaService.domain.update).not.toHaveBeenCalled();
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('findVerifiedByHost', () => {
+    beforeEach(() => {
+      jest.spyOn(configService, 'getConfig').mockReturnValue({ front: { domain: 'reduced.to' } } as any);
+    });
+
+    it('should not query the database for the default domain', async () => {
+      await expect(service.findVerifiedByHost('reduced.to')).resolves.toBeNull();
+      await expect(service.findVerifiedByHost(undefined)).resolves.toBeNull();
+
+      expect(prismaService.domain.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('should look up verified domains by the host name', async () => {
+      await service.findVerifiedByHost('Go.Example.com:443');
+
+      expect(prismaService.domain.findFirst).toHaveBeenCalledWith({
+        where: { name: 'go.example.com', verified: true },
+      });
+    });
+  });
+});
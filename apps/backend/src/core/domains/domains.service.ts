@@ -0,0 +1,150 @@
+import { Injectable } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { EntityService } from '../entity.service';
+import { Domain, Prisma, PrismaService } from '@reduced.to/prisma';
+import { AppConfigService } from '@reduced.to/config';
+import { getCustomDomain } from '@reduced.to/utils';
+import { DnsResolver } from './resolvers';
+
+export const VERIFICATION_RECORD_PREFIX = '_reduced-verification';
+export const VERIFICATION_VALUE_PREFIX = 'reduced-verification=';
+
+export interface VerificationRecord {
+  type: 'TXT';
+  name: string;
+  value: string;
+}
+
+@Injectable()
+export class DomainsService extends EntityService<Domain> {
+  constructor(prismaService: PrismaService, private readonly config: AppConfigService, private readonly dnsResolver: DnsResolver) {
+    super(prismaService);
+  }
+
+  get model(): string {
+    return 'domain';
+  }
+
+  get selectFields(): Partial<Record<keyof Prisma.DomainWhereInput, boolean>> {
+    return {
+      id: true,
+      name: true,
+      verified: true,
+      verificationToken: true,
+      verifiedAt: true,
+      createdAt: true,
+    };
+  }
+
+  get filterFields(): Partial<Record<keyof Prisma.DomainWhereInput, boolean>> {
+    return {
+      name: true,
+    };
+  }
+
+  findBy(opts: Prisma.DomainWhereInput): Promise<Domain> {
+    return this.prismaService.domain.findFirst({
+      where: opts,
+    });
+  }
+
+  findAllByUser(userId: string): Promise<Domain[]> {
+    return this.prismaService.domain.findMany({
+      where: {
+        userId,
+      },
+      orderBy: {
+        createdAt: 'asc',
+      },
+    });
+  }
+
+  count(where?: Prisma.DomainWhereInput): Promise<number> {
+    return this.prismaService.domain.count({ where });
+  }
+
+  countLinks(id: string): Promise<number> {
+    return this.prismaService.link.count({
+      where: {
+        domainId: id,
+      },
+    });
+  }
+
+  create({ name, userId }: { name: string; userId: string }): Promise<Domain> {
+    return this.prismaService.domain.create({
+      data: {
+        name,
+        userId,
+        verificationToken: randomBytes(16).toString('hex'),
+      },
+    });
+  }
+
+  delete(id: string): Promise<Domain> {
+    return this.prismaService.domain.delete({
+      where: {
+        id,
+      },
+    });
+  }
+
+  /**
+   * Finds a verified domain by its name.
+   * @param {string} name The hostname of the domain.
+   * @returns {Promise<Domain|null>} The domain if it exists and is verified, otherwise null.
+   */
+  findVerifiedByName(name?: string): Promise<Domain | null> {
+    if (!name) {
+      return Promise.resolve(null);
+    }
+
+    return this.prismaService.domain.findFirst({
+      where: {
+        name,
+        verified: true,
+      },
+    });
+  }
+
+  /**
+   * Resolves the custom domain a request was made to.
+   * @param {string} host The host header of the request.
+   * @returns {Promise<Domain|null>} The verified domain, null if the host is the default domain or is unknown.
+   */
+  findVerifiedByHost(host?: string): Promise<Domain | null> {
+    return this.findVerifiedByName(getCustomDomain(host, this.config.getConfig().front.domain));
+  }
+
+  getVerificationRecord({ name, verificationToken }: Pick<Domain, 'name' | 'verificationToken'>): VerificationRecord {
+    return {
+      type: 'TXT',
+      name: `${VERIFICATION_RECORD_PREFIX}.${name}`,
+      value: `${VERIFICATION_VALUE_PREFIX}${verificationToken}`,
+    };
+  }
+
+  /**
+   * Looks up the verification TXT record of the domain and marks it as verified when it matches.
+   * @param {Domain} domain The domain to verify.
+   * @returns {Promise<Domain|null>} The updated domain, null if the record was not found.
+   */
+  async verify(domain: Domain): Promise<Domain | null> {
+    const { name, value } = this.getVerificationRecord(domain);
+    const records = await this.dnsResolver.resolveTxt(name);
+
+    if (!records.some((record) => record.trim() === value)) {
+      return null;
+    }
+
+    return this.prismaService.domain.update({
+      where: {
+        id: domain.id,
+      },
+      data: {
+        verified: true,
+        verifiedAt: new Date(),
+      },
+    });
+  }
+}
@@ -0,0 +1,8 @@
+import { IsDefined, IsString, MaxLength } from 'class-validator';
+
+export class CreateDomainDto {
+  @IsString()
+  @IsDefined()
+  @MaxLength(253)
+  name: string;
+}
@@ -0,0 +1,8 @@
+export abstract class DnsResolver {
+  /**
+   * Resolves the TXT records of a hostname, every record is returned as a single string.
+   * Should resolve an empty array when the hostname has no TXT records, and reject with a ServiceUnavailableException when
+   * the lookup itself failed.
+   */
+  abstract resolveTxt(hostname: string): Promise<string[]>;
+}
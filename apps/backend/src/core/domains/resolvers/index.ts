@@ -0,0 +1,3 @@
+export * from './dns-resolver';
+export * from './node-dns.resolver';
+export * from './stub-dns.resolver';
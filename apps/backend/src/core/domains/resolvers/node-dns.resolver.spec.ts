@@ -0,0 +1,33 @@
+import { ServiceUnavailableException } from '@nestjs/common';
+import { resolveTxt } from 'dns/promises';
+import { NodeDnsResolver } from './node-dns.resolver';
+
+jest.mock('dns/promises', () => ({
+  resolveTxt: jest.fn(),
+}));
+
+const dnsError = (code: string) => Object.assign(new Error(`queryTxt ${code} example.com`), { code });
+
+describe('NodeDnsResolver', () => {
+  const resolver = new NodeDnsResolver();
+
+  it('should join the chunks of every record', async () => {
+    (resolveTxt as jest.Mock).mockResolvedValue([['reduced-to-verification=', 'token'], ['v=spf1 -all']]);
+
+    expect(await resolver.resolveTxt('example.com')).toEqual(['reduced-to-verification=token', 'v=spf1 -all']);
+  });
+
+  it('should resolve no records if the hostname does not exist or has no TXT records', async () => {
+    (resolveTxt as jest.Mock).mockRejectedValueOnce(dnsError('ENOTFOUND')).mockRejectedValueOnce(dnsError('ENODATA'));
+
+    expect(await resolver.resolveTxt('example.com')).toEqual([]);
+    expect(await resolver.resolveTxt('example.com')).toEqual([]);
+  });
+
+  it('should throw a service unavailable error if the lookup failed', async () => {
+    (resolveTxt as jest.Mock).mockRejectedValueOnce(dnsError('ESERVFAIL')).mockRejectedValueOnce(dnsError('ETIMEOUT'));
+
+    await expect(resolver.resolveTxt('example.com')).rejects.toThrow(ServiceUnavailableException);
+    await expect(resolver.resolveTxt('example.com')).rejects.toThrow('The DNS lookup failed, please try to verify the domain again later');
+  });
+});
@@ -0,0 +1,24 @@
+import { Injectable, ServiceUnavailableException } from '@nestjs/common';
+import { resolveTxt } from 'dns/promises';
+import { DnsResolver } from './dns-resolver';
+
+const NOT_FOUND_ERROR_CODES = ['ENOTFOUND', 'ENODATA'];
+
+@Injectable()
+export class NodeDnsResolver extends DnsResolver {
+  async resolveTxt(hostname: string): Promise<string[]> {
+    try {
+      const records = await resolveTxt(hostname);
+
+      // Long TXT records are split into chunks of 255 characters
+      return records.map((chunks) => chunks.join(''));
+    } catch (err) {
+      if (NOT_FOUND_ERROR_CODES.includes(err.code)) {
+        return [];
+      }
+
+      // Failures such as SERVFAIL or a timeout say nothing about the records, the lookup can be tried again
+      throw new ServiceUnavailableException('The DNS lookup failed, please try to verify the domain again later');
+    }
+  }
+}
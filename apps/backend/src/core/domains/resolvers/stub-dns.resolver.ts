@@ -0,0 +1,28 @@
+import { Injectable } from '@nestjs/common';
+import { DnsResolver } from './dns-resolver';
+
+/**
+ * Resolves records from a static map instead of the DNS, useful for local development and tests.
+ */
+@Injectable()
+export class StubDnsResolver extends DnsResolver {
+  constructor(private readonly records: Record<string, string[]> = {}) {
+    super();
+  }
+
+  static fromJson(json?: string): StubDnsResolver {
+    if (!json) {
+      return new StubDnsResolver();
+    }
+
+    try {
+      return new StubDnsResolver(JSON.parse(json));
+    } catch (err) {
+      throw new Error(`Invalid stub dns records: ${err.message}`);
+    }
+  }
+
+  async resolveTxt(hostname: string): Promise<string[]> {
+    return this.records[hostname.toLowerCase()] ?? [];
+  }
+}
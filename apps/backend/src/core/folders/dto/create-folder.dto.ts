@@ -0,0 +1,9 @@
+import { IsDefined, IsString, MaxLength, MinLength } from 'class-validator';
+
+export class CreateFolderDto {
+  @IsString()
+  @IsDefined()
+  @MinLength(1)
+  @MaxLength(50)
+  name: string;
+}
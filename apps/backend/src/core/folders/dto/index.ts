@@ -0,0 +1 @@
+export * from './create-folder.dto';
@@ -0,0 +1,118 @@
+import request from 'supertest';
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { Role } from '@reduced.to/prisma';
+import { AppConfigModule } from '@reduced.to/config';
+import { AppLoggerModule } from '@reduced.to/logger';
+import { JwtAuthGuard } from '../../auth/guards/jwt.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { FoldersController } from './folders.controller';
+import { FoldersService } from './folders.service';
+
+describe('FoldersController', () => {
+  let app: INestApplication;
+  let foldersService: FoldersService;
+
+  const FOLDER = {
+    id: 'folder-id',
+    name: 'Campaigns',
+    userId: 'user-id',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [AppConfigModule, AppLoggerModule],
+      controllers: [FoldersController],
+      providers: [
+        {
+          provide: FoldersService,
+          useValue: {
+            findAllByUser: jest.fn().mockResolvedValue([{ ...FOLDER, _count: { links: 3 } }]),
+            findBy: jest.fn().mockResolvedValue(null),
+            create: jest.fn().mockResolvedValue(FOLDER),
+            update: jest.fn().mockResolvedValue(FOLDER),
+            delete: jest.fn().mockResolvedValue(FOLDER),
+          },
+        },
+      ],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue({
+        canActivate: (context) => {
+          const req = context.switchToHttp().getRequest();
+          req.user = { id: 'user-id', role: Role.USER };
+          return true;
+        },
+      })
+      .overrideGuard(RolesGuard)
+      .useValue({
+        canActivate: () => {
+          return true;
+        },
+      })
+      .compile();
+
+    app = module.createNestApplication();
+
+    app.useGlobalPipes(new ValidationPipe({ transform: true }));
+    await app.init();
+
+    foldersService = module.get<FoldersService>(FoldersService);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  describe('GET /folders', () => {
+    it('should return the folders of the user', async () => {
+      const response = await request(app.getHttpServer()).get('/folders').expect(200);
+
+      expect(foldersService.findAllByUser).toHaveBeenCalledWith('user-id');
+      expect(response.body).toEqual([{ ...FOLDER, _count: { links: 3 } }]);
+    });
+  });
+
+  describe('POST /folders', () => {
+    it('should create a folder', async () => {
+      await request(app.getHttpServer()).post('/folders').send({ name: 'Campaigns' }).expect(201);
+
+      expect(foldersService.create).toHaveBeenCalledWith({ name: 'Campaigns', userId: 'user-id' });
+    });
+
+    it('should not allow folders that already exist', async () => {
+      jest.spyOn(foldersService, 'findBy').mockResolvedValue(FOLDER as any);
+
+      await request(app.getHttpServer()).post('/folders').send({ name: 'Campaigns' }).expect(400);
+      expect(foldersService.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH /folders/:id', () => {
+    it('should rename the folder', async () => {
+      jest.spyOn(foldersService, 'findBy').mockResolvedValueOnce(FOLDER as any);
+
+      await request(app.getHttpServer()).patch(`/folders/${FOLDER.id}`).send({ name: 'Archive' }).expect(200);
+      expect(foldersService.update).toHaveBeenCalledWith(FOLDER.id, { name: 'Archive' });
+    });
+
+    it('should return 401 if the folder does not belong to the user', async () => {
+      await request(app.getHttpServer()).patch(`/folders/${FOLDER.id}`).send({ name: 'Archive' }).expect(401);
+      expect(foldersService.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /folders/:id', () => {
+    it('should delete the folder', async () => {
+      jest.spyOn(foldersService, 'findBy').mockResolvedValue(FOLDER as any);
+
+      await request(app.getHttpServer()).delete(`/folders/${FOLDER.id}`).expect(200);
+      expect(foldersService.delete).toHaveBeenCalledWith(FOLDER.id);
+    });
+
+    it('should return 401 if the folder does not belong to the user', async () => {
+      await request(app.getHttpServer()).delete(`/folders/${FOLDER.id}`).expect(401);
+      expect(foldersService.delete).not.toHaveBeenCalled();
+    });
+  });
+});
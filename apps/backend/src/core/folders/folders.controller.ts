@@ -0,0 +1,71 @@
+import { BadRequestException, Body, Controller, Delete, Get, Param, Patch, Post, UnauthorizedException, UseGuards } from '@nestjs/common';
+import { JwtAuthGuard } from '../../auth/guards/jwt.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { Folder, Role } from '@reduced.to/prisma';
+import { Roles, UserCtx } from '../../shared/decorators';
+import { UserContext } from '../../auth/interfaces/user-context';
+import { AppLoggerService } from '@reduced.to/logger';
+import { FoldersService, FolderWithCount } from './folders.service';
+import { CreateFolderDto } from './dto';
+
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller({
+  path: 'folders',
+  version: '1',
+})
+export class FoldersController {
+  constructor(private readonly foldersService: FoldersService, private readonly logger: AppLoggerService) {}
+
+  @Get()
+  @Roles(Role.ADMIN, Role.USER)
+  async findAll(@UserCtx() user: UserContext): Promise<FolderWithCount[]> {
+    return this.foldersService.findAllByUser(user.id);
+  }
+
+  @Post()
+  @Roles(Role.ADMIN, Role.USER)
+  async create(@UserCtx() user: UserContext, @Body() { name }: CreateFolderDto): Promise<Folder> {
+    const folderName = name.trim();
+
+    const existingFolder = await this.foldersService.findBy({ userId: user.id, name: folderName });
+    if (existingFolder) {
+      throw new BadRequestException('This folder already exists');
+    }
+
+    this.logger.log(`User ${user.id} is creating the folder ${folderName}`);
+    return this.foldersService.create({ name: folderName, userId: user.id });
+  }
+
+  // Renames the folder
+  @Patch(':id')
+  @Roles(Role.ADMIN, Role.USER)
+  async update(@UserCtx() user: UserContext, @Param('id') id: string, @Body() { name }: CreateFolderDto): Promise<Folder> {
+    const folder = await this.foldersService.findBy({ userId: user.id, id });
+
+    if (!folder) {
+      throw new UnauthorizedException();
+    }
+
+    const folderName = name.trim();
+    if (folderName !== folder.name) {
+      const existingFolder = await this.foldersService.findBy({ userId: user.id, name: folderName });
+      if (existingFolder) {
+        throw new BadRequestException('This folder already exists');
+      }
+    }
+
+    return this.foldersService.update(id, { name: folderName });
+  }
+
+  @Delete(':id')
+  @Roles(Role.ADMIN, Role.USER)
+  async delete(@UserCtx() user: UserContext, @Param('id') id: string): Promise<Folder> {
+    const folder = await this.foldersService.findBy({ userId: user.id, id });
+
+    if (!folder) {
+      throw new UnauthorizedException();
+    }
+
+    return this.foldersService.delete(id);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../../auth/auth.module';
+import { PrismaModule } from '@reduced.to/prisma';
+import { FoldersController } from './folders.controller';
+import { FoldersService } from './folders.service';
+
+@Module({
+  imports: [AuthModule, PrismaModule],
+  controllers: [FoldersController],
+  providers: [FoldersService],
+  exports: [FoldersService],
+})
+export class FoldersModule {}
@@ -0,0 +1,78 @@
+import { Injectable } from '@nestjs/common';
+import { EntityService } from '../entity.service';
+import { Folder, Prisma, PrismaService } from '@reduced.to/prisma';
+
+export type FolderWithCount = Folder & { _count: { links: number } };
+
+@Injectable()
+export class FoldersService extends EntityService<Folder> {
+  constructor(prismaService: PrismaService) {
+    super(prismaService);
+  }
+
+  get model(): string {
+    return 'folder';
+  }
+
+  get selectFields(): Partial<Record<keyof Prisma.FolderWhereInput, boolean>> {
+    return {
+      id: true,
+      name: true,
+      createdAt: true,
+    };
+  }
+
+  get filterFields(): Partial<Record<keyof Prisma.FolderWhereInput, boolean>> {
+    return {
+      name: true,
+    };
+  }
+
+  findBy(opts: Prisma.FolderWhereInput): Promise<Folder> {
+    return this.prismaService.folder.findFirst({
+      where: opts,
+    });
+  }
+
+  findAllByUser(userId: string): Promise<FolderWithCount[]> {
+    return this.prismaService.folder.findMany({
+      where: {
+        userId,
+      },
+      include: {
+        _count: {
+          select: {
+            links: true,
+          },
+        },
+      },
+      orderBy: {
+        name: 'asc',
+      },
+    });
+  }
+
+  create(data: { name: string; userId: string }): Promise<Folder> {
+    return this.prismaService.folder.create({
+      data,
+    });
+  }
+
+  update(id: string, data: Prisma.FolderUpdateInput): Promise<Folder> {
+    return this.prismaService.folder.update({
+      where: {
+        id,
+      },
+      data,
+    });
+  }
+
+  // The links of the folder are kept, they are moved out of the folder
+  delete(id: string): Promise<Folder> {
+    return this.prismaService.folder.delete({
+      where: {
+        id,
+      },
+    });
+  }
+}
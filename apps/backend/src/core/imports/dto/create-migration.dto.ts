@@ -0,0 +1,18 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ImportKeyConflict, MigrationSource } from '@reduced.to/prisma';
+
+// The values are sent as form fields, they are accepted in any case
+const toUpperCase = ({ value }) => (typeof value === 'string' ? value.toUpperCase() : value);
+
+export class CreateMigrationDto {
+  @IsEnum(MigrationSource)
+  @Transform(toUpperCase)
+  source: MigrationSource;
+
+  // The original keys that cannot be kept are reported by default
+  @IsOptional()
+  @IsEnum(ImportKeyConflict)
+  @Transform(toUpperCase)
+  onKeyConflict?: ImportKeyConflict;
+}
@@ -0,0 +1,54 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+// Header of the column of every field in the uploaded file, the default headers are used for the missing fields
+export class ImportMappingDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  url?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  key?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  description?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  utm_ref?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  utm_source?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  utm_medium?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  utm_campaign?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  utm_term?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  utm_content?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  expirationTime?: string;
+}
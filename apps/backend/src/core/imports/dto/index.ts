@@ -0,0 +1,2 @@
+export * from './import-mapping.dto';
+export * from './create-migration.dto';
@@ -0,0 +1,190 @@
+import request from 'supertest';
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { ImportJobStatus, ImportKeyConflict, MigrationSource, Role } from '@reduced.to/prisma';
+import { AppConfigModule } from '@reduced.to/config';
+import { AppLoggerModule } from '@reduced.to/logger';
+import { JwtAuthGuard } from '../../auth/guards/jwt.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { ImportsController } from './imports.controller';
+import { ImportsService } from './imports.service';
+
+describe('ImportsController', () => {
+  let app: INestApplication;
+  let importsService: ImportsService;
+
+  const MOCK_USER_CONTEXT = {
+    id: 'user-id',
+    role: Role.USER,
+    verified: true,
+  };
+
+  const JOB = {
+    id: 'job-id',
+    fileName: 'links.csv',
+    status: ImportJobStatus.PENDING,
+    totalRows: 2,
+    processedRows: 0,
+    createdCount: 0,
+    failedCount: 0,
+    userId: 'user-id',
+  };
+
+  const CSV = Buffer.from('url,alias\nhttps://reduced.to,nice\nhttps://google.com,\n');
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [AppConfigModule, AppLoggerModule],
+      controllers: [ImportsController],
+      providers: [
+        {
+          provide: ImportsService,
+          useValue: {
+            findAllByUser: jest.fn().mockResolvedValue([JOB]),
+            findBy: jest.fn().mockResolvedValue(null),
+            create: jest.fn().mockResolvedValue(JOB),
+            findErrors: jest.fn().mockResolvedValue([]),
+          },
+        },
+      ],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue({
+        canActivate: (context) => {
+          const req = context.switchToHttp().getRequest();
+          req.user = MOCK_USER_CONTEXT;
+          return true;
+        },
+      })
+      .overrideGuard(RolesGuard)
+      .useValue({
+        canActivate: () => {
+          return true;
+        },
+      })
+      .compile();
+
+    app = module.createNestApplication();
+
+    app.useGlobalPipes(new ValidationPipe({ transform: true, whitelist: true }));
+    await app.init();
+
+    importsService = module.get<ImportsService>(ImportsService);
+  });
+
+  afterEach(async () => {
+    MOCK_USER_CONTEXT.verified = true;
+    await app.close();
+  });
+
+  describe('POST /imports', () => {
+    it('should create an import job with the mapped rows', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/imports')
+        .attach('file', CSV, 'links.csv')
+        .field('key', 'alias')
+        .expect(201);
+
+      expect(importsService.create).toHaveBeenCalledWith('user-id', 'links.csv', [
+        { row: 2, values: { url: 'https://reduced.to', key: 'nice' } },
+        { row: 3, values: { url: 'https://google.com' } },
+      ]);
+      expect(response.body).toEqual(JOB);
+    });
+
+    it('should not allow other file types', async () => {
+      await request(app.getHttpServer()).post('/imports').attach('file', CSV, 'links.txt').expect(400);
+      expect(importsService.create).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 if the file cannot be mapped', async () => {
+      await request(app.getHttpServer()).post('/imports').attach('file', CSV, 'links.csv').field('url', 'destination').expect(400);
+      expect(importsService.create).not.toHaveBeenCalled();
+    });
+
+    it('should not allow unverified users', async () => {
+      MOCK_USER_CONTEXT.verified = false;
+
+      await request(app.getHttpServer()).post('/imports').attach('file', CSV, 'links.csv').expect(400);
+      expect(importsService.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /imports/migrations', () => {
+    const EXPORT = Buffer.from('Slashtag,Destination,Clicks\npromo,https://reduced.to,12\n');
+
+    it('should create a migration job with the keys and clicks of the links', async () => {
+      await request(app.getHttpServer())
+        .post('/imports/migrations')
+        .attach('file', EXPORT, 'rebrandly.csv')
+        .field('source', 'rebrandly')
+        .field('onKeyConflict', 'generate')
+        .expect(201);
+
+      expect(importsService.create).toHaveBeenCalledWith(
+        'user-id',
+        'rebrandly.csv',
+        [{ row: 2, values: { url: 'https://reduced.to', key: 'promo' }, clicks: 12 }],
+        { source: MigrationSource.REBRANDLY, onKeyConflict: ImportKeyConflict.GENERATE }
+      );
+    });
+
+    it('should report the keys that cannot be kept by default', async () => {
+      await request(app.getHttpServer())
+        .post('/imports/migrations')
+        .attach('file', EXPORT, 'rebrandly.csv')
+        .field('source', 'REBRANDLY')
+        .expect(201);
+
+      expect(importsService.create).toHaveBeenCalledWith('user-id', 'rebrandly.csv', expect.any(Array), {
+        source: MigrationSource.REBRANDLY,
+        onKeyConflict: ImportKeyConflict.REPORT,
+      });
+    });
+
+    it('should return 400 if the shortener is not supported', async () => {
+      await request(app.getHttpServer())
+        .post('/imports/migrations')
+        .attach('file', EXPORT, 'export.csv')
+        .field('source', 'tinyurl')
+        .expect(400);
+      expect(importsService.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /imports/:id', () => {
+    it('should return the progress of the job', async () => {
+      jest.spyOn(importsService, 'findBy').mockResolvedValue(JOB as any);
+
+      const response = await request(app.getHttpServer()).get(`/imports/${JOB.id}`).expect(200);
+
+      expect(importsService.findBy).toHaveBeenCalledWith({ userId: 'user-id', id: JOB.id });
+      expect(response.body).toEqual(JOB);
+    });
+
+    it('should return 401 if the job does not belong to the user', async () => {
+      await request(app.getHttpServer()).get(`/imports/${JOB.id}`).expect(401);
+    });
+  });
+
+  describe('GET /imports/:id/report', () => {
+    it('should return the errors of the rows as csv', async () => {
+      jest.spyOn(importsService, 'findBy').mockResolvedValue(JOB as any);
+      jest
+        .spyOn(importsService, 'findErrors')
+        .mockResolvedValue([
+          { id: 'error-id', jobId: JOB.id, row: 3, url: 'https://bad.com', message: 'This url is not safe to shorten!' },
+        ]);
+
+      const response = await request(app.getHttpServer()).get(`/imports/${JOB.id}/report`).expect(200);
+
+      expect(response.headers['content-type']).toContain('text/csv');
+      expect(response.text).toEqual('row,url,error\n3,https://bad.com,This url is not safe to shorten!');
+    });
+
+    it('should return 401 if the job does not belong to the user', async () => {
+      await request(app.getHttpServer()).get(`/imports/${JOB.id}/report`).expect(401);
+      expect(importsService.findErrors).not.toHaveBeenCalled();
+    });
+  });
+});
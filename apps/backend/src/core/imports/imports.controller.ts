@@ -0,0 +1,121 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  Header,
+  Param,
+  Post,
+  UnauthorizedException,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ImportJob, ImportKeyConflict, Role } from '@reduced.to/prisma';
+import { AppLoggerService } from '@reduced.to/logger';
+import { utils } from 'xlsx';
+import { JwtAuthGuard } from '../../auth/guards/jwt.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { Roles, UserCtx } from '../../shared/decorators';
+import { UserContext } from '../../auth/interfaces/user-context';
+import { ImportsService } from './imports.service';
+import { CreateMigrationDto, ImportMappingDto } from './dto';
+import { parseImportFile } from './parser/parser';
+import { parseMigrationFile } from './parser/migration';
+
+export const MAX_IMPORT_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+
+// Fields of the file parsed by multer, kept in memory until the rows are stored
+interface UploadedImportFile {
+  originalname: string;
+  buffer: Buffer;
+}
+
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller({
+  path: 'imports',
+  version: '1',
+})
+export class ImportsController {
+  constructor(private readonly importsService: ImportsService, private readonly logger: AppLoggerService) {}
+
+  @Get()
+  @Roles(Role.ADMIN, Role.USER)
+  async findAll(@UserCtx() user: UserContext): Promise<ImportJob[]> {
+    return this.importsService.findAllByUser(user.id);
+  }
+
+  @Post()
+  @Roles(Role.ADMIN, Role.USER)
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_IMPORT_FILE_SIZE } }))
+  async create(
+    @UserCtx() user: UserContext,
+    @UploadedFile() file: UploadedImportFile,
+    @Body() mapping: ImportMappingDto
+  ): Promise<ImportJob> {
+    this.checkUpload(user, file);
+
+    // The rows are only parsed here, they are validated one by one by the import task
+    const rows = parseImportFile(file.buffer, mapping);
+
+    this.logger.log(`User ${user.id} is importing ${rows.length} links from ${file.originalname}`);
+    return this.importsService.create(user.id, file.originalname, rows);
+  }
+
+  @Post('migrations')
+  @Roles(Role.ADMIN, Role.USER)
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_IMPORT_FILE_SIZE } }))
+  async createMigration(
+    @UserCtx() user: UserContext,
+    @UploadedFile() file: UploadedImportFile,
+    @Body() { source, onKeyConflict = ImportKeyConflict.REPORT }: CreateMigrationDto
+  ): Promise<ImportJob> {
+    this.checkUpload(user, file);
+
+    const rows = parseMigrationFile(file.buffer, source);
+
+    this.logger.log(`User ${user.id} is migrating ${rows.length} links from ${source}`);
+    return this.importsService.create(user.id, file.originalname, rows, { source, onKeyConflict });
+  }
+
+  @Get(':id')
+  @Roles(Role.ADMIN, Role.USER)
+  async findOne(@UserCtx() user: UserContext, @Param('id') id: string): Promise<ImportJob> {
+    const job = await this.importsService.findBy({ userId: user.id, id });
+
+    if (!job) {
+      throw new UnauthorizedException();
+    }
+
+    return job;
+  }
+
+  @Get(':id/report')
+  @Roles(Role.ADMIN, Role.USER)
+  @Header('Content-Type', 'text/csv')
+  @Header('Content-Disposition', 'attachment; filename="import-report.csv"')
+  async report(@UserCtx() user: UserContext, @Param('id') id: string): Promise<string> {
+    const job = await this.importsService.findBy({ userId: user.id, id });
+
+    if (!job) {
+      throw new UnauthorizedException();
+    }
+
+    const errors = await this.importsService.findErrors(job.id);
+    const sheet = utils.aoa_to_sheet([['row', 'url', 'error'], ...errors.map(({ row, url, message }) => [row, url || '', message])]);
+
+    return utils.sheet_to_csv(sheet);
+  }
+
+  private checkUpload(user: UserContext, file?: UploadedImportFile) {
+    // Only verified users can create shortened urls
+    if (!user.verified) {
+      throw new BadRequestException('You must be verified in to create a shortened url');
+    }
+
+    if (!file || !/\.(csv|xlsx|xls)$/i.test(file.originalname)) {
+      throw new BadRequestException('Only CSV and XLSX files are supported');
+    }
+  }
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../../auth/auth.module';
+import { PrismaModule } from '@reduced.to/prisma';
+import { SafeUrlModule } from '@reduced.to/safe-url';
+import { UsageModule } from '@reduced.to/subscription-manager';
+import { ShortenerModule } from '../../shortener/shortener.module';
+import { ImportsController } from './imports.controller';
+import { ImportsService } from './imports.service';
+import { ImportsProcessor } from './imports.processor';
+
+@Module({
+  imports: [AuthModule, PrismaModule, SafeUrlModule.forRootAsync(), UsageModule, ShortenerModule],
+  controllers: [ImportsController],
+  providers: [ImportsService, ImportsProcessor],
+  exports: [ImportsService],
+})
+export class ImportsModule {}
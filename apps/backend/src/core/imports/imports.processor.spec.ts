@@ -0,0 +1,309 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { useContainer } from 'class-validator';
+import { ImportJob, ImportJobStatus, ImportKeyConflict, MigrationSource, Role } from '@reduced.to/prisma';
+import { AppConfigModule, AppConfigService } from '@reduced.to/config';
+import { AppLoggerModule } from '@reduced.to/logger';
+import { SafeUrlService } from '@reduced.to/safe-url';
+import { UsageService } from '@reduced.to/subscription-manager';
+import { ShortenerService } from '../../shortener/shortener.service';
+import { IsNotReservedKeyConstraint } from '../../shared/decorators';
+import { ReservedKeysService } from '../reserved-keys/reserved-keys.service';
+import { ImportsProcessor, IMPORT_BATCH_SIZE } from './imports.processor';
+import { ImportsService } from './imports.service';
+import { ImportRow } from './parser/parser';
+
+describe('ImportsProcessor', () => {
+  let processor: ImportsProcessor;
+  let importsService: ImportsService;
+  let shortenerService: ShortenerService;
+  let safeUrlService: SafeUrlService;
+  let usageService: UsageService;
+  let configService: AppConfigService;
+
+  const USER = { id: 'user-id', email: 'user@reduced.to', name: 'User', role: Role.USER, verified: true, plan: 'PRO' as const };
+
+  const IMPORT_ROW = { jobId: 'job-id', index: 0 };
+
+  // The rows that were not processed yet are returned by the service, like the rows left in the database
+  const createJob = (rows: ImportRow[], processedRows = 0, migration: Partial<ImportJob> = {}) => {
+    jest
+      .spyOn(importsService, 'findRows')
+      .mockResolvedValue(
+        rows
+          .slice(processedRows, processedRows + IMPORT_BATCH_SIZE)
+          .map((data, index) => ({ index: processedRows + index, imported: false, data }))
+      );
+
+    return {
+      id: 'job-id',
+      userId: USER.id,
+      status: ImportJobStatus.PENDING,
+      source: null,
+      onKeyConflict: ImportKeyConflict.REPORT,
+      ...migration,
+      totalRows: rows.length,
+      processedRows,
+    } as unknown as ImportJob;
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [AppConfigModule, AppLoggerModule],
+      providers: [
+        ImportsProcessor,
+        IsNotReservedKeyConstraint,
+        {
+          provide: ReservedKeysService,
+          useValue: {
+            isReserved: jest.fn().mockResolvedValue(false),
+          },
+        },
+        {
+          provide: ImportsService,
+          useValue: {
+            findNextJob: jest.fn().mockResolvedValue(null),
+            claimJob: jest.fn().mockResolvedValue(true),
+            findRows: jest.fn().mockResolvedValue([]),
+            getUserContext: jest.fn().mockResolvedValue(USER),
+            saveProgress: jest.fn(),
+            fail: jest.fn(),
+          },
+        },
+        {
+          provide: ShortenerService,
+          useValue: {
+            isKeyAvailable: jest.fn().mockResolvedValue(true),
+            createUsersShortenedUrl: jest.fn().mockResolvedValue({ key: 'key' }),
+          },
+        },
+        {
+          provide: SafeUrlService,
+          useValue: {
+            isSafeUrl: jest.fn().mockResolvedValue(true),
+          },
+        },
+        {
+          provide: UsageService,
+          useValue: {
+            isEligibleToCreateLink: jest.fn().mockResolvedValue(true),
+          },
+        },
+      ],
+    }).compile();
+
+    // The keys are validated with the reserved keys of the container
+    useContainer(module, { fallbackOnErrors: true });
+
+    processor = module.get<ImportsProcessor>(ImportsProcessor);
+    importsService = module.get<ImportsService>(ImportsService);
+    shortenerService = module.get<ShortenerService>(ShortenerService);
+    safeUrlService = module.get<SafeUrlService>(SafeUrlService);
+    usageService = module.get<UsageService>(UsageService);
+    configService = module.get<AppConfigService>(AppConfigService);
+
+    jest.spyOn(configService, 'getConfig').mockReturnValue({ safeUrl: { enable: true } } as any);
+  });
+
+  it('should import the valid rows and report the others', async () => {
+    jest.spyOn(safeUrlService, 'isSafeUrl').mockImplementation(async (url) => url !== 'https://malware.com');
+
+    const job = createJob([
+      { row: 2, values: { url: 'https://reduced.to', utm_source: 'newsletter' } },
+      { row: 3, values: { url: 'not a url' } },
+      { row: 4, values: { url: 'https://malware.com' } },
+      { row: 5, values: { url: 'https://google.com', expirationTime: '2000-01-01' } },
+    ]);
+
+    await processor.processBatch(job);
+
+    expect(shortenerService.createUsersShortenedUrl).toHaveBeenCalledTimes(1);
+    expect(shortenerService.createUsersShortenedUrl).toHaveBeenCalledWith(
+      USER,
+      expect.objectContaining({ url: 'https://reduced.to', utm_source: 'newsletter' }),
+      undefined,
+      IMPORT_ROW
+    );
+    expect(importsService.saveProgress).toHaveBeenCalledWith(job, 4, 1, [
+      { row: 3, url: 'not a url', message: 'Url is invalid' },
+      { row: 4, url: 'https://malware.com', message: 'This url is not safe to shorten!' },
+      { row: 5, url: 'https://google.com', message: 'Expiration time must be in the future' },
+    ]);
+  });
+
+  it('should only process the next batch of rows', async () => {
+    const rows = Array.from({ length: IMPORT_BATCH_SIZE + 10 }, (_, index) => ({ row: index + 2, values: { url: 'https://reduced.to' } }));
+    const job = createJob(rows, IMPORT_BATCH_SIZE);
+
+    await processor.processBatch(job);
+
+    expect(importsService.findRows).toHaveBeenCalledWith('job-id', IMPORT_BATCH_SIZE);
+    expect(shortenerService.createUsersShortenedUrl).toHaveBeenCalledTimes(10);
+    expect(importsService.saveProgress).toHaveBeenCalledWith(job, 10, 10, []);
+  });
+
+  it('should not import the rows of a batch claimed again twice', async () => {
+    const job = createJob([
+      { row: 2, values: { url: 'https://reduced.to' } },
+      { row: 3, values: { url: 'https://google.com' } },
+    ]);
+    jest.spyOn(importsService, 'findRows').mockResolvedValue([
+      { index: 0, imported: true, data: { row: 2, values: { url: 'https://reduced.to' } } },
+      { index: 1, imported: false, data: { row: 3, values: { url: 'https://google.com' } } },
+    ]);
+
+    await processor.processBatch(job);
+
+    expect(shortenerService.createUsersShortenedUrl).toHaveBeenCalledTimes(1);
+    expect(shortenerService.createUsersShortenedUrl).toHaveBeenCalledWith(
+      USER,
+      expect.objectContaining({ url: 'https://google.com' }),
+      undefined,
+      { jobId: 'job-id', index: 1 }
+    );
+    expect(importsService.saveProgress).toHaveBeenCalledWith(job, 2, 2, []);
+  });
+
+  it('should fail the job if its rows are missing', async () => {
+    const job = createJob([{ row: 2, values: { url: 'https://reduced.to' } }]);
+    jest.spyOn(importsService, 'findRows').mockResolvedValue([]);
+
+    await processor.processBatch(job);
+
+    expect(importsService.fail).toHaveBeenCalledWith('job-id');
+    expect(importsService.saveProgress).not.toHaveBeenCalled();
+  });
+
+  it('should check the plan features of every row', async () => {
+    jest.spyOn(importsService, 'getUserContext').mockResolvedValue({ ...USER, plan: 'FREE' });
+
+    const job = createJob([{ row: 2, values: { url: 'https://reduced.to', key: 'custom' } }]);
+    await processor.processBatch(job);
+
+    expect(shortenerService.createUsersShortenedUrl).not.toHaveBeenCalled();
+    expect(importsService.saveProgress).toHaveBeenCalledWith(job, 1, 0, [
+      { row: 2, url: 'https://reduced.to', message: 'key is not available for your plan' },
+    ]);
+  });
+
+  it('should stop creating links once the quota is reached', async () => {
+    jest.spyOn(usageService, 'isEligibleToCreateLink').mockResolvedValueOnce(true).mockResolvedValue(false);
+
+    const job = createJob([
+      { row: 2, values: { url: 'https://reduced.to' } },
+      { row: 3, values: { url: 'https://google.com' } },
+    ]);
+    await processor.processBatch(job);
+
+    expect(shortenerService.createUsersShortenedUrl).toHaveBeenCalledTimes(1);
+    expect(importsService.saveProgress).toHaveBeenCalledWith(job, 2, 1, [
+      { row: 3, url: 'https://google.com', message: 'You have reached your link creation limit' },
+    ]);
+  });
+
+  it('should not allow keys that already exist', async () => {
+    jest.spyOn(shortenerService, 'isKeyAvailable').mockResolvedValue(false);
+
+    const job = createJob([{ row: 2, values: { url: 'https://reduced.to', key: 'taken' } }]);
+    await processor.processBatch(job);
+
+    expect(importsService.saveProgress).toHaveBeenCalledWith(job, 1, 0, [
+      { row: 2, url: 'https://reduced.to', message: 'This short link already exists' },
+    ]);
+  });
+
+  it('should fail the job if its user no longer exists', async () => {
+    jest.spyOn(importsService, 'getUserContext').mockResolvedValue(null);
+
+    await processor.processBatch(createJob([{ row: 2, values: { url: 'https://reduced.to' } }]));
+
+    expect(importsService.fail).toHaveBeenCalledWith('job-id');
+    expect(importsService.saveProgress).not.toHaveBeenCalled();
+  });
+
+  it('should fail the job if a batch cannot be saved', async () => {
+    jest
+      .spyOn(importsService, 'findNextJob')
+      .mockResolvedValueOnce(createJob([{ row: 2, values: { url: 'https://reduced.to' } }]))
+      .mockResolvedValue(null);
+    jest.spyOn(importsService, 'saveProgress').mockRejectedValue(new Error('Database error'));
+
+    await processor.handleImports();
+
+    expect(importsService.fail).toHaveBeenCalledWith('job-id');
+  });
+
+  it('should skip the jobs claimed by another instance', async () => {
+    const job = createJob([{ row: 2, values: { url: 'https://reduced.to' } }]);
+    jest.spyOn(importsService, 'findNextJob').mockResolvedValueOnce(job).mockResolvedValue(null);
+    jest.spyOn(importsService, 'claimJob').mockResolvedValue(false);
+
+    await processor.handleImports();
+
+    expect(importsService.claimJob).toHaveBeenCalledWith(job);
+    expect(importsService.findRows).not.toHaveBeenCalled();
+    expect(importsService.saveProgress).not.toHaveBeenCalled();
+  });
+
+  describe('migrations', () => {
+    it('should keep the original key and clicks of the links', async () => {
+      const job = createJob([{ row: 2, values: { url: 'https://reduced.to', key: 'launch' }, clicks: 42 }], 0, {
+        source: MigrationSource.BITLY,
+      });
+      await processor.processBatch(job);
+
+      expect(shortenerService.createUsersShortenedUrl).toHaveBeenCalledWith(
+        USER,
+        expect.objectContaining({ url: 'https://reduced.to', key: 'launch' }),
+        { source: MigrationSource.BITLY, clicks: 42 },
+        IMPORT_ROW
+      );
+      expect(importsService.saveProgress).toHaveBeenCalledWith(job, 1, 1, []);
+    });
+
+    it('should report the keys that cannot be kept', async () => {
+      jest.spyOn(shortenerService, 'isKeyAvailable').mockResolvedValue(false);
+
+      const job = createJob([{ row: 2, values: { url: 'https://reduced.to', key: 'launch' } }], 0, { source: MigrationSource.REBRANDLY });
+      await processor.processBatch(job);
+
+      expect(shortenerService.createUsersShortenedUrl).not.toHaveBeenCalled();
+      expect(importsService.saveProgress).toHaveBeenCalledWith(job, 1, 0, [
+        { row: 2, url: 'https://reduced.to', message: 'The original key launch cannot be kept' },
+      ]);
+    });
+
+    it('should generate a key if the original one cannot be kept', async () => {
+      jest.spyOn(importsService, 'getUserContext').mockResolvedValue({ ...USER, plan: 'FREE' });
+
+      const job = createJob([{ row: 2, values: { url: 'https://reduced.to', key: 'launch' }, clicks: 3 }], 0, {
+        source: MigrationSource.YOURLS,
+        onKeyConflict: ImportKeyConflict.GENERATE,
+      });
+      await processor.processBatch(job);
+
+      expect(shortenerService.createUsersShortenedUrl).toHaveBeenCalledWith(
+        expect.objectContaining({ plan: 'FREE' }),
+        expect.not.objectContaining({ key: expect.anything() }),
+        { source: MigrationSource.YOURLS, clicks: 3 },
+        IMPORT_ROW
+      );
+      expect(importsService.saveProgress).toHaveBeenCalledWith(job, 1, 1, []);
+    });
+
+    it('should generate a key if the original one is too short', async () => {
+      const job = createJob([{ row: 2, values: { url: 'https://reduced.to', key: 'ab' } }], 0, {
+        source: MigrationSource.REBRANDLY,
+        onKeyConflict: ImportKeyConflict.GENERATE,
+      });
+      await processor.processBatch(job);
+
+      expect(shortenerService.isKeyAvailable).not.toHaveBeenCalled();
+      expect(shortenerService.createUsersShortenedUrl).toHaveBeenCalledWith(
+        USER,
+        expect.not.objectContaining({ key: expect.anything() }),
+        { source: MigrationSource.REBRANDLY, clicks: 0 },
+        IMPORT_ROW
+      );
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { Injectable } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { ImportJob, ImportJobError, ImportKeyConflict } from '@reduced.to/prisma';
+import { AppConfigService } from '@reduced.to/config';
+import { AppLoggerService } from '@reduced.to/logger';
+import { SafeUrlService } from '@reduced.to/safe-url';
+import { UsageService } from '@reduced.to/subscription-manager';
+import { UserContext } from '../../auth/interfaces/user-context';
+import { ShortenerDto } from '../../shortener/dto';
+import { ShortenerService } from '../../shortener/shortener.service';
+import { findNotPermittedField } from '../../shortener/guards/feature.guard';
+import { ImportsService } from './imports.service';
+import { ImportRow } from './parser/parser';
+
+export const IMPORT_BATCH_SIZE = 100;
+
+// Time spent on the imports by every run of the task, the next run picks up where it stopped
+const IMPORT_RUN_BUDGET_MS = 8000;
+
+@Injectable()
+export class ImportsProcessor {
+  private isRunning = false;
+
+  constructor(
+    private readonly importsService: ImportsService,
+    private readonly shortenerService: ShortenerService,
+    private readonly safeUrlService: SafeUrlService,
+    private readonly usageService: UsageService,
+    private readonly configService: AppConfigService,
+    private readonly logger: AppLoggerService
+  ) {}
+
+  /**
+   * Processes the pending imports in batches, a run is skipped while the previous one is still going.
+   */
+  @Cron(CronExpression.EVERY_10_SECONDS)
+  async handleImports() {
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+    const startedAt = Date.now();
+
+    try {
+      while (Date.now() - startedAt < IMPORT_RUN_BUDGET_MS) {
+        const job = await this.importsService.findNextJob();
+        if (!job) {
+          break;
+        }
+
+        // Another instance claimed the job first
+        if (!(await this.importsService.claimJob(job))) {
+          continue;
+        }
+
+        try {
+          await this.processBatch(job);
+        } catch (err) {
+          // The progress of the batch was not saved, so the job cannot be resumed safely
+          this.logger.error(`Failed to process import ${job.id}: ${err.message}`);
+          await this.importsService.fail(job.id);
+        }
+      }
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Imports the next batch of rows of the job, every row is validated on its own so a bad row does not fail the others.
+   */
+  async processBatch(job: ImportJob): Promise<void> {
+    const user = await this.importsService.getUserContext(job.userId);
+    if (!user) {
+      await this.importsService.fail(job.id);
+      return;
+    }
+
+    const rows = await this.importsService.findRows(job.id, IMPORT_BATCH_SIZE);
+    if (!rows.length) {
+      await this.importsService.fail(job.id);
+      return;
+    }
+
+    const errors: Pick<ImportJobError, 'row' | 'url' | 'message'>[] = [];
+
+    for (const { index, imported, data: row } of rows) {
+      // The link of the row was created before the claim of the batch timed out
+      if (imported) {
+        continue;
+      }
+
+      try {
+        await this.importRow(user, row, job, index);
+      } catch (err) {
+        errors.push({ row: row.row, url: row.values.url || null, message: err.message });
+      }
+    }
+
+    await this.importsService.saveProgress(job, rows.length, rows.length - errors.length, errors);
+
+    if (job.processedRows + rows.length >= job.totalRows) {
+      this.logger.log(`Import ${job.id} of user ${user.id} is done`);
+    }
+  }
+
+  /**
+   * Applies the same checks as the creation of a single link, the errors are shown in the report of the import.
+   * The row is marked as imported together with the creation of its link.
+   */
+  async importRow(
+    user: UserContext,
+    { values, clicks }: ImportRow,
+    { id, source, onKeyConflict }: Pick<ImportJob, 'id' | 'source' | 'onKeyConflict'>,
+    index: number
+  ): Promise<void> {
+    const { expirationTime, ...fields } = values;
+
+    // The original key of a migrated link is kept when it can be used
+    if (source && fields.key && !(await this.canKeepKey(user, fields.key))) {
+      if (onKeyConflict === ImportKeyConflict.REPORT) {
+        throw new Error(`The original key ${fields.key} cannot be kept`);
+      }
+
+      delete fields.key;
+    }
+
+    const body: Record<string, unknown> = { ...fields };
+    if (expirationTime) {
+      const time = /^\d+$/.test(expirationTime) ? Number(expirationTime) : new Date(expirationTime).getTime();
+      if (isNaN(time)) {
+        throw new Error('Expiration time is invalid');
+      }
+
+      if (time < new Date().getTime()) {
+        throw new Error('Expiration time must be in the future');
+      }
+
+      body.expirationTime = time;
+    }
+
+    const field = findNotPermittedField(user, body);
+    if (field) {
+      throw new Error(`${field} is not available for your plan`);
+    }
+
+    const shortenerDto = plainToInstance(ShortenerDto, body);
+    const [validationError] = await validate(shortenerDto, { whitelist: true });
+    if (validationError) {
+      throw new Error(Object.values(validationError.constraints || {})[0] || `${validationError.property} is invalid`);
+    }
+
+    if (this.configService.getConfig().safeUrl.enable && !(await this.safeUrlService.isSafeUrl(shortenerDto.url))) {
+      throw new Error('This url is not safe to shorten!');
+    }
+
+    if (shortenerDto.key && !(await this.shortenerService.isKeyAvailable(shortenerDto.key))) {
+      throw new Error('This short link already exists');
+    }
+
+    if (!(await this.usageService.isEligibleToCreateLink(user.id))) {
+      throw new Error('You have reached your link creation limit');
+    }
+
+    await this.shortenerService.createUsersShortenedUrl(user, shortenerDto, source ? { source, clicks: clicks || 0 } : undefined, {
+      jobId: id,
+      index,
+    });
+  }
+
+  /**
+   * Checks if the key can be used by the user: it must be valid, available and allowed by the plan of the user.
+   */
+  private async canKeepKey(user: UserContext, key: string): Promise<boolean> {
+    if (findNotPermittedField(user, { key })) {
+      return false;
+    }
+
+    const errors = await validate(plainToInstance(ShortenerDto, { key }), { skipMissingProperties: true });
+    return !errors.length && this.shortenerService.isKeyAvailable(key);
+  }
+}
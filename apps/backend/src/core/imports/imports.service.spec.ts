@@ -0,0 +1,78 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ImportJobStatus, PrismaService } from '@reduced.to/prisma';
+import { ImportsService } from './imports.service';
+
+describe('ImportsService', () => {
+  let service: ImportsService;
+  let prismaService: PrismaService;
+
+  const JOB = { id: 'job-id', status: ImportJobStatus.PENDING, updatedAt: new Date('2024-12-01'), processedRows: 100, totalRows: 150 };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImportsService,
+        {
+          provide: PrismaService,
+          useValue: {
+            $transaction: jest.fn(),
+            importJob: {
+              updateMany: jest.fn(),
+              update: jest.fn(),
+            },
+            importJobRow: {
+              deleteMany: jest.fn(),
+            },
+            importJobError: {
+              createMany: jest.fn(),
+            },
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ImportsService>(ImportsService);
+    prismaService = module.get<PrismaService>(PrismaService);
+  });
+
+  describe('claimJob', () => {
+    it('should only claim the job if it was not changed since it was found', async () => {
+      jest.spyOn(prismaService.importJob, 'updateMany').mockResolvedValue({ count: 1 });
+
+      const claimed = await service.claimJob(JOB);
+
+      expect(claimed).toBe(true);
+      expect(prismaService.importJob.updateMany).toHaveBeenCalledWith({
+        where: { id: JOB.id, status: ImportJobStatus.PENDING, updatedAt: JOB.updatedAt },
+        data: { status: ImportJobStatus.PROCESSING, updatedAt: expect.any(Date) },
+      });
+    });
+
+    it('should not claim the job if another instance claimed it first', async () => {
+      jest.spyOn(prismaService.importJob, 'updateMany').mockResolvedValue({ count: 0 });
+
+      expect(await service.claimJob(JOB)).toBe(false);
+    });
+  });
+
+  describe('saveProgress', () => {
+    it('should delete the processed rows and release the job for its next batch', async () => {
+      await service.saveProgress({ ...JOB, totalRows: 300 }, 100, 100, []);
+
+      expect(prismaService.importJobRow.deleteMany).toHaveBeenCalledWith({ where: { jobId: JOB.id, index: { lt: 200 } } });
+      expect(prismaService.importJob.update).toHaveBeenCalledWith({
+        where: { id: JOB.id },
+        data: expect.objectContaining({ status: ImportJobStatus.PENDING, processedRows: { increment: 100 } }),
+      });
+    });
+
+    it('should complete the job once all of its rows were processed', async () => {
+      await service.saveProgress(JOB, 50, 49, [{ row: 120, url: null, message: 'Url is invalid' }]);
+
+      expect(prismaService.importJob.update).toHaveBeenCalledWith({
+        where: { id: JOB.id },
+        data: expect.objectContaining({ status: ImportJobStatus.COMPLETED, completedAt: expect.any(Date) }),
+      });
+    });
+  });
+});
@@ -0,0 +1,245 @@
+import { Injectable } from '@nestjs/common';
+import { EntityService } from '../entity.service';
+import { ImportJob, ImportJobError, ImportJobRow, ImportJobStatus, Prisma, PrismaService } from '@reduced.to/prisma';
+import { UserContext } from '../../auth/interfaces/user-context';
+import { ImportRow } from './parser/parser';
+
+// A job whose batch was not saved by then is claimed again, e.g. after a restart of the instance that claimed it
+export const IMPORT_CLAIM_TIMEOUT_MS = 10 * 60 * 1000; // 10 minutes
+
+// Row of a job waiting to be processed, with whether its link was already created
+export type PendingImportRow = Pick<ImportJobRow, 'index' | 'imported'> & { data: ImportRow };
+
+const PROGRESS_FIELDS = {
+  id: true,
+  fileName: true,
+  source: true,
+  onKeyConflict: true,
+  status: true,
+  totalRows: true,
+  processedRows: true,
+  createdCount: true,
+  failedCount: true,
+  createdAt: true,
+  updatedAt: true,
+  completedAt: true,
+  userId: true,
+};
+
+@Injectable()
+export class ImportsService extends EntityService<ImportJob> {
+  constructor(prismaService: PrismaService) {
+    super(prismaService);
+  }
+
+  get model(): string {
+    return 'importJob';
+  }
+
+  get selectFields(): Partial<Record<keyof Prisma.ImportJobWhereInput, boolean>> {
+    return PROGRESS_FIELDS;
+  }
+
+  get filterFields(): Partial<Record<keyof Prisma.ImportJobWhereInput, boolean>> {
+    return {
+      fileName: true,
+    };
+  }
+
+  findBy(opts: Prisma.ImportJobWhereInput): Promise<ImportJob> {
+    return this.prismaService.importJob.findFirst({
+      where: opts,
+      select: PROGRESS_FIELDS,
+    });
+  }
+
+  findAllByUser(userId: string): Promise<ImportJob[]> {
+    return this.prismaService.importJob.findMany({
+      where: {
+        userId,
+      },
+      select: PROGRESS_FIELDS,
+      orderBy: {
+        createdAt: 'desc',
+      },
+      take: 10,
+    });
+  }
+
+  /**
+   * Stores the rows of an uploaded file, they are imported by the import task.
+   * @param {string} userId The id of the user.
+   * @param {string} fileName The name of the uploaded file.
+   * @param {ImportRow[]} rows The parsed rows of the file.
+   * @param {Pick<ImportJob, 'source' | 'onKeyConflict'>} migration The shortener that exported the file, for migrations.
+   */
+  create(userId: string, fileName: string, rows: ImportRow[], migration?: Pick<ImportJob, 'source' | 'onKeyConflict'>): Promise<ImportJob> {
+    return this.prismaService.importJob.create({
+      data: {
+        userId,
+        fileName,
+        ...migration,
+        rows: {
+          createMany: {
+            data: rows.map((row, index) => ({ index, data: row as unknown as Prisma.InputJsonObject })),
+          },
+        },
+        totalRows: rows.length,
+      },
+      select: PROGRESS_FIELDS,
+    });
+  }
+
+  /**
+   * Returns the job that waited the longest for its next batch, so large imports do not hold back the others.
+   * Jobs that are being processed are skipped, unless their claim timed out.
+   */
+  findNextJob(): Promise<ImportJob | null> {
+    return this.prismaService.importJob.findFirst({
+      where: {
+        OR: [
+          { status: ImportJobStatus.PENDING },
+          { status: ImportJobStatus.PROCESSING, updatedAt: { lt: new Date(Date.now() - IMPORT_CLAIM_TIMEOUT_MS) } },
+        ],
+      },
+      orderBy: {
+        updatedAt: 'asc',
+      },
+    });
+  }
+
+  /**
+   * Claims the next batch of a job, it only succeeds if the job was not changed since it was found.
+   * This way a batch is never processed by two instances at once.
+   * @param {Pick<ImportJob, 'id' | 'status' | 'updatedAt'>} job The job returned by findNextJob.
+   * @returns {Promise<boolean>} Whether the job was claimed.
+   */
+  async claimJob({ id, status, updatedAt }: Pick<ImportJob, 'id' | 'status' | 'updatedAt'>): Promise<boolean> {
+    const { count } = await this.prismaService.importJob.updateMany({
+      where: {
+        id,
+        status,
+        updatedAt,
+      },
+      data: {
+        status: ImportJobStatus.PROCESSING,
+        updatedAt: new Date(),
+      },
+    });
+
+    return count === 1;
+  }
+
+  /**
+   * Returns the next rows of a job, the rows are deleted once their batch is saved.
+   * A batch that was claimed again returns the rows imported before its claim timed out as well, they are marked as imported.
+   * @param {string} jobId The id of the job.
+   * @param {number} take The number of rows to return.
+   */
+  async findRows(jobId: string, take: number): Promise<PendingImportRow[]> {
+    const rows = await this.prismaService.importJobRow.findMany({
+      where: {
+        jobId,
+      },
+      orderBy: {
+        index: 'asc',
+      },
+      take,
+    });
+
+    return rows.map(({ index, imported, data }) => ({ index, imported, data: data as unknown as ImportRow }));
+  }
+
+  /**
+   * Returns the context of the owner of a job, with its current plan.
+   */
+  async getUserContext(userId: string): Promise<UserContext | null> {
+    const user = await this.prismaService.user.findUnique({
+      where: {
+        id: userId,
+      },
+      include: {
+        subscription: true,
+      },
+    });
+
+    if (!user) {
+      return null;
+    }
+
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      verified: user.verified,
+      plan: user.subscription?.plan || 'FREE',
+    };
+  }
+
+  /**
+   * Saves the result of a batch of rows and deletes them, the job waits for its next batch until all of them were processed.
+   */
+  async saveProgress(
+    job: Pick<ImportJob, 'id' | 'processedRows' | 'totalRows'>,
+    processed: number,
+    created: number,
+    errors: Pick<ImportJobError, 'row' | 'url' | 'message'>[]
+  ): Promise<void> {
+    const done = job.processedRows + processed >= job.totalRows;
+
+    await this.prismaService.$transaction([
+      this.prismaService.importJobError.createMany({
+        data: errors.map((error) => ({ ...error, jobId: job.id })),
+      }),
+      this.prismaService.importJobRow.deleteMany({
+        where: {
+          jobId: job.id,
+          index: { lt: job.processedRows + processed },
+        },
+      }),
+      this.prismaService.importJob.update({
+        where: {
+          id: job.id,
+        },
+        data: {
+          processedRows: { increment: processed },
+          createdCount: { increment: created },
+          failedCount: { increment: errors.length },
+          status: done ? ImportJobStatus.COMPLETED : ImportJobStatus.PENDING,
+          ...(done && { completedAt: new Date() }),
+        },
+      }),
+    ]);
+  }
+
+  async fail(id: string): Promise<void> {
+    await this.prismaService.$transaction([
+      this.prismaService.importJobRow.deleteMany({
+        where: {
+          jobId: id,
+        },
+      }),
+      this.prismaService.importJob.update({
+        where: {
+          id,
+        },
+        data: {
+          status: ImportJobStatus.FAILED,
+          completedAt: new Date(),
+        },
+      }),
+    ]);
+  }
+
+  findErrors(jobId: string): Promise<ImportJobError[]> {
+    return this.prismaService.importJobError.findMany({
+      where: {
+        jobId,
+      },
+      orderBy: {
+        row: 'asc',
+      },
+    });
+  }
+}
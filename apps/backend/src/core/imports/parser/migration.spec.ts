@@ -0,0 +1,51 @@
+import { MigrationSource } from '@reduced.to/prisma';
+import { parseMigrationFile } from './migration';
+
+describe('parseMigrationFile', () => {
+  const toCsv = (rows: string[][]) => Buffer.from(rows.map((row) => row.join(',')).join('\n'));
+
+  it('should read the keys of bitly links from their short urls', () => {
+    const file = toCsv([
+      ['Title', 'Long URL', 'Bitlink', 'Custom Bitlink', 'Clicks'],
+      ['Home', 'https://reduced.to', 'https://bit.ly/3xYz1Ab', 'https://bit.ly/launch', '"1,204"'],
+      ['', 'https://google.com', 'bit.ly/4aBc2De', '', '0'],
+    ]);
+
+    expect(parseMigrationFile(file, MigrationSource.BITLY)).toEqual([
+      { row: 2, values: { url: 'https://reduced.to', key: 'launch', description: 'Home' }, clicks: 1204 },
+      { row: 3, values: { url: 'https://google.com', key: '4aBc2De' } },
+    ]);
+  });
+
+  it('should read the slashtags of rebrandly links', () => {
+    const file = toCsv([
+      ['Slashtag', 'Destination', 'ShortUrl', 'Clicks'],
+      ['promo', 'https://reduced.to', 'rebrand.ly/promo', '12'],
+    ]);
+
+    expect(parseMigrationFile(file, MigrationSource.REBRANDLY)).toEqual([
+      { row: 2, values: { url: 'https://reduced.to', key: 'promo' }, clicks: 12 },
+    ]);
+  });
+
+  it('should read the keywords of yourls links', () => {
+    const file = toCsv([
+      ['keyword', 'url', 'title', 'timestamp', 'ip', 'clicks'],
+      ['docs', 'https://docs.reduced.to', 'Docs', '2020-01-01 00:00:00', '127.0.0.1', '7'],
+      ['empty', '', '', '', '', ''],
+    ]);
+
+    expect(parseMigrationFile(file, MigrationSource.YOURLS)).toEqual([
+      { row: 2, values: { url: 'https://docs.reduced.to', key: 'docs', description: 'Docs' }, clicks: 7 },
+    ]);
+  });
+
+  it('should throw if the file is not an export of the shortener', () => {
+    const file = toCsv([
+      ['Slashtag', 'Destination'],
+      ['promo', 'https://reduced.to'],
+    ]);
+
+    expect(() => parseMigrationFile(file, MigrationSource.YOURLS)).toThrow('The url column was not found, is this an export of yourls?');
+  });
+});
@@ -0,0 +1,89 @@
+import { BadRequestException } from '@nestjs/common';
+import { MigrationSource } from '@reduced.to/prisma';
+import { ImportRow, checkRows, normalizeHeader, readCells } from './parser';
+
+type MigrationField = 'url' | 'key' | 'shortUrl' | 'description' | 'clicks';
+
+// Headers of the columns in the exports of every shortener, the first non empty column of a field is used
+const MIGRATION_COLUMNS: Record<MigrationSource, Record<MigrationField, string[]>> = {
+  [MigrationSource.BITLY]: {
+    url: ['long_url', 'long url', 'destination'],
+    key: [],
+    // Custom bitlinks are preferred over the generated ones
+    shortUrl: ['custom bitlink', 'custom bitlinks', 'bitlink', 'link', 'short url'],
+    description: ['title'],
+    clicks: ['clicks', 'total clicks', 'engagements'],
+  },
+  [MigrationSource.REBRANDLY]: {
+    url: ['destination', 'destination url', 'long url'],
+    key: ['slashtag'],
+    shortUrl: ['shorturl', 'short url', 'short link'],
+    description: ['title'],
+    clicks: ['clicks'],
+  },
+  [MigrationSource.YOURLS]: {
+    url: ['url', 'long url'],
+    key: ['keyword'],
+    shortUrl: ['shorturl', 'short url'],
+    description: ['title'],
+    clicks: ['clicks'],
+  },
+};
+
+/**
+ * Returns the key of a short url, which is the last segment of its path.
+ */
+const getKeyFromShortUrl = (shortUrl: string): string | undefined => {
+  try {
+    const url = new URL(/^https?:\/\//i.test(shortUrl) ? shortUrl : `https://${shortUrl}`);
+    return url.pathname.split('/').filter(Boolean).pop();
+  } catch (err) {
+    return undefined;
+  }
+};
+
+/**
+ * Parses the links exported by another shortener, keeping their keys and click totals.
+ * @param {Buffer} file The content of the exported CSV or XLSX file.
+ * @param {MigrationSource} source The shortener that exported the file.
+ * @returns {ImportRow[]} The non empty rows of the file.
+ */
+export const parseMigrationFile = (file: Buffer, source: MigrationSource): ImportRow[] => {
+  const cells = readCells(file);
+  const headers = cells[0].map(normalizeHeader);
+
+  const columns = Object.fromEntries(
+    Object.entries(MIGRATION_COLUMNS[source]).map(([field, candidates]) => [
+      field,
+      candidates.map((candidate) => headers.indexOf(candidate)).filter((index) => index !== -1),
+    ])
+  ) as Record<MigrationField, number[]>;
+
+  if (!columns.url.length) {
+    throw new BadRequestException(`The url column was not found, is this an export of ${source.toLowerCase()}?`);
+  }
+
+  const rows: ImportRow[] = [];
+  cells.slice(1).forEach((cell, index) => {
+    const getValue = (field: MigrationField) =>
+      columns[field].map((column) => String(cell[column] ?? '').trim()).find((value) => value) || undefined;
+
+    const url = getValue('url');
+    if (!url) {
+      return;
+    }
+
+    const shortUrl = getValue('shortUrl');
+    const key = getValue('key') || (shortUrl && getKeyFromShortUrl(shortUrl));
+    const description = getValue('description');
+    const clicks = parseInt((getValue('clicks') || '').replace(/[,\s]/g, ''), 10);
+
+    rows.push({
+      row: index + 2,
+      values: { url, ...(key && { key }), ...(description && { description }) },
+      ...(clicks > 0 && { clicks }),
+    });
+  });
+
+  return checkRows(rows);
+};
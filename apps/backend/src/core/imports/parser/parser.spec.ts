@@ -0,0 +1,63 @@
+import { utils, write } from 'xlsx';
+import { parseImportFile } from './parser';
+
+describe('parseImportFile', () => {
+  const toCsv = (rows: string[][]) => Buffer.from(rows.map((row) => row.join(',')).join('\n'));
+
+  it('should map the columns by their default headers', () => {
+    const file = toCsv([
+      ['URL', 'Alias', 'utm_source', 'Other'],
+      ['https://reduced.to', 'nice', 'newsletter', 'ignored'],
+      ['https://google.com', '', '', ''],
+    ]);
+
+    expect(parseImportFile(file)).toEqual([
+      { row: 2, values: { url: 'https://reduced.to', key: 'nice', utm_source: 'newsletter' } },
+      { row: 3, values: { url: 'https://google.com' } },
+    ]);
+  });
+
+  it('should use the given mapping', () => {
+    const file = toCsv([
+      ['Destination page', 'Notes'],
+      ['https://reduced.to', 'Landing'],
+    ]);
+
+    expect(parseImportFile(file, { url: 'destination page', description: 'Notes' })).toEqual([
+      { row: 2, values: { url: 'https://reduced.to', description: 'Landing' } },
+    ]);
+  });
+
+  it('should read xlsx files', () => {
+    const workbook = utils.book_new();
+    utils.book_append_sheet(workbook, utils.aoa_to_sheet([['url'], ['https://reduced.to']]), 'Links');
+    const file = write(workbook, { type: 'buffer', bookType: 'xlsx' });
+
+    expect(parseImportFile(file)).toEqual([{ row: 2, values: { url: 'https://reduced.to' } }]);
+  });
+
+  it('should support files without a header row', () => {
+    const file = toCsv([['https://reduced.to'], [''], ['https://google.com']]);
+
+    expect(parseImportFile(file)).toEqual([
+      { row: 1, values: { url: 'https://reduced.to' } },
+      { row: 3, values: { url: 'https://google.com' } },
+    ]);
+  });
+
+  it('should throw an error if a mapped column does not exist', () => {
+    const file = toCsv([['url'], ['https://reduced.to']]);
+
+    expect(() => parseImportFile(file, { key: 'alias' })).toThrow('The column "alias" was not found');
+  });
+
+  it('should throw an error if the url column was not found', () => {
+    const file = toCsv([['name'], ['reduced']]);
+
+    expect(() => parseImportFile(file)).toThrow('The url column was not found');
+  });
+
+  it('should throw an error if the file has no rows', () => {
+    expect(() => parseImportFile(toCsv([['url']]))).toThrow('The file has no rows to import');
+  });
+});
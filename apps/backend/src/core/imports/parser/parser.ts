@@ -0,0 +1,130 @@
+import { BadRequestException } from '@nestjs/common';
+import { read, utils } from 'xlsx';
+
+export const MAX_IMPORT_ROWS = 50000;
+
+export const IMPORT_FIELDS = [
+  'url',
+  'key',
+  'description',
+  'utm_ref',
+  'utm_source',
+  'utm_medium',
+  'utm_campaign',
+  'utm_term',
+  'utm_content',
+  'expirationTime',
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+// Header of the column of every field in the uploaded file
+export type ImportMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportRow {
+  row: number; // Row number in the file, as shown by spreadsheet applications
+  values: Partial<Record<ImportField, string>>;
+  clicks?: number; // Clicks counted by the previous shortener, only set for migrated links
+}
+
+// Columns named after the fields are used when no mapping is given
+const DEFAULT_COLUMNS: Record<ImportField, string[]> = {
+  url: ['url', 'link', 'destination'],
+  key: ['key', 'alias', 'short link'],
+  description: ['description'],
+  utm_ref: ['ref', 'utm_ref'],
+  utm_source: ['utm_source'],
+  utm_medium: ['utm_medium'],
+  utm_campaign: ['utm_campaign'],
+  utm_term: ['utm_term'],
+  utm_content: ['utm_content'],
+  expirationTime: ['expiration', 'expirationtime', 'expiration time', 'expires'],
+};
+
+export const normalizeHeader = (header: unknown) =>
+  String(header ?? '')
+    .trim()
+    .toLowerCase();
+
+/**
+ * Reads the cells of the first sheet of a CSV or XLSX file, the first row holds the headers of the columns.
+ */
+export const readCells = (file: Buffer): unknown[][] => {
+  let cells: unknown[][];
+  try {
+    const workbook = read(file, { type: 'buffer', sheetRows: MAX_IMPORT_ROWS + 2 });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    cells = sheet ? utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: '' }) : [];
+  } catch (err) {
+    throw new BadRequestException('The file could not be read, only CSV and XLSX files are supported');
+  }
+
+  if (!cells.length) {
+    throw new BadRequestException('The file is empty');
+  }
+
+  return cells;
+};
+
+export const checkRows = (rows: ImportRow[]): ImportRow[] => {
+  if (!rows.length) {
+    throw new BadRequestException('The file has no rows to import');
+  }
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new BadRequestException(`Up to ${MAX_IMPORT_ROWS} rows can be imported at once`);
+  }
+
+  return rows;
+};
+
+/**
+ * Parses the rows of a CSV or XLSX file, only the first sheet of a workbook is read.
+ * Files without a header row are supported when their first column only holds urls.
+ * @param {Buffer} file The content of the file.
+ * @param {ImportMapping} mapping The header of the column of every field, the default headers are used for the missing fields.
+ * @returns {ImportRow[]} The non empty rows of the file.
+ */
+export const parseImportFile = (file: Buffer, mapping: ImportMapping = {}): ImportRow[] => {
+  const cells = readCells(file);
+  const headers = cells[0].map(normalizeHeader);
+  const columns: Partial<Record<ImportField, number>> = {};
+
+  for (const field of IMPORT_FIELDS) {
+    const candidates = mapping[field] ? [normalizeHeader(mapping[field])] : DEFAULT_COLUMNS[field];
+    const index = headers.findIndex((header) => candidates.includes(header));
+
+    if (index !== -1) {
+      columns[field] = index;
+    } else if (mapping[field]) {
+      throw new BadRequestException(`The column "${mapping[field]}" was not found`);
+    }
+  }
+
+  // A plain list of urls, without a header row
+  const hasHeader = columns.url !== undefined;
+  if (!hasHeader) {
+    if (!/^https?:\/\//i.test(headers[0])) {
+      throw new BadRequestException('The url column was not found');
+    }
+
+    columns.url = 0;
+  }
+
+  const rows: ImportRow[] = [];
+  cells.slice(hasHeader ? 1 : 0).forEach((cell, index) => {
+    const values: ImportRow['values'] = {};
+    for (const [field, column] of Object.entries(columns)) {
+      const value = String(cell[column] ?? '').trim();
+      if (value) {
+        values[field] = value;
+      }
+    }
+
+    if (Object.keys(values).length) {
+      rows.push({ row: index + (hasHeader ? 2 : 1), values });
+    }
+  });
+
+  return checkRows(rows);
+};
@@ -0,0 +1,120 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsOptional,
+  IsPositive,
+  IsString,
+  IsUUID,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+
+export const MAX_BULK_LINKS = 500;
+
+export enum BulkOperation {
+  DELETE = 'delete',
+  ARCHIVE = 'archive',
+  SET_EXPIRATION = 'setExpiration',
+  ADD_TAG = 'addTag',
+  REMOVE_TAG = 'removeTag',
+  MOVE = 'move',
+  SET_PASSWORD = 'setPassword',
+  SET_UTM = 'setUtm',
+}
+
+// Same filters as the links list of the dashboard
+export class BulkLinksFilterDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(30)
+  text?: string;
+
+  @IsOptional()
+  @IsUUID('4')
+  tag?: string;
+
+  @IsOptional()
+  @IsUUID('4')
+  folder?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  archived?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  broken?: boolean;
+}
+
+export class BulkLinksDto {
+  @IsEnum(BulkOperation)
+  operation: BulkOperation;
+
+  // The links are selected either by their ids or by a filter
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_BULK_LINKS)
+  @IsUUID('4', { each: true })
+  ids?: string[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => BulkLinksFilterDto)
+  filter?: BulkLinksFilterDto;
+
+  // Used by setExpiration, null removes the expiration time of the links
+  @IsOptional()
+  @IsPositive()
+  expirationTime?: number | null;
+
+  // Used by addTag and removeTag
+  @IsOptional()
+  @IsUUID('4')
+  tagId?: string;
+
+  // Used by move, null moves the links out of their folder
+  @IsOptional()
+  @IsUUID('4')
+  folderId?: string | null;
+
+  // Used by setPassword, null removes the password protection of the links
+  @IsOptional()
+  @IsString()
+  password?: string | null;
+
+  // Used by setUtm, the utm object of the links is replaced and removed when all of them are empty
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  utm_ref?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  utm_source?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  utm_medium?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  utm_campaign?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  utm_term?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  utm_content?: string;
+}
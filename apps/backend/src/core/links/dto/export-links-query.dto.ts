@@ -0,0 +1,43 @@
+import { IsBoolean, IsEnum, IsOptional, IsString, IsUUID, MaxLength } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { Sortable } from '../../../shared/decorators';
+import { SortOrder } from '../../../shared/enums/sort-order.enum';
+
+export enum ExportFormat {
+  CSV = 'csv',
+  NDJSON = 'ndjson',
+  XLSX = 'xlsx',
+}
+
+// Same filters as the links list, every matching link is exported
+export class ExportLinksQueryDto {
+  @IsOptional()
+  @IsEnum(ExportFormat)
+  format?: ExportFormat;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(30)
+  filter?: string;
+
+  @IsOptional()
+  @IsUUID('4')
+  tag?: string;
+
+  @IsOptional()
+  @IsUUID('4')
+  folder?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }) => value === 'true')
+  archived?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }) => value === 'true')
+  broken?: boolean;
+
+  @Sortable(['expirationTime', 'createdAt', 'archivedAt'])
+  sort?: Record<string, SortOrder>;
+}
@@ -1,7 +1,7 @@
-import { IsDefined, IsInt, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+import { IsBoolean, IsDefined, IsInt, IsOptional, IsString, IsUUID, Max, MaxLength, Min } from 'class-validator';
 import { Sortable } from '../../../shared/decorators';
 import { SortOrder } from '../../../shared/enums/sort-order.enum';
-import { Type } from 'class-transformer';
+import { Transform, Type } from 'class-transformer';
 
 export class FindAllQueryDto {
   @Min(1)
@@ -22,6 +22,28 @@ export class FindAllQueryDto {
   @MaxLength(30)
   filter?: string;
 
-  @Sortable(['expirationTime', 'createdAt'])
+  // Only return the links with this tag id
+  @IsOptional()
+  @IsUUID('4')
+  tag?: string;
+
+  // Only return the links in this folder id
+  @IsOptional()
+  @IsUUID('4')
+  folder?: string;
+
+  // Return the archived links instead of the active ones
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }) => value === 'true')
+  archived?: boolean;
+
+  // Only return the links whose destination failed its last health check
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }) => value === 'true')
+  broken?: boolean;
+
+  @Sortable(['expirationTime', 'createdAt', 'archivedAt'])
   sort?: Record<string, SortOrder>;
 }
@@ -1 +1,6 @@
 export * from './find-all-query.dto';
+export * from './update-link.dto';
+export * from './bulk-links.dto';
+export * from './export-links-query.dto';
+export * from './qr-code.dto';
+export * from './revert-link.dto';
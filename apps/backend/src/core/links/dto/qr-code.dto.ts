@@ -0,0 +1,77 @@
+import { Transform, Type } from 'class-transformer';
+import { IsBoolean, IsDataURI, IsEnum, IsIn, IsInt, IsOptional, Matches, Max, Min } from 'class-validator';
+import { QR_ERROR_CORRECTION_LEVELS, QrErrorCorrectionLevel } from '@reduced.to/utils';
+
+export enum QrFormat {
+  SVG = 'svg',
+  PDF = 'pdf',
+}
+
+export const DEFAULT_QR_SIZE = 512;
+
+const HEX_COLOR_REGEX = /^#[0-9a-f]{6}$/i;
+
+// Styling saved with the link, used for every code rendered without overrides
+export class QrStyleDto {
+  @IsOptional()
+  @Matches(HEX_COLOR_REGEX, { message: 'The foreground color must be a hex color, e.g. #000000' })
+  fgColor?: string;
+
+  @IsOptional()
+  @Matches(HEX_COLOR_REGEX, { message: 'The background color must be a hex color, e.g. #ffffff' })
+  bgColor?: string;
+
+  @IsOptional()
+  @IsIn(QR_ERROR_CORRECTION_LEVELS)
+  errorCorrection?: QrErrorCorrectionLevel;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(10)
+  margin?: number;
+
+  // Base64 data URI of a PNG or JPEG image, it is uploaded to the storage. null removes the logo, undefined keeps it
+  @IsOptional()
+  @IsDataURI()
+  logo?: string | null;
+}
+
+// The style options override the saved style of the link for this code only
+export class QrCodeQueryDto {
+  @IsOptional()
+  @IsEnum(QrFormat)
+  format?: QrFormat;
+
+  // Pixels for SVG, points (1/72 inch) for PDF
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(64)
+  @Max(4096)
+  size?: number;
+
+  @IsOptional()
+  @Matches(HEX_COLOR_REGEX, { message: 'The foreground color must be a hex color, e.g. #000000' })
+  fgColor?: string;
+
+  @IsOptional()
+  @Matches(HEX_COLOR_REGEX, { message: 'The background color must be a hex color, e.g. #ffffff' })
+  bgColor?: string;
+
+  @IsOptional()
+  @IsIn(QR_ERROR_CORRECTION_LEVELS)
+  errorCorrection?: QrErrorCorrectionLevel;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(10)
+  margin?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }) => value === 'true')
+  download?: boolean;
+}
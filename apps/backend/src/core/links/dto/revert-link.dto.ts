@@ -0,0 +1,8 @@
+import { IsOptional, IsString } from 'class-validator';
+
+export class RevertLinkDto {
+  // Previous passwords are not kept, so reverting to a password protected version requires a new one
+  @IsOptional()
+  @IsString()
+  password?: string;
+}
@@ -0,0 +1,160 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsDataURI,
+  IsInt,
+  IsOptional,
+  IsPositive,
+  IsString,
+  IsUrl,
+  IsUUID,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { DeepLinksDto, LinkSnippetDto, QrPayloadDto, RedirectRuleDto, ScheduledChangeDto, VariantDto } from '../../../shortener/dto';
+
+export class UpdateLinkDto {
+  @IsOptional()
+  @IsUrl(
+    { allow_fragments: true, require_protocol: true },
+    {
+      message: 'Url is invalid',
+    }
+  )
+  url?: string;
+
+  // Replaces the payload of payload links, the url of the link is updated with it
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => QrPayloadDto)
+  payload?: QrPayloadDto;
+
+  // Replaces the snippet of snippet links, the url of the link is updated with it
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => LinkSnippetDto)
+  snippet?: LinkSnippetDto;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  // null removes the expiration time of the link
+  @IsOptional()
+  @IsPositive()
+  expirationTime?: number | null;
+
+  // null removes the activation time of the link
+  @IsOptional()
+  @IsPositive()
+  activeFrom?: number | null;
+
+  // Replaces the pending destination changes, null (or an empty list) removes them
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => ScheduledChangeDto)
+  scheduledChanges?: ScheduledChangeDto[] | null;
+
+  // null removes the click limit of the link
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxClicks?: number | null;
+
+  // null removes the password protection of the link
+  @IsOptional()
+  @IsString()
+  password?: string | null;
+
+  // UTM parameters, when one of them is sent the whole utm object is replaced
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  utm_ref?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  utm_source?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  utm_medium?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  utm_campaign?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  utm_term?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  utm_content?: string;
+
+  // null (or an empty list) removes the redirect rules of the link
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => RedirectRuleDto)
+  rules?: RedirectRuleDto[] | null;
+
+  // Weighted destinations, null (or an empty list) removes them
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => VariantDto)
+  variants?: VariantDto[] | null;
+
+  @IsOptional()
+  @IsBoolean()
+  stickyVariants?: boolean;
+
+  // App destinations per platform, null removes them
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DeepLinksDto)
+  deepLinks?: DeepLinksDto | null;
+
+  // Open Graph overrides, null removes them
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  ogTitle?: string | null;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(300)
+  ogDescription?: string | null;
+
+  // Base64 data URI of the new image, null removes the current image
+  @IsOptional()
+  @IsDataURI()
+  ogImage?: string | null;
+
+  // Replaces the tags of the link, an empty list removes them
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsUUID('4', { each: true })
+  tags?: string[];
+
+  // null moves the link out of its folder
+  @IsOptional()
+  @IsUUID('4')
+  folderId?: string | null;
+}
@@ -0,0 +1,41 @@
+import { toCsvLine, toExportRow } from './export';
+
+describe('export', () => {
+  const LINK = {
+    id: '1',
+    key: 'nice',
+    url: 'https://reduced.to',
+    utm: { ref: 'twitter', utm_source: 'newsletter', utm_campaign: 'launch' },
+    expirationTime: null,
+    createdAt: new Date('2024-01-01T00:00:00.000Z'),
+    clicks: 2,
+    visits: 5,
+    domain: null,
+  };
+
+  describe('toExportRow', () => {
+    it('should flatten the utm parameters of the link', () => {
+      expect(toExportRow(LINK, 'https://reduced.to/nice')).toEqual({
+        key: 'nice',
+        shortUrl: 'https://reduced.to/nice',
+        url: 'https://reduced.to',
+        utm_ref: 'twitter',
+        utm_source: 'newsletter',
+        utm_medium: null,
+        utm_campaign: 'launch',
+        utm_term: null,
+        utm_content: null,
+        expirationTime: null,
+        createdAt: '2024-01-01T00:00:00.000Z',
+        totalClicks: 5,
+        uniqueClicks: 2,
+      });
+    });
+  });
+
+  describe('toCsvLine', () => {
+    it('should escape the values containing separators or quotes', () => {
+      expect(toCsvLine(['a', 'b,c', 'say "hi"', null, 3])).toBe('a,"b,c","say ""hi""",,3\n');
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { utils, write } from 'xlsx';
+import { ExportFormat } from '../dto';
+import { ExportLink } from '../links.service';
+
+// Keys of the utm parameters of the links by column, the ref parameter is stored without its prefix
+const UTM_COLUMNS = {
+  utm_ref: 'ref',
+  utm_source: 'utm_source',
+  utm_medium: 'utm_medium',
+  utm_campaign: 'utm_campaign',
+  utm_term: 'utm_term',
+  utm_content: 'utm_content',
+} as const;
+
+type UtmColumn = keyof typeof UTM_COLUMNS;
+
+const getUtmValues = (utm: unknown) =>
+  Object.fromEntries(
+    Object.entries(UTM_COLUMNS).map(([column, key]) => [column, (utm as Record<string, string>)?.[key] || null])
+  ) as Record<UtmColumn, string | null>;
+
+// The columns are named after the fields of the links, so an export can be imported again
+export const EXPORT_COLUMNS = [
+  'key',
+  'shortUrl',
+  'url',
+  ...(Object.keys(UTM_COLUMNS) as UtmColumn[]),
+  'expirationTime',
+  'createdAt',
+  'totalClicks',
+  'uniqueClicks',
+] as const;
+
+// XLSX files are built in memory, larger exports must use a format that is streamed
+export const MAX_XLSX_EXPORT_LINKS = 10000;
+
+export type ExportColumn = (typeof EXPORT_COLUMNS)[number];
+export type ExportRow = Record<ExportColumn, string | number | null>;
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  [ExportFormat.CSV]: 'text/csv',
+  [ExportFormat.NDJSON]: 'application/x-ndjson',
+  [ExportFormat.XLSX]: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/**
+ * Returns the exported values of a link, the total clicks include the repeated visits of a visitor.
+ * @param {ExportLink} link The link to export.
+ * @param {string} shortUrl The short url of the link.
+ */
+export const toExportRow = (link: ExportLink, shortUrl: string): ExportRow => {
+  return {
+    key: link.key,
+    shortUrl,
+    url: link.url,
+    ...getUtmValues(link.utm),
+    expirationTime: link.expirationTime ? link.expirationTime.toISOString() : null,
+    createdAt: link.createdAt.toISOString(),
+    totalClicks: link.visits,
+    uniqueClicks: link.clicks,
+  };
+};
+
+const escapeCsv = (value: string | number | null) => {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsvLine = (values: (string | number | null)[]): string => `${values.map(escapeCsv).join(',')}\n`;
+
+export const toNdjsonLine = (row: ExportRow): string => `${JSON.stringify(row)}\n`;
+
+/**
+ * Builds the XLSX file of the rows, the format cannot be written in chunks so only the values of the rows are kept in memory.
+ */
+export const toXlsx = (rows: ExportRow[keyof ExportRow][][]): Buffer => {
+  const workbook = utils.book_new();
+  utils.book_append_sheet(workbook, utils.aoa_to_sheet([[...EXPORT_COLUMNS], ...rows]), 'Links');
+
+  return write(workbook, { type: 'buffer', bookType: 'xlsx', compression: true });
+};
@@ -0,0 +1,94 @@
+import { Prisma } from '@reduced.to/prisma';
+import { createHistoryEntry, hasAuditedChanges, LinkVersion } from './history';
+
+describe('history', () => {
+  const LINK: LinkVersion = {
+    url: 'https://example.com',
+    utm: { utm_source: 'newsletter' },
+    password: null,
+    expirationTime: new Date('2024-09-01T00:00:00Z'),
+  };
+
+  describe('createHistoryEntry', () => {
+    it('should keep the current values of the link and the actor', () => {
+      expect(createHistoryEntry(LINK, 'user-id')).toEqual({
+        url: LINK.url,
+        utm: LINK.utm,
+        passwordEnabled: false,
+        expirationTime: LINK.expirationTime,
+        actor: { connect: { id: 'user-id' } },
+      });
+    });
+
+    it('should only keep whether the link has a password, not its hash', () => {
+      expect(createHistoryEntry({ ...LINK, utm: null, password: 'hash' })).toEqual({
+        url: LINK.url,
+        passwordEnabled: true,
+        expirationTime: LINK.expirationTime,
+      });
+    });
+
+    it('should not set an actor for changes made by the system', () => {
+      expect(createHistoryEntry({ ...LINK, utm: null })).toEqual({
+        url: LINK.url,
+        passwordEnabled: false,
+        expirationTime: LINK.expirationTime,
+      });
+    });
+
+    it('should keep the payload of payload links', () => {
+      const payload = { type: 'wifi', ssid: 'Venue', password: 'secret', encryption: 'WPA' };
+
+      expect(createHistoryEntry({ ...LINK, url: 'Wi-Fi: Venue', payload, utm: null })).toEqual({
+        url: 'Wi-Fi: Venue',
+        payload,
+        passwordEnabled: false,
+        expirationTime: LINK.expirationTime,
+      });
+    });
+  });
+
+  describe('hasAuditedChanges', () => {
+    it('should detect a new url', () => {
+      expect(hasAuditedChanges(LINK, { url: 'https://example.com/new' })).toBe(true);
+      expect(hasAuditedChanges(LINK, { url: LINK.url })).toBe(false);
+    });
+
+    it('should detect a changed payload', () => {
+      const link = { ...LINK, payload: { type: 'text', text: 'Hello' } };
+
+      expect(hasAuditedChanges(link, { payload: { type: 'text', text: 'Goodbye' } })).toBe(true);
+      expect(hasAuditedChanges(link, { payload: { type: 'text', text: 'Hello' } })).toBe(false);
+    });
+
+    it('should detect a changed snippet', () => {
+      const link = { ...LINK, snippet: { content: 'port: 3000', language: 'yaml' } };
+
+      expect(hasAuditedChanges(link, { snippet: { content: 'port: 8080', language: 'yaml' } })).toBe(true);
+      expect(hasAuditedChanges(link, { snippet: { content: 'port: 3000', language: 'yaml' } })).toBe(false);
+    });
+
+    it('should detect changed or removed utm parameters', () => {
+      expect(hasAuditedChanges(LINK, { utm: { utm_source: 'ads' } })).toBe(true);
+      expect(hasAuditedChanges(LINK, { utm: Prisma.DbNull })).toBe(true);
+      expect(hasAuditedChanges(LINK, { utm: { utm_source: 'newsletter' } })).toBe(false);
+      expect(hasAuditedChanges({ ...LINK, utm: null }, { utm: Prisma.DbNull })).toBe(false);
+    });
+
+    it('should detect a new or removed password', () => {
+      expect(hasAuditedChanges(LINK, { password: 'hash' })).toBe(true);
+      expect(hasAuditedChanges({ ...LINK, password: 'hash' }, { password: null })).toBe(true);
+      expect(hasAuditedChanges(LINK, { password: null })).toBe(false);
+    });
+
+    it('should detect a changed expiration time', () => {
+      expect(hasAuditedChanges(LINK, { expirationTime: null })).toBe(true);
+      expect(hasAuditedChanges(LINK, { expirationTime: new Date('2024-10-01T00:00:00Z') })).toBe(true);
+      expect(hasAuditedChanges(LINK, { expirationTime: new Date(LINK.expirationTime) })).toBe(false);
+    });
+
+    it('should ignore changes of other fields', () => {
+      expect(hasAuditedChanges(LINK, { description: 'new description', maxClicks: 10 })).toBe(false);
+    });
+  });
+});
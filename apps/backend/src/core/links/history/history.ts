@@ -0,0 +1,54 @@
+import { Link, Prisma } from '@reduced.to/prisma';
+
+export type LinkVersion = Pick<Link, 'url' | 'utm' | 'password' | 'expirationTime'> & Partial<Pick<Link, 'payload' | 'snippet'>>;
+
+const toJson = (value: unknown) => JSON.stringify(value === Prisma.DbNull || value === undefined ? null : value);
+const toTime = (value: unknown) => (value ? new Date(value as Date).getTime() : null);
+
+/**
+ * Returns the history entry that keeps the current values of a link, it is created right before the link is changed.
+ * Only whether the link has a password is kept, so an old password can never become valid again.
+ * @param {LinkVersion} link The link before the change.
+ * @param {string} actorId The user that changes the link, undefined for changes made by the system.
+ */
+export const createHistoryEntry = (
+  { url, payload, snippet, utm, password, expirationTime }: LinkVersion,
+  actorId?: string
+): Prisma.LinkHistoryCreateWithoutLinkInput => ({
+  url,
+  ...(payload && { payload: payload as Prisma.InputJsonValue }),
+  ...(snippet && { snippet: snippet as Prisma.InputJsonValue }),
+  ...(utm && { utm: utm as Prisma.InputJsonValue }),
+  passwordEnabled: !!password,
+  expirationTime,
+  ...(actorId && { actor: { connect: { id: actorId } } }),
+});
+
+/**
+ * Checks if an update changes one of the audited fields of a link: the url, the payload, the snippet, the utm parameters, the
+ * password or the expiration time.
+ */
+export const hasAuditedChanges = (link: LinkVersion, data: Prisma.LinkUpdateInput): boolean => {
+  if (data.url !== undefined && data.url !== link.url) {
+    return true;
+  }
+
+  if (data.payload !== undefined && toJson(data.payload) !== toJson(link.payload)) {
+    return true;
+  }
+
+  if (data.snippet !== undefined && toJson(data.snippet) !== toJson(link.snippet)) {
+    return true;
+  }
+
+  if (data.utm !== undefined && toJson(data.utm) !== toJson(link.utm)) {
+    return true;
+  }
+
+  // Password hashes are salted, so any new password is a change
+  if (data.password !== undefined && (data.password !== null || !!link.password)) {
+    return true;
+  }
+
+  return data.expirationTime !== undefined && toTime(data.expirationTime) !== toTime(link.expirationTime);
+};
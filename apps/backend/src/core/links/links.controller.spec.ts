@@ -1,20 +1,30 @@
 import request from 'supertest';
 import { Test, TestingModule } from '@nestjs/testing';
 import { INestApplication, ValidationPipe } from '@nestjs/common';
-import { Link, Role } from '@reduced.to/prisma';
+import { Link, LinkType, Prisma, Role } from '@reduced.to/prisma';
 import { JwtAuthGuard } from '../../auth/guards/jwt.guard';
 import { AppConfigModule } from '@reduced.to/config';
 import { RolesGuard } from '../../auth/guards/roles.guard';
 import { IPaginationResult } from '../../shared/utils';
 import { SortOrder } from '../../shared/enums/sort-order.enum';
-import { LinksService } from './links.service';
+import { LinksService, LinkWithDomain } from './links.service';
 import { LinksController } from './links.controller';
+import { MAX_XLSX_EXPORT_LINKS } from './export/export';
 import { IFindAllOptions } from '../entity.service';
 import { AppCacheService } from '../../cache/cache.service';
+import { AppLoggerModule } from '@reduced.to/logger';
+import { SafeUrlService } from '@reduced.to/safe-url';
+import { AppConfigService } from '@reduced.to/config';
+import { ShortenerService } from '../../shortener/shortener.service';
+import { read, utils } from 'xlsx';
 
 describe('LinksController', () => {
   let app: INestApplication;
   let linksService: LinksService;
+  let cacheService: AppCacheService;
+  let safeUrlService: SafeUrlService;
+  let configService: AppConfigService;
+  let shortenerService: ShortenerService;
 
   const MOCKED_LINKS: Partial<Link>[] = [
     { id: '1', url: 'https://reduced.to', key: 'nice' },
@@ -33,7 +43,7 @@ describe('LinksController', () => {
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
-      imports: [AppConfigModule],
+      imports: [AppConfigModule, AppLoggerModule],
       controllers: [LinksController],
       providers: [
         {
@@ -42,6 +52,15 @@ describe('LinksController', () => {
             findAll: jest.fn().mockResolvedValue(MOCK_FIND_ALL_RESULT),
             findBy: jest.fn().mockResolvedValue(MOCKED_LINKS[0]),
             delete: jest.fn().mockResolvedValue(MOCKED_LINKS[0]),
+            archive: jest.fn().mockResolvedValue(MOCKED_LINKS[0]),
+            restore: jest.fn().mockResolvedValue(MOCKED_LINKS[0]),
+            findHistory: jest.fn().mockResolvedValue([]),
+            findHistoryEntry: jest.fn().mockResolvedValue(null),
+            update: jest.fn().mockResolvedValue(MOCKED_LINKS[0]),
+            findForBulk: jest.fn().mockResolvedValue([]),
+            bulkUpdate: jest.fn().mockResolvedValue([]),
+            findForExport: jest.fn(),
+            countForExport: jest.fn().mockResolvedValue(2),
           },
         },
         {
@@ -50,6 +69,26 @@ describe('LinksController', () => {
             del: jest.fn(),
           },
         },
+        {
+          provide: SafeUrlService,
+          useValue: {
+            isSafeUrl: jest.fn().mockResolvedValue(true),
+          },
+        },
+        {
+          provide: ShortenerService,
+          useValue: {
+            isUrlAlreadyShortened: jest.fn().mockResolvedValue(false),
+            hashPassword: jest.fn().mockResolvedValue('hashed'),
+            ownsTagsAndFolder: jest.fn().mockResolvedValue(true),
+            uploadSocialPreviewImage: jest.fn().mockResolvedValue('social-previews/new-image'),
+            deleteSocialPreviewImage: jest.fn(),
+            uploadQrLogo: jest.fn().mockResolvedValue('qr-logos/new-logo'),
+            getQrLogo: jest.fn().mockResolvedValue(null),
+            deleteQrLogo: jest.fn(),
+            deleteLinkFile: jest.fn(),
+          },
+        },
       ],
     })
       .overrideGuard(JwtAuthGuard)
@@ -74,6 +113,10 @@ describe('LinksController', () => {
     await app.init();
 
     linksService = module.get<LinksService>(LinksService);
+    cacheService = module.get<AppCacheService>(AppCacheService);
+    safeUrlService = module.get<SafeUrlService>(SafeUrlService);
+    configService = module.get<AppConfigService>(AppConfigService);
+    shortenerService = module.get<ShortenerService>(ShortenerService);
   });
 
   afterEach(async () => {
@@ -90,7 +133,7 @@ describe('LinksController', () => {
         limit: 100,
         filter: undefined,
         sort: undefined,
-        extraWhereClause: { userId: expect.anything() },
+        extraWhereClause: { userId: expect.anything(), archivedAt: null },
       });
       expect(response.body).toEqual(MOCK_FIND_ALL_RESULT);
     });
@@ -99,7 +142,7 @@ describe('LinksController', () => {
       const findAllOptions: IFindAllOptions = {
         skip: 10,
         limit: 10,
-        extraWhereClause: { userId: expect.anything() },
+        extraWhereClause: { userId: expect.anything(), archivedAt: null },
         filter: undefined,
         sort: undefined,
       };
@@ -115,7 +158,7 @@ describe('LinksController', () => {
         limit: 10,
         filter: 'reduced.to',
         sort: undefined,
-        extraWhereClause: { userId: expect.anything() },
+        extraWhereClause: { userId: expect.anything(), archivedAt: null },
       };
 
       await request(app.getHttpServer()).get('/links?limit=10&page=2&filter=reduced.to').expect(200);
@@ -129,7 +172,7 @@ describe('LinksController', () => {
         limit: 10,
         filter: 'google.com',
         sort: { expirationTime: SortOrder.ASCENDING, createdAt: SortOrder.DESCENDING },
-        extraWhereClause: { userId: expect.anything() },
+        extraWhereClause: { userId: expect.anything(), archivedAt: null },
       };
 
       await request(app.getHttpServer())
@@ -139,6 +182,47 @@ describe('LinksController', () => {
       expect(linksService.findAll).toHaveBeenCalledWith(findAllOptions);
     });
 
+    it('should filter the links by tag and folder', async () => {
+      const tag = 'b2b6a7c4-5a3e-4bb1-9f4e-1c2f5a6b7c8d';
+      const folder = '0f1e2d3c-4b5a-4968-8776-a5b4c3d2e1f0';
+
+      await request(app.getHttpServer()).get(`/links?limit=10&tag=${tag}&folder=${folder}`).expect(200);
+
+      expect(linksService.findAll).toHaveBeenCalledWith({
+        limit: 10,
+        filter: undefined,
+        sort: undefined,
+        extraWhereClause: { userId: expect.anything(), archivedAt: null, tags: { some: { id: tag } }, folderId: folder },
+      });
+    });
+
+    it('should return the archived links', async () => {
+      await request(app.getHttpServer()).get('/links?limit=10&archived=true').expect(200);
+
+      expect(linksService.findAll).toHaveBeenCalledWith({
+        limit: 10,
+        filter: undefined,
+        sort: undefined,
+        extraWhereClause: { userId: expect.anything(), archivedAt: { not: null } },
+      });
+    });
+
+    it('should return the broken links', async () => {
+      await request(app.getHttpServer()).get('/links?limit=10&broken=true').expect(200);
+
+      expect(linksService.findAll).toHaveBeenCalledWith({
+        limit: 10,
+        filter: undefined,
+        sort: undefined,
+        extraWhereClause: { userId: expect.anything(), archivedAt: null, healthStatus: 'BROKEN' },
+      });
+    });
+
+    it('should throw an error if the tag or folder filter is invalid', async () => {
+      await request(app.getHttpServer()).get('/links?limit=10&tag=not-a-uuid').expect(400);
+      await request(app.getHttpServer()).get('/links?limit=10&folder=not-a-uuid').expect(400);
+    });
+
     it('should throw an error if limit is not defined in the query', async () => {
       await request(app.getHttpServer()).get('/links?page=2&filter=some_filter').expect(400);
     });
@@ -157,12 +241,939 @@ describe('LinksController', () => {
     });
   });
 
+  describe('GET /links/export', () => {
+    const EXPORTED_LINKS = [
+      {
+        id: '1',
+        key: 'nice',
+        url: 'https://reduced.to',
+        utm: { utm_source: 'newsletter' },
+        expirationTime: null,
+        createdAt: new Date('2024-01-01T00:00:00.000Z'),
+        clicks: 3,
+        visits: 3,
+        domain: null,
+      },
+      {
+        id: '2',
+        key: 'good',
+        url: 'https://google.com/?q=a,b',
+        utm: null,
+        expirationTime: new Date('2025-01-01T00:00:00.000Z'),
+        createdAt: new Date('2024-02-01T00:00:00.000Z'),
+        clicks: 1,
+        visits: 4,
+        domain: { name: 'go.example.com' },
+      },
+    ];
+
+    beforeEach(() => {
+      jest.spyOn(linksService, 'findForExport').mockImplementation(async function* () {
+        yield EXPORTED_LINKS;
+      });
+    });
+
+    it('should export the links as csv by default', async () => {
+      const response = await request(app.getHttpServer()).get('/links/export').query({ filter: 'good', archived: 'true' }).expect(200);
+
+      expect(linksService.findForExport).toHaveBeenCalledWith(MOCK_USER_CONTEXT.id, { filter: 'good', archived: true });
+      expect(response.headers['content-type']).toContain('text/csv');
+      expect(response.headers['content-disposition']).toBe('attachment; filename="links.csv"');
+
+      const [header, first, second] = response.text.trim().split('\n');
+      expect(header).toBe(
+        'key,shortUrl,url,utm_ref,utm_source,utm_medium,utm_campaign,utm_term,utm_content,expirationTime,createdAt,totalClicks,uniqueClicks'
+      );
+      expect(first).toMatch(/^nice,http.*\/nice,https:\/\/reduced\.to,,newsletter,,,,,,2024-01-01T00:00:00\.000Z,3,3$/);
+      expect(second).toBe(
+        'good,https://go.example.com/good,"https://google.com/?q=a,b",,,,,,,2025-01-01T00:00:00.000Z,2024-02-01T00:00:00.000Z,4,1'
+      );
+    });
+
+    it('should export the links as ndjson', async () => {
+      const response = await request(app.getHttpServer()).get('/links/export').query({ format: 'ndjson' }).expect(200);
+
+      expect(response.headers['content-type']).toContain('application/x-ndjson');
+
+      const rows = response.text
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line));
+      expect(rows).toHaveLength(2);
+      expect(rows[1]).toMatchObject({ key: 'good', shortUrl: 'https://go.example.com/good', totalClicks: 4, uniqueClicks: 1 });
+    });
+
+    it('should export the links as xlsx', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/links/export')
+        .query({ format: 'xlsx' })
+        .buffer(true)
+        .parse((res, callback) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk) => chunks.push(chunk));
+          res.on('end', () => callback(null, Buffer.concat(chunks)));
+        })
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('spreadsheetml');
+      const workbook = read(response.body);
+      const rows = utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets[workbook.SheetNames[0]]);
+      expect(rows.map(({ key }) => key)).toEqual(['nice', 'good']);
+    });
+
+    it('should return 400 if there are too many links to export as xlsx', async () => {
+      jest.spyOn(linksService, 'countForExport').mockResolvedValue(MAX_XLSX_EXPORT_LINKS + 1);
+
+      const response = await request(app.getHttpServer()).get('/links/export').query({ format: 'xlsx', filter: 'good' }).expect(400);
+
+      expect(linksService.countForExport).toHaveBeenCalledWith(MOCK_USER_CONTEXT.id, { filter: 'good' });
+      expect(response.body.message).toContain('CSV or NDJSON');
+      expect(linksService.findForExport).not.toHaveBeenCalled();
+    });
+
+    it('should not count the links exported as csv', async () => {
+      await request(app.getHttpServer()).get('/links/export').expect(200);
+      expect(linksService.countForExport).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 if the format is not supported', async () => {
+      await request(app.getHttpServer()).get('/links/export').query({ format: 'pdf' }).expect(400);
+      expect(linksService.findForExport).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /links/:id', () => {
+    it('should return the link without the password hash', async () => {
+      jest.spyOn(linksService, 'findBy').mockResolvedValue({ ...MOCKED_LINKS[0], password: 'hash' } as LinkWithDomain);
+
+      const response = await request(app.getHttpServer()).get(`/links/${MOCKED_LINKS[0].id}`).expect(200);
+
+      expect(response.body).toEqual({ ...MOCKED_LINKS[0], hasPassword: true });
+    });
+
+    it('should throw an UnauthorizedException if the link does not belong to the user', async () => {
+      jest.spyOn(linksService, 'findBy').mockResolvedValue(null);
+
+      await request(app.getHttpServer()).get('/links/invalid-link-id').expect(401);
+    });
+  });
+
+  describe('PATCH /links/:id', () => {
+    it('should update the link and evict it from the cache', async () => {
+      const link = MOCKED_LINKS[0];
+      jest.spyOn(linksService, 'findBy').mockResolvedValue(link as LinkWithDomain);
+
+      await request(app.getHttpServer())
+        .patch(`/links/${link.id}`)
+        .send({ url: 'https://github.com/origranot/reduced.to', description: 'new description' })
+        .expect(200);
+
+      expect(linksService.update).toHaveBeenCalledWith(link.id, {
+        url: 'https://github.com/origranot/reduced.to',
+        description: 'new description',
+        history: { create: { url: link.url, passwordEnabled: false, actor: { connect: { id: MOCK_USER_CONTEXT.id } } } },
+      });
+      expect(cacheService.del).toHaveBeenCalledWith(link.key);
+    });
+
+    it('should rescan links released from the quarantine once their destination changes', async () => {
+      const link = { ...MOCKED_LINKS[0], safeUrlReleasedAt: new Date() };
+      jest.spyOn(linksService, 'findBy').mockResolvedValue(link as LinkWithDomain);
+
+      await request(app.getHttpServer()).patch(`/links/${link.id}`).send({ url: 'https://github.com/origranot/reduced.to' }).expect(200);
+
+      expect(linksService.update).toHaveBeenCalledWith(link.id, expect.objectContaining({ safeUrlReleasedAt: null }));
+    });
+
+    it('should evict links of a custom domain by their domain', async () => {
+      const link = { ...MOCKED_LINKS[0], domain: { name: 'go.example.com' } };
+      jest.spyOn(linksService, 'findBy').mockResolvedValue(link as LinkWithDomain);
+
+      await request(app.getHttpServer()).patch(`/links/${link.id}`).send({ description: 'new description' }).expect(200);
+
+      expect(cacheService.del).toHaveBeenCalledWith(`domain:go.example.com:${link.key}`);
+    });
+
+    it('should replace the utm parameters if one of them is sent', async () => {
+      const link = MOCKED_LINKS[0];
+      jest.spyOn(linksService, 'findBy').mockResolvedValue(link as LinkWithDomain);
+
+      await request(app.getHttpServer()).patch(`/links/${link.id}`).send({ utm_source: 'newsletter' }).expect(200);
+
+      expect(linksService.update).toHaveBeenCalledWith(link.id, {
+        utm: { utm_source: 'newsletter' },
+        history: { create: { url: link.url, passwordEnabled: false, actor: { connect: { id: MOCK_USER_CONTEXT.id } } } },
+      });
+    });
+
+    it('should not record the history if none of the audited fields changed', async () => {
+      const link = MOCKED_LINKS[0];
+      jest.spyOn(linksService, 'findBy').mockResolvedValue(link as LinkWithDomain);
+
+      await request(app.getHttpServer()).patch(`/links/${link.id}`).send({ url: link.url, description: 'new description' }).expect(200);
+
+      expect(linksService.update).toHaveBeenCalledWith(link.id, { url: link.url, description: 'new description' });
+    });
+
+    it('should throw an UnauthorizedException if the link does not belong to the user', async () => {
+      jest.spyOn(linksService, 'findBy').mockResolvedValue(null);
+
+      await request(app.getHttpServer()).patch('/links/invalid-link-id').send({ url: 'https://google.com' }).expect(401);
+
+      expect(linksService.update).not.toHaveBeenCalled();
+      expect(cacheService.del).not.toHaveBeenCalled();
+    });
+
+    it('should not update archived links', async () => {
+      jest.spyOn(linksService, 'findBy').mockResolvedValue({ ...MOCKED_LINKS[0], archivedAt: new Date() } as LinkWithDomain);
+
+      await request(app.getHttpServer()).patch('/links/1').send({ url: 'https://example.com' }).expect(400);
+      expect(linksService.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw an error if the new url is not safe', async () => {
+      jest.spyOn(linksService, 'findBy').mockResolvedValue(MOCKED_LINKS[0] as LinkWithDomain);
+      jest.spyOn(configService, 'getConfig').mockReturnValue({ safeUrl: { enable: true } } as any);
+      jest.spyOn(safeUrlService, 'isSafeUrl').mockResolvedValue(false);
+
+      await request(app.getHttpServer()).patch(`/links/${MOCKED_LINKS[0].id}`).send({ url: 'http://malicious-site.com' }).expect(400);
+
+      expect(linksService.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw an error if the new url is invalid', async () => {
+      jest.spyOn(linksService, 'findBy').mockResolvedValue(MOCKED_LINKS[0] as LinkWithDomain);
+
+      await request(app.getHttpServer()).patch(`/links/${MOCKED_LINKS[0].id}`).send({ url: 'not a url' }).expect(400);
+
+      expect(linksService.update).not.toHaveBeenCalled();
+    });
+
+    it('should not allow features that are not included in the user plan', async () => {
+      jest.spyOn(linksService, 'findBy').mockResolvedValue(MOCKED_LINKS[0] as LinkWithDomain);
+
+      await request(app.getHttpServer()).patch(`/links/${MOCKED_LINKS[0].id}`).send({ password: 'secret' }).expect(401);
+
+      expect(linksService.update).not.toHaveBeenCalled();
+    });
+
+    describe('redirect rules and variants', () => {
+      const RULES = [{ url: 'https://example.com/mobile', devices: ['Mobile'] }];
+
+      beforeEach(() => {
+        jest.spyOn(linksService, 'findBy').mockResolvedValue(MOCKED_LINKS[0] as LinkWithDomain);
+        MOCK_USER_CONTEXT['plan'] = 'PRO';
+      });
+
+      afterEach(() => {
+        delete MOCK_USER_CONTEXT['plan'];
+      });
+
+      it('should replace the redirect rules', async () => {
+        await request(app.getHttpServer()).patch(`/links/${MOCKED_LINKS[0].id}`).send({ rules: RULES }).expect(200);
+
+        expect(shortenerService.isUrlAlreadyShortened).toHaveBeenCalledWith(RULES[0].url);
+        expect(linksService.update).toHaveBeenCalledWith(MOCKED_LINKS[0].id, { rules: RULES });
+      });
+
+      it('should remove the redirect rules when null is sent', async () => {
+        await request(app.getHttpServer()).patch(`/links/${MOCKED_LINKS[0].id}`).send({ rules: null }).expect(200);
+
+        expect(linksService.update).toHaveBeenCalledWith(MOCKED_LINKS[0].id, { rules: Prisma.DbNull });
+      });
+
+      it('should throw an error if a rule is invalid', async () => {
+        await request(app.getHttpServer())
+          .patch(`/links/${MOCKED_LINKS[0].id}`)
+          .send({ rules: [{ url: 'https://example.com', devices: ['Fridge'] }] })
+          .expect(400);
+        await request(app.getHttpServer())
+          .patch(`/links/${MOCKED_LINKS[0].id}`)
+          .send({ rules: [{ url: 'https://example.com', timeWindow: { start: '25:00', end: '10:00' } }] })
+          .expect(400);
+
+        expect(linksService.update).not.toHaveBeenCalled();
+      });
+
+      it('should replace the variants of the link', async () => {
+        const variants = [
+          { url: 'https://example.com/a', weight: 50 },
+          { url: 'https://example.com/b', weight: 50 },
+        ];
+
+        await request(app.getHttpServer()).patch(`/links/${MOCKED_LINKS[0].id}`).send({ variants, stickyVariants: true }).expect(200);
+
+        expect(linksService.update).toHaveBeenCalledWith(MOCKED_LINKS[0].id, { variants, stickyVariants: true });
+      });
+
+      it('should require at least two variants', async () => {
+        await request(app.getHttpServer())
+          .patch(`/links/${MOCKED_LINKS[0].id}`)
+          .send({ variants: [{ url: 'https://example.com/a', weight: 50 }] })
+          .expect(400);
+
+        expect(linksService.update).not.toHaveBeenCalled();
+      });
+
+      it('should not allow redirect rules on the free plan', async () => {
+        delete MOCK_USER_CONTEXT['plan'];
+
+        await request(app.getHttpServer()).patch(`/links/${MOCKED_LINKS[0].id}`).send({ rules: RULES }).expect(401);
+
+        expect(linksService.update).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('deep links', () => {
+      const DEEP_LINKS = {
+        ios: { appUrl: 'myapp://product/42', storeUrl: 'https://apps.apple.com/app/id123' },
+        android: { appUrl: 'https://example.com/app/product/42', storeUrl: 'https://play.google.com/store/apps/details?id=com.example' },
+      };
+
+      beforeEach(() => {
+        jest.spyOn(linksService, 'findBy').mockResolvedValue(MOCKED_LINKS[0] as LinkWithDomain);
+        MOCK_USER_CONTEXT['plan'] = 'PRO';
+      });
+
+      afterEach(() => {
+        delete MOCK_USER_CONTEXT['plan'];
+      });
+
+      it('should replace the deep links and check their web destinations', async () => {
+        await request(app.getHttpServer()).patch(`/links/${MOCKED_LINKS[0].id}`).send({ deepLinks: DEEP_LINKS }).expect(200);
+
+        expect(shortenerService.isUrlAlreadyShortened).toHaveBeenCalledWith(DEEP_LINKS.ios.storeUrl);
+        expect(shortenerService.isUrlAlreadyShortened).toHaveBeenCalledWith(DEEP_LINKS.android.appUrl);
+        expect(shortenerService.isUrlAlreadyShortened).not.toHaveBeenCalledWith(DEEP_LINKS.ios.appUrl);
+        expect(linksService.update).toHaveBeenCalledWith(MOCKED_LINKS[0].id, { deepLinks: DEEP_LINKS });
+      });
+
+      it('should remove the deep links when null is sent', async () => {
+        await request(app.getHttpServer()).patch(`/links/${MOCKED_LINKS[0].id}`).send({ deepLinks: null }).expect(200);
+
+        expect(linksService.update).toHaveBeenCalledWith(MOCKED_LINKS[0].id, { deepLinks: Prisma.DbNull });
+      });
+
+      it('should throw an error if an app url is unsafe', async () => {
+        await request(app.getHttpServer())
+          .patch(`/links/${MOCKED_LINKS[0].id}`)
+          .send({ deepLinks: { ios: { ...DEEP_LINKS.ios, appUrl: 'javascript://alert(1)' } } })
+          .expect(400);
+        await request(app.getHttpServer())
+          .patch(`/links/${MOCKED_LINKS[0].id}`)
+          .send({ deepLinks: { android: { ...DEEP_LINKS.android, storeUrl: 'market://details?id=com.example' } } })
+          .expect(400);
+
+        expect(linksService.update).not.toHaveBeenCalled();
+      });
+
+      it('should not allow deep links on the free plan', async () => {
+        delete MOCK_USER_CONTEXT['plan'];
+
+        await request(app.getHttpServer()).patch(`/links/${MOCKED_LINKS[0].id}`).send({ deepLinks: DEEP_LINKS }).expect(401);
+
+        expect(linksService.update).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('tags and folders', () => {
+      const TAG_ID = 'b2b6a7c4-5a3e-4bb1-9f4e-1c2f5a6b7c8d';
+      const FOLDER_ID = '0f1e2d3c-4b5a-4968-8776-a5b4c3d2e1f0';
+
+      beforeEach(() => {
+        jest.spyOn(linksService, 'findBy').mockResolvedValue(MOCKED_LINKS[0] as LinkWithDomain);
+      });
+
+      it('should replace the tags and move the link to the folder', async () => {
+        await request(app.getHttpServer())
+          .patch(`/links/${MOCKED_LINKS[0].id}`)
+          .send({ tags: [TAG_ID], folderId: FOLDER_ID })
+          .expect(200);
+
+        expect(shortenerService.ownsTagsAndFolder).toHaveBeenCalledWith(MOCK_USER_CONTEXT.id, [TAG_ID], FOLDER_ID);
+        expect(linksService.update).toHaveBeenCalledWith(MOCKED_LINKS[0].id, {
+          tags: { set: [{ id: TAG_ID }] },
+          folder: { connect: { id: FOLDER_ID } },
+        });
+      });
+
+      it('should remove the tags and move the link out of its folder', async () => {
+        await request(app.getHttpServer()).patch(`/links/${MOCKED_LINKS[0].id}`).send({ tags: [], folderId: null }).expect(200);
+
+        expect(linksService.update).toHaveBeenCalledWith(MOCKED_LINKS[0].id, { tags: { set: [] }, folder: { disconnect: true } });
+      });
+
+      it('should throw an error if the tags or the folder do not belong to the user', async () => {
+        jest.spyOn(shortenerService, 'ownsTagsAndFolder').mockResolvedValue(false);
+
+        await request(app.getHttpServer())
+          .patch(`/links/${MOCKED_LINKS[0].id}`)
+          .send({ tags: [TAG_ID] })
+          .expect(400);
+
+        expect(linksService.update).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('social preview', () => {
+      const IMAGE = 'data:image/png;base64,aGVsbG8=';
+
+      beforeEach(() => {
+        jest
+          .spyOn(linksService, 'findBy')
+          .mockResolvedValue({ ...MOCKED_LINKS[0], ogImage: 'social-previews/old-image' } as LinkWithDomain);
+        MOCK_USER_CONTEXT['plan'] = 'PRO';
+      });
+
+      afterEach(() => {
+        delete MOCK_USER_CONTEXT['plan'];
+      });
+
+      it('should replace the image and delete the previous one', async () => {
+        const originalConfig = configService.getConfig();
+        jest.spyOn(configService, 'getConfig').mockReturnValue({ ...originalConfig, storage: { ...originalConfig.storage, enable: true } });
+
+        await request(app.getHttpServer())
+          .patch(`/links/${MOCKED_LINKS[0].id}`)
+          .send({ ogTitle: 'Best title', ogDescription: '', ogImage: IMAGE })
+          .expect(200);
+
+        expect(shortenerService.uploadSocialPreviewImage).toHaveBeenCalledWith(IMAGE);
+        expect(linksService.update).toHaveBeenCalledWith(MOCKED_LINKS[0].id, {
+          ogTitle: 'Best title',
+          ogDescription: null,
+          ogImage: 'social-previews/new-image',
+        });
+        expect(shortenerService.deleteSocialPreviewImage).toHaveBeenCalledWith('social-previews/old-image');
+      });
+
+      it('should remove the social preview when null is sent', async () => {
+        await request(app.getHttpServer())
+          .patch(`/links/${MOCKED_LINKS[0].id}`)
+          .send({ ogTitle: null, ogDescription: null, ogImage: null })
+          .expect(200);
+
+        expect(shortenerService.uploadSocialPreviewImage).not.toHaveBeenCalled();
+        expect(linksService.update).toHaveBeenCalledWith(MOCKED_LINKS[0].id, { ogTitle: null, ogDescription: null, ogImage: null });
+        expect(shortenerService.deleteSocialPreviewImage).toHaveBeenCalledWith('social-previews/old-image');
+      });
+
+      it('should delete the uploaded image if the link could not be updated', async () => {
+        const originalConfig = configService.getConfig();
+        jest.spyOn(configService, 'getConfig').mockReturnValue({ ...originalConfig, storage: { ...originalConfig.storage, enable: true } });
+        jest.spyOn(linksService, 'update').mockRejectedValue(new Error('Deadlock'));
+
+        await request(app.getHttpServer()).patch(`/links/${MOCKED_LINKS[0].id}`).send({ ogImage: IMAGE }).expect(500);
+
+        expect(shortenerService.deleteSocialPreviewImage).toHaveBeenCalledTimes(1);
+        expect(shortenerService.deleteSocialPreviewImage).toHaveBeenCalledWith('social-previews/new-image');
+      });
+
+      it('should keep the image when it is not sent', async () => {
+        await request(app.getHttpServer()).patch(`/links/${MOCKED_LINKS[0].id}`).send({ ogTitle: 'Best title' }).expect(200);
+
+        expect(linksService.update).toHaveBeenCalledWith(MOCKED_LINKS[0].id, { ogTitle: 'Best title' });
+        expect(shortenerService.deleteSocialPreviewImage).not.toHaveBeenCalled();
+      });
+
+      it('should not allow images that are not data uris', async () => {
+        await request(app.getHttpServer())
+          .patch(`/links/${MOCKED_LINKS[0].id}`)
+          .send({ ogImage: 'https://example.com/image.png' })
+          .expect(400);
+
+        expect(linksService.update).not.toHaveBeenCalled();
+      });
+
+      it('should not be available on the free plan', async () => {
+        delete MOCK_USER_CONTEXT['plan'];
+
+        await request(app.getHttpServer()).patch(`/links/${MOCKED_LINKS[0].id}`).send({ ogTitle: 'Best title' }).expect(401);
+
+        expect(linksService.update).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('scheduling', () => {
+      beforeEach(() => {
+        jest.spyOn(linksService, 'findBy').mockResolvedValue(MOCKED_LINKS[0] as LinkWithDomain);
+        MOCK_USER_CONTEXT['plan'] = 'PRO';
+      });
+
+      afterEach(() => {
+        delete MOCK_USER_CONTEXT['plan'];
+      });
+
+      it('should replace the scheduled changes of the link', async () => {
+        const scheduledAt = Date.now() + 1000 * 60 * 60;
+
+        await request(app.getHttpServer())
+          .patch(`/links/${MOCKED_LINKS[0].id}`)
+          .send({ activeFrom: scheduledAt, scheduledChanges: [{ url: 'https://example.com/sale', scheduledAt }] })
+          .expect(200);
+
+        expect(shortenerService.isUrlAlreadyShortened).toHaveBeenCalledWith('https://example.com/sale');
+        expect(linksService.update).toHaveBeenCalledWith(MOCKED_LINKS[0].id, {
+          activeFrom: new Date(scheduledAt),
+          scheduledChanges: { deleteMany: {}, create: [{ url: 'https://example.com/sale', scheduledAt: new Date(scheduledAt) }] },
+        });
+      });
+
+      it('should remove the activation time and the scheduled changes when null is sent', async () => {
+        await request(app.getHttpServer())
+          .patch(`/links/${MOCKED_LINKS[0].id}`)
+          .send({ activeFrom: null, scheduledChanges: null })
+          .expect(200);
+
+        expect(linksService.update).toHaveBeenCalledWith(MOCKED_LINKS[0].id, {
+          activeFrom: null,
+          scheduledChanges: { deleteMany: {}, create: [] },
+        });
+      });
+
+      it('should throw an error if a change is scheduled in the past', async () => {
+        await request(app.getHttpServer())
+          .patch(`/links/${MOCKED_LINKS[0].id}`)
+          .send({ scheduledChanges: [{ url: 'https://example.com/sale', scheduledAt: Date.now() - 1000 }] })
+          .expect(400);
+
+        expect(linksService.update).not.toHaveBeenCalled();
+      });
+
+      it('should not allow scheduling on the free plan', async () => {
+        delete MOCK_USER_CONTEXT['plan'];
+
+        await request(app.getHttpServer())
+          .patch(`/links/${MOCKED_LINKS[0].id}`)
+          .send({ activeFrom: Date.now() + 1000 * 60 })
+          .expect(401);
+
+        expect(linksService.update).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('payloads', () => {
+      const PAYLOAD_LINK = {
+        ...MOCKED_LINKS[0],
+        type: LinkType.PAYLOAD,
+        url: 'Wi-Fi: Venue',
+        payload: { type: 'wifi', ssid: 'Venue', password: 'secret', encryption: 'WPA' },
+      };
+
+      it('should replace the payload and its summary', async () => {
+        jest.spyOn(linksService, 'findBy').mockResolvedValue(PAYLOAD_LINK as any);
+
+        await request(app.getHttpServer())
+          .patch(`/links/${PAYLOAD_LINK.id}`)
+          .send({ payload: { type: 'wifi', ssid: 'Venue 2', password: 'secret', encryption: 'WPA', hidden: true } })
+          .expect(200);
+
+        expect(linksService.update).toHaveBeenCalledWith(PAYLOAD_LINK.id, {
+          url: 'Wi-Fi: Venue 2',
+          payload: { type: 'wifi', ssid: 'Venue 2', password: 'secret', encryption: 'WPA', hidden: true },
+          history: {
+            create: {
+              url: PAYLOAD_LINK.url,
+              payload: PAYLOAD_LINK.payload,
+              passwordEnabled: false,
+              actor: { connect: { id: MOCK_USER_CONTEXT.id } },
+            },
+          },
+        });
+        expect(cacheService.del).toHaveBeenCalledWith(PAYLOAD_LINK.key);
+      });
+
+      it('should validate the fields of the payload type', async () => {
+        jest.spyOn(linksService, 'findBy').mockResolvedValue(PAYLOAD_LINK as any);
+
+        await request(app.getHttpServer())
+          .patch(`/links/${PAYLOAD_LINK.id}`)
+          .send({ payload: { type: 'wifi', encryption: 'WPA', password: 'secret' } })
+          .expect(400);
+
+        expect(linksService.update).not.toHaveBeenCalled();
+      });
+
+      it('should not set a url on payload links', async () => {
+        jest.spyOn(linksService, 'findBy').mockResolvedValue(PAYLOAD_LINK as any);
+
+        await request(app.getHttpServer()).patch(`/links/${PAYLOAD_LINK.id}`).send({ url: 'https://example.com' }).expect(400);
+
+        expect(linksService.update).not.toHaveBeenCalled();
+      });
+
+      it('should keep the file of file links', async () => {
+        const fileLink = { ...MOCKED_LINKS[0], type: LinkType.FILE, url: 'File: deck.pdf', file: { path: 'files/user-id/file-id' } };
+        jest.spyOn(linksService, 'findBy').mockResolvedValue(fileLink as any);
+
+        await request(app.getHttpServer()).patch(`/links/${fileLink.id}`).send({ url: 'https://example.com' }).expect(400);
+        await request(app.getHttpServer())
+          .patch(`/links/${fileLink.id}`)
+          .send({ payload: { type: 'text', text: 'Hello' } })
+          .expect(400);
+
+        expect(linksService.update).not.toHaveBeenCalled();
+      });
+
+      it('should not set a payload on url links', async () => {
+        await request(app.getHttpServer())
+          .patch(`/links/${MOCKED_LINKS[0].id}`)
+          .send({ payload: { type: 'text', text: 'Hello' } })
+          .expect(400);
+
+        expect(linksService.update).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('snippets', () => {
+      const SNIPPET_LINK = {
+        ...MOCKED_LINKS[0],
+        type: LinkType.SNIPPET,
+        url: 'Snippet: server:',
+        snippet: { content: 'server:\n  port: 3000', language: 'yaml' },
+      };
+
+      it('should replace the snippet and its summary', async () => {
+        jest.spyOn(linksService, 'findBy').mockResolvedValue(SNIPPET_LINK as any);
+
+        await request(app.getHttpServer())
+          .patch(`/links/${SNIPPET_LINK.id}`)
+          .send({ snippet: { content: 'port: 8080', language: 'yaml' } })
+          .expect(200);
+
+        expect(linksService.update).toHaveBeenCalledWith(SNIPPET_LINK.id, {
+          url: 'Snippet: port: 8080',
+          snippet: { content: 'port: 8080', language: 'yaml' },
+          history: {
+            create: {
+              url: SNIPPET_LINK.url,
+              snippet: SNIPPET_LINK.snippet,
+              passwordEnabled: false,
+              actor: { connect: { id: MOCK_USER_CONTEXT.id } },
+            },
+          },
+        });
+        expect(cacheService.del).toHaveBeenCalledWith(SNIPPET_LINK.key);
+      });
+
+      it('should validate the language of the snippet', async () => {
+        jest.spyOn(linksService, 'findBy').mockResolvedValue(SNIPPET_LINK as any);
+
+        await request(app.getHttpServer())
+          .patch(`/links/${SNIPPET_LINK.id}`)
+          .send({ snippet: { content: 'port: 8080', language: 'cobol' } })
+          .expect(400);
+
+        expect(linksService.update).not.toHaveBeenCalled();
+      });
+
+      it('should not set a url on snippet links', async () => {
+        jest.spyOn(linksService, 'findBy').mockResolvedValue(SNIPPET_LINK as any);
+
+        await request(app.getHttpServer()).patch(`/links/${SNIPPET_LINK.id}`).send({ url: 'https://example.com' }).expect(400);
+
+        expect(linksService.update).not.toHaveBeenCalled();
+      });
+
+      it('should not set a snippet on url links', async () => {
+        await request(app.getHttpServer())
+          .patch(`/links/${MOCKED_LINKS[0].id}`)
+          .send({ snippet: { content: 'Hello', language: 'text' } })
+          .expect(400);
+
+        expect(linksService.update).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('GET /links/:id/history', () => {
+    it('should return the history of the link', async () => {
+      const history = [
+        { id: 'history-id', url: 'https://google.com', hasPassword: false, actor: { id: MOCK_USER_CONTEXT.id, name: 'user' } },
+      ];
+      jest.spyOn(linksService, 'findHistory').mockResolvedValue(history as any);
+
+      const response = await request(app.getHttpServer()).get('/links/1/history').expect(200);
+
+      expect(linksService.findHistory).toHaveBeenCalledWith('1');
+      expect(response.body).toEqual(history);
+    });
+
+    it('should throw an UnauthorizedException if the link does not belong to the user', async () => {
+      jest.spyOn(linksService, 'findBy').mockResolvedValue(null);
+
+      await request(app.getHttpServer()).get('/links/1/history').expect(401);
+      expect(linksService.findHistory).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /links/:id/qr', () => {
+    const getSvg = (response: request.Response) => response.body.toString();
+
+    beforeEach(() => {
+      jest.spyOn(linksService, 'findBy').mockResolvedValue({ ...MOCKED_LINKS[0], domain: null } as LinkWithDomain);
+    });
+
+    afterEach(() => {
+      delete MOCK_USER_CONTEXT['plan'];
+    });
+
+    it('should render the code of the short url as SVG with the default style', async () => {
+      const response = await request(app.getHttpServer()).get('/links/1/qr').buffer().expect(200);
+
+      expect(response.headers['content-type']).toContain('image/svg+xml');
+      expect(response.headers['content-disposition']).toBeUndefined();
+      expect(getSvg(response)).toContain('width="512"');
+      expect(getSvg(response)).toContain('fill="#000000"');
+    });
+
+    it('should render PDF documents as attachments', async () => {
+      const response = await request(app.getHttpServer()).get('/links/1/qr?format=pdf&size=1024&download=true').buffer().expect(200);
+
+      expect(response.headers['content-type']).toContain('application/pdf');
+      expect(response.headers['content-disposition']).toBe('attachment; filename="nice.pdf"');
+    });
+
+    it('should apply the saved style and the overrides of the request', async () => {
+      MOCK_USER_CONTEXT['plan'] = 'PRO';
+      jest
+        .spyOn(linksService, 'findBy')
+        .mockResolvedValue({ ...MOCKED_LINKS[0], domain: null, qrStyle: { fgColor: '#112233', bgColor: '#fafafa' } } as any);
+
+      const response = await request(app.getHttpServer()).get('/links/1/qr?bgColor=%23000000').buffer().expect(200);
+
+      expect(getSvg(response)).toContain('<path fill="#112233"');
+      expect(getSvg(response)).toContain('<rect width="33" height="33" fill="#000000"/>');
+    });
+
+    it('should embed the saved logo', async () => {
+      MOCK_USER_CONTEXT['plan'] = 'PRO';
+      const logo = Buffer.from('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=', 'base64');
+      jest.spyOn(linksService, 'findBy').mockResolvedValue({ ...MOCKED_LINKS[0], domain: null, qrStyle: { logo: 'qr-logos/logo' } } as any);
+      jest.spyOn(shortenerService, 'getQrLogo').mockResolvedValue(logo);
+
+      const response = await request(app.getHttpServer()).get('/links/1/qr').buffer().expect(200);
+
+      expect(shortenerService.getQrLogo).toHaveBeenCalledWith('qr-logos/logo');
+      expect(getSvg(response)).toContain(`href="data:image/png;base64,${logo.toString('base64')}"`);
+    });
+
+    it('should ignore the saved custom style once the plan does not include it', async () => {
+      jest
+        .spyOn(linksService, 'findBy')
+        .mockResolvedValue({ ...MOCKED_LINKS[0], domain: null, qrStyle: { fgColor: '#112233', logo: 'qr-logos/logo' } } as any);
+
+      const response = await request(app.getHttpServer()).get('/links/1/qr').buffer().expect(200);
+
+      expect(getSvg(response)).toContain('<path fill="#000000"');
+      expect(shortenerService.getQrLogo).not.toHaveBeenCalled();
+    });
+
+    it('should not allow custom styles on the free plan', async () => {
+      await request(app.getHttpServer()).get('/links/1/qr?fgColor=%23112233').expect(401);
+    });
+
+    it('should allow changing the margin on the free plan', async () => {
+      const response = await request(app.getHttpServer()).get('/links/1/qr?margin=0').buffer().expect(200);
+
+      expect(getSvg(response)).toContain('viewBox="0 0 29 29"');
+    });
+
+    it('should reject invalid options', async () => {
+      await request(app.getHttpServer()).get('/links/1/qr?format=gif').expect(400);
+      await request(app.getHttpServer()).get('/links/1/qr?size=10000').expect(400);
+    });
+
+    it('should throw an UnauthorizedException if the link does not belong to the user', async () => {
+      jest.spyOn(linksService, 'findBy').mockResolvedValue(null);
+
+      await request(app.getHttpServer()).get('/links/1/qr').expect(401);
+    });
+  });
+
+  describe('PUT /links/:id/qr', () => {
+    const LOGO = 'data:image/png;base64,aGVsbG8=';
+
+    beforeEach(() => {
+      jest
+        .spyOn(linksService, 'findBy')
+        .mockResolvedValue({ ...MOCKED_LINKS[0], qrStyle: { fgColor: '#112233', logo: 'qr-logos/old-logo' } } as any);
+      MOCK_USER_CONTEXT['plan'] = 'PRO';
+    });
+
+    afterEach(() => {
+      delete MOCK_USER_CONTEXT['plan'];
+    });
+
+    it('should save the style and replace the logo', async () => {
+      const originalConfig = configService.getConfig();
+      jest.spyOn(configService, 'getConfig').mockReturnValue({ ...originalConfig, storage: { ...originalConfig.storage, enable: true } });
+
+      await request(app.getHttpServer()).put('/links/1/qr').send({ fgColor: '#ff0000', errorCorrection: 'Q', logo: LOGO }).expect(200);
+
+      expect(shortenerService.uploadQrLogo).toHaveBeenCalledWith(LOGO);
+      expect(linksService.update).toHaveBeenCalledWith('1', {
+        qrStyle: { fgColor: '#ff0000', errorCorrection: 'Q', logo: 'qr-logos/new-logo' },
+      });
+      expect(shortenerService.deleteQrLogo).toHaveBeenCalledWith('qr-logos/old-logo');
+    });
+
+    it('should delete the uploaded logo if the style could not be saved', async () => {
+      const originalConfig = configService.getConfig();
+      jest.spyOn(configService, 'getConfig').mockReturnValue({ ...originalConfig, storage: { ...originalConfig.storage, enable: true } });
+      jest.spyOn(linksService, 'update').mockRejectedValue(new Error('Deadlock'));
+
+      await request(app.getHttpServer()).put('/links/1/qr').send({ logo: LOGO }).expect(500);
+
+      expect(shortenerService.deleteQrLogo).toHaveBeenCalledTimes(1);
+      expect(shortenerService.deleteQrLogo).toHaveBeenCalledWith('qr-logos/new-logo');
+    });
+
+    it('should keep the logo when it is not sent', async () => {
+      await request(app.getHttpServer()).put('/links/1/qr').send({ bgColor: '#eeeeee' }).expect(200);
+
+      expect(linksService.update).toHaveBeenCalledWith('1', { qrStyle: { bgColor: '#eeeeee', logo: 'qr-logos/old-logo' } });
+      expect(shortenerService.deleteQrLogo).not.toHaveBeenCalled();
+    });
+
+    it('should clear the style when the logo is removed', async () => {
+      await request(app.getHttpServer()).put('/links/1/qr').send({ logo: null }).expect(200);
+
+      expect(linksService.update).toHaveBeenCalledWith('1', { qrStyle: Prisma.DbNull });
+      expect(shortenerService.deleteQrLogo).toHaveBeenCalledWith('qr-logos/old-logo');
+    });
+
+    it('should not allow logos when uploads are disabled', async () => {
+      const originalConfig = configService.getConfig();
+      jest.spyOn(configService, 'getConfig').mockReturnValue({ ...originalConfig, storage: { ...originalConfig.storage, enable: false } });
+
+      await request(app.getHttpServer()).put('/links/1/qr').send({ logo: LOGO }).expect(400);
+      expect(linksService.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid colors', async () => {
+      await request(app.getHttpServer()).put('/links/1/qr').send({ fgColor: 'red' }).expect(400);
+      expect(linksService.update).not.toHaveBeenCalled();
+    });
+
+    it('should only allow the margin on the free plan', async () => {
+      delete MOCK_USER_CONTEXT['plan'];
+
+      await request(app.getHttpServer()).put('/links/1/qr').send({ fgColor: '#ff0000' }).expect(401);
+      await request(app.getHttpServer()).put('/links/1/qr').send({ margin: 4 }).expect(200);
+
+      expect(linksService.update).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('POST /links/:id/history/:historyId/revert', () => {
+    const ENTRY = {
+      id: 'history-id',
+      linkId: '1',
+      url: 'https://google.com',
+      utm: null,
+      passwordEnabled: false,
+      expirationTime: null,
+    };
+
+    beforeEach(() => {
+      MOCK_USER_CONTEXT['plan'] = 'PRO';
+    });
+
+    afterEach(() => {
+      delete MOCK_USER_CONTEXT['plan'];
+    });
+
+    it('should revert the link to the values of the history entry and evict it from the cache', async () => {
+      const link = MOCKED_LINKS[0];
+      jest.spyOn(linksService, 'findHistoryEntry').mockResolvedValue(ENTRY as any);
+
+      await request(app.getHttpServer()).post(`/links/${link.id}/history/${ENTRY.id}/revert`).expect(201);
+
+      expect(linksService.findHistoryEntry).toHaveBeenCalledWith(link.id, ENTRY.id);
+      expect(linksService.update).toHaveBeenCalledWith(link.id, {
+        url: ENTRY.url,
+        utm: Prisma.DbNull,
+        password: null,
+        expirationTime: null,
+        history: { create: { url: link.url, passwordEnabled: false, actor: { connect: { id: MOCK_USER_CONTEXT.id } } } },
+      });
+      expect(cacheService.del).toHaveBeenCalledWith(link.key);
+    });
+
+    it('should set a new password to revert to a password protected version', async () => {
+      const link = MOCKED_LINKS[0];
+      jest.spyOn(linksService, 'findHistoryEntry').mockResolvedValue({ ...ENTRY, passwordEnabled: true } as any);
+
+      await request(app.getHttpServer()).post(`/links/${link.id}/history/${ENTRY.id}/revert`).send({ password: 'secret' }).expect(201);
+
+      expect(shortenerService.hashPassword).toHaveBeenCalledWith('secret');
+      expect(linksService.update).toHaveBeenCalledWith(link.id, expect.objectContaining({ password: 'hashed' }));
+    });
+
+    it('should not revert to a password protected version without a new password', async () => {
+      jest.spyOn(linksService, 'findHistoryEntry').mockResolvedValue({ ...ENTRY, passwordEnabled: true } as any);
+
+      await request(app.getHttpServer()).post(`/links/1/history/${ENTRY.id}/revert`).expect(400);
+      expect(linksService.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw an error if the history entry does not exist', async () => {
+      jest.spyOn(linksService, 'findHistoryEntry').mockResolvedValue(null);
+
+      await request(app.getHttpServer()).post(`/links/1/history/${ENTRY.id}/revert`).expect(400);
+      expect(linksService.update).not.toHaveBeenCalled();
+    });
+
+    it('should not revert archived links', async () => {
+      jest.spyOn(linksService, 'findBy').mockResolvedValue({ ...MOCKED_LINKS[0], archivedAt: new Date() } as LinkWithDomain);
+
+      await request(app.getHttpServer()).post(`/links/1/history/${ENTRY.id}/revert`).expect(400);
+      expect(linksService.update).not.toHaveBeenCalled();
+    });
+
+    it('should check the restored url like an update and rescan links released by an admin', async () => {
+      const link = { ...MOCKED_LINKS[0], type: LinkType.URL, safeUrlReleasedAt: new Date() };
+      jest.spyOn(linksService, 'findBy').mockResolvedValue(link as LinkWithDomain);
+      jest.spyOn(linksService, 'findHistoryEntry').mockResolvedValue(ENTRY as any);
+
+      await request(app.getHttpServer()).post(`/links/${link.id}/history/${ENTRY.id}/revert`).expect(201);
+
+      expect(shortenerService.isUrlAlreadyShortened).toHaveBeenCalledWith(ENTRY.url);
+      expect(linksService.update).toHaveBeenCalledWith(link.id, expect.objectContaining({ safeUrlReleasedAt: null }));
+    });
+
+    it('should not restore an url that is not safe', async () => {
+      jest.spyOn(linksService, 'findBy').mockResolvedValue({ ...MOCKED_LINKS[0], type: LinkType.URL } as LinkWithDomain);
+      jest.spyOn(linksService, 'findHistoryEntry').mockResolvedValue(ENTRY as any);
+      jest.spyOn(configService, 'getConfig').mockReturnValue({ safeUrl: { enable: true } } as any);
+      jest.spyOn(safeUrlService, 'isSafeUrl').mockResolvedValue(false);
+
+      await request(app.getHttpServer()).post(`/links/1/history/${ENTRY.id}/revert`).expect(400);
+      expect(linksService.update).not.toHaveBeenCalled();
+    });
+
+    it('should not restore features that are not included in the user plan', async () => {
+      delete MOCK_USER_CONTEXT['plan'];
+      jest.spyOn(linksService, 'findHistoryEntry').mockResolvedValue({ ...ENTRY, passwordEnabled: true } as any);
+
+      await request(app.getHttpServer()).post(`/links/1/history/${ENTRY.id}/revert`).send({ password: 'secret' }).expect(401);
+      expect(linksService.update).not.toHaveBeenCalled();
+    });
+
+    it('should not restore an expiration time that passed', async () => {
+      jest.spyOn(linksService, 'findHistoryEntry').mockResolvedValue({ ...ENTRY, expirationTime: new Date(Date.now() - 1000) } as any);
+
+      await request(app.getHttpServer()).post(`/links/1/history/${ENTRY.id}/revert`).expect(400);
+      expect(linksService.update).not.toHaveBeenCalled();
+    });
+  });
+
   describe('DELETE /links/:id', () => {
-    it('should delete the link if the user is authorized and the link exists', async () => {
+    it('should archive the link if the user is authorized and the link exists', async () => {
       const linkToDelete = MOCKED_LINKS[0];
       jest.spyOn(linksService, 'findAll').mockResolvedValue(MOCK_FIND_ALL_RESULT);
-      jest.spyOn(linksService, 'findBy').mockResolvedValue(linkToDelete as Link);
-      jest.spyOn(linksService, 'delete').mockResolvedValue(linkToDelete as Link);
+      jest.spyOn(linksService, 'findBy').mockResolvedValue(linkToDelete as LinkWithDomain);
 
       const response = await request(app.getHttpServer()).delete(`/links/${linkToDelete.id}`).expect(200);
 
@@ -171,10 +1182,19 @@ describe('LinksController', () => {
         id: linkToDelete.id,
       });
 
-      expect(linksService.delete).toHaveBeenCalledWith(linkToDelete.id);
+      expect(linksService.archive).toHaveBeenCalledWith(linkToDelete.id);
+      expect(linksService.delete).not.toHaveBeenCalled();
+      expect(cacheService.del).toHaveBeenCalledWith(linkToDelete.key);
       expect(response.body).toEqual(linkToDelete);
     });
 
+    it('should throw an error if the link is already archived', async () => {
+      jest.spyOn(linksService, 'findBy').mockResolvedValue({ ...MOCKED_LINKS[0], archivedAt: new Date() } as LinkWithDomain);
+
+      await request(app.getHttpServer()).delete('/links/1').expect(400);
+      expect(linksService.archive).not.toHaveBeenCalled();
+    });
+
     it('should throw an UnauthorizedException if the link does not belong to the user', async () => {
       jest.spyOn(linksService, 'findBy').mockResolvedValue(null);
 
@@ -184,12 +1204,11 @@ describe('LinksController', () => {
         userId: expect.anything(),
         id: 'invalid-link-id',
       });
-      expect(linksService.delete).not.toHaveBeenCalled();
+      expect(linksService.archive).not.toHaveBeenCalled();
     });
 
     it('should throw an error if the link does not exist', async () => {
       jest.spyOn(linksService, 'findBy').mockResolvedValue(undefined);
-      jest.spyOn(linksService, 'delete').mockResolvedValue(undefined);
 
       await request(app.getHttpServer()).delete('/links/non-existent-id').expect(401); // 401 Unauthorized as the link is not found
 
@@ -197,7 +1216,208 @@ describe('LinksController', () => {
         userId: expect.anything(),
         id: 'non-existent-id',
       });
-      expect(linksService.delete).not.toHaveBeenCalled();
+      expect(linksService.archive).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /links/bulk', () => {
+    const LINK_IDS = ['0b1f4b4e-8a6c-4c1e-9d0a-6f4f4d1c2b3a', '5c3e2a1d-4b6f-4e8a-9c0d-1e2f3a4b5c6d'];
+    const TAG_ID = 'a8f5f167-0e4a-4c6b-8f1e-2d3c4b5a6978';
+
+    const BULK_LINKS = [
+      {
+        id: LINK_IDS[0],
+        key: 'nice',
+        url: 'https://reduced.to',
+        utm: null,
+        password: null,
+        expirationTime: null,
+        archivedAt: null,
+        domain: null,
+      },
+      {
+        id: LINK_IDS[1],
+        key: 'good',
+        url: 'https://google.com',
+        utm: null,
+        password: null,
+        expirationTime: null,
+        archivedAt: null,
+        domain: null,
+      },
+    ];
+
+    beforeEach(() => {
+      MOCK_USER_CONTEXT['plan'] = 'PRO';
+      jest.spyOn(linksService, 'findForBulk').mockResolvedValue(BULK_LINKS as any);
+    });
+
+    afterEach(() => {
+      delete MOCK_USER_CONTEXT['plan'];
+    });
+
+    it('should archive the links and evict them from the cache', async () => {
+      const response = await request(app.getHttpServer()).post('/links/bulk').send({ operation: 'archive', ids: LINK_IDS }).expect(201);
+
+      expect(linksService.findForBulk).toHaveBeenCalledWith(MOCK_USER_CONTEXT.id, LINK_IDS, undefined);
+      expect(linksService.bulkUpdate).toHaveBeenCalledWith(LINK_IDS.map((id) => ({ id, data: { archivedAt: expect.any(Date) } })));
+      expect(cacheService.del).toHaveBeenCalledWith('nice');
+      expect(cacheService.del).toHaveBeenCalledWith('good');
+      expect(response.body.results).toEqual([
+        { id: LINK_IDS[0], key: 'nice', success: true },
+        { id: LINK_IDS[1], key: 'good', success: true },
+      ]);
+    });
+
+    it('should return per-item results for missing and archived links', async () => {
+      const missingId = 'd4e5f6a7-b8c9-4d0e-8f1a-2b3c4d5e6f70';
+      jest.spyOn(linksService, 'findForBulk').mockResolvedValue([BULK_LINKS[0], { ...BULK_LINKS[1], archivedAt: new Date() }] as any);
+
+      const response = await request(app.getHttpServer())
+        .post('/links/bulk')
+        .send({ operation: 'addTag', tagId: TAG_ID, ids: [...LINK_IDS, missingId] })
+        .expect(201);
+
+      expect(linksService.bulkUpdate).toHaveBeenCalledWith([{ id: LINK_IDS[0], data: { tags: { connect: { id: TAG_ID } } } }]);
+      expect(response.body.results).toEqual([
+        { id: missingId, success: false, error: 'Link not found' },
+        { id: LINK_IDS[1], key: 'good', success: false, error: 'Archived links cannot be updated, restore the link first' },
+        { id: LINK_IDS[0], key: 'nice', success: true },
+      ]);
+    });
+
+    it('should select the links with a filter', async () => {
+      const filter = { text: 'campaign', folder: 'f0a1b2c3-d4e5-4f60-8a7b-9c0d1e2f3a4b' };
+
+      await request(app.getHttpServer()).post('/links/bulk').send({ operation: 'move', folderId: null, filter }).expect(201);
+
+      expect(linksService.findForBulk).toHaveBeenCalledWith(MOCK_USER_CONTEXT.id, undefined, filter);
+      expect(linksService.bulkUpdate).toHaveBeenCalledWith(LINK_IDS.map((id) => ({ id, data: { folder: { disconnect: true } } })));
+    });
+
+    it('should require either ids or a filter', async () => {
+      await request(app.getHttpServer()).post('/links/bulk').send({ operation: 'archive' }).expect(400);
+      await request(app.getHttpServer()).post('/links/bulk').send({ operation: 'archive', ids: LINK_IDS, filter: {} }).expect(400);
+      expect(linksService.bulkUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should keep the previous values of audited fields in the history', async () => {
+      const expirationTime = Date.now() + 60 * 60 * 1000;
+
+      await request(app.getHttpServer())
+        .post('/links/bulk')
+        .send({ operation: 'setExpiration', expirationTime, ids: LINK_IDS })
+        .expect(201);
+
+      const [updates] = (linksService.bulkUpdate as jest.Mock).mock.calls[0];
+      expect(updates[0].data.expirationTime).toEqual(new Date(expirationTime));
+      expect(updates[0].data.history).toEqual({ create: expect.objectContaining({ url: 'https://reduced.to' }) });
+    });
+
+    it('should not allow an expiration time in the past', async () => {
+      await request(app.getHttpServer())
+        .post('/links/bulk')
+        .send({ operation: 'setExpiration', expirationTime: Date.now() - 1000, ids: LINK_IDS })
+        .expect(400);
+      expect(linksService.bulkUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should hash the password once for all the links', async () => {
+      await request(app.getHttpServer())
+        .post('/links/bulk')
+        .send({ operation: 'setPassword', password: 'secret', ids: LINK_IDS })
+        .expect(201);
+
+      expect(shortenerService.hashPassword).toHaveBeenCalledTimes(1);
+      const [updates] = (linksService.bulkUpdate as jest.Mock).mock.calls[0];
+      expect(updates.map(({ data }) => data.password)).toEqual(['hashed', 'hashed']);
+    });
+
+    it('should replace the utm parameters of the links', async () => {
+      await request(app.getHttpServer())
+        .post('/links/bulk')
+        .send({ operation: 'setUtm', utm_source: 'newsletter', ids: LINK_IDS })
+        .expect(201);
+
+      const [updates] = (linksService.bulkUpdate as jest.Mock).mock.calls[0];
+      expect(updates[0].data.utm).toEqual({ utm_source: 'newsletter' });
+    });
+
+    it('should not allow tags of other users', async () => {
+      jest.spyOn(shortenerService, 'ownsTagsAndFolder').mockResolvedValue(false);
+
+      await request(app.getHttpServer()).post('/links/bulk').send({ operation: 'removeTag', tagId: TAG_ID, ids: LINK_IDS }).expect(400);
+      expect(linksService.bulkUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should archive the links when deleting them', async () => {
+      const links = [BULK_LINKS[0], { ...BULK_LINKS[1], archivedAt: new Date() }];
+      jest.spyOn(linksService, 'findForBulk').mockResolvedValue(links as any);
+
+      const response = await request(app.getHttpServer()).post('/links/bulk').send({ operation: 'delete', ids: LINK_IDS }).expect(201);
+
+      const [updates] = (linksService.bulkUpdate as jest.Mock).mock.calls[0];
+      expect(updates).toEqual([{ id: BULK_LINKS[0].id, data: { archivedAt: expect.any(Date) } }]);
+      expect(response.body.results).toContainEqual({
+        id: BULK_LINKS[1].id,
+        key: BULK_LINKS[1].key,
+        success: false,
+        error: 'The link is already archived',
+      });
+      expect(shortenerService.deleteLinkFile).not.toHaveBeenCalled();
+      expect(cacheService.del).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report every link as failed if the transaction fails', async () => {
+      jest.spyOn(linksService, 'bulkUpdate').mockRejectedValue(new Error('Deadlock'));
+
+      const response = await request(app.getHttpServer()).post('/links/bulk').send({ operation: 'archive', ids: LINK_IDS }).expect(201);
+
+      expect(response.body.results.every(({ success }) => !success)).toBe(true);
+      expect(cacheService.del).not.toHaveBeenCalled();
+    });
+
+    it('should not allow plan features that are not available', async () => {
+      delete MOCK_USER_CONTEXT['plan'];
+
+      await request(app.getHttpServer())
+        .post('/links/bulk')
+        .send({ operation: 'setPassword', password: 'secret', ids: LINK_IDS })
+        .expect(401);
+      expect(linksService.bulkUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /links/:id/restore', () => {
+    beforeEach(() => {
+      jest.spyOn(configService, 'getConfig').mockReturnValue({ links: { archiveRetentionDays: 30 } } as any);
+    });
+
+    it('should restore an archived link', async () => {
+      jest.spyOn(linksService, 'findBy').mockResolvedValue({ ...MOCKED_LINKS[0], archivedAt: new Date() } as LinkWithDomain);
+
+      await request(app.getHttpServer()).post('/links/1/restore').expect(201);
+      expect(linksService.restore).toHaveBeenCalledWith('1');
+    });
+
+    it('should throw an error if the link is not archived', async () => {
+      await request(app.getHttpServer()).post('/links/1/restore').expect(400);
+      expect(linksService.restore).not.toHaveBeenCalled();
+    });
+
+    it('should throw an error if the retention window of the link ended', async () => {
+      const archivedAt = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000);
+      jest.spyOn(linksService, 'findBy').mockResolvedValue({ ...MOCKED_LINKS[0], archivedAt } as LinkWithDomain);
+
+      await request(app.getHttpServer()).post('/links/1/restore').expect(400);
+      expect(linksService.restore).not.toHaveBeenCalled();
+    });
+
+    it('should throw an UnauthorizedException if the link does not belong to the user', async () => {
+      jest.spyOn(linksService, 'findBy').mockResolvedValue(null);
+
+      await request(app.getHttpServer()).post('/links/1/restore').expect(401);
+      expect(linksService.restore).not.toHaveBeenCalled();
     });
   });
 });
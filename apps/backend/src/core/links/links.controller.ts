@@ -1,14 +1,79 @@
-import { Controller, Delete, Get, Param, Query, Req, UnauthorizedException, UseGuards } from '@nestjs/common';
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Put,
+  Query,
+  Req,
+  Res,
+  UnauthorizedException,
+  UseGuards,
+} from '@nestjs/common';
 import { JwtAuthGuard } from '../../auth/guards/jwt.guard';
 import { RolesGuard } from '../../auth/guards/roles.guard';
-import { LinksService } from './links.service';
+import { BulkLink, ExportLink, LinkHistoryEntry, LinksService } from './links.service';
 import { IPaginationResult, calculateSkip } from '../../shared/utils';
-import { FindAllQueryDto } from './dto';
-import { Role, Link } from '@reduced.to/prisma';
+import {
+  BulkLinksDto,
+  BulkOperation,
+  DEFAULT_QR_SIZE,
+  ExportFormat,
+  ExportLinksQueryDto,
+  FindAllQueryDto,
+  MAX_BULK_LINKS,
+  QrCodeQueryDto,
+  QrFormat,
+  QrStyleDto,
+  RevertLinkDto,
+  UpdateLinkDto,
+} from './dto';
+import { Role, Link, LinkHealth, LinkType, Prisma } from '@reduced.to/prisma';
 import { Roles, UserCtx } from '../../shared/decorators';
-import { Request } from 'express';
+import { Request, Response } from 'express';
+import { once } from 'events';
 import { UserContext } from '../../auth/interfaces/user-context';
-import { AppCacheService } from '../../cache/cache.service';
+import { AppCacheService, getLinkCacheKey } from '../../cache/cache.service';
+import { AppConfigService } from '@reduced.to/config';
+import { AppLoggerService } from '@reduced.to/logger';
+import { SafeUrlService } from '@reduced.to/safe-url';
+import {
+  QrPayload,
+  QrStyle,
+  createUtmObject,
+  describeLinkSnippet,
+  describeQrPayload,
+  getQrCodeUrl,
+  hasDeepLinks,
+  sanitizeLinkSnippet,
+  sanitizeQrPayload,
+} from '@reduced.to/utils';
+import { ShortenerService } from '../../shortener/shortener.service';
+import { GuardFields, findNotPermittedField } from '../../shortener/guards/feature.guard';
+import { getDestinationUrls } from '../../shortener/destinations/destinations';
+import { createHistoryEntry, hasAuditedChanges } from './history/history';
+import {
+  EXPORT_COLUMNS,
+  EXPORT_CONTENT_TYPES,
+  ExportRow,
+  MAX_XLSX_EXPORT_LINKS,
+  toCsvLine,
+  toExportRow,
+  toNdjsonLine,
+  toXlsx,
+} from './export/export';
+import { QR_CONTENT_TYPES, getQrStyle, renderQrPdf, renderQrSvg } from './qr/qr';
+
+export interface BulkLinkResult {
+  id: string;
+  key?: string;
+  success: boolean;
+  error?: string;
+}
 
 @UseGuards(JwtAuthGuard, RolesGuard)
 @Controller({
@@ -16,12 +81,19 @@ import { AppCacheService } from '../../cache/cache.service';
   version: '1',
 })
 export class LinksController {
-  constructor(private readonly linksService: LinksService, private readonly cacheService: AppCacheService) {}
+  constructor(
+    private readonly linksService: LinksService,
+    private readonly cacheService: AppCacheService,
+    private readonly configService: AppConfigService,
+    private readonly logger: AppLoggerService,
+    private readonly safeUrlService: SafeUrlService,
+    private readonly shortenerService: ShortenerService
+  ) {}
 
   @Get()
   @Roles(Role.ADMIN, Role.USER)
   async findAll(@Req() request: Request, @Query() query: FindAllQueryDto): Promise<IPaginationResult<Link>> {
-    const { page, limit, filter, sort } = query;
+    const { page, limit, filter, sort, tag, folder, archived, broken } = query;
     const user = request.user as UserContext;
 
     return this.linksService.findAll({
@@ -32,10 +104,478 @@ export class LinksController {
       // Always add extraWhereClause to the query, so that the user can only see his own links
       extraWhereClause: {
         userId: user?.id,
+        archivedAt: archived ? { not: null } : null,
+        ...(broken && { healthStatus: LinkHealth.BROKEN }),
+        ...(tag && { tags: { some: { id: tag } } }),
+        ...(folder && { folderId: folder }),
       },
     });
   }
 
+  @Post('bulk')
+  @Roles(Role.ADMIN, Role.USER)
+  async bulk(@UserCtx() user: UserContext, @GuardFields() @Body() bulkLinksDto: BulkLinksDto): Promise<{ results: BulkLinkResult[] }> {
+    const { operation, ids, filter } = bulkLinksDto;
+
+    if (!ids === !filter) {
+      throw new BadRequestException('Either ids or a filter must be sent');
+    }
+
+    const links = await this.linksService.findForBulk(user.id, ids, filter);
+    if (links.length > MAX_BULK_LINKS) {
+      throw new BadRequestException(`Up to ${MAX_BULK_LINKS} links can be changed at once`);
+    }
+
+    // Validate the operation before changing any link
+    const data = await this.getBulkUpdateData(user.id, bulkLinksDto);
+
+    const results: BulkLinkResult[] = (ids || [])
+      .filter((id) => !links.some((link) => link.id === id))
+      .map((id) => ({ id, success: false, error: 'Link not found' }));
+
+    const targets: BulkLink[] = [];
+    for (const link of links) {
+      if (link.archivedAt && (operation === BulkOperation.ARCHIVE || operation === BulkOperation.DELETE)) {
+        results.push({ id: link.id, key: link.key, success: false, error: 'The link is already archived' });
+      } else if (link.archivedAt) {
+        results.push({ id: link.id, key: link.key, success: false, error: 'Archived links cannot be updated, restore the link first' });
+      } else {
+        targets.push(link);
+      }
+    }
+
+    if (!targets.length) {
+      return { results };
+    }
+
+    this.logger.log(`User ${user.id} is applying the bulk operation ${operation} to ${targets.length} links`);
+    try {
+      await this.linksService.bulkUpdate(
+        targets.map((link) => ({
+          id: link.id,
+          data: hasAuditedChanges(link, data) ? { ...data, history: { create: createHistoryEntry(link, user.id) } } : data,
+        }))
+      );
+    } catch (err) {
+      // The operation runs in a single transaction, so none of the links were changed
+      this.logger.error(`Failed to apply the bulk operation ${operation} for user ${user.id}: ${err.message}`);
+      return {
+        results: [
+          ...results,
+          ...targets.map(({ id, key }) => ({ id, key, success: false, error: 'The operation failed, please try again' })),
+        ],
+      };
+    }
+
+    await Promise.all(targets.map((link) => this.cacheService.del(getLinkCacheKey(link.key, link.domain?.name))));
+
+    return { results: [...results, ...targets.map(({ id, key }) => ({ id, key, success: true }))] };
+  }
+
+  @Get('export')
+  @Roles(Role.ADMIN, Role.USER)
+  async export(@UserCtx() user: UserContext, @Query() query: ExportLinksQueryDto, @Res() res: Response): Promise<void> {
+    const { format = ExportFormat.CSV, ...filters } = query;
+
+    if (format === ExportFormat.XLSX && (await this.linksService.countForExport(user.id, filters)) > MAX_XLSX_EXPORT_LINKS) {
+      throw new BadRequestException(`Up to ${MAX_XLSX_EXPORT_LINKS} links can be exported as XLSX, please export them as CSV or NDJSON`);
+    }
+
+    const links = this.linksService.findForExport(user.id, filters);
+
+    this.logger.log(`User ${user.id} is exporting links as ${format}`);
+    res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+    res.setHeader('Content-Disposition', `attachment; filename="links.${format}"`);
+
+    try {
+      if (format === ExportFormat.XLSX) {
+        const rows: ExportRow[keyof ExportRow][][] = [];
+        for await (const batch of links) {
+          rows.push(...batch.map((link) => Object.values(this.getExportRow(link))));
+        }
+
+        res.send(toXlsx(rows));
+        return;
+      }
+
+      if (format === ExportFormat.CSV) {
+        res.write(toCsvLine([...EXPORT_COLUMNS]));
+      }
+
+      for await (const batch of links) {
+        const chunk = batch
+          .map((link) => this.getExportRow(link))
+          .map((row) => (format === ExportFormat.CSV ? toCsvLine(Object.values(row)) : toNdjsonLine(row)))
+          .join('');
+
+        // Wait for the client to read the previous batches before loading the next one
+        if (!res.write(chunk)) {
+          await once(res, 'drain');
+        }
+      }
+
+      res.end();
+    } catch (err) {
+      this.logger.error(`Failed to export the links of user ${user.id}: ${err.message}`);
+
+      // The response cannot be changed once it started, the client gets a truncated file instead
+      if (res.headersSent) {
+        res.destroy(err);
+        return;
+      }
+
+      throw err;
+    }
+  }
+
+  @Get(':id')
+  @Roles(Role.ADMIN, Role.USER)
+  async findOne(@UserCtx() user: UserContext, @Param('id') id: string): Promise<Omit<Link, 'password'> & { hasPassword: boolean }> {
+    const link = await this.linksService.findBy({
+      userId: user.id,
+      id,
+    });
+
+    if (!link) {
+      throw new UnauthorizedException();
+    }
+
+    // Never expose the password hash, only whether the link is protected
+    const { password, ...rest } = link;
+    return { ...rest, hasPassword: !!password };
+  }
+
+  @Patch(':id')
+  @Roles(Role.ADMIN, Role.USER)
+  async update(@UserCtx() user: UserContext, @Param('id') id: string, @GuardFields() @Body() updateLinkDto: UpdateLinkDto): Promise<Link> {
+    const link = await this.linksService.findBy({
+      userId: user.id,
+      id,
+    });
+
+    if (!link) {
+      throw new UnauthorizedException();
+    }
+
+    if (link.archivedAt) {
+      throw new BadRequestException('Archived links cannot be updated, restore the link first');
+    }
+
+    const {
+      url,
+      payload,
+      snippet,
+      description,
+      expirationTime,
+      activeFrom,
+      scheduledChanges,
+      password,
+      maxClicks,
+      rules,
+      variants,
+      stickyVariants,
+      deepLinks,
+      tags,
+      folderId,
+      ogTitle,
+      ogDescription,
+      ogImage,
+    } = updateLinkDto;
+
+    // The type of a link is kept, payload and snippet links are only edited through their content and the file of file links is kept
+    if (link.type === LinkType.PAYLOAD) {
+      if (url || snippet || rules?.length || variants?.length || hasDeepLinks(deepLinks) || scheduledChanges?.length) {
+        throw new BadRequestException(
+          'Payload links cannot have a url, a snippet, redirect rules, variants, deep links or scheduled changes'
+        );
+      }
+    } else if (link.type === LinkType.FILE) {
+      if (url || payload || snippet || rules?.length || variants?.length || hasDeepLinks(deepLinks) || scheduledChanges?.length) {
+        throw new BadRequestException(
+          'File links cannot have a url, a payload, a snippet, redirect rules, variants, deep links or scheduled changes'
+        );
+      }
+    } else if (link.type === LinkType.SNIPPET) {
+      if (url || payload || rules?.length || variants?.length || hasDeepLinks(deepLinks) || scheduledChanges?.length) {
+        throw new BadRequestException(
+          'Snippet links cannot have a url, a payload, redirect rules, variants, deep links or scheduled changes'
+        );
+      }
+    } else if (payload || snippet) {
+      throw new BadRequestException(payload ? 'Only payload links can have a payload' : 'Only snippet links can have a snippet');
+    }
+
+    const linkPayload = payload ? sanitizeQrPayload(payload as QrPayload) : undefined;
+    const linkSnippet = snippet ? sanitizeLinkSnippet(snippet) : undefined;
+
+    // Check the new url and the other destinations of the link
+    const newUrls = getDestinationUrls({ url: url !== link.url ? url : undefined, rules, variants, scheduledChanges, deepLinks });
+    await this.checkNewUrls(newUrls);
+
+    if (expirationTime && expirationTime < new Date().getTime()) {
+      throw new BadRequestException('Expiration time must be in the future');
+    }
+
+    if (scheduledChanges?.some(({ scheduledAt }) => scheduledAt < new Date().getTime())) {
+      throw new BadRequestException('Scheduled changes must be in the future');
+    }
+
+    if (!(await this.shortenerService.ownsTagsAndFolder(user.id, tags, folderId))) {
+      throw new BadRequestException('Tag or folder not found');
+    }
+
+    if (ogImage && !this.configService.getConfig().storage.enable) {
+      throw new BadRequestException('Image uploads are not available');
+    }
+
+    const ogImagePath = ogImage ? await this.shortenerService.uploadSocialPreviewImage(ogImage) : undefined;
+
+    const data: Prisma.LinkUpdateInput = {
+      ...(url && { url }),
+      ...(linkPayload && { url: describeQrPayload(linkPayload), payload: linkPayload as unknown as Prisma.InputJsonObject }),
+      ...(linkSnippet && { url: describeLinkSnippet(linkSnippet), snippet: linkSnippet as unknown as Prisma.InputJsonObject }),
+      ...(description !== undefined && { description }),
+      ...(expirationTime !== undefined && { expirationTime: expirationTime ? new Date(expirationTime) : null }),
+      ...(activeFrom !== undefined && { activeFrom: activeFrom ? new Date(activeFrom) : null }),
+      ...(scheduledChanges !== undefined && {
+        scheduledChanges: {
+          deleteMany: {},
+          create: (scheduledChanges || []).map((change) => ({ url: change.url, scheduledAt: new Date(change.scheduledAt) })),
+        },
+      }),
+      ...(maxClicks !== undefined && { maxClicks }),
+      ...(password !== undefined && { password: password ? await this.shortenerService.hashPassword(password) : null }),
+      ...(rules !== undefined && { rules: rules?.length ? (rules as unknown as Prisma.InputJsonArray) : Prisma.DbNull }),
+      ...(variants !== undefined && { variants: variants?.length ? (variants as unknown as Prisma.InputJsonArray) : Prisma.DbNull }),
+      ...(stickyVariants !== undefined && { stickyVariants }),
+      ...(deepLinks !== undefined && {
+        deepLinks: hasDeepLinks(deepLinks) ? (deepLinks as unknown as Prisma.InputJsonObject) : Prisma.DbNull,
+      }),
+      ...(tags !== undefined && { tags: { set: tags.map((id) => ({ id })) } }),
+      ...(folderId !== undefined && { folder: folderId ? { connect: { id: folderId } } : { disconnect: true } }),
+      ...(ogTitle !== undefined && { ogTitle: ogTitle || null }),
+      ...(ogDescription !== undefined && { ogDescription: ogDescription || null }),
+      ...(ogImage !== undefined && { ogImage: ogImagePath || null }),
+      // Links released by an admin are rescanned again once their destinations change
+      ...(newUrls.length && link.safeUrlReleasedAt && { safeUrlReleasedAt: null }),
+    };
+
+    const utmFields = {
+      ref: updateLinkDto.utm_ref,
+      utm_source: updateLinkDto.utm_source,
+      utm_medium: updateLinkDto.utm_medium,
+      utm_campaign: updateLinkDto.utm_campaign,
+      utm_term: updateLinkDto.utm_term,
+      utm_content: updateLinkDto.utm_content,
+    };
+
+    // Only touch the utm parameters if at least one of them was sent
+    if (Object.values(utmFields).some((value) => value !== undefined)) {
+      const utm = createUtmObject(utmFields);
+      data.utm = Object.keys(utm).length ? utm : Prisma.DbNull;
+    }
+
+    // Keep the previous values of the audited fields, so the change can be reviewed and reverted
+    if (hasAuditedChanges(link, data)) {
+      data.history = { create: createHistoryEntry(link, user.id) };
+    }
+
+    this.logger.log(`User ${user.id} is updating link ${link.key}`);
+    let updatedLink: Link;
+    try {
+      updatedLink = await this.linksService.update(id, data);
+    } catch (err) {
+      // The uploaded image is not referenced by any link
+      if (ogImagePath) {
+        await this.shortenerService.deleteSocialPreviewImage(ogImagePath);
+      }
+      throw err;
+    }
+
+    // Evict the cached value, the next redirect will load the updated link from the database
+    await this.cacheService.del(getLinkCacheKey(link.key, link.domain?.name));
+
+    // The previous image was replaced or removed
+    if (ogImage !== undefined && link.ogImage) {
+      try {
+        await this.shortenerService.deleteSocialPreviewImage(link.ogImage);
+      } catch (err) {
+        this.logger.error(`Failed to delete the social preview image of link ${link.key}: ${err.message}`);
+      }
+    }
+
+    return updatedLink;
+  }
+
+  @Get(':id/history')
+  @Roles(Role.ADMIN, Role.USER)
+  async findHistory(@UserCtx() user: UserContext, @Param('id') id: string): Promise<LinkHistoryEntry[]> {
+    const link = await this.linksService.findBy({
+      userId: user.id,
+      id,
+    });
+
+    if (!link) {
+      throw new UnauthorizedException();
+    }
+
+    return this.linksService.findHistory(id);
+  }
+
+  @Get(':id/qr')
+  @Roles(Role.ADMIN, Role.USER)
+  async qrCode(@UserCtx() user: UserContext, @Param('id') id: string, @Query() query: QrCodeQueryDto, @Res() res: Response): Promise<void> {
+    const link = await this.linksService.findBy({
+      userId: user.id,
+      id,
+    });
+
+    if (!link) {
+      throw new UnauthorizedException();
+    }
+
+    const { format = QrFormat.SVG, size = DEFAULT_QR_SIZE, download, ...overrides } = query;
+    const sentOverrides = Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined));
+    if (findNotPermittedField(user, sentOverrides)) {
+      throw new UnauthorizedException(`This feature is not available for your plan.`);
+    }
+
+    // The saved style is ignored once the plan of the user no longer includes custom QR codes
+    const savedStyle = (link.qrStyle || {}) as QrStyle;
+    const style = getQrStyle(findNotPermittedField(user, { ...savedStyle }) ? {} : savedStyle, sentOverrides);
+    const logo = style.logo ? await this.shortenerService.getQrLogo(style.logo) : null;
+
+    // The marker attributes the visits of the code to scans instead of clicks
+    const text = getQrCodeUrl(this.getShortUrl(link));
+    const options = { ...style, size, logo };
+
+    res.setHeader('Content-Type', QR_CONTENT_TYPES[format]);
+    if (download) {
+      res.setHeader('Content-Disposition', `attachment; filename="${link.key}.${format}"`);
+    }
+
+    res.send(format === QrFormat.PDF ? await renderQrPdf(text, options) : renderQrSvg(text, options));
+  }
+
+  @Put(':id/qr')
+  @Roles(Role.ADMIN, Role.USER)
+  async saveQrStyle(@UserCtx() user: UserContext, @Param('id') id: string, @GuardFields() @Body() qrStyleDto: QrStyleDto): Promise<Link> {
+    const link = await this.linksService.findBy({
+      userId: user.id,
+      id,
+    });
+
+    if (!link) {
+      throw new UnauthorizedException();
+    }
+
+    const { logo, ...style } = qrStyleDto;
+    if (logo && !this.configService.getConfig().storage.enable) {
+      throw new BadRequestException('Image uploads are not available');
+    }
+
+    // An undefined logo keeps the current one, null removes it
+    const currentLogo = (link.qrStyle as QrStyle)?.logo;
+    const logoPath = logo ? await this.shortenerService.uploadQrLogo(logo) : undefined;
+    const qrStyle: QrStyle = {
+      ...style,
+      ...(logo === undefined && currentLogo && { logo: currentLogo }),
+      ...(logoPath && { logo: logoPath }),
+    };
+
+    this.logger.log(`User ${user.id} is saving the QR code style of link ${link.key}`);
+    let updatedLink: Link;
+    try {
+      updatedLink = await this.linksService.update(id, {
+        qrStyle: Object.keys(qrStyle).length ? (qrStyle as Prisma.InputJsonObject) : Prisma.DbNull,
+      });
+    } catch (err) {
+      // The uploaded logo is not referenced by any link
+      if (logoPath) {
+        await this.shortenerService.deleteQrLogo(logoPath);
+      }
+      throw err;
+    }
+
+    // The previous logo was replaced or removed
+    if (logo !== undefined && currentLogo) {
+      try {
+        await this.shortenerService.deleteQrLogo(currentLogo);
+      } catch (err) {
+        this.logger.error(`Failed to delete the QR code logo of link ${link.key}: ${err.message}`);
+      }
+    }
+
+    return updatedLink;
+  }
+
+  @Post(':id/history/:historyId/revert')
+  @Roles(Role.ADMIN, Role.USER)
+  async revert(
+    @UserCtx() user: UserContext,
+    @Param('id') id: string,
+    @Param('historyId') historyId: string,
+    @Body() { password }: RevertLinkDto
+  ): Promise<Link> {
+    const link = await this.linksService.findBy({
+      userId: user.id,
+      id,
+    });
+
+    if (!link) {
+      throw new UnauthorizedException();
+    }
+
+    if (link.archivedAt) {
+      throw new BadRequestException('Archived links cannot be updated, restore the link first');
+    }
+
+    const entry = await this.linksService.findHistoryEntry(id, historyId);
+    if (!entry) {
+      throw new BadRequestException('History entry not found');
+    }
+
+    if (entry.passwordEnabled && !password) {
+      throw new BadRequestException('This version was password protected, please set a new password to revert to it');
+    }
+
+    // The restored values go through the same checks as an update, the plan or the destination may no longer allow them
+    const restoredFields = {
+      ...(entry.utm && (entry.utm as Record<string, string>)),
+      ...(entry.passwordEnabled && { password }),
+      ...(entry.expirationTime && { expirationTime: entry.expirationTime }),
+    };
+    if (findNotPermittedField(user, restoredFields)) {
+      throw new UnauthorizedException('This feature is not available for your plan.');
+    }
+
+    if (entry.expirationTime && entry.expirationTime.getTime() < new Date().getTime()) {
+      throw new BadRequestException('Expiration time must be in the future');
+    }
+
+    // The url of payload and snippet links is a summary of their content, it is not a destination
+    const newUrls = link.type === LinkType.URL && entry.url !== link.url ? [entry.url] : [];
+    await this.checkNewUrls(newUrls);
+
+    // The revert is a change as well, so the current values are kept in the history
+    this.logger.log(`User ${user.id} is reverting link ${link.key} to ${entry.id}`);
+    const updatedLink = await this.linksService.update(id, {
+      url: entry.url,
+      ...(entry.payload && { payload: entry.payload }),
+      ...(entry.snippet && { snippet: entry.snippet }),
+      utm: entry.utm ?? Prisma.DbNull,
+      password: entry.passwordEnabled ? await this.shortenerService.hashPassword(password) : null,
+      expirationTime: entry.expirationTime,
+      // Links released by an admin are rescanned again once their destinations change
+      ...(newUrls.length && link.safeUrlReleasedAt && { safeUrlReleasedAt: null }),
+      history: { create: createHistoryEntry(link, user.id) },
+    });
+
+    await this.cacheService.del(getLinkCacheKey(link.key, link.domain?.name));
+
+    return updatedLink;
+  }
+
   @Delete(':id')
   @UseGuards(JwtAuthGuard)
   @Roles(Role.ADMIN, Role.USER)
@@ -49,8 +589,123 @@ export class LinksController {
       throw new UnauthorizedException();
     }
 
-    await Promise.all([this.cacheService.del(link.key), this.linksService.delete(id)]);
+    if (link.archivedAt) {
+      throw new BadRequestException('The link is already archived');
+    }
+
+    // Links are archived instead of deleted so their analytics are kept, the usage is not decreased since the link was already created
+    await Promise.all([this.cacheService.del(getLinkCacheKey(link.key, link.domain?.name)), this.linksService.archive(id)]);
 
     return link;
   }
+
+  @Post(':id/restore')
+  @Roles(Role.ADMIN, Role.USER)
+  async restore(@UserCtx() user: UserContext, @Param('id') id: string): Promise<Link> {
+    const link = await this.linksService.findBy({
+      userId: user.id,
+      id,
+    });
+
+    if (!link) {
+      throw new UnauthorizedException();
+    }
+
+    if (!link.archivedAt) {
+      throw new BadRequestException('The link is not archived');
+    }
+
+    // The link may still be waiting for the purge task after its retention window ended
+    const retentionMs = this.configService.getConfig().links.archiveRetentionDays * 24 * 60 * 60 * 1000;
+    if (link.archivedAt.getTime() + retentionMs <= Date.now()) {
+      throw new BadRequestException('The link can no longer be restored');
+    }
+
+    return this.linksService.restore(id);
+  }
+
+  /**
+   * Checks the destinations a link is changed to, they cannot be short links and must pass the safe url check.
+   */
+  private async checkNewUrls(urls: string[]): Promise<void> {
+    for (const url of urls) {
+      if (await this.shortenerService.isUrlAlreadyShortened(url)) {
+        throw new BadRequestException('The URL is already shortened...');
+      }
+
+      if (this.configService.getConfig().safeUrl.enable) {
+        const isSafeUrl = await this.safeUrlService.isSafeUrl(url);
+        if (!isSafeUrl) {
+          throw new BadRequestException('This url is not safe to shorten!');
+        }
+      }
+    }
+  }
+
+  /**
+   * Returns the changes made to every link by a bulk operation.
+   */
+  private async getBulkUpdateData(userId: string, bulkLinksDto: BulkLinksDto): Promise<Prisma.LinkUpdateInput> {
+    const { operation, expirationTime, tagId, folderId, password } = bulkLinksDto;
+
+    switch (operation) {
+      // Links are archived instead of deleted like a single deletion, the purge task deletes them after the retention window
+      case BulkOperation.DELETE:
+      case BulkOperation.ARCHIVE:
+        return { archivedAt: new Date() };
+      case BulkOperation.SET_EXPIRATION:
+        if (expirationTime === undefined) {
+          throw new BadRequestException('Expiration time is required');
+        }
+
+        if (expirationTime && expirationTime < new Date().getTime()) {
+          throw new BadRequestException('Expiration time must be in the future');
+        }
+
+        return { expirationTime: expirationTime ? new Date(expirationTime) : null };
+      case BulkOperation.ADD_TAG:
+      case BulkOperation.REMOVE_TAG:
+        if (!tagId || !(await this.shortenerService.ownsTagsAndFolder(userId, [tagId]))) {
+          throw new BadRequestException('Tag or folder not found');
+        }
+
+        return { tags: operation === BulkOperation.ADD_TAG ? { connect: { id: tagId } } : { disconnect: { id: tagId } } };
+      case BulkOperation.MOVE:
+        if (folderId === undefined || !(await this.shortenerService.ownsTagsAndFolder(userId, undefined, folderId))) {
+          throw new BadRequestException('Tag or folder not found');
+        }
+
+        return { folder: folderId ? { connect: { id: folderId } } : { disconnect: true } };
+      case BulkOperation.SET_PASSWORD:
+        if (password === undefined) {
+          throw new BadRequestException('Password is required');
+        }
+
+        return { password: password ? await this.shortenerService.hashPassword(password) : null };
+      case BulkOperation.SET_UTM: {
+        const utm = createUtmObject({
+          ref: bulkLinksDto.utm_ref,
+          utm_source: bulkLinksDto.utm_source,
+          utm_medium: bulkLinksDto.utm_medium,
+          utm_campaign: bulkLinksDto.utm_campaign,
+          utm_term: bulkLinksDto.utm_term,
+          utm_content: bulkLinksDto.utm_content,
+        });
+
+        return { utm: Object.keys(utm).length ? utm : Prisma.DbNull };
+      }
+    }
+  }
+
+  private getExportRow(link: ExportLink): ExportRow {
+    return toExportRow(link, this.getShortUrl(link));
+  }
+
+  private getShortUrl(link: Pick<Link, 'key'> & { domain?: { name: string } | null }): string {
+    const { front, general } = this.configService.getConfig();
+    const frontUrl = general.env === 'production' ? `https://${front.domain}` : `http://${front.domain}:${general.frontendPort}`;
+
+    // Links of custom domains are served by their domain
+    return link.domain ? `https://${link.domain.name}/${link.key}` : `${frontUrl}/${link.key}`;
+  }
 }
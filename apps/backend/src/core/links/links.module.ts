@@ -1,11 +1,13 @@
 import { Module } from '@nestjs/common';
 import { AuthModule } from '../../auth/auth.module';
 import { PrismaModule } from '@reduced.to/prisma';
+import { SafeUrlModule } from '@reduced.to/safe-url';
+import { ShortenerModule } from '../../shortener/shortener.module';
 import { LinksController } from './links.controller';
 import { LinksService } from './links.service';
 
 @Module({
-  imports: [AuthModule, PrismaModule],
+  imports: [AuthModule, PrismaModule, SafeUrlModule.forRootAsync(), ShortenerModule],
   controllers: [LinksController],
   providers: [LinksService],
   exports: [LinksService],
@@ -1,7 +1,7 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { PrismaService } from '@reduced.to/prisma';
 import { SortOrder } from '../../shared/enums/sort-order.enum';
-import { LinksService } from './links.service';
+import { EXPORT_BATCH_SIZE, LinksService } from './links.service';
 import { IFindAllOptions } from '../entity.service';
 
 describe('LinksService', () => {
@@ -19,6 +19,7 @@ describe('LinksService', () => {
             link: {
               findMany: jest.fn(),
               count: jest.fn(),
+              update: jest.fn(),
             },
           },
         },
@@ -50,7 +51,12 @@ describe('LinksService', () => {
         expect.objectContaining({
           take: findAllOptions.limit,
           where: {
-            OR: [{ url: { contains: findAllOptions.filter } }, { key: { contains: findAllOptions.filter } }],
+            OR: [
+              { url: { contains: findAllOptions.filter } },
+              { key: { contains: findAllOptions.filter } },
+              { tags: { some: { name: { contains: findAllOptions.filter } } } },
+              { folder: { name: { contains: findAllOptions.filter } } },
+            ],
           },
           skip: findAllOptions.skip,
         })
@@ -104,11 +110,87 @@ describe('LinksService', () => {
           take: findAllOptions.limit,
           where: {
             userId: 'test',
-            OR: [{ url: { contains: findAllOptions.filter } }, { key: { contains: findAllOptions.filter } }],
+            OR: [
+              { url: { contains: findAllOptions.filter } },
+              { key: { contains: findAllOptions.filter } },
+              { tags: { some: { name: { contains: findAllOptions.filter } } } },
+              { folder: { name: { contains: findAllOptions.filter } } },
+            ],
           },
           skip: findAllOptions.skip,
         })
       );
     });
   });
+
+  describe('update', () => {
+    it('should call update with the selected fields only', async () => {
+      await service.update('1', { url: 'https://reduced.to' });
+      expect(prismaService.link.update).toHaveBeenCalledWith({
+        where: { id: '1' },
+        data: { url: 'https://reduced.to' },
+        select: service.selectFields,
+      });
+    });
+  });
+
+  describe('findForExport', () => {
+    const collect = async (iterator: AsyncGenerator<unknown[]>) => {
+      const batches = [];
+      for await (const batch of iterator) {
+        batches.push(batch);
+      }
+
+      return batches;
+    };
+
+    it('should read the links in batches with a cursor', async () => {
+      const firstBatch = Array.from({ length: EXPORT_BATCH_SIZE }, (_, index) => ({ id: `${index}` }));
+      jest
+        .spyOn(prismaService.link, 'findMany')
+        .mockResolvedValueOnce(firstBatch as any)
+        .mockResolvedValueOnce([{ id: 'last' }] as any);
+
+      const batches = await collect(service.findForExport('user', { filter: 'test', sort: { createdAt: SortOrder.ASCENDING } }));
+
+      expect(batches).toEqual([firstBatch, [{ id: 'last' }]]);
+      expect(prismaService.link.findMany).toHaveBeenCalledTimes(2);
+      expect(prismaService.link.findMany).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({
+          where: expect.objectContaining({ userId: 'user', archivedAt: null, OR: expect.any(Array) }),
+          orderBy: [{ createdAt: SortOrder.ASCENDING }, { id: 'asc' }],
+          take: EXPORT_BATCH_SIZE,
+        })
+      );
+      expect(prismaService.link.findMany).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({ cursor: { id: `${EXPORT_BATCH_SIZE - 1}` }, skip: 1 })
+      );
+    });
+
+    it('should not yield anything if the user has no links', async () => {
+      jest.spyOn(prismaService.link, 'findMany').mockResolvedValue([]);
+
+      const batches = await collect(service.findForExport('user', { archived: true }));
+
+      expect(batches).toEqual([]);
+      expect(prismaService.link.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: 'user', archivedAt: { not: null } },
+          orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+        })
+      );
+    });
+
+    it('should only export the broken links when asked to', async () => {
+      jest.spyOn(prismaService.link, 'findMany').mockResolvedValue([]);
+
+      await collect(service.findForExport('user', { broken: true }));
+
+      expect(prismaService.link.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { userId: 'user', archivedAt: null, healthStatus: 'BROKEN' } })
+      );
+    });
+  });
 });
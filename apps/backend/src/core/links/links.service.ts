@@ -1,6 +1,37 @@
 import { Injectable } from '@nestjs/common';
 import { EntityService } from '../entity.service';
-import { Link, Prisma, PrismaService } from '@reduced.to/prisma';
+import { Folder, Link, LinkHealth, LinkHistory, Prisma, PrismaService, ScheduledChange, Tag, User } from '@reduced.to/prisma';
+import { filterBuilder, orderByBuilder } from '../../shared/utils';
+import { BulkLinksFilterDto, ExportLinksQueryDto, MAX_BULK_LINKS } from './dto';
+
+// Links are exported in batches, so the links of a user are never all loaded at once
+export const EXPORT_BATCH_SIZE = 500;
+
+export type LinkWithDomain = Link & {
+  domain: { name: string } | null;
+  scheduledChanges: ScheduledChange[];
+  tags: Pick<Tag, 'id' | 'name' | 'color'>[];
+  folder: Pick<Folder, 'id' | 'name'> | null;
+};
+
+// Exposed as hasPassword, like the password protection of links
+export type LinkHistoryEntry = Omit<LinkHistory, 'passwordEnabled'> & {
+  hasPassword: boolean;
+  actor: Pick<User, 'id' | 'name'> | null;
+};
+
+// The fields of a link needed to apply a bulk operation, evict its cache and keep its history
+export type BulkLink = Pick<
+  Link,
+  'id' | 'key' | 'url' | 'utm' | 'password' | 'expirationTime' | 'archivedAt' | 'ogImage' | 'qrStyle' | 'file' | 'createdAt'
+> & {
+  domain: { name: string } | null;
+};
+
+// The fields of a link included in its export
+export type ExportLink = Pick<Link, 'id' | 'key' | 'url' | 'utm' | 'expirationTime' | 'createdAt' | 'clicks' | 'visits'> & {
+  domain: { name: string } | null;
+};
 
 @Injectable()
 export class LinksService extends EntityService<Link> {
@@ -12,32 +43,176 @@ export class LinksService extends EntityService<Link> {
     return 'link';
   }
 
-  get selectFields(): Partial<Record<keyof Prisma.LinkWhereInput, boolean>> {
+  get selectFields(): Partial<Record<keyof Prisma.LinkWhereInput, any | boolean>> {
     return {
       id: true,
+      type: true,
       url: true,
       key: true,
+      domain: {
+        select: {
+          name: true,
+        },
+      },
       clicks: true,
       description: true,
       utm: true,
+      rules: true,
+      variants: true,
+      stickyVariants: true,
+      deepLinks: true,
       expirationTime: true,
+      activeFrom: true,
+      scheduledChanges: {
+        select: {
+          id: true,
+          url: true,
+          scheduledAt: true,
+        },
+        orderBy: {
+          scheduledAt: 'asc',
+        },
+      },
+      maxClicks: true,
+      redirects: true,
+      archivedAt: true,
+      migratedFrom: true,
+      migratedClicks: true,
+      healthStatus: true,
+      healthStatusCode: true,
+      healthRedirects: true,
+      healthLatency: true,
+      healthError: true,
+      healthCheckedAt: true,
+      quarantinedAt: true,
+      tags: {
+        select: {
+          id: true,
+          name: true,
+          color: true,
+        },
+      },
+      folder: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
       createdAt: true,
     };
   }
 
-  get filterFields(): Partial<Record<keyof Prisma.LinkWhereInput, boolean>> {
+  get filterFields(): Partial<Record<keyof Prisma.LinkWhereInput, any | boolean>> {
     return {
       url: true,
       key: true,
+      // The text filter also matches the names of the tags and the folder of the link
+      tags: {
+        some: {
+          name: true,
+        },
+      },
+      folder: {
+        name: true,
+      },
     };
   }
 
-  findBy(opts: Prisma.LinkWhereInput): Promise<Link> {
+  findBy(opts: Prisma.LinkWhereInput): Promise<LinkWithDomain> {
     return this.prismaService.link.findFirst({
       where: opts,
+      include: {
+        domain: {
+          select: {
+            name: true,
+          },
+        },
+        scheduledChanges: {
+          orderBy: {
+            scheduledAt: 'asc',
+          },
+        },
+        tags: {
+          select: {
+            id: true,
+            name: true,
+            color: true,
+          },
+        },
+        folder: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+    });
+  }
+
+  update(id: string, data: Prisma.LinkUpdateInput): Promise<Link> {
+    return this.prismaService.link.update({
+      where: {
+        id,
+      },
+      data,
+      select: this.selectFields,
+    }) as Promise<Link>;
+  }
+
+  async findHistory(linkId: string): Promise<LinkHistoryEntry[]> {
+    const history = await this.prismaService.linkHistory.findMany({
+      where: {
+        linkId,
+      },
+      include: {
+        actor: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+    });
+
+    return history.map(({ passwordEnabled, ...entry }) => ({ ...entry, hasPassword: passwordEnabled }));
+  }
+
+  findHistoryEntry(linkId: string, id: string): Promise<LinkHistory> {
+    return this.prismaService.linkHistory.findFirst({
+      where: {
+        id,
+        linkId,
+      },
+    });
+  }
+
+  archive(id: string): Promise<Link> {
+    return this.prismaService.link.update({
+      where: {
+        id,
+      },
+      data: {
+        archivedAt: new Date(),
+      },
     });
   }
 
+  restore(id: string): Promise<Link> {
+    return this.prismaService.link.update({
+      where: {
+        id,
+      },
+      data: {
+        archivedAt: null,
+      },
+      select: this.selectFields,
+    }) as Promise<Link>;
+  }
+
+  // Permanently deletes the link together with its analytics
   delete(id: string): Promise<Link> {
     return this.prismaService.link.delete({
       where: {
@@ -48,4 +223,104 @@ export class LinksService extends EntityService<Link> {
       },
     });
   }
+
+  /**
+   * Returns the links of the user targeted by a bulk operation, at most one more than the maximum so callers can detect overflows.
+   * @param {string} userId The id of the user.
+   * @param {string[]} ids The ids of the links, the filter is used when they are omitted.
+   * @param {BulkLinksFilterDto} filter The same filters as the links list.
+   */
+  findForBulk(userId: string, ids?: string[], filter: BulkLinksFilterDto = {}): Promise<BulkLink[]> {
+    return this.prismaService.link.findMany({
+      where: ids ? { userId, id: { in: ids } } : this.getFilterClause(userId, filter),
+      select: {
+        id: true,
+        key: true,
+        url: true,
+        utm: true,
+        password: true,
+        expirationTime: true,
+        archivedAt: true,
+        ogImage: true,
+        qrStyle: true,
+        file: true,
+        createdAt: true,
+        domain: {
+          select: {
+            name: true,
+          },
+        },
+      },
+      take: MAX_BULK_LINKS + 1,
+    });
+  }
+
+  /**
+   * Applies the updates in a single transaction, none of them are applied if one fails.
+   */
+  bulkUpdate(updates: { id: string; data: Prisma.LinkUpdateInput }[]): Promise<Link[]> {
+    return this.prismaService.$transaction(updates.map(({ id, data }) => this.prismaService.link.update({ where: { id }, data })));
+  }
+
+  /**
+   * Counts the links of the user matching the export filters.
+   */
+  countForExport(userId: string, { filter, tag, folder, archived, broken }: ExportLinksQueryDto): Promise<number> {
+    return this.prismaService.link.count({
+      where: this.getFilterClause(userId, { text: filter, tag, folder, archived, broken }),
+    });
+  }
+
+  /**
+   * Iterates over the links of the user matching the filters, in batches read with a cursor.
+   * @param {string} userId The id of the user.
+   * @param {ExportLinksQueryDto} query The same filters and sorting as the links list.
+   */
+  async *findForExport(userId: string, { filter, tag, folder, archived, broken, sort }: ExportLinksQueryDto): AsyncGenerator<ExportLink[]> {
+    // The id breaks ties between links with the same sorting values, so the cursor never skips or repeats a link
+    const orderBy: Prisma.LinkOrderByWithRelationInput[] = [...(orderByBuilder(sort) || [{ createdAt: 'desc' }]), { id: 'asc' }];
+    let cursor: string | undefined;
+
+    do {
+      const links: ExportLink[] = await this.prismaService.link.findMany({
+        where: this.getFilterClause(userId, { text: filter, tag, folder, archived, broken }),
+        select: {
+          id: true,
+          key: true,
+          url: true,
+          utm: true,
+          expirationTime: true,
+          createdAt: true,
+          clicks: true,
+          visits: true,
+          domain: {
+            select: {
+              name: true,
+            },
+          },
+        },
+        orderBy,
+        take: EXPORT_BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+
+      if (links.length) {
+        yield links;
+      }
+
+      cursor = links.length === EXPORT_BATCH_SIZE ? links[links.length - 1].id : undefined;
+    } while (cursor);
+  }
+
+  // Same filters as the links list of the dashboard
+  private getFilterClause(userId: string, { text, tag, folder, archived, broken }: BulkLinksFilterDto): Prisma.LinkWhereInput {
+    return {
+      userId,
+      archivedAt: archived ? { not: null } : null,
+      ...(broken && { healthStatus: LinkHealth.BROKEN }),
+      ...(text && { OR: filterBuilder(this.filterFields, text) }),
+      ...(tag && { tags: { some: { id: tag } } }),
+      ...(folder && { folderId: folder }),
+    };
+  }
 }
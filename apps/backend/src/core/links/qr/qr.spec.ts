@@ -0,0 +1,64 @@
+import { DEFAULT_QR_STYLE } from '@reduced.to/utils';
+import { getQrStyle, renderQrPdf, renderQrSvg } from './qr';
+
+describe('qr', () => {
+  const TEXT = 'https://reduced.to/nice?qr=1';
+  const OPTIONS = { ...DEFAULT_QR_STYLE, size: 512 };
+  // 1x1 transparent PNG
+  const LOGO = Buffer.from('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=', 'base64');
+
+  describe('getQrStyle', () => {
+    it('should fall back to the default style', () => {
+      expect(getQrStyle({})).toEqual(DEFAULT_QR_STYLE);
+    });
+
+    it('should apply the styles in order, ignoring unset values', () => {
+      expect(getQrStyle({ fgColor: '#ff0000', margin: 4 }, { fgColor: '#00ff00', margin: undefined, logo: null })).toEqual({
+        ...DEFAULT_QR_STYLE,
+        fgColor: '#00ff00',
+        margin: 4,
+      });
+    });
+  });
+
+  describe('renderQrSvg', () => {
+    it('should render the code with the given size and colors', () => {
+      const svg = renderQrSvg(TEXT, { ...OPTIONS, fgColor: '#112233', bgColor: '#fafafa' });
+
+      expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" width="512" height="512" viewBox="0 0 (\d+) \1"/);
+      expect(svg).toContain('fill="#fafafa"');
+      expect(svg).toContain('<path fill="#112233" d="M');
+      expect(svg).not.toContain('<image');
+    });
+
+    it('should include the margin in the view box', () => {
+      const getViewBoxSize = (svg: string) => Number(svg.match(/viewBox="0 0 (\d+)/)[1]);
+
+      expect(
+        getViewBoxSize(renderQrSvg(TEXT, { ...OPTIONS, margin: 4 })) - getViewBoxSize(renderQrSvg(TEXT, { ...OPTIONS, margin: 0 }))
+      ).toBe(8);
+    });
+
+    it('should embed the logo at the center of the code', () => {
+      const svg = renderQrSvg(TEXT, { ...OPTIONS, logo: LOGO });
+
+      expect(svg).toContain(`href="data:image/png;base64,${LOGO.toString('base64')}"`);
+    });
+
+    it('should use the highest error correction level with a logo', () => {
+      const withLogo = renderQrSvg(TEXT, { ...OPTIONS, errorCorrection: 'L', logo: LOGO });
+      const highest = renderQrSvg(TEXT, { ...OPTIONS, errorCorrection: 'H' });
+
+      expect(withLogo.match(/viewBox="[^"]+"/)[0]).toBe(highest.match(/viewBox="[^"]+"/)[0]);
+    });
+  });
+
+  describe('renderQrPdf', () => {
+    it('should render a PDF document', async () => {
+      const pdf = await renderQrPdf(TEXT, { ...OPTIONS, logo: LOGO });
+
+      expect(pdf.toString('ascii', 0, 5)).toBe('%PDF-');
+      expect(pdf.toString('ascii')).toContain('/MediaBox [0 0 512 512]');
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import QRCode from 'qrcode';
+import PDFDocument from 'pdfkit';
+import { DEFAULT_QR_STYLE, QrStyle } from '@reduced.to/utils';
+import { QrFormat } from '../dto';
+
+export const QR_CONTENT_TYPES: Record<QrFormat, string> = {
+  [QrFormat.SVG]: 'image/svg+xml',
+  [QrFormat.PDF]: 'application/pdf',
+};
+
+// Side of the logo relative to the code, the modules under it are restored by the error correction
+const LOGO_SIZE_RATIO = 0.25;
+
+export type ResolvedQrStyle = typeof DEFAULT_QR_STYLE & Pick<QrStyle, 'logo'>;
+
+export type QrRenderOptions = typeof DEFAULT_QR_STYLE & {
+  size: number;
+  logo?: Buffer | null; // PNG or JPEG image
+};
+
+// Horizontal run of dark modules, drawn as a single rectangle
+interface ModuleRun {
+  x: number;
+  y: number;
+  length: number;
+}
+
+interface QrLayout {
+  total: number; // Modules per side, including the margin
+  runs: ModuleRun[];
+  logoBox: { x: number; y: number; size: number } | null;
+}
+
+/**
+ * Merges the saved style of a link with the overrides of a request, unset values fall back to the default style.
+ */
+export const getQrStyle = (...styles: QrStyle[]): ResolvedQrStyle =>
+  styles.reduce<ResolvedQrStyle>(
+    (merged, style) => ({
+      ...merged,
+      ...Object.fromEntries(Object.entries(style || {}).filter(([, value]) => value !== undefined && value !== null)),
+    }),
+    { ...DEFAULT_QR_STYLE }
+  );
+
+const getLayout = (text: string, { errorCorrection, margin, logo }: QrRenderOptions): QrLayout => {
+  // Codes with a logo always use the highest error correction level, since the logo hides some of the modules
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: logo ? 'H' : errorCorrection });
+  const count = modules.size;
+
+  // The logo is centered on the grid, so the box has the same parity as the code
+  let logoSize = Math.ceil(count * LOGO_SIZE_RATIO);
+  if ((count - logoSize) % 2) {
+    logoSize++;
+  }
+  const logoStart = (count - logoSize) / 2;
+  const isUnderLogo = (row: number, col: number) =>
+    !!logo && row >= logoStart && row < logoStart + logoSize && col >= logoStart && col < logoStart + logoSize;
+
+  const runs: ModuleRun[] = [];
+  for (let row = 0; row < count; row++) {
+    let run: ModuleRun | null = null;
+    for (let col = 0; col < count; col++) {
+      if (modules.get(row, col) && !isUnderLogo(row, col)) {
+        if (run) {
+          run.length++;
+        } else {
+          run = { x: col + margin, y: row + margin, length: 1 };
+          runs.push(run);
+        }
+      } else {
+        run = null;
+      }
+    }
+  }
+
+  return {
+    total: count + margin * 2,
+    runs,
+    // The logo is padded by half a module, so it does not touch the surrounding modules
+    logoBox: logo ? { x: logoStart + margin + 0.5, y: logoStart + margin + 0.5, size: logoSize - 1 } : null,
+  };
+};
+
+const getImageContentType = (image: Buffer) => (image[0] === 0x89 && image.toString('ascii', 1, 4) === 'PNG' ? 'image/png' : 'image/jpeg');
+
+/**
+ * Renders the QR code as an SVG document, it scales to any size without losing quality.
+ * @param {string} text The content of the code.
+ * @param {QrRenderOptions} options The style and the size of the code in pixels.
+ * @returns {string} The SVG document.
+ */
+export const renderQrSvg = (text: string, options: QrRenderOptions): string => {
+  const { total, runs, logoBox } = getLayout(text, options);
+  const path = runs.map(({ x, y, length }) => `M${x} ${y}h${length}v1h-${length}z`).join('');
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${options.size}" height="${options.size}" viewBox="0 0 ${total} ${total}" shape-rendering="crispEdges">`,
+    `<rect width="${total}" height="${total}" fill="${options.bgColor}"/>`,
+    `<path fill="${options.fgColor}" d="${path}"/>`,
+    logoBox
+      ? `<image x="${logoBox.x}" y="${logoBox.y}" width="${logoBox.size}" height="${logoBox.size}" preserveAspectRatio="xMidYMid meet" ` +
+        `href="data:${getImageContentType(options.logo)};base64,${options.logo.toString('base64')}"/>`
+      : '',
+    '</svg>',
+  ].join('');
+};
+
+/**
+ * Renders the QR code as a single page PDF document with vector modules, for print.
+ * @param {string} text The content of the code.
+ * @param {QrRenderOptions} options The style and the size of the page in points.
+ * @returns {Promise<Buffer>} The PDF document.
+ */
+export const renderQrPdf = (text: string, options: QrRenderOptions): Promise<Buffer> => {
+  const { total, runs, logoBox } = getLayout(text, options);
+  const scale = options.size / total;
+
+  const doc = new PDFDocument({ size: [options.size, options.size], margin: 0, info: { Title: text } });
+  const chunks: Buffer[] = [];
+  const result = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  doc.rect(0, 0, options.size, options.size).fill(options.bgColor);
+  runs.forEach(({ x, y, length }) => doc.rect(x * scale, y * scale, length * scale, scale));
+  doc.fill(options.fgColor);
+
+  if (logoBox) {
+    doc.image(options.logo, logoBox.x * scale, logoBox.y * scale, {
+      fit: [logoBox.size * scale, logoBox.size * scale],
+      align: 'center',
+      valign: 'center',
+    });
+  }
+
+  doc.end();
+  return result;
+};
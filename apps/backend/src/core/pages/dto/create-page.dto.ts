@@ -0,0 +1,48 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsDefined,
+  IsEnum,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  MinLength,
+  ValidateNested,
+} from 'class-validator';
+import { PageTheme } from '@reduced.to/prisma';
+import { PageItemDto } from './page-item.dto';
+
+export const PAGE_HANDLE_REGEX = /^[a-zA-Z0-9_-]{3,30}$/;
+export const MAX_PAGE_ITEMS = 50;
+
+export class CreatePageDto {
+  // The page is served at /p/{handle}, handles are stored in lowercase
+  @IsString()
+  @Matches(PAGE_HANDLE_REGEX, { message: 'Handle must be 3 to 30 letters, numbers, dashes or underscores' })
+  handle: string;
+
+  @IsString()
+  @IsDefined()
+  @MinLength(1)
+  @MaxLength(100)
+  title: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(300)
+  description?: string;
+
+  @IsOptional()
+  @IsEnum(PageTheme)
+  theme?: PageTheme;
+
+  // Links of the page, in the order they are shown
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_PAGE_ITEMS)
+  @ValidateNested({ each: true })
+  @Type(() => PageItemDto)
+  items?: PageItemDto[];
+}
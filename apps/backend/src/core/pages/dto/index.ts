@@ -0,0 +1,3 @@
+export * from './page-item.dto';
+export * from './create-page.dto';
+export * from './update-page.dto';
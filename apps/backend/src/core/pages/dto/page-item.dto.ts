@@ -0,0 +1,18 @@
+import { IsOptional, IsString, IsUUID, MaxLength } from 'class-validator';
+
+export class PageItemDto {
+  @IsUUID('4')
+  linkId: string;
+
+  // Shown instead of the destination url
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  title?: string;
+
+  // Emoji shown next to the title, the favicon of the destination is used when omitted
+  @IsOptional()
+  @IsString()
+  @MaxLength(8)
+  icon?: string;
+}
@@ -0,0 +1,36 @@
+import { Type } from 'class-transformer';
+import { ArrayMaxSize, IsArray, IsEnum, IsOptional, IsString, Matches, MaxLength, MinLength, ValidateNested } from 'class-validator';
+import { PageTheme } from '@reduced.to/prisma';
+import { PageItemDto } from './page-item.dto';
+import { MAX_PAGE_ITEMS, PAGE_HANDLE_REGEX } from './create-page.dto';
+
+export class UpdatePageDto {
+  @IsOptional()
+  @IsString()
+  @Matches(PAGE_HANDLE_REGEX, { message: 'Handle must be 3 to 30 letters, numbers, dashes or underscores' })
+  handle?: string;
+
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  title?: string;
+
+  // null removes the description of the page
+  @IsOptional()
+  @IsString()
+  @MaxLength(300)
+  description?: string | null;
+
+  @IsOptional()
+  @IsEnum(PageTheme)
+  theme?: PageTheme;
+
+  // Replaces the links of the page, an empty list removes them
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_PAGE_ITEMS)
+  @ValidateNested({ each: true })
+  @Type(() => PageItemDto)
+  items?: PageItemDto[];
+}
@@ -0,0 +1,192 @@
+import request from 'supertest';
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { PageTheme, Role } from '@reduced.to/prisma';
+import { AppConfigModule } from '@reduced.to/config';
+import { AppLoggerModule } from '@reduced.to/logger';
+import { JwtAuthGuard } from '../../auth/guards/jwt.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { MAX_PAGES_PER_USER, PagesController } from './pages.controller';
+import { PagesService } from './pages.service';
+
+describe('PagesController', () => {
+  let app: INestApplication;
+  let pagesService: PagesService;
+
+  const LINK_ID = '0b1f4b4e-8a6c-4c1e-9d0a-6f4f4d1c2b3a';
+
+  const PAGE = {
+    id: 'page-id',
+    handle: 'my-page',
+    title: 'My page',
+    description: null,
+    theme: PageTheme.LIGHT,
+    userId: 'user-id',
+    items: [
+      {
+        id: 'item-id',
+        title: 'Blog',
+        icon: null,
+        order: 0,
+        link: { id: LINK_ID, key: 'blog', url: 'https://example.com', clicks: 5, domain: null },
+      },
+    ],
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [AppConfigModule, AppLoggerModule],
+      controllers: [PagesController],
+      providers: [
+        {
+          provide: PagesService,
+          useValue: {
+            findAllByUser: jest.fn().mockResolvedValue([]),
+            findBy: jest.fn().mockResolvedValue(null),
+            ownsLinks: jest.fn().mockResolvedValue(true),
+            create: jest.fn().mockResolvedValue(PAGE),
+            update: jest.fn().mockResolvedValue(PAGE),
+            delete: jest.fn().mockResolvedValue(PAGE),
+            getViewsOverTime: jest.fn().mockResolvedValue([{ day: '2024-09-16', count: '3' }]),
+            getTopReferrers: jest.fn().mockResolvedValue([{ referrer: null, count: 3 }]),
+          },
+        },
+      ],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue({
+        canActivate: (context) => {
+          const req = context.switchToHttp().getRequest();
+          req.user = { id: 'user-id', role: Role.USER };
+          return true;
+        },
+      })
+      .overrideGuard(RolesGuard)
+      .useValue({
+        canActivate: () => {
+          return true;
+        },
+      })
+      .compile();
+
+    app = module.createNestApplication();
+
+    app.useGlobalPipes(new ValidationPipe({ transform: true }));
+    await app.init();
+
+    pagesService = module.get<PagesService>(PagesService);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  describe('POST /pages', () => {
+    it('should create a page with its items in order', async () => {
+      await request(app.getHttpServer())
+        .post('/pages')
+        .send({ handle: 'My-Page', title: 'My page', items: [{ linkId: LINK_ID, title: 'Blog' }] })
+        .expect(201);
+
+      expect(pagesService.ownsLinks).toHaveBeenCalledWith('user-id', [{ linkId: LINK_ID, title: 'Blog' }]);
+      expect(pagesService.create).toHaveBeenCalledWith({
+        handle: 'my-page',
+        title: 'My page',
+        description: undefined,
+        theme: undefined,
+        userId: 'user-id',
+        items: { create: [{ linkId: LINK_ID, title: 'Blog', icon: null, order: 0 }] },
+      });
+    });
+
+    it('should not allow invalid handles', async () => {
+      await request(app.getHttpServer()).post('/pages').send({ handle: 'my page', title: 'My page' }).expect(400);
+      expect(pagesService.create).not.toHaveBeenCalled();
+    });
+
+    it('should not allow handles that are already taken', async () => {
+      jest.spyOn(pagesService, 'findBy').mockResolvedValue(PAGE as any);
+
+      await request(app.getHttpServer()).post('/pages').send({ handle: 'my-page', title: 'My page' }).expect(400);
+      expect(pagesService.create).not.toHaveBeenCalled();
+    });
+
+    it('should not allow links of other users', async () => {
+      jest.spyOn(pagesService, 'ownsLinks').mockResolvedValue(false);
+
+      await request(app.getHttpServer())
+        .post('/pages')
+        .send({ handle: 'my-page', title: 'My page', items: [{ linkId: LINK_ID }] })
+        .expect(400);
+      expect(pagesService.create).not.toHaveBeenCalled();
+    });
+
+    it('should limit the number of pages of a user', async () => {
+      jest.spyOn(pagesService, 'findAllByUser').mockResolvedValue(new Array(MAX_PAGES_PER_USER).fill(PAGE));
+
+      await request(app.getHttpServer()).post('/pages').send({ handle: 'my-page', title: 'My page' }).expect(400);
+      expect(pagesService.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH /pages/:id', () => {
+    it('should replace the items of the page', async () => {
+      jest.spyOn(pagesService, 'findBy').mockResolvedValueOnce(PAGE as any);
+
+      await request(app.getHttpServer())
+        .patch(`/pages/${PAGE.id}`)
+        .send({ description: '', items: [{ linkId: LINK_ID, icon: '📝' }] })
+        .expect(200);
+
+      expect(pagesService.update).toHaveBeenCalledWith(PAGE.id, {
+        description: null,
+        items: { deleteMany: {}, create: [{ linkId: LINK_ID, title: null, icon: '📝', order: 0 }] },
+      });
+    });
+
+    it('should not allow handles that are already taken', async () => {
+      jest
+        .spyOn(pagesService, 'findBy')
+        .mockResolvedValueOnce(PAGE as any)
+        .mockResolvedValueOnce({ ...PAGE, id: 'other' } as any);
+
+      await request(app.getHttpServer()).patch(`/pages/${PAGE.id}`).send({ handle: 'other-page' }).expect(400);
+      expect(pagesService.update).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 if the page does not belong to the user', async () => {
+      await request(app.getHttpServer()).patch(`/pages/${PAGE.id}`).send({ title: 'New title' }).expect(401);
+      expect(pagesService.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /pages/:id', () => {
+    it('should delete the page', async () => {
+      jest.spyOn(pagesService, 'findBy').mockResolvedValue(PAGE as any);
+
+      await request(app.getHttpServer()).delete(`/pages/${PAGE.id}`).expect(200);
+      expect(pagesService.delete).toHaveBeenCalledWith(PAGE.id);
+    });
+
+    it('should return 401 if the page does not belong to the user', async () => {
+      await request(app.getHttpServer()).delete(`/pages/${PAGE.id}`).expect(401);
+      expect(pagesService.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /pages/:id/analytics', () => {
+    it('should return the views of the page and the clicks of its items', async () => {
+      jest.spyOn(pagesService, 'findBy').mockResolvedValue(PAGE as any);
+
+      const response = await request(app.getHttpServer()).get(`/pages/${PAGE.id}/analytics?days=7`).expect(200);
+
+      expect(response.body).toEqual({
+        id: PAGE.id,
+        handle: PAGE.handle,
+        viewsOverTime: [{ day: '2024-09-16', count: '3' }],
+        referrers: [{ referrer: null, count: 3 }],
+        items: [{ id: 'item-id', title: 'Blog', key: 'blog', url: 'https://example.com', clicks: 5 }],
+      });
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UnauthorizedException,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../../auth/guards/jwt.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { Page, Prisma, Role } from '@reduced.to/prisma';
+import { Roles, UserCtx } from '../../shared/decorators';
+import { UserContext } from '../../auth/interfaces/user-context';
+import { AppLoggerService } from '@reduced.to/logger';
+import { RestrictDays } from '../../analytics/analytics.guard';
+import { PageWithCount, PageWithItems, PagesService, toPageItems } from './pages.service';
+import { CreatePageDto, UpdatePageDto } from './dto';
+
+export const MAX_PAGES_PER_USER = 10;
+
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller({
+  path: 'pages',
+  version: '1',
+})
+export class PagesController {
+  constructor(private readonly pagesService: PagesService, private readonly logger: AppLoggerService) {}
+
+  @Get()
+  @Roles(Role.ADMIN, Role.USER)
+  async findAll(@UserCtx() user: UserContext): Promise<PageWithCount[]> {
+    return this.pagesService.findAllByUser(user.id);
+  }
+
+  @Get(':id')
+  @Roles(Role.ADMIN, Role.USER)
+  async findOne(@UserCtx() user: UserContext, @Param('id') id: string): Promise<PageWithItems> {
+    const page = await this.pagesService.findBy({ userId: user.id, id });
+
+    if (!page) {
+      throw new UnauthorizedException();
+    }
+
+    return page;
+  }
+
+  @Post()
+  @Roles(Role.ADMIN, Role.USER)
+  async create(@UserCtx() user: UserContext, @Body() { handle, title, description, theme, items }: CreatePageDto): Promise<Page> {
+    const pageHandle = handle.toLowerCase();
+
+    const pages = await this.pagesService.findAllByUser(user.id);
+    if (pages.length >= MAX_PAGES_PER_USER) {
+      throw new BadRequestException(`You can create up to ${MAX_PAGES_PER_USER} pages`);
+    }
+
+    if (await this.pagesService.findBy({ handle: pageHandle })) {
+      throw new BadRequestException('This handle is already taken');
+    }
+
+    if (!(await this.pagesService.ownsLinks(user.id, items))) {
+      throw new BadRequestException('Link not found');
+    }
+
+    this.logger.log(`User ${user.id} is creating the page ${pageHandle}`);
+    return this.pagesService.create({
+      handle: pageHandle,
+      title: title.trim(),
+      description,
+      theme,
+      userId: user.id,
+      ...(items?.length && { items: { create: toPageItems(items) } }),
+    });
+  }
+
+  @Patch(':id')
+  @Roles(Role.ADMIN, Role.USER)
+  async update(@UserCtx() user: UserContext, @Param('id') id: string, @Body() updatePageDto: UpdatePageDto): Promise<Page> {
+    const page = await this.pagesService.findBy({ userId: user.id, id });
+
+    if (!page) {
+      throw new UnauthorizedException();
+    }
+
+    const { handle, title, description, theme, items } = updatePageDto;
+    const pageHandle = handle?.toLowerCase();
+
+    if (pageHandle && pageHandle !== page.handle && (await this.pagesService.findBy({ handle: pageHandle }))) {
+      throw new BadRequestException('This handle is already taken');
+    }
+
+    if (!(await this.pagesService.ownsLinks(user.id, items))) {
+      throw new BadRequestException('Link not found');
+    }
+
+    const data: Prisma.PageUpdateInput = {
+      ...(pageHandle && { handle: pageHandle }),
+      ...(title && { title: title.trim() }),
+      ...(description !== undefined && { description: description || null }),
+      ...(theme && { theme }),
+      ...(items && { items: { deleteMany: {}, create: toPageItems(items) } }),
+    };
+
+    return this.pagesService.update(id, data);
+  }
+
+  @Delete(':id')
+  @Roles(Role.ADMIN, Role.USER)
+  async delete(@UserCtx() user: UserContext, @Param('id') id: string): Promise<Page> {
+    const page = await this.pagesService.findBy({ userId: user.id, id });
+
+    if (!page) {
+      throw new UnauthorizedException();
+    }
+
+    this.logger.log(`User ${user.id} is deleting the page ${page.handle}`);
+    return this.pagesService.delete(id);
+  }
+
+  // The clicks of the items are the clicks of their links, they are tracked by the redirects
+  @Get(':id/analytics')
+  @UseGuards(RestrictDays)
+  @Roles(Role.ADMIN, Role.USER)
+  async getAnalytics(@UserCtx() user: UserContext, @Param('id') id: string, @Query('days') days: number) {
+    const page = await this.pagesService.findBy({ userId: user.id, id });
+
+    if (!page) {
+      throw new UnauthorizedException();
+    }
+
+    const [viewsOverTime, referrers] = await Promise.all([
+      this.pagesService.getViewsOverTime(page.id, days),
+      this.pagesService.getTopReferrers(page.id, days),
+    ]);
+
+    return {
+      id: page.id,
+      handle: page.handle,
+      viewsOverTime,
+      referrers,
+      items: page.items.map(({ id, title, link }) => ({ id, title, key: link.key, url: link.url, clicks: link.clicks })),
+    };
+  }
+}
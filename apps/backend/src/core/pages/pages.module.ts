@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../../auth/auth.module';
+import { PrismaModule } from '@reduced.to/prisma';
+import { PagesController } from './pages.controller';
+import { PublicPagesController } from './public-pages.controller';
+import { PagesService } from './pages.service';
+
+@Module({
+  imports: [AuthModule, PrismaModule],
+  controllers: [PagesController, PublicPagesController],
+  providers: [PagesService],
+  exports: [PagesService],
+})
+export class PagesModule {}
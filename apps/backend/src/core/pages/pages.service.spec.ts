@@ -0,0 +1,63 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { LinkType, PageTheme, PrismaService } from '@reduced.to/prisma';
+import { PagesService } from './pages.service';
+
+describe('PagesService', () => {
+  let service: PagesService;
+  let prismaService: PrismaService;
+
+  const LINK = { key: 'blog', url: 'https://example.com', type: LinkType.URL, password: null, maxClicks: null, redirects: 0, domain: null };
+  const PAGE = { handle: 'my-page', title: 'My page', description: null, theme: PageTheme.DARK };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PagesService,
+        {
+          provide: PrismaService,
+          useValue: {
+            page: {
+              findUnique: jest.fn(),
+            },
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PagesService>(PagesService);
+    prismaService = module.get<PrismaService>(PrismaService);
+  });
+
+  describe('findPublicPage', () => {
+    it('should only include the links that resolve', async () => {
+      jest.spyOn(prismaService.page, 'findUnique').mockResolvedValue({ ...PAGE, items: [] } as any);
+
+      await service.findPublicPage('My-Page');
+
+      const { where, include } = (prismaService.page.findUnique as jest.Mock).mock.calls[0][0];
+      expect(where).toEqual({ handle: 'my-page' });
+      expect(include.items.where.link).toMatchObject({ archivedAt: null, quarantinedAt: null });
+      expect(include.items.where.link.AND[1].OR[0]).toEqual({ activeFrom: null });
+    });
+
+    it('should hide the destination of protected and click-capped links', async () => {
+      jest.spyOn(prismaService.page, 'findUnique').mockResolvedValue({
+        ...PAGE,
+        items: [
+          { title: 'Blog', icon: null, link: LINK },
+          { title: 'Private', icon: null, link: { ...LINK, key: 'private', password: 'hash' } },
+          { title: 'Giveaway', icon: null, link: { ...LINK, key: 'giveaway', maxClicks: 10, redirects: 3 } },
+          { title: 'Sold out', icon: null, link: { ...LINK, key: 'sold-out', maxClicks: 10, redirects: 10 } },
+        ],
+      } as any);
+
+      const page = await service.findPublicPage('my-page');
+
+      expect(page.items).toEqual([
+        { title: 'Blog', icon: null, key: 'blog', domain: null, url: 'https://example.com' },
+        { title: 'Private', icon: null, key: 'private', domain: null, url: null },
+        { title: 'Giveaway', icon: null, key: 'giveaway', domain: null, url: null },
+      ]);
+    });
+  });
+});
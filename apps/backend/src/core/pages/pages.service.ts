@@ -0,0 +1,267 @@
+import { Injectable } from '@nestjs/common';
+import { EntityService } from '../entity.service';
+import { Link, LinkType, Page, PageItem, Prisma, PrismaService } from '@reduced.to/prisma';
+import { sub } from 'date-fns';
+import { PageItemDto } from './dto';
+
+export type PageWithCount = Page & { _count: { items: number; views: number } };
+
+export type PageWithItems = Page & {
+  items: (PageItem & { link: Pick<Link, 'id' | 'key' | 'url' | 'clicks'> & { domain: { name: string } | null } })[];
+};
+
+// Item of a public page, the short link is used as the target so the visits are tracked
+export interface PublicPageItem {
+  title: string | null;
+  icon: string | null;
+  key: string;
+  domain: string | null;
+  url: string | null; // Null for password protected, click-capped and payload links, only used to show the favicon of the destination
+}
+
+export type PublicPage = Pick<Page, 'handle' | 'title' | 'description' | 'theme'> & { items: PublicPageItem[] };
+
+@Injectable()
+export class PagesService extends EntityService<Page> {
+  constructor(prismaService: PrismaService) {
+    super(prismaService);
+  }
+
+  get model(): string {
+    return 'page';
+  }
+
+  get selectFields(): Partial<Record<keyof Prisma.PageWhereInput, boolean>> {
+    return {
+      id: true,
+      handle: true,
+      title: true,
+      theme: true,
+      createdAt: true,
+    };
+  }
+
+  get filterFields(): Partial<Record<keyof Prisma.PageWhereInput, boolean>> {
+    return {
+      handle: true,
+      title: true,
+    };
+  }
+
+  findBy(opts: Prisma.PageWhereInput): Promise<PageWithItems> {
+    return this.prismaService.page.findFirst({
+      where: opts,
+      include: {
+        items: {
+          include: {
+            link: {
+              select: {
+                id: true,
+                key: true,
+                url: true,
+                clicks: true,
+                domain: {
+                  select: {
+                    name: true,
+                  },
+                },
+              },
+            },
+          },
+          orderBy: {
+            order: 'asc',
+          },
+        },
+      },
+    });
+  }
+
+  findAllByUser(userId: string): Promise<PageWithCount[]> {
+    return this.prismaService.page.findMany({
+      where: {
+        userId,
+      },
+      include: {
+        _count: {
+          select: {
+            items: true,
+            views: true,
+          },
+        },
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+    });
+  }
+
+  /**
+   * Returns the page served at the given handle, with the links that still resolve.
+   * @param {string} handle The handle of the page.
+   * @returns {Promise<PublicPage | null>} The page, null if no page uses the handle.
+   */
+  async findPublicPage(handle: string): Promise<PublicPage | null> {
+    const page = await this.prismaService.page.findUnique({
+      where: {
+        handle: handle.toLowerCase(),
+      },
+      include: {
+        items: {
+          where: {
+            // Archived, expired, quarantined and not yet active links would only lead to the unknown or the warning page
+            link: {
+              archivedAt: null,
+              quarantinedAt: null,
+              AND: [
+                { OR: [{ expirationTime: null }, { expirationTime: { gt: new Date() } }] },
+                { OR: [{ activeFrom: null }, { activeFrom: { lte: new Date() } }] },
+              ],
+            },
+          },
+          include: {
+            link: {
+              select: {
+                key: true,
+                url: true,
+                type: true,
+                password: true,
+                maxClicks: true,
+                redirects: true,
+                domain: {
+                  select: {
+                    name: true,
+                  },
+                },
+              },
+            },
+          },
+          orderBy: {
+            order: 'asc',
+          },
+        },
+      },
+    });
+
+    if (!page) {
+      return null;
+    }
+
+    return {
+      handle: page.handle,
+      title: page.title,
+      description: page.description,
+      theme: page.theme,
+      items: page.items
+        // Click-capped links expire once they reached their cap
+        .filter(({ link }) => !link.maxClicks || link.redirects < link.maxClicks)
+        .map(({ title, icon, link }) => ({
+          title,
+          icon,
+          key: link.key,
+          domain: link.domain?.name || null,
+          url: link.password || link.maxClicks || link.type !== LinkType.URL ? null : link.url,
+        })),
+    };
+  }
+
+  /**
+   * Checks that all the links belong to the user.
+   * @param {string} userId The id of the user.
+   * @param {PageItemDto[]} items The items of the page.
+   * @returns {Promise<boolean>} True if all of them belong to the user, or none are given.
+   */
+  async ownsLinks(userId: string, items?: PageItemDto[]): Promise<boolean> {
+    const linkIds = new Set((items || []).map(({ linkId }) => linkId));
+    if (!linkIds.size) {
+      return true;
+    }
+
+    const count = await this.prismaService.link.count({ where: { id: { in: [...linkIds] }, userId } });
+    return count === linkIds.size;
+  }
+
+  create(data: Prisma.PageUncheckedCreateInput): Promise<Page> {
+    return this.prismaService.page.create({
+      data,
+    });
+  }
+
+  update(id: string, data: Prisma.PageUpdateInput): Promise<Page> {
+    return this.prismaService.page.update({
+      where: {
+        id,
+      },
+      data,
+    });
+  }
+
+  delete(id: string): Promise<Page> {
+    return this.prismaService.page.delete({
+      where: {
+        id,
+      },
+    });
+  }
+
+  addView(handle: string, referrer?: string): Promise<unknown> {
+    return this.prismaService.pageView.create({
+      data: {
+        page: {
+          connect: {
+            handle,
+          },
+        },
+        referrer: referrer || null,
+      },
+    });
+  }
+
+  async getViewsOverTime(pageId: string, durationDays = 30): Promise<{ day: string; count: string }[]> {
+    const fromDate = sub(new Date(), { days: durationDays });
+    const trunc = durationDays === 1 ? 'hour' : 'day';
+
+    return this.prismaService.$queryRaw<{ day: string; count: string }[]>`
+      SELECT
+        date_trunc(${trunc}, "createdAt")::text AS day,
+        COUNT(*)::text AS count
+      FROM
+        "PageView"
+      WHERE
+        "pageId" = ${pageId}
+        AND "createdAt" >= ${fromDate}
+      GROUP BY
+        day
+      ORDER BY
+        day;
+    `;
+  }
+
+  async getTopReferrers(pageId: string, durationDays = 30): Promise<{ referrer: string | null; count: number }[]> {
+    const referrers = await this.prismaService.pageView.groupBy({
+      by: ['referrer'],
+      where: {
+        pageId,
+        createdAt: {
+          gte: sub(new Date(), { days: durationDays }),
+        },
+      },
+      _count: {
+        _all: true,
+      },
+      orderBy: {
+        _count: {
+          id: 'desc',
+        },
+      },
+      take: 10,
+    });
+
+    return referrers.map(({ referrer, _count }) => ({ referrer, count: _count._all }));
+  }
+}
+
+/**
+ * Maps the items of a request to the items stored in the database, they are ordered as sent.
+ */
+export const toPageItems = (items: PageItemDto[]): Omit<Prisma.PageItemUncheckedCreateInput, 'pageId'>[] =>
+  items.map(({ linkId, title, icon }, order) => ({ linkId, title: title || null, icon: icon || null, order }));
@@ -0,0 +1,78 @@
+import request from 'supertest';
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import { PageTheme } from '@reduced.to/prisma';
+import { AppConfigModule } from '@reduced.to/config';
+import { AppLoggerModule } from '@reduced.to/logger';
+import { PublicPagesController } from './public-pages.controller';
+import { PagesService } from './pages.service';
+
+describe('PublicPagesController', () => {
+  let app: INestApplication;
+  let pagesService: PagesService;
+
+  const PAGE = {
+    handle: 'my-page',
+    title: 'My page',
+    description: null,
+    theme: PageTheme.DARK,
+    items: [{ title: 'Blog', icon: null, key: 'blog', domain: null, url: 'https://example.com' }],
+  };
+
+  const BROWSER_USER_AGENT =
+    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/128.0.0.0 Safari/537.36';
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [AppConfigModule, AppLoggerModule],
+      controllers: [PublicPagesController],
+      providers: [
+        {
+          provide: PagesService,
+          useValue: {
+            findPublicPage: jest.fn().mockResolvedValue(PAGE),
+            addView: jest.fn().mockResolvedValue({}),
+          },
+        },
+      ],
+    }).compile();
+
+    app = module.createNestApplication();
+    await app.init();
+
+    pagesService = module.get<PagesService>(PagesService);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should return the page and record a view', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/pages/public/my-page')
+      .set('user-agent', BROWSER_USER_AGENT)
+      .set('referer', 'https://twitter.com')
+      .expect(200);
+
+    expect(response.body).toEqual(PAGE);
+    expect(pagesService.addView).toHaveBeenCalledWith('my-page', 'https://twitter.com');
+  });
+
+  it('should not record views of crawlers', async () => {
+    await request(app.getHttpServer()).get('/pages/public/my-page').set('user-agent', 'Twitterbot/1.0').expect(200);
+    expect(pagesService.addView).not.toHaveBeenCalled();
+  });
+
+  it('should return the page even if the view could not be recorded', async () => {
+    jest.spyOn(pagesService, 'addView').mockRejectedValue(new Error('Database error'));
+
+    await request(app.getHttpServer()).get('/pages/public/my-page').set('user-agent', BROWSER_USER_AGENT).expect(200);
+  });
+
+  it('should return 404 if the page does not exist', async () => {
+    jest.spyOn(pagesService, 'findPublicPage').mockResolvedValue(null);
+
+    await request(app.getHttpServer()).get('/pages/public/unknown').set('user-agent', BROWSER_USER_AGENT).expect(404);
+    expect(pagesService.addView).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,34 @@
+import { Controller, Get, NotFoundException, Param, Req } from '@nestjs/common';
+import { Request } from 'express';
+import { isbot } from 'isbot';
+import { AppLoggerService } from '@reduced.to/logger';
+import { PagesService, PublicPage } from './pages.service';
+
+// Pages are public, they are rendered by the frontend at /p/{handle}
+@Controller({
+  path: 'pages/public',
+  version: '1',
+})
+export class PublicPagesController {
+  constructor(private readonly pagesService: PagesService, private readonly logger: AppLoggerService) {}
+
+  @Get(':handle')
+  async findOne(@Param('handle') handle: string, @Req() req: Request): Promise<PublicPage> {
+    const page = await this.pagesService.findPublicPage(handle);
+
+    if (!page) {
+      throw new NotFoundException('Page not found');
+    }
+
+    // Crawlers are not counted as views
+    if (!isbot(req.headers['user-agent'])) {
+      try {
+        await this.pagesService.addView(page.handle, req.headers.referer);
+      } catch (err) {
+        this.logger.error(`Error while recording a view of page ${page.handle}: ${err.message}`);
+      }
+    }
+
+    return page;
+  }
+}
@@ -0,0 +1 @@
+export * from './find-all-query.dto';
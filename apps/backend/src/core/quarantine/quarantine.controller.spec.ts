@@ -0,0 +1,125 @@
+import request from 'supertest';
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { Role } from '@reduced.to/prisma';
+import { AppConfigModule } from '@reduced.to/config';
+import { AppLoggerModule } from '@reduced.to/logger';
+import { JwtAuthGuard } from '../../auth/guards/jwt.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { AppCacheService } from '../../cache/cache.service';
+import { QuarantineController } from './quarantine.controller';
+import { QuarantineService } from './quarantine.service';
+
+describe('QuarantineController', () => {
+  let app: INestApplication;
+  let quarantineService: QuarantineService;
+  let cacheService: AppCacheService;
+
+  const QUARANTINED_LINK = {
+    id: 'link-id',
+    key: 'promo',
+    url: 'https://malicious.example.com',
+    quarantinedAt: new Date().toISOString(),
+    domain: null,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [AppConfigModule, AppLoggerModule],
+      controllers: [QuarantineController],
+      providers: [
+        {
+          provide: QuarantineService,
+          useValue: {
+            findAll: jest.fn().mockResolvedValue({ total: 1, data: [QUARANTINED_LINK] }),
+            findById: jest.fn().mockResolvedValue(QUARANTINED_LINK),
+            release: jest.fn().mockResolvedValue({ ...QUARANTINED_LINK, quarantinedAt: null }),
+            delete: jest.fn().mockResolvedValue(QUARANTINED_LINK),
+          },
+        },
+        {
+          provide: AppCacheService,
+          useValue: {
+            del: jest.fn(),
+          },
+        },
+      ],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue({
+        canActivate: (context) => {
+          const req = context.switchToHttp().getRequest();
+          req.user = { id: 'admin-id', role: Role.ADMIN };
+          return true;
+        },
+      })
+      .overrideGuard(RolesGuard)
+      .useValue({
+        canActivate: () => {
+          return true;
+        },
+      })
+      .compile();
+
+    app = module.createNestApplication();
+
+    app.useGlobalPipes(new ValidationPipe({ transform: true }));
+    await app.init();
+
+    quarantineService = module.get<QuarantineService>(QuarantineService);
+    cacheService = module.get<AppCacheService>(AppCacheService);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  describe('GET /quarantine', () => {
+    it('should return the quarantined links', async () => {
+      const response = await request(app.getHttpServer()).get('/quarantine?limit=10&page=2').expect(200);
+
+      expect(quarantineService.findAll).toHaveBeenCalledWith({
+        skip: 10,
+        limit: 10,
+        extraWhereClause: { quarantinedAt: { not: null } },
+      });
+      expect(response.body).toEqual({ total: 1, data: [QUARANTINED_LINK] });
+    });
+  });
+
+  describe('POST /quarantine/:id/release', () => {
+    it('should release the link and evict it from the cache', async () => {
+      await request(app.getHttpServer()).post('/quarantine/link-id/release').expect(201);
+
+      expect(quarantineService.release).toHaveBeenCalledWith('link-id');
+      expect(cacheService.del).toHaveBeenCalledWith('promo');
+    });
+
+    it('should return 404 for links that are not quarantined', async () => {
+      jest.spyOn(quarantineService, 'findById').mockResolvedValueOnce(null);
+
+      await request(app.getHttpServer()).post('/quarantine/link-id/release').expect(404);
+
+      expect(quarantineService.release).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /quarantine/:id', () => {
+    it('should delete the link and evict it from the cache', async () => {
+      jest.spyOn(quarantineService, 'findById').mockResolvedValueOnce({ ...QUARANTINED_LINK, domain: { name: 'go.example.com' } } as any);
+
+      await request(app.getHttpServer()).delete('/quarantine/link-id').expect(200);
+
+      expect(quarantineService.delete).toHaveBeenCalledWith('link-id');
+      expect(cacheService.del).toHaveBeenCalledWith('domain:go.example.com:promo');
+    });
+
+    it('should return 404 for links that are not quarantined', async () => {
+      jest.spyOn(quarantineService, 'findById').mockResolvedValueOnce(null);
+
+      await request(app.getHttpServer()).delete('/quarantine/link-id').expect(404);
+
+      expect(quarantineService.delete).not.toHaveBeenCalled();
+    });
+  });
+});
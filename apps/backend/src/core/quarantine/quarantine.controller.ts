@@ -0,0 +1,74 @@
+import { Controller, Delete, Get, NotFoundException, Param, Post, Query, UseGuards } from '@nestjs/common';
+import { JwtAuthGuard } from '../../auth/guards/jwt.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { Link, Role } from '@reduced.to/prisma';
+import { AppLoggerService } from '@reduced.to/logger';
+import { Roles, UserCtx } from '../../shared/decorators';
+import { UserContext } from '../../auth/interfaces/user-context';
+import { IPaginationResult, calculateSkip } from '../../shared/utils';
+import { AppCacheService, getLinkCacheKey } from '../../cache/cache.service';
+import { QuarantineService, QuarantinedLink } from './quarantine.service';
+import { FindAllQueryDto } from './dto';
+
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller({
+  path: 'quarantine',
+  version: '1',
+})
+export class QuarantineController {
+  constructor(
+    private readonly quarantineService: QuarantineService,
+    private readonly cacheService: AppCacheService,
+    private readonly logger: AppLoggerService
+  ) {}
+
+  @Get()
+  @Roles(Role.ADMIN)
+  async findAll(@Query() query: FindAllQueryDto): Promise<IPaginationResult<Link>> {
+    const { page, limit, filter, sort } = query;
+
+    return this.quarantineService.findAll({
+      ...(page && { skip: calculateSkip(page, limit) }), // if page is defined, then calculate skip
+      limit,
+      filter,
+      sort,
+      extraWhereClause: {
+        quarantinedAt: { not: null },
+      },
+    });
+  }
+
+  @Post(':id/release')
+  @Roles(Role.ADMIN)
+  async release(@UserCtx() user: UserContext, @Param('id') id: string): Promise<Link> {
+    const link = await this.findQuarantinedLink(id);
+
+    this.logger.log(`Admin ${user.id} is releasing the quarantined link ${link.id}`);
+    const released = await this.quarantineService.release(link.id);
+    // The quarantined link is cached with its quarantine, the next redirect reloads it
+    await this.cacheService.del(getLinkCacheKey(link.key, link.domain?.name));
+
+    return released;
+  }
+
+  @Delete(':id')
+  @Roles(Role.ADMIN)
+  async delete(@UserCtx() user: UserContext, @Param('id') id: string): Promise<Link> {
+    const link = await this.findQuarantinedLink(id);
+
+    this.logger.log(`Admin ${user.id} is deleting the quarantined link ${link.id}`);
+    await this.cacheService.del(getLinkCacheKey(link.key, link.domain?.name));
+
+    return this.quarantineService.delete(link.id);
+  }
+
+  private async findQuarantinedLink(id: string): Promise<QuarantinedLink> {
+    const link = await this.quarantineService.findById(id);
+
+    if (!link) {
+      throw new NotFoundException('This link is not quarantined.');
+    }
+
+    return link;
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../../auth/auth.module';
+import { PrismaModule } from '@reduced.to/prisma';
+import { QuarantineController } from './quarantine.controller';
+import { QuarantineService } from './quarantine.service';
+
+@Module({
+  imports: [AuthModule, PrismaModule],
+  controllers: [QuarantineController],
+  providers: [QuarantineService],
+  exports: [QuarantineService],
+})
+export class QuarantineModule {}
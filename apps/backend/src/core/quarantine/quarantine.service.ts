@@ -0,0 +1,86 @@
+import { Injectable } from '@nestjs/common';
+import { EntityService } from '../entity.service';
+import { Link, Prisma, PrismaService } from '@reduced.to/prisma';
+
+export type QuarantinedLink = Link & { domain: { name: string } | null };
+
+// Links whose destination was flagged as unsafe by a rescan, they are reviewed by the admins
+@Injectable()
+export class QuarantineService extends EntityService<Link> {
+  constructor(prismaService: PrismaService) {
+    super(prismaService);
+  }
+
+  get model(): string {
+    return 'link';
+  }
+
+  get selectFields(): Partial<Record<keyof Prisma.LinkWhereInput, any | boolean>> {
+    return {
+      id: true,
+      key: true,
+      url: true,
+      domain: {
+        select: {
+          name: true,
+        },
+      },
+      user: {
+        select: {
+          email: true,
+        },
+      },
+      quarantinedAt: true,
+      createdAt: true,
+    };
+  }
+
+  get filterFields(): Partial<Record<keyof Prisma.LinkWhereInput, any | boolean>> {
+    return {
+      key: true,
+      url: true,
+    };
+  }
+
+  findById(id: string): Promise<QuarantinedLink | null> {
+    return this.prismaService.link.findFirst({
+      where: {
+        id,
+        quarantinedAt: {
+          not: null,
+        },
+      },
+      include: {
+        domain: {
+          select: {
+            name: true,
+          },
+        },
+      },
+    });
+  }
+
+  /**
+   * Lets the link redirect again, it is not rescanned until its destinations change.
+   * @param {string} id The id of the quarantined link.
+   */
+  release(id: string): Promise<Link> {
+    return this.prismaService.link.update({
+      where: {
+        id,
+      },
+      data: {
+        quarantinedAt: null,
+        safeUrlReleasedAt: new Date(),
+      },
+    });
+  }
+
+  delete(id: string): Promise<Link> {
+    return this.prismaService.link.delete({
+      where: {
+        id,
+      },
+    });
+  }
+}
@@ -12,12 +12,14 @@ import { SortOrder } from '../../shared/enums/sort-order.enum';
 import { LinksService } from '../links/links.service';
 import { OptionalJwtAuthGuard } from '../../auth/guards/optional-jwt-auth.guard';
 import { AppCacheService } from '../../cache/cache.service';
+import { DomainsService } from '../domains/domains.service';
 
 describe('ReportsController', () => {
   let app: INestApplication;
   let reportsService: ReportsService;
   let linksService: LinksService;
   let cacheService: AppCacheService;
+  let domainsService: DomainsService;
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
@@ -46,6 +48,12 @@ describe('ReportsController', () => {
             del: jest.fn(),
           },
         },
+        {
+          provide: DomainsService,
+          useValue: {
+            findVerifiedByHost: jest.fn().mockResolvedValue(null),
+          },
+        },
       ],
     })
       .overrideGuard(OptionalJwtAuthGuard)
@@ -70,6 +78,7 @@ describe('ReportsController', () => {
     reportsService = module.get<ReportsService>(ReportsService);
     linksService = module.get<LinksService>(LinksService);
     cacheService = module.get<AppCacheService>(AppCacheService);
+    domainsService = module.get<DomainsService>(DomainsService);
   });
 
   afterEach(async () => {
@@ -181,6 +190,19 @@ describe('ReportsController', () => {
         .expect(201);
 
       expect(response.body).toEqual({});
+      expect(linksService.findBy).toHaveBeenCalledWith({ key: 'abcde', domainId: null });
+    });
+
+    it('should report a link of a verified custom domain', async () => {
+      jest.spyOn(domainsService, 'findVerifiedByHost').mockResolvedValue({ id: 'domain-id', name: 'go.example.com' } as any);
+      jest.spyOn(linksService, 'findBy').mockResolvedValue({ id: 'link-id', url: 'https://github.com/origranot/reduced.to' } as any);
+      const createSpy = jest.spyOn(reportsService, 'create').mockResolvedValue({} as any);
+
+      await request(app.getHttpServer()).post('/reports').send({ link: 'https://go.example.com/abcde', category: 'test' }).expect(201);
+
+      expect(domainsService.findVerifiedByHost).toHaveBeenCalledWith('go.example.com');
+      expect(linksService.findBy).toHaveBeenCalledWith({ key: 'abcde', domainId: 'domain-id' });
+      expect(createSpy).toHaveBeenCalledWith({ linkId: 'link-id', category: 'test' });
     });
 
     it('should return 404 if link is not found', async () => {
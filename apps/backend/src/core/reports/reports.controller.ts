@@ -7,7 +7,8 @@ import { ReportsService } from './reports.service';
 import { FindAllQueryDto, CreateReportDto } from './dto';
 import { LinksService } from '../links/links.service';
 import { OptionalJwtAuthGuard } from '../../auth/guards/optional-jwt-auth.guard';
-import { AppCacheService } from '../../cache/cache.service';
+import { AppCacheService, getLinkCacheKey } from '../../cache/cache.service';
+import { DomainsService } from '../domains/domains.service';
 
 @UseGuards(OptionalJwtAuthGuard, RolesGuard)
 @Controller({
@@ -18,7 +19,8 @@ export class ReportsController {
   constructor(
     private readonly reportsService: ReportsService,
     private readonly linksService: LinksService,
-    private readonly cacheService: AppCacheService
+    private readonly cacheService: AppCacheService,
+    private readonly domainsService: DomainsService
   ) {}
 
   @Get()
@@ -36,13 +38,16 @@ export class ReportsController {
 
   @Post()
   async create(@Body() { link, category }: CreateReportDto): Promise<Report> {
-    if (!this.reportsService.isUrlReportable(link)) {
+    const customDomain = await this.domainsService.findVerifiedByHost(this.getHost(link));
+
+    if (!this.reportsService.isUrlReportable(link, customDomain?.name)) {
       throw new BadRequestException('You can only report links that are shortened by us.');
     }
 
     const key = link.split('/').pop();
     const response = await this.linksService.findBy({
       key,
+      domainId: customDomain?.id ?? null,
     });
 
     if (!response) {
@@ -50,7 +55,7 @@ export class ReportsController {
     }
 
     return this.reportsService.create({
-      key,
+      linkId: response.id,
       category,
     });
   }
@@ -66,11 +71,19 @@ export class ReportsController {
 
     if (deleteLink) {
       // Should delete the link from the cache as well
-      await this.cacheService.del(report.link?.key);
+      await this.cacheService.del(getLinkCacheKey(report.link?.key, report.link?.domain?.name));
 
       return this.linksService.delete(report.link.id);
     }
 
     return this.reportsService.delete(id);
   }
+
+  private getHost(link: string): string | undefined {
+    try {
+      return new URL(link).host;
+    } catch {
+      return undefined;
+    }
+  }
 }
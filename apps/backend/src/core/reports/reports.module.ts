@@ -4,9 +4,10 @@ import { ReportsController } from './reports.controller';
 import { ReportsService } from './reports.service';
 import { PrismaModule } from '@reduced.to/prisma';
 import { LinksModule } from '../links/links.module';
+import { DomainsModule } from '../domains/domains.module';
 
 @Module({
-  imports: [AuthModule, PrismaModule, LinksModule],
+  imports: [AuthModule, PrismaModule, LinksModule, DomainsModule],
   controllers: [ReportsController],
   providers: [ReportsService],
   exports: [ReportsService],
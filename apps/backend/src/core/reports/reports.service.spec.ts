@@ -110,12 +110,12 @@ describe('ReportsService', () => {
         category: 'test',
         link: {
           connect: {
-            key: 'test',
+            id: 'test',
           },
         },
       };
 
-      await service.create({ key: 'test', ...createOptions });
+      await service.create({ linkId: 'test', category: 'test' });
       expect(prismaService.report.create).toHaveBeenCalledWith(
         expect.objectContaining({
           data: createOptions,
@@ -152,6 +152,18 @@ describe('ReportsService', () => {
     it.each(TEST_CASES)('should return false if url "%s" is not reportable', (url: string, expectedResult: boolean) => {
       expect(service.isUrlReportable(url)).toBe(expectedResult);
     });
+
+    const CUSTOM_DOMAIN_TEST_CASES = [
+      ['https://go.example.com/123', true],
+      ['https://reduced.to/123', true],
+      ['https://go.example.com/123/456', false],
+      ['https://goxexample.com/123', false],
+      ['https://other.example.com/123', false],
+    ];
+
+    it.each(CUSTOM_DOMAIN_TEST_CASES)('should check "%s" against the custom domain as well', (url: string, expectedResult: boolean) => {
+      expect(service.isUrlReportable(url, 'go.example.com')).toBe(expectedResult);
+    });
   });
 
   describe('delete', () => {
@@ -37,12 +37,12 @@ export class ReportsService extends EntityService<Report> {
     };
   }
 
-  create({ key, category }: { key: string; category: string }): Promise<Report> {
+  create({ linkId, category }: { linkId: string; category: string }): Promise<Report> {
     return this.prismaService.report.create({
       data: {
         link: {
           connect: {
-            key,
+            id: linkId,
           },
         },
         category,
@@ -56,7 +56,11 @@ export class ReportsService extends EntityService<Report> {
         id,
       },
       include: {
-        link: true,
+        link: {
+          include: {
+            domain: true,
+          },
+        },
       },
     });
   }
@@ -69,10 +73,18 @@ export class ReportsService extends EntityService<Report> {
     });
   }
 
-  isUrlReportable(url: string): boolean {
-    const domain = this.config.getConfig().front.domain.replace(/\./g, '\\.');
+  /**
+   * Checks if the url is a short link of the default domain or of the given custom domain.
+   * @param {string} url The reported url.
+   * @param {string} customDomain The verified custom domain the url belongs to, if any.
+   */
+  isUrlReportable(url: string, customDomain?: string): boolean {
+    const domains = [this.config.getConfig().front.domain, customDomain]
+      .filter(Boolean)
+      .map((domain) => domain.replace(/\./g, '\\.'))
+      .join('|');
     // eslint-disable-next-line no-useless-escape
-    const regexPattern = new RegExp(`^https?:\/\/${domain}\/[\\w\\-\\.]+$`);
+    const regexPattern = new RegExp(`^https?:\/\/(${domains})\/[\\w\\-\\.]+$`);
 
     return regexPattern.test(url);
   }
@@ -0,0 +1,20 @@
+import { IsDefined, IsEnum, IsOptional, IsString, MaxLength, MinLength } from 'class-validator';
+import { ReservedKeyMatch } from '@reduced.to/prisma';
+
+export class CreateReservedKeyDto {
+  @IsString()
+  @IsDefined()
+  @MinLength(1)
+  @MaxLength(50)
+  value: string;
+
+  // EXACT reserves the key itself, CONTAINS blocks every key containing the value
+  @IsOptional()
+  @IsEnum(ReservedKeyMatch)
+  match?: ReservedKeyMatch;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  reason?: string;
+}
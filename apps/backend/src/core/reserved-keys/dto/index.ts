@@ -0,0 +1,2 @@
+export * from './create-reserved-key.dto';
+export * from './find-all-query.dto';
@@ -0,0 +1,111 @@
+import request from 'supertest';
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { Role } from '@reduced.to/prisma';
+import { AppConfigModule } from '@reduced.to/config';
+import { AppLoggerModule } from '@reduced.to/logger';
+import { JwtAuthGuard } from '../../auth/guards/jwt.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { ReservedKeysController } from './reserved-keys.controller';
+import { ReservedKeysService } from './reserved-keys.service';
+
+describe('ReservedKeysController', () => {
+  let app: INestApplication;
+  let reservedKeysService: ReservedKeysService;
+
+  const RESERVED_KEY = {
+    id: 'reserved-key-id',
+    value: 'promo',
+    match: 'EXACT',
+    reason: 'Marketing campaign',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [AppConfigModule, AppLoggerModule],
+      controllers: [ReservedKeysController],
+      providers: [
+        {
+          provide: ReservedKeysService,
+          useValue: {
+            findAll: jest.fn().mockResolvedValue({ total: 1, data: [RESERVED_KEY] }),
+            findBy: jest.fn().mockResolvedValue(null),
+            create: jest.fn().mockResolvedValue(RESERVED_KEY),
+            delete: jest.fn().mockResolvedValue(RESERVED_KEY),
+          },
+        },
+      ],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue({
+        canActivate: (context) => {
+          const req = context.switchToHttp().getRequest();
+          req.user = { id: 'admin-id', role: Role.ADMIN };
+          return true;
+        },
+      })
+      .overrideGuard(RolesGuard)
+      .useValue({
+        canActivate: () => {
+          return true;
+        },
+      })
+      .compile();
+
+    app = module.createNestApplication();
+
+    app.useGlobalPipes(new ValidationPipe({ transform: true }));
+    await app.init();
+
+    reservedKeysService = module.get<ReservedKeysService>(ReservedKeysService);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  describe('GET /reserved-keys', () => {
+    it('should return the reserved keys', async () => {
+      const response = await request(app.getHttpServer()).get('/reserved-keys?limit=10&page=2').expect(200);
+
+      expect(reservedKeysService.findAll).toHaveBeenCalledWith({ skip: 10, limit: 10 });
+      expect(response.body).toEqual({ total: 1, data: [RESERVED_KEY] });
+    });
+  });
+
+  describe('POST /reserved-keys', () => {
+    it('should create a normalized reserved key', async () => {
+      await request(app.getHttpServer()).post('/reserved-keys').send({ value: ' PayPal ', match: 'CONTAINS' }).expect(201);
+
+      expect(reservedKeysService.create).toHaveBeenCalledWith({ value: 'paypal', match: 'CONTAINS' });
+    });
+
+    it('should not allow invalid match types or empty values', async () => {
+      await request(app.getHttpServer()).post('/reserved-keys').send({ value: 'promo', match: 'PREFIX' }).expect(400);
+      await request(app.getHttpServer()).post('/reserved-keys').send({}).expect(400);
+
+      expect(reservedKeysService.create).not.toHaveBeenCalled();
+    });
+
+    it('should not allow keys that are already reserved', async () => {
+      jest.spyOn(reservedKeysService, 'findBy').mockResolvedValue(RESERVED_KEY as any);
+
+      await request(app.getHttpServer()).post('/reserved-keys').send({ value: 'promo' }).expect(400);
+      expect(reservedKeysService.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /reserved-keys/:id', () => {
+    it('should delete the reserved key', async () => {
+      jest.spyOn(reservedKeysService, 'findBy').mockResolvedValue(RESERVED_KEY as any);
+
+      await request(app.getHttpServer()).delete(`/reserved-keys/${RESERVED_KEY.id}`).expect(200);
+      expect(reservedKeysService.delete).toHaveBeenCalledWith(RESERVED_KEY.id);
+    });
+
+    it('should return 400 if the reserved key does not exist', async () => {
+      await request(app.getHttpServer()).delete(`/reserved-keys/${RESERVED_KEY.id}`).expect(400);
+      expect(reservedKeysService.delete).not.toHaveBeenCalled();
+    });
+  });
+});
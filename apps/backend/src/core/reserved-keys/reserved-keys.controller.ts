@@ -0,0 +1,59 @@
+import { BadRequestException, Body, Controller, Delete, Get, Param, Post, Query, UseGuards } from '@nestjs/common';
+import { JwtAuthGuard } from '../../auth/guards/jwt.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { ReservedKey, Role } from '@reduced.to/prisma';
+import { Roles, UserCtx } from '../../shared/decorators';
+import { UserContext } from '../../auth/interfaces/user-context';
+import { AppLoggerService } from '@reduced.to/logger';
+import { IPaginationResult, calculateSkip } from '../../shared/utils';
+import { ReservedKeysService } from './reserved-keys.service';
+import { CreateReservedKeyDto, FindAllQueryDto } from './dto';
+
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller({
+  path: 'reserved-keys',
+  version: '1',
+})
+export class ReservedKeysController {
+  constructor(private readonly reservedKeysService: ReservedKeysService, private readonly logger: AppLoggerService) {}
+
+  @Get()
+  @Roles(Role.ADMIN)
+  async findAll(@Query() query: FindAllQueryDto): Promise<IPaginationResult<ReservedKey>> {
+    const { page, limit, filter, sort } = query;
+
+    return this.reservedKeysService.findAll({
+      ...(page && { skip: calculateSkip(page, limit) }),
+      limit,
+      filter,
+      sort,
+    });
+  }
+
+  @Post()
+  @Roles(Role.ADMIN)
+  async create(@UserCtx() user: UserContext, @Body() { value, match, reason }: CreateReservedKeyDto): Promise<ReservedKey> {
+    const reservedValue = value.trim().toLowerCase();
+
+    const existingKey = await this.reservedKeysService.findBy({ value: reservedValue });
+    if (existingKey) {
+      throw new BadRequestException('This key is already reserved');
+    }
+
+    this.logger.log(`User ${user.id} is reserving the key ${reservedValue}`);
+    return this.reservedKeysService.create({ value: reservedValue, match, reason });
+  }
+
+  @Delete(':id')
+  @Roles(Role.ADMIN)
+  async delete(@UserCtx() user: UserContext, @Param('id') id: string): Promise<ReservedKey> {
+    const reservedKey = await this.reservedKeysService.findBy({ id });
+
+    if (!reservedKey) {
+      throw new BadRequestException('Reserved key not found');
+    }
+
+    this.logger.log(`User ${user.id} is releasing the key ${reservedKey.value}`);
+    return this.reservedKeysService.delete(id);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../../auth/auth.module';
+import { PrismaModule } from '@reduced.to/prisma';
+import { ReservedKeysController } from './reserved-keys.controller';
+import { ReservedKeysService } from './reserved-keys.service';
+
+@Module({
+  imports: [AuthModule, PrismaModule],
+  controllers: [ReservedKeysController],
+  providers: [ReservedKeysService],
+  exports: [ReservedKeysService],
+})
+export class ReservedKeysModule {}
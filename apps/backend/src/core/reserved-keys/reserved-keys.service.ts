@@ -0,0 +1,92 @@
+import { Injectable } from '@nestjs/common';
+import { AppConfigService } from '@reduced.to/config';
+import { Prisma, PrismaService, ReservedKey } from '@reduced.to/prisma';
+import { ReservedKeyEntry, findReservedKey } from '@reduced.to/utils';
+import { EntityService } from '../entity.service';
+
+// Reserved keys rarely change, they are read again after this time so all instances pick up the changes
+const ENTRIES_TTL = 60 * 1000;
+
+@Injectable()
+export class ReservedKeysService extends EntityService<ReservedKey> {
+  private entries = { value: [] as ReservedKeyEntry[], updatedAt: 0 };
+
+  constructor(prismaService: PrismaService, private readonly appConfigService: AppConfigService) {
+    super(prismaService);
+  }
+
+  get model(): string {
+    return 'reservedKey';
+  }
+
+  get selectFields(): Partial<Record<keyof Prisma.ReservedKeyWhereInput, boolean>> {
+    return {
+      id: true,
+      value: true,
+      match: true,
+      reason: true,
+      createdAt: true,
+    };
+  }
+
+  get filterFields(): Partial<Record<keyof Prisma.ReservedKeyWhereInput, boolean>> {
+    return {
+      value: true,
+      reason: true,
+    };
+  }
+
+  findBy(opts: Prisma.ReservedKeyWhereInput): Promise<ReservedKey> {
+    return this.prismaService.reservedKey.findFirst({
+      where: opts,
+    });
+  }
+
+  async create(data: Prisma.ReservedKeyCreateInput): Promise<ReservedKey> {
+    const reservedKey = await this.prismaService.reservedKey.create({
+      data,
+    });
+
+    this.entries.updatedAt = 0;
+    return reservedKey;
+  }
+
+  async delete(id: string): Promise<ReservedKey> {
+    const reservedKey = await this.prismaService.reservedKey.delete({
+      where: {
+        id,
+      },
+    });
+
+    this.entries.updatedAt = 0;
+    return reservedKey;
+  }
+
+  /**
+   * Returns the entry that prevents the key from being used, checking the frontend routes (also as the first segment of the key),
+   * the default blocklist, the configured keys and the keys managed by admins.
+   */
+  findReservedKey = async (key: string): Promise<ReservedKeyEntry | undefined> => {
+    const configured = this.appConfigService.getConfig().keys.reserved.map((value) => ({ value, match: 'EXACT' as const }));
+    return findReservedKey(key, [...configured, ...(await this.getEntries())]);
+  };
+
+  isReserved = async (key: string): Promise<boolean> => {
+    return !!(await this.findReservedKey(key));
+  };
+
+  private async getEntries(): Promise<ReservedKeyEntry[]> {
+    if (Date.now() - this.entries.updatedAt > ENTRIES_TTL) {
+      const value = await this.prismaService.reservedKey.findMany({
+        select: {
+          value: true,
+          match: true,
+        },
+      });
+
+      this.entries = { value, updatedAt: Date.now() };
+    }
+
+    return this.entries.value;
+  }
+}
@@ -0,0 +1,14 @@
+import { IsDefined, IsOptional, IsString, Matches, MaxLength, MinLength } from 'class-validator';
+
+export class CreateTagDto {
+  @IsString()
+  @IsDefined()
+  @MinLength(1)
+  @MaxLength(30)
+  name: string;
+
+  // Hex color of the tag chip, e.g. #22c55e
+  @IsOptional()
+  @Matches(/^#[0-9a-f]{6}$/i, { message: 'Color must be a hex color' })
+  color?: string;
+}
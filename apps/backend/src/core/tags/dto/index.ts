@@ -0,0 +1,2 @@
+export * from './create-tag.dto';
+export * from './update-tag.dto';
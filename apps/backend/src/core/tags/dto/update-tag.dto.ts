@@ -0,0 +1,14 @@
+import { IsOptional, IsString, Matches, MaxLength, MinLength } from 'class-validator';
+
+export class UpdateTagDto {
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(30)
+  name?: string;
+
+  // null removes the color of the tag
+  @IsOptional()
+  @Matches(/^#[0-9a-f]{6}$/i, { message: 'Color must be a hex color' })
+  color?: string | null;
+}
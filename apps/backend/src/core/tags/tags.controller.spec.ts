@@ -0,0 +1,139 @@
+import request from 'supertest';
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { Role } from '@reduced.to/prisma';
+import { AppConfigModule } from '@reduced.to/config';
+import { AppLoggerModule } from '@reduced.to/logger';
+import { JwtAuthGuard } from '../../auth/guards/jwt.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { TagsController } from './tags.controller';
+import { TagsService } from './tags.service';
+
+describe('TagsController', () => {
+  let app: INestApplication;
+  let tagsService: TagsService;
+
+  const TAG = {
+    id: 'tag-id',
+    name: 'marketing',
+    color: '#ff0000',
+    userId: 'user-id',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [AppConfigModule, AppLoggerModule],
+      controllers: [TagsController],
+      providers: [
+        {
+          provide: TagsService,
+          useValue: {
+            findAllByUser: jest.fn().mockResolvedValue([{ ...TAG, _count: { links: 2 } }]),
+            findBy: jest.fn().mockResolvedValue(null),
+            create: jest.fn().mockResolvedValue(TAG),
+            update: jest.fn().mockResolvedValue(TAG),
+            delete: jest.fn().mockResolvedValue(TAG),
+          },
+        },
+      ],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue({
+        canActivate: (context) => {
+          const req = context.switchToHttp().getRequest();
+          req.user = { id: 'user-id', role: Role.USER };
+          return true;
+        },
+      })
+      .overrideGuard(RolesGuard)
+      .useValue({
+        canActivate: () => {
+          return true;
+        },
+      })
+      .compile();
+
+    app = module.createNestApplication();
+
+    app.useGlobalPipes(new ValidationPipe({ transform: true }));
+    await app.init();
+
+    tagsService = module.get<TagsService>(TagsService);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  describe('GET /tags', () => {
+    it('should return the tags of the user', async () => {
+      const response = await request(app.getHttpServer()).get('/tags').expect(200);
+
+      expect(tagsService.findAllByUser).toHaveBeenCalledWith('user-id');
+      expect(response.body).toEqual([{ ...TAG, _count: { links: 2 } }]);
+    });
+  });
+
+  describe('POST /tags', () => {
+    it('should create a tag', async () => {
+      await request(app.getHttpServer()).post('/tags').send({ name: ' marketing ', color: '#ff0000' }).expect(201);
+
+      expect(tagsService.create).toHaveBeenCalledWith({ name: 'marketing', color: '#ff0000', userId: 'user-id' });
+    });
+
+    it('should not allow invalid names or colors', async () => {
+      await request(app.getHttpServer()).post('/tags').send({}).expect(400);
+      await request(app.getHttpServer())
+        .post('/tags')
+        .send({ name: 'a'.repeat(31) })
+        .expect(400);
+      await request(app.getHttpServer()).post('/tags').send({ name: 'marketing', color: 'red' }).expect(400);
+
+      expect(tagsService.create).not.toHaveBeenCalled();
+    });
+
+    it('should not allow tags that already exist', async () => {
+      jest.spyOn(tagsService, 'findBy').mockResolvedValue(TAG as any);
+
+      await request(app.getHttpServer()).post('/tags').send({ name: 'marketing' }).expect(400);
+      expect(tagsService.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH /tags/:id', () => {
+    it('should update the tag', async () => {
+      jest.spyOn(tagsService, 'findBy').mockResolvedValueOnce(TAG as any);
+
+      await request(app.getHttpServer()).patch(`/tags/${TAG.id}`).send({ name: 'sales', color: null }).expect(200);
+
+      expect(tagsService.findBy).toHaveBeenCalledWith({ userId: 'user-id', id: TAG.id });
+      expect(tagsService.update).toHaveBeenCalledWith(TAG.id, { name: 'sales', color: null });
+    });
+
+    it('should not rename the tag to an existing tag', async () => {
+      jest.spyOn(tagsService, 'findBy').mockResolvedValue(TAG as any);
+
+      await request(app.getHttpServer()).patch(`/tags/${TAG.id}`).send({ name: 'sales' }).expect(400);
+      expect(tagsService.update).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 if the tag does not belong to the user', async () => {
+      await request(app.getHttpServer()).patch(`/tags/${TAG.id}`).send({ name: 'sales' }).expect(401);
+      expect(tagsService.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /tags/:id', () => {
+    it('should delete the tag', async () => {
+      jest.spyOn(tagsService, 'findBy').mockResolvedValue(TAG as any);
+
+      await request(app.getHttpServer()).delete(`/tags/${TAG.id}`).expect(200);
+      expect(tagsService.delete).toHaveBeenCalledWith(TAG.id);
+    });
+
+    it('should return 401 if the tag does not belong to the user', async () => {
+      await request(app.getHttpServer()).delete(`/tags/${TAG.id}`).expect(401);
+      expect(tagsService.delete).not.toHaveBeenCalled();
+    });
+  });
+});
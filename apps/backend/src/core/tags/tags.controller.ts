@@ -0,0 +1,73 @@
+import { BadRequestException, Body, Controller, Delete, Get, Param, Patch, Post, UnauthorizedException, UseGuards } from '@nestjs/common';
+import { JwtAuthGuard } from '../../auth/guards/jwt.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { Role, Tag } from '@reduced.to/prisma';
+import { Roles, UserCtx } from '../../shared/decorators';
+import { UserContext } from '../../auth/interfaces/user-context';
+import { AppLoggerService } from '@reduced.to/logger';
+import { TagsService, TagWithCount } from './tags.service';
+import { CreateTagDto, UpdateTagDto } from './dto';
+
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller({
+  path: 'tags',
+  version: '1',
+})
+export class TagsController {
+  constructor(private readonly tagsService: TagsService, private readonly logger: AppLoggerService) {}
+
+  @Get()
+  @Roles(Role.ADMIN, Role.USER)
+  async findAll(@UserCtx() user: UserContext): Promise<TagWithCount[]> {
+    return this.tagsService.findAllByUser(user.id);
+  }
+
+  @Post()
+  @Roles(Role.ADMIN, Role.USER)
+  async create(@UserCtx() user: UserContext, @Body() { name, color }: CreateTagDto): Promise<Tag> {
+    const tagName = name.trim();
+
+    const existingTag = await this.tagsService.findBy({ userId: user.id, name: tagName });
+    if (existingTag) {
+      throw new BadRequestException('This tag already exists');
+    }
+
+    this.logger.log(`User ${user.id} is creating the tag ${tagName}`);
+    return this.tagsService.create({ name: tagName, color, userId: user.id });
+  }
+
+  @Patch(':id')
+  @Roles(Role.ADMIN, Role.USER)
+  async update(@UserCtx() user: UserContext, @Param('id') id: string, @Body() { name, color }: UpdateTagDto): Promise<Tag> {
+    const tag = await this.tagsService.findBy({ userId: user.id, id });
+
+    if (!tag) {
+      throw new UnauthorizedException();
+    }
+
+    const tagName = name?.trim();
+    if (tagName && tagName !== tag.name) {
+      const existingTag = await this.tagsService.findBy({ userId: user.id, name: tagName });
+      if (existingTag) {
+        throw new BadRequestException('This tag already exists');
+      }
+    }
+
+    return this.tagsService.update(id, {
+      ...(tagName && { name: tagName }),
+      ...(color !== undefined && { color }),
+    });
+  }
+
+  @Delete(':id')
+  @Roles(Role.ADMIN, Role.USER)
+  async delete(@UserCtx() user: UserContext, @Param('id') id: string): Promise<Tag> {
+    const tag = await this.tagsService.findBy({ userId: user.id, id });
+
+    if (!tag) {
+      throw new UnauthorizedException();
+    }
+
+    return this.tagsService.delete(id);
+  }
+}
@@ -0,0 +1,78 @@
+import { Injectable } from '@nestjs/common';
+import { EntityService } from '../entity.service';
+import { Prisma, PrismaService, Tag } from '@reduced.to/prisma';
+
+export type TagWithCount = Tag & { _count: { links: number } };
+
+@Injectable()
+export class TagsService extends EntityService<Tag> {
+  constructor(prismaService: PrismaService) {
+    super(prismaService);
+  }
+
+  get model(): string {
+    return 'tag';
+  }
+
+  get selectFields(): Partial<Record<keyof Prisma.TagWhereInput, boolean>> {
+    return {
+      id: true,
+      name: true,
+      color: true,
+      createdAt: true,
+    };
+  }
+
+  get filterFields(): Partial<Record<keyof Prisma.TagWhereInput, boolean>> {
+    return {
+      name: true,
+    };
+  }
+
+  findBy(opts: Prisma.TagWhereInput): Promise<Tag> {
+    return this.prismaService.tag.findFirst({
+      where: opts,
+    });
+  }
+
+  findAllByUser(userId: string): Promise<TagWithCount[]> {
+    return this.prismaService.tag.findMany({
+      where: {
+        userId,
+      },
+      include: {
+        _count: {
+          select: {
+            links: true,
+          },
+        },
+      },
+      orderBy: {
+        name: 'asc',
+      },
+    });
+  }
+
+  create(data: { name: string; color?: string; userId: string }): Promise<Tag> {
+    return this.prismaService.tag.create({
+      data,
+    });
+  }
+
+  update(id: string, data: Prisma.TagUpdateInput): Promise<Tag> {
+    return this.prismaService.tag.update({
+      where: {
+        id,
+      },
+      data,
+    });
+  }
+
+  delete(id: string): Promise<Tag> {
+    return this.prismaService.tag.delete({
+      where: {
+        id,
+      },
+    });
+  }
+}
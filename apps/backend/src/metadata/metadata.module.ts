@@ -5,5 +5,6 @@ import { MetadataService } from './metadata.service';
 @Module({
   providers: [MetadataService],
   controllers: [MetadataController],
+  exports: [MetadataService],
 })
 export class MetadataModule {}
@@ -4,6 +4,15 @@ import { UserContext } from '../auth/interfaces/user-context';
 import { AppConfigService } from '@reduced.to/config';
 import { NOVU_INJECTION_TOKEN } from './novu.module';
 import { Configuration } from '@reduced.to/config';
+import { Link, User } from '@reduced.to/prisma';
+
+export interface BrokenLink {
+  id: string;
+  key: string;
+  url: string;
+  statusCode: number | null;
+  error: string | null;
+}
 
 @Injectable()
 export class NovuService {
@@ -13,11 +22,7 @@ export class NovuService {
   }
 
   async sendVerificationEmail(user: UserContext) {
-    const domain =
-      this.config.general.env === 'production'
-        ? `https://${this.config.front.domain}`
-        : `http://${this.config.front.domain}:${this.config.general.frontendPort}`;
-    const verificationUrl = `${domain}/register/verify/${user.verificationToken}`;
+    const verificationUrl = `${this.getFrontendUrl()}/register/verify/${user.verificationToken}`;
 
     await this.novu.trigger('new-user', {
       to: {
@@ -30,4 +35,56 @@ export class NovuService {
       },
     });
   }
+
+  async sendBrokenLinkEmail(user: Pick<User, 'id' | 'email' | 'name'>, link: BrokenLink) {
+    await this.novu.trigger('broken-link', {
+      to: {
+        subscriberId: user.id,
+        email: user.email,
+      },
+      payload: {
+        name: user.name,
+        key: link.key,
+        url: link.url,
+        // Unreachable destinations have no status code, the error tells why
+        reason: link.statusCode ? `HTTP ${link.statusCode}` : link.error,
+        analytics_url: `${this.getFrontendUrl()}/dashboard/analytics/${link.id}`,
+      },
+    });
+  }
+
+  async sendQuarantinedLinkEmail(user: Pick<User, 'id' | 'email' | 'name'>, link: Pick<Link, 'key'>, unsafeUrl: string) {
+    await this.novu.trigger('quarantined-link', {
+      to: {
+        subscriberId: user.id,
+        email: user.email,
+      },
+      payload: {
+        name: user.name,
+        key: link.key,
+        url: unsafeUrl,
+      },
+    });
+  }
+
+  async sendQuarantineReviewEmail(admins: Pick<User, 'id' | 'email'>[], link: Pick<Link, 'key'>, unsafeUrl: string) {
+    if (!admins.length) {
+      return;
+    }
+
+    await this.novu.trigger('quarantine-review', {
+      to: admins.map(({ id, email }) => ({ subscriberId: id, email })),
+      payload: {
+        key: link.key,
+        url: unsafeUrl,
+        review_url: `${this.getFrontendUrl()}/dashboard/admin/quarantine`,
+      },
+    });
+  }
+
+  private getFrontendUrl(): string {
+    return this.config.general.env === 'production'
+      ? `https://${this.config.front.domain}`
+      : `http://${this.config.front.domain}:${this.config.general.frontendPort}`;
+  }
 }
@@ -4,3 +4,4 @@ export * from './unique/unique.decorator';
 export * from './is-verified/is-verified.decorator';
 export * from './sortable/sortable.decorator';
 export * from './user-ctx/user-ctx.decorator';
+export * from './is-not-reserved-key/is-not-reserved-key.decorator';
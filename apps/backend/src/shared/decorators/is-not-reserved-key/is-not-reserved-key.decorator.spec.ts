@@ -0,0 +1,41 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { IsNotReservedKeyConstraint } from './is-not-reserved-key.decorator';
+import { ReservedKeysService } from '../../../core/reserved-keys/reserved-keys.service';
+
+describe('IsNotReservedKeyDecorator', () => {
+  let reservedKeysService: ReservedKeysService;
+  let constraint: IsNotReservedKeyConstraint;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IsNotReservedKeyConstraint,
+        {
+          provide: ReservedKeysService,
+          useValue: {
+            isReserved: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    reservedKeysService = module.get<ReservedKeysService>(ReservedKeysService);
+    constraint = module.get<IsNotReservedKeyConstraint>(IsNotReservedKeyConstraint);
+  });
+
+  it('should return true if the key is not reserved', async () => {
+    jest.spyOn(reservedKeysService, 'isReserved').mockResolvedValue(false);
+    await expect(constraint.validate('summer-sale')).resolves.toBe(true);
+  });
+
+  it('should return false if the key is reserved', async () => {
+    jest.spyOn(reservedKeysService, 'isReserved').mockResolvedValue(true);
+
+    await expect(constraint.validate('dashboard')).resolves.toBe(false);
+    expect(reservedKeysService.isReserved).toHaveBeenCalledWith('dashboard');
+  });
+
+  it('should return the default message', () => {
+    expect(constraint.defaultMessage()).toBe('This short link is reserved');
+  });
+});
@@ -0,0 +1,30 @@
+import { registerDecorator, ValidationOptions, ValidatorConstraint, ValidatorConstraintInterface } from 'class-validator';
+import { Injectable } from '@nestjs/common';
+import { ReservedKeysService } from '../../../core/reserved-keys/reserved-keys.service';
+
+@ValidatorConstraint({ name: 'IsNotReservedKey', async: true })
+@Injectable()
+export class IsNotReservedKeyConstraint implements ValidatorConstraintInterface {
+  constructor(private readonly reservedKeysService: ReservedKeysService) {}
+
+  async validate(value: any): Promise<boolean> {
+    if (typeof value !== 'string') return false;
+
+    return !(await this.reservedKeysService.isReserved(value));
+  }
+
+  defaultMessage() {
+    return 'This short link is reserved';
+  }
+}
+
+export function IsNotReservedKey(validationOptions?: ValidationOptions) {
+  return function (object: any, propertyName: string) {
+    registerDecorator({
+      target: object.constructor,
+      propertyName: propertyName,
+      options: validationOptions,
+      validator: IsNotReservedKeyConstraint,
+    });
+  };
+}
@@ -0,0 +1,26 @@
+import { DeepLinks, RedirectRule, RedirectVariant } from '@reduced.to/utils';
+
+interface Destinations {
+  url?: string;
+  rules?: RedirectRule[] | null;
+  variants?: RedirectVariant[] | null;
+  scheduledChanges?: { url: string }[] | null;
+  deepLinks?: DeepLinks | null;
+}
+
+/**
+ * Returns every url a link may redirect to, used to run the same checks on all of them.
+ */
+export const getDestinationUrls = ({ url, rules, variants, scheduledChanges, deepLinks }: Destinations): string[] => {
+  const appDestinations = Object.values(deepLinks || {}).filter(Boolean);
+  const urls = [
+    url,
+    ...(rules || []).map((rule) => rule.url),
+    ...(variants || []).map((variant) => variant.url),
+    ...(scheduledChanges || []).map((change) => change.url),
+    ...appDestinations.map((deepLink) => deepLink.storeUrl),
+    // Custom schemes only open apps, universal links are web urls like the others
+    ...appDestinations.map((deepLink) => deepLink.appUrl).filter((appUrl) => /^https?:\/\//i.test(appUrl)),
+  ];
+  return [...new Set(urls.filter(Boolean))];
+};
@@ -0,0 +1,15 @@
+import { Type } from 'class-transformer';
+import { ArrayMaxSize, ArrayMinSize, IsArray, ValidateNested } from 'class-validator';
+import { ShortenerDto } from './shortener.dto';
+
+export const MAX_BULK_SHORTENED_LINKS = 100;
+
+// Every link is validated like the body of a single link
+export class BulkShortenerDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_BULK_SHORTENED_LINKS)
+  @ValidateNested({ each: true })
+  @Type(() => ShortenerDto)
+  links: ShortenerDto[];
+}
@@ -0,0 +1,34 @@
+import { Type } from 'class-transformer';
+import { IsOptional, IsUrl, Matches, MaxLength, ValidateNested } from 'class-validator';
+import { DeepLink, DeepLinks } from '@reduced.to/utils';
+
+// Any scheme followed by a path (myapp://product/42, https://example.com/app), except the ones running code in the browser
+const APP_URL_REGEX = /^(?!(javascript|data|vbscript|file):)[a-z][a-z0-9+.-]*:\/\/\S+$/i;
+
+export class DeepLinkDto implements DeepLink {
+  @Matches(APP_URL_REGEX, {
+    message: 'App url is invalid',
+  })
+  @MaxLength(2048)
+  appUrl: string;
+
+  @IsUrl(
+    { require_protocol: true },
+    {
+      message: 'Store url is invalid',
+    }
+  )
+  storeUrl: string;
+}
+
+export class DeepLinksDto implements DeepLinks {
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DeepLinkDto)
+  ios?: DeepLinkDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DeepLinkDto)
+  android?: DeepLinkDto;
+}
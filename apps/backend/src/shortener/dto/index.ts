@@ -1 +1,9 @@
 export * from './shortener.dto';
+export * from './redirect-rule.dto';
+export * from './variant.dto';
+export * from './scheduled-change.dto';
+export * from './deep-links.dto';
+export * from './qr-payload.dto';
+export * from './link-file.dto';
+export * from './link-snippet.dto';
+export * from './bulk-shortener.dto';
@@ -0,0 +1,22 @@
+import { IsString, Matches, MaxLength, MinLength } from 'class-validator';
+import { LinkFile, MAX_FILE_NAME_LENGTH } from '@reduced.to/utils';
+
+// Storage path returned by the upload, files/{user id}/{file id}
+const FILE_PATH_REGEX = /^files\/[\w-]+\/[\w-]+$/;
+
+export class LinkFileDto implements Partial<LinkFile> {
+  @Matches(FILE_PATH_REGEX, {
+    message: 'File is invalid',
+  })
+  path: string;
+
+  // Name of the download, the file can be renamed before the link is created
+  @IsString()
+  @MinLength(1)
+  @MaxLength(MAX_FILE_NAME_LENGTH)
+  name: string;
+
+  // Read from the storage once the owner of the file is verified, they are never sent by the client
+  size?: number;
+  contentType?: string;
+}
@@ -0,0 +1,12 @@
+import { IsIn, IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { LinkSnippet, MAX_SNIPPET_LENGTH, SNIPPET_LANGUAGES, SnippetLanguage } from '@reduced.to/utils';
+
+export class LinkSnippetDto implements LinkSnippet {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_SNIPPET_LENGTH)
+  content: string;
+
+  @IsIn(SNIPPET_LANGUAGES)
+  language: SnippetLanguage;
+}
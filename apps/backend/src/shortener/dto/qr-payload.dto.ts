@@ -0,0 +1,124 @@
+import { IsBoolean, IsEmail, IsIn, IsLatitude, IsLongitude, IsNotEmpty, IsString, IsUrl, MaxLength, ValidateIf } from 'class-validator';
+import { QR_PAYLOAD_TYPES, QrPayloadType, WIFI_ENCRYPTIONS, WifiEncryption } from '@reduced.to/utils';
+
+// Fields are validated for the payload types using them, optional fields only when they are sent
+const isType =
+  (...types: QrPayloadType[]) =>
+  (dto: QrPayloadDto) =>
+    types.includes(dto.type);
+const isOptionalOf =
+  (field: keyof QrPayloadDto, ...types: QrPayloadType[]) =>
+  (dto: QrPayloadDto) =>
+    types.includes(dto.type) && dto[field] !== undefined && dto[field] !== null && dto[field] !== '';
+
+export class QrPayloadDto {
+  @IsIn(QR_PAYLOAD_TYPES)
+  type: QrPayloadType;
+
+  // vCard
+  @ValidateIf(isType('vcard'))
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  firstName?: string;
+
+  @ValidateIf(isOptionalOf('lastName', 'vcard'))
+  @IsString()
+  @MaxLength(100)
+  lastName?: string;
+
+  @ValidateIf(isOptionalOf('organization', 'vcard'))
+  @IsString()
+  @MaxLength(100)
+  organization?: string;
+
+  @ValidateIf(isOptionalOf('title', 'vcard'))
+  @IsString()
+  @MaxLength(100)
+  title?: string;
+
+  @ValidateIf(isOptionalOf('website', 'vcard'))
+  @IsUrl({ require_protocol: true }, { message: 'Website is invalid' })
+  website?: string;
+
+  @ValidateIf(isOptionalOf('address', 'vcard'))
+  @IsString()
+  @MaxLength(300)
+  address?: string;
+
+  @ValidateIf(isOptionalOf('note', 'vcard'))
+  @IsString()
+  @MaxLength(1000)
+  note?: string;
+
+  // Required for SMS, optional for vCards
+  @ValidateIf((dto: QrPayloadDto) => isType('sms')(dto) || isOptionalOf('phone', 'vcard')(dto))
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(30)
+  phone?: string;
+
+  // Required for emails, optional for vCards
+  @ValidateIf((dto: QrPayloadDto) => isType('email')(dto) || isOptionalOf('email', 'vcard')(dto))
+  @IsEmail({}, { message: 'Email is invalid' })
+  email?: string;
+
+  // Wi-Fi
+  @ValidateIf(isType('wifi'))
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(32)
+  ssid?: string;
+
+  @ValidateIf((dto: QrPayloadDto) => isType('wifi')(dto) && dto.encryption !== 'nopass')
+  @IsString()
+  @IsNotEmpty({ message: 'Password is required for protected networks' })
+  @MaxLength(63)
+  password?: string;
+
+  @ValidateIf(isType('wifi'))
+  @IsIn(WIFI_ENCRYPTIONS)
+  encryption?: WifiEncryption;
+
+  @ValidateIf(isOptionalOf('hidden', 'wifi'))
+  @IsBoolean()
+  hidden?: boolean;
+
+  // SMS
+  @ValidateIf(isOptionalOf('message', 'sms'))
+  @IsString()
+  @MaxLength(1000)
+  message?: string;
+
+  // Email
+  @ValidateIf(isOptionalOf('subject', 'email'))
+  @IsString()
+  @MaxLength(200)
+  subject?: string;
+
+  @ValidateIf(isOptionalOf('body', 'email'))
+  @IsString()
+  @MaxLength(2000)
+  body?: string;
+
+  // Geo
+  @ValidateIf(isType('geo'))
+  @IsLatitude()
+  latitude?: number;
+
+  @ValidateIf(isType('geo'))
+  @IsLongitude()
+  longitude?: number;
+
+  @ValidateIf(isOptionalOf('label', 'geo'))
+  @IsString()
+  @MaxLength(100)
+  label?: string;
+
+  // Plain text
+  @ValidateIf(isType('text'))
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(5000)
+  text?: string;
+}
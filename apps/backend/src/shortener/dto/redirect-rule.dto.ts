@@ -0,0 +1,77 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsISO31661Alpha2,
+  IsOptional,
+  IsString,
+  IsTimeZone,
+  IsUrl,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { RULE_DEVICES, RULE_TIME_REGEX, RedirectRule, RuleDevice, RuleTimeWindow } from '@reduced.to/utils';
+
+export class TimeWindowDto implements RuleTimeWindow {
+  @Matches(RULE_TIME_REGEX, { message: 'Start time must be in HH:mm format' })
+  start: string;
+
+  @Matches(RULE_TIME_REGEX, { message: 'End time must be in HH:mm format' })
+  end: string;
+
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  days?: number[];
+}
+
+export class RedirectRuleDto implements RedirectRule {
+  @IsUrl(
+    { allow_fragments: true, require_protocol: true },
+    {
+      message: 'Rule url is invalid',
+    }
+  )
+  url: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(250)
+  @IsISO31661Alpha2({ each: true })
+  countries?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsIn(RULE_DEVICES, { each: true })
+  devices?: RuleDevice[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MaxLength(50, { each: true })
+  os?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  @MaxLength(20, { each: true })
+  languages?: string[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TimeWindowDto)
+  timeWindow?: TimeWindowDto;
+}
@@ -0,0 +1,15 @@
+import { IsPositive, IsUrl } from 'class-validator';
+
+export class ScheduledChangeDto {
+  @IsUrl(
+    { allow_fragments: true, require_protocol: true },
+    {
+      message: 'Scheduled url is invalid',
+    }
+  )
+  url: string;
+
+  // Timestamp the destination of the link changes to the url
+  @IsPositive()
+  scheduledAt: number;
+}
@@ -0,0 +1,60 @@
+import { Test } from '@nestjs/testing';
+import { plainToInstance } from 'class-transformer';
+import { useContainer, validate } from 'class-validator';
+import { IsNotReservedKeyConstraint } from '../../shared/decorators';
+import { ReservedKeysService } from '../../core/reserved-keys/reserved-keys.service';
+import { ShortenerDto } from './shortener.dto';
+import { BulkShortenerDto } from './bulk-shortener.dto';
+
+describe('ShortenerDto', () => {
+  beforeAll(async () => {
+    const module = await Test.createTestingModule({
+      providers: [
+        IsNotReservedKeyConstraint,
+        {
+          provide: ReservedKeysService,
+          useValue: {
+            isReserved: jest.fn().mockResolvedValue(false),
+          },
+        },
+      ],
+    }).compile();
+
+    // The keys are validated with the reserved keys of the container
+    useContainer(module, { fallbackOnErrors: true });
+  });
+
+  const validateKey = async (key: string) => {
+    const errors = await validate(plainToInstance(ShortenerDto, { url: 'https://reduced.to', key }));
+    return errors.flatMap((error) => Object.values(error.constraints || {}));
+  };
+
+  it('should accept keys of letters, numbers, dashes and underscores', async () => {
+    expect(await validateKey('Summer_sale-2024')).toEqual([]);
+  });
+
+  it('should reject keys containing the separator of cache keys', async () => {
+    expect(await validateKey('domain:x.io:abcd')).toEqual(['The short link can only contain letters, numbers, dashes and underscores']);
+  });
+
+  it('should reject keys containing a path', async () => {
+    expect(await validateKey('api/v1')).toEqual(['The short link can only contain letters, numbers, dashes and underscores']);
+  });
+
+  it('should reject keys ending with the preview suffix', async () => {
+    expect(await validateKey('promo+')).toEqual(['The short link can only contain letters, numbers, dashes and underscores']);
+  });
+
+  describe('BulkShortenerDto', () => {
+    it('should validate every link', async () => {
+      const errors = await validate(
+        plainToInstance(BulkShortenerDto, {
+          links: [{ url: 'https://reduced.to' }, { url: 'not a url' }, { url: 'https://reduced.to', key: 'a/b' }],
+        })
+      );
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0].children.map(({ property }) => property)).toEqual(['1', '2']);
+    });
+  });
+});
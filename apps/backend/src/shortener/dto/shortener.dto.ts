@@ -1,6 +1,36 @@
-import { IsBoolean, IsOptional, IsPositive, IsString, IsUrl, MaxLength, MinLength } from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsDataURI,
+  IsInt,
+  IsOptional,
+  IsPositive,
+  IsString,
+  IsUrl,
+  IsUUID,
+  Matches,
+  MaxLength,
+  Min,
+  MinLength,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { LINK_KEY_REGEX } from '@reduced.to/utils';
+import { RedirectRuleDto } from './redirect-rule.dto';
+import { VariantDto } from './variant.dto';
+import { DeepLinksDto } from './deep-links.dto';
+import { ScheduledChangeDto } from './scheduled-change.dto';
+import { QrPayloadDto } from './qr-payload.dto';
+import { LinkFileDto } from './link-file.dto';
+import { LinkSnippetDto } from './link-snippet.dto';
+import { IsNotReservedKey } from '../../shared/decorators';
 
 export class ShortenerDto {
+  // Payload, file and snippet links have no destination, their url is a summary of their content
+  @ValidateIf((dto: ShortenerDto) => !dto.payload && !dto.file && !dto.snippet)
   @IsUrl(
     { allow_fragments: true, require_protocol: true },
     {
@@ -9,12 +39,38 @@ export class ShortenerDto {
   )
   url: string;
 
+  // Content served by the landing page of the link instead of a redirect, e.g. a contact card or a Wi-Fi network
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => QrPayloadDto)
+  payload?: QrPayloadDto;
+
+  // File uploaded to the storage, visitors are redirected to a signed url of it
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => LinkFileDto)
+  file?: LinkFileDto;
+
+  // Text shown by the page of the link instead of a redirect, highlighted as its language
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => LinkSnippetDto)
+  snippet?: LinkSnippetDto;
+
   @IsOptional()
   @IsString()
   @MaxLength(20)
   @MinLength(4)
+  @Matches(LINK_KEY_REGEX, { message: 'The short link can only contain letters, numbers, dashes and underscores' })
+  @IsNotReservedKey()
   key?: string;
 
+  // Hostname of a verified custom domain, the default domain is used when omitted
+  @IsOptional()
+  @IsString()
+  @MaxLength(253)
+  domain?: string;
+
   @IsString()
   @IsOptional()
   description?: string;
@@ -23,6 +79,25 @@ export class ShortenerDto {
   @IsPositive()
   expirationTime?: number;
 
+  // The link does not resolve before this timestamp
+  @IsOptional()
+  @IsPositive()
+  activeFrom?: number;
+
+  // Future destination changes, the url of the link is replaced once their time has come
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => ScheduledChangeDto)
+  scheduledChanges?: ScheduledChangeDto[];
+
+  // The link expires after this number of redirects, 1 creates a one-time link
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxClicks?: number;
+
   @IsOptional()
   @IsString()
   password?: string;
@@ -58,6 +133,61 @@ export class ShortenerDto {
   @MaxLength(100)
   utm_content?: string;
 
+  // Ordered redirect rules, the first matching rule wins and the url is used as a fallback
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => RedirectRuleDto)
+  rules?: RedirectRuleDto[];
+
+  // Weighted destinations, a variant is picked for every visitor that does not match a rule
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => VariantDto)
+  variants?: VariantDto[];
+
+  // Serve the same variant to returning visitors
+  @IsOptional()
+  @IsBoolean()
+  stickyVariants?: boolean;
+
+  // App destinations per platform, mobile visitors open the app or fall back to its store and the others go to the url
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DeepLinksDto)
+  deepLinks?: DeepLinksDto;
+
+  // Open Graph overrides, served to social crawlers instead of the metadata of the destination
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  ogTitle?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(300)
+  ogDescription?: string;
+
+  // Base64 data URI of the image, it is uploaded to the storage
+  @IsOptional()
+  @IsDataURI()
+  ogImage?: string;
+
+  // Ids of the tags of the link
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsUUID('4', { each: true })
+  tags?: string[];
+
+  @IsOptional()
+  @IsUUID('4')
+  folderId?: string;
+
   @IsBoolean()
   @IsOptional()
   temporary?: boolean;
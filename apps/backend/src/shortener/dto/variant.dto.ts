@@ -0,0 +1,17 @@
+import { IsInt, IsUrl, Max, Min } from 'class-validator';
+import { RedirectVariant } from '@reduced.to/utils';
+
+export class VariantDto implements RedirectVariant {
+  @IsUrl(
+    { allow_fragments: true, require_protocol: true },
+    {
+      message: 'Variant url is invalid',
+    }
+  )
+  url: string;
+
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  weight: number;
+}
@@ -0,0 +1,21 @@
+import { getContentDisposition } from './download';
+
+describe('download', () => {
+  describe('getContentDisposition', () => {
+    it('should show documents and images in the browser', () => {
+      expect(getContentDisposition('deck.pdf', 'application/pdf')).toBe(`inline; filename="deck.pdf"; filename*=UTF-8''deck.pdf`);
+      expect(getContentDisposition('photo.png', 'image/png')).toContain('inline;');
+    });
+
+    it('should download files that may run scripts', () => {
+      expect(getContentDisposition('logo.svg', 'image/svg+xml')).toContain('attachment;');
+      expect(getContentDisposition('notes.txt', 'text/plain; charset=utf-8')).toContain('attachment;');
+    });
+
+    it('should encode names that are not ASCII', () => {
+      expect(getContentDisposition('résumé (1).pdf', 'application/pdf')).toBe(
+        `inline; filename="r_sum_ (1).pdf"; filename*=UTF-8''r%C3%A9sum%C3%A9%20%281%29.pdf`
+      );
+    });
+  });
+});
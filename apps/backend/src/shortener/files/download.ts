@@ -0,0 +1,15 @@
+// Types shown by the browser that cannot run scripts, other files are always downloaded
+const INLINE_CONTENT_TYPES = /^(application\/pdf|image\/(png|jpeg|gif|webp)|audio\/[\w.+-]+|video\/[\w.+-]+)$/;
+
+/**
+ * Returns the Content-Disposition header of a shared file, names that are not ASCII are sent encoded as well.
+ * @param {string} name The name of the file.
+ * @param {string} contentType The content type of the file.
+ */
+export const getContentDisposition = (name: string, contentType: string): string => {
+  const type = INLINE_CONTENT_TYPES.test(contentType.split(';')[0].trim().toLowerCase()) ? 'inline' : 'attachment';
+  const asciiName = name.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '');
+  const encodedName = encodeURIComponent(name).replace(/['()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+  return `${type}; filename="${asciiName}"; filename*=UTF-8''${encodedName}`;
+};
@@ -0,0 +1,44 @@
+import { getSignedFileUrl, isValidFileSignature } from './signed-url';
+
+describe('signed-url', () => {
+  const FILE = { path: 'files/user-id/file-id', name: 'deck.pdf' };
+
+  const getSignature = (url: string) => {
+    const { searchParams } = new URL(url);
+    return { name: searchParams.get('name'), expires: +searchParams.get('expires'), signature: searchParams.get('signature') };
+  };
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should sign the path and the name of the file', () => {
+    const url = getSignedFileUrl('https://api.reduced.to', FILE, 'secret', 300);
+
+    expect(url.startsWith('https://api.reduced.to/api/v1/shortener/files/user-id/file-id?name=deck.pdf&expires=')).toBe(true);
+    expect(isValidFileSignature(FILE.path, getSignature(url), 'secret')).toBe(true);
+  });
+
+  it('should reject urls signed for another file or name', () => {
+    const signature = getSignature(getSignedFileUrl('https://api.reduced.to', FILE, 'secret', 300));
+
+    expect(isValidFileSignature('files/user-id/other-file', signature, 'secret')).toBe(false);
+    expect(isValidFileSignature(FILE.path, { ...signature, name: 'other.pdf' }, 'secret')).toBe(false);
+    expect(isValidFileSignature(FILE.path, signature, 'other-secret')).toBe(false);
+  });
+
+  it('should reject all urls when no secret is configured', () => {
+    const signature = getSignature(getSignedFileUrl('https://api.reduced.to', FILE, 'secret', 300));
+
+    expect(isValidFileSignature(FILE.path, signature, undefined)).toBe(false);
+  });
+
+  it('should reject expired urls', () => {
+    jest.useFakeTimers({ now: new Date('2024-11-11T10:00:00Z') });
+    const signature = getSignature(getSignedFileUrl('https://api.reduced.to', FILE, 'secret', 300));
+
+    jest.setSystemTime(new Date('2024-11-11T10:05:01Z'));
+
+    expect(isValidFileSignature(FILE.path, signature, 'secret')).toBe(false);
+  });
+});
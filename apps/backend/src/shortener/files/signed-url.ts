@@ -0,0 +1,46 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { LinkFile } from '@reduced.to/utils';
+
+// Query parameters of the download urls of shared files
+export interface FileSignature {
+  name: string;
+  expires: number; // Unix time in seconds
+  signature: string;
+}
+
+const sign = (path: string, name: string, expires: number, secret: string) =>
+  createHmac('sha256', secret).update(`${path}\n${name}\n${expires}`).digest('hex');
+
+/**
+ * Returns the url visitors of a file link are redirected to, it is served by the backend and stops working once it expires.
+ * The name of the file is signed as well, since it is used as the name of the download.
+ * @param {string} apiDomain The public domain of the backend.
+ * @param {Pick<LinkFile, 'path' | 'name'>} file The shared file.
+ * @param {string} secret The signing secret.
+ * @param {number} ttlSeconds The number of seconds the url is valid for.
+ */
+export const getSignedFileUrl = (
+  apiDomain: string,
+  { path, name }: Pick<LinkFile, 'path' | 'name'>,
+  secret: string,
+  ttlSeconds: number
+): string => {
+  const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const query = new URLSearchParams({ name, expires: `${expires}`, signature: sign(path, name, expires, secret) });
+
+  return `${apiDomain}/api/v1/shortener/${path}?${query}`;
+};
+
+/**
+ * Checks that the download url of a file was signed by the backend and did not expire yet.
+ */
+export const isValidFileSignature = (path: string, { name, expires, signature }: FileSignature, secret: string): boolean => {
+  if (!secret || !name || !signature || !(expires * 1000 > Date.now())) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(path, name, expires, secret));
+  const received = Buffer.from(signature);
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+};
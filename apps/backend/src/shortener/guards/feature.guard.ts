@@ -3,33 +3,40 @@ import { createParamDecorator, ExecutionContext, UnauthorizedException } from '@
 import { Role } from '@reduced.to/prisma';
 import { FEATURES, PLAN_LEVELS } from '@reduced.to/subscription-manager';
 
-export const GuardFields = createParamDecorator((_, ctx: ExecutionContext) => {
-  const request = ctx.switchToHttp().getRequest();
-  const user = request.user as UserContext;
-  const body = request.body;
-  const planName = user.plan || 'FREE';
-  const plan = PLAN_LEVELS[planName];
-
+/**
+ * Returns the first field of the body that belongs to a feature of the plan of the user that is not enabled.
+ * @param {UserContext} user The user sending the body.
+ * @param {Record<string, unknown>} body The fields sent by the user.
+ * @returns {string | undefined} The field, undefined if all of them are permitted.
+ */
+export const findNotPermittedField = (user: UserContext, body: Record<string, unknown>): string | undefined => {
   // Admins can do whatever the fuck they want
   if (user.role === Role.ADMIN || body.temporary) {
-    return body;
+    return undefined;
   }
 
+  const plan = PLAN_LEVELS[user.plan || 'FREE'];
   const disabledFeatures = Object.keys(plan.FEATURES).filter((feature) => !plan.FEATURES[feature].enabled);
-  for (const field in body) {
-    const isNotPermitted = disabledFeatures.find((df) => {
+
+  return Object.keys(body).find((field) =>
+    disabledFeatures.some((df) => {
       const apiGuard = FEATURES[df].apiGuard;
       if (!apiGuard) {
         return false;
       }
 
       return RegExp(apiGuard).test(field);
-    });
+    })
+  );
+};
+
+export const GuardFields = createParamDecorator((_, ctx: ExecutionContext) => {
+  const request = ctx.switchToHttp().getRequest();
+  const user = request.user as UserContext;
+  const body = request.body;
 
-    console.log(isNotPermitted);
-    if (isNotPermitted) {
-      throw new UnauthorizedException(`This feature is not available for your plan.`);
-    }
+  if (findNotPermittedField(user, body)) {
+    throw new UnauthorizedException(`This feature is not available for your plan.`);
   }
 
   return body;
@@ -0,0 +1,107 @@
+import { Injectable } from '@nestjs/common';
+import { AppConfigService, KeysStrategy } from '@reduced.to/config';
+import { AppLoggerService } from '@reduced.to/logger';
+import { PrismaService } from '@reduced.to/prisma';
+import { CounterKeyStrategy, KeyStrategy, PoolKeyStrategy, RandomKeyStrategy, getKeyLength } from './keys';
+
+// The number of links is only used to pick the key length, so it does not have to be exact
+const LINKS_COUNT_TTL = 60 * 1000;
+
+// Keys get one character longer every time this many collisions happen while looking for a single key
+const COLLISIONS_PER_LENGTH = 3;
+
+export interface KeyGeneratorMetrics {
+  strategy: KeysStrategy;
+  length: number;
+  generated: number;
+  collisions: number;
+  maxCollisions: number;
+  pooled?: number;
+}
+
+@Injectable()
+export class KeyGeneratorService {
+  private readonly strategy: KeyStrategy;
+  private readonly metrics = { generated: 0, collisions: 0, maxCollisions: 0 };
+  private linksCount = { value: 0, updatedAt: 0 };
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly appConfigService: AppConfigService,
+    private readonly logger: AppLoggerService
+  ) {
+    const { strategy, alphabet, poolSize } = this.appConfigService.getConfig().keys;
+    const random = new RandomKeyStrategy(alphabet);
+
+    switch (strategy) {
+      case 'counter':
+        this.strategy = new CounterKeyStrategy(alphabet, this.nextCounterValue);
+        break;
+      case 'pool':
+        this.strategy = new PoolKeyStrategy(random, this.findUsedKeys, poolSize);
+        break;
+      default:
+        this.strategy = random;
+    }
+  }
+
+  /**
+   * Generates a candidate key, the length grows with the number of links and with the collisions that already happened for this key.
+   * @param {number} collisions - The number of keys that were already generated and found to be in use.
+   */
+  generate = async (collisions = 0): Promise<string> => {
+    const length = (await this.getLength()) + Math.floor(collisions / COLLISIONS_PER_LENGTH);
+    return this.strategy.next(length);
+  };
+
+  /**
+   * Records the number of collisions that happened before an available key was found.
+   */
+  recordCollisions = (collisions: number) => {
+    this.metrics.generated++;
+    this.metrics.collisions += collisions;
+    this.metrics.maxCollisions = Math.max(this.metrics.maxCollisions, collisions);
+
+    if (collisions >= COLLISIONS_PER_LENGTH) {
+      this.logger.warn(`Generating a short key took ${collisions} collisions, consider increasing the minimum key length`);
+    }
+  };
+
+  getMetrics = async (): Promise<KeyGeneratorMetrics> => {
+    const length = await this.getLength();
+
+    return {
+      strategy: this.appConfigService.getConfig().keys.strategy,
+      length,
+      ...this.metrics,
+      ...(this.strategy instanceof PoolKeyStrategy && { pooled: this.strategy.available(length) }),
+    };
+  };
+
+  /**
+   * Returns the length of new keys, based on how many of the possible keys are already in use.
+   */
+  getLength = async (): Promise<number> => {
+    const { alphabet, minLength, maxOccupancy } = this.appConfigService.getConfig().keys;
+
+    if (Date.now() - this.linksCount.updatedAt > LINKS_COUNT_TTL) {
+      this.linksCount = { value: await this.prisma.link.count(), updatedAt: Date.now() };
+    }
+
+    return getKeyLength(this.linksCount.value, alphabet.length, minLength, maxOccupancy);
+  };
+
+  private nextCounterValue = async (): Promise<bigint> => {
+    const [{ value }] = await this.prisma.$queryRaw<{ value: bigint }[]>`SELECT nextval('"LinkKeyCounter"') AS value`;
+    return value;
+  };
+
+  private findUsedKeys = async (keys: string[]): Promise<string[]> => {
+    const links = await this.prisma.link.findMany({
+      where: { key: { in: keys } },
+      select: { key: true },
+    });
+
+    return links.map(({ key }) => key);
+  };
+}
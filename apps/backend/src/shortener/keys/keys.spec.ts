@@ -0,0 +1,104 @@
+import { CounterKeyStrategy, PoolKeyStrategy, RandomKeyStrategy, encodeCounter, getKeyLength, randomKey } from './keys';
+
+describe('keys', () => {
+  const BASE62 = '0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+  describe('getKeyLength', () => {
+    it('should return the minimum length while the occupancy is low', () => {
+      expect(getKeyLength(0, 62, 5, 0.01)).toBe(5);
+      expect(getKeyLength(9_000_000, 62, 5, 0.01)).toBe(5);
+    });
+
+    it('should grow the length once the occupancy exceeds the limit', () => {
+      expect(getKeyLength(10_000_000, 62, 5, 0.01)).toBe(6);
+      expect(getKeyLength(1_000_000_000, 62, 5, 0.01)).toBe(7);
+    });
+  });
+
+  describe('randomKey', () => {
+    it('should generate a key of the given length from the alphabet', () => {
+      const key = randomKey('ab', 20);
+
+      expect(key).toHaveLength(20);
+      expect(key).toMatch(/^[ab]+$/);
+    });
+  });
+
+  describe('encodeCounter', () => {
+    it('should map every counter value to a different key', () => {
+      const keys = new Set(Array.from({ length: 1000 }, (_, i) => encodeCounter(BigInt(i), BASE62, 2)));
+      expect(keys.size).toBe(1000);
+    });
+
+    it('should pad the key to the given length', () => {
+      expect(encodeCounter(BigInt(0), BASE62, 5)).toBe('00000');
+      expect(encodeCounter(BigInt(1), BASE62, 5)).toHaveLength(5);
+    });
+
+    it('should not produce guessable keys for consecutive values', () => {
+      expect(encodeCounter(BigInt(1), BASE62, 5)).not.toBe('00001');
+      expect(encodeCounter(BigInt(2), BASE62, 5)).not.toBe('00002');
+    });
+  });
+
+  describe('RandomKeyStrategy', () => {
+    it('should generate keys of the requested length', async () => {
+      await expect(new RandomKeyStrategy(BASE62).next(7)).resolves.toHaveLength(7);
+    });
+  });
+
+  describe('CounterKeyStrategy', () => {
+    it('should encode the next counter value', async () => {
+      const nextValue = jest.fn().mockResolvedValue(BigInt(42));
+      const strategy = new CounterKeyStrategy(BASE62, nextValue);
+
+      await expect(strategy.next(5)).resolves.toBe(encodeCounter(BigInt(42), BASE62, 5));
+      expect(nextValue).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('PoolKeyStrategy', () => {
+    const sequence = (keys: string[]) => {
+      let i = 0;
+      return { next: jest.fn(async () => keys[i++ % keys.length]) };
+    };
+
+    it('should fill the pool with keys that are not in use', async () => {
+      const findUsedKeys = jest.fn().mockResolvedValue(['used']);
+      const strategy = new PoolKeyStrategy(sequence(['used', 'free1', 'free2', 'free3']), findUsedKeys, 4);
+
+      await expect(strategy.next(5)).resolves.toBe('free1');
+      expect(findUsedKeys).toHaveBeenCalledWith(['used', 'free1', 'free2', 'free3']);
+      expect(strategy.available(5)).toBe(2);
+    });
+
+    it('should refill the pool in the background once it is half empty', async () => {
+      const findUsedKeys = jest.fn().mockResolvedValue([]);
+      const strategy = new PoolKeyStrategy(sequence(['a', 'b', 'c', 'd', 'e', 'f']), findUsedKeys, 4);
+
+      await strategy.next(5);
+      await strategy.next(5);
+      expect(findUsedKeys).toHaveBeenCalledTimes(1);
+
+      await strategy.next(5);
+      await strategy.refill(5);
+
+      expect(findUsedKeys).toHaveBeenCalledTimes(2);
+      expect(findUsedKeys).toHaveBeenLastCalledWith(['e', 'f']);
+      expect(strategy.available(5)).toBe(3);
+    });
+
+    it('should fall back to the source when no free key was found', async () => {
+      const strategy = new PoolKeyStrategy(sequence(['used']), jest.fn().mockResolvedValue(['used']), 2);
+      await expect(strategy.next(5)).resolves.toBe('used');
+    });
+
+    it('should keep a separate pool for every length', async () => {
+      const strategy = new PoolKeyStrategy(sequence(['a', 'b']), jest.fn().mockResolvedValue([]), 2);
+
+      await strategy.next(5);
+      expect(strategy.available(5)).toBe(1);
+      expect(strategy.available(6)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { randomInt } from 'crypto';
+
+export interface KeyStrategy {
+  /**
+   * Returns a candidate key of the given length, the caller is responsible for checking that it is not in use.
+   */
+  next(length: number): Promise<string>;
+}
+
+// Multiplier used to scatter sequential counter values over the key space, it must not share a factor with the alphabet size
+const COUNTER_MULTIPLIER = BigInt(1_000_000_007);
+
+/**
+ * Returns the smallest key length (not shorter than minLength) that keeps the ratio of used keys to possible keys under maxOccupancy.
+ */
+export const getKeyLength = (usedKeys: number, alphabetSize: number, minLength: number, maxOccupancy: number): number => {
+  let length = minLength;
+  while (usedKeys / Math.pow(alphabetSize, length) > maxOccupancy) {
+    length++;
+  }
+
+  return length;
+};
+
+/**
+ * Returns a key of the given length made of characters picked with a cryptographically secure random generator.
+ */
+export const randomKey = (alphabet: string, length: number): string => {
+  let key = '';
+  for (let i = 0; i < length; i++) {
+    key += alphabet[randomInt(alphabet.length)];
+  }
+
+  return key;
+};
+
+/**
+ * Encodes a counter value as a key of the given length.
+ * The value is multiplied by a number coprime with the key space, so every value below alphabet^length maps to a different key,
+ * while consecutive values do not produce guessable consecutive keys.
+ */
+export const encodeCounter = (value: bigint, alphabet: string, length: number): string => {
+  const base = BigInt(alphabet.length);
+  let space = BigInt(1);
+  for (let i = 0; i < length; i++) {
+    space *= base;
+  }
+
+  let scattered = (value * COUNTER_MULTIPLIER) % space;
+  let key = '';
+  for (let i = 0; i < length; i++) {
+    key = alphabet[Number(scattered % base)] + key;
+    scattered /= base;
+  }
+
+  return key;
+};
+
+export class RandomKeyStrategy implements KeyStrategy {
+  constructor(private readonly alphabet: string) {}
+
+  async next(length: number): Promise<string> {
+    return randomKey(this.alphabet, length);
+  }
+}
+
+export class CounterKeyStrategy implements KeyStrategy {
+  constructor(private readonly alphabet: string, private readonly nextValue: () => Promise<bigint>) {}
+
+  async next(length: number): Promise<string> {
+    return encodeCounter(await this.nextValue(), this.alphabet, length);
+  }
+}
+
+/**
+ * Keeps pre-generated keys that are known to be free, so creating a link does not have to look for an available key.
+ * The pool is refilled in the background once it is half empty.
+ */
+export class PoolKeyStrategy implements KeyStrategy {
+  private readonly pools = new Map<number, string[]>();
+  private readonly refills = new Map<number, Promise<void>>();
+
+  constructor(
+    private readonly source: KeyStrategy,
+    private readonly findUsedKeys: (keys: string[]) => Promise<string[]>,
+    private readonly size: number
+  ) {}
+
+  async next(length: number): Promise<string> {
+    const pool = this.pools.get(length) || [];
+    if (!pool.length) {
+      await this.refill(length);
+    } else if (pool.length <= this.size / 2) {
+      this.refill(length);
+    }
+
+    // Falls back to the source if the refill could not find free keys
+    return this.pools.get(length)?.shift() ?? this.source.next(length);
+  }
+
+  available(length: number): number {
+    return this.pools.get(length)?.length || 0;
+  }
+
+  refill(length: number): Promise<void> {
+    if (!this.refills.has(length)) {
+      const refill = this.generate(length)
+        .catch(() => undefined)
+        .finally(() => this.refills.delete(length));
+      this.refills.set(length, refill);
+    }
+
+    return this.refills.get(length);
+  }
+
+  private async generate(length: number) {
+    const candidates = new Set<string>();
+    for (let i = this.available(length); i < this.size; i++) {
+      candidates.add(await this.source.next(length));
+    }
+
+    const usedKeys = await this.findUsedKeys([...candidates]);
+
+    // Keys may have been taken from the pool while the candidates were checked
+    const pool = this.pools.get(length) || [];
+    const used = new Set([...pool, ...usedKeys]);
+    this.pools.set(length, [...pool, ...[...candidates].filter((key) => !used.has(key))]);
+  }
+}
@@ -0,0 +1,34 @@
+import { getRedirectContext } from './redirect-context';
+
+describe('getRedirectContext', () => {
+  const DATE = new Date('2024-07-08T12:00:00Z');
+  const IPHONE_UA =
+    'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+  const CHROME_UA = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36';
+
+  it('should resolve the country, device, os and language of the visitor', () => {
+    expect(getRedirectContext({ ip: '8.8.8.8', userAgent: IPHONE_UA }, 'en-US,en;q=0.9', DATE)).toStrictEqual({
+      country: 'US',
+      device: 'Mobile',
+      os: 'iOS',
+      language: 'en-us',
+      date: DATE,
+    });
+  });
+
+  it('should treat non mobile devices as desktop', () => {
+    const context = getRedirectContext({ ip: '8.8.8.8', userAgent: CHROME_UA }, undefined, DATE);
+
+    expect(context.device).toBe('Desktop');
+    expect(context.os).toBe('Windows');
+    expect(context.language).toBeNull();
+  });
+
+  it('should use the first address of the forwarded for chain', () => {
+    expect(getRedirectContext({ ip: '8.8.8.8, 10.0.0.1', userAgent: CHROME_UA }).country).toBe('US');
+  });
+
+  it('should not resolve a country for unknown addresses', () => {
+    expect(getRedirectContext({ ip: '127.0.0.1', userAgent: undefined }).country).toBeNull();
+  });
+});
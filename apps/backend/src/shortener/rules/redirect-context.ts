@@ -0,0 +1,22 @@
+import uap from 'ua-parser-js';
+import geoip from 'geoip-lite';
+import { RedirectContext, capitalize, getPrimaryLanguage } from '@reduced.to/utils';
+import { IClientDetails } from '../../shared/decorators/client-details/client-details.decorator';
+
+/**
+ * Builds the context redirect rules are evaluated against, the country and device are resolved the same way the tracker does.
+ */
+export const getRedirectContext = ({ ip, userAgent }: IClientDetails, acceptLanguage?: string, date = new Date()): RedirectContext => {
+  // x-forwarded-for may contain the whole proxy chain, the first address is the client
+  const clientIp = ip?.split(',')[0].trim();
+  const geoLocation = clientIp ? geoip.lookup(clientIp) : null;
+  const { os, device } = uap(userAgent);
+
+  return {
+    country: geoLocation?.country || null,
+    device: device.type === 'mobile' ? capitalize(device.type) : 'Desktop',
+    os: os.name || null,
+    language: getPrimaryLanguage(acceptLanguage),
+    date,
+  };
+};
@@ -0,0 +1,47 @@
+import { getNextChangeTime, getScheduledUrl, getTtlUntil } from './schedule';
+
+describe('schedule', () => {
+  const NOW = new Date('2024-08-01T12:00:00Z').getTime();
+  const HOUR = 60 * 60 * 1000;
+
+  const CHANGES = [
+    { url: 'https://example.com/sale', scheduledAt: new Date(NOW - HOUR) },
+    { url: 'https://example.com/after-sale', scheduledAt: new Date(NOW + 2 * HOUR) },
+    { url: 'https://example.com/presale', scheduledAt: new Date(NOW - 2 * HOUR) },
+    { url: 'https://example.com/clearance', scheduledAt: new Date(NOW + HOUR) },
+  ];
+
+  describe('getScheduledUrl', () => {
+    it('should return the url of the latest change that is due', () => {
+      expect(getScheduledUrl('https://example.com', CHANGES, NOW)).toBe('https://example.com/sale');
+    });
+
+    it('should return the url when no change is due', () => {
+      expect(getScheduledUrl('https://example.com', CHANGES, NOW - 3 * HOUR)).toBe('https://example.com');
+      expect(getScheduledUrl('https://example.com', [], NOW)).toBe('https://example.com');
+      expect(getScheduledUrl('https://example.com', undefined, NOW)).toBe('https://example.com');
+    });
+  });
+
+  describe('getNextChangeTime', () => {
+    it('should return the time of the next change', () => {
+      expect(getNextChangeTime(CHANGES, NOW)).toBe(NOW + HOUR);
+    });
+
+    it('should return undefined when there are no future changes', () => {
+      expect(getNextChangeTime(CHANGES, NOW + 3 * HOUR)).toBeUndefined();
+      expect(getNextChangeTime(undefined, NOW)).toBeUndefined();
+    });
+  });
+
+  describe('getTtlUntil', () => {
+    it('should return the time until the earliest of the times', () => {
+      expect(getTtlUntil([new Date(NOW + 2 * HOUR), NOW + HOUR], NOW)).toBe(HOUR);
+    });
+
+    it('should ignore times that are not set', () => {
+      expect(getTtlUntil([null, undefined, NOW + HOUR], NOW)).toBe(HOUR);
+      expect(getTtlUntil([null, undefined], NOW)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,32 @@
+export interface ScheduledDestination {
+  url: string;
+  scheduledAt: Date | number;
+}
+
+const toTime = (date: Date | number) => new Date(date).getTime();
+
+/**
+ * Returns the destination of a link at the given time, changes that are due but were not applied yet take precedence over the url.
+ */
+export const getScheduledUrl = (url: string, changes: ScheduledDestination[] = [], now = Date.now()): string => {
+  const dueChanges = changes.filter(({ scheduledAt }) => toTime(scheduledAt) <= now);
+  const latest = dueChanges.sort((a, b) => toTime(b.scheduledAt) - toTime(a.scheduledAt))[0];
+  return latest?.url || url;
+};
+
+/**
+ * Returns the time of the next destination change of a link, undefined if there is none.
+ */
+export const getNextChangeTime = (changes: ScheduledDestination[] = [], now = Date.now()): number | undefined => {
+  const times = changes.map(({ scheduledAt }) => toTime(scheduledAt)).filter((time) => time > now);
+  return times.length ? Math.min(...times) : undefined;
+};
+
+/**
+ * Returns the number of milliseconds until the earliest of the given times, used as the TTL of cached links.
+ * @returns {number|undefined} undefined if none of the times are set
+ */
+export const getTtlUntil = (times: (Date | number | null | undefined)[], now = Date.now()): number | undefined => {
+  const ttls = times.filter((time) => time !== null && time !== undefined).map((time) => toTime(time) - now);
+  return ttls.length ? Math.min(...ttls) : undefined;
+};
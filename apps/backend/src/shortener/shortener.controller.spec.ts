@@ -3,20 +3,30 @@ import { AppCacheModule } from '../cache/cache.module';
 import { ShortenerService } from './shortener.service';
 import { ShortenerController } from './shortener.controller';
 import { Test } from '@nestjs/testing';
+import { ForbiddenException } from '@nestjs/common';
 import { ShortenerDto } from './dto';
-import { Request } from 'express';
+import { Request, Response } from 'express';
+import { Readable } from 'stream';
 import { AppLoggerModule } from '@reduced.to/logger';
 import { ShortenerProducer } from './producer/shortener.producer';
 import { QueueManagerModule, QueueManagerService } from '@reduced.to/queue-manager';
 import { IClientDetails } from '../shared/decorators/client-details/client-details.decorator';
 import { SafeUrlService } from '@reduced.to/safe-url';
 import { UsageService } from '@reduced.to/subscription-manager';
+import { DomainsService } from '../core/domains/domains.service';
+import { KeyGeneratorService } from './keys/key-generator.service';
+import { MetadataService } from '../metadata/metadata.service';
+import { VisitSource } from '@reduced.to/prisma';
+import { getSignedFileUrl } from './files/signed-url';
 
 describe('ShortenerController', () => {
   let shortenerController: ShortenerController;
   let shortenerService: ShortenerService;
   let safeUrlService: SafeUrlService;
   let configService: AppConfigService;
+  let domainsService: DomainsService;
+  let shortenerProducer: ShortenerProducer;
+  let metadataService: MetadataService;
 
   beforeEach(async () => {
     const moduleRef = await Test.createTestingModule({
@@ -31,6 +41,14 @@ describe('ShortenerController', () => {
             getLink: jest.fn(),
             verifyPassword: jest.fn(),
             isKeyAvailable: jest.fn(),
+            hashPassword: jest.fn(),
+            consumeClick: jest.fn().mockResolvedValue(true),
+            getLinkStats: jest.fn().mockResolvedValue(null),
+            getSocialPreview: jest.fn().mockResolvedValue(null),
+            getUploadedFile: jest.fn(),
+            uploadLinkFile: jest.fn(),
+            getFileUrl: jest.fn(),
+            getFileDownload: jest.fn(),
           },
         },
         {
@@ -45,6 +63,25 @@ describe('ShortenerController', () => {
             isEligibleToCreateLink: jest.fn().mockResolvedValue(true),
           },
         },
+        {
+          provide: DomainsService,
+          useValue: {
+            findBy: jest.fn(),
+            findVerifiedByHost: jest.fn().mockResolvedValue(null),
+          },
+        },
+        {
+          provide: KeyGeneratorService,
+          useValue: {
+            getMetrics: jest.fn().mockResolvedValue({ strategy: 'random', length: 5, generated: 1, collisions: 0, maxCollisions: 0 }),
+          },
+        },
+        {
+          provide: MetadataService,
+          useValue: {
+            fetch: jest.fn().mockResolvedValue({ title: 'Reduced.to', description: null, image: 'https://reduced.to/logo.png' }),
+          },
+        },
         QueueManagerService,
         ShortenerProducer,
       ],
@@ -54,6 +91,9 @@ describe('ShortenerController', () => {
     shortenerController = moduleRef.get<ShortenerController>(ShortenerController);
     safeUrlService = moduleRef.get<SafeUrlService>(SafeUrlService);
     configService = moduleRef.get<AppConfigService>(AppConfigService);
+    domainsService = moduleRef.get<DomainsService>(DomainsService);
+    shortenerProducer = moduleRef.get<ShortenerProducer>(ShortenerProducer);
+    metadataService = moduleRef.get<MetadataService>(MetadataService);
   });
 
   it('should be defined', () => {
@@ -147,6 +187,493 @@ describe('ShortenerController', () => {
 
       await expect(shortenerController.shortener(body, req)).rejects.toThrow('This short link already exists');
     });
+
+    it('should check the key availability on the custom domain', async () => {
+      jest.spyOn(domainsService, 'findBy').mockResolvedValue({ id: 'domain-id', name: 'go.example.com' } as any);
+      const spy = jest.spyOn(shortenerService, 'isKeyAvailable').mockResolvedValue(true);
+      jest.spyOn(shortenerService, 'createUsersShortenedUrl').mockResolvedValue({ key: 'best' });
+
+      const body: ShortenerDto = { url: 'https://github.com/origranot/reduced.to', key: 'best', domain: 'Go.Example.com' };
+      const req = { user: { id: 'user-id', verified: true } } as unknown as Request;
+
+      await shortenerController.shortener(body, req);
+      expect(domainsService.findBy).toHaveBeenCalledWith({ name: 'go.example.com', userId: 'user-id', verified: true });
+      expect(spy).toHaveBeenCalledWith('best', 'go.example.com');
+    });
+
+    it('should throw an error if the domain is not verified', async () => {
+      jest.spyOn(domainsService, 'findBy').mockResolvedValue(null);
+
+      const body: ShortenerDto = { url: 'https://github.com/origranot/reduced.to', domain: 'go.example.com' };
+      const req = { user: { id: 'user-id', verified: true } } as unknown as Request;
+
+      await expect(shortenerController.shortener(body, req)).rejects.toThrow('Domain is not verified');
+    });
+
+    it('should create temporary links on the default domain', async () => {
+      const spy = jest.spyOn(shortenerService, 'createShortenedUrl').mockResolvedValue({ key: 'best' });
+
+      const body: ShortenerDto = { url: 'https://github.com/origranot/reduced.to', temporary: true, domain: 'go.example.com' };
+      await shortenerController.shortener(body, {} as Request);
+
+      expect(domainsService.findBy).not.toHaveBeenCalled();
+      expect(spy).toHaveBeenCalledWith({ url: 'https://github.com/origranot/reduced.to', temporary: true });
+    });
+
+    it('should create temporary links without redirect rules', async () => {
+      const spy = jest.spyOn(shortenerService, 'createShortenedUrl').mockResolvedValue({ key: 'best' });
+
+      const body: ShortenerDto = {
+        url: 'https://github.com/origranot/reduced.to',
+        temporary: true,
+        rules: [{ url: 'https://example.com', countries: ['US'] }],
+      };
+      await shortenerController.shortener(body, {} as Request);
+
+      expect(spy).toHaveBeenCalledWith({ url: 'https://github.com/origranot/reduced.to', temporary: true });
+    });
+
+    it('should throw an error when the destination of a redirect rule is not safe', async () => {
+      jest.spyOn(configService, 'getConfig').mockReturnValue({ safeUrl: { enable: true } } as any);
+      jest.spyOn(safeUrlService, 'isSafeUrl').mockImplementation(async (url) => url !== 'http://malicious-site.com');
+
+      const body: ShortenerDto = {
+        url: 'https://github.com/origranot/reduced.to',
+        rules: [{ url: 'http://malicious-site.com', devices: ['Mobile'] }],
+      };
+      const req = { user: { verified: true } } as unknown as Request;
+
+      await expect(shortenerController.shortener(body, req)).rejects.toThrow('This url is not safe to shorten!');
+      expect(safeUrlService.isSafeUrl).toHaveBeenCalledWith('http://malicious-site.com');
+    });
+
+    it('should throw an error when a destination change is scheduled in the past', async () => {
+      const spy = jest.spyOn(shortenerService, 'createUsersShortenedUrl');
+
+      const body: ShortenerDto = {
+        url: 'https://github.com/origranot/reduced.to',
+        scheduledChanges: [{ url: 'https://example.com/sale', scheduledAt: Date.now() - 1000 }],
+      };
+      const req = { user: { verified: true } } as unknown as Request;
+
+      await expect(shortenerController.shortener(body, req)).rejects.toThrow('Scheduled changes must be in the future');
+      expect(spy).not.toHaveBeenCalled();
+    });
+
+    describe('payloads', () => {
+      const PAYLOAD = { type: 'wifi', ssid: 'Venue', password: 'secret', encryption: 'WPA' } as ShortenerDto['payload'];
+
+      it('should create payload links without checking a url', async () => {
+        jest.spyOn(configService, 'getConfig').mockReturnValue({ safeUrl: { enable: true } } as any);
+        jest.spyOn(shortenerService, 'createUsersShortenedUrl').mockResolvedValue({ key: 'wifi' });
+
+        const body = { payload: PAYLOAD } as ShortenerDto;
+        const req = { user: { verified: true } } as unknown as Request;
+
+        expect(await shortenerController.shortener(body, req)).toStrictEqual({ key: 'wifi' });
+        expect(safeUrlService.isSafeUrl).not.toHaveBeenCalled();
+      });
+
+      it('should not allow temporary payload links', async () => {
+        const body = { payload: PAYLOAD, temporary: true } as ShortenerDto;
+
+        await expect(shortenerController.shortener(body, {} as Request)).rejects.toThrow('Temporary links cannot have a payload');
+        expect(shortenerService.createShortenedUrl).not.toHaveBeenCalled();
+      });
+
+      it('should not allow payload links with other destinations', async () => {
+        const body = { payload: PAYLOAD, rules: [{ url: 'https://example.com', devices: ['Mobile'] }] } as ShortenerDto;
+        const req = { user: { verified: true } } as unknown as Request;
+
+        await expect(shortenerController.shortener(body, req)).rejects.toThrow(
+          'Payload links cannot have redirect rules, variants, deep links or scheduled changes'
+        );
+        expect(shortenerService.createUsersShortenedUrl).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('files', () => {
+      const FILE = { path: 'files/user-id/file-id', name: 'deck.pdf' };
+      const STORED_FILE = { ...FILE, size: 2048, contentType: 'application/pdf' };
+
+      it('should create file links with the file read from the storage', async () => {
+        jest.spyOn(configService, 'getConfig').mockReturnValue({ safeUrl: { enable: true }, storage: { enable: true } } as any);
+        jest.spyOn(shortenerService, 'getUploadedFile').mockResolvedValue(STORED_FILE);
+        jest.spyOn(shortenerService, 'createUsersShortenedUrl').mockResolvedValue({ key: 'deck' });
+
+        const body = { file: { ...FILE, size: 1 } } as ShortenerDto;
+        const req = { user: { id: 'user-id', verified: true } } as unknown as Request;
+
+        expect(await shortenerController.shortener(body, req)).toStrictEqual({ key: 'deck' });
+        expect(shortenerService.getUploadedFile).toHaveBeenCalledWith('user-id', { ...FILE, size: 1 });
+        expect(shortenerService.createUsersShortenedUrl).toHaveBeenCalledWith(req.user, expect.objectContaining({ file: STORED_FILE }));
+        expect(safeUrlService.isSafeUrl).not.toHaveBeenCalled();
+      });
+
+      it('should not share files that were not uploaded by the user', async () => {
+        jest.spyOn(shortenerService, 'getUploadedFile').mockResolvedValue(null);
+
+        const body = { file: FILE } as ShortenerDto;
+        const req = { user: { id: 'other-user-id', verified: true } } as unknown as Request;
+
+        await expect(shortenerController.shortener(body, req)).rejects.toThrow('File not found, upload it again');
+        expect(shortenerService.createUsersShortenedUrl).not.toHaveBeenCalled();
+      });
+
+      it('should not allow temporary file links', async () => {
+        const body = { file: FILE, temporary: true } as ShortenerDto;
+
+        await expect(shortenerController.shortener(body, {} as Request)).rejects.toThrow('Temporary links cannot share a file');
+        expect(shortenerService.createShortenedUrl).not.toHaveBeenCalled();
+      });
+
+      it('should not share files in bulk', async () => {
+        const req = { user: { verified: true } } as unknown as Request;
+
+        await expect(shortenerController.bulk({ links: [{ file: FILE } as ShortenerDto] }, req)).rejects.toThrow(
+          'Files cannot be shared in bulk'
+        );
+        expect(shortenerService.createUsersShortenedUrl).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('snippets', () => {
+      const SNIPPET = { content: 'server:\n  port: 3000', language: 'yaml' } as ShortenerDto['snippet'];
+
+      it('should create snippet links without checking a url', async () => {
+        jest.spyOn(configService, 'getConfig').mockReturnValue({ safeUrl: { enable: true } } as any);
+        jest.spyOn(shortenerService, 'createUsersShortenedUrl').mockResolvedValue({ key: 'config' });
+
+        const body = { snippet: SNIPPET } as ShortenerDto;
+        const req = { user: { verified: true } } as unknown as Request;
+
+        expect(await shortenerController.shortener(body, req)).toStrictEqual({ key: 'config' });
+        expect(safeUrlService.isSafeUrl).not.toHaveBeenCalled();
+      });
+
+      it('should not allow temporary snippet links', async () => {
+        const body = { snippet: SNIPPET, temporary: true } as ShortenerDto;
+
+        await expect(shortenerController.shortener(body, {} as Request)).rejects.toThrow('Temporary links cannot share a snippet');
+        expect(shortenerService.createShortenedUrl).not.toHaveBeenCalled();
+      });
+
+      it('should not allow a snippet with another content', async () => {
+        const body = { snippet: SNIPPET, payload: { type: 'text', text: 'Hello' } } as ShortenerDto;
+        const req = { user: { verified: true } } as unknown as Request;
+
+        await expect(shortenerController.shortener(body, req)).rejects.toThrow('Links can only have one of a payload, a file or a snippet');
+        expect(shortenerService.createUsersShortenedUrl).not.toHaveBeenCalled();
+      });
+
+      it('should not check the url of snippet links created in bulk', async () => {
+        jest.spyOn(configService, 'getConfig').mockReturnValue({ safeUrl: { enable: true } } as any);
+        jest.spyOn(safeUrlService, 'isSafeUrl').mockResolvedValue(true);
+        jest.spyOn(shortenerService, 'createUsersShortenedUrl').mockResolvedValue({ key: 'config' });
+
+        const links = [{ snippet: SNIPPET }, { url: 'https://example.com' }] as ShortenerDto[];
+        const req = { user: { verified: true } } as unknown as Request;
+
+        await shortenerController.bulk({ links }, req);
+        expect(safeUrlService.isSafeUrl).toHaveBeenCalledTimes(1);
+        expect(safeUrlService.isSafeUrl).toHaveBeenCalledWith('https://example.com');
+      });
+    });
+  });
+
+  describe('bulk', () => {
+    const req = { user: { id: 'user-id', verified: true, plan: 'PRO' } } as unknown as Request;
+
+    beforeEach(() => {
+      jest.spyOn(shortenerService, 'createUsersShortenedUrl').mockImplementation(async (_, dto) => ({ key: dto.key || 'generated' }));
+      jest.spyOn(shortenerService, 'isKeyAvailable').mockResolvedValue(true);
+    });
+
+    it('should check every destination of the links', async () => {
+      jest.spyOn(configService, 'getConfig').mockReturnValue({ safeUrl: { enable: true } } as any);
+      jest.spyOn(safeUrlService, 'isSafeUrl').mockImplementation(async (url) => url !== 'https://malware.com');
+
+      const links = [
+        { url: 'https://example.com' },
+        { url: 'https://example.com', rules: [{ url: 'https://malware.com', conditions: {} }] },
+      ] as ShortenerDto[];
+
+      await expect(shortenerController.bulk({ links }, req)).rejects.toThrow('This url is not safe to shorten!');
+      expect(safeUrlService.isSafeUrl).toHaveBeenCalledWith('https://malware.com');
+      expect(shortenerService.createUsersShortenedUrl).not.toHaveBeenCalled();
+    });
+
+    it('should check the availability of every key', async () => {
+      jest.spyOn(shortenerService, 'isKeyAvailable').mockImplementation(async (key) => key !== 'taken');
+
+      const links = [
+        { url: 'https://example.com', key: 'free' },
+        { url: 'https://example.com', key: 'taken' },
+      ];
+
+      await expect(shortenerController.bulk({ links }, req)).rejects.toThrow('This short link already exists');
+      expect(shortenerService.createUsersShortenedUrl).not.toHaveBeenCalled();
+    });
+
+    it('should not allow the same key twice', async () => {
+      const links = [
+        { url: 'https://example.com', key: 'twice' },
+        { url: 'https://google.com', key: 'twice' },
+      ];
+
+      await expect(shortenerController.bulk({ links }, req)).rejects.toThrow('This short link already exists');
+      expect(shortenerService.createUsersShortenedUrl).not.toHaveBeenCalled();
+    });
+
+    it('should check the features of the plan for every link', async () => {
+      const freeReq = { user: { id: 'user-id', verified: true, plan: 'FREE' } } as unknown as Request;
+      const links = [{ url: 'https://example.com' }, { url: 'https://google.com', key: 'custom' }];
+
+      await expect(shortenerController.bulk({ links }, freeReq)).rejects.toThrow('This feature is not available for your plan.');
+      expect(shortenerService.createUsersShortenedUrl).not.toHaveBeenCalled();
+    });
+
+    it('should not create temporary links', async () => {
+      const links = [{ url: 'https://example.com', key: 'custom', temporary: true }];
+
+      await expect(shortenerController.bulk({ links }, req)).rejects.toThrow('Temporary links cannot be created in bulk');
+    });
+
+    it('should hash the passwords of the links', async () => {
+      jest.spyOn(shortenerService, 'hashPassword').mockResolvedValue('hash');
+
+      const links = [{ url: 'https://example.com', password: 'secret' }];
+
+      expect(await shortenerController.bulk({ links }, req)).toEqual({ keys: ['generated'] });
+      expect(shortenerService.createUsersShortenedUrl).toHaveBeenCalledWith(req.user, expect.objectContaining({ password: 'hash' }));
+    });
+  });
+
+  describe('upload', () => {
+    const UPLOAD = { originalname: 'deck.pdf', mimetype: 'application/pdf', size: 2 * 1024 * 1024, buffer: Buffer.from('') };
+
+    beforeEach(() => {
+      jest.spyOn(configService, 'getConfig').mockReturnValue({ storage: { enable: true } } as any);
+    });
+
+    it('should upload the files allowed by the plan of the user', async () => {
+      const req = { user: { id: 'user-id', verified: true, plan: 'FREE' } } as unknown as Request;
+
+      await shortenerController.upload(UPLOAD, req);
+
+      expect(shortenerService.uploadLinkFile).toHaveBeenCalledWith('user-id', UPLOAD);
+    });
+
+    it('should reject files larger than the limit of the plan', async () => {
+      const req = { user: { id: 'user-id', verified: true, plan: 'FREE' } } as unknown as Request;
+
+      await expect(shortenerController.upload({ ...UPLOAD, size: 20 * 1024 * 1024 }, req)).rejects.toThrow(
+        'Files cannot be larger than 5 MB on your plan'
+      );
+      expect(shortenerService.uploadLinkFile).not.toHaveBeenCalled();
+    });
+
+    it('should reject the file types of higher plans', async () => {
+      const upload = {
+        ...UPLOAD,
+        originalname: 'deck.pptx',
+        mimetype: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+      };
+
+      await expect(
+        shortenerController.upload(upload, { user: { id: 'user-id', verified: true, plan: 'FREE' } } as unknown as Request)
+      ).rejects.toThrow('This file type is not available for your plan');
+
+      await shortenerController.upload(upload, { user: { id: 'user-id', verified: true, plan: 'PRO' } } as unknown as Request);
+      expect(shortenerService.uploadLinkFile).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('download', () => {
+    const PATH = 'files/user-id/file-id';
+
+    beforeEach(() => {
+      jest.spyOn(configService, 'getConfig').mockReturnValue({ storage: { signingSecret: 'secret' } } as any);
+    });
+
+    it('should stream the file of a signed url', async () => {
+      const { searchParams } = new URL(getSignedFileUrl('https://api.reduced.to', { path: PATH, name: 'deck.pdf' }, 'secret', 300));
+      jest
+        .spyOn(shortenerService, 'getFileDownload')
+        .mockResolvedValue({ stream: Readable.from(['%PDF']), size: 4, contentType: 'application/pdf' });
+      const res = { set: jest.fn() } as unknown as Response;
+
+      const file = await shortenerController.download(
+        'user-id',
+        'file-id',
+        searchParams.get('name'),
+        searchParams.get('expires'),
+        searchParams.get('signature'),
+        res
+      );
+
+      expect(shortenerService.getFileDownload).toHaveBeenCalledWith(PATH);
+      expect(file.getHeaders()).toEqual(expect.objectContaining({ type: 'application/pdf', length: 4 }));
+      expect(res.set).toHaveBeenCalledWith(
+        expect.objectContaining({ 'Content-Disposition': expect.stringContaining('filename="deck.pdf"') })
+      );
+    });
+
+    it('should reject urls that were not signed for the file', async () => {
+      const { searchParams } = new URL(getSignedFileUrl('https://api.reduced.to', { path: PATH, name: 'deck.pdf' }, 'secret', 300));
+
+      await expect(
+        shortenerController.download(
+          'user-id',
+          'other-file-id',
+          searchParams.get('name'),
+          searchParams.get('expires'),
+          searchParams.get('signature'),
+          {} as Response
+        )
+      ).rejects.toThrow(ForbiddenException);
+      expect(shortenerService.getFileDownload).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('keyMetrics', () => {
+    it('should return the key generator metrics', async () => {
+      const metrics = await shortenerController.keyMetrics();
+      expect(metrics).toEqual({ strategy: 'random', length: 5, generated: 1, collisions: 0, maxCollisions: 0 });
+    });
+  });
+
+  describe('preview', () => {
+    it('should return the preview of the link without counting a visit', async () => {
+      jest.spyOn(shortenerService, 'getLink').mockResolvedValue({
+        url: 'https://github.com/origranot/reduced.to',
+        key: 'best',
+        utm: { utm_source: 'reduced' },
+      });
+      jest.spyOn(shortenerService, 'getLinkStats').mockResolvedValue({ createdAt: new Date('2024-01-01'), clicks: 42 });
+      const publish = jest.spyOn(shortenerProducer, 'publish');
+
+      const preview = await shortenerController.preview('best', '', {} as Request);
+
+      expect(preview).toStrictEqual({
+        key: 'best',
+        url: 'https://github.com/origranot/reduced.to?utm_source=reduced',
+        dynamic: false,
+        title: 'Reduced.to',
+        description: null,
+        image: 'https://reduced.to/logo.png',
+        safe: null,
+        createdAt: new Date('2024-01-01'),
+        clicks: 42,
+      });
+      expect(shortenerService.consumeClick).not.toHaveBeenCalled();
+      expect(publish).not.toHaveBeenCalled();
+    });
+
+    it('should include the safe url verdict when the check is enabled', async () => {
+      jest.spyOn(configService, 'getConfig').mockReturnValue({ safeUrl: { enable: true } } as any);
+      jest.spyOn(safeUrlService, 'isSafeUrl').mockResolvedValue(false);
+      jest.spyOn(shortenerService, 'getLink').mockResolvedValue({ url: 'https://example.com', key: 'best' });
+
+      const preview = await shortenerController.preview('best', '', {} as Request);
+
+      expect(safeUrlService.isSafeUrl).toHaveBeenCalledWith('https://example.com');
+      expect(preview.safe).toBe(false);
+      expect(preview.clicks).toBeNull();
+    });
+
+    it('should flag links with rules or variants as dynamic', async () => {
+      jest.spyOn(shortenerService, 'getLink').mockResolvedValue({
+        url: 'https://example.com',
+        key: 'best',
+        rules: [{ url: 'https://example.com/us', countries: ['US'] }],
+      });
+
+      const preview = await shortenerController.preview('best', '', {} as Request);
+      expect(preview.dynamic).toBe(true);
+    });
+
+    it('should not reveal the destination of click-capped links', async () => {
+      jest.spyOn(configService, 'getConfig').mockReturnValue({ safeUrl: { enable: true } } as any);
+      jest.spyOn(shortenerService, 'getLink').mockResolvedValue({ id: 'link-id', url: 'https://example.com', key: 'best', maxClicks: 1 });
+
+      const preview = await shortenerController.preview('best', '', {} as Request);
+
+      expect(preview.url).toBeNull();
+      expect(metadataService.fetch).toHaveBeenCalledWith('');
+      expect(safeUrlService.isSafeUrl).not.toHaveBeenCalled();
+      expect(shortenerService.consumeClick).not.toHaveBeenCalled();
+    });
+
+    it('should not reveal the destination of password protected links', async () => {
+      jest.spyOn(shortenerService, 'getLink').mockResolvedValue({ url: 'https://example.com', key: 'best', password: 'hash' });
+      jest.spyOn(shortenerService, 'verifyPassword').mockResolvedValue(false);
+
+      await expect(shortenerController.preview('best', '', {} as Request)).rejects.toThrow('Incorrect password for this url!');
+    });
+
+    it('should not reveal the destination of quarantined links', async () => {
+      jest.spyOn(shortenerService, 'getLink').mockResolvedValue({ url: 'https://example.com', key: 'best', quarantined: true });
+
+      await expect(shortenerController.preview('best', '', {} as Request)).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should throw an error if the link does not exist', async () => {
+      jest.spyOn(shortenerService, 'getLink').mockResolvedValue(null);
+      await expect(shortenerController.preview('best', '', {} as Request)).rejects.toThrow('Shortened url is wrong or expired');
+    });
+  });
+
+  describe('socialPreview', () => {
+    it('should return the social preview of the link without its destination or counting a visit', async () => {
+      jest.spyOn(shortenerService, 'getLink').mockResolvedValue({
+        url: 'https://github.com/origranot/reduced.to',
+        key: 'best',
+        utm: { utm_source: 'reduced' },
+      });
+      jest.spyOn(shortenerService, 'getSocialPreview').mockResolvedValue({
+        ogTitle: 'Best title',
+        ogDescription: null,
+        ogImage: 'social-previews/image-id',
+      });
+      const publish = jest.spyOn(shortenerProducer, 'publish');
+
+      const preview = await shortenerController.socialPreview('best', {} as Request);
+
+      expect(preview).toStrictEqual({
+        title: 'Best title',
+        description: null,
+        image: 'social-previews/image-id',
+      });
+      expect(shortenerService.consumeClick).not.toHaveBeenCalled();
+      expect(publish).not.toHaveBeenCalled();
+    });
+
+    it('should return an empty preview for temporary links', async () => {
+      jest.spyOn(shortenerService, 'getLink').mockResolvedValue({ url: 'https://example.com', key: 'best' });
+
+      const preview = await shortenerController.socialPreview('best', {} as Request);
+      expect(preview).toStrictEqual({ title: null, description: null, image: null });
+    });
+
+    it('should not reveal the destination of password protected links', async () => {
+      jest.spyOn(shortenerService, 'getLink').mockResolvedValue({ url: 'https://example.com', key: 'best', password: 'hash' });
+
+      await expect(shortenerController.socialPreview('best', {} as Request)).rejects.toThrow('This url is password protected');
+      expect(shortenerService.getSocialPreview).not.toHaveBeenCalled();
+    });
+
+    it('should not reveal the destination of quarantined links', async () => {
+      jest.spyOn(shortenerService, 'getLink').mockResolvedValue({ url: 'https://example.com', key: 'best', quarantined: true });
+
+      await expect(shortenerController.socialPreview('best', {} as Request)).rejects.toThrow(ForbiddenException);
+      expect(shortenerService.getSocialPreview).not.toHaveBeenCalled();
+    });
+
+    it('should throw an error if the link does not exist', async () => {
+      jest.spyOn(shortenerService, 'getLink').mockResolvedValue(null);
+      await expect(shortenerController.socialPreview('best', {} as Request)).rejects.toThrow('Shortened url is wrong or expired');
+    });
   });
 
   describe('findOne', () => {
@@ -162,6 +689,251 @@ describe('ShortenerController', () => {
       expect(link).toStrictEqual({ url: 'https://github.com/origranot/reduced.to', key: 'best' });
     });
 
+    it('should attribute visits from the QR code of the link to scans', async () => {
+      jest.spyOn(shortenerService, 'getLink').mockResolvedValue({ url: 'https://github.com/origranot/reduced.to', key: 'best' });
+      const publish = jest.spyOn(shortenerProducer, 'publish');
+      const clientDetails: IClientDetails = {
+        ip: '1.2.3.4',
+        userAgent: 'test',
+      };
+
+      const link = await shortenerController.findOne(clientDetails, 'best', '', { headers: {} } as Request, '1');
+      await shortenerController.findOne(clientDetails, 'best', '', { headers: {} } as Request);
+
+      expect(link).toStrictEqual({ url: 'https://github.com/origranot/reduced.to', key: 'best' });
+      expect(publish).toHaveBeenNthCalledWith(1, expect.objectContaining({ key: 'best', source: VisitSource.QR }));
+      expect(publish).toHaveBeenNthCalledWith(2, expect.not.objectContaining({ source: expect.anything() }));
+    });
+
+    it('should return the payload of payload links and track the visit', async () => {
+      const payload = { type: 'vcard' as const, firstName: 'Jane', lastName: 'Doe' };
+      jest.spyOn(shortenerService, 'getLink').mockResolvedValue({ url: 'Contact: Jane Doe', key: 'jane', payload });
+      const publish = jest.spyOn(shortenerProducer, 'publish');
+      const clientDetails: IClientDetails = {
+        ip: '1.2.3.4',
+        userAgent: 'test',
+      };
+
+      const link = await shortenerController.findOne(clientDetails, 'jane', '', { headers: {} } as Request, '1');
+
+      expect(link).toStrictEqual({ url: 'Contact: Jane Doe', key: 'jane', payload });
+      expect(publish).toHaveBeenCalledWith(expect.objectContaining({ key: 'jane', url: 'Contact: Jane Doe', source: VisitSource.QR }));
+    });
+
+    it('should return the snippet of snippet links and track the view', async () => {
+      const snippet = { content: '## Release notes', language: 'markdown' as const };
+      jest.spyOn(shortenerService, 'getLink').mockResolvedValue({ url: 'Snippet: Release notes', key: 'notes', snippet });
+      const publish = jest.spyOn(shortenerProducer, 'publish');
+      const clientDetails: IClientDetails = {
+        ip: '1.2.3.4',
+        userAgent: 'test',
+      };
+
+      const link = await shortenerController.findOne(clientDetails, 'notes', '', { headers: {} } as Request);
+
+      expect(link).toStrictEqual({ url: 'Snippet: Release notes', key: 'notes', snippet });
+      expect(publish).toHaveBeenCalledWith(expect.objectContaining({ key: 'notes', url: 'Snippet: Release notes' }));
+    });
+
+    it('should redirect file links to a signed url of the file and track the download', async () => {
+      const file = { path: 'files/user-id/file-id', name: 'deck.pdf', size: 2048, contentType: 'application/pdf' };
+      jest.spyOn(shortenerService, 'getLink').mockResolvedValue({ url: 'File: deck.pdf', key: 'deck', file });
+      jest
+        .spyOn(shortenerService, 'getFileUrl')
+        .mockReturnValue('https://api.reduced.to/api/v1/shortener/files/user-id/file-id?signature=abc');
+      const publish = jest.spyOn(shortenerProducer, 'publish');
+      const clientDetails: IClientDetails = {
+        ip: '1.2.3.4',
+        userAgent: 'test',
+      };
+
+      const link = await shortenerController.findOne(clientDetails, 'deck', '', { headers: {} } as Request);
+
+      expect(link).toStrictEqual({ url: 'https://api.reduced.to/api/v1/shortener/files/user-id/file-id?signature=abc', key: 'deck' });
+      expect(shortenerService.getFileUrl).toHaveBeenCalledWith(file);
+      expect(publish).toHaveBeenCalledWith(expect.objectContaining({ key: 'deck', url: 'File: deck.pdf' }));
+    });
+
+    it('should resolve the link by the custom domain of the request host', async () => {
+      jest.spyOn(domainsService, 'findVerifiedByHost').mockResolvedValue({ id: 'domain-id', name: 'go.example.com' } as any);
+      const spy = jest
+        .spyOn(shortenerService, 'getLink')
+        .mockResolvedValue({ url: 'https://github.com/origranot/reduced.to', key: 'best' });
+      const clientDetails: IClientDetails = {
+        ip: '1.2.3.4',
+        userAgent: 'test',
+      };
+
+      const req = { headers: { 'x-forwarded-host': 'go.example.com' } } as unknown as Request;
+      await shortenerController.findOne(clientDetails, 'best', '', req);
+
+      expect(domainsService.findVerifiedByHost).toHaveBeenCalledWith('go.example.com');
+      expect(spy).toHaveBeenCalledWith('best', 'go.example.com');
+    });
+
+    it('should redirect to the destination of the first matching rule', async () => {
+      jest.spyOn(shortenerService, 'getLink').mockResolvedValue({
+        url: 'https://github.com/origranot/reduced.to',
+        key: 'best',
+        utm: { utm_source: 'reduced' },
+        rules: [
+          { url: 'https://example.com/desktop', devices: ['Desktop'] },
+          { url: 'https://example.com/hebrew', languages: ['he'] },
+          { url: 'https://example.com/mobile', devices: ['Mobile'] },
+        ],
+      });
+      const clientDetails: IClientDetails = {
+        ip: '1.2.3.4',
+        userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148',
+      };
+
+      const req = { headers: { 'accept-language': 'he-IL,he;q=0.9,en;q=0.8' } } as unknown as Request;
+      const link = await shortenerController.findOne(clientDetails, 'best', '', req);
+
+      expect(link).toStrictEqual({ url: 'https://example.com/hebrew?utm_source=reduced', key: 'best' });
+    });
+
+    it('should fall back to the url of the link when no rule matches', async () => {
+      jest.spyOn(shortenerService, 'getLink').mockResolvedValue({
+        url: 'https://github.com/origranot/reduced.to',
+        key: 'best',
+        rules: [{ url: 'https://example.com/us', countries: ['US'] }],
+      });
+      const clientDetails: IClientDetails = {
+        ip: '1.2.3.4',
+        userAgent: 'test',
+      };
+
+      const link = await shortenerController.findOne(clientDetails, 'best', '', {} as Request);
+      expect(link).toStrictEqual({ url: 'https://github.com/origranot/reduced.to', key: 'best' });
+    });
+
+    describe('variants', () => {
+      const VARIANTS = [
+        { url: 'https://example.com/a', weight: 70 },
+        { url: 'https://example.com/b', weight: 30 },
+      ];
+      const clientDetails: IClientDetails = {
+        ip: '1.2.3.4',
+        userAgent: 'test',
+      };
+
+      afterEach(() => {
+        jest.spyOn(Math, 'random').mockRestore();
+      });
+
+      it('should redirect to a variant picked by its weight and publish it', async () => {
+        jest
+          .spyOn(shortenerService, 'getLink')
+          .mockResolvedValue({ url: 'https://github.com/origranot/reduced.to', key: 'best', variants: VARIANTS });
+        jest.spyOn(Math, 'random').mockReturnValue(0.8);
+        const publish = jest.spyOn(shortenerProducer, 'publish');
+
+        const link = await shortenerController.findOne(clientDetails, 'best', '', { headers: {} } as Request);
+
+        expect(link).toStrictEqual({ url: 'https://example.com/b', key: 'best' });
+        expect(publish).toHaveBeenCalledWith(expect.objectContaining({ url: 'https://example.com/b', variant: 'https://example.com/b' }));
+      });
+
+      it('should serve the same variant to a returning visitor of a sticky link', async () => {
+        jest
+          .spyOn(shortenerService, 'getLink')
+          .mockResolvedValue({ url: 'https://github.com/origranot/reduced.to', key: 'best', variants: VARIANTS, stickyVariants: true });
+        const random = jest.spyOn(Math, 'random');
+
+        const urls = new Set();
+        for (let i = 0; i < 5; i++) {
+          urls.add((await shortenerController.findOne(clientDetails, 'best', '', { headers: {} } as Request)).url);
+        }
+
+        expect(urls.size).toBe(1);
+        expect(random).not.toHaveBeenCalled();
+      });
+
+      it('should prefer a matching redirect rule over the variants', async () => {
+        jest.spyOn(shortenerService, 'getLink').mockResolvedValue({
+          url: 'https://github.com/origranot/reduced.to',
+          key: 'best',
+          variants: VARIANTS,
+          rules: [{ url: 'https://example.com/desktop', devices: ['Desktop'] }],
+        });
+        const publish = jest.spyOn(shortenerProducer, 'publish');
+
+        const link = await shortenerController.findOne(clientDetails, 'best', '', { headers: {} } as Request);
+
+        expect(link).toStrictEqual({ url: 'https://example.com/desktop', key: 'best' });
+        expect(publish).toHaveBeenCalledWith(expect.not.objectContaining({ variant: expect.anything() }));
+      });
+    });
+
+    describe('deep links', () => {
+      const DEEP_LINKS = {
+        ios: { appUrl: 'myapp://product/42', storeUrl: 'https://apps.apple.com/app/id123' },
+        android: { appUrl: 'myapp://product/42', storeUrl: 'https://play.google.com/store/apps/details?id=com.example' },
+      };
+      const IPHONE_USER_AGENT =
+        'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148';
+
+      it('should return the app and the store of the platform of the visitor', async () => {
+        jest.spyOn(shortenerService, 'getLink').mockResolvedValue({
+          url: 'https://github.com/origranot/reduced.to',
+          key: 'best',
+          utm: { utm_source: 'reduced' },
+          deepLinks: DEEP_LINKS,
+        });
+        const publish = jest.spyOn(shortenerProducer, 'publish');
+
+        const link = await shortenerController.findOne({ ip: '1.2.3.4', userAgent: IPHONE_USER_AGENT }, 'best', '', {
+          headers: {},
+        } as Request);
+
+        expect(link).toStrictEqual({ url: 'https://apps.apple.com/app/id123', key: 'best', appUrl: 'myapp://product/42' });
+        expect(publish).toHaveBeenCalledWith(expect.objectContaining({ url: 'myapp://product/42' }));
+      });
+
+      it('should redirect desktop visitors to the url of the link', async () => {
+        jest.spyOn(shortenerService, 'getLink').mockResolvedValue({
+          url: 'https://github.com/origranot/reduced.to',
+          key: 'best',
+          deepLinks: DEEP_LINKS,
+        });
+
+        const link = await shortenerController.findOne({ ip: '1.2.3.4', userAgent: 'test' }, 'best', '', { headers: {} } as Request);
+
+        expect(link).toStrictEqual({ url: 'https://github.com/origranot/reduced.to', key: 'best' });
+      });
+
+      it('should prefer a matching redirect rule over the app', async () => {
+        jest.spyOn(shortenerService, 'getLink').mockResolvedValue({
+          url: 'https://github.com/origranot/reduced.to',
+          key: 'best',
+          deepLinks: DEEP_LINKS,
+          rules: [{ url: 'https://example.com/mobile', devices: ['Mobile'] }],
+        });
+
+        const link = await shortenerController.findOne({ ip: '1.2.3.4', userAgent: IPHONE_USER_AGENT }, 'best', '', {
+          headers: {},
+        } as Request);
+
+        expect(link).toStrictEqual({ url: 'https://example.com/mobile', key: 'best' });
+      });
+    });
+
+    it('should return an error if the link reached its click cap', async () => {
+      jest
+        .spyOn(shortenerService, 'getLink')
+        .mockResolvedValue({ id: 'link-id', url: 'https://github.com/origranot/reduced.to', key: 'best', maxClicks: 1 });
+      jest.spyOn(shortenerService, 'consumeClick').mockResolvedValue(false);
+      const clientDetails: IClientDetails = {
+        ip: '1.2.3.4',
+        userAgent: 'test',
+      };
+
+      await expect(shortenerController.findOne(clientDetails, 'best', '', {} as Request)).rejects.toThrow(
+        'Shortened url is wrong or expired'
+      );
+    });
+
     it('should return an error if the short URL is not found in the database', async () => {
       jest.spyOn(shortenerService, 'getLink').mockResolvedValue(null);
       const key = 'not-found';
@@ -207,6 +979,22 @@ describe('ShortenerController', () => {
       await expect(shortenerController.findOne(clientDetails, key, 'wrong-password', {} as Request)).rejects.toThrow(
         'Incorrect password for this url!'
       );
+      expect(shortenerService.consumeClick).not.toHaveBeenCalled();
+    });
+
+    it('should not redirect quarantined links', async () => {
+      jest.spyOn(shortenerService, 'getLink').mockResolvedValue({ url: 'https://example.com', key: 'best', quarantined: true });
+      const publish = jest.spyOn(shortenerProducer, 'publish');
+      const clientDetails: IClientDetails = {
+        ip: '1.2.3.4',
+        userAgent: 'test',
+      };
+
+      await expect(shortenerController.findOne(clientDetails, 'best', '', {} as Request)).rejects.toThrow(
+        'This link was quarantined because its destination was flagged as unsafe'
+      );
+      expect(shortenerService.consumeClick).not.toHaveBeenCalled();
+      expect(publish).not.toHaveBeenCalled();
     });
   });
 });
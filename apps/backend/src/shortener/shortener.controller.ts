@@ -1,7 +1,24 @@
-import { BadRequestException, Body, Controller, Get, Param, Post, Query, Req, UnauthorizedException, UseGuards } from '@nestjs/common';
-import { ShortenerDto } from './dto';
-import { Request } from 'express';
-import { ShortenerService } from './shortener.service';
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  ForbiddenException,
+  Get,
+  Param,
+  Post,
+  Query,
+  Req,
+  Res,
+  StreamableFile,
+  UnauthorizedException,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { BulkShortenerDto, ShortenerDto } from './dto';
+import { Request, Response } from 'express';
+import { ShortenerService, UploadedLinkFile } from './shortener.service';
 import { UserContext } from '../auth/interfaces/user-context';
 import { OptionalJwtAuthGuard } from '../auth/guards/optional-jwt-auth.guard';
 import { AppLoggerService } from '@reduced.to/logger';
@@ -10,14 +27,68 @@ import { ClientDetails, IClientDetails } from '../shared/decorators/client-detai
 import { SafeUrlService } from '@reduced.to/safe-url';
 import { AppConfigService } from '@reduced.to/config';
 import { Link } from '@prisma/client';
-import { addUtmParams } from '@reduced.to/utils';
+import {
+  LinkFile,
+  LinkSnippet,
+  QR_SCAN_PARAM,
+  QrPayload,
+  addUtmParams,
+  findDeepLink,
+  findMatchingRule,
+  formatFileSize,
+  hasDeepLinks,
+  isAllowedContentType,
+  normalizeHostname,
+  pickVariant,
+} from '@reduced.to/utils';
 import { JwtAuthGuard } from '../auth/guards/jwt.guard';
-import { UsageService } from '@reduced.to/subscription-manager';
-import { GuardFields } from './guards/feature.guard';
+import { PLAN_LEVELS, UsageService } from '@reduced.to/subscription-manager';
+import { GuardFields, findNotPermittedField } from './guards/feature.guard';
+import { DomainsService } from '../core/domains/domains.service';
+import { getRedirectContext } from './rules/redirect-context';
+import { getVariantSeed } from './variants/variant-seed';
+import { getDestinationUrls } from './destinations/destinations';
+import { KeyGeneratorMetrics, KeyGeneratorService } from './keys/key-generator.service';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../shared/decorators';
+import { Role, VisitSource } from '@reduced.to/prisma';
+import { MetadataService } from '../metadata/metadata.service';
+import { FILE_LINK_PREFIX } from '../storage/storage.service';
+import { FileSignature, isValidFileSignature } from './files/signed-url';
+import { getContentDisposition } from './files/download';
 
-interface LinkResponse extends Partial<Link> {
+// Quarantined links stop redirecting until an admin reviews them
+const QUARANTINED_MESSAGE = 'This link was quarantined because its destination was flagged as unsafe';
+
+// Largest file any plan can share, the limit of the plan of the user is checked once the file is parsed
+export const MAX_FILE_LINK_SIZE = Math.max(...Object.values(PLAN_LEVELS).map((plan) => plan.FEATURES.FILE_LINKS.value)) * 1024 * 1024;
+
+interface LinkResponse extends Partial<Omit<Link, 'payload' | 'snippet'>> {
   url: string;
   key: string;
+  appUrl?: string; // Opened first by mobile visitors, url is the store page they fall back to
+  payload?: QrPayload; // Delivered by the landing page of payload links, url is a summary of it
+  snippet?: LinkSnippet; // Shown by the page of snippet links, url is a summary of it
+}
+
+interface LinkPreview {
+  key: string;
+  url: string | null; // Null for click-capped links, revealing their destination would bypass the cap
+  dynamic: boolean; // Redirect rules, variants or deep links may send visitors to another destination
+  title: string | null;
+  description: string | null;
+  image: string | null;
+  safe: boolean | null; // Null when the safe url check is disabled
+  createdAt: Date | null; // Null for temporary links
+  clicks: number | null;
+}
+
+// Open Graph overrides of a link, served to social crawlers. The destination is left out, crawlers are not counted as
+// clicks so they could otherwise read the destination of click-capped or scheduled links
+interface SocialPreview {
+  title: string | null;
+  description: string | null;
+  image: string | null; // Storage path of the image
 }
 
 @Controller({
@@ -31,7 +102,10 @@ export class ShortenerController {
     private readonly shortenerService: ShortenerService,
     private readonly shortenerProducer: ShortenerProducer,
     private readonly safeUrlService: SafeUrlService,
-    private readonly usageService: UsageService
+    private readonly usageService: UsageService,
+    private readonly domainsService: DomainsService,
+    private readonly keyGeneratorService: KeyGeneratorService,
+    private readonly metadataService: MetadataService
   ) {}
 
   @UseGuards(JwtAuthGuard)
@@ -40,36 +114,258 @@ export class ShortenerController {
     return this.shortenerService.createRandomShortenedUrl();
   }
 
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.ADMIN)
+  @Get('keys/metrics')
+  async keyMetrics(): Promise<KeyGeneratorMetrics> {
+    return this.keyGeneratorService.getMetrics();
+  }
+
+  @Get('preview/:key')
+  async preview(@Param('key') key: string, @Query('pw') password = '', @Req() req: Request): Promise<LinkPreview> {
+    const domain = await this.domainsService.findVerifiedByHost(req.headers?.['x-forwarded-host'] as string);
+
+    // Previews do not consume a click and are not published as visits
+    const data = await this.shortenerService.getLink(key, domain?.name);
+
+    if (!data) {
+      throw new BadRequestException('Shortened url is wrong or expired');
+    }
+
+    if (data.quarantined) {
+      throw new ForbiddenException(QUARANTINED_MESSAGE);
+    }
+
+    if (data.password && (await this.shortenerService.verifyPassword(data.password, password)) === false) {
+      throw new UnauthorizedException('Incorrect password for this url!');
+    }
+
+    // Payload, file and snippet links have no destination to fetch or check, their url is a summary of their content
+    const hasDestination = !data.payload && !data.file && !data.snippet;
+    const hidden = !!data.maxClicks;
+    const url = hidden ? null : hasDestination ? addUtmParams(data.url, data.utm) : data.url;
+    const [metadata, safe, stats] = await Promise.all([
+      this.metadataService.fetch(hasDestination && !hidden ? url : ''),
+      this.configService.getConfig().safeUrl.enable && hasDestination && !hidden ? this.safeUrlService.isSafeUrl(url) : null,
+      this.shortenerService.getLinkStats(data.key, domain?.name),
+    ]);
+
+    return {
+      key: data.key,
+      url,
+      dynamic: !!(data.rules?.length || data.variants?.length || hasDeepLinks(data.deepLinks)),
+      title: metadata.title || (hasDestination || hidden ? null : data.url),
+      description: metadata.description || null,
+      image: metadata.image,
+      safe,
+      createdAt: stats?.createdAt || null,
+      clicks: stats?.clicks ?? null,
+    };
+  }
+
+  @Get('og/:key')
+  async socialPreview(@Param('key') key: string, @Req() req: Request): Promise<SocialPreview> {
+    const domain = await this.domainsService.findVerifiedByHost(req.headers?.['x-forwarded-host'] as string);
+
+    // Crawlers unfurling a link do not consume a click and are not published as visits
+    const data = await this.shortenerService.getLink(key, domain?.name);
+
+    if (!data) {
+      throw new BadRequestException('Shortened url is wrong or expired');
+    }
+
+    if (data.quarantined) {
+      throw new ForbiddenException(QUARANTINED_MESSAGE);
+    }
+
+    // The destination of protected links is never exposed to crawlers
+    if (data.password) {
+      throw new UnauthorizedException('This url is password protected');
+    }
+
+    const preview = await this.shortenerService.getSocialPreview(data.key, domain?.name);
+
+    return {
+      title: preview?.ogTitle || null,
+      description: preview?.ogDescription || null,
+      image: preview?.ogImage || null,
+    };
+  }
+
+  @Get(`${FILE_LINK_PREFIX}/:userId/:fileId`)
+  async download(
+    @Param('userId') userId: string,
+    @Param('fileId') fileId: string,
+    @Query('name') name: string,
+    @Query('expires') expires: string,
+    @Query('signature') signature: string,
+    @Res({ passthrough: true }) res: Response
+  ): Promise<StreamableFile> {
+    const path = `${FILE_LINK_PREFIX}/${userId}/${fileId}`;
+    const fileSignature: FileSignature = { name, expires: +expires, signature };
+
+    // Download urls are signed on every visit of the link, so they cannot be shared instead of the short link
+    if (!isValidFileSignature(path, fileSignature, this.configService.getConfig().storage.signingSecret)) {
+      throw new ForbiddenException('This download link expired, open the short link again');
+    }
+
+    let download: Awaited<ReturnType<ShortenerService['getFileDownload']>>;
+    try {
+      download = await this.shortenerService.getFileDownload(path);
+    } catch (err) {
+      throw new BadRequestException('This file is no longer available');
+    }
+
+    const contentType = download.contentType || 'application/octet-stream';
+    res.set({
+      'Content-Disposition': getContentDisposition(name, contentType),
+      'Cache-Control': 'private, no-store',
+      'X-Content-Type-Options': 'nosniff',
+    });
+
+    return new StreamableFile(download.stream, { type: contentType, ...(download.size && { length: download.size }) });
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post(FILE_LINK_PREFIX)
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_FILE_LINK_SIZE } }))
+  async upload(@UploadedFile() file: UploadedLinkFile, @Req() req: Request): Promise<LinkFile> {
+    const user = req.user as UserContext;
+
+    if (!user?.verified) {
+      throw new BadRequestException('You must be verified in to create a shortened url');
+    }
+
+    if (!this.configService.getConfig().storage.enable) {
+      throw new BadRequestException('File uploads are not available');
+    }
+
+    if (!file) {
+      throw new BadRequestException('File is required');
+    }
+
+    // The size and the types of the files depend on the plan
+    const { value: maxSize, contentTypes } = PLAN_LEVELS[user.plan || 'FREE'].FEATURES.FILE_LINKS;
+    if (file.size > maxSize * 1024 * 1024) {
+      throw new BadRequestException(`Files cannot be larger than ${formatFileSize(maxSize * 1024 * 1024)} on your plan`);
+    }
+
+    if (!isAllowedContentType(file.mimetype, contentTypes)) {
+      throw new BadRequestException('This file type is not available for your plan');
+    }
+
+    this.logger.log(`User ${user.id} is uploading a file of ${formatFileSize(file.size)}`);
+    return this.shortenerService.uploadLinkFile(user.id, file);
+  }
+
   @Get(':key')
   async findOne(
     @ClientDetails() clientDetails: IClientDetails,
     @Param('key') key: string,
     @Query('pw') password = '', // Add optional password query parameter
-    @Req() req: Request
+    @Req() req: Request,
+    @Query(QR_SCAN_PARAM) qr?: string // Set by the QR code of the link
   ): Promise<LinkResponse> {
-    const data = await this.shortenerService.getLink(key);
+    // Links of custom domains are resolved by the host the redirect was requested from
+    const domain = await this.domainsService.findVerifiedByHost(req.headers?.['x-forwarded-host'] as string);
+    const data = await this.shortenerService.getLink(key, domain?.name);
 
     if (!data) {
       throw new BadRequestException('Shortened url is wrong or expired');
     }
 
+    if (data.quarantined) {
+      throw new ForbiddenException(QUARANTINED_MESSAGE);
+    }
+
     if (data.password && (await this.shortenerService.verifyPassword(data.password, password)) === false) {
       throw new UnauthorizedException('Incorrect password for this url!');
     }
 
+    if (!(await this.shortenerService.consumeClick(data, domain?.name))) {
+      throw new BadRequestException('Shortened url is wrong or expired');
+    }
+
+    // Payload and snippet links are served by a page showing their content, the visit is tracked like a redirect
+    if (data.payload || data.snippet) {
+      try {
+        await this.shortenerProducer.publish({
+          ...clientDetails,
+          referer: req.headers.referer,
+          key: data.key,
+          url: data.url,
+          ...(domain && { domain: domain.name }),
+          ...(qr && { source: VisitSource.QR }),
+        });
+      } catch (err) {
+        this.logger.error(`Error while publishing shortened url: ${err.message}`);
+      }
+
+      return {
+        url: data.url,
+        key: data.key,
+        ...(data.payload && { payload: data.payload }),
+        ...(data.snippet && { snippet: data.snippet }),
+      };
+    }
+
+    // File links redirect to a signed url of the file, every visit is tracked as a download
+    if (data.file) {
+      try {
+        await this.shortenerProducer.publish({
+          ...clientDetails,
+          referer: req.headers.referer,
+          key: data.key,
+          url: data.url,
+          ...(domain && { domain: domain.name }),
+          ...(qr && { source: VisitSource.QR }),
+        });
+      } catch (err) {
+        this.logger.error(`Error while publishing shortened url: ${err.message}`);
+      }
+
+      return {
+        url: this.shortenerService.getFileUrl(data.file),
+        key: data.key,
+      };
+    }
+
+    // The first matching rule decides the destination, then the app of mobile visitors, otherwise a variant is picked by its weight
+    const context =
+      data.rules?.length || hasDeepLinks(data.deepLinks) ? getRedirectContext(clientDetails, req.headers?.['accept-language']) : null;
+    const rule = data.rules?.length ? findMatchingRule(data.rules, context) : null;
+    const deepLink = !rule ? findDeepLink(data.deepLinks, context?.os) : null;
+    const variant =
+      !rule && !deepLink && data.variants?.length
+        ? pickVariant(data.variants, getVariantSeed(data.key, clientDetails.ip, data.stickyVariants))
+        : null;
+    const url = rule?.url || variant?.url || data.url;
+
     try {
       await this.shortenerProducer.publish({
         ...clientDetails,
         referer: req.headers.referer,
         key: data.key,
-        url: data.url,
+        url: deepLink?.appUrl || url,
+        ...(domain && { domain: domain.name }),
+        ...(variant && { variant: variant.url }),
+        ...(qr && { source: VisitSource.QR }),
       });
     } catch (err) {
       this.logger.error(`Error while publishing shortened url: ${err.message}`);
     }
 
+    // The app is opened by an intermediate page, which falls back to the store when the app is not installed
+    if (deepLink) {
+      return {
+        url: deepLink.storeUrl,
+        key: data.key,
+        appUrl: deepLink.appUrl,
+      };
+    }
+
     return {
-      url: addUtmParams(data.url, data.utm),
+      url: addUtmParams(url, data.utm),
       key: data.key,
     };
   }
@@ -79,21 +375,28 @@ export class ShortenerController {
   async shortener(@GuardFields() @Body() shortenerDto: ShortenerDto, @Req() req: Request): Promise<{ key: string }> {
     const user = req.user as UserContext;
 
-    // Check if the url is safe
-    if (this.configService.getConfig().safeUrl.enable) {
-      const isSafeUrl = await this.safeUrlService.isSafeUrl(shortenerDto.url);
-      if (!isSafeUrl) {
-        throw new BadRequestException('This url is not safe to shorten!');
-      }
-    }
+    this.checkLinkContent(shortenerDto);
 
-    if (shortenerDto.key) {
-      const isKeyAvailable = await this.shortenerService.isKeyAvailable(shortenerDto.key);
-      if (!isKeyAvailable) {
-        throw new BadRequestException('This short link already exists');
-      }
+    if (shortenerDto.temporary) {
+      // Temporary links can only be created on the default domain, with a single destination
+      delete shortenerDto.domain;
+      delete shortenerDto.rules;
+      delete shortenerDto.variants;
+      delete shortenerDto.stickyVariants;
+      delete shortenerDto.deepLinks;
+      delete shortenerDto.maxClicks;
+      delete shortenerDto.activeFrom;
+      delete shortenerDto.scheduledChanges;
+      delete shortenerDto.tags;
+      delete shortenerDto.folderId;
+      delete shortenerDto.ogTitle;
+      delete shortenerDto.ogDescription;
+      delete shortenerDto.ogImage;
     }
 
+    await this.checkDestinations(shortenerDto);
+    await this.checkDomainAndKey(user, shortenerDto);
+
     if (shortenerDto.temporary) {
       // Temporary links cannot be password protected
       const { password, ...rest } = shortenerDto;
@@ -105,6 +408,20 @@ export class ShortenerController {
       throw new BadRequestException('You must be verified in to create a shortened url');
     }
 
+    if (shortenerDto.ogImage && !this.configService.getConfig().storage.enable) {
+      throw new BadRequestException('Image uploads are not available');
+    }
+
+    // Only files uploaded by the user can be shared, their size and type are taken from the storage
+    if (shortenerDto.file) {
+      const uploadedFile = await this.shortenerService.getUploadedFile(user.id, shortenerDto.file);
+      if (!uploadedFile) {
+        throw new BadRequestException('File not found, upload it again');
+      }
+
+      shortenerDto.file = uploadedFile;
+    }
+
     // Hash the password if it exists in the request
     if (shortenerDto.password) {
       shortenerDto.password = await this.shortenerService.hashPassword(shortenerDto.password);
@@ -115,33 +432,136 @@ export class ShortenerController {
       throw new BadRequestException('You have reached your link creation limit');
     }
 
-    this.logger.log(`User ${user.id} is creating a shortened url for ${shortenerDto.url}`);
+    const target = shortenerDto.payload
+      ? `a ${shortenerDto.payload.type} payload`
+      : shortenerDto.file
+      ? `the file ${shortenerDto.file.path}`
+      : shortenerDto.snippet
+      ? `a ${shortenerDto.snippet.language} snippet`
+      : shortenerDto.url;
+    this.logger.log(`User ${user.id} is creating a shortened url for ${target}`);
     return this.shortenerService.createUsersShortenedUrl(user, shortenerDto);
   }
 
   @UseGuards(OptionalJwtAuthGuard)
   @Post('bulk')
-  async bulk(@GuardFields() @Body() shortenerDto: ShortenerDto[], @Req() req: Request): Promise<{ keys: string[] }> {
+  async bulk(@Body() { links }: BulkShortenerDto, @Req() req: Request): Promise<{ keys: string[] }> {
     const user = req.user as UserContext;
 
-    // Check if the url is safe
-    if (this.configService.getConfig().safeUrl.enable) {
-      const checks = await Promise.all(shortenerDto.map(({url}) => this.safeUrlService.isSafeUrl(url)));
-      const isSafeUrl = checks.every(Boolean)
-      if (!isSafeUrl) {
-        throw new BadRequestException('This url is not safe to shorten!');
-      }
-    }
-
     // Only verified users can create shortened urls
     if (!user?.verified) {
       throw new BadRequestException('You must be verified in to create a shortened url');
     }
 
-    this.logger.log(`User ${user.id} is creating a bulk-shortened url for ${shortenerDto.length} urls`);
+    // Temporary links skip the plan checks, they can only be created one by one
+    if (links.some(({ temporary }) => temporary)) {
+      throw new BadRequestException('Temporary links cannot be created in bulk');
+    }
+
+    // The files of file links are checked one by one, when the link is created
+    if (links.some(({ file }) => file)) {
+      throw new BadRequestException('Files cannot be shared in bulk');
+    }
+
+    if (links.some((link) => findNotPermittedField(user, { ...link }))) {
+      throw new UnauthorizedException(`This feature is not available for your plan.`);
+    }
+
+    links.forEach((link) => this.checkLinkContent(link));
+    await Promise.all(links.map((link) => this.checkDestinations(link)));
+
+    const keys = new Set<string>();
+    for (const link of links) {
+      await this.checkDomainAndKey(user, link);
+
+      if (link.key) {
+        // The links of the batch are only stored once all of them were checked, so they cannot take the same key
+        const key = `${link.domain || ''}/${link.key}`;
+        if (keys.has(key)) {
+          throw new BadRequestException('This short link already exists');
+        }
+
+        keys.add(key);
+      }
+    }
+
+    for (const link of links) {
+      if (link.password) {
+        link.password = await this.shortenerService.hashPassword(link.password);
+      }
+    }
+
+    this.logger.log(`User ${user.id} is creating a bulk-shortened url for ${links.length} urls`);
+
+    const created = await Promise.all(links.map((link) => this.shortenerService.createUsersShortenedUrl(user, link)));
+
+    return { keys: created.map(({ key }) => key) };
+  }
+
+  /**
+   * Checks that the link has at most one content, payload, file and snippet links have no destination to pick.
+   */
+  private checkLinkContent(shortenerDto: ShortenerDto) {
+    const { payload, file, snippet } = shortenerDto;
+    if ([payload, file, snippet].filter(Boolean).length > 1) {
+      throw new BadRequestException('Links can only have one of a payload, a file or a snippet');
+    }
+
+    if (payload || file || snippet) {
+      if (shortenerDto.temporary) {
+        throw new BadRequestException(
+          file
+            ? 'Temporary links cannot share a file'
+            : snippet
+            ? 'Temporary links cannot share a snippet'
+            : 'Temporary links cannot have a payload'
+        );
+      }
+
+      // The page always shows the payload or the snippet and the file is always downloaded, there is no destination to pick
+      const { rules, variants, deepLinks, scheduledChanges } = shortenerDto;
+      if (rules?.length || variants?.length || hasDeepLinks(deepLinks) || scheduledChanges?.length) {
+        throw new BadRequestException(
+          `${file ? 'File' : snippet ? 'Snippet' : 'Payload'} links cannot have redirect rules, variants, deep links or scheduled changes`
+        );
+      }
+    }
+  }
+
+  /**
+   * Checks that the scheduled changes are in the future, and that the url and the other destinations of the link are safe.
+   */
+  private async checkDestinations(shortenerDto: ShortenerDto) {
+    if (shortenerDto.scheduledChanges?.some(({ scheduledAt }) => scheduledAt < new Date().getTime())) {
+      throw new BadRequestException('Scheduled changes must be in the future');
+    }
 
-    const keys = await Promise.all(shortenerDto.map(dto => this.shortenerService.createUsersShortenedUrl(user, dto)));
+    if (this.configService.getConfig().safeUrl.enable) {
+      const checks = await Promise.all(getDestinationUrls(shortenerDto).map((url) => this.safeUrlService.isSafeUrl(url)));
+      if (!checks.every(Boolean)) {
+        throw new BadRequestException('This url is not safe to shorten!');
+      }
+    }
+  }
 
-    return { keys: keys.map(({ key }) => key) }
+  /**
+   * Checks that the domain of the link is verified by the user and that its key is available on the domain.
+   */
+  private async checkDomainAndKey(user: UserContext | undefined, shortenerDto: ShortenerDto) {
+    if (shortenerDto.domain) {
+      shortenerDto.domain = normalizeHostname(shortenerDto.domain);
+
+      const domain = await this.domainsService.findBy({ name: shortenerDto.domain, userId: user?.id, verified: true });
+      if (!user || !domain) {
+        throw new BadRequestException('Domain is not verified');
+      }
+    }
+
+    if (shortenerDto.key) {
+      const isKeyAvailable = await this.shortenerService.isKeyAvailable(shortenerDto.key, shortenerDto.domain);
+      if (!isKeyAvailable) {
+        throw new BadRequestException('This short link already exists');
+      }
+    }
   }
 }
@@ -6,10 +6,26 @@ import { ShortenerProducer } from './producer/shortener.producer';
 import { QueueManagerModule, QueueManagerService } from '@reduced.to/queue-manager';
 import { SafeUrlModule } from '@reduced.to/safe-url';
 import { UsageModule } from '@reduced.to/subscription-manager';
+import { DomainsModule } from '../core/domains/domains.module';
+import { KeyGeneratorService } from './keys/key-generator.service';
+import { ReservedKeysModule } from '../core/reserved-keys/reserved-keys.module';
+import { MetadataModule } from '../metadata/metadata.module';
+import { StorageModule } from '../storage/storage.module';
+import { StorageService } from '../storage/storage.service';
+
 @Module({
-  imports: [PrismaModule, QueueManagerModule, SafeUrlModule.forRootAsync(), UsageModule],
+  imports: [
+    PrismaModule,
+    QueueManagerModule,
+    SafeUrlModule.forRootAsync(),
+    UsageModule,
+    DomainsModule,
+    ReservedKeysModule,
+    MetadataModule,
+    StorageModule,
+  ],
   controllers: [ShortenerController],
-  providers: [ShortenerService, QueueManagerService, ShortenerProducer],
+  providers: [ShortenerService, KeyGeneratorService, QueueManagerService, ShortenerProducer, StorageService],
   exports: [ShortenerService],
 })
 export class ShortenerModule {}
@@ -4,11 +4,15 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { AppCacheModule } from '../cache/cache.module';
 import { AppCacheService } from '../cache/cache.service';
 import { AppConfigModule } from '@reduced.to/config';
-import { PrismaService } from '@reduced.to/prisma';
+import { LinkType, PrismaService } from '@reduced.to/prisma';
 import { ShortenerDto } from './dto';
 import { BadRequestException } from '@nestjs/common';
 import { UserContext } from '../auth/interfaces/user-context';
 import { UsageService } from '@reduced.to/subscription-manager';
+import { AppLoggerModule } from '@reduced.to/logger';
+import { KeyGeneratorService } from './keys/key-generator.service';
+import { ReservedKeysService } from '../core/reserved-keys/reserved-keys.service';
+import { StorageService } from '../storage/storage.service';
 
 const FIXED_SYSTEM_TIME = '1999-01-01T00:00:00Z';
 
@@ -17,6 +21,8 @@ describe('ShortenerService', () => {
   let config: AppConfigService;
   let cache: AppCacheService;
   let prisma: PrismaService;
+  let storage: StorageService;
+  let module: TestingModule;
 
   let createLinkPrismaSpy: jest.SpyInstance;
   let setRedisKeySpy: jest.SpyInstance;
@@ -40,17 +46,37 @@ describe('ShortenerService', () => {
   });
 
   beforeEach(async () => {
-    const module: TestingModule = await Test.createTestingModule({
-      imports: [AppConfigModule, AppCacheModule],
+    module = await Test.createTestingModule({
+      imports: [AppConfigModule, AppLoggerModule, AppCacheModule],
       providers: [
         ShortenerService,
+        KeyGeneratorService,
+        ReservedKeysService,
         {
           provide: PrismaService,
           useFactory: () => ({
             link: {
               create: jest.fn().mockResolvedValue(LINK_DB_DATA),
               findFirst: jest.fn(),
+              count: jest.fn().mockResolvedValue(0),
             },
+            domain: {
+              findFirst: jest.fn(),
+            },
+            tag: {
+              count: jest.fn(),
+            },
+            folder: {
+              findFirst: jest.fn(),
+            },
+            reservedKey: {
+              findMany: jest.fn().mockResolvedValue([{ value: 'promo', match: 'EXACT' }]),
+            },
+            importJobRow: {
+              update: jest.fn(),
+            },
+            $queryRaw: jest.fn(),
+            $transaction: jest.fn((operations) => Promise.all(operations)),
           }),
         },
         {
@@ -60,6 +86,15 @@ describe('ShortenerService', () => {
             incrementLinksCount: jest.fn(),
           },
         },
+        {
+          provide: StorageService,
+          useValue: {
+            uploadImage: jest.fn(),
+            uploadPrivateFile: jest.fn(),
+            head: jest.fn(),
+            delete: jest.fn(),
+          },
+        },
       ],
     }).compile();
 
@@ -67,6 +102,7 @@ describe('ShortenerService', () => {
     config = module.get<AppConfigService>(AppConfigService);
     service = module.get<ShortenerService>(ShortenerService);
     prisma = module.get<PrismaService>(PrismaService);
+    storage = module.get<StorageService>(StorageService);
 
     createLinkPrismaSpy = jest.spyOn(prisma.link, 'create');
     setRedisKeySpy = jest.spyOn(cache.getCacheManager.store, 'set');
@@ -90,15 +126,35 @@ describe('ShortenerService', () => {
   });
 
   describe('generateKey', () => {
-    it('should generate a key with 5 random characters', () => {
-      const key = service.generateKey();
+    it('should generate a key with 5 random characters', async () => {
+      const key = await service.generateKey();
       expect(key).toHaveLength(5);
     });
 
-    it('should generate a key with only alphanumeric characters', () => {
-      const key = service.generateKey();
+    it('should generate a key with only alphanumeric characters', async () => {
+      const key = await service.generateKey();
       expect(key).toMatch(/^[a-z0-9]+$/i);
     });
+
+    it('should generate longer keys after repeated collisions', async () => {
+      const key = await service.generateKey(3);
+      expect(key).toHaveLength(6);
+    });
+  });
+
+  describe('createRandomShortenedUrl', () => {
+    it('should retry until an available key is found and record the collisions', async () => {
+      const keyGeneratorService = module.get<KeyGeneratorService>(KeyGeneratorService);
+      const recordCollisions = jest.spyOn(keyGeneratorService, 'recordCollisions');
+      jest.spyOn(service, 'isKeyAvailable').mockResolvedValueOnce(false).mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+      const generateKey = jest.spyOn(service, 'generateKey');
+
+      const key = await service.createRandomShortenedUrl();
+
+      expect(key).toHaveLength(5);
+      expect(generateKey).toHaveBeenNthCalledWith(3, 2);
+      expect(recordCollisions).toHaveBeenCalledWith(2);
+    });
   });
 
   describe('addLinkToCache', () => {
@@ -139,20 +195,43 @@ describe('ShortenerService', () => {
       const isAvailable = await service.isKeyAvailable(KEY);
       expect(isAvailable).toBeFalsy();
     });
+
+    it('should return false because the short url collides with a frontend route', async () => {
+      const isAvailable = await service.isKeyAvailable('dashboard');
+      expect(isAvailable).toBeFalsy();
+    });
+
+    it('should return false because the short url was reserved by an admin', async () => {
+      const isAvailable = await service.isKeyAvailable('promo');
+      expect(isAvailable).toBeFalsy();
+    });
+
+    it('should return false because the short url contains a blocked term', async () => {
+      const isAvailable = await service.isKeyAvailable('paypal-verify');
+      expect(isAvailable).toBeFalsy();
+    });
   });
 
   describe('isUrlAlreadyShortened', () => {
     it('should return true because the url is already shortened', async () => {
       const shortenUrl = `${config.getConfig().front.domain}/test123`;
 
-      const result = service.isUrlAlreadyShortened(shortenUrl);
+      const result = await service.isUrlAlreadyShortened(shortenUrl);
       expect(result).toBeTruthy();
     });
 
     it('should return false because the url is not shortened', async () => {
-      const result = service.isUrlAlreadyShortened(ORIGINAL_URL);
+      const result = await service.isUrlAlreadyShortened(ORIGINAL_URL);
       expect(result).toBe(false);
     });
+
+    it('should return true because the url is shortened by a verified custom domain', async () => {
+      jest.spyOn(prisma.domain, 'findFirst').mockResolvedValueOnce({ id: 'domain-id', name: 'go.example.com' } as any);
+
+      const result = await service.isUrlAlreadyShortened('https://Go.Example.com/test123');
+      expect(result).toBe(true);
+      expect(prisma.domain.findFirst).toBeCalledWith({ where: { name: 'go.example.com', verified: true } });
+    });
   });
 
   describe('getLinkFromDb', () => {
@@ -173,6 +252,37 @@ describe('ShortenerService', () => {
       expect(result).toStrictEqual({ url: 'https://github.com/origranot/reduced.to' });
     });
 
+    it('should look up links of a custom domain and cache them under the domain', async () => {
+      prisma.link.findFirst = jest.fn().mockReturnValueOnce({
+        url: ORIGINAL_URL,
+      });
+
+      await service.getLinkFromDb('good_url', 'go.example.com');
+      expect(prisma.link.findFirst).toBeCalledWith({
+        where: { key: 'good_url', domain: { name: 'go.example.com', verified: true } },
+        include: { scheduledChanges: true },
+      });
+      expect(addLinkToCache).toBeCalledWith('domain:go.example.com:good_url', { url: ORIGINAL_URL, key: 'good_url' }, undefined);
+    });
+
+    it('should only look up links of the default domain when no domain is given', async () => {
+      prisma.link.findFirst = jest.fn().mockReturnValueOnce(undefined);
+
+      await service.getLinkFromDb('good_url');
+      expect(prisma.link.findFirst).toBeCalledWith({ where: { key: 'good_url', domainId: null }, include: { scheduledChanges: true } });
+    });
+
+    it('should return null if the link is archived', async () => {
+      prisma.link.findFirst = jest.fn().mockReturnValueOnce({
+        url: ORIGINAL_URL,
+        archivedAt: new Date(),
+      });
+
+      const result = await service.getLinkFromDb('good_url');
+      expect(result).toBeNull();
+      expect(addLinkToCache).not.toBeCalled();
+    });
+
     it('should return null if link not found', async () => {
       prisma.link.findFirst = jest.fn().mockReturnValueOnce(undefined);
       const result = await service.getLinkFromDb('not_found_url');
@@ -207,20 +317,153 @@ describe('ShortenerService', () => {
       );
       expect(result).toMatchObject({ url: ORIGINAL_URL });
     });
+
+    it('should return null if the link reached its click cap', async () => {
+      prisma.link.findFirst = jest.fn().mockReturnValueOnce({ id: 'link-id', url: ORIGINAL_URL, maxClicks: 1, redirects: 1 });
+
+      const result = await service.getLinkFromDb('capped_url');
+      expect(addLinkToCache).toBeCalledTimes(0);
+      expect(result).toBeNull();
+    });
+
+    it('should cache click-capped links with their id', async () => {
+      prisma.link.findFirst = jest.fn().mockReturnValueOnce({ id: 'link-id', url: ORIGINAL_URL, maxClicks: 3, redirects: 1 });
+
+      await service.getLinkFromDb('capped_url');
+      expect(addLinkToCache).toBeCalledWith('capped_url', { id: 'link-id', url: ORIGINAL_URL, key: 'capped_url', maxClicks: 3 }, undefined);
+    });
+
+    it('should return null if the link is not active yet', async () => {
+      prisma.link.findFirst = jest.fn().mockReturnValueOnce({ url: ORIGINAL_URL, activeFrom: new Date(Date.now() + 1000 * 60) });
+
+      const result = await service.getLinkFromDb('scheduled_url');
+      expect(addLinkToCache).toBeCalledTimes(0);
+      expect(result).toBeNull();
+    });
+
+    it('should return the link once it is active', async () => {
+      prisma.link.findFirst = jest.fn().mockReturnValueOnce({ url: ORIGINAL_URL, activeFrom: new Date(Date.now() - 1000 * 60) });
+
+      const result = await service.getLinkFromDb('scheduled_url');
+      expect(result).toMatchObject({ url: ORIGINAL_URL });
+    });
+
+    it('should redirect to the latest due change and cache the link until the next change', async () => {
+      jest.setSystemTime(new Date('2024-08-01T12:00:00Z'));
+      prisma.link.findFirst = jest.fn().mockReturnValueOnce({
+        url: ORIGINAL_URL,
+        expirationTime: new Date('2024-08-02T12:00:00Z'),
+        scheduledChanges: [
+          { url: 'https://example.com/sale', scheduledAt: new Date('2024-08-01T11:59:00Z') },
+          { url: 'https://example.com/after-sale', scheduledAt: new Date('2024-08-01T13:00:00Z') },
+        ],
+      });
+
+      const result = await service.getLinkFromDb('sale_url');
+      expect(addLinkToCache).toBeCalledWith('sale_url', { url: 'https://example.com/sale', key: 'sale_url' }, 60 * 60 * 1000);
+      expect(result).toMatchObject({ url: 'https://example.com/sale' });
+
+      jest.setSystemTime(Date.parse(FIXED_SYSTEM_TIME));
+    });
+  });
+
+  describe('consumeClick', () => {
+    let deleteFromCache: jest.SpyInstance;
+
+    beforeEach(() => {
+      deleteFromCache = jest.spyOn(cache, 'del');
+    });
+
+    it('should not count redirects of links without a click cap', async () => {
+      await expect(service.consumeClick({ url: ORIGINAL_URL, key: KEY })).resolves.toBe(true);
+      expect(prisma.$queryRaw).not.toHaveBeenCalled();
+    });
+
+    it('should count the redirect while the link is under its click cap', async () => {
+      jest.spyOn(prisma, '$queryRaw').mockResolvedValue([{ redirects: 1, maxClicks: 3 }]);
+
+      await expect(service.consumeClick({ id: 'link-id', url: ORIGINAL_URL, key: KEY, maxClicks: 3 })).resolves.toBe(true);
+      expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+      expect(deleteFromCache).not.toHaveBeenCalled();
+    });
+
+    it('should evict the link from the cache on its last redirect', async () => {
+      jest.spyOn(prisma, '$queryRaw').mockResolvedValue([{ redirects: 1, maxClicks: 1 }]);
+
+      await expect(service.consumeClick({ id: 'link-id', url: ORIGINAL_URL, key: KEY, maxClicks: 1 }, 'go.example.com')).resolves.toBe(
+        true
+      );
+      expect(deleteFromCache).toHaveBeenCalledWith(`domain:go.example.com:${KEY}`);
+    });
+
+    it('should reject the redirect once the link reached its click cap', async () => {
+      jest.spyOn(prisma, '$queryRaw').mockResolvedValue([]);
+
+      await expect(service.consumeClick({ id: 'link-id', url: ORIGINAL_URL, key: KEY, maxClicks: 1 })).resolves.toBe(false);
+      expect(deleteFromCache).toHaveBeenCalledWith(KEY);
+    });
   });
 
   describe('createShortenedUrl', () => {
     it('should return a shortened url', async () => {
-      jest.spyOn(service, 'generateKey').mockReturnValue('best');
+      jest.spyOn(service, 'generateKey').mockResolvedValue('best');
       jest.spyOn(service, 'isKeyAvailable').mockResolvedValue(true);
       jest.spyOn(service, 'addLinkToCache').mockResolvedValue(undefined);
-      jest.spyOn(service, 'isUrlAlreadyShortened').mockReturnValue(false);
+      jest.spyOn(service, 'isUrlAlreadyShortened').mockResolvedValue(false);
 
       const body: ShortenerDto = { url: ORIGINAL_URL };
       const short = await service.createShortenedUrl(body);
       expect(short).toStrictEqual({ key: 'best' });
     });
 
+    it('should not cache click-capped links before they are stored in the database', async () => {
+      jest.spyOn(service, 'isUrlAlreadyShortened').mockResolvedValue(false);
+      const addLinkToCache = jest.spyOn(service, 'addLinkToCache');
+
+      const short = await service.createShortenedUrl({ url: ORIGINAL_URL, key: 'once', maxClicks: 1 });
+      expect(short).toStrictEqual({ key: 'once' });
+      expect(addLinkToCache).not.toHaveBeenCalled();
+    });
+
+    it('should not cache links before their activation time', async () => {
+      jest.spyOn(service, 'isUrlAlreadyShortened').mockResolvedValue(false);
+      const addLinkToCache = jest.spyOn(service, 'addLinkToCache');
+
+      const short = await service.createShortenedUrl({ url: ORIGINAL_URL, key: 'launch', activeFrom: Date.now() + 1000 * 60 });
+      expect(short).toStrictEqual({ key: 'launch' });
+      expect(addLinkToCache).not.toHaveBeenCalled();
+    });
+
+    it('should cache links until their next destination change', async () => {
+      jest.setSystemTime(new Date('2024-08-01T12:00:00Z'));
+      jest.spyOn(service, 'isUrlAlreadyShortened').mockResolvedValue(false);
+      const addLinkToCache = jest.spyOn(service, 'addLinkToCache').mockResolvedValue(undefined);
+
+      await service.createShortenedUrl({
+        url: ORIGINAL_URL,
+        key: 'sale',
+        expirationTime: new Date('2024-08-02T12:00:00Z').getTime(),
+        scheduledChanges: [{ url: 'https://example.com/sale', scheduledAt: new Date('2024-08-01T13:00:00Z').getTime() }],
+      });
+      expect(addLinkToCache).toBeCalledWith('sale', expect.objectContaining({ url: ORIGINAL_URL, key: 'sale' }), 60 * 60 * 1000);
+
+      jest.setSystemTime(Date.parse(FIXED_SYSTEM_TIME));
+    });
+
+    it('should cache payload links with a summary of their payload', async () => {
+      const addLinkToCache = jest.spyOn(service, 'addLinkToCache').mockResolvedValue(undefined);
+      const isUrlAlreadyShortened = jest.spyOn(service, 'isUrlAlreadyShortened');
+
+      await service.createShortenedUrl({ payload: { type: 'sms', phone: '+1 555 0100', message: 'Hi' }, key: 'sms' } as ShortenerDto);
+
+      expect(isUrlAlreadyShortened).not.toHaveBeenCalled();
+      expect(addLinkToCache).toBeCalledWith(
+        'sms',
+        expect.objectContaining({ url: 'SMS: +1 555 0100', payload: { type: 'sms', phone: '+1 555 0100', message: 'Hi' } }),
+        undefined
+      );
+    });
+
     it('should throw an error of invalid url', () => {
       const body: ShortenerDto = { url: 'invalid-url' };
       expect(async () => {
@@ -229,7 +472,7 @@ describe('ShortenerService', () => {
     });
 
     it('should throw an error if the original URL is already shortened', async () => {
-      jest.spyOn(service, 'isUrlAlreadyShortened').mockReturnValue(true);
+      jest.spyOn(service, 'isUrlAlreadyShortened').mockResolvedValue(true);
       const body: ShortenerDto = { url: ORIGINAL_URL };
       try {
         await service.createShortenedUrl(body);
@@ -250,7 +493,7 @@ describe('ShortenerService', () => {
     });
 
     it('should return an error if addLinkToCache method throws an error', () => {
-      jest.spyOn(service, 'generateKey').mockReturnValue('best');
+      jest.spyOn(service, 'generateKey').mockResolvedValue('best');
       jest.spyOn(service, 'isKeyAvailable').mockResolvedValue(true);
       jest.spyOn(service, 'addLinkToCache').mockRejectedValue(new Error('Error adding URL to the cache'));
       const body: ShortenerDto = { url: ORIGINAL_URL };
@@ -262,7 +505,7 @@ describe('ShortenerService', () => {
     it('should create a shortened url with a provided key', async () => {
       jest.spyOn(service, 'isKeyAvailable').mockResolvedValue(true);
       jest.spyOn(service, 'addLinkToCache').mockResolvedValue(undefined);
-      jest.spyOn(service, 'isUrlAlreadyShortened').mockReturnValue(false);
+      jest.spyOn(service, 'isUrlAlreadyShortened').mockResolvedValue(false);
 
       const body: ShortenerDto = { url: ORIGINAL_URL, key: 'best' };
       const short = await service.createShortenedUrl(body);
@@ -270,10 +513,10 @@ describe('ShortenerService', () => {
     });
 
     it('should generate a key if no key is provided', async () => {
-      jest.spyOn(service, 'generateKey').mockReturnValue('best');
+      jest.spyOn(service, 'generateKey').mockResolvedValue('best');
       jest.spyOn(service, 'isKeyAvailable').mockResolvedValue(true);
       jest.spyOn(service, 'addLinkToCache').mockResolvedValue(undefined);
-      jest.spyOn(service, 'isUrlAlreadyShortened').mockReturnValue(false);
+      jest.spyOn(service, 'isUrlAlreadyShortened').mockResolvedValue(false);
 
       const body: ShortenerDto = { url: ORIGINAL_URL };
       const short = await service.createShortenedUrl(body);
@@ -334,6 +577,60 @@ describe('ShortenerService', () => {
       expect(result).toEqual(LINK_DB_DATA);
     });
 
+    it('should create payload links with the fields of their type', async () => {
+      const body = { payload: { type: 'text', text: 'Welcome!', ssid: 'ignored' } } as ShortenerDto;
+      const user = { id: USER_ID } as UserContext;
+      const key = 'welcome';
+
+      await service.createDbUrl(user, body, key);
+      expect(createLinkPrismaSpy).toBeCalledWith({
+        data: {
+          key,
+          url: 'Text: Welcome!',
+          type: LinkType.PAYLOAD,
+          payload: { type: 'text', text: 'Welcome!' },
+          userId: user.id,
+        },
+      });
+    });
+
+    it('should create snippet links with a summary of their snippet', async () => {
+      const body = {
+        snippet: { content: '# Release notes\n\n- Faster redirects', language: 'markdown', theme: 'ignored' },
+      } as unknown as ShortenerDto;
+      const user = { id: USER_ID } as UserContext;
+      const key = 'notes';
+
+      await service.createDbUrl(user, body, key);
+      expect(createLinkPrismaSpy).toBeCalledWith({
+        data: {
+          key,
+          url: 'Snippet: Release notes',
+          type: LinkType.SNIPPET,
+          snippet: { content: '# Release notes\n\n- Faster redirects', language: 'markdown' },
+          userId: user.id,
+        },
+      });
+    });
+
+    it('should create file links with their file', async () => {
+      const file = { path: 'files/user-id/file-id', name: 'deck.pdf', size: 2048, contentType: 'application/pdf' };
+      const body = { file } as ShortenerDto;
+      const user = { id: USER_ID } as UserContext;
+      const key = 'deck';
+
+      await service.createDbUrl(user, body, key);
+      expect(createLinkPrismaSpy).toBeCalledWith({
+        data: {
+          key,
+          url: 'File: deck.pdf',
+          type: LinkType.FILE,
+          file,
+          userId: user.id,
+        },
+      });
+    });
+
     it('should create url with correct expiration time', async () => {
       const body = {
         url: ORIGINAL_URL,
@@ -353,25 +650,230 @@ describe('ShortenerService', () => {
       });
       expect(result).toEqual(LINK_DB_DATA);
     });
+
+    it('should create url on a verified custom domain of the user', async () => {
+      jest.spyOn(prisma.domain, 'findFirst').mockResolvedValueOnce({ id: 'domain-id', name: 'go.example.com' } as any);
+      const body = { url: ORIGINAL_URL, domain: 'go.example.com' };
+      const user = { id: USER_ID } as UserContext;
+      const key = 'best_url_shortener';
+
+      await service.createDbUrl(user, body, key);
+      expect(prisma.domain.findFirst).toBeCalledWith({ where: { name: 'go.example.com', userId: USER_ID, verified: true } });
+      expect(createLinkPrismaSpy).toBeCalledWith({
+        data: {
+          key,
+          url: body.url,
+          userId: user.id,
+          domainId: 'domain-id',
+        },
+      });
+    });
+
+    it('should throw an error if the custom domain is not verified', async () => {
+      jest.spyOn(prisma.domain, 'findFirst').mockResolvedValueOnce(null);
+      const body = { url: ORIGINAL_URL, domain: 'go.example.com' };
+      const user = { id: USER_ID } as UserContext;
+
+      await expect(service.createDbUrl(user, body, 'best_url_shortener')).rejects.toThrow('Domain is not verified');
+      expect(createLinkPrismaSpy).not.toBeCalled();
+    });
+
+    it('should create url with the tags and the folder of the user', async () => {
+      jest.spyOn(prisma.tag, 'count').mockResolvedValueOnce(2);
+      jest.spyOn(prisma.folder, 'findFirst').mockResolvedValueOnce({ id: 'folder-id' } as any);
+      const body = { url: ORIGINAL_URL, tags: ['tag-1', 'tag-2'], folderId: 'folder-id' };
+      const user = { id: USER_ID } as UserContext;
+      const key = 'best_url_shortener';
+
+      await service.createDbUrl(user, body, key);
+      expect(prisma.tag.count).toBeCalledWith({ where: { id: { in: body.tags }, userId: USER_ID } });
+      expect(prisma.folder.findFirst).toBeCalledWith({ where: { id: 'folder-id', userId: USER_ID } });
+      expect(createLinkPrismaSpy).toBeCalledWith({
+        data: {
+          key,
+          url: body.url,
+          userId: user.id,
+          tags: { connect: [{ id: 'tag-1' }, { id: 'tag-2' }] },
+          folderId: 'folder-id',
+        },
+      });
+    });
+
+    it('should throw an error if a tag does not belong to the user', async () => {
+      jest.spyOn(prisma.tag, 'count').mockResolvedValueOnce(1);
+      const body = { url: ORIGINAL_URL, tags: ['tag-1', 'tag-2'] };
+      const user = { id: USER_ID } as UserContext;
+
+      await expect(service.createDbUrl(user, body, 'best_url_shortener')).rejects.toThrow('Tag or folder not found');
+      expect(createLinkPrismaSpy).not.toBeCalled();
+    });
+
+    it('should throw an error if the folder does not belong to the user', async () => {
+      jest.spyOn(prisma.folder, 'findFirst').mockResolvedValueOnce(null);
+      const body = { url: ORIGINAL_URL, folderId: 'folder-id' };
+      const user = { id: USER_ID } as UserContext;
+
+      await expect(service.createDbUrl(user, body, 'best_url_shortener')).rejects.toThrow('Tag or folder not found');
+      expect(createLinkPrismaSpy).not.toBeCalled();
+    });
+
+    it('should create url with the social preview and upload its image', async () => {
+      const originalConfig = config.getConfig();
+      jest.spyOn(config, 'getConfig').mockReturnValue({ ...originalConfig, storage: { ...originalConfig.storage, enable: true } });
+      const body = {
+        url: ORIGINAL_URL,
+        ogTitle: 'Best title',
+        ogDescription: 'Best description',
+        ogImage: 'data:image/png;base64,aGVsbG8=',
+      };
+      const user = { id: USER_ID } as UserContext;
+      const key = 'best_url_shortener';
+
+      await service.createDbUrl(user, body, key);
+      expect(storage.uploadImage).toBeCalledWith({
+        name: expect.stringMatching(/^social-previews\//),
+        file: Buffer.from('hello'),
+        contentType: 'image/png',
+      });
+      expect(createLinkPrismaSpy).toBeCalledWith({
+        data: {
+          key,
+          url: body.url,
+          userId: user.id,
+          ogTitle: 'Best title',
+          ogDescription: 'Best description',
+          ogImage: expect.stringMatching(/^social-previews\//),
+        },
+      });
+    });
+
+    it('should throw an error if the social preview image is not an image', async () => {
+      const originalConfig = config.getConfig();
+      jest.spyOn(config, 'getConfig').mockReturnValue({ ...originalConfig, storage: { ...originalConfig.storage, enable: true } });
+      const body = { url: ORIGINAL_URL, ogImage: 'data:text/html;base64,aGVsbG8=' };
+      const user = { id: USER_ID } as UserContext;
+
+      await expect(service.createDbUrl(user, body, 'best_url_shortener')).rejects.toThrow(
+        'The social preview image must be a base64 encoded image'
+      );
+      expect(storage.uploadImage).not.toBeCalled();
+      expect(createLinkPrismaSpy).not.toBeCalled();
+    });
+
+    it('should throw an error if image uploads are disabled', async () => {
+      const originalConfig = config.getConfig();
+      jest.spyOn(config, 'getConfig').mockReturnValue({ ...originalConfig, storage: { ...originalConfig.storage, enable: false } });
+      const body = { url: ORIGINAL_URL, ogImage: 'data:image/png;base64,aGVsbG8=' };
+      const user = { id: USER_ID } as UserContext;
+
+      await expect(service.createDbUrl(user, body, 'best_url_shortener')).rejects.toThrow('Image uploads are not available');
+      expect(storage.uploadImage).not.toBeCalled();
+    });
+
+    it('should delete the uploaded image if the link cannot be stored', async () => {
+      const originalConfig = config.getConfig();
+      jest.spyOn(config, 'getConfig').mockReturnValue({ ...originalConfig, storage: { ...originalConfig.storage, enable: true } });
+      createLinkPrismaSpy.mockRejectedValueOnce(new Error('Unique constraint failed'));
+      const body = { url: ORIGINAL_URL, ogImage: 'data:image/png;base64,aGVsbG8=' };
+      const user = { id: USER_ID } as UserContext;
+
+      await expect(service.createDbUrl(user, body, 'best_url_shortener')).rejects.toThrow('Unique constraint failed');
+      expect(storage.delete).toBeCalledWith(expect.stringMatching(/^social-previews\//));
+    });
+
+    it('should mark the import row of the link as imported in the same transaction', async () => {
+      const user = { id: USER_ID } as UserContext;
+      const importRow = { jobId: 'job-id', index: 3 };
+
+      const result = await service.createDbUrl(user, { url: ORIGINAL_URL }, 'best_url_shortener', undefined, undefined, importRow);
+
+      expect(result).toEqual(LINK_DB_DATA);
+      expect(prisma.$transaction).toBeCalledTimes(1);
+      expect(prisma.importJobRow.update).toBeCalledWith({
+        where: { jobId_index: importRow, imported: false },
+        data: { imported: true },
+      });
+    });
+
+    it('should not create the link of an import row that was already imported', async () => {
+      const usageService = module.get<UsageService>(UsageService);
+      jest.spyOn(prisma, '$transaction').mockRejectedValueOnce(new Error('Record to update not found'));
+      const user = { id: USER_ID } as UserContext;
+
+      await expect(
+        service.createDbUrl(user, { url: ORIGINAL_URL }, 'best_url_shortener', undefined, undefined, { jobId: 'job-id', index: 3 })
+      ).rejects.toThrow('Record to update not found');
+      expect(usageService.incrementLinksCount).not.toBeCalled();
+    });
+  });
+
+  describe('uploadLinkFile', () => {
+    it('should upload the file privately under the user', async () => {
+      const upload = { originalname: 'Q3/deck.pdf', mimetype: 'application/pdf', size: 5, buffer: Buffer.from('%PDF-') };
+
+      const file = await service.uploadLinkFile(USER_ID, upload);
+
+      expect(file).toEqual({
+        path: expect.stringMatching(`^files/${USER_ID}/`),
+        name: 'deck.pdf',
+        size: 5,
+        contentType: 'application/pdf',
+      });
+      expect(storage.uploadPrivateFile).toBeCalledWith({ name: file.path, file: upload.buffer, contentType: 'application/pdf' });
+    });
+  });
+
+  describe('getUploadedFile', () => {
+    it('should read the size and the type of the file from the storage', async () => {
+      jest.spyOn(storage, 'head').mockResolvedValueOnce({ size: 2048, contentType: 'application/pdf' });
+
+      const file = await service.getUploadedFile(USER_ID, { path: `files/${USER_ID}/file-id`, name: 'deck.pdf' });
+
+      expect(file).toEqual({ path: `files/${USER_ID}/file-id`, name: 'deck.pdf', size: 2048, contentType: 'application/pdf' });
+    });
+
+    it('should return null for files of other users', async () => {
+      const file = await service.getUploadedFile(USER_ID, { path: 'files/other-user-id/file-id', name: 'deck.pdf' });
+
+      expect(file).toBeNull();
+      expect(storage.head).not.toBeCalled();
+    });
+
+    it('should return null for files that were not uploaded', async () => {
+      jest.spyOn(storage, 'head').mockResolvedValueOnce(null);
+
+      expect(await service.getUploadedFile(USER_ID, { path: `files/${USER_ID}/file-id`, name: 'deck.pdf' })).toBeNull();
+    });
   });
 
   describe('createUsersShortenedUrl', () => {
     it('should return shortened url', async () => {
-      jest.spyOn(service, 'createShortenedUrl').mockResolvedValue({ key: 'best_url_shortener' });
-
-      const shortenerDto: ShortenerDto = { url: ORIGINAL_URL };
+      const shortenerDto: ShortenerDto = { url: ORIGINAL_URL, key: KEY };
       const user = { id: USER_ID } as UserContext;
       const result = await service.createUsersShortenedUrl(user, shortenerDto);
-      expect(result).toEqual({ key: 'best_url_shortener' });
+
+      expect(result).toEqual({ key: KEY });
+      expect(createLinkPrismaSpy).toBeCalled();
+      expect(setRedisKeySpy).toBeCalledWith(KEY, expect.objectContaining({ url: ORIGINAL_URL, key: KEY }), expect.anything());
     });
 
-    it('should return null key if createShortenedUrl return it', async () => {
-      jest.spyOn(service, 'createShortenedUrl').mockResolvedValue({ key: null });
+    it('should not cache the link if it cannot be stored', async () => {
+      jest.spyOn(prisma.folder, 'findFirst').mockResolvedValueOnce(null);
+      const shortenerDto: ShortenerDto = { url: ORIGINAL_URL, key: KEY, folderId: 'folder-id' };
+      const user = { id: USER_ID } as UserContext;
 
-      const shortenerDto: ShortenerDto = { url: ORIGINAL_URL };
+      await expect(service.createUsersShortenedUrl(user, shortenerDto)).rejects.toThrow('Tag or folder not found');
+      expect(setRedisKeySpy).not.toBeCalled();
+      expect(await service.getLinkFromCache(KEY)).toBeNull();
+    });
+
+    it('should not cache the link if the db insert fails', async () => {
+      createLinkPrismaSpy.mockRejectedValueOnce(new Error('Unique constraint failed'));
+      const shortenerDto: ShortenerDto = { url: ORIGINAL_URL, key: KEY };
       const user = { id: USER_ID } as UserContext;
-      const result = await service.createUsersShortenedUrl(user, shortenerDto);
-      expect(result).toEqual({ key: null });
+
+      await expect(service.createUsersShortenedUrl(user, shortenerDto)).rejects.toThrow('Unique constraint failed');
+      expect(setRedisKeySpy).not.toBeCalled();
     });
   });
 });
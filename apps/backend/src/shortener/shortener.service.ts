@@ -1,13 +1,55 @@
-import { AppCacheService, LinkValue } from '../cache/cache.service';
+import { AppCacheService, LinkValue, getLinkCacheKey } from '../cache/cache.service';
 import { BadRequestException, Injectable } from '@nestjs/common';
 import { AppConfigService } from '@reduced.to/config';
-import { PrismaService } from '@reduced.to/prisma';
+import { LinkType, MigrationSource, Prisma, PrismaService } from '@reduced.to/prisma';
 import { ShortenerDto } from './dto';
 import { UserContext } from '../auth/interfaces/user-context';
 import { Link } from '@reduced.to/prisma';
 import * as argon2 from 'argon2';
-import { createUtmObject } from '@reduced.to/utils';
+import { randomUUID } from 'crypto';
+import {
+  DeepLinks,
+  LinkFile,
+  LinkSnippet,
+  QrPayload,
+  RedirectRule,
+  RedirectVariant,
+  createUtmObject,
+  describeLinkFile,
+  describeLinkSnippet,
+  describeQrPayload,
+  hasDeepLinks,
+  sanitizeFileName,
+  sanitizeLinkSnippet,
+  sanitizeQrPayload,
+} from '@reduced.to/utils';
+import { getDestinationUrls } from './destinations/destinations';
+import { getNextChangeTime, getScheduledUrl, getTtlUntil } from './schedule/schedule';
 import { UsageService } from '@reduced.to/subscription-manager';
+import { KeyGeneratorService } from './keys/key-generator.service';
+import { ReservedKeysService } from '../core/reserved-keys/reserved-keys.service';
+import { FILE_LINK_PREFIX, QR_LOGO_PREFIX, SOCIAL_PREVIEW_PREFIX, StorageService } from '../storage/storage.service';
+import { getSignedFileUrl } from './files/signed-url';
+
+// Link moved from another shortener, with the clicks counted there
+export interface LinkMigration {
+  source: MigrationSource;
+  clicks: number;
+}
+
+// Row of an import the link is created from, identified by its job and its position in the file
+export interface LinkImportRow {
+  jobId: string;
+  index: number;
+}
+
+// Fields of the file parsed by multer, kept in memory until it is uploaded to the storage
+export interface UploadedLinkFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
 
 @Injectable()
 export class ShortenerService {
@@ -15,54 +57,83 @@ export class ShortenerService {
     private readonly appCacheService: AppCacheService,
     private readonly prisma: PrismaService,
     private readonly appConfigService: AppConfigService,
-    private readonly usageService: UsageService
+    private readonly usageService: UsageService,
+    private readonly keyGeneratorService: KeyGeneratorService,
+    private readonly reservedKeysService: ReservedKeysService,
+    private readonly storageService: StorageService
   ) {}
 
   /**
    * Retrieves the original URL associated with a given shortened URL.
    * @param {string} key - The key of the shortened URL.
+   * @param {string} domain - The custom domain of the shortened URL, undefined for the default domain.
    * @returns {Promise<string|null>} - The original URL if found, otherwise null.
    */
-  getLink = async (key: string): Promise<LinkValue | null> => {
-    const value = await this.getLinkFromCache(key);
-    return value ? value : this.getLinkFromDb(key);
+  getLink = async (key: string, domain?: string): Promise<LinkValue | null> => {
+    const value = await this.getLinkFromCache(key, domain);
+    return value ? value : this.getLinkFromDb(key, domain);
   };
 
   /**
    * Retrieves the original URL from the cache based on a given shortened URL.
    * @param {string} key - The key of the shortened URL.
+   * @param {string} domain - The custom domain of the shortened URL, undefined for the default domain.
    * @returns {Promise<string|null>} - The original URL if found in the cache, otherwise null.
    */
-  getLinkFromCache = async (key: string): Promise<LinkValue> => {
-    const value = await this.appCacheService.get(key);
+  getLinkFromCache = async (key: string, domain?: string): Promise<LinkValue> => {
+    const value = await this.appCacheService.get(getLinkCacheKey(key, domain));
     return value ?? null;
   };
 
   /**
-   * Checks if the url has already been shortened by a using a Regular Expression.
+   * Checks if the url has already been shortened, either by the default domain or by one of the verified custom domains.
    * @param {string} url The original url.
-   * @returns {boolean} Returns a boolean
+   * @returns {Promise<boolean>} Returns a boolean
    */
-  isUrlAlreadyShortened = (url: string): boolean => {
+  isUrlAlreadyShortened = async (url: string): Promise<boolean> => {
     const domainRegex = new RegExp(this.appConfigService.getConfig().front.domain);
-    return domainRegex.test(url);
+    if (domainRegex.test(url)) {
+      return true;
+    }
+
+    let hostname: string;
+    try {
+      hostname = new URL(url).hostname.toLowerCase();
+    } catch {
+      return false;
+    }
+
+    const domain = await this.prisma.domain.findFirst({
+      where: {
+        name: hostname,
+        verified: true,
+      },
+    });
+
+    return !!domain;
   };
 
   /**
-   * Generating the short url
-   * @returns {string} Returns a random 4 characters url
+   * Generating the short url using the configured key strategy
+   * @param {number} collisions - The number of generated keys that were already in use, keys get longer as it grows.
+   * @returns {Promise<string>} Returns a candidate key, it may still be in use
    */
-  generateKey = (): string => {
-    return Math.random().toString(36).substring(2, 6);
+  generateKey = (collisions = 0): Promise<string> => {
+    return this.keyGeneratorService.generate(collisions);
   };
 
   /**
-   * Checks if a shortened URL is available (not in use).
+   * Checks if a shortened URL is available (not in use and not reserved).
    * @param {string} shortenedUrl - The shortened URL.
+   * @param {string} domain - The custom domain of the shortened URL, undefined for the default domain.
    * @returns {Promise<boolean>} - True if the shortened URL is available, false otherwise.
    */
-  isKeyAvailable = async (shortenedUrl: string): Promise<boolean> => {
-    const value = await this.getLink(shortenedUrl);
+  isKeyAvailable = async (shortenedUrl: string, domain?: string): Promise<boolean> => {
+    if (await this.reservedKeysService.isReserved(shortenedUrl)) {
+      return false;
+    }
+
+    const value = await this.getLink(shortenedUrl, domain);
     return value === null;
   };
 
@@ -76,26 +147,87 @@ export class ShortenerService {
   };
 
   createShortenedUrl = async (dto: ShortenerDto, utm?: Record<string, string>): Promise<{ key: string }> => {
-    const { url, expirationTime, password, key: providedKey } = dto;
+    const { key, value } = await this.prepareShortenedUrl(dto, utm);
+    await this.cacheShortenedUrl(dto, value);
 
-    let parsedUrl: URL;
+    return { key };
+  };
+
+  /**
+   * Validates the destination of a new link and resolves its key, nothing is cached yet.
+   * @param {ShortenerDto} dto The data of the new link.
+   * @param {Record<string, string>} utm The UTM parameters added to the url of the link.
+   * @returns {Promise<{ key: string; value: LinkValue }>} The key of the link and the value to cache once it is created.
+   */
+  prepareShortenedUrl = async (dto: ShortenerDto, utm?: Record<string, string>): Promise<{ key: string; value: LinkValue }> => {
+    const { url, password, key: providedKey, domain, rules, variants, stickyVariants, deepLinks, payload, file, snippet } = dto;
+
+    // Payload, file and snippet links do not redirect to a url, a summary of their content is kept as their url
+    const linkPayload = payload ? sanitizeQrPayload(payload as QrPayload) : undefined;
+    const linkFile = file ? this.toLinkFile(file as LinkFile) : undefined;
+    const linkSnippet = snippet ? sanitizeLinkSnippet(snippet) : undefined;
+
+    let linkUrl: string;
     try {
-      parsedUrl = new URL(url);
+      linkUrl = linkPayload
+        ? describeQrPayload(linkPayload)
+        : linkFile
+        ? describeLinkFile(linkFile)
+        : linkSnippet
+        ? describeLinkSnippet(linkSnippet)
+        : new URL(url).href;
 
-      // Checks if the URL is already reduced.
-      if (this.isUrlAlreadyShortened(url)) {
-        throw new Error('The URL is already shortened...');
+      // Checks if the URL (or one of the other destinations) is already reduced.
+      for (const destination of getDestinationUrls(dto)) {
+        if (await this.isUrlAlreadyShortened(destination)) {
+          throw new Error('The URL is already shortened...');
+        }
       }
     } catch (err) {
       throw new BadRequestException(err.message || 'URL is invalid');
     }
 
-    const key = providedKey || (await this.createRandomShortenedUrl());
+    const key = providedKey || (await this.createRandomShortenedUrl(domain));
 
-    const ttl = expirationTime ? expirationTime - new Date().getTime() : undefined;
+    return {
+      key,
+      value: {
+        url: linkUrl,
+        key,
+        password,
+        utm,
+        rules,
+        variants,
+        stickyVariants,
+        deepLinks,
+        ...(linkPayload && { payload: linkPayload }),
+        ...(linkFile && { file: linkFile }),
+        ...(linkSnippet && { snippet: linkSnippet }),
+      },
+    };
+  };
 
-    await this.addLinkToCache(key, { url: parsedUrl.href, key, password, utm }, ttl);
-    return { key };
+  /**
+   * Caches a new link so it redirects, users' links are only cached once they are stored in the db.
+   * @param {ShortenerDto} dto The data of the new link.
+   * @param {LinkValue} value The value returned by prepareShortenedUrl.
+   */
+  cacheShortenedUrl = async (dto: ShortenerDto, value: LinkValue) => {
+    const { expirationTime, activeFrom, scheduledChanges, domain, maxClicks } = dto;
+
+    // Click-capped links are cached on their first redirect, once they have an id to count the redirects against
+    if (maxClicks) {
+      return;
+    }
+
+    // Scheduled links are cached on their first redirect after their activation
+    if (activeFrom && activeFrom > new Date().getTime()) {
+      return;
+    }
+
+    // The link is cached until it expires or its destination changes, whichever comes first
+    const ttl = getTtlUntil([expirationTime, getNextChangeTime(scheduledChanges)]);
+    await this.addLinkToCache(getLinkCacheKey(value.key, domain), value, ttl);
   };
 
   hashPassword = async (password: string): Promise<string> => {
@@ -111,88 +243,436 @@ export class ShortenerService {
    * @param {ShortenerDto} shortenerDto The data for creating a db URL.
    * @param {UserContext} user The user context.
    * @param {string} key The key of the shortened URL.
+   * @param {LinkMigration} migration The shortener the link was migrated from, if any.
+   * @param {LinkImportRow} importRow The import row the link is created from, if any.
    * @returns {Promise<any>} Returns the created db URL.
    */
-  createDbUrl = async (user: UserContext, shortenerDto: ShortenerDto, key: string, utm?: Record<string, string>): Promise<Link> => {
-    const { url, description, expirationTime, password } = shortenerDto;
+  createDbUrl = async (
+    user: UserContext,
+    shortenerDto: ShortenerDto,
+    key: string,
+    utm?: Record<string, string>,
+    migration?: LinkMigration,
+    importRow?: LinkImportRow
+  ): Promise<Link> => {
+    const {
+      url,
+      description,
+      expirationTime,
+      activeFrom,
+      scheduledChanges,
+      password,
+      domain,
+      rules,
+      variants,
+      stickyVariants,
+      deepLinks,
+      maxClicks,
+      tags,
+      folderId,
+      ogTitle,
+      ogDescription,
+      ogImage,
+      payload,
+      file,
+      snippet,
+    } = shortenerDto;
+
+    let domainId: string;
+    if (domain) {
+      const customDomain = await this.prisma.domain.findFirst({ where: { name: domain, userId: user.id, verified: true } });
+      if (!customDomain) {
+        throw new BadRequestException('Domain is not verified');
+      }
+      domainId = customDomain.id;
+    }
+
+    if (!(await this.ownsTagsAndFolder(user.id, tags, folderId))) {
+      throw new BadRequestException('Tag or folder not found');
+    }
+
+    if (password && shortenerDto.temporary) {
+      throw new BadRequestException('Temporary links cannot be password protected');
+    }
+
+    const ogImagePath = ogImage ? await this.uploadSocialPreviewImage(ogImage) : undefined;
+    const linkPayload = payload ? sanitizeQrPayload(payload as QrPayload) : undefined;
+    const linkFile = file ? this.toLinkFile(file as LinkFile) : undefined;
+    const linkSnippet = snippet ? sanitizeLinkSnippet(snippet) : undefined;
 
     const data = {
       userId: user.id,
       key,
-      url,
+      domainId,
+      url: linkPayload
+        ? describeQrPayload(linkPayload)
+        : linkFile
+        ? describeLinkFile(linkFile)
+        : linkSnippet
+        ? describeLinkSnippet(linkSnippet)
+        : url,
+      ...(linkPayload && { type: LinkType.PAYLOAD, payload: linkPayload as unknown as Prisma.InputJsonObject }),
+      ...(linkFile && { type: LinkType.FILE, file: linkFile as unknown as Prisma.InputJsonObject }),
+      ...(linkSnippet && { type: LinkType.SNIPPET, snippet: linkSnippet as unknown as Prisma.InputJsonObject }),
       description,
       password,
       ...(expirationTime && { expirationTime: new Date(expirationTime) }),
+      ...(activeFrom && { activeFrom: new Date(activeFrom) }),
+      ...(scheduledChanges?.length && {
+        scheduledChanges: { create: scheduledChanges.map((change) => ({ url: change.url, scheduledAt: new Date(change.scheduledAt) })) },
+      }),
+      ...(maxClicks && { maxClicks }),
       utm,
+      ...(rules?.length && { rules: rules as unknown as Prisma.InputJsonArray }),
+      ...(variants?.length && { variants: variants as unknown as Prisma.InputJsonArray, stickyVariants: !!stickyVariants }),
+      ...(hasDeepLinks(deepLinks) && { deepLinks: deepLinks as unknown as Prisma.InputJsonObject }),
+      ...(tags?.length && { tags: { connect: tags.map((id) => ({ id })) } }),
+      ...(folderId && { folderId }),
+      ...(ogTitle && { ogTitle }),
+      ...(ogDescription && { ogDescription }),
+      ...(ogImagePath && { ogImage: ogImagePath }),
+      ...(migration && {
+        migratedFrom: migration.source,
+        migratedClicks: migration.clicks,
+        clicks: migration.clicks,
+        visits: migration.clicks,
+      }),
     };
 
-    if (password && shortenerDto.temporary) {
-      throw new BadRequestException('Temporary links cannot be password protected');
+    let createdLink: Link;
+    try {
+      if (importRow) {
+        // The update fails if the row was already imported, e.g. by a stalled batch, so the link is never created twice
+        [createdLink] = await this.prisma.$transaction([
+          this.prisma.link.create({ data }),
+          this.prisma.importJobRow.update({
+            where: { jobId_index: importRow, imported: false },
+            data: { imported: true },
+          }),
+        ]);
+      } else {
+        createdLink = await this.prisma.link.create({ data });
+      }
+    } catch (err) {
+      // The uploaded image is not referenced by any link
+      if (ogImagePath) {
+        await this.deleteSocialPreviewImage(ogImagePath);
+      }
+      throw err;
     }
-    const [_, createdLink] = await Promise.all([this.usageService.incrementLinksCount(user.id), this.prisma.link.create({ data })]);
+
+    await this.usageService.incrementLinksCount(user.id);
     return createdLink;
   };
 
+  /**
+   * Uploads the social preview image of a link to the storage, a new path is used for every upload so crawlers do not
+   * keep showing a cached version of the previous image.
+   * @param {string} dataUri The base64 data URI of the image.
+   * @returns {Promise<string>} The storage path of the uploaded image.
+   */
+  uploadSocialPreviewImage = async (dataUri: string): Promise<string> => {
+    return this.uploadDataUriImage(
+      dataUri,
+      SOCIAL_PREVIEW_PREFIX,
+      /^image\/[\w.+-]+$/,
+      'The social preview image must be a base64 encoded image'
+    );
+  };
+
+  /**
+   * Removes a social preview image from the storage.
+   * @param {string} path The storage path of the image.
+   */
+  deleteSocialPreviewImage = async (path: string) => {
+    await this.storageService.delete(path);
+  };
+
+  /**
+   * Uploads the logo shown in the center of the QR code of a link, only PNG and JPEG images can be embedded in PDF codes.
+   * @param {string} dataUri The base64 data URI of the logo.
+   * @returns {Promise<string>} The storage path of the uploaded logo.
+   */
+  uploadQrLogo = async (dataUri: string): Promise<string> => {
+    return this.uploadDataUriImage(dataUri, QR_LOGO_PREFIX, /^image\/(png|jpeg)$/, 'The logo must be a base64 encoded PNG or JPEG image');
+  };
+
+  /**
+   * Downloads the logo of a QR code from the storage.
+   * @param {string} path The storage path of the logo.
+   * @returns {Promise<Buffer | null>} The logo, null if it could not be downloaded so the code is rendered without it.
+   */
+  getQrLogo = async (path: string): Promise<Buffer | null> => {
+    try {
+      const { file } = await this.storageService.get(path);
+      return file;
+    } catch {
+      return null;
+    }
+  };
+
+  /**
+   * Removes the logo of a QR code from the storage.
+   * @param {string} path The storage path of the logo.
+   */
+  deleteQrLogo = async (path: string) => {
+    await this.storageService.delete(path);
+  };
+
+  /**
+   * Uploads a file shared by a file link, it is stored privately and only served through signed urls.
+   * @param {string} userId The id of the owner of the file.
+   * @param {UploadedLinkFile} upload The uploaded file, its size and type are already checked against the plan of the user.
+   * @returns {Promise<LinkFile>} The stored file, sent back when the link is created.
+   */
+  uploadLinkFile = async (userId: string, { originalname, mimetype, size, buffer }: UploadedLinkFile): Promise<LinkFile> => {
+    const path = `${FILE_LINK_PREFIX}/${userId}/${randomUUID()}`;
+    await this.storageService.uploadPrivateFile({ name: path, file: buffer, contentType: mimetype });
+
+    return { path, name: sanitizeFileName(originalname), size, contentType: mimetype };
+  };
+
+  /**
+   * Returns the uploaded file of a new file link, its size and content type are read from the storage.
+   * @param {string} userId The id of the user creating the link.
+   * @param {Pick<LinkFile, 'path' | 'name'>} file The file sent by the user.
+   * @returns {Promise<LinkFile | null>} The file, null if it was not uploaded by the user.
+   */
+  getUploadedFile = async (userId: string, { path, name }: Pick<LinkFile, 'path' | 'name'>): Promise<LinkFile | null> => {
+    if (!path.startsWith(`${FILE_LINK_PREFIX}/${userId}/`)) {
+      return null;
+    }
+
+    const stored = await this.storageService.head(path);
+    if (!stored) {
+      return null;
+    }
+
+    return { path, name: sanitizeFileName(name), size: stored.size, contentType: stored.contentType || 'application/octet-stream' };
+  };
+
+  /**
+   * Returns the url a visitor of a file link is redirected to, it expires after the configured time.
+   * @param {LinkFile} file The file of the link.
+   */
+  getFileUrl = (file: LinkFile): string => {
+    const { front, storage } = this.appConfigService.getConfig();
+    return getSignedFileUrl(front.clientSideApiDomain, file, storage.signingSecret, storage.signedUrlTtlSeconds);
+  };
+
+  /**
+   * Downloads a shared file from the storage, it is streamed to the visitor.
+   * @param {string} path The storage path of the file.
+   */
+  getFileDownload = async (path: string) => {
+    return this.storageService.getStream(path);
+  };
+
+  /**
+   * Removes the file of a file link from the storage.
+   * @param {string} path The storage path of the file.
+   */
+  deleteLinkFile = async (path: string) => {
+    await this.storageService.delete(path);
+  };
+
+  // Only the fields of the file are stored, in case the dto carries others
+  private toLinkFile = ({ path, name, size, contentType }: LinkFile): LinkFile => ({ path, name, size, contentType });
+
+  private uploadDataUriImage = async (dataUri: string, prefix: string, contentTypes: RegExp, invalidMessage: string): Promise<string> => {
+    if (!this.appConfigService.getConfig().storage.enable) {
+      throw new BadRequestException('Image uploads are not available');
+    }
+
+    const [, contentType, base64Data] = dataUri.match(/^data:(image\/[\w.+-]+);base64,([A-Za-z0-9+/=]+)$/) || [];
+    if (!contentType || !contentTypes.test(contentType)) {
+      throw new BadRequestException(invalidMessage);
+    }
+
+    const name = `${prefix}/${randomUUID()}`;
+    await this.storageService.uploadImage({ name, file: Buffer.from(base64Data, 'base64'), contentType });
+
+    return name;
+  };
+
+  /**
+   * Checks that the tags and the folder of a link belong to the user.
+   * @param {string} userId The id of the user.
+   * @param {string[]} tags The ids of the tags of the link.
+   * @param {string} folderId The id of the folder of the link.
+   * @returns {Promise<boolean>} True if all of them belong to the user, or none are given.
+   */
+  ownsTagsAndFolder = async (userId: string, tags?: string[], folderId?: string | null): Promise<boolean> => {
+    const [tagsCount, folder] = await Promise.all([
+      tags?.length ? this.prisma.tag.count({ where: { id: { in: tags }, userId } }) : 0,
+      folderId ? this.prisma.folder.findFirst({ where: { id: folderId, userId } }) : null,
+    ]);
+
+    return tagsCount === new Set(tags).size && (!folderId || !!folder);
+  };
+
   /**
    * Retrieves the original URL associated with a given short URL from the database.
    * @param {string} key The key of the shortened URL.
+   * @param {string} domain The custom domain of the shortened URL, undefined for the default domain.
    * @returns {Promise<string|null>} - The original URL if the original URL is found and valid, otherwise null.
    */
-  getLinkFromDb = async (key: string): Promise<LinkValue | null> => {
+  getLinkFromDb = async (key: string, domain?: string): Promise<LinkValue | null> => {
+    const where: Prisma.LinkWhereInput = domain ? { key, domain: { name: domain, verified: true } } : { key, domainId: null };
     const link = await this.prisma.link.findFirst({
-      where: {
-        key,
-      },
+      where,
+      include: { scheduledChanges: true },
     });
 
     if (!link) {
       return null;
     }
 
-    // If the URL has an expiration time, calculate the TTL.
-    let expirationTime: number;
-    if (link.expirationTime) {
-      if (new Date(link.expirationTime.getTime()) < new Date()) {
-        return null;
-      }
-      expirationTime = link.expirationTime.getTime() - new Date().getTime();
+    // Archived links keep their analytics, but stop redirecting
+    if (link.archivedAt) {
+      return null;
+    }
+
+    // If the URL has an expiration time, it should not be expired yet.
+    if (link.expirationTime && new Date(link.expirationTime.getTime()) < new Date()) {
+      return null;
+    }
+
+    // Scheduled links do not resolve before their activation time
+    if (link.activeFrom && link.activeFrom > new Date()) {
+      return null;
+    }
+
+    // Click-capped links expire once they reached their cap
+    if (link.maxClicks && link.redirects >= link.maxClicks) {
+      return null;
+    }
+
+    // Changes that are due but were not applied yet already decide the destination
+    const url = getScheduledUrl(link.url, link.scheduledChanges);
+
+    // Add the URL back to the cache to prevent future database calls, until the link expires or its destination changes.
+    this.addLinkToCache(
+      getLinkCacheKey(key, domain),
+      {
+        url,
+        key,
+        password: link.password,
+        utm: link.utm as Record<string, string>,
+        rules: link.rules as unknown as RedirectRule[],
+        variants: link.variants as unknown as RedirectVariant[],
+        stickyVariants: link.stickyVariants,
+        deepLinks: link.deepLinks as unknown as DeepLinks,
+        ...(link.maxClicks && { id: link.id, maxClicks: link.maxClicks }),
+        ...(link.quarantinedAt && { quarantined: true }),
+        ...(link.payload && { payload: link.payload as unknown as QrPayload }),
+        ...(link.file && { file: link.file as unknown as LinkFile }),
+        ...(link.snippet && { snippet: link.snippet as unknown as LinkSnippet }),
+      },
+      getTtlUntil([link.expirationTime, getNextChangeTime(link.scheduledChanges)])
+    );
+
+    return { ...link, url, ...(link.quarantinedAt && { quarantined: true }) } as unknown as LinkValue;
+  };
+
+  /**
+   * Returns the public stats of a link, null for links that are not stored in the database (temporary links).
+   * @param {string} key - The key of the shortened URL.
+   * @param {string} domain - The custom domain of the shortened URL, undefined for the default domain.
+   */
+  getLinkStats = async (key: string, domain?: string): Promise<Pick<Link, 'createdAt' | 'clicks'> | null> => {
+    const where: Prisma.LinkWhereInput = domain ? { key, domain: { name: domain, verified: true } } : { key, domainId: null };
+    return this.prisma.link.findFirst({
+      where,
+      select: { createdAt: true, clicks: true },
+    });
+  };
+
+  /**
+   * Returns the Open Graph overrides of a link, null for links that are not stored in the database (temporary links).
+   * @param {string} key - The key of the shortened URL.
+   * @param {string} domain - The custom domain of the shortened URL, undefined for the default domain.
+   */
+  getSocialPreview = async (key: string, domain?: string): Promise<Pick<Link, 'ogTitle' | 'ogDescription' | 'ogImage'> | null> => {
+    const where: Prisma.LinkWhereInput = domain ? { key, domain: { name: domain, verified: true } } : { key, domainId: null };
+    return this.prisma.link.findFirst({
+      where,
+      select: { ogTitle: true, ogDescription: true, ogImage: true },
+    });
+  };
+
+  /**
+   * Counts a redirect of a click-capped link, the counter is incremented atomically in the database so concurrent
+   * redirects that were served from the cache cannot exceed the cap.
+   * @param {LinkValue} link The link that is about to be redirected.
+   * @param {string} domain The custom domain of the link, undefined for the default domain.
+   * @returns {Promise<boolean>} False if the link already reached its click cap.
+   */
+  consumeClick = async (link: LinkValue, domain?: string): Promise<boolean> => {
+    if (!link.maxClicks || !link.id) {
+      return true;
     }
 
-    // Add the URL back to the cache to prevent future database calls.
-    this.addLinkToCache(key, { url: link.url, key, password: link.password, utm: link.utm as Record<string, string> }, expirationTime);
+    const [updated] = await this.prisma.$queryRaw<{ redirects: number; maxClicks: number }[]>`
+      UPDATE "Link"
+      SET "redirects" = "redirects" + 1
+      WHERE "id" = ${link.id} AND "maxClicks" IS NOT NULL AND "redirects" < "maxClicks"
+      RETURNING "redirects", "maxClicks";
+    `;
 
-    return link as LinkValue;
+    // Evict the link once the cap is reached, the next redirects will be handled by the database as expired
+    if (!updated || updated.redirects >= updated.maxClicks) {
+      await this.appCacheService.del(getLinkCacheKey(link.key, domain));
+    }
+
+    return !!updated;
   };
 
   /**
    * Creates a shortened URL for a user based on the provided data.
    * @param {UserContext} user - The user context.
    * @param {ShortenerDto} shortenerDto - The request body containing the original URL and optional expiration time.
+   * @param {LinkMigration} migration - The shortener the link was migrated from, if any.
+   * @param {LinkImportRow} importRow - The import row the link is created from, if any.
    * @returns {Promise<{ key: string }>} - Returns an object containing the newly created short URL.
    */
-  createUsersShortenedUrl = async (user: UserContext, shortenerDto: ShortenerDto): Promise<{ key: string }> => {
-    const utm = createUtmObject({
-      ref: shortenerDto.utm_ref,
-      utm_source: shortenerDto.utm_source,
-      utm_medium: shortenerDto.utm_medium,
-      utm_campaign: shortenerDto.utm_campaign,
-      utm_term: shortenerDto.utm_term,
-      utm_content: shortenerDto.utm_content,
-    });
+  createUsersShortenedUrl = async (
+    user: UserContext,
+    shortenerDto: ShortenerDto,
+    migration?: LinkMigration,
+    importRow?: LinkImportRow
+  ): Promise<{ key: string }> => {
+    // Payload, file and snippet links have no url to add the parameters to
+    const utm =
+      shortenerDto.payload || shortenerDto.file || shortenerDto.snippet
+        ? undefined
+        : createUtmObject({
+            ref: shortenerDto.utm_ref,
+            utm_source: shortenerDto.utm_source,
+            utm_medium: shortenerDto.utm_medium,
+            utm_campaign: shortenerDto.utm_campaign,
+            utm_term: shortenerDto.utm_term,
+            utm_content: shortenerDto.utm_content,
+          });
 
-    const { key } = await this.createShortenedUrl(shortenerDto, utm);
-    await this.createDbUrl(user, shortenerDto, key, utm);
+    // The link is cached only after it is stored, so a rejected link never redirects
+    const { key, value } = await this.prepareShortenedUrl(shortenerDto, utm);
+    await this.createDbUrl(user, shortenerDto, key, utm, migration, importRow);
+    await this.cacheShortenedUrl(shortenerDto, value);
 
     return { key };
   };
 
-  createRandomShortenedUrl = async (): Promise<string> => {
+  createRandomShortenedUrl = async (domain?: string): Promise<string> => {
     let key: string;
+    let collisions = -1;
 
     do {
-      key = this.generateKey();
-    } while (!(await this.isKeyAvailable(key)));
+      collisions++;
+      key = await this.generateKey(collisions);
+    } while (!(await this.isKeyAvailable(key, domain)));
 
+    this.keyGeneratorService.recordCollisions(collisions);
     return key;
   };
 }
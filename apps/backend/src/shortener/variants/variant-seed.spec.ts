@@ -0,0 +1,27 @@
+import { getVariantSeed } from './variant-seed';
+
+describe('getVariantSeed', () => {
+  it('should return the same seed for the same visitor of a sticky link', () => {
+    const seed = getVariantSeed('best', '1.2.3.4', true);
+
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThan(1);
+    expect(getVariantSeed('best', '1.2.3.4', true)).toBe(seed);
+  });
+
+  it('should return different seeds for different links and visitors', () => {
+    const seed = getVariantSeed('best', '1.2.3.4', true);
+
+    expect(getVariantSeed('other', '1.2.3.4', true)).not.toBe(seed);
+    expect(getVariantSeed('best', '5.6.7.8', true)).not.toBe(seed);
+  });
+
+  it('should return a random seed when the link is not sticky', () => {
+    const random = jest.spyOn(Math, 'random').mockReturnValue(0.42);
+
+    expect(getVariantSeed('best', '1.2.3.4')).toBe(0.42);
+    expect(getVariantSeed('best', undefined, true)).toBe(0.42);
+
+    random.mockRestore();
+  });
+});
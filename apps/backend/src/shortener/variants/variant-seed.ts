@@ -0,0 +1,15 @@
+import { createHash } from 'node:crypto';
+
+/**
+ * Returns the seed used to pick a variant, in the range [0, 1).
+ * Sticky links hash the visitor (like the tracker does) together with the link, so returning visitors get the same variant.
+ */
+export const getVariantSeed = (key: string, ip?: string, sticky = false): number => {
+  if (!sticky || !ip) {
+    return Math.random();
+  }
+
+  const hashedIp = createHash('sha256').update(ip).digest('hex');
+  const hash = createHash('sha256').update(`${key}:${hashedIp}`).digest();
+  return hash.readUInt32BE(0) / 2 ** 32;
+};
@@ -1,6 +1,7 @@
 import { Inject, Injectable } from '@nestjs/common';
 import { STORAGE_INJECTION_TOKEN } from './storage.module';
 import { PutObjectCommandInput, S3 } from '@aws-sdk/client-s3';
+import { Readable } from 'stream';
 import { AppConfigService } from '@reduced.to/config';
 import { AppLoggerService } from '@reduced.to/logger';
 
@@ -47,6 +48,51 @@ export class StorageService {
     return data;
   }
 
+  /**
+   * Uploads a file that is not publicly readable, it is only served through signed urls.
+   */
+  async uploadPrivateFile({ name, file, contentType }: { name: string; file: Buffer; contentType: string }) {
+    const data = await this.s3Client.putObject({
+      Bucket: this.config.getConfig().storage.bucket,
+      Key: name,
+      Body: file,
+      ACL: 'private',
+      ContentType: contentType,
+    });
+    return data;
+  }
+
+  async head(name: string): Promise<{ size: number; contentType?: string } | null> {
+    try {
+      const data = await this.s3Client.headObject({
+        Bucket: this.config.getConfig().storage.bucket,
+        Key: name,
+      });
+
+      return { size: data.ContentLength, contentType: data.ContentType };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async getStream(name: string): Promise<{ stream: Readable; size?: number; contentType?: string }> {
+    const data = await this.s3Client.getObject({
+      Bucket: this.config.getConfig().storage.bucket,
+      Key: name,
+    });
+
+    return { stream: data.Body as Readable, size: data.ContentLength, contentType: data.ContentType };
+  }
+
+  async get(name: string): Promise<{ file: Buffer; contentType?: string }> {
+    const data = await this.s3Client.getObject({
+      Bucket: this.config.getConfig().storage.bucket,
+      Key: name,
+    });
+
+    return { file: Buffer.from(await data.Body.transformToByteArray()), contentType: data.ContentType };
+  }
+
   async delete(name: string) {
     const params: PutObjectCommandInput = {
       Bucket: this.config.getConfig().storage.bucket,
@@ -73,3 +119,6 @@ export class StorageService {
 }
 
 export const PROFILE_PICTURE_PREFIX = 'profile-pictures';
+export const SOCIAL_PREVIEW_PREFIX = 'social-previews';
+export const QR_LOGO_PREFIX = 'qr-logos';
+export const FILE_LINK_PREFIX = 'files';
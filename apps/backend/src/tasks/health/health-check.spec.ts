@@ -0,0 +1,109 @@
+import { checkDestination, isBrokenStatus, MAX_HEALTH_REDIRECTS } from './health-check';
+
+const createResponse = (status: number, location?: string) => ({
+  status,
+  headers: new Headers(location ? { location } : {}),
+  body: null,
+});
+
+describe('health-check', () => {
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  describe('isBrokenStatus', () => {
+    it('should consider client and server errors as broken', () => {
+      expect(isBrokenStatus(404)).toBe(true);
+      expect(isBrokenStatus(500)).toBe(true);
+    });
+
+    it('should not consider successes and rate limits as broken', () => {
+      expect(isBrokenStatus(200)).toBe(false);
+      expect(isBrokenStatus(301)).toBe(false);
+      expect(isBrokenStatus(429)).toBe(false);
+    });
+  });
+
+  describe('checkDestination', () => {
+    it('should check the destination with HEAD', async () => {
+      fetchMock.mockResolvedValueOnce(createResponse(200));
+
+      const result = await checkDestination('https://example.com', 1000);
+
+      expect(result).toEqual({ healthy: true, statusCode: 200, redirects: [], latency: expect.any(Number), error: null });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(fetchMock).toHaveBeenCalledWith('https://example.com', expect.objectContaining({ method: 'HEAD', redirect: 'manual' }));
+    });
+
+    it('should record the redirect chain', async () => {
+      fetchMock
+        .mockResolvedValueOnce(createResponse(301, 'https://www.example.com/'))
+        .mockResolvedValueOnce(createResponse(302, '/home'))
+        .mockResolvedValueOnce(createResponse(200));
+
+      const result = await checkDestination('https://example.com', 1000);
+
+      expect(result.statusCode).toBe(200);
+      expect(result.redirects).toEqual(['https://www.example.com/', 'https://www.example.com/home']);
+      expect(fetchMock).toHaveBeenLastCalledWith('https://www.example.com/home', expect.objectContaining({ method: 'HEAD' }));
+    });
+
+    it('should fall back to GET when HEAD fails', async () => {
+      fetchMock.mockResolvedValueOnce(createResponse(405)).mockResolvedValueOnce(createResponse(200));
+
+      const result = await checkDestination('https://example.com', 1000);
+
+      expect(result.healthy).toBe(true);
+      expect(result.statusCode).toBe(200);
+      expect(fetchMock).toHaveBeenLastCalledWith('https://example.com', expect.objectContaining({ method: 'GET' }));
+    });
+
+    it('should fall back to GET when HEAD requests are dropped', async () => {
+      fetchMock.mockRejectedValueOnce(new Error('socket hang up')).mockResolvedValueOnce(createResponse(200));
+
+      const result = await checkDestination('https://example.com', 1000);
+
+      expect(result.healthy).toBe(true);
+    });
+
+    it('should report the destination as broken when GET fails too', async () => {
+      fetchMock.mockResolvedValueOnce(createResponse(404)).mockResolvedValueOnce(createResponse(404));
+
+      const result = await checkDestination('https://example.com', 1000);
+
+      expect(result).toEqual({ healthy: false, statusCode: 404, redirects: [], latency: expect.any(Number), error: null });
+    });
+
+    it('should report unreachable destinations', async () => {
+      const timeout = new Error('The operation was aborted due to timeout');
+      timeout.name = 'TimeoutError';
+      fetchMock.mockRejectedValueOnce(new Error('getaddrinfo ENOTFOUND')).mockRejectedValueOnce(timeout);
+
+      const result = await checkDestination('https://example.com', 1000);
+
+      expect(result).toEqual({
+        healthy: false,
+        statusCode: null,
+        redirects: [],
+        latency: null,
+        error: 'The destination did not respond in time',
+      });
+    });
+
+    it('should stop following endless redirects', async () => {
+      fetchMock.mockImplementation(async () => createResponse(302, 'https://example.com/loop'));
+
+      const result = await checkDestination('https://example.com', 1000);
+
+      expect(result.healthy).toBe(false);
+      expect(result.error).toBe('The destination redirected too many times');
+      expect(fetchMock).toHaveBeenCalledTimes(2 * (MAX_HEALTH_REDIRECTS + 1));
+    });
+  });
+});
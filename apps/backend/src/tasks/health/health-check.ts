@@ -0,0 +1,89 @@
+export const MAX_HEALTH_REDIRECTS = 10;
+
+export interface HealthCheckResult {
+  healthy: boolean;
+  statusCode: number | null; // Null when the destination could not be reached
+  redirects: string[];
+  latency: number | null;
+  error: string | null;
+}
+
+interface DestinationResponse {
+  statusCode: number;
+  redirects: string[];
+}
+
+/**
+ * Rate limited destinations are up, they only ask the checker to slow down.
+ * @param {number} statusCode The final status code of the destination.
+ * @returns {boolean} Whether the destination is considered broken.
+ */
+export const isBrokenStatus = (statusCode: number): boolean => statusCode >= 400 && statusCode !== 429;
+
+const isRedirectStatus = (statusCode: number): boolean => statusCode >= 300 && statusCode < 400;
+
+const getErrorMessage = (err: Error): string => {
+  if (err.name === 'TimeoutError' || err.name === 'AbortError') {
+    return 'The destination did not respond in time';
+  }
+
+  return err.message;
+};
+
+/**
+ * Requests the destination with the given method, following the redirects by hand so the chain can be recorded.
+ * @param {string} url The destination of the link.
+ * @param {string} method HEAD or GET.
+ * @param {number} timeoutMs The time to wait for every response of the chain.
+ * @returns {Promise<DestinationResponse>} The final status code and the urls the destination redirected to.
+ */
+const requestDestination = async (url: string, method: 'HEAD' | 'GET', timeoutMs: number): Promise<DestinationResponse> => {
+  const redirects: string[] = [];
+  let current = url;
+
+  for (;;) {
+    const response = await fetch(current, { method, redirect: 'manual', signal: AbortSignal.timeout(timeoutMs) });
+    // Only the status matters, so the body of GET requests is not downloaded
+    await response.body?.cancel();
+
+    const location = response.headers.get('location');
+    if (!isRedirectStatus(response.status) || !location) {
+      return { statusCode: response.status, redirects };
+    }
+
+    if (redirects.length === MAX_HEALTH_REDIRECTS) {
+      throw new Error('The destination redirected too many times');
+    }
+
+    current = new URL(location, current).href;
+    redirects.push(current);
+  }
+};
+
+/**
+ * Checks that the destination of a link is reachable with HEAD, falling back to GET for servers that do not handle HEAD requests.
+ * @param {string} url The destination of the link.
+ * @param {number} timeoutMs The time to wait for every response of the chain.
+ * @returns {Promise<HealthCheckResult>} The result of the check.
+ */
+export const checkDestination = async (url: string, timeoutMs: number): Promise<HealthCheckResult> => {
+  let startedAt = Date.now();
+
+  try {
+    const response = await requestDestination(url, 'HEAD', timeoutMs);
+    if (!isBrokenStatus(response.statusCode)) {
+      return { healthy: true, ...response, latency: Date.now() - startedAt, error: null };
+    }
+  } catch {
+    // Some servers drop HEAD requests, GET tells whether the destination is really down
+  }
+
+  startedAt = Date.now();
+
+  try {
+    const response = await requestDestination(url, 'GET', timeoutMs);
+    return { healthy: !isBrokenStatus(response.statusCode), ...response, latency: Date.now() - startedAt, error: null };
+  } catch (err) {
+    return { healthy: false, statusCode: null, redirects: [], latency: null, error: getErrorMessage(err) };
+  }
+};
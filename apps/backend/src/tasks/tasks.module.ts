@@ -2,10 +2,16 @@ import { Module } from '@nestjs/common';
 import { UsageModule } from '@reduced.to/subscription-manager';
 import { TasksService } from './tasks.service';
 import { ScheduleModule } from '@nestjs/schedule';
+import { PrismaModule } from '@reduced.to/prisma';
+import { SafeUrlModule } from '@reduced.to/safe-url';
+import { NovuModule } from '../novu/novu.module';
+import { NovuService } from '../novu/novu.service';
+import { StorageModule } from '../storage/storage.module';
+import { StorageService } from '../storage/storage.service';
 
 @Module({
-  imports: [ScheduleModule.forRoot(), UsageModule],
-  providers: [TasksService],
+  imports: [ScheduleModule.forRoot(), UsageModule, PrismaModule, NovuModule, SafeUrlModule.forRootAsync(), StorageModule],
+  providers: [TasksService, NovuService, StorageService],
   exports: [TasksService],
 })
 export class TasksModule {}
@@ -0,0 +1,361 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from '@reduced.to/prisma';
+import { AppConfigModule, AppConfigService } from '@reduced.to/config';
+import { AppLoggerModule } from '@reduced.to/logger';
+import { UsageService } from '@reduced.to/subscription-manager';
+import { SafeUrlService } from '@reduced.to/safe-url';
+import { AppCacheService } from '../cache/cache.service';
+import { NovuService } from '../novu/novu.service';
+import { StorageService } from '../storage/storage.service';
+import { checkDestination } from './health/health-check';
+import { TasksService } from './tasks.service';
+
+jest.mock('./health/health-check');
+
+describe('TasksService', () => {
+  let service: TasksService;
+  let prismaService: PrismaService;
+  let cacheService: AppCacheService;
+  let configService: AppConfigService;
+  let novuService: NovuService;
+  let safeUrlService: SafeUrlService;
+  let storageService: StorageService;
+
+  const CHANGE = {
+    id: 'change-id',
+    linkId: 'link-id',
+    url: 'https://example.com/sale',
+    scheduledAt: new Date(Date.now() - 1000),
+    link: { key: 'sale', url: 'https://example.com', utm: null, password: null, expirationTime: null, domain: null },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [AppConfigModule, AppLoggerModule],
+      providers: [
+        TasksService,
+        {
+          provide: UsageService,
+          useValue: {},
+        },
+        {
+          provide: PrismaService,
+          useValue: {
+            $transaction: jest.fn(),
+            link: {
+              findMany: jest.fn().mockResolvedValue([]),
+              update: jest.fn(),
+              deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+            },
+            scheduledChange: {
+              findMany: jest.fn().mockResolvedValue([]),
+              delete: jest.fn(),
+            },
+            user: {
+              findMany: jest.fn().mockResolvedValue([]),
+            },
+          },
+        },
+        {
+          provide: AppCacheService,
+          useValue: {
+            del: jest.fn(),
+          },
+        },
+        {
+          provide: NovuService,
+          useValue: {
+            sendBrokenLinkEmail: jest.fn(),
+            sendQuarantinedLinkEmail: jest.fn(),
+            sendQuarantineReviewEmail: jest.fn(),
+          },
+        },
+        {
+          provide: SafeUrlService,
+          useValue: {
+            isSafeUrl: jest.fn().mockResolvedValue(true),
+          },
+        },
+        {
+          provide: StorageService,
+          useValue: {
+            delete: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<TasksService>(TasksService);
+    prismaService = module.get<PrismaService>(PrismaService);
+    cacheService = module.get<AppCacheService>(AppCacheService);
+    configService = module.get<AppConfigService>(AppConfigService);
+    novuService = module.get<NovuService>(NovuService);
+    safeUrlService = module.get<SafeUrlService>(SafeUrlService);
+    storageService = module.get<StorageService>(StorageService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('handleScheduledChanges', () => {
+    it('should apply the due changes and evict the cached links', async () => {
+      jest
+        .spyOn(prismaService.scheduledChange, 'findMany')
+        .mockResolvedValueOnce([
+          CHANGE,
+          { ...CHANGE, id: 'other-change-id', link: { ...CHANGE.link, key: 'promo', domain: { name: 'go.example.com' } } },
+        ] as any);
+
+      await service.handleScheduledChanges();
+
+      expect(prismaService.scheduledChange.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { scheduledAt: { lte: expect.any(Date) } }, orderBy: { scheduledAt: 'asc' } })
+      );
+      expect(prismaService.$transaction).toHaveBeenCalledTimes(2);
+      expect(prismaService.link.update).toHaveBeenCalledWith({
+        where: { id: 'link-id' },
+        data: {
+          url: 'https://example.com/sale',
+          history: { create: { url: 'https://example.com', passwordEnabled: false, expirationTime: null } },
+        },
+      });
+      expect(prismaService.scheduledChange.delete).toHaveBeenCalledWith({ where: { id: 'change-id' } });
+      expect(prismaService.scheduledChange.delete).toHaveBeenCalledWith({ where: { id: 'other-change-id' } });
+      expect(cacheService.del).toHaveBeenCalledWith('sale');
+      expect(cacheService.del).toHaveBeenCalledWith('domain:go.example.com:promo');
+    });
+
+    it('should keep going while there are full batches of due changes', async () => {
+      const batch = Array.from({ length: 100 }, (_, i) => ({ ...CHANGE, id: `change-${i}` }));
+      jest
+        .spyOn(prismaService.scheduledChange, 'findMany')
+        .mockResolvedValueOnce(batch as any)
+        .mockResolvedValueOnce([CHANGE] as any);
+
+      await service.handleScheduledChanges();
+
+      expect(prismaService.scheduledChange.findMany).toHaveBeenCalledTimes(2);
+      expect(prismaService.$transaction).toHaveBeenCalledTimes(101);
+    });
+
+    it('should do nothing when no change is due', async () => {
+      await service.handleScheduledChanges();
+
+      expect(prismaService.$transaction).not.toHaveBeenCalled();
+      expect(cacheService.del).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleArchivedLinks', () => {
+    const ARCHIVED_LINKS = [
+      { id: 'link-1', key: 'one', ogImage: 'social-previews/image', qrStyle: { logo: 'qr-logos/logo' }, file: null },
+      { id: 'link-2', key: 'two', ogImage: null, qrStyle: null, file: { path: 'files/user-id/file-id', name: 'deck.pdf' } },
+    ];
+
+    beforeEach(() => {
+      jest.spyOn(configService, 'getConfig').mockReturnValue({ links: { archiveRetentionDays: 30 } } as any);
+    });
+
+    it('should purge the links archived before the retention window', async () => {
+      jest.spyOn(prismaService.link, 'findMany').mockResolvedValueOnce(ARCHIVED_LINKS as any);
+      jest.spyOn(prismaService.link, 'deleteMany').mockResolvedValueOnce({ count: 2 });
+
+      const before = Date.now();
+      await service.handleArchivedLinks();
+
+      const { where } = (prismaService.link.findMany as jest.Mock).mock.calls[0][0];
+      const retentionMs = 30 * 24 * 60 * 60 * 1000;
+      expect(where.archivedAt.lte.getTime()).toBeGreaterThanOrEqual(before - retentionMs);
+      expect(where.archivedAt.lte.getTime()).toBeLessThanOrEqual(Date.now() - retentionMs);
+      expect(prismaService.link.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['link-1', 'link-2'] } } });
+    });
+
+    it('should delete the stored objects of the purged links', async () => {
+      jest.spyOn(prismaService.link, 'findMany').mockResolvedValueOnce(ARCHIVED_LINKS as any);
+      jest.spyOn(storageService, 'delete').mockRejectedValueOnce(new Error('Timeout'));
+
+      await service.handleArchivedLinks();
+
+      expect(storageService.delete).toHaveBeenCalledWith('social-previews/image');
+      expect(storageService.delete).toHaveBeenCalledWith('qr-logos/logo');
+      expect(storageService.delete).toHaveBeenCalledWith('files/user-id/file-id');
+      // A failed deletion does not keep the link from being purged
+      expect(prismaService.link.deleteMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not delete anything when no link is due', async () => {
+      await service.handleArchivedLinks();
+
+      expect(prismaService.link.deleteMany).not.toHaveBeenCalled();
+      expect(storageService.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleHealthChecks', () => {
+    const USER = { id: 'user-id', email: 'user@example.com', name: 'User' };
+    const LINK = { id: 'link-id', key: 'docs', url: 'https://example.com/docs', healthStatus: null, user: USER };
+    const HEALTHY = { healthy: true, statusCode: 200, redirects: [], latency: 120, error: null };
+    const BROKEN = { healthy: false, statusCode: 404, redirects: [], latency: 80, error: null };
+
+    beforeEach(() => {
+      jest.spyOn(configService, 'getConfig').mockReturnValue({
+        links: { healthCheck: { enable: true, intervalHours: 24, concurrency: 2, timeoutMs: 1000, hostDelayMs: 0 } },
+      } as any);
+    });
+
+    it('should check the stale active links and record their health', async () => {
+      jest.spyOn(prismaService.link, 'findMany').mockResolvedValueOnce([LINK] as any);
+      (checkDestination as jest.Mock).mockResolvedValueOnce({ ...HEALTHY, redirects: ['https://www.example.com/docs'] });
+
+      await service.handleHealthChecks();
+
+      const { where, orderBy } = (prismaService.link.findMany as jest.Mock).mock.calls[0][0];
+      expect(where.archivedAt).toBeNull();
+      expect(orderBy).toEqual({ healthCheckedAt: { sort: 'asc', nulls: 'first' } });
+      expect(checkDestination).toHaveBeenCalledWith('https://example.com/docs', 1000);
+      expect(prismaService.link.update).toHaveBeenCalledWith({
+        where: { id: 'link-id' },
+        data: {
+          healthStatus: 'HEALTHY',
+          healthStatusCode: 200,
+          healthRedirects: ['https://www.example.com/docs'],
+          healthLatency: 120,
+          healthError: null,
+          healthCheckedAt: expect.any(Date),
+        },
+      });
+      expect(novuService.sendBrokenLinkEmail).not.toHaveBeenCalled();
+    });
+
+    it('should email the owner when a link starts failing', async () => {
+      jest.spyOn(prismaService.link, 'findMany').mockResolvedValueOnce([LINK] as any);
+      (checkDestination as jest.Mock).mockResolvedValueOnce(BROKEN);
+
+      await service.handleHealthChecks();
+
+      expect(prismaService.link.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ healthStatus: 'BROKEN' }) })
+      );
+      expect(novuService.sendBrokenLinkEmail).toHaveBeenCalledWith(USER, {
+        id: LINK.id,
+        key: 'docs',
+        url: 'https://example.com/docs',
+        statusCode: 404,
+        error: null,
+      });
+    });
+
+    it('should not email the owner again while the link keeps failing', async () => {
+      jest.spyOn(prismaService.link, 'findMany').mockResolvedValueOnce([{ ...LINK, healthStatus: 'BROKEN' }] as any);
+      (checkDestination as jest.Mock).mockResolvedValueOnce(BROKEN);
+
+      await service.handleHealthChecks();
+
+      expect(prismaService.link.update).toHaveBeenCalled();
+      expect(novuService.sendBrokenLinkEmail).not.toHaveBeenCalled();
+    });
+
+    it('should check the links of a host one after the other', async () => {
+      const links = [
+        LINK,
+        { ...LINK, id: 'other-link-id', url: 'https://example.com/blog' },
+        { ...LINK, id: 'another-host-link-id', url: 'https://another.com' },
+      ];
+      jest.spyOn(prismaService.link, 'findMany').mockResolvedValueOnce(links as any);
+
+      const active = new Map<string, number>();
+      let maxActivePerHost = 0;
+      (checkDestination as jest.Mock).mockImplementation(async (url: string) => {
+        const host = new URL(url).host;
+        active.set(host, (active.get(host) || 0) + 1);
+        maxActivePerHost = Math.max(maxActivePerHost, active.get(host));
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active.set(host, active.get(host) - 1);
+        return HEALTHY;
+      });
+
+      await service.handleHealthChecks();
+
+      expect(checkDestination).toHaveBeenCalledTimes(3);
+      expect(maxActivePerHost).toBe(1);
+    });
+
+    it('should do nothing when the health checks are disabled', async () => {
+      jest.spyOn(configService, 'getConfig').mockReturnValue({ links: { healthCheck: { enable: false } } } as any);
+
+      await service.handleHealthChecks();
+
+      expect(prismaService.link.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleSafeUrlRescans', () => {
+    const USER = { id: 'user-id', email: 'user@example.com', name: 'User' };
+    const ADMINS = [{ id: 'admin-id', email: 'admin@example.com' }];
+    const LINK = {
+      id: 'link-id',
+      key: 'promo',
+      url: 'https://example.com',
+      rules: [{ url: 'https://example.com/mobile' }],
+      variants: null,
+      scheduledChanges: [],
+      domain: { name: 'go.example.com' },
+      user: USER,
+    };
+
+    beforeEach(() => {
+      jest.spyOn(configService, 'getConfig').mockReturnValue({ safeUrl: { enable: true, rescanIntervalHours: 24 } } as any);
+    });
+
+    it('should mark the links with safe destinations as checked', async () => {
+      jest.spyOn(prismaService.link, 'findMany').mockResolvedValueOnce([LINK] as any);
+
+      await service.handleSafeUrlRescans();
+
+      const { where } = (prismaService.link.findMany as jest.Mock).mock.calls[0][0];
+      expect(where).toEqual(expect.objectContaining({ archivedAt: null, quarantinedAt: null, safeUrlReleasedAt: null }));
+      expect(safeUrlService.isSafeUrl).toHaveBeenCalledWith('https://example.com');
+      expect(safeUrlService.isSafeUrl).toHaveBeenCalledWith('https://example.com/mobile');
+      expect(prismaService.link.update).toHaveBeenCalledWith({ where: { id: 'link-id' }, data: { safeUrlCheckedAt: expect.any(Date) } });
+      expect(cacheService.del).not.toHaveBeenCalled();
+    });
+
+    it('should quarantine the links with an unsafe destination and notify the owner and the admins', async () => {
+      jest.spyOn(prismaService.link, 'findMany').mockResolvedValueOnce([LINK] as any);
+      jest.spyOn(prismaService.user, 'findMany').mockResolvedValueOnce(ADMINS as any);
+      jest.spyOn(safeUrlService, 'isSafeUrl').mockImplementation(async (url) => url !== 'https://example.com/mobile');
+
+      await service.handleSafeUrlRescans();
+
+      expect(prismaService.link.update).toHaveBeenCalledWith({
+        where: { id: 'link-id' },
+        data: { quarantinedAt: expect.any(Date), safeUrlCheckedAt: expect.any(Date) },
+      });
+      expect(cacheService.del).toHaveBeenCalledWith('domain:go.example.com:promo');
+      expect(novuService.sendQuarantinedLinkEmail).toHaveBeenCalledWith(USER, LINK, 'https://example.com/mobile');
+      expect(novuService.sendQuarantineReviewEmail).toHaveBeenCalledWith(ADMINS, LINK, 'https://example.com/mobile');
+    });
+
+    it('should keep rescanning the other links when a check fails', async () => {
+      jest.spyOn(prismaService.link, 'findMany').mockResolvedValueOnce([LINK, { ...LINK, id: 'other-link-id', rules: null }] as any);
+      jest.spyOn(safeUrlService, 'isSafeUrl').mockRejectedValueOnce(new Error('Quota exceeded'));
+
+      await service.handleSafeUrlRescans();
+
+      expect(prismaService.link.update).toHaveBeenCalledTimes(1);
+      expect(prismaService.link.update).toHaveBeenCalledWith({
+        where: { id: 'other-link-id' },
+        data: { safeUrlCheckedAt: expect.any(Date) },
+      });
+    });
+
+    it('should do nothing when the safe url checks are disabled', async () => {
+      jest.spyOn(configService, 'getConfig').mockReturnValue({ safeUrl: { enable: false } } as any);
+
+      await service.handleSafeUrlRescans();
+
+      expect(prismaService.link.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,10 +1,123 @@
 import { Injectable } from '@nestjs/common';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { UsageService } from '@reduced.to/subscription-manager';
+import { LinkHealth, LinkType, Prisma, PrismaService, Role, User } from '@reduced.to/prisma';
+import { AppLoggerService } from '@reduced.to/logger';
+import { AppConfigService } from '@reduced.to/config';
+import { SafeUrlService } from '@reduced.to/safe-url';
+import { DeepLinks, LinkFile, QrStyle, RedirectRule, RedirectVariant } from '@reduced.to/utils';
+import { AppCacheService, getLinkCacheKey } from '../cache/cache.service';
+import { createHistoryEntry } from '../core/links/history/history';
+import { NovuService } from '../novu/novu.service';
+import { getDestinationUrls } from '../shortener/destinations/destinations';
+import { StorageService } from '../storage/storage.service';
+import { checkDestination } from './health/health-check';
+
+export const HEALTH_CHECK_BATCH_SIZE = 500;
+
+const HEALTH_CHECK_SELECT = {
+  id: true,
+  key: true,
+  url: true,
+  healthStatus: true,
+  user: {
+    select: {
+      id: true,
+      email: true,
+      name: true,
+    },
+  },
+} as const;
+
+type HealthCheckLink = Prisma.LinkGetPayload<{ select: typeof HEALTH_CHECK_SELECT }>;
+
+export const SAFE_URL_RESCAN_BATCH_SIZE = 500;
+
+const SAFE_URL_RESCAN_SELECT = {
+  id: true,
+  key: true,
+  url: true,
+  rules: true,
+  variants: true,
+  deepLinks: true,
+  scheduledChanges: {
+    select: {
+      url: true,
+    },
+  },
+  domain: {
+    select: {
+      name: true,
+    },
+  },
+  user: {
+    select: {
+      id: true,
+      email: true,
+      name: true,
+    },
+  },
+} as const;
+
+type SafeUrlRescanLink = Prisma.LinkGetPayload<{ select: typeof SAFE_URL_RESCAN_SELECT }>;
+
+export const ARCHIVE_PURGE_BATCH_SIZE = 500;
+
+const ARCHIVE_PURGE_SELECT = {
+  id: true,
+  key: true,
+  ogImage: true,
+  qrStyle: true,
+  file: true,
+} as const;
+
+type ArchivePurgeLink = Prisma.LinkGetPayload<{ select: typeof ARCHIVE_PURGE_SELECT }>;
+
+/**
+ * Returns the storage paths of the objects uploaded for the link: its social preview image, QR code logo and shared file.
+ */
+const getStoredObjects = ({ ogImage, qrStyle, file }: ArchivePurgeLink): string[] =>
+  [ogImage, (qrStyle as QrStyle)?.logo, (file as unknown as LinkFile)?.path].filter(Boolean);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Groups the links by the host of their destination, so every host is only requested by one worker at a time.
+ * @param {HealthCheckLink[]} links The links to check.
+ * @returns {HealthCheckLink[][]} The links of every host.
+ */
+const groupByHost = (links: HealthCheckLink[]): HealthCheckLink[][] => {
+  const hosts = new Map<string, HealthCheckLink[]>();
+
+  for (const link of links) {
+    let host: string;
+    try {
+      host = new URL(link.url).host;
+    } catch {
+      host = link.url;
+    }
+
+    hosts.set(host, [...(hosts.get(host) || []), link]);
+  }
+
+  return [...hosts.values()];
+};
 
 @Injectable()
 export class TasksService {
-  constructor(private readonly usageService: UsageService) {}
+  private isCheckingHealth = false;
+  private isRescanning = false;
+
+  constructor(
+    private readonly usageService: UsageService,
+    private readonly prismaService: PrismaService,
+    private readonly appCacheService: AppCacheService,
+    private readonly logger: AppLoggerService,
+    private readonly configService: AppConfigService,
+    private readonly novuService: NovuService,
+    private readonly safeUrlService: SafeUrlService,
+    private readonly storageService: StorageService
+  ) {}
 
   @Cron(CronExpression.EVERY_1ST_DAY_OF_MONTH_AT_MIDNIGHT)
   async handleCron() {
@@ -13,4 +126,299 @@ export class TasksService {
       await this.usageService.resetUsage(userIds);
     });
   }
+
+  /**
+   * Applies the scheduled destination changes that are due, and evicts the cached links so the next redirect uses the new url.
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async handleScheduledChanges() {
+    const batchSize = 100;
+    let hasMoreChanges = true;
+
+    while (hasMoreChanges) {
+      // Applied changes are deleted, so every batch starts from the oldest change that is still due
+      const changes = await this.prismaService.scheduledChange.findMany({
+        where: {
+          scheduledAt: {
+            lte: new Date(),
+          },
+        },
+        include: {
+          link: {
+            select: {
+              key: true,
+              url: true,
+              utm: true,
+              password: true,
+              expirationTime: true,
+              domain: {
+                select: {
+                  name: true,
+                },
+              },
+            },
+          },
+        },
+        orderBy: {
+          scheduledAt: 'asc',
+        },
+        take: batchSize,
+      });
+
+      for (const change of changes) {
+        await this.prismaService.$transaction([
+          this.prismaService.link.update({
+            where: { id: change.linkId },
+            // Scheduled changes are applied by the system, so the history entry has no actor
+            data: { url: change.url, history: { create: createHistoryEntry(change.link) } },
+          }),
+          this.prismaService.scheduledChange.delete({ where: { id: change.id } }),
+        ]);
+        await this.appCacheService.del(getLinkCacheKey(change.link.key, change.link.domain?.name));
+      }
+
+      if (changes.length) {
+        this.logger.log(`Applied ${changes.length} scheduled destination changes`);
+      }
+
+      hasMoreChanges = changes.length === batchSize;
+    }
+  }
+
+  /**
+   * Permanently deletes the archived links whose retention window ended, together with their analytics and the objects
+   * uploaded to the storage for them.
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async handleArchivedLinks() {
+    const retentionMs = this.configService.getConfig().links.archiveRetentionDays * 24 * 60 * 60 * 1000;
+    const archivedBefore = new Date(Date.now() - retentionMs);
+    let purged = 0;
+    let hasMoreLinks = true;
+
+    while (hasMoreLinks) {
+      // Purged links are deleted, so every batch starts from the links that are still archived
+      const links: ArchivePurgeLink[] = await this.prismaService.link.findMany({
+        where: {
+          archivedAt: {
+            lte: archivedBefore,
+          },
+        },
+        select: ARCHIVE_PURGE_SELECT,
+        take: ARCHIVE_PURGE_BATCH_SIZE,
+      });
+
+      for (const link of links) {
+        for (const path of getStoredObjects(link)) {
+          try {
+            await this.storageService.delete(path);
+          } catch (err) {
+            this.logger.error(`Failed to delete ${path} of the purged link ${link.key}: ${err.message}`);
+          }
+        }
+      }
+
+      if (links.length) {
+        const { count } = await this.prismaService.link.deleteMany({ where: { id: { in: links.map(({ id }) => id) } } });
+        purged += count;
+      }
+
+      hasMoreLinks = links.length === ARCHIVE_PURGE_BATCH_SIZE;
+    }
+
+    if (purged) {
+      this.logger.log(`Purged ${purged} archived links`);
+    }
+  }
+
+  /**
+   * Checks the destinations of the active links that were not checked during the interval, the oldest checks first.
+   * Hosts are checked by a bounded number of workers, and the links of a host are checked one after the other.
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async handleHealthChecks() {
+    const { enable, intervalHours, concurrency, timeoutMs, hostDelayMs } = this.configService.getConfig().links.healthCheck;
+    if (!enable || this.isCheckingHealth) {
+      return;
+    }
+
+    this.isCheckingHealth = true;
+
+    try {
+      const now = new Date();
+      const links = await this.prismaService.link.findMany({
+        where: {
+          archivedAt: null,
+          type: LinkType.URL, // Payload links have no destination
+          OR: [{ expirationTime: null }, { expirationTime: { gt: now } }],
+          AND: [
+            { OR: [{ healthCheckedAt: null }, { healthCheckedAt: { lte: new Date(now.getTime() - intervalHours * 60 * 60 * 1000) } }] },
+          ],
+        },
+        select: HEALTH_CHECK_SELECT,
+        orderBy: {
+          healthCheckedAt: { sort: 'asc', nulls: 'first' },
+        },
+        take: HEALTH_CHECK_BATCH_SIZE,
+      });
+
+      const hosts = groupByHost(links);
+      const worker = async () => {
+        for (let hostLinks = hosts.shift(); hostLinks; hostLinks = hosts.shift()) {
+          for (const [index, link] of hostLinks.entries()) {
+            if (index) {
+              await sleep(hostDelayMs);
+            }
+
+            await this.checkLinkHealth(link, timeoutMs);
+          }
+        }
+      };
+
+      await Promise.all(Array.from({ length: Math.min(concurrency, hosts.length) }, worker));
+
+      if (links.length) {
+        this.logger.log(`Checked the health of ${links.length} links`);
+      }
+    } finally {
+      this.isCheckingHealth = false;
+    }
+  }
+
+  private async checkLinkHealth(link: HealthCheckLink, timeoutMs: number) {
+    const result = await checkDestination(link.url, timeoutMs);
+    const healthStatus = result.healthy ? LinkHealth.HEALTHY : LinkHealth.BROKEN;
+
+    try {
+      await this.prismaService.link.update({
+        where: { id: link.id },
+        data: {
+          healthStatus,
+          healthStatusCode: result.statusCode,
+          healthRedirects: result.redirects,
+          healthLatency: result.latency,
+          healthError: result.error,
+          healthCheckedAt: new Date(),
+        },
+      });
+
+      // The owner is only notified once, when the link starts failing
+      if (healthStatus === LinkHealth.BROKEN && link.healthStatus !== LinkHealth.BROKEN && link.user) {
+        await this.novuService.sendBrokenLinkEmail(link.user, {
+          id: link.id,
+          key: link.key,
+          url: link.url,
+          statusCode: result.statusCode,
+          error: result.error,
+        });
+      }
+    } catch (err) {
+      // The link may have been deleted while it was checked
+      this.logger.error(`Failed to record the health of link ${link.id}: ${err.message}`);
+    }
+  }
+
+  /**
+   * Checks the destinations of the active links again with the safe url checkers, a destination may turn malicious after
+   * the link was created. Links with an unsafe destination are quarantined, and their owner and the admins are notified.
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async handleSafeUrlRescans() {
+    const { enable, rescanIntervalHours } = this.configService.getConfig().safeUrl;
+    if (!enable || this.isRescanning) {
+      return;
+    }
+
+    this.isRescanning = true;
+
+    try {
+      const now = new Date();
+      const links = await this.prismaService.link.findMany({
+        where: {
+          archivedAt: null,
+          quarantinedAt: null,
+          safeUrlReleasedAt: null,
+          type: LinkType.URL,
+          OR: [{ expirationTime: null }, { expirationTime: { gt: now } }],
+          AND: [
+            {
+              OR: [
+                { safeUrlCheckedAt: null },
+                { safeUrlCheckedAt: { lte: new Date(now.getTime() - rescanIntervalHours * 60 * 60 * 1000) } },
+              ],
+            },
+          ],
+        },
+        select: SAFE_URL_RESCAN_SELECT,
+        orderBy: {
+          safeUrlCheckedAt: { sort: 'asc', nulls: 'first' },
+        },
+        take: SAFE_URL_RESCAN_BATCH_SIZE,
+      });
+
+      // Loaded once the first link is quarantined
+      let admins: Pick<User, 'id' | 'email'>[] | undefined;
+      let quarantinedCount = 0;
+
+      for (const link of links) {
+        try {
+          const unsafeUrl = await this.findUnsafeUrl(link);
+          if (!unsafeUrl) {
+            await this.prismaService.link.update({ where: { id: link.id }, data: { safeUrlCheckedAt: new Date() } });
+            continue;
+          }
+
+          if (!admins) {
+            admins = await this.prismaService.user.findMany({ where: { role: Role.ADMIN }, select: { id: true, email: true } });
+          }
+
+          await this.quarantineLink(link, unsafeUrl, admins);
+          quarantinedCount++;
+        } catch (err) {
+          // The link is rescanned by the next run
+          this.logger.error(`Failed to rescan link ${link.id}: ${err.message}`);
+        }
+      }
+
+      if (quarantinedCount) {
+        this.logger.log(`Quarantined ${quarantinedCount} links with an unsafe destination`);
+      }
+    } finally {
+      this.isRescanning = false;
+    }
+  }
+
+  private async findUnsafeUrl(link: SafeUrlRescanLink): Promise<string | undefined> {
+    const urls = getDestinationUrls({
+      url: link.url,
+      rules: link.rules as unknown as RedirectRule[],
+      variants: link.variants as unknown as RedirectVariant[],
+      scheduledChanges: link.scheduledChanges,
+      deepLinks: link.deepLinks as unknown as DeepLinks,
+    });
+
+    for (const url of urls) {
+      if (!(await this.safeUrlService.isSafeUrl(url))) {
+        return url;
+      }
+    }
+
+    return undefined;
+  }
+
+  private async quarantineLink(link: SafeUrlRescanLink, unsafeUrl: string, admins: Pick<User, 'id' | 'email'>[]) {
+    const now = new Date();
+    await this.prismaService.link.update({ where: { id: link.id }, data: { quarantinedAt: now, safeUrlCheckedAt: now } });
+    // The cached link would keep redirecting until it expires
+    await this.appCacheService.del(getLinkCacheKey(link.key, link.domain?.name));
+
+    try {
+      if (link.user) {
+        await this.novuService.sendQuarantinedLinkEmail(link.user, link, unsafeUrl);
+      }
+      await this.novuService.sendQuarantineReviewEmail(admins, link, unsafeUrl);
+    } catch (err) {
+      this.logger.error(`Failed to notify about the quarantined link ${link.id}: ${err.message}`);
+    }
+  }
 }
@@ -2,16 +2,27 @@ import { NoSerialize, component$, noSerialize, useSignal, useVisibleTask$, Signa
 import ApexCharts, { ApexOptions } from 'apexcharts';
 import { authorizedFetch } from '../../../../shared/auth.service';
 import { isDarkMode } from '../../../theme-switcher/theme-switcher';
-import { fillMissingDates, getDateFormatter } from './utils';
+import { fillMissingDates, getDateFormatter, toXAxisAnnotations } from './utils';
 import { LuBarChart } from '@qwikest/icons/lucide';
 
 interface ClicksChartProps {
-  urlKey: string;
+  linkId: string;
   url: string;
   daysDuration: number;
-  initialData: { day: string; count: string }[];
+  initialData: ClicksOverTime;
+
+  // Points in time to mark on the timeline, such as changes of the link
+  annotations?: ChartAnnotation[];
+}
+
+export interface ChartAnnotation {
+  date: string;
+  label: string;
 }
 
+// The count of every period includes the scans of the QR code of the link
+export type ClicksOverTime = { day: string; count: string; scans?: string }[];
+
 export type ChartData = {
   x: Date;
   y: number;
@@ -22,15 +33,22 @@ export const ClicksChart = component$((props: ClicksChartProps) => {
   const chartInstance = useSignal<NoSerialize<ApexCharts> | null>(null);
   const isInitialized = useSignal(false);
   const totalClicks = useSignal(props.initialData.reduce((acc, { count }) => acc + parseInt(count, 10), 0));
+  const totalScans = useSignal(sumScans(props.initialData));
   const chartDescription = useSignal('7 days');
 
   useVisibleTask$(async ({ track }) => {
     track(() => props.daysDuration);
+    track(() => props.annotations);
 
-    const data: { clicksOverTime: { day: string; count: string }[] } = await fetchChartData(props.urlKey, props.daysDuration);
+    const data: { clicksOverTime: ClicksOverTime } = await fetchChartData(props.linkId, props.daysDuration);
     const filledData = fillMissingDates(data.clicksOverTime, props.daysDuration);
+    const filledScans = fillMissingDates(
+      data.clicksOverTime.map(({ day, scans }) => ({ day, count: scans || '0' })),
+      props.daysDuration
+    );
     const formatter = getDateFormatter(props.daysDuration);
     totalClicks.value = data.clicksOverTime.reduce((acc, { count }) => acc + parseInt(count, 10), 0);
+    totalScans.value = sumScans(data.clicksOverTime);
     updateChartDescription(chartDescription, props.daysDuration);
 
     if (!chartInstance.value) {
@@ -41,7 +59,11 @@ export const ClicksChart = component$((props: ClicksChartProps) => {
           toolbar: { show: false },
           background: 'transparent',
         },
-        series: [{ name: 'Clicks', data: filledData }],
+        series: [
+          { name: 'Clicks', data: filledData },
+          { name: 'QR scans', data: filledScans },
+        ],
+        annotations: { xaxis: toXAxisAnnotations(props.annotations) },
         xaxis: {
           type: 'datetime',
           labels: {
@@ -92,7 +114,8 @@ export const ClicksChart = component$((props: ClicksChartProps) => {
     } else {
       chartInstance.value.updateOptions({
         xaxis: { labels: { formatter } },
-        series: [{ data: filledData }],
+        series: [{ data: filledData }, { data: filledScans }],
+        annotations: { xaxis: toXAxisAnnotations(props.annotations) },
       });
     }
   });
@@ -107,6 +130,9 @@ export const ClicksChart = component$((props: ClicksChartProps) => {
               <h5 class="leading-none text-3xl font-bold">{totalClicks}</h5>
             </div>
             <p class="text-base font-normal text-gray-500 dark:text-gray-400">{`Clicks for the last ${chartDescription.value}`}</p>
+            {totalScans.value ? (
+              <p class="text-sm font-normal text-gray-500 dark:text-gray-400">{`${totalScans.value} of them from QR code scans`}</p>
+            ) : null}
           </div>
         </div>
         {!isInitialized.value ? (
@@ -120,6 +146,8 @@ export const ClicksChart = component$((props: ClicksChartProps) => {
   );
 });
 
+const sumScans = (data: ClicksOverTime) => data.reduce((acc, { scans }) => acc + parseInt(scans || '0', 10), 0);
+
 const updateChartDescription = (chartDescription: Signal<string>, daysDuration: number) => {
   switch (daysDuration) {
     case 1:
@@ -137,9 +165,9 @@ const updateChartDescription = (chartDescription: Signal<string>, daysDuration:
   }
 };
 
-async function fetchChartData(key: string, days: number) {
+async function fetchChartData(linkId: string, days: number) {
   try {
-    const response = await authorizedFetch(`${process.env.CLIENTSIDE_API_DOMAIN}/api/v1/analytics/${key}?days=${days}`);
+    const response = await authorizedFetch(`${process.env.CLIENTSIDE_API_DOMAIN}/api/v1/analytics/${linkId}?days=${days}`);
     return response.json();
   } catch (err) {
     console.error('Could not fetch clicks chart data', err);
@@ -1,4 +1,18 @@
-import { ChartData } from './clicks-chart';
+import { ChartAnnotation, ChartData } from './clicks-chart';
+
+export function toXAxisAnnotations(annotations: ChartAnnotation[] = []): XAxisAnnotations[] {
+  return annotations.map(({ date, label }) => ({
+    x: new Date(date).getTime(),
+    borderColor: '#f59e0b',
+    strokeDashArray: 4,
+    label: {
+      text: label,
+      borderColor: '#f59e0b',
+      orientation: 'horizontal',
+      style: { color: '#fff', background: '#f59e0b' },
+    },
+  }));
+}
 
 export function getDateFormatter(daysDuration: number): (value: Date | string) => string {
   if (daysDuration === 1) {
@@ -11,7 +11,7 @@ interface Location {
 }
 
 interface CountriesChartProps {
-  urlKey: string;
+  linkId: string;
   daysDuration: number;
   initialData: Location[];
 }
@@ -29,7 +29,7 @@ export const CountriesChart = component$((props: CountriesChartProps) => {
     track(() => props.daysDuration);
 
     isLoading.value = true;
-    const data = await fetchAnalyticsChartData(props.urlKey, selectedCategory.value, props.daysDuration);
+    const data = await fetchAnalyticsChartData(props.linkId, selectedCategory.value, props.daysDuration);
     locations.value = data;
     isLoading.value = false;
   });
@@ -11,7 +11,7 @@ interface Device {
 }
 
 interface DevicesChartProps {
-  urlKey: string;
+  linkId: string;
   daysDuration: number;
   initialData: Device[];
 }
@@ -26,7 +26,7 @@ export const DevicesChart = component$((props: DevicesChartProps) => {
     track(() => selectedCategory.value);
     track(() => props.daysDuration);
 
-    const data = await fetchAnalyticsChartData(props.urlKey, selectedCategory.value, props.daysDuration);
+    const data = await fetchAnalyticsChartData(props.linkId, selectedCategory.value, props.daysDuration);
     devices.value = data;
   });
 
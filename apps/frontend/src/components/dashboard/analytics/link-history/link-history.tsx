@@ -0,0 +1,126 @@
+import { component$, $, Signal, useSignal, useStylesScoped$ } from '@builder.io/qwik';
+import { HiArrowUturnLeftOutline } from '@qwikest/icons/heroicons';
+import { authorizedFetch } from '../../../../shared/auth.service';
+import { formatDate, formatDateDay } from '../../../../lib/date-utils';
+import { useToaster } from '../../../toaster/toaster';
+import { NoData } from '../../empty-data/no-data';
+import { ChartAnnotation } from '../clicks-chart/clicks-chart';
+import styles from '../analytics-chart.css?inline';
+
+// The values of the link before each change, the newest change first
+export interface LinkHistoryEntry {
+  id: string;
+  url: string;
+  utm?: Record<string, string> | null;
+  hasPassword: boolean;
+  expirationTime?: string | null;
+  createdAt: string;
+  actor: { id: string; name: string } | null;
+}
+
+export const toHistoryAnnotations = (history: LinkHistoryEntry[]): ChartAnnotation[] =>
+  history.map(({ createdAt, actor }) => ({ date: createdAt, label: actor ? `Edited by ${actor.name}` : 'Scheduled change' }));
+
+interface LinkHistoryProps {
+  linkId: string;
+  history: Signal<LinkHistoryEntry[]>;
+}
+
+export const LinkHistory = component$(({ linkId, history }: LinkHistoryProps) => {
+  useStylesScoped$(styles);
+
+  const toaster = useToaster();
+  const isLoading = useSignal(false);
+  // Previous passwords are not kept, reverting to a password protected version sets a new one
+  const passwordEntryId = useSignal<string | null>(null);
+  const newPassword = useSignal('');
+  const linkApi = `${process.env.CLIENTSIDE_API_DOMAIN}/api/v1/links/${linkId}`;
+
+  const revert = $(async (entryId: string, password?: string) => {
+    isLoading.value = true;
+
+    try {
+      const response = await authorizedFetch(`${linkApi}/history/${entryId}/revert`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(password ? { password } : {}),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        toaster.add({
+          title: 'Something went wrong',
+          description: data?.message || 'Please try again later',
+          type: 'error',
+        });
+        return;
+      }
+
+      const historyResponse = await authorizedFetch(`${linkApi}/history`);
+      history.value = historyResponse.ok ? await historyResponse.json() : history.value;
+      passwordEntryId.value = null;
+      newPassword.value = '';
+      toaster.add({ title: 'Success', description: 'The link has been reverted', type: 'info' });
+    } finally {
+      isLoading.value = false;
+    }
+  });
+
+  return (
+    <div class="relative z-0 dark:bg-slate-800 bg-white px-5 py-5 rounded-lg shadow overflow-hidden">
+      <div class="mb-3 flex justify-between">
+        <h1 class="text-lg font-semibold">History</h1>
+      </div>
+
+      <div class="flex flex-col gap-1 overflow-y-auto max-h-[300px] pb-4 scrollbar-hide relative">
+        {history.value.length === 0 ? (
+          <div class="pt-4">
+            <NoData title="No Changes" description="The destination of this link was never changed." />
+          </div>
+        ) : (
+          history.value.map((entry) => (
+            <div key={entry.id} class="flex items-center justify-between gap-4 py-2 border-b border-gray-100 dark:border-gray-700">
+              <div class="flex flex-col text-left min-w-0">
+                <span class="text-sm truncate">{entry.url}</span>
+                <span class="text-xs text-gray-500">
+                  {formatDate(new Date(entry.createdAt))} · {entry.actor ? entry.actor.name : 'Scheduled change'}
+                  {entry.hasPassword && ' · Password protected'}
+                  {entry.expirationTime && ` · Expires at ${formatDateDay(new Date(entry.expirationTime))}`}
+                  {entry.utm && ` · ${Object.keys(entry.utm).length} UTM parameters`}
+                </span>
+              </div>
+              {passwordEntryId.value === entry.id ? (
+                <div class="flex items-center gap-1 shrink-0">
+                  <input
+                    type="password"
+                    placeholder="New password"
+                    class="input input-bordered input-xs w-32"
+                    value={newPassword.value}
+                    onInput$={(ev: InputEvent) => (newPassword.value = (ev.target as HTMLInputElement).value)}
+                  />
+                  <button
+                    class="btn btn-xs btn-ghost"
+                    disabled={isLoading.value || !newPassword.value}
+                    onClick$={() => revert(entry.id, newPassword.value)}
+                  >
+                    <HiArrowUturnLeftOutline class="w-4 h-4" />
+                    Revert
+                  </button>
+                </div>
+              ) : (
+                <button
+                  class="btn btn-xs btn-ghost"
+                  disabled={isLoading.value}
+                  onClick$={() => (entry.hasPassword ? (passwordEntryId.value = entry.id) : revert(entry.id))}
+                >
+                  <HiArrowUturnLeftOutline class="w-4 h-4" />
+                  Revert
+                </button>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+});
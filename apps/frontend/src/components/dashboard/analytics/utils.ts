@@ -1,8 +1,8 @@
 import { authorizedFetch } from '../../../shared/auth.service';
 
-export const fetchAnalyticsChartData = async (key: string, category: string, days: number) => {
+export const fetchAnalyticsChartData = async (linkId: string, category: string, days: number) => {
   try {
-    const response = await authorizedFetch(`${process.env.CLIENTSIDE_API_DOMAIN}/api/v1/analytics/${key}/${category}?days=${days}`);
+    const response = await authorizedFetch(`${process.env.CLIENTSIDE_API_DOMAIN}/api/v1/analytics/${linkId}/${category}?days=${days}`);
     const data = await response.json();
     return data.data;
   } catch (err) {
@@ -0,0 +1,72 @@
+import { component$, useSignal, useStylesScoped$, useVisibleTask$ } from '@builder.io/qwik';
+import { RedirectVariant, getVariantShares } from '@reduced.to/utils';
+import { NoData } from '../../empty-data/no-data';
+import { fetchAnalyticsChartData } from '../utils';
+import styles from '../analytics-chart.css?inline';
+
+interface Variant {
+  field: string | null;
+  count: number;
+}
+
+interface VariantsChartProps {
+  linkId: string;
+  daysDuration: number;
+  initialData: Variant[];
+  variants: RedirectVariant[];
+}
+
+export const VariantsChart = component$((props: VariantsChartProps) => {
+  useStylesScoped$(styles);
+
+  const clicks = useSignal<Variant[]>(props.initialData);
+
+  useVisibleTask$(async ({ track }) => {
+    track(() => props.daysDuration);
+
+    clicks.value = await fetchAnalyticsChartData(props.linkId, 'variants', props.daysDuration);
+  });
+
+  const total = clicks.value.reduce((sum, item) => sum + Number(item.count), 0);
+  const shares = getVariantShares(props.variants);
+
+  return (
+    <div class="relative z-0 h-[400px] dark:bg-slate-800 bg-white px-5 py-5 rounded-lg shadow overflow-hidden">
+      <div class="mb-3 flex justify-between">
+        <h1 class="text-lg font-semibold">Variants</h1>
+      </div>
+
+      <div class="flex flex-col gap-1 overflow-y-auto h-[300px] pb-4 scrollbar-hide relative">
+        {clicks.value.length === 0 ? (
+          <div class="pt-12">
+            <NoData title="No Data Available" description="No variants to display." />
+          </div>
+        ) : (
+          clicks.value.map((item) => {
+            const share = shares.find(({ url }) => url === item.field)?.share;
+
+            return (
+              <div key={item.field || 'other'} class="group flex items-center justify-between hover:bg-gray-50 dark:hover:bg-gray-500/10">
+                <div class="relative z-10 flex h-8 w-full max-w-[calc(100%-6rem)] items-center">
+                  <div class="z-10 flex items-center space-x-2 px-2 min-w-0">
+                    <div class="truncate text-sm text-gray-800 dark:text-gray-200 underline-offset-4 group-hover:underline">
+                      {item.field || 'Other'}
+                    </div>
+                    {share !== undefined && <span class="badge badge-sm badge-ghost shrink-0">{share}%</span>}
+                  </div>
+                  <div
+                    class="absolute h-full origin-left rounded-sm bg-orange-100 dark:bg-orange-500/30"
+                    style={{ width: `${(item.count / clicks.value[0].count) * 100}%`, transform: 'scaleX(1)' }}
+                  ></div>
+                </div>
+                <p class="z-10 px-2 text-sm text-gray-600 dark:text-gray-200">
+                  {item.count} ({total ? Math.round((Number(item.count) / total) * 100) : 0}%)
+                </p>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+});
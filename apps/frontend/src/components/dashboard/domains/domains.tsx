@@ -0,0 +1,161 @@
+import { component$, useSignal, useVisibleTask$, $ } from '@builder.io/qwik';
+import { HiArrowPathOutline, HiTrashOutline } from '@qwikest/icons/heroicons';
+import { authorizedFetch } from '../../../shared/auth.service';
+import { useToaster } from '../../toaster/toaster';
+import { copyToClipboard } from '../../../utils';
+import { useGetCurrentUser } from '../../../routes/layout';
+import { ConditionalWrapper, getRequiredFeatureLevel } from '../plan-wrapper';
+
+export interface Domain {
+  id: string;
+  name: string;
+  verified: boolean;
+  verificationRecord: {
+    type: string;
+    name: string;
+    value: string;
+  };
+}
+
+const DOMAINS_API = `${process.env.CLIENTSIDE_API_DOMAIN}/api/v1/domains`;
+
+export const Domains = component$(() => {
+  const user = useGetCurrentUser();
+  const toaster = useToaster();
+  const requiredLevel = getRequiredFeatureLevel(user.value?.plan || 'FREE', 'CUSTOM_DOMAINS');
+
+  const domains = useSignal<Domain[]>([]);
+  const newDomain = useSignal('');
+  const isLoading = useSignal(false);
+
+  const fetchDomains = $(async () => {
+    const response = await authorizedFetch(DOMAINS_API);
+    if (response.ok) {
+      domains.value = await response.json();
+    }
+  });
+
+  useVisibleTask$(async () => {
+    if (requiredLevel) {
+      return;
+    }
+
+    await fetchDomains();
+  });
+
+  const request = $(async (url: string, options: RequestInit, successMessage: string) => {
+    isLoading.value = true;
+
+    try {
+      const response = await authorizedFetch(url, { ...options, headers: { 'Content-Type': 'application/json' } });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toaster.add({
+          title: 'Something went wrong',
+          description: data?.message || 'Please try again later',
+          type: 'error',
+        });
+        return false;
+      }
+
+      toaster.add({ title: 'Success', description: successMessage, type: 'info' });
+      await fetchDomains();
+      return true;
+    } finally {
+      isLoading.value = false;
+    }
+  });
+
+  const addDomain = $(async () => {
+    if (!newDomain.value) {
+      return;
+    }
+
+    const created = await request(
+      DOMAINS_API,
+      { method: 'POST', body: JSON.stringify({ name: newDomain.value }) },
+      'The domain has been added, add the TXT record to verify it'
+    );
+
+    if (created) {
+      newDomain.value = '';
+    }
+  });
+
+  return (
+    <div class="block sm:grid grid-cols-3 gap-4">
+      <div>
+        <div class="font-bold">Custom domains</div>
+        <span class="text-sm text-gray-500">Use your own branded domains for your short links</span>
+      </div>
+      <div class="pt-4 sm:pt-0 col-span-2 w-full md:w-2/3 sm:w-full">
+        <ConditionalWrapper access="CUSTOM_DOMAINS">
+          <div class="join w-full">
+            <input
+              type="text"
+              placeholder="go.example.com"
+              class="input input-bordered input-sm join-item w-full"
+              value={newDomain.value}
+              disabled={!!requiredLevel}
+              onInput$={(ev: InputEvent) => {
+                newDomain.value = (ev.target as HTMLInputElement).value;
+              }}
+            />
+            <button class="btn btn-sm btn-primary join-item" disabled={isLoading.value || !!requiredLevel} onClick$={addDomain}>
+              Add domain
+            </button>
+          </div>
+        </ConditionalWrapper>
+        {domains.value.map((domain) => (
+          <div key={domain.id} class="mt-4 rounded-lg border border-gray-200 dark:border-gray-700 p-3">
+            <div class="flex items-center justify-between">
+              <div class="flex items-center gap-2">
+                <span class="font-medium">{domain.name}</span>
+                <span class={`badge badge-sm ${domain.verified ? 'badge-success' : 'badge-warning'}`}>
+                  {domain.verified ? 'Verified' : 'Pending verification'}
+                </span>
+              </div>
+              <div class="flex gap-2">
+                {!domain.verified && (
+                  <button
+                    class="btn btn-xs btn-ghost"
+                    disabled={isLoading.value}
+                    onClick$={() => request(`${DOMAINS_API}/${domain.id}/verify`, { method: 'POST' }, 'The domain has been verified')}
+                  >
+                    <HiArrowPathOutline class="w-4 h-4" />
+                    Verify
+                  </button>
+                )}
+                <button
+                  class="btn btn-xs btn-ghost text-red-500"
+                  disabled={isLoading.value}
+                  onClick$={() => request(`${DOMAINS_API}/${domain.id}`, { method: 'DELETE' }, 'The domain has been deleted')}
+                >
+                  <HiTrashOutline class="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+            {!domain.verified && (
+              <div class="mt-3 text-sm text-gray-500">
+                <p class="mb-2">
+                  Add the following {domain.verificationRecord.type} record to your DNS provider, and point the domain to our servers:
+                </p>
+                <div class="grid grid-cols-4 gap-2 text-xs">
+                  <span class="font-semibold">Name</span>
+                  <code class="col-span-3 truncate cursor-pointer" onClick$={() => copyToClipboard(domain.verificationRecord.name)}>
+                    {domain.verificationRecord.name}
+                  </code>
+                  <span class="font-semibold">Value</span>
+                  <code class="col-span-3 truncate cursor-pointer" onClick$={() => copyToClipboard(domain.verificationRecord.value)}>
+                    {domain.verificationRecord.value}
+                  </code>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+});
@@ -14,7 +14,7 @@ export interface ModalProps {
   idToDelete?: string;
   type: string;
   action: ActionStore<any, any>;
-  operationType: 'delete' | 'cancel' | 'resume';
+  operationType: 'delete' | 'archive' | 'cancel' | 'resume';
   onSubmitHandler?: () => void;
 }
 
@@ -35,6 +35,9 @@ export const GenericModal = component$(({ id, type, confirmation, idToDelete, on
     case 'delete':
       successMessage = `Your ${type} has been deleted successfully.`;
       break;
+    case 'archive':
+      successMessage = `Your ${type} has been archived successfully.`;
+      break;
     case 'cancel':
       successMessage = `Your ${type} has been canceled successfully.`;
       break;
@@ -43,16 +46,18 @@ export const GenericModal = component$(({ id, type, confirmation, idToDelete, on
       break;
   }
 
-  const operationText = operationType === 'delete' ? 'delete' : operationType === 'cancel' ? 'cancel' : 'resume';
-  const errorMessage = `Something went wrong while ${operationText}ing your ${type}. Please try again later.`;
+  const operationText = operationType;
+  const errorMessage = `Something went wrong while ${operationText.replace(/e$/, '')}ing your ${type}. Please try again later.`;
   const confirmationMessage =
     operationType === 'delete'
       ? `This action cannot be undone. This will permanently delete your ${type}.`
+      : operationType === 'archive'
+      ? `Your ${type} will stop working, but you will be able to restore it from the archive before it is permanently deleted.`
       : operationType === 'cancel'
       ? `You will still be able to use your ${type} until the end of the current billing period.`
       : `This will revert your scheduled cancellation and your subscription will remain active.`;
 
-  const buttonClass = operationType === 'delete' ? 'btn-error' : operationType === 'cancel' ? 'btn-error' : 'btn-warning';
+  const buttonClass = operationType === 'resume' ? 'btn-warning' : 'btn-error';
 
   return (
     <>
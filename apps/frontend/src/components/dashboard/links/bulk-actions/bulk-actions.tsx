@@ -0,0 +1,206 @@
+import { component$, useSignal, $, Signal, QRL } from '@builder.io/qwik';
+import { HiXMarkOutline } from '@qwikest/icons/heroicons';
+import { authorizedFetch } from '../../../../shared/auth.service';
+import { useToaster } from '../../../toaster/toaster';
+import { Folder, Tag } from '../../../../lib/tags-utils';
+
+const BULK_API = `${process.env.CLIENTSIDE_API_DOMAIN}/api/v1/links/bulk`;
+
+type BulkOperation = 'archive' | 'setExpiration' | 'addTag' | 'removeTag' | 'move' | 'setPassword' | 'setUtm';
+
+interface BulkLinkResult {
+  id: string;
+  key?: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface BulkActionsProps {
+  selectedIds: Signal<string[]>;
+  tags: Tag[];
+  folders: Folder[];
+  onDone: QRL<() => void>;
+}
+
+export const BulkActions = component$(({ selectedIds, tags, folders, onDone }: BulkActionsProps) => {
+  const toaster = useToaster();
+
+  const operation = useSignal<BulkOperation | ''>('');
+  const value = useSignal('');
+  const utm = useSignal({ utm_source: '', utm_medium: '', utm_campaign: '' });
+  const isLoading = useSignal(false);
+
+  const getPayload = $(() => {
+    switch (operation.value) {
+      case 'setExpiration':
+        return { expirationTime: value.value ? new Date(value.value).getTime() : null };
+      case 'addTag':
+      case 'removeTag':
+        return { tagId: value.value };
+      case 'move':
+        return { folderId: value.value || null };
+      case 'setPassword':
+        return { password: value.value || null };
+      case 'setUtm':
+        return utm.value;
+      default:
+        return {};
+    }
+  });
+
+  const apply = $(async () => {
+    if (!operation.value) {
+      return;
+    }
+
+    isLoading.value = true;
+
+    try {
+      const response = await authorizedFetch(BULK_API, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ operation: operation.value, ids: selectedIds.value, ...(await getPayload()) }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toaster.add({
+          title: 'Something went wrong',
+          description: (Array.isArray(data?.message) ? data.message[0] : data?.message) || 'Please try again later',
+          type: 'error',
+        });
+        return;
+      }
+
+      const results: BulkLinkResult[] = data.results;
+      const failed = results.filter(({ success }) => !success);
+
+      toaster.add({
+        title: failed.length ? 'Some links were not changed' : 'Success',
+        description: failed.length
+          ? `${results.length - failed.length} links changed, ${failed.length} failed: ${failed[0].error}`
+          : `${results.length} links changed`,
+        type: failed.length ? 'error' : 'info',
+      });
+
+      operation.value = '';
+      value.value = '';
+      selectedIds.value = [];
+      await onDone();
+    } finally {
+      isLoading.value = false;
+    }
+  });
+
+  return (
+    <div class="flex flex-wrap items-center gap-2 rounded-xl p-3 mb-3 bg-white dark:bg-dark-modal shadow-lg">
+      <span class="text-sm font-medium">{selectedIds.value.length} selected</span>
+      <select
+        class="select select-bordered select-sm"
+        value={operation.value}
+        onChange$={(ev: Event) => {
+          operation.value = (ev.target as HTMLSelectElement).value as BulkOperation;
+          value.value = '';
+        }}
+      >
+        <option value="" selected={!operation.value}>
+          Choose an action...
+        </option>
+        <option value="archive">Archive</option>
+        <option value="setExpiration">Set expiration</option>
+        <option value="addTag">Add tag</option>
+        <option value="removeTag">Remove tag</option>
+        <option value="move">Move to folder</option>
+        <option value="setPassword">Set password</option>
+        <option value="setUtm">Change UTM</option>
+      </select>
+      {operation.value === 'setExpiration' && (
+        <input
+          type="datetime-local"
+          class="input input-bordered input-sm"
+          value={value.value}
+          onInput$={(ev: InputEvent) => {
+            value.value = (ev.target as HTMLInputElement).value;
+          }}
+        />
+      )}
+      {(operation.value === 'addTag' || operation.value === 'removeTag') && (
+        <select
+          class="select select-bordered select-sm"
+          onChange$={(ev: Event) => {
+            value.value = (ev.target as HTMLSelectElement).value;
+          }}
+        >
+          <option value="" selected={!value.value}>
+            Choose a tag...
+          </option>
+          {tags.map((tag) => (
+            <option key={tag.id} value={tag.id}>
+              {tag.name}
+            </option>
+          ))}
+        </select>
+      )}
+      {operation.value === 'move' && (
+        <select
+          class="select select-bordered select-sm"
+          onChange$={(ev: Event) => {
+            value.value = (ev.target as HTMLSelectElement).value;
+          }}
+        >
+          <option value="" selected={!value.value}>
+            No folder
+          </option>
+          {folders.map((folder) => (
+            <option key={folder.id} value={folder.id}>
+              {folder.name}
+            </option>
+          ))}
+        </select>
+      )}
+      {operation.value === 'setPassword' && (
+        <input
+          type="password"
+          placeholder="Leave empty to remove the password"
+          class="input input-bordered input-sm"
+          value={value.value}
+          onInput$={(ev: InputEvent) => {
+            value.value = (ev.target as HTMLInputElement).value;
+          }}
+        />
+      )}
+      {operation.value === 'setUtm' &&
+        (['utm_source', 'utm_medium', 'utm_campaign'] as const).map((field) => (
+          <input
+            key={field}
+            type="text"
+            placeholder={field}
+            maxLength={100}
+            class="input input-bordered input-sm w-32"
+            value={utm.value[field]}
+            onInput$={(ev: InputEvent) => {
+              utm.value = { ...utm.value, [field]: (ev.target as HTMLInputElement).value };
+            }}
+          />
+        ))}
+      <button
+        class="btn btn-sm btn-primary"
+        disabled={
+          isLoading.value || !operation.value || ((operation.value === 'addTag' || operation.value === 'removeTag') && !value.value)
+        }
+        onClick$={apply}
+      >
+        Apply
+      </button>
+      <button
+        class="btn btn-sm btn-ghost ml-auto"
+        onClick$={() => {
+          selectedIds.value = [];
+        }}
+      >
+        <HiXMarkOutline class="w-4 h-4" />
+        Clear
+      </button>
+    </div>
+  );
+});
@@ -0,0 +1,269 @@
+import { component$, useSignal, useVisibleTask$, $, QRL } from '@builder.io/qwik';
+import { HiArrowDownTrayOutline } from '@qwikest/icons/heroicons';
+import { authorizedFetch } from '../../../../shared/auth.service';
+import { useToaster } from '../../../toaster/toaster';
+
+export const IMPORT_LINKS_MODAL_ID = 'import-links-modal';
+
+const IMPORTS_API = `${process.env.CLIENTSIDE_API_DOMAIN}/api/v1/imports`;
+
+// The progress of the job is polled while it is processed in the background
+const POLL_INTERVAL_MS = 2000;
+
+// Fields of the links that can be read from the columns of the file
+const MAPPING_FIELDS = [
+  { field: 'url', label: 'Destination URL', placeholder: 'url' },
+  { field: 'key', label: 'Short key', placeholder: 'key' },
+  { field: 'description', label: 'Description', placeholder: 'description' },
+  { field: 'expirationTime', label: 'Expiration', placeholder: 'expiration' },
+  { field: 'utm_source', label: 'UTM source', placeholder: 'utm_source' },
+  { field: 'utm_medium', label: 'UTM medium', placeholder: 'utm_medium' },
+  { field: 'utm_campaign', label: 'UTM campaign', placeholder: 'utm_campaign' },
+] as const;
+
+// Shorteners whose exports can be migrated, the links keep their keys and click totals
+export const MIGRATION_SOURCES = {
+  BITLY: 'Bitly',
+  REBRANDLY: 'Rebrandly',
+  YOURLS: 'YOURLS',
+};
+
+export type MigrationSource = keyof typeof MIGRATION_SOURCES;
+
+interface ImportJob {
+  id: string;
+  fileName: string;
+  status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
+  totalRows: number;
+  processedRows: number;
+  createdCount: number;
+  failedCount: number;
+}
+
+const isActive = (job: ImportJob | null) => job?.status === 'PENDING' || job?.status === 'PROCESSING';
+
+export interface ImportLinksProps {
+  onDone: QRL<() => void>;
+}
+
+export const ImportLinks = component$(({ onDone }: ImportLinksProps) => {
+  const toaster = useToaster();
+
+  const file = useSignal<File | null>(null);
+  const mapping = useSignal<Record<string, string>>({});
+  const source = useSignal<MigrationSource | ''>('');
+  const onKeyConflict = useSignal<'REPORT' | 'GENERATE'>('REPORT');
+  const job = useSignal<ImportJob | null>(null);
+  const isLoading = useSignal(false);
+
+  // Resume the progress of an import that was started before the page was loaded
+  useVisibleTask$(async () => {
+    const response = await authorizedFetch(IMPORTS_API);
+    if (!response.ok) {
+      return;
+    }
+
+    const jobs: ImportJob[] = await response.json();
+    job.value = jobs.find(isActive) || null;
+  });
+
+  useVisibleTask$(({ track, cleanup }) => {
+    const jobId = track(() => (isActive(job.value) ? job.value?.id : undefined));
+    if (!jobId) {
+      return;
+    }
+
+    const interval = setInterval(async () => {
+      const response = await authorizedFetch(`${IMPORTS_API}/${jobId}`);
+      if (!response.ok) {
+        return;
+      }
+
+      job.value = await response.json();
+
+      if (!isActive(job.value)) {
+        toaster.add({
+          title: job.value?.status === 'COMPLETED' ? 'Import finished' : 'Import failed',
+          description: `${job.value?.createdCount} links created, ${job.value?.failedCount} failed`,
+          type: job.value?.status === 'COMPLETED' && !job.value.failedCount ? 'info' : 'error',
+        });
+        await onDone();
+      }
+    }, POLL_INTERVAL_MS);
+
+    cleanup(() => clearInterval(interval));
+  });
+
+  const upload = $(async () => {
+    if (!file.value) {
+      return;
+    }
+
+    const formData = new FormData();
+    formData.append('file', file.value);
+    if (source.value) {
+      formData.append('source', source.value);
+      formData.append('onKeyConflict', onKeyConflict.value);
+    } else {
+      Object.entries(mapping.value).forEach(([field, column]) => {
+        if (column.trim()) {
+          formData.append(field, column.trim());
+        }
+      });
+    }
+
+    isLoading.value = true;
+
+    try {
+      const response = await authorizedFetch(source.value ? `${IMPORTS_API}/migrations` : IMPORTS_API, { method: 'POST', body: formData });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toaster.add({
+          title: 'Something went wrong',
+          description: (Array.isArray(data?.message) ? data.message[0] : data?.message) || 'Please try again later',
+          type: 'error',
+        });
+        return;
+      }
+
+      job.value = data;
+      file.value = null;
+    } finally {
+      isLoading.value = false;
+    }
+  });
+
+  const downloadReport = $(async () => {
+    if (!job.value) {
+      return;
+    }
+
+    const response = await authorizedFetch(`${IMPORTS_API}/${job.value.id}/report`);
+    if (!response.ok) {
+      toaster.add({
+        title: 'Something went wrong',
+        description: 'We could not download the report. Please try again later.',
+        type: 'error',
+      });
+      return;
+    }
+
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(await response.blob());
+    link.download = 'import-report.csv';
+    link.click();
+    URL.revokeObjectURL(link.href);
+  });
+
+  const progress = job.value?.totalRows ? Math.round((job.value.processedRows / job.value.totalRows) * 100) : 0;
+
+  return (
+    <dialog id={IMPORT_LINKS_MODAL_ID} class="modal">
+      <div class="modal-box">
+        <h1 class="text-2xl font-bold text-gray-800 dark:text-gray-200">Import links</h1>
+        <p class="text-gray-600 dark:text-gray-400">
+          Upload a CSV or Excel file with a link on every row. The links are created in the background, you can close this window.
+        </p>
+        {isActive(job.value) ? (
+          <div class="py-5">
+            <p class="text-sm mb-2">
+              Importing {job.value?.fileName}: {job.value?.processedRows} of {job.value?.totalRows} rows
+            </p>
+            <progress class="progress progress-primary w-full" value={progress} max="100"></progress>
+          </div>
+        ) : (
+          <div class="py-5 flex flex-col gap-3">
+            {job.value && (
+              <div class="flex items-center gap-2 text-sm">
+                <span>
+                  Last import: {job.value.createdCount} links created, {job.value.failedCount} failed
+                </span>
+                {job.value.failedCount > 0 && (
+                  <button class="btn btn-ghost btn-xs" onClick$={downloadReport}>
+                    <HiArrowDownTrayOutline class="h-4 w-4" />
+                    Download error report
+                  </button>
+                )}
+              </div>
+            )}
+            <select
+              class="select select-bordered w-full"
+              onChange$={(ev: Event) => {
+                source.value = (ev.target as HTMLSelectElement).value as MigrationSource;
+              }}
+            >
+              <option value="" selected={!source.value}>
+                File of links
+              </option>
+              {Object.entries(MIGRATION_SOURCES).map(([value, name]) => (
+                <option key={value} value={value} selected={source.value === value}>
+                  {`Export of ${name}`}
+                </option>
+              ))}
+            </select>
+            <input
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              class="file-input file-input-bordered w-full"
+              onChange$={(ev: Event) => {
+                file.value = (ev.target as HTMLInputElement).files?.[0] || null;
+              }}
+            />
+            {source.value ? (
+              <label class="form-control">
+                <span class="label-text text-xs mb-1">When the original key of a link is already taken or cannot be used</span>
+                <select
+                  class="select select-bordered select-sm"
+                  onChange$={(ev: Event) => {
+                    onKeyConflict.value = (ev.target as HTMLSelectElement).value as 'REPORT' | 'GENERATE';
+                  }}
+                >
+                  <option value="REPORT" selected={onKeyConflict.value === 'REPORT'}>
+                    Skip the link and report it
+                  </option>
+                  <option value="GENERATE" selected={onKeyConflict.value === 'GENERATE'}>
+                    Use a generated key
+                  </option>
+                </select>
+              </label>
+            ) : (
+              <div class="collapse collapse-arrow border border-base-300">
+                <input type="checkbox" />
+                <div class="collapse-title text-sm font-medium">Column mapping</div>
+                <div class="collapse-content">
+                  <p class="text-xs text-gray-500 mb-2">
+                    Columns are matched by their header, fill in the headers of your file if they are named differently.
+                  </p>
+                  <div class="grid grid-cols-2 gap-2">
+                    {MAPPING_FIELDS.map(({ field, label, placeholder }) => (
+                      <label key={field} class="form-control">
+                        <span class="label-text text-xs">{label}</span>
+                        <input
+                          type="text"
+                          placeholder={placeholder}
+                          maxLength={100}
+                          class="input input-bordered input-sm"
+                          value={mapping.value[field] || ''}
+                          onInput$={(ev: InputEvent) => {
+                            mapping.value = { ...mapping.value, [field]: (ev.target as HTMLInputElement).value };
+                          }}
+                        />
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+            <button class="btn btn-primary" disabled={isLoading.value || !file.value} onClick$={upload}>
+              {isLoading.value ? <span class="loading loading-spinner"></span> : 'Import'}
+            </button>
+          </div>
+        )}
+      </div>
+      <form method="dialog" class="modal-backdrop">
+        <button>close</button>
+      </form>
+    </dialog>
+  );
+});
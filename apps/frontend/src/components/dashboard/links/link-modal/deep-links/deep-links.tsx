@@ -0,0 +1,84 @@
+import { component$, $, Signal } from '@builder.io/qwik';
+import { DEEP_LINK_PLATFORMS, DeepLink, DeepLinkPlatform, DeepLinks } from '@reduced.to/utils';
+import { normalizeUrl } from '../../../../../utils';
+
+export type DeepLinksForm = Record<DeepLinkPlatform, DeepLink>;
+
+const PLATFORMS: Record<DeepLinkPlatform, { name: string; appPlaceholder: string; storePlaceholder: string }> = {
+  ios: {
+    name: 'iOS',
+    appPlaceholder: 'myapp://product/42',
+    storePlaceholder: 'https://apps.apple.com/app/id123456789',
+  },
+  android: {
+    name: 'Android',
+    appPlaceholder: 'myapp://product/42',
+    storePlaceholder: 'https://play.google.com/store/apps/details?id=com.example',
+  },
+};
+
+export const emptyDeepLinks = (): DeepLinksForm => ({
+  ios: { appUrl: '', storeUrl: '' },
+  android: { appUrl: '', storeUrl: '' },
+});
+
+export const fromDeepLinks = (deepLinks?: DeepLinks | null): DeepLinksForm => {
+  const form = emptyDeepLinks();
+  DEEP_LINK_PLATFORMS.forEach((platform) => {
+    form[platform] = { ...form[platform], ...deepLinks?.[platform] };
+  });
+  return form;
+};
+
+/**
+ * Platforms left empty are omitted, the API reports the incomplete ones.
+ */
+export const toDeepLinks = (form: DeepLinksForm): DeepLinks =>
+  DEEP_LINK_PLATFORMS.reduce((deepLinks, platform) => {
+    const appUrl = form[platform].appUrl.trim();
+    const storeUrl = form[platform].storeUrl.trim();
+    if (!appUrl && !storeUrl) {
+      return deepLinks;
+    }
+
+    return { ...deepLinks, [platform]: { appUrl, storeUrl: storeUrl && normalizeUrl(storeUrl) } };
+  }, {} as DeepLinks);
+
+export interface DeepLinksProps {
+  deepLinks: Signal<DeepLinksForm>;
+}
+
+export const DeepLinksInput = component$(({ deepLinks }: DeepLinksProps) => {
+  const updateDeepLink = $((platform: DeepLinkPlatform, changes: Partial<DeepLink>) => {
+    deepLinks.value = { ...deepLinks.value, [platform]: { ...deepLinks.value[platform], ...changes } };
+  });
+
+  return (
+    <div class="px-4">
+      <p class="text-xs text-gray-500 pb-2">
+        Mobile visitors open your app when it is installed, or its store page otherwise. Other visitors go to the destination URL.
+      </p>
+      {DEEP_LINK_PLATFORMS.map((platform) => (
+        <div key={platform} class="pb-2">
+          <span class="label-text text-xs font-semibold">{PLATFORMS[platform].name}</span>
+          <div class="flex flex-col gap-2 pt-1">
+            <input
+              type="text"
+              placeholder={`App link, e.g. ${PLATFORMS[platform].appPlaceholder}`}
+              class="input input-bordered input-sm w-full"
+              value={deepLinks.value[platform].appUrl}
+              onInput$={(ev: InputEvent) => updateDeepLink(platform, { appUrl: (ev.target as HTMLInputElement).value })}
+            />
+            <input
+              type="text"
+              placeholder={`Store page, e.g. ${PLATFORMS[platform].storePlaceholder}`}
+              class="input input-bordered input-sm w-full"
+              value={deepLinks.value[platform].storeUrl}
+              onInput$={(ev: InputEvent) => updateDeepLink(platform, { storeUrl: (ev.target as HTMLInputElement).value })}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+});
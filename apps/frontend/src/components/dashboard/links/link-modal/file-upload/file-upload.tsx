@@ -0,0 +1,134 @@
+import { component$, $, Signal, useSignal } from '@builder.io/qwik';
+import { HiArrowUpTrayOutline, HiTrashOutline } from '@qwikest/icons/heroicons';
+import { PLAN_LEVELS } from '@reduced.to/subscription-manager';
+import { LinkFile, MAX_FILE_NAME_LENGTH, formatFileSize, isAllowedContentType } from '@reduced.to/utils';
+import { authorizedFetch } from '../../../../../shared/auth.service';
+import { useToaster } from '../../../../toaster/toaster';
+
+export interface FileUploadProps {
+  file: Signal<LinkFile | null>;
+  plan: string;
+
+  // The file of existing links cannot be replaced or renamed
+  readonly?: boolean;
+}
+
+export const FileUpload = component$(({ file, plan, readonly }: FileUploadProps) => {
+  const toaster = useToaster();
+  const isUploading = useSignal(false);
+
+  const limit = (PLAN_LEVELS[plan] || PLAN_LEVELS.FREE).FEATURES.FILE_LINKS;
+  const contentTypes = limit?.contentTypes || [];
+  const maxSize = (limit?.value || 0) * 1024 * 1024;
+
+  const onUploadFile = $(async (event: Event) => {
+    const input = event.target as HTMLInputElement;
+    const selected = input.files?.[0];
+
+    // Allow selecting the same file again after it was removed
+    input.value = '';
+
+    if (!selected) {
+      return;
+    }
+
+    if (!isAllowedContentType(selected.type, contentTypes)) {
+      toaster.add({
+        title: 'Invalid file type',
+        description: 'This file type is not available for your plan',
+        type: 'error',
+      });
+      return;
+    }
+
+    if (selected.size > maxSize) {
+      toaster.add({
+        title: 'File too large',
+        description: `Files cannot be larger than ${formatFileSize(maxSize)} on your plan`,
+        type: 'error',
+      });
+      return;
+    }
+
+    isUploading.value = true;
+
+    const formData = new FormData();
+    formData.append('file', selected);
+
+    try {
+      const response = await authorizedFetch(`${process.env.CLIENTSIDE_API_DOMAIN}/api/v1/shortener/files`, {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (response.status !== 201) {
+        toaster.add({
+          title: 'Error uploading file',
+          description: data?.message || 'Something went wrong with the file you are trying to upload. Please try again later.',
+          type: 'error',
+        });
+        return;
+      }
+
+      file.value = data as LinkFile;
+    } finally {
+      isUploading.value = false;
+    }
+  });
+
+  return (
+    <div>
+      <label class="label">
+        <span class="label-text">File</span>
+      </label>
+      <input
+        type="file"
+        id="linkFileSelector"
+        accept={contentTypes.join(',')}
+        style="display: none;"
+        onChange$={(event) => onUploadFile(event)}
+      />
+      {file.value ? (
+        <div class="flex items-center gap-2">
+          <input
+            type="text"
+            maxLength={MAX_FILE_NAME_LENGTH}
+            disabled={readonly}
+            class={`input input-bordered w-full ${readonly ? 'input-disabled' : ''}`}
+            value={file.value.name}
+            onInput$={(ev: InputEvent) => {
+              file.value = { ...file.value!, name: (ev.target as HTMLInputElement).value };
+            }}
+          />
+          <span class="text-xs text-gray-500 whitespace-nowrap">{formatFileSize(file.value.size)}</span>
+          {!readonly && (
+            <button
+              type="button"
+              class="btn btn-sm btn-circle btn-ghost text-red-500"
+              onClick$={() => {
+                file.value = null;
+              }}
+            >
+              <HiTrashOutline class="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      ) : (
+        <button
+          type="button"
+          class="btn btn-outline w-full"
+          disabled={isUploading.value}
+          onClick$={$(() => document.getElementById('linkFileSelector')?.click())}
+        >
+          {isUploading.value ? <span class="loading loading-spinner-small h-5 w-5" /> : <HiArrowUpTrayOutline class="w-4 h-4" />}
+          Upload file
+        </button>
+      )}
+      <p class="text-xs text-gray-500 py-2">
+        Visitors download the file through the short link, each download is counted as a click.
+        {limit?.description && ` Your plan allows ${limit.description}.`}
+      </p>
+    </div>
+  );
+});
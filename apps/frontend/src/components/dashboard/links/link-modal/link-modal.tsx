@@ -1,14 +1,35 @@
-import { component$, useSignal, $, Signal } from '@builder.io/qwik';
+import { component$, useSignal, $, Signal, useVisibleTask$ } from '@builder.io/qwik';
 import { Form, globalAction$, zod$ } from '@builder.io/qwik-city';
 import { z } from 'zod';
 import { ACCESS_COOKIE_NAME, authorizedFetch } from '../../../../shared/auth.service';
 import { normalizeUrl } from '../../../../utils';
-import { tomorrow } from '../../../../lib/date-utils';
+import { toDateTimeInputValue, tomorrow } from '../../../../lib/date-utils';
 import { SocialMediaPreview } from './social-media-preview/social-media-preview';
+import { RedirectRuleForm, RedirectRules, fromRedirectRules, toRedirectRules } from './redirect-rules/redirect-rules';
+import { Variants, toVariants } from './variants/variants';
+import { DeepLinksForm, DeepLinksInput, emptyDeepLinks, fromDeepLinks, toDeepLinks } from './deep-links/deep-links';
+import { Schedule, ScheduledChange, ScheduledChangeForm, fromScheduledChanges, toScheduledChanges } from './schedule/schedule';
+import { TagPicker } from './tag-picker/tag-picker';
+import { SocialPreview, SocialPreviewForm, getSocialPreviewImageUrl, isNewSocialPreviewImage } from './social-preview/social-preview';
+import { QR_PAYLOAD_LABELS, QrPayloadForm, QrPayloadInput, emptyQrPayload, fromQrPayload, toQrPayload } from './qr-payload/qr-payload';
+import { FileUpload } from './file-upload/file-upload';
+import { SnippetInput, emptySnippet } from './snippet/snippet';
+import { Folder, Tag } from '../../../../lib/tags-utils';
 import { UNKNOWN_FAVICON } from '../../../temporary-links/utils';
 import { useDebouncer } from '../../../../utils/debouncer';
 import { LuEye, LuEyeOff, LuDices } from '@qwikest/icons/lucide';
-import { sleep } from '@reduced.to/utils';
+import {
+  DeepLinks,
+  LinkFile,
+  LinkSnippet,
+  QR_PAYLOAD_TYPES,
+  QrPayload,
+  QrPayloadType,
+  RedirectRule,
+  RedirectVariant,
+  isReservedKey,
+  sleep,
+} from '@reduced.to/utils';
 import { useGetCurrentUser } from '../../../../../../frontend/src/routes/layout';
 import { ConditionalWrapper, getRequiredFeatureLevel } from '../../plan-wrapper';
 
@@ -16,8 +37,19 @@ export const LINK_MODAL_ID = 'link-modal';
 
 export interface CreateLinkInput {
   url: string;
+
+  // Content of payload links, which have no url, serialized as JSON
+  payload?: string;
+
+  // Uploaded file of file links, which have no url, serialized as JSON
+  file?: string;
+
+  // Content of snippet links, which have no url, serialized as JSON
+  snippet?: string;
   key?: string;
+  domain?: string;
   expirationTime?: string;
+  maxClicks?: string;
   passwordProtection?: string;
 
   // UTM Builder fields
@@ -27,80 +59,194 @@ export interface CreateLinkInput {
   utm_campaign?: string;
   utm_term?: string;
   utm_content?: string;
-}
 
-const CreateLinkInputSchema = z
-  .object({
-    url: z
-      .string({
-        required_error: "The url field can't be empty.",
-      })
-      .min(1, {
-        message: "The url field can't be empty.",
-      })
-      .regex(/^(?:https?:\/\/)?(?:[\w-]+\.)+[a-z]{2,}(?::\d{1,5})?(?:\/\S*)?$/, {
-        message: "The url you've entered is not valid",
-      }),
-    key: z
-      .string()
-      .max(20, { message: 'The short link cannot exceed 20 characters.' })
-      .regex(/^[a-zA-Z0-9-]*$/, {
-        message: 'The short link can only contain letters, numbers, and dashes.',
-      })
-      .optional()
-      .refine(
-        (val) => {
-          if (!val?.length) {
-            return true;
-          }
-          if (val?.length && val?.length < 4) {
-            return false;
-          }
+  // Redirect rules, serialized as JSON
+  rules?: string;
+
+  // A/B testing variants, serialized as JSON
+  variants?: string;
+
+  // App destinations per platform, serialized as JSON
+  deepLinks?: string;
 
+  // Activation timestamp and scheduled destination changes, serialized as JSON
+  activeFrom?: string;
+  scheduledChanges?: string;
+
+  // Ids of the tags, serialized as JSON
+  tags?: string;
+  folderId?: string;
+
+  // Open Graph overrides, the image is a base64 data URI
+  ogTitle?: string;
+  ogDescription?: string;
+  ogImage?: string;
+}
+
+const LinkInputSchema = z.object({
+  url: z
+    .string()
+    .min(1, {
+      message: "The url field can't be empty.",
+    })
+    .regex(/^(?:https?:\/\/)?(?:[\w-]+\.)+[a-z]{2,}(?::\d{1,5})?(?:\/\S*)?$/, {
+      message: "The url you've entered is not valid",
+    })
+    .optional(),
+  payload: z.string().optional(),
+  file: z.string().optional(),
+  snippet: z.string().optional(),
+  key: z
+    .string()
+    .max(20, { message: 'The short link cannot exceed 20 characters.' })
+    .regex(/^[a-zA-Z0-9-]*$/, {
+      message: 'The short link can only contain letters, numbers, and dashes.',
+    })
+    .optional()
+    .refine(
+      (val) => {
+        if (!val?.length) {
           return true;
-        },
-        {
-          message: 'The short link must be at least 4 characters long.',
         }
-      ),
-    expirationTime: z.string().optional(),
-    expirationTimeToggle: z.string().optional(),
-    passwordProtection: z
-      .string()
-      .min(6, {
-        message: 'Password must be at least 6 characters long.',
-      })
-      .max(25, {
-        message: 'Password must be at most 25 characters long.',
-      })
-      .optional(),
-    passwordProtectionToggle: z.string().optional(),
-    utmBuilderToggle: z.string().optional(),
-    utm_ref: z.string().max(100, { message: 'Referral (ref) must be at most 100 characters long' }).optional(),
-    utm_source: z.string().max(100, { message: 'UTM Source must be at most 100 characters long' }).optional(),
-    utm_medium: z.string().max(100, { message: 'UTM Medium must be at most 100 characters long' }).optional(),
-    utm_campaign: z.string().max(100, { message: 'UTM Campaign must be at most 100 characters long' }).optional(),
-    utm_term: z.string().max(100, { message: 'UTM Term must be at most 100 characters long' }).optional(),
-    utm_content: z.string().max(100, { message: 'UTM Content must be at most 100 characters long' }).optional(),
-  })
+        if (val?.length && val?.length < 4) {
+          return false;
+        }
+
+        return true;
+      },
+      {
+        message: 'The short link must be at least 4 characters long.',
+      }
+    )
+    .refine((val) => !val?.length || !isReservedKey(val), {
+      message: 'This short link is reserved, please choose another one.',
+    }),
+  domain: z.string().optional(),
+  expirationTime: z.string().optional(),
+  expirationTimeToggle: z.string().optional(),
+  maxClicks: z
+    .string()
+    .regex(/^[1-9]\d*$/, {
+      message: 'The click limit must be a positive number.',
+    })
+    .optional(),
+  maxClicksToggle: z.string().optional(),
+  passwordProtection: z
+    .string()
+    .min(6, {
+      message: 'Password must be at least 6 characters long.',
+    })
+    .max(25, {
+      message: 'Password must be at most 25 characters long.',
+    })
+    .optional(),
+  passwordProtectionToggle: z.string().optional(),
+  utmBuilderToggle: z.string().optional(),
+  utm_ref: z.string().max(100, { message: 'Referral (ref) must be at most 100 characters long' }).optional(),
+  utm_source: z.string().max(100, { message: 'UTM Source must be at most 100 characters long' }).optional(),
+  utm_medium: z.string().max(100, { message: 'UTM Medium must be at most 100 characters long' }).optional(),
+  utm_campaign: z.string().max(100, { message: 'UTM Campaign must be at most 100 characters long' }).optional(),
+  utm_term: z.string().max(100, { message: 'UTM Term must be at most 100 characters long' }).optional(),
+  utm_content: z.string().max(100, { message: 'UTM Content must be at most 100 characters long' }).optional(),
+  redirectRulesToggle: z.string().optional(),
+  rules: z.string().optional(),
+  variantsToggle: z.string().optional(),
+  variants: z.string().optional(),
+  stickyVariants: z.string().optional(),
+  deepLinksToggle: z.string().optional(),
+  deepLinks: z.string().optional(),
+  scheduleToggle: z.string().optional(),
+  activeFrom: z.string().optional(),
+  scheduledChanges: z.string().optional(),
+  tags: z.string().optional(),
+  folderId: z.string().optional(),
+  socialPreviewToggle: z.string().optional(),
+  ogTitle: z.string().max(100, { message: 'The title must be at most 100 characters long' }).optional(),
+  ogDescription: z.string().max(300, { message: 'The description must be at most 300 characters long' }).optional(),
+  ogImage: z.string().optional(),
+});
+
+const CreateLinkInputSchema = LinkInputSchema.refine((data) => !!(data.url || data.payload || data.file || data.snippet), {
+  message: "The url field can't be empty.",
+  path: ['url'],
+})
   .refine((data) => !(data.expirationTimeToggle && !data.expirationTime), {
     message: 'Please select a date for your link to expire.',
     path: ['expirationTime'],
   })
+  .refine((data) => !(data.maxClicksToggle && !data.maxClicks), {
+    message: 'Please enter the number of clicks your link expires after.',
+    path: ['maxClicks'],
+  })
   .refine((data) => !(data.passwordProtectionToggle && !data.passwordProtection), {
     message: 'Please enter a password for your link.',
     path: ['passwordProtection'],
   });
 
+const UpdateLinkInputSchema = LinkInputSchema.extend({
+  id: z.string(),
+  // An empty password keeps the current password of the link
+  passwordProtection: LinkInputSchema.shape.passwordProtection.or(z.literal('')),
+  hasPassword: z.string().optional(),
+  hasExpirationTime: z.string().optional(),
+  hasMaxClicks: z.string().optional(),
+  hasRules: z.string().optional(),
+  hasVariants: z.string().optional(),
+  hasDeepLinks: z.string().optional(),
+  hasSchedule: z.string().optional(),
+  hasSocialPreview: z.string().optional(),
+  hasOgImage: z.string().optional(),
+})
+  .refine((data) => !!(data.url || data.payload || data.file || data.snippet), {
+    message: "The url field can't be empty.",
+    path: ['url'],
+  })
+  .refine((data) => !(data.expirationTimeToggle && !data.expirationTime), {
+    message: 'Please select a date for your link to expire.',
+    path: ['expirationTime'],
+  })
+  .refine((data) => !(data.maxClicksToggle && !data.maxClicks), {
+    message: 'Please enter the number of clicks your link expires after.',
+    path: ['maxClicks'],
+  })
+  .refine((data) => !(data.passwordProtectionToggle && !data.passwordProtection && !data.hasPassword), {
+    message: 'Please enter a password for your link.',
+    path: ['passwordProtection'],
+  });
+
 type FieldErrors = Partial<Record<keyof CreateLinkInput, string[]>>;
 
+const parseList = <T,>(value?: string): T[] | null => {
+  try {
+    const parsed = JSON.parse(value || '[]');
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+const parseObject = <T,>(value?: string): T | null => {
+  try {
+    const parsed = JSON.parse(value || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
 const useCreateLink = globalAction$(
   async (
     {
       url,
+      payload,
+      file,
+      snippet,
       key,
+      domain,
       expirationTime,
       expirationTimeToggle,
+      maxClicks,
+      maxClicksToggle,
       passwordProtection,
       passwordProtectionToggle,
       utmBuilderToggle,
@@ -110,15 +256,75 @@ const useCreateLink = globalAction$(
       utm_campaign,
       utm_term,
       utm_content,
+      redirectRulesToggle,
+      rules,
+      variantsToggle,
+      variants,
+      stickyVariants,
+      deepLinksToggle,
+      deepLinks,
+      scheduleToggle,
+      activeFrom,
+      scheduledChanges,
+      tags,
+      folderId,
+      socialPreviewToggle,
+      ogTitle,
+      ogDescription,
+      ogImage,
     },
     { fail, cookie }
   ) => {
     const fieldErrors: FieldErrors = {};
+    const redirectRules = redirectRulesToggle ? parseList<RedirectRule>(rules) : [];
+    const linkVariants = variantsToggle ? parseList<RedirectVariant>(variants) : [];
+    const appDeepLinks = deepLinksToggle ? parseObject<DeepLinks>(deepLinks) : {};
+    const linkChanges = scheduleToggle ? parseList<ScheduledChange>(scheduledChanges) : [];
+    const linkTags = parseList<string>(tags);
+    const linkPayload = payload ? parseObject<QrPayload>(payload) : null;
+
+    if (payload && !linkPayload) {
+      fieldErrors.payload = ['The content of the link is invalid.'];
+    }
+
+    const linkFile = file ? parseObject<LinkFile>(file) : null;
+    if (file && !linkFile) {
+      fieldErrors.file = ['The file of the link is invalid.'];
+    }
+
+    const linkSnippet = snippet ? parseObject<LinkSnippet>(snippet) : null;
+    if (snippet && !linkSnippet) {
+      fieldErrors.snippet = ['The snippet of the link is invalid.'];
+    }
+
+    if (!redirectRules) {
+      fieldErrors.rules = ['The redirect rules are invalid.'];
+    }
+
+    if (!linkVariants) {
+      fieldErrors.variants = ['The variants are invalid.'];
+    }
+
+    if (!appDeepLinks) {
+      fieldErrors.deepLinks = ['The deep links are invalid.'];
+    }
+
+    if (!linkChanges) {
+      fieldErrors.scheduledChanges = ['The scheduled changes are invalid.'];
+    }
+
+    if (!linkTags) {
+      fieldErrors.tags = ['The tags are invalid.'];
+    }
 
     if (expirationTimeToggle && !expirationTime) {
       fieldErrors.expirationTime = ['Please select a date for your link to expire.'];
     }
 
+    if (maxClicksToggle && !maxClicks) {
+      fieldErrors.maxClicks = ['Please enter the number of clicks your link expires after.'];
+    }
+
     if (passwordProtectionToggle && !passwordProtection) {
       fieldErrors.passwordProtection = ['Please enter a password for your link.'];
     }
@@ -127,10 +333,34 @@ const useCreateLink = globalAction$(
       return fail(400, { fieldErrors });
     }
 
-    const body: CreateLinkInput = {
-      url: normalizeUrl(url),
+    const body: Omit<
+      CreateLinkInput,
+      'url' | 'payload' | 'file' | 'snippet' | 'maxClicks' | 'rules' | 'variants' | 'deepLinks' | 'activeFrom' | 'scheduledChanges' | 'tags'
+    > & {
+      url?: string;
+      payload?: QrPayload;
+      file?: Pick<LinkFile, 'path' | 'name'>;
+      snippet?: LinkSnippet;
+      maxClicks?: number;
+      rules?: RedirectRule[];
+      variants?: RedirectVariant[];
+      stickyVariants?: boolean;
+      deepLinks?: DeepLinks;
+      activeFrom?: number;
+      scheduledChanges?: ScheduledChange[];
+      tags?: string[];
+    } = {
+      ...(linkPayload
+        ? { payload: linkPayload }
+        : linkFile
+        ? { file: { path: linkFile.path, name: linkFile.name } }
+        : linkSnippet
+        ? { snippet: linkSnippet }
+        : { url: normalizeUrl(url as string) }),
       ...(key && { key: key }),
+      ...(domain && { domain }),
       ...(expirationTime && { expirationTime: new Date(expirationTime).getTime().toString() }),
+      ...(maxClicksToggle && maxClicks && { maxClicks: +maxClicks }),
       ...(passwordProtection && { password: passwordProtection }),
 
       // UTM Builder fields
@@ -140,6 +370,28 @@ const useCreateLink = globalAction$(
       ...(utmBuilderToggle && utm_campaign && { utm_campaign }),
       ...(utmBuilderToggle && utm_term && { utm_term }),
       ...(utmBuilderToggle && utm_content && { utm_content }),
+
+      // Redirect rules
+      ...(redirectRules?.length && { rules: redirectRules }),
+
+      // A/B testing
+      ...(linkVariants?.length && { variants: linkVariants, stickyVariants: !!stickyVariants }),
+
+      // Mobile deep links
+      ...(appDeepLinks && Object.keys(appDeepLinks).length && { deepLinks: appDeepLinks }),
+
+      // Scheduling
+      ...(scheduleToggle && activeFrom && { activeFrom: +activeFrom }),
+      ...(linkChanges?.length && { scheduledChanges: linkChanges }),
+
+      // Tags and folder
+      ...(linkTags?.length && { tags: linkTags }),
+      ...(folderId && { folderId }),
+
+      // Social preview
+      ...(socialPreviewToggle && ogTitle && { ogTitle }),
+      ...(socialPreviewToggle && ogDescription && { ogDescription }),
+      ...(socialPreviewToggle && isNewSocialPreviewImage(ogImage) && { ogImage }),
     };
 
     const response: Response = await fetch(`${process.env.API_DOMAIN}/api/v1/shortener`, {
@@ -167,15 +419,181 @@ const useCreateLink = globalAction$(
   zod$(CreateLinkInputSchema)
 );
 
+const useUpdateLink = globalAction$(
+  async (
+    {
+      id,
+      url,
+      payload,
+      file,
+      snippet,
+      expirationTime,
+      expirationTimeToggle,
+      hasExpirationTime,
+      maxClicks,
+      maxClicksToggle,
+      hasMaxClicks,
+      passwordProtection,
+      passwordProtectionToggle,
+      hasPassword,
+      utmBuilderToggle,
+      utm_ref,
+      utm_source,
+      utm_medium,
+      utm_campaign,
+      utm_term,
+      utm_content,
+      redirectRulesToggle,
+      hasRules,
+      rules,
+      variantsToggle,
+      hasVariants,
+      variants,
+      stickyVariants,
+      deepLinksToggle,
+      hasDeepLinks,
+      deepLinks,
+      scheduleToggle,
+      hasSchedule,
+      activeFrom,
+      scheduledChanges,
+      tags,
+      folderId,
+      socialPreviewToggle,
+      hasSocialPreview,
+      ogTitle,
+      ogDescription,
+      ogImage,
+      hasOgImage,
+    },
+    { fail, cookie }
+  ) => {
+    const redirectRules = redirectRulesToggle ? parseList<RedirectRule>(rules) : [];
+    if (!redirectRules) {
+      return fail(400, { fieldErrors: { rules: ['The redirect rules are invalid.'] } as FieldErrors });
+    }
+
+    const linkVariants = variantsToggle ? parseList<RedirectVariant>(variants) : [];
+    if (!linkVariants) {
+      return fail(400, { fieldErrors: { variants: ['The variants are invalid.'] } as FieldErrors });
+    }
+
+    const appDeepLinks = deepLinksToggle ? parseObject<DeepLinks>(deepLinks) : {};
+    if (!appDeepLinks) {
+      return fail(400, { fieldErrors: { deepLinks: ['The deep links are invalid.'] } as FieldErrors });
+    }
+
+    const linkChanges = scheduleToggle ? parseList<ScheduledChange>(scheduledChanges) : [];
+    if (!linkChanges) {
+      return fail(400, { fieldErrors: { scheduledChanges: ['The scheduled changes are invalid.'] } as FieldErrors });
+    }
+
+    const linkTags = parseList<string>(tags);
+    if (!linkTags) {
+      return fail(400, { fieldErrors: { tags: ['The tags are invalid.'] } as FieldErrors });
+    }
+
+    const linkPayload = payload ? parseObject<QrPayload>(payload) : null;
+    if (payload && !linkPayload) {
+      return fail(400, { fieldErrors: { payload: ['The content of the link is invalid.'] } as FieldErrors });
+    }
+
+    const linkSnippet = snippet ? parseObject<LinkSnippet>(snippet) : null;
+    if (snippet && !linkSnippet) {
+      return fail(400, { fieldErrors: { snippet: ['The snippet of the link is invalid.'] } as FieldErrors });
+    }
+
+    const body = {
+      // The file of file links cannot be changed, so they have no destination to send
+      ...(linkPayload ? { payload: linkPayload } : linkSnippet ? { snippet: linkSnippet } : !file && { url: normalizeUrl(url as string) }),
+
+      // Only send the expiration time and the password if they were changed
+      ...(expirationTimeToggle && expirationTime && { expirationTime: new Date(expirationTime).getTime() }),
+      ...(!expirationTimeToggle && hasExpirationTime && { expirationTime: null }),
+      ...(maxClicksToggle && maxClicks && { maxClicks: +maxClicks }),
+      ...(!maxClicksToggle && hasMaxClicks && { maxClicks: null }),
+      ...(passwordProtectionToggle && passwordProtection && { password: passwordProtection }),
+      ...(!passwordProtectionToggle && hasPassword && { password: null }),
+
+      // UTM Builder fields, always sent so they can be cleared
+      utm_ref: (utmBuilderToggle && utm_ref) || '',
+      utm_source: (utmBuilderToggle && utm_source) || '',
+      utm_medium: (utmBuilderToggle && utm_medium) || '',
+      utm_campaign: (utmBuilderToggle && utm_campaign) || '',
+      utm_term: (utmBuilderToggle && utm_term) || '',
+      utm_content: (utmBuilderToggle && utm_content) || '',
+
+      // Only send the redirect rules if they are set or should be removed
+      ...(redirectRules.length ? { rules: redirectRules } : hasRules && { rules: null }),
+      ...(linkVariants.length ? { variants: linkVariants, stickyVariants: !!stickyVariants } : hasVariants && { variants: null }),
+      ...(Object.keys(appDeepLinks).length ? { deepLinks: appDeepLinks } : hasDeepLinks && { deepLinks: null }),
+
+      // The scheduled changes are always replaced, so removed changes are deleted
+      ...(scheduleToggle
+        ? { activeFrom: activeFrom ? +activeFrom : null, scheduledChanges: linkChanges }
+        : hasSchedule && { activeFrom: null, scheduledChanges: null }),
+
+      // The tags and the folder are always sent, so they can be removed
+      tags: linkTags,
+      folderId: folderId || null,
+
+      // The image is only sent if it was replaced or removed
+      ...(socialPreviewToggle
+        ? {
+            ogTitle: ogTitle || null,
+            ogDescription: ogDescription || null,
+            ...(isNewSocialPreviewImage(ogImage) ? { ogImage } : !ogImage && hasOgImage && { ogImage: null }),
+          }
+        : hasSocialPreview && { ogTitle: null, ogDescription: null, ...(hasOgImage && { ogImage: null }) }),
+    };
+
+    const response: Response = await fetch(`${process.env.API_DOMAIN}/api/v1/links/${id}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${cookie.get(ACCESS_COOKIE_NAME)?.value}`,
+      },
+      body: JSON.stringify(body),
+    });
+
+    const data: { url: string; key: string; message?: string[] } = await response.json();
+
+    if (response.status !== 200) {
+      return fail(500, {
+        message: data?.message || 'There was an error updating your link. Please try again.',
+      });
+    }
+
+    return {
+      url,
+      key: data.key,
+    };
+  },
+  zod$(UpdateLinkInputSchema)
+);
+
 export interface LinkModalProps {
   onSubmitHandler: () => void;
+  onCloseHandler?: () => void;
+
+  // When set, the modal is opened in edit mode for this link
+  editLinkId?: string | null;
+
+  // Tags and folders of the user that can be assigned to the link
+  tags?: Tag[];
+  folders?: Folder[];
 }
 
 export const initValues = {
   url: '',
+  payload: undefined,
+  file: undefined,
+  snippet: undefined,
   key: '',
+  domain: '',
   expirationTime: undefined,
   expirationTimeToggle: undefined,
+  maxClicks: undefined,
   passwordProtection: undefined,
   passwordProtectionToggle: undefined,
   utmBuilderToggle: undefined,
@@ -187,8 +605,20 @@ export const initValues = {
   utm_campaign: undefined,
   utm_term: undefined,
   utm_content: undefined,
+  rules: undefined,
+  variants: undefined,
+  deepLinks: undefined,
+  activeFrom: undefined,
+  scheduledChanges: undefined,
+  tags: undefined,
+  folderId: undefined,
+  ogTitle: undefined,
+  ogDescription: undefined,
+  ogImage: undefined,
 };
-export const LinkModal = component$(({ onSubmitHandler }: LinkModalProps) => {
+
+const emptySocialPreview: SocialPreviewForm = { title: '', description: '', image: '' };
+export const LinkModal = component$(({ onSubmitHandler, onCloseHandler, editLinkId, tags = [], folders = [] }: LinkModalProps) => {
   const user = useGetCurrentUser();
   const inputValue = useSignal<CreateLinkInput>({ ...initValues });
   const faviconUrl = useSignal<string | null>(null);
@@ -197,15 +627,57 @@ export const LinkModal = component$(({ onSubmitHandler }: LinkModalProps) => {
   // Short key input field
   const requiredLevelToCustomShortLink = useSignal<null | string>(getRequiredFeatureLevel(user.value?.plan || 'FREE', 'CUSTOM_SHORT_KEY'));
 
+  // Domain select, only verified custom domains can be used
+  const requiredLevelToCustomDomains = useSignal<null | string>(getRequiredFeatureLevel(user.value?.plan || 'FREE', 'CUSTOM_DOMAINS'));
+  const domains = useSignal<string[]>([]);
+
   // Optional fields
   const isExpirationTimeOpen = useSignal(false);
+  const isMaxClicksOpen = useSignal(false);
   const isPasswordProtectionOpen = useSignal(false);
   const showPassword = useSignal(false);
   const isUtmBuilderOpen = useSignal(false);
+  const isRedirectRulesOpen = useSignal(false);
+  const redirectRules = useSignal<RedirectRuleForm[]>([]);
+  const isVariantsOpen = useSignal(false);
+  const variants = useSignal<RedirectVariant[]>([]);
+  const stickyVariants = useSignal(false);
+  const isDeepLinksOpen = useSignal(false);
+  const deepLinks = useSignal<DeepLinksForm>(emptyDeepLinks());
+  const isScheduleOpen = useSignal(false);
+  const activeFrom = useSignal('');
+  const scheduledChanges = useSignal<ScheduledChangeForm[]>([]);
+  const isSocialPreviewOpen = useSignal(false);
+  const socialPreview = useSignal<SocialPreviewForm>({ ...emptySocialPreview });
+  const selectedTags = useSignal<string[]>([]);
+
+  // Content of payload links, null for links redirecting to their url
+  const qrPayload = useSignal<QrPayloadForm | null>(null);
+
+  // Uploaded file of file links
+  const isFileLink = useSignal(false);
+  const linkFile = useSignal<LinkFile | null>(null);
+
+  // Content of snippet links
+  const linkSnippet = useSignal<LinkSnippet | null>(null);
 
   const isGeneratingRandomKey = useSignal(false);
 
-  const action = useCreateLink();
+  // Edit mode, used to know if the current values should be removed
+  const isEditMode = !!editLinkId;
+  const hasPassword = useSignal(false);
+  const hasExpirationTime = useSignal(false);
+  const hasMaxClicks = useSignal(false);
+  const hasRules = useSignal(false);
+  const hasVariants = useSignal(false);
+  const hasDeepLinks = useSignal(false);
+  const hasSchedule = useSignal(false);
+  const hasSocialPreview = useSignal(false);
+  const hasOgImage = useSignal(false);
+
+  const createAction = useCreateLink();
+  const updateAction = useUpdateLink();
+  const action = isEditMode ? updateAction : createAction;
 
   const debounceUrlInput = useDebouncer(
     $((input: string) => {
@@ -215,6 +687,110 @@ export const LinkModal = component$(({ onSubmitHandler }: LinkModalProps) => {
     500
   );
 
+  useVisibleTask$(async () => {
+    if (requiredLevelToCustomDomains.value) {
+      return;
+    }
+
+    const response = await authorizedFetch(`${process.env.CLIENTSIDE_API_DOMAIN}/api/v1/domains`);
+    if (response.status !== 200) {
+      return;
+    }
+
+    const userDomains: { name: string; verified: boolean }[] = await response.json();
+    domains.value = userDomains.filter(({ verified }) => verified).map(({ name }) => name);
+  });
+
+  useVisibleTask$(async ({ track }) => {
+    const id = track(() => editLinkId);
+    if (!id) {
+      return;
+    }
+
+    const response = await authorizedFetch(`${process.env.CLIENTSIDE_API_DOMAIN}/api/v1/links/${id}`);
+    if (response.status !== 200) {
+      return;
+    }
+
+    const link: {
+      url: string;
+      key: string;
+      type?: string;
+      payload?: QrPayload | null;
+      file?: LinkFile | null;
+      snippet?: LinkSnippet | null;
+      domain?: { name: string } | null;
+      expirationTime?: string;
+      maxClicks?: number | null;
+      hasPassword: boolean;
+      utm?: Record<string, string>;
+      rules?: RedirectRule[] | null;
+      variants?: RedirectVariant[] | null;
+      stickyVariants?: boolean;
+      deepLinks?: DeepLinks | null;
+      activeFrom?: string | null;
+      scheduledChanges?: { url: string; scheduledAt: string }[];
+      tags?: Tag[];
+      folder?: Folder | null;
+      ogTitle?: string | null;
+      ogDescription?: string | null;
+      ogImage?: string | null;
+    } = await response.json();
+
+    inputValue.value = {
+      ...initValues,
+      url: link.url,
+      key: link.key,
+      domain: link.domain?.name || '',
+      expirationTime: link.expirationTime ? new Date(link.expirationTime).toISOString().split('T')[0] : undefined,
+      maxClicks: link.maxClicks ? `${link.maxClicks}` : undefined,
+      utm_ref: link.utm?.ref,
+      utm_source: link.utm?.utm_source,
+      utm_medium: link.utm?.utm_medium,
+      utm_campaign: link.utm?.utm_campaign,
+      utm_term: link.utm?.utm_term,
+      utm_content: link.utm?.utm_content,
+      folderId: link.folder?.id,
+    };
+
+    hasPassword.value = link.hasPassword;
+    hasExpirationTime.value = !!link.expirationTime;
+    isExpirationTimeOpen.value = hasExpirationTime.value;
+    hasMaxClicks.value = !!link.maxClicks;
+    isMaxClicksOpen.value = hasMaxClicks.value;
+    isPasswordProtectionOpen.value = hasPassword.value;
+    isUtmBuilderOpen.value = !!link.utm && Object.keys(link.utm).length > 0;
+    redirectRules.value = fromRedirectRules(link.rules);
+    hasRules.value = redirectRules.value.length > 0;
+    isRedirectRulesOpen.value = hasRules.value;
+    variants.value = link.variants || [];
+    stickyVariants.value = !!link.stickyVariants;
+    hasVariants.value = variants.value.length > 0;
+    isVariantsOpen.value = hasVariants.value;
+    deepLinks.value = fromDeepLinks(link.deepLinks);
+    hasDeepLinks.value = Object.keys(toDeepLinks(deepLinks.value)).length > 0;
+    isDeepLinksOpen.value = hasDeepLinks.value;
+    activeFrom.value = link.activeFrom ? toDateTimeInputValue(new Date(link.activeFrom)) : '';
+    scheduledChanges.value = fromScheduledChanges(link.scheduledChanges);
+    hasSchedule.value = !!link.activeFrom || scheduledChanges.value.length > 0;
+    isScheduleOpen.value = hasSchedule.value;
+    selectedTags.value = (link.tags || []).map(({ id }) => id);
+    socialPreview.value = { title: link.ogTitle || '', description: link.ogDescription || '', image: link.ogImage || '' };
+    hasSocialPreview.value = !!(link.ogTitle || link.ogDescription || link.ogImage);
+    hasOgImage.value = !!link.ogImage;
+    isSocialPreviewOpen.value = hasSocialPreview.value;
+    qrPayload.value = link.payload ? fromQrPayload(link.payload) : null;
+    isFileLink.value = link.type === 'FILE';
+    linkFile.value = link.file || null;
+    linkSnippet.value = link.snippet || null;
+
+    // Payload, file and snippet links have no destination to preview
+    if (!link.payload && !isFileLink.value && !link.snippet) {
+      faviconUrl.value = `https://www.google.com/s2/favicons?sz=128&domain=${link.url}`;
+      previewUrl.value = link.url;
+    }
+  });
+
   const generateRandomKey = $(async () => {
     if (requiredLevelToCustomShortLink.value || isGeneratingRandomKey.value) {
       return;
@@ -249,8 +825,35 @@ export const LinkModal = component$(({ onSubmitHandler }: LinkModalProps) => {
     inputValue.value = { ...initValues };
 
     isExpirationTimeOpen.value = false;
+    isMaxClicksOpen.value = false;
+    hasMaxClicks.value = false;
     isPasswordProtectionOpen.value = false;
     isUtmBuilderOpen.value = false;
+    isRedirectRulesOpen.value = false;
+    redirectRules.value = [];
+    hasRules.value = false;
+    isVariantsOpen.value = false;
+    variants.value = [];
+    stickyVariants.value = false;
+    hasVariants.value = false;
+    isDeepLinksOpen.value = false;
+    deepLinks.value = emptyDeepLinks();
+    hasDeepLinks.value = false;
+    isScheduleOpen.value = false;
+    activeFrom.value = '';
+    scheduledChanges.value = [];
+    hasSchedule.value = false;
+    isSocialPreviewOpen.value = false;
+    socialPreview.value = { ...emptySocialPreview };
+    hasSocialPreview.value = false;
+    hasOgImage.value = false;
+    selectedTags.value = [];
+    qrPayload.value = null;
+    isFileLink.value = false;
+    linkFile.value = null;
+    linkSnippet.value = null;
+    hasPassword.value = false;
+    hasExpirationTime.value = false;
     faviconUrl.value = null;
     previewUrl.value = null;
     showPassword.value = false;
@@ -275,7 +878,7 @@ export const LinkModal = component$(({ onSubmitHandler }: LinkModalProps) => {
           <div class="rounded-l-2xl md:max-h-[95vh] flex flex-col">
             <div class="sticky top-0 z-10 flex h-16 items-center justify-center border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-dark-modal px-5 sm:h-28">
               <img src={faviconUrl.value || UNKNOWN_FAVICON} alt="Favicon" class="mr-4 w-8 h-8" />
-              <h2 class="text-lg font-medium">Create a new link</h2>
+              <h2 class="text-lg font-medium">{isEditMode ? 'Edit link' : 'Create a new link'}</h2>
             </div>
             <Form
               action={action}
@@ -290,40 +893,124 @@ export const LinkModal = component$(({ onSubmitHandler }: LinkModalProps) => {
               }}
               class="flex flex-col h-full overflow-auto"
             >
+              {isEditMode && (
+                <>
+                  <input type="hidden" name="id" value={editLinkId!} />
+                  {hasPassword.value && <input type="hidden" name="hasPassword" value="true" />}
+                  {hasExpirationTime.value && <input type="hidden" name="hasExpirationTime" value="true" />}
+                  {hasMaxClicks.value && <input type="hidden" name="hasMaxClicks" value="true" />}
+                  {hasRules.value && <input type="hidden" name="hasRules" value="true" />}
+                  {hasVariants.value && <input type="hidden" name="hasVariants" value="true" />}
+                  {hasDeepLinks.value && <input type="hidden" name="hasDeepLinks" value="true" />}
+                  {hasSchedule.value && <input type="hidden" name="hasSchedule" value="true" />}
+                  {hasSocialPreview.value && <input type="hidden" name="hasSocialPreview" value="true" />}
+                  {hasOgImage.value && <input type="hidden" name="hasOgImage" value="true" />}
+                </>
+              )}
               <div class="px-4 p-5 flex-grow">
                 <div>
                   <label class="label">
-                    <span class="label-text">Destination URL</span>
+                    <span class="label-text">Link type</span>
                   </label>
-                  <input
-                    name="url"
-                    type="text"
-                    placeholder="https://github.com/origranot/reduced.to"
-                    class="input input-bordered w-full"
-                    value={inputValue.value.url}
-                    onInput$={(ev: InputEvent) => {
-                      inputValue.value.url = (ev.target as HTMLInputElement).value;
-                      debounceUrlInput(inputValue.value.url);
-
-                      // if the user is typing nad there is no key, generate one
-                      if (inputValue.value.url.length > 0 && inputValue.value.key?.length === 0) {
+                  <select
+                    disabled={isEditMode}
+                    class={`select select-bordered w-full ${isEditMode ? 'select-disabled' : ''}`}
+                    onChange$={(ev: Event) => {
+                      const type = (ev.target as HTMLSelectElement).value as QrPayloadType | 'file' | 'snippet' | '';
+                      qrPayload.value = type && type !== 'file' && type !== 'snippet' ? emptyQrPayload(type) : null;
+                      isFileLink.value = type === 'file';
+                      linkFile.value = null;
+                      linkSnippet.value = type === 'snippet' ? emptySnippet() : null;
+                      inputValue.value = { ...inputValue.value, url: '' };
+                      faviconUrl.value = null;
+                      previewUrl.value = null;
+
+                      if (type && !inputValue.value.key) {
                         generateRandomKey();
                       }
                     }}
-                  />
-                  {action.value?.fieldErrors?.url?.length ? (
+                  >
+                    <option value="" selected={!qrPayload.value && !isFileLink.value && !linkSnippet.value}>
+                      Website URL
+                    </option>
+                    <option value="file" selected={isFileLink.value}>
+                      File
+                    </option>
+                    <option value="snippet" selected={!!linkSnippet.value}>
+                      Snippet
+                    </option>
+                    {QR_PAYLOAD_TYPES.map((type) => (
+                      <option key={type} value={type} selected={qrPayload.value?.type === type}>
+                        {QR_PAYLOAD_LABELS[type]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {qrPayload.value ? (
+                  <div class="pt-4">
+                    <input type="hidden" name="payload" value={JSON.stringify(toQrPayload(qrPayload.value))} />
+                    <QrPayloadInput payload={qrPayload as Signal<QrPayloadForm>} />
+                    {action.value?.fieldErrors?.payload?.length ? (
+                      <label class="label">
+                        <span class={`label-text text-xs text-error text-left`}>{action.value.fieldErrors.payload[0]}</span>
+                      </label>
+                    ) : null}
+                  </div>
+                ) : linkSnippet.value ? (
+                  <div class="pt-4">
+                    <input type="hidden" name="snippet" value={JSON.stringify(linkSnippet.value)} />
+                    <SnippetInput snippet={linkSnippet as Signal<LinkSnippet>} />
+                    {action.value?.fieldErrors?.snippet?.length ? (
+                      <label class="label">
+                        <span class={`label-text text-xs text-error text-left`}>{action.value.fieldErrors.snippet[0]}</span>
+                      </label>
+                    ) : null}
+                  </div>
+                ) : isFileLink.value ? (
+                  <div class="pt-4">
+                    {linkFile.value && <input type="hidden" name="file" value={JSON.stringify(linkFile.value)} />}
+                    <FileUpload file={linkFile} plan={user.value?.plan || 'FREE'} readonly={isEditMode} />
+                    {action.value?.fieldErrors?.file?.length ? (
+                      <label class="label">
+                        <span class={`label-text text-xs text-error text-left`}>{action.value.fieldErrors.file[0]}</span>
+                      </label>
+                    ) : null}
+                  </div>
+                ) : (
+                  <div class="pt-4">
                     <label class="label">
-                      <span class={`label-text text-xs text-error text-left`}>{action.value.fieldErrors.url[0]}</span>
+                      <span class="label-text">Destination URL</span>
                     </label>
-                  ) : null}
-                </div>
+                    <input
+                      name="url"
+                      type="text"
+                      placeholder="https://github.com/origranot/reduced.to"
+                      class="input input-bordered w-full"
+                      value={inputValue.value.url}
+                      onInput$={(ev: InputEvent) => {
+                        inputValue.value.url = (ev.target as HTMLInputElement).value;
+                        debounceUrlInput(inputValue.value.url);
+
+                        // if the user is typing nad there is no key, generate one
+                        if (inputValue.value.url.length > 0 && inputValue.value.key?.length === 0) {
+                          generateRandomKey();
+                        }
+                      }}
+                    />
+                    {action.value?.fieldErrors?.url?.length ? (
+                      <label class="label">
+                        <span class={`label-text text-xs text-error text-left`}>{action.value.fieldErrors.url[0]}</span>
+                      </label>
+                    ) : null}
+                  </div>
+                )}
 
                 <div class="pt-4">
                   <div class="flex justify-between">
                     <label class="label">
                       <span class="label-text">Short link</span>
                     </label>
-                    {requiredLevelToCustomShortLink.value ? (
+                    {isEditMode ? null : requiredLevelToCustomShortLink.value ? (
                       <ConditionalWrapper access="CUSTOM_SHORT_KEY" cs="mr-[1.7rem]" />
                     ) : (
                       <div class="tooltip tooltip-left text-sm" data-tip="Generate a random key">
@@ -338,14 +1025,36 @@ export const LinkModal = component$(({ onSubmitHandler }: LinkModalProps) => {
                     )}
                   </div>
                   <div class="join w-full">
-                    <select class={`select select-bordered join-item ${requiredLevelToCustomShortLink.value ? 'select-disabled' : ''}`}>
-                      <option selected>reduced.to</option>
+                    <select
+                      name="domain"
+                      disabled={isEditMode || !!requiredLevelToCustomDomains.value}
+                      class={`select select-bordered join-item ${
+                        requiredLevelToCustomDomains.value || isEditMode ? 'select-disabled' : ''
+                      }`}
+                      onChange$={(ev: Event) => {
+                        inputValue.value.domain = (ev.target as HTMLSelectElement).value;
+                      }}
+                    >
+                      <option value="" selected={!inputValue.value.domain}>
+                        reduced.to
+                      </option>
+                      {(isEditMode && inputValue.value.domain && !domains.value.includes(inputValue.value.domain)
+                        ? [...domains.value, inputValue.value.domain]
+                        : domains.value
+                      ).map((domain) => (
+                        <option key={domain} value={domain} selected={inputValue.value.domain === domain}>
+                          {domain}
+                        </option>
+                      ))}
                     </select>
                     <div class="w-full">
                       <input
                         name="key"
                         type="text"
-                        class={`input input-bordered join-item w-full ${requiredLevelToCustomShortLink.value ? 'input-disabled' : ''}`}
+                        disabled={isEditMode}
+                        class={`input input-bordered join-item w-full ${
+                          requiredLevelToCustomShortLink.value || isEditMode ? 'input-disabled' : ''
+                        }`}
                         placeholder="git"
                         value={inputValue.value.key}
                         onInput$={(ev: InputEvent) => {
@@ -365,6 +1074,39 @@ export const LinkModal = component$(({ onSubmitHandler }: LinkModalProps) => {
                     <span class={`label-text text-xs text-error text-left`}>{action.value.message}</span>
                   </label>
                 )}
+                <div class="pt-4">
+                  <label class="label">
+                    <span class="label-text">Folder</span>
+                  </label>
+                  <select
+                    name="folderId"
+                    class="select select-bordered w-full"
+                    onChange$={(ev: Event) => {
+                      inputValue.value.folderId = (ev.target as HTMLSelectElement).value;
+                    }}
+                  >
+                    <option value="" selected={!inputValue.value.folderId}>
+                      No folder
+                    </option>
+                    {folders.map((folder) => (
+                      <option key={folder.id} value={folder.id} selected={inputValue.value.folderId === folder.id}>
+                        {folder.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div class="pt-4">
+                  <label class="label">
+                    <span class="label-text">Tags</span>
+                  </label>
+                  <input type="hidden" name="tags" value={JSON.stringify(selectedTags.value)} />
+                  <TagPicker tags={tags} selected={selectedTags} />
+                  {action.value?.fieldErrors?.tags?.length ? (
+                    <label class="label">
+                      <span class={`label-text text-xs text-error text-left`}>{action.value.fieldErrors.tags[0]}</span>
+                    </label>
+                  ) : null}
+                </div>
                 <div class="divider pt-4">Optional</div>
                 <div class="flex flex-col">
                   <div class="form-control">
@@ -398,6 +1140,38 @@ export const LinkModal = component$(({ onSubmitHandler }: LinkModalProps) => {
                       </label>
                     ) : null}
                   </div>
+                  <div class="form-control">
+                    <label class="cursor-pointer label">
+                      <span class="label-text">Click limit</span>
+                      <ConditionalWrapper access="CLICK_LIMIT">
+                        <input
+                          type="checkbox"
+                          checked={isMaxClicksOpen.value}
+                          onChange$={() => toggleOption(isMaxClicksOpen, ['maxClicks'], undefined)}
+                          name="maxClicksToggle"
+                          class="toggle toggle-primary"
+                        />
+                      </ConditionalWrapper>
+                    </label>
+                    {isMaxClicksOpen.value && (
+                      <input
+                        name="maxClicks"
+                        type="number"
+                        min={1}
+                        placeholder="1 for a one-time link"
+                        class="input input-bordered w-full"
+                        value={inputValue.value.maxClicks}
+                        onInput$={(ev: InputEvent) => {
+                          inputValue.value.maxClicks = (ev.target as HTMLInputElement).value;
+                        }}
+                      />
+                    )}
+                    {action.value?.fieldErrors?.maxClicks?.length ? (
+                      <label class="label">
+                        <span class={`label-text text-xs text-error text-left`}>{action.value.fieldErrors.maxClicks[0]}</span>
+                      </label>
+                    ) : null}
+                  </div>
                   <div class="form-control">
                     <label class="cursor-pointer label">
                       <span class="label-text">Password protection</span>
@@ -420,7 +1194,7 @@ export const LinkModal = component$(({ onSubmitHandler }: LinkModalProps) => {
                       <label class="input input-bordered flex items-center gap-2">
                         <input
                           name="passwordProtection"
-                          placeholder="Very secured password..."
+                          placeholder={hasPassword.value ? 'Leave empty to keep the current password' : 'Very secured password...'}
                           type={showPassword.value ? 'text' : 'password'}
                           class="grow dark:bg-slate-900"
                           value={inputValue.value.passwordProtection}
@@ -441,166 +1215,339 @@ export const LinkModal = component$(({ onSubmitHandler }: LinkModalProps) => {
                       </label>
                     ) : null}
                   </div>
-                  {/** Add here UTM builder  */}
-                  <div class="form-control">
-                    <label class="cursor-pointer label">
-                      <span class="label-text">UTM Builder</span>
-                      <ConditionalWrapper access="UTM_BUILDER">
-                        <input
-                          type="checkbox"
-                          checked={isUtmBuilderOpen.value}
-                          onChange$={() => {
-                            toggleOption(
-                              isUtmBuilderOpen,
-                              ['utm_ref', 'utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'],
-                              undefined
-                            );
-                          }}
-                          name="utmBuilderToggle"
-                          class="toggle toggle-primary"
-                        />
-                      </ConditionalWrapper>
-                    </label>
-                    {isUtmBuilderOpen.value && (
-                      <div class="px-4">
-                        <div class="sm:flex block gap-4">
-                          <label class="form-control w-full">
-                            <div class="label">
-                              <span class="label-text text-xs text-gray-500">Referral (ref)</span>
-                            </div>
+                  {/* Payload, file and snippet links have no destination, so the options changing where visitors go do not apply */}
+                  {!qrPayload.value && !isFileLink.value && !linkSnippet.value && (
+                    <>
+                      {/** Add here UTM builder  */}
+                      <div class="form-control">
+                        <label class="cursor-pointer label">
+                          <span class="label-text">UTM Builder</span>
+                          <ConditionalWrapper access="UTM_BUILDER">
                             <input
-                              type="text"
-                              value={inputValue.value.utm_ref}
-                              onInput$={(ev: InputEvent) => {
-                                inputValue.value.utm_ref = (ev.target as HTMLInputElement).value;
+                              type="checkbox"
+                              checked={isUtmBuilderOpen.value}
+                              onChange$={() => {
+                                toggleOption(
+                                  isUtmBuilderOpen,
+                                  ['utm_ref', 'utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'],
+                                  undefined
+                                );
                               }}
-                              placeholder="reduced.to"
-                              name="utm_ref"
-                              class="input input-bordered w-full"
+                              name="utmBuilderToggle"
+                              class="toggle toggle-primary"
                             />
-                            {action.value?.fieldErrors?.utm_ref?.length ? (
-                              <label class="label">
-                                <span class={`label-text text-xs text-error text-left`}>{action.value.fieldErrors.utm_ref[0]}</span>
+                          </ConditionalWrapper>
+                        </label>
+                        {isUtmBuilderOpen.value && (
+                          <div class="px-4">
+                            <div class="sm:flex block gap-4">
+                              <label class="form-control w-full">
+                                <div class="label">
+                                  <span class="label-text text-xs text-gray-500">Referral (ref)</span>
+                                </div>
+                                <input
+                                  type="text"
+                                  value={inputValue.value.utm_ref}
+                                  onInput$={(ev: InputEvent) => {
+                                    inputValue.value.utm_ref = (ev.target as HTMLInputElement).value;
+                                  }}
+                                  placeholder="reduced.to"
+                                  name="utm_ref"
+                                  class="input input-bordered w-full"
+                                />
+                                {action.value?.fieldErrors?.utm_ref?.length ? (
+                                  <label class="label">
+                                    <span class={`label-text text-xs text-error text-left`}>{action.value.fieldErrors.utm_ref[0]}</span>
+                                  </label>
+                                ) : null}
+                              </label>
+                              <label class="form-control w-full">
+                                <div class="label">
+                                  <span class="label-text text-xs text-gray-500">UTM Source</span>
+                                </div>
+                                <input
+                                  type="text"
+                                  value={inputValue.value.utm_source}
+                                  onInput$={(ev: InputEvent) => {
+                                    inputValue.value.utm_source = (ev.target as HTMLInputElement).value;
+                                  }}
+                                  placeholder="facebook, instagram"
+                                  name="utm_source"
+                                  class="input input-bordered w-full"
+                                />
+                                {action.value?.fieldErrors?.utm_source?.length ? (
+                                  <label class="label">
+                                    <span class={`label-text text-xs text-error text-left`}>{action.value.fieldErrors.utm_source[0]}</span>
+                                  </label>
+                                ) : null}
                               </label>
-                            ) : null}
-                          </label>
-                          <label class="form-control w-full">
-                            <div class="label">
-                              <span class="label-text text-xs text-gray-500">UTM Source</span>
                             </div>
+                            <div class="sm:flex block gap-4">
+                              <label class="form-control w-full">
+                                <div class="label">
+                                  <span class="label-text text-xs text-gray-500">UTM Medium</span>
+                                </div>
+                                <input
+                                  type="text"
+                                  value={inputValue.value.utm_medium}
+                                  onInput$={(ev: InputEvent) => {
+                                    inputValue.value.utm_medium = (ev.target as HTMLInputElement).value;
+                                  }}
+                                  placeholder="social, email"
+                                  name="utm_medium"
+                                  class="input input-bordered w-full"
+                                />
+                                {action.value?.fieldErrors?.utm_medium?.length ? (
+                                  <label class="label">
+                                    <span class={`label-text text-xs text-error text-left`}>{action.value.fieldErrors.utm_medium[0]}</span>
+                                  </label>
+                                ) : null}
+                              </label>
+                              <label class="form-control w-full">
+                                <div class="label">
+                                  <span class="label-text text-xs text-gray-500">UTM Campaign</span>
+                                </div>
+                                <input
+                                  type="text"
+                                  value={inputValue.value.utm_campaign}
+                                  onInput$={(ev: InputEvent) => {
+                                    inputValue.value.utm_campaign = (ev.target as HTMLInputElement).value;
+                                  }}
+                                  placeholder="christmas_sale"
+                                  name="utm_campaign"
+                                  class="input input-bordered w-full"
+                                />
+                                {action.value?.fieldErrors?.utm_campaign?.length ? (
+                                  <label class="label">
+                                    <span class={`label-text text-xs text-error text-left`}>
+                                      {action.value.fieldErrors.utm_campaign[0]}
+                                    </span>
+                                  </label>
+                                ) : null}
+                              </label>
+                            </div>
+                            <div class="sm:flex block gap-4">
+                              <label class="form-control w-full">
+                                <div class="label">
+                                  <span class="label-text text-xs text-gray-500">UTM Term</span>
+                                </div>
+                                <input
+                                  type="text"
+                                  value={inputValue.value.utm_term}
+                                  onInput$={(ev: InputEvent) => {
+                                    inputValue.value.utm_term = (ev.target as HTMLInputElement).value;
+                                  }}
+                                  placeholder="green_shirt"
+                                  name="utm_term"
+                                  class="input input-bordered w-full"
+                                />
+                                {action.value?.fieldErrors?.utm_term?.length ? (
+                                  <label class="label">
+                                    <span class={`label-text text-xs text-error text-left`}>{action.value.fieldErrors.utm_term[0]}</span>
+                                  </label>
+                                ) : null}
+                              </label>
+                              <label class="form-control w-full">
+                                <div class="label">
+                                  <span class="label-text text-xs text-gray-500">UTM Content</span>
+                                </div>
+                                <input
+                                  type="text"
+                                  value={inputValue.value.utm_content}
+                                  onInput$={(ev: InputEvent) => {
+                                    inputValue.value.utm_content = (ev.target as HTMLInputElement).value;
+                                  }}
+                                  placeholder="clothing"
+                                  name="utm_content"
+                                  class="input input-bordered w-full"
+                                />
+                                {action.value?.fieldErrors?.utm_content?.length ? (
+                                  <label class="label">
+                                    <span class={`label-text text-xs text-error text-left`}>{action.value.fieldErrors.utm_content[0]}</span>
+                                  </label>
+                                ) : null}
+                              </label>
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                      <div class="form-control">
+                        <label class="cursor-pointer label">
+                          <span class="label-text">Redirect rules</span>
+                          <ConditionalWrapper access="REDIRECT_RULES">
                             <input
-                              type="text"
-                              value={inputValue.value.utm_source}
-                              onInput$={(ev: InputEvent) => {
-                                inputValue.value.utm_source = (ev.target as HTMLInputElement).value;
+                              type="checkbox"
+                              checked={isRedirectRulesOpen.value}
+                              onChange$={() => {
+                                toggleOption(isRedirectRulesOpen, ['rules'], undefined);
+                                if (!isRedirectRulesOpen.value) {
+                                  redirectRules.value = [];
+                                }
                               }}
-                              placeholder="facebook, instagram"
-                              name="utm_source"
-                              class="input input-bordered w-full"
+                              name="redirectRulesToggle"
+                              class="toggle toggle-primary"
                             />
-                            {action.value?.fieldErrors?.utm_source?.length ? (
-                              <label class="label">
-                                <span class={`label-text text-xs text-error text-left`}>{action.value.fieldErrors.utm_source[0]}</span>
-                              </label>
-                            ) : null}
+                          </ConditionalWrapper>
+                        </label>
+                        {isRedirectRulesOpen.value && (
+                          <>
+                            <input type="hidden" name="rules" value={JSON.stringify(toRedirectRules(redirectRules.value))} />
+                            <RedirectRules rules={redirectRules} />
+                          </>
+                        )}
+                        {action.value?.fieldErrors?.rules?.length ? (
+                          <label class="label">
+                            <span class={`label-text text-xs text-error text-left`}>{action.value.fieldErrors.rules[0]}</span>
                           </label>
-                        </div>
-                        <div class="sm:flex block gap-4">
-                          <label class="form-control w-full">
-                            <div class="label">
-                              <span class="label-text text-xs text-gray-500">UTM Medium</span>
-                            </div>
+                        ) : null}
+                      </div>
+                      <div class="form-control">
+                        <label class="cursor-pointer label">
+                          <span class="label-text">A/B testing</span>
+                          <ConditionalWrapper access="AB_TESTING">
                             <input
-                              type="text"
-                              value={inputValue.value.utm_medium}
-                              onInput$={(ev: InputEvent) => {
-                                inputValue.value.utm_medium = (ev.target as HTMLInputElement).value;
+                              type="checkbox"
+                              checked={isVariantsOpen.value}
+                              onChange$={() => {
+                                toggleOption(isVariantsOpen, ['variants'], undefined);
+                                variants.value = isVariantsOpen.value
+                                  ? [
+                                      { url: inputValue.value.url, weight: 50 },
+                                      { url: '', weight: 50 },
+                                    ]
+                                  : [];
+                                stickyVariants.value = false;
                               }}
-                              placeholder="social, email"
-                              name="utm_medium"
-                              class="input input-bordered w-full"
+                              name="variantsToggle"
+                              class="toggle toggle-primary"
                             />
-                            {action.value?.fieldErrors?.utm_medium?.length ? (
-                              <label class="label">
-                                <span class={`label-text text-xs text-error text-left`}>{action.value.fieldErrors.utm_medium[0]}</span>
-                              </label>
-                            ) : null}
+                          </ConditionalWrapper>
+                        </label>
+                        {isVariantsOpen.value && (
+                          <>
+                            <input type="hidden" name="variants" value={JSON.stringify(toVariants(variants.value))} />
+                            <Variants variants={variants} sticky={stickyVariants} />
+                          </>
+                        )}
+                        {action.value?.fieldErrors?.variants?.length ? (
+                          <label class="label">
+                            <span class={`label-text text-xs text-error text-left`}>{action.value.fieldErrors.variants[0]}</span>
                           </label>
-                          <label class="form-control w-full">
-                            <div class="label">
-                              <span class="label-text text-xs text-gray-500">UTM Campaign</span>
-                            </div>
+                        ) : null}
+                      </div>
+                      <div class="form-control">
+                        <label class="cursor-pointer label">
+                          <span class="label-text">Mobile deep links</span>
+                          <ConditionalWrapper access="DEEP_LINKS">
                             <input
-                              type="text"
-                              value={inputValue.value.utm_campaign}
-                              onInput$={(ev: InputEvent) => {
-                                inputValue.value.utm_campaign = (ev.target as HTMLInputElement).value;
+                              type="checkbox"
+                              checked={isDeepLinksOpen.value}
+                              onChange$={() => {
+                                toggleOption(isDeepLinksOpen, ['deepLinks'], undefined);
+                                deepLinks.value = emptyDeepLinks();
                               }}
-                              placeholder="christmas_sale"
-                              name="utm_campaign"
-                              class="input input-bordered w-full"
+                              name="deepLinksToggle"
+                              class="toggle toggle-primary"
                             />
-                            {action.value?.fieldErrors?.utm_campaign?.length ? (
-                              <label class="label">
-                                <span class={`label-text text-xs text-error text-left`}>{action.value.fieldErrors.utm_campaign[0]}</span>
-                              </label>
-                            ) : null}
+                          </ConditionalWrapper>
+                        </label>
+                        {isDeepLinksOpen.value && (
+                          <>
+                            <input type="hidden" name="deepLinks" value={JSON.stringify(toDeepLinks(deepLinks.value))} />
+                            <DeepLinksInput deepLinks={deepLinks} />
+                          </>
+                        )}
+                        {action.value?.fieldErrors?.deepLinks?.length ? (
+                          <label class="label">
+                            <span class={`label-text text-xs text-error text-left`}>{action.value.fieldErrors.deepLinks[0]}</span>
                           </label>
-                        </div>
-                        <div class="sm:flex block gap-4">
-                          <label class="form-control w-full">
-                            <div class="label">
-                              <span class="label-text text-xs text-gray-500">UTM Term</span>
-                            </div>
+                        ) : null}
+                      </div>
+                      <div class="form-control">
+                        <label class="cursor-pointer label">
+                          <span class="label-text">Scheduling</span>
+                          <ConditionalWrapper access="LINK_SCHEDULING">
                             <input
-                              type="text"
-                              value={inputValue.value.utm_term}
-                              onInput$={(ev: InputEvent) => {
-                                inputValue.value.utm_term = (ev.target as HTMLInputElement).value;
+                              type="checkbox"
+                              checked={isScheduleOpen.value}
+                              onChange$={() => {
+                                toggleOption(isScheduleOpen, ['activeFrom', 'scheduledChanges'], undefined);
+                                activeFrom.value = '';
+                                scheduledChanges.value = [];
                               }}
-                              placeholder="green_shirt"
-                              name="utm_term"
-                              class="input input-bordered w-full"
+                              name="scheduleToggle"
+                              class="toggle toggle-primary"
                             />
-                            {action.value?.fieldErrors?.utm_term?.length ? (
-                              <label class="label">
-                                <span class={`label-text text-xs text-error text-left`}>{action.value.fieldErrors.utm_term[0]}</span>
-                              </label>
-                            ) : null}
+                          </ConditionalWrapper>
+                        </label>
+                        {isScheduleOpen.value && (
+                          <>
+                            <input
+                              type="hidden"
+                              name="activeFrom"
+                              value={activeFrom.value ? `${new Date(activeFrom.value).getTime()}` : ''}
+                            />
+                            <input
+                              type="hidden"
+                              name="scheduledChanges"
+                              value={JSON.stringify(toScheduledChanges(scheduledChanges.value))}
+                            />
+                            <Schedule activeFrom={activeFrom} changes={scheduledChanges} />
+                          </>
+                        )}
+                        {action.value?.fieldErrors?.scheduledChanges?.length ? (
+                          <label class="label">
+                            <span class={`label-text text-xs text-error text-left`}>{action.value.fieldErrors.scheduledChanges[0]}</span>
                           </label>
-                          <label class="form-control w-full">
-                            <div class="label">
-                              <span class="label-text text-xs text-gray-500">UTM Content</span>
-                            </div>
+                        ) : null}
+                      </div>
+                      <div class="form-control">
+                        <label class="cursor-pointer label">
+                          <span class="label-text">Social preview</span>
+                          <ConditionalWrapper access="SOCIAL_PREVIEW">
                             <input
-                              type="text"
-                              value={inputValue.value.utm_content}
-                              onInput$={(ev: InputEvent) => {
-                                inputValue.value.utm_content = (ev.target as HTMLInputElement).value;
+                              type="checkbox"
+                              checked={isSocialPreviewOpen.value}
+                              onChange$={() => {
+                                toggleOption(isSocialPreviewOpen, ['ogTitle', 'ogDescription', 'ogImage'], undefined);
+                                socialPreview.value = { ...emptySocialPreview };
                               }}
-                              placeholder="clothing"
-                              name="utm_content"
-                              class="input input-bordered w-full"
+                              name="socialPreviewToggle"
+                              class="toggle toggle-primary"
                             />
-                            {action.value?.fieldErrors?.utm_content?.length ? (
-                              <label class="label">
-                                <span class={`label-text text-xs text-error text-left`}>{action.value.fieldErrors.utm_content[0]}</span>
-                              </label>
-                            ) : null}
+                          </ConditionalWrapper>
+                        </label>
+                        {isSocialPreviewOpen.value && <SocialPreview preview={socialPreview} />}
+                        {action.value?.fieldErrors?.ogTitle?.length ? (
+                          <label class="label">
+                            <span class={`label-text text-xs text-error text-left`}>{action.value.fieldErrors.ogTitle[0]}</span>
                           </label>
-                        </div>
+                        ) : null}
+                        {action.value?.fieldErrors?.ogDescription?.length ? (
+                          <label class="label">
+                            <span class={`label-text text-xs text-error text-left`}>{action.value.fieldErrors.ogDescription[0]}</span>
+                          </label>
+                        ) : null}
                       </div>
-                    )}
-                  </div>
+                    </>
+                  )}
                 </div>
               </div>
               <button
                 type="submit"
                 class={`btn btn-primary md:w-full w-1/2 no-animation md:rounded-none m-auto mb-5 md:mb-0 sm:sticky bottom-0 left-0 sm:mt-0 mt-5 ${
-                  inputValue.value.url.length === 0 ? '!cursor-not-allowed btn-disabled !bg-opacity-100 !bg-gray-300 dark:!bg-gray-700' : ''
+                  (
+                    isFileLink.value
+                      ? !linkFile.value
+                      : linkSnippet.value
+                      ? !linkSnippet.value.content.trim()
+                      : inputValue.value.url.length === 0 && !qrPayload.value
+                  )
+                    ? '!cursor-not-allowed btn-disabled !bg-opacity-100 !bg-gray-300 dark:!bg-gray-700'
+                    : ''
                 }`}
               >
-                {action.isRunning ? <span class="loading loading-spinner-small"></span> : 'Create'}
+                {action.isRunning ? <span class="loading loading-spinner-small"></span> : isEditMode ? 'Save' : 'Create'}
               </button>
             </Form>
           </div>
@@ -609,7 +1556,14 @@ export const LinkModal = component$(({ onSubmitHandler }: LinkModalProps) => {
               <h2 class="text-lg font-medium">Social Previews</h2>
             </div>
             <div class="items-center justify-center space-y-4 bg-gray-100 dark:bg-slate-900 p-5 overflow-auto">
-              <SocialMediaPreview url={previewUrl} />
+              <SocialMediaPreview
+                url={previewUrl}
+                overrides={{
+                  title: socialPreview.value.title || null,
+                  description: socialPreview.value.description || null,
+                  image: socialPreview.value.image ? getSocialPreviewImageUrl(socialPreview.value.image) : null,
+                }}
+              />
             </div>
           </div>
         </div>
@@ -619,6 +1573,7 @@ export const LinkModal = component$(({ onSubmitHandler }: LinkModalProps) => {
           onClick$={() => {
             (document.getElementById(LINK_MODAL_ID) as any).close();
             clearValues();
+            onCloseHandler?.();
           }}
         >
           <svg
@@ -0,0 +1,168 @@
+import { component$, $, Signal } from '@builder.io/qwik';
+import { QR_PAYLOAD_FIELDS, QrPayload, QrPayloadType, WIFI_ENCRYPTIONS } from '@reduced.to/utils';
+
+// The editor keeps every field as text, coordinates and flags are converted when the payload is sent
+export interface QrPayloadForm {
+  type: QrPayloadType;
+  fields: Record<string, string>;
+}
+
+export const QR_PAYLOAD_LABELS: Record<QrPayloadType, string> = {
+  vcard: 'Contact card (vCard)',
+  wifi: 'Wi-Fi network',
+  sms: 'SMS',
+  email: 'Email',
+  geo: 'Location',
+  text: 'Text',
+};
+
+interface PayloadField {
+  name: string;
+  label: string;
+  placeholder?: string;
+  input?: 'textarea' | 'encryption' | 'checkbox';
+}
+
+const FIELDS: Record<QrPayloadType, PayloadField[]> = {
+  vcard: [
+    { name: 'firstName', label: 'First name', placeholder: 'Jane' },
+    { name: 'lastName', label: 'Last name', placeholder: 'Doe' },
+    { name: 'organization', label: 'Organization', placeholder: 'Acme Inc.' },
+    { name: 'title', label: 'Job title', placeholder: 'Event manager' },
+    { name: 'phone', label: 'Phone', placeholder: '+1 555 0100' },
+    { name: 'email', label: 'Email', placeholder: 'jane@example.com' },
+    { name: 'website', label: 'Website', placeholder: 'https://example.com' },
+    { name: 'address', label: 'Address', placeholder: '1 Main St, Springfield' },
+    { name: 'note', label: 'Note', input: 'textarea' },
+  ],
+  wifi: [
+    { name: 'ssid', label: 'Network name (SSID)', placeholder: 'Venue Guest' },
+    { name: 'encryption', label: 'Security', input: 'encryption' },
+    { name: 'password', label: 'Password' },
+    { name: 'hidden', label: 'Hidden network', input: 'checkbox' },
+  ],
+  sms: [
+    { name: 'phone', label: 'Phone', placeholder: '+1 555 0100' },
+    { name: 'message', label: 'Message', input: 'textarea' },
+  ],
+  email: [
+    { name: 'email', label: 'Email', placeholder: 'jane@example.com' },
+    { name: 'subject', label: 'Subject' },
+    { name: 'body', label: 'Message', input: 'textarea' },
+  ],
+  geo: [
+    { name: 'latitude', label: 'Latitude', placeholder: '40.7128' },
+    { name: 'longitude', label: 'Longitude', placeholder: '-74.0060' },
+    { name: 'label', label: 'Place name', placeholder: 'Main hall' },
+  ],
+  text: [{ name: 'text', label: 'Text', input: 'textarea' }],
+};
+
+const ENCRYPTION_LABELS: Record<(typeof WIFI_ENCRYPTIONS)[number], string> = {
+  WPA: 'WPA/WPA2',
+  WEP: 'WEP',
+  nopass: 'None',
+};
+
+export const emptyQrPayload = (type: QrPayloadType): QrPayloadForm => ({
+  type,
+  fields: type === 'wifi' ? { encryption: 'WPA' } : {},
+});
+
+export const fromQrPayload = (payload: QrPayload): QrPayloadForm => ({
+  type: payload.type,
+  fields: Object.fromEntries(
+    Object.entries(payload)
+      .filter(([name, value]) => name !== 'type' && value !== undefined && value !== null && value !== false)
+      .map(([name, value]) => [name, `${value}`])
+  ),
+});
+
+/**
+ * Fields left empty are omitted, the API reports the missing ones.
+ */
+export const toQrPayload = ({ type, fields }: QrPayloadForm): QrPayload =>
+  (QR_PAYLOAD_FIELDS[type] as string[]).reduce(
+    (payload, name) => {
+      const value = fields[name]?.trim();
+      if (name === 'type' || !value) {
+        return payload;
+      }
+
+      if (name === 'latitude' || name === 'longitude') {
+        return { ...payload, [name]: Number(value) };
+      }
+
+      return { ...payload, [name]: name === 'hidden' ? value === 'true' : value };
+    },
+    { type } as QrPayload
+  );
+
+export interface QrPayloadInputProps {
+  payload: Signal<QrPayloadForm>;
+}
+
+export const QrPayloadInput = component$(({ payload }: QrPayloadInputProps) => {
+  const updateField = $((name: string, value: string) => {
+    payload.value = { ...payload.value, fields: { ...payload.value.fields, [name]: value } };
+  });
+
+  return (
+    <div>
+      <p class="text-xs text-gray-500 pt-2">
+        Visitors get a page delivering this content, you can change it at any time without reprinting the QR code.
+      </p>
+      {FIELDS[payload.value.type]
+        // Open networks have no password
+        .filter(({ name }) => !(name === 'password' && payload.value.fields.encryption === 'nopass'))
+        .map(({ name, label, placeholder, input }) => (
+          <label key={`${payload.value.type}-${name}`} class={`form-control w-full ${input === 'checkbox' ? 'pt-2' : ''}`}>
+            {input === 'checkbox' ? (
+              <div class="label cursor-pointer justify-start gap-2">
+                <input
+                  type="checkbox"
+                  class="checkbox checkbox-sm"
+                  checked={payload.value.fields[name] === 'true'}
+                  onChange$={(ev: Event) => updateField(name, `${(ev.target as HTMLInputElement).checked}`)}
+                />
+                <span class="label-text text-xs text-gray-500">{label}</span>
+              </div>
+            ) : (
+              <div class="label">
+                <span class="label-text text-xs text-gray-500">{label}</span>
+              </div>
+            )}
+            {input === 'textarea' && (
+              <textarea
+                class="textarea textarea-bordered w-full"
+                rows={3}
+                value={payload.value.fields[name] || ''}
+                onInput$={(ev: InputEvent) => updateField(name, (ev.target as HTMLTextAreaElement).value)}
+              />
+            )}
+            {input === 'encryption' && (
+              <select
+                class="select select-bordered select-sm w-full"
+                onChange$={(ev: Event) => updateField(name, (ev.target as HTMLSelectElement).value)}
+              >
+                {WIFI_ENCRYPTIONS.map((encryption) => (
+                  <option key={encryption} value={encryption} selected={payload.value.fields[name] === encryption}>
+                    {ENCRYPTION_LABELS[encryption]}
+                  </option>
+                ))}
+              </select>
+            )}
+            {!input && (
+              <input
+                type="text"
+                class="input input-bordered input-sm w-full"
+                placeholder={placeholder}
+                value={payload.value.fields[name] || ''}
+                onInput$={(ev: InputEvent) => updateField(name, (ev.target as HTMLInputElement).value)}
+              />
+            )}
+          </label>
+        ))}
+    </div>
+  );
+});
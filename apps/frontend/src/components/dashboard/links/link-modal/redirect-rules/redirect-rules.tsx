@@ -0,0 +1,242 @@
+import { component$, $, Signal } from '@builder.io/qwik';
+import { HiPlusOutline, HiTrashOutline } from '@qwikest/icons/heroicons';
+import { RULE_DEVICES, RedirectRule, RuleDevice } from '@reduced.to/utils';
+import { normalizeUrl } from '../../../../../utils';
+
+export const MAX_REDIRECT_RULES = 20;
+
+// The editor keeps the list fields as plain text, they are converted to rules when the form is submitted
+export interface RedirectRuleForm {
+  url: string;
+  countries: string;
+  device: string;
+  os: string;
+  languages: string;
+  start: string;
+  end: string;
+  timezone: string;
+  days: number[];
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const splitList = (value: string) =>
+  value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+export const toRedirectRules = (forms: RedirectRuleForm[]): RedirectRule[] =>
+  forms.map((form) => {
+    const countries = splitList(form.countries).map((country) => country.toUpperCase());
+    const os = splitList(form.os);
+    const languages = splitList(form.languages).map((language) => language.toLowerCase());
+
+    return {
+      url: form.url && normalizeUrl(form.url),
+      ...(countries.length && { countries }),
+      ...(form.device && { devices: [form.device as RuleDevice] }),
+      ...(os.length && { os }),
+      ...(languages.length && { languages }),
+      ...(form.start &&
+        form.end && {
+          timeWindow: {
+            start: form.start,
+            end: form.end,
+            ...(form.timezone && { timezone: form.timezone }),
+            ...(form.days.length && { days: form.days }),
+          },
+        }),
+    };
+  });
+
+export const fromRedirectRules = (rules?: RedirectRule[] | null): RedirectRuleForm[] =>
+  (rules || []).map((rule) => ({
+    url: rule.url,
+    countries: rule.countries?.join(', ') || '',
+    device: rule.devices?.[0] || '',
+    os: rule.os?.join(', ') || '',
+    languages: rule.languages?.join(', ') || '',
+    start: rule.timeWindow?.start || '',
+    end: rule.timeWindow?.end || '',
+    timezone: rule.timeWindow?.timezone || '',
+    days: rule.timeWindow?.days || [],
+  }));
+
+export interface RedirectRulesProps {
+  rules: Signal<RedirectRuleForm[]>;
+}
+
+export const RedirectRules = component$(({ rules }: RedirectRulesProps) => {
+  const updateRule = $((index: number, changes: Partial<RedirectRuleForm>) => {
+    rules.value = rules.value.map((rule, i) => (i === index ? { ...rule, ...changes } : rule));
+  });
+
+  const addRule = $(() => {
+    rules.value = [
+      ...rules.value,
+      {
+        url: '',
+        countries: '',
+        device: '',
+        os: '',
+        languages: '',
+        start: '',
+        end: '',
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        days: [],
+      },
+    ];
+  });
+
+  const removeRule = $((index: number) => {
+    rules.value = rules.value.filter((_, i) => i !== index);
+  });
+
+  return (
+    <div class="px-4">
+      <p class="text-xs text-gray-500 pb-2">
+        Rules are checked in order, the first rule that matches decides the destination. Visitors that do not match any rule are sent to the
+        destination URL.
+      </p>
+      {rules.value.map((rule, index) => (
+        <div key={index} class="rounded-lg border border-gray-200 dark:border-gray-700 p-3 mb-3">
+          <div class="flex items-center justify-between">
+            <span class="text-sm font-medium">Rule {index + 1}</span>
+            <button type="button" class="btn btn-xs btn-ghost text-red-500" onClick$={() => removeRule(index)}>
+              <HiTrashOutline class="w-4 h-4" />
+            </button>
+          </div>
+          <label class="form-control w-full">
+            <div class="label">
+              <span class="label-text text-xs text-gray-500">Destination URL</span>
+            </div>
+            <input
+              type="text"
+              placeholder="https://example.com/us"
+              class="input input-bordered input-sm w-full"
+              value={rule.url}
+              onInput$={(ev: InputEvent) => updateRule(index, { url: (ev.target as HTMLInputElement).value })}
+            />
+          </label>
+          <div class="sm:flex block gap-4">
+            <label class="form-control w-full">
+              <div class="label">
+                <span class="label-text text-xs text-gray-500">Countries</span>
+              </div>
+              <input
+                type="text"
+                placeholder="US, CA"
+                class="input input-bordered input-sm w-full"
+                value={rule.countries}
+                onInput$={(ev: InputEvent) => updateRule(index, { countries: (ev.target as HTMLInputElement).value })}
+              />
+            </label>
+            <label class="form-control w-full">
+              <div class="label">
+                <span class="label-text text-xs text-gray-500">Languages</span>
+              </div>
+              <input
+                type="text"
+                placeholder="en, pt-br"
+                class="input input-bordered input-sm w-full"
+                value={rule.languages}
+                onInput$={(ev: InputEvent) => updateRule(index, { languages: (ev.target as HTMLInputElement).value })}
+              />
+            </label>
+          </div>
+          <div class="sm:flex block gap-4">
+            <label class="form-control w-full">
+              <div class="label">
+                <span class="label-text text-xs text-gray-500">Device</span>
+              </div>
+              <select
+                class="select select-bordered select-sm w-full"
+                onChange$={(ev: Event) => updateRule(index, { device: (ev.target as HTMLSelectElement).value })}
+              >
+                <option value="" selected={!rule.device}>
+                  Any
+                </option>
+                {RULE_DEVICES.map((device) => (
+                  <option key={device} value={device} selected={rule.device === device}>
+                    {device}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label class="form-control w-full">
+              <div class="label">
+                <span class="label-text text-xs text-gray-500">Operating systems</span>
+              </div>
+              <input
+                type="text"
+                placeholder="iOS, Android"
+                class="input input-bordered input-sm w-full"
+                value={rule.os}
+                onInput$={(ev: InputEvent) => updateRule(index, { os: (ev.target as HTMLInputElement).value })}
+              />
+            </label>
+          </div>
+          <div class="sm:flex block gap-4">
+            <label class="form-control w-full">
+              <div class="label">
+                <span class="label-text text-xs text-gray-500">From</span>
+              </div>
+              <input
+                type="time"
+                class="input input-bordered input-sm w-full"
+                value={rule.start}
+                onInput$={(ev: InputEvent) => updateRule(index, { start: (ev.target as HTMLInputElement).value })}
+              />
+            </label>
+            <label class="form-control w-full">
+              <div class="label">
+                <span class="label-text text-xs text-gray-500">Until</span>
+              </div>
+              <input
+                type="time"
+                class="input input-bordered input-sm w-full"
+                value={rule.end}
+                onInput$={(ev: InputEvent) => updateRule(index, { end: (ev.target as HTMLInputElement).value })}
+              />
+            </label>
+            <label class="form-control w-full">
+              <div class="label">
+                <span class="label-text text-xs text-gray-500">Timezone</span>
+              </div>
+              <input
+                type="text"
+                placeholder="UTC"
+                class="input input-bordered input-sm w-full"
+                value={rule.timezone}
+                onInput$={(ev: InputEvent) => updateRule(index, { timezone: (ev.target as HTMLInputElement).value })}
+              />
+            </label>
+          </div>
+          {rule.start && rule.end && (
+            <div class="join pt-2">
+              {WEEKDAYS.map((weekday, day) => (
+                <button
+                  key={weekday}
+                  type="button"
+                  class={`btn btn-xs join-item ${rule.days.includes(day) ? 'btn-primary' : ''}`}
+                  onClick$={() =>
+                    updateRule(index, { days: rule.days.includes(day) ? rule.days.filter((d) => d !== day) : [...rule.days, day] })
+                  }
+                >
+                  {weekday}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+      {rules.value.length < MAX_REDIRECT_RULES && (
+        <button type="button" class="btn btn-sm btn-ghost" onClick$={addRule}>
+          <HiPlusOutline class="w-4 h-4" />
+          Add rule
+        </button>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,92 @@
+import { component$, $, Signal } from '@builder.io/qwik';
+import { HiPlusOutline, HiTrashOutline } from '@qwikest/icons/heroicons';
+import { normalizeUrl } from '../../../../../utils';
+import { toDateTimeInputValue } from '../../../../../lib/date-utils';
+
+export const MAX_SCHEDULED_CHANGES = 10;
+
+export interface ScheduledChange {
+  url: string;
+  scheduledAt: number;
+}
+
+// The editor keeps the dates as datetime-local values, they are converted to timestamps in the browser timezone
+export interface ScheduledChangeForm {
+  url: string;
+  scheduledAt: string;
+}
+
+export const toScheduledChanges = (forms: ScheduledChangeForm[]): ScheduledChange[] =>
+  forms.map(({ url, scheduledAt }) => ({
+    url: url && normalizeUrl(url),
+    scheduledAt: scheduledAt ? new Date(scheduledAt).getTime() : 0,
+  }));
+
+export const fromScheduledChanges = (changes?: { url: string; scheduledAt: string }[] | null): ScheduledChangeForm[] =>
+  (changes || []).map(({ url, scheduledAt }) => ({ url, scheduledAt: toDateTimeInputValue(new Date(scheduledAt)) }));
+
+export interface ScheduleProps {
+  activeFrom: Signal<string>;
+  changes: Signal<ScheduledChangeForm[]>;
+}
+
+export const Schedule = component$(({ activeFrom, changes }: ScheduleProps) => {
+  const updateChange = $((index: number, update: Partial<ScheduledChangeForm>) => {
+    changes.value = changes.value.map((change, i) => (i === index ? { ...change, ...update } : change));
+  });
+
+  const addChange = $(() => {
+    changes.value = [...changes.value, { url: '', scheduledAt: '' }];
+  });
+
+  const removeChange = $((index: number) => {
+    changes.value = changes.value.filter((_, i) => i !== index);
+  });
+
+  return (
+    <div class="px-4">
+      <label class="form-control w-full">
+        <div class="label">
+          <span class="label-text text-xs text-gray-500">Active from</span>
+        </div>
+        <input
+          type="datetime-local"
+          class="input input-bordered input-sm w-full"
+          value={activeFrom.value}
+          onInput$={(ev: InputEvent) => {
+            activeFrom.value = (ev.target as HTMLInputElement).value;
+          }}
+        />
+      </label>
+      <p class="text-xs text-gray-500 py-2">
+        The link does not resolve before it is active. At the time of each change, the destination URL is replaced with the new one.
+      </p>
+      {changes.value.map((change, index) => (
+        <div key={index} class="flex items-center gap-2 pb-2">
+          <input
+            type="text"
+            placeholder="https://example.com/sale"
+            class="input input-bordered input-sm w-full"
+            value={change.url}
+            onInput$={(ev: InputEvent) => updateChange(index, { url: (ev.target as HTMLInputElement).value })}
+          />
+          <input
+            type="datetime-local"
+            class="input input-bordered input-sm"
+            value={change.scheduledAt}
+            onInput$={(ev: InputEvent) => updateChange(index, { scheduledAt: (ev.target as HTMLInputElement).value })}
+          />
+          <button type="button" class="btn btn-xs btn-ghost text-red-500" onClick$={() => removeChange(index)}>
+            <HiTrashOutline class="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      {changes.value.length < MAX_SCHEDULED_CHANGES && (
+        <button type="button" class="btn btn-sm btn-ghost" onClick$={addChange}>
+          <HiPlusOutline class="w-4 h-4" />
+          Add destination change
+        </button>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,52 @@
+import { component$, Signal } from '@builder.io/qwik';
+import { LinkSnippet, MAX_SNIPPET_LENGTH, SNIPPET_LANGUAGES, SnippetLanguage } from '@reduced.to/utils';
+import { SNIPPET_LANGUAGE_LABELS } from '../../../../../lib/snippet-utils';
+
+export const emptySnippet = (): LinkSnippet => ({ content: '', language: 'text' });
+
+export interface SnippetInputProps {
+  snippet: Signal<LinkSnippet>;
+}
+
+export const SnippetInput = component$(({ snippet }: SnippetInputProps) => {
+  return (
+    <div>
+      <p class="text-xs text-gray-500 pt-2">
+        Visitors get a page showing this snippet, highlighted as its language. You can change it at any time.
+      </p>
+      <label class="form-control w-full">
+        <div class="label">
+          <span class="label-text text-xs text-gray-500">Language</span>
+        </div>
+        <select
+          class="select select-bordered select-sm w-full"
+          onChange$={(ev: Event) => {
+            snippet.value = { ...snippet.value, language: (ev.target as HTMLSelectElement).value as SnippetLanguage };
+          }}
+        >
+          {SNIPPET_LANGUAGES.map((language) => (
+            <option key={language} value={language} selected={snippet.value.language === language}>
+              {SNIPPET_LANGUAGE_LABELS[language]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label class="form-control w-full">
+        <div class="label">
+          <span class="label-text text-xs text-gray-500">Snippet</span>
+        </div>
+        <textarea
+          class="textarea textarea-bordered w-full font-mono text-xs"
+          rows={10}
+          maxLength={MAX_SNIPPET_LENGTH}
+          spellcheck={false}
+          placeholder="Paste a config snippet, an announcement or release notes"
+          value={snippet.value.content}
+          onInput$={(ev: InputEvent) => {
+            snippet.value = { ...snippet.value, content: (ev.target as HTMLTextAreaElement).value };
+          }}
+        />
+      </label>
+    </div>
+  );
+});
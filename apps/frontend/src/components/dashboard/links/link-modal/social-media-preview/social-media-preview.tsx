@@ -14,9 +14,12 @@ export interface Metadata {
 
 export interface SocialMediaPreviewProps {
   url: Signal<string | null>;
+
+  // Custom values of the link, shown instead of the metadata of the destination
+  overrides?: Pick<Metadata, 'title' | 'description' | 'image'>;
 }
 
-export const SocialMediaPreview = component$(({ url }: SocialMediaPreviewProps) => {
+export const SocialMediaPreview = component$(({ url, overrides }: SocialMediaPreviewProps) => {
   const state = useSignal<Metadata>({
     title: null,
     description: null,
@@ -69,7 +72,16 @@ export const SocialMediaPreview = component$(({ url }: SocialMediaPreviewProps)
               <span>{logo}</span>
               {name}
             </div>
-            <SocialMediaLayout platformName={name} metadata={state.value} loading={loading.value} />
+            <SocialMediaLayout
+              platformName={name}
+              metadata={{
+                ...state.value,
+                title: overrides?.title || state.value.title,
+                description: overrides?.description || state.value.description,
+                image: overrides?.image || state.value.image,
+              }}
+              loading={loading.value}
+            />
           </div>
         ))}
       </div>
@@ -0,0 +1,147 @@
+import { component$, $, Signal } from '@builder.io/qwik';
+import { HiArrowUpTrayOutline, HiTrashOutline } from '@qwikest/icons/heroicons';
+import { useToaster } from '../../../../toaster/toaster';
+import { resizeImage } from '../../../../../utils/images';
+
+export const MAX_SOCIAL_PREVIEW_IMAGE_SIZE = 5 * 1024 * 1024; // 5MB
+
+// Recommended size of Open Graph images
+const IMAGE_WIDTH = 1200;
+const IMAGE_HEIGHT = 630;
+
+export interface SocialPreviewForm {
+  title: string;
+  description: string;
+  // Data URI of a new image, storage path of the current image or empty without an image
+  image: string;
+}
+
+export const isNewSocialPreviewImage = (image?: string) => !!image?.startsWith('data:');
+
+export const getSocialPreviewImageUrl = (image: string) =>
+  isNewSocialPreviewImage(image) ? image : `${process.env.STORAGE_DOMAIN}/${image}`;
+
+export interface SocialPreviewProps {
+  preview: Signal<SocialPreviewForm>;
+}
+
+export const SocialPreview = component$(({ preview }: SocialPreviewProps) => {
+  const toaster = useToaster();
+
+  const onUploadImage = $(async (event: Event) => {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+
+    // Allow selecting the same file again after the image was removed
+    input.value = '';
+
+    if (!file || !/\.(jpe?g|png)$/i.test(file.name)) {
+      toaster.add({
+        title: 'Invalid file type',
+        description: 'Only JPG, JPEG and PNG files are allowed',
+        type: 'error',
+      });
+      return;
+    }
+
+    if (file.size > MAX_SOCIAL_PREVIEW_IMAGE_SIZE) {
+      toaster.add({
+        title: 'File too large',
+        description: 'The file you are trying to upload is too large. 5MB max.',
+        type: 'error',
+      });
+      return;
+    }
+
+    try {
+      const processedBlob = await resizeImage(file, IMAGE_WIDTH, IMAGE_HEIGHT, 0.9);
+
+      // Convert blob to base64 string
+      const reader = new FileReader();
+      reader.readAsDataURL(processedBlob);
+      reader.onloadend = () => {
+        preview.value = { ...preview.value, image: reader.result as string };
+      };
+    } catch (error) {
+      toaster.add({
+        title: 'Error processing image',
+        description: 'Something went wrong with the image you are trying to upload. Please try again later.',
+        type: 'error',
+      });
+    }
+  });
+
+  return (
+    <div class="px-4">
+      <label class="form-control w-full">
+        <div class="label">
+          <span class="label-text text-xs text-gray-500">Title</span>
+        </div>
+        <input
+          type="text"
+          name="ogTitle"
+          maxLength={100}
+          placeholder="Defaults to the title of the destination"
+          class="input input-bordered input-sm w-full"
+          value={preview.value.title}
+          onInput$={(ev: InputEvent) => {
+            preview.value = { ...preview.value, title: (ev.target as HTMLInputElement).value };
+          }}
+        />
+      </label>
+      <label class="form-control w-full">
+        <div class="label">
+          <span class="label-text text-xs text-gray-500">Description</span>
+        </div>
+        <textarea
+          name="ogDescription"
+          maxLength={300}
+          placeholder="Defaults to the description of the destination"
+          class="textarea textarea-bordered textarea-sm w-full"
+          value={preview.value.description}
+          onInput$={(ev: InputEvent) => {
+            preview.value = { ...preview.value, description: (ev.target as HTMLTextAreaElement).value };
+          }}
+        />
+      </label>
+      <div class="label">
+        <span class="label-text text-xs text-gray-500">Image</span>
+      </div>
+      <input type="hidden" name="ogImage" value={preview.value.image} />
+      <input
+        type="file"
+        id="socialPreviewImageSelector"
+        accept=".jpg, .jpeg, .png"
+        style="display: none;"
+        onChange$={(event) => onUploadImage(event)}
+      />
+      {preview.value.image ? (
+        <div class="relative">
+          <img src={getSocialPreviewImageUrl(preview.value.image)} alt="Social preview" class="w-full max-h-40 object-cover rounded-lg" />
+          <button
+            type="button"
+            class="btn btn-xs btn-circle absolute top-2 right-2 text-red-500"
+            onClick$={() => {
+              preview.value = { ...preview.value, image: '' };
+            }}
+          >
+            <HiTrashOutline class="w-4 h-4" />
+          </button>
+        </div>
+      ) : (
+        <button
+          type="button"
+          class="btn btn-sm btn-outline w-full"
+          onClick$={$(() => document.getElementById('socialPreviewImageSelector')?.click())}
+        >
+          <HiArrowUpTrayOutline class="w-4 h-4" />
+          Upload image
+        </button>
+      )}
+      <p class="text-xs text-gray-500 py-2">
+        Shown instead of the metadata of the destination when the link is shared. JPG, JPEG or PNG, resized to fit {IMAGE_WIDTH}x
+        {IMAGE_HEIGHT}.
+      </p>
+    </div>
+  );
+});
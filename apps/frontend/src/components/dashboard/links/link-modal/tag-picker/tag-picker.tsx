@@ -0,0 +1,46 @@
+import { component$, $, Signal } from '@builder.io/qwik';
+import { DEFAULT_TAG_COLOR, Tag } from '../../../../../lib/tags-utils';
+
+export const MAX_LINK_TAGS = 10;
+
+export interface TagPickerProps {
+  tags: Tag[];
+  selected: Signal<string[]>;
+}
+
+export const TagPicker = component$(({ tags, selected }: TagPickerProps) => {
+  const toggleTag = $((id: string) => {
+    if (selected.value.includes(id)) {
+      selected.value = selected.value.filter((tagId) => tagId !== id);
+      return;
+    }
+
+    if (selected.value.length < MAX_LINK_TAGS) {
+      selected.value = [...selected.value, id];
+    }
+  });
+
+  if (!tags.length) {
+    return <p class="text-xs text-gray-500">You don't have any tags yet, create them from the sidebar of your links.</p>;
+  }
+
+  return (
+    <div class="flex flex-wrap gap-2">
+      {tags.map((tag) => {
+        const isSelected = selected.value.includes(tag.id);
+
+        return (
+          <button
+            key={tag.id}
+            type="button"
+            class={`badge cursor-pointer ${isSelected ? 'border-0 text-white' : 'badge-outline'}`}
+            style={isSelected ? { backgroundColor: tag.color || DEFAULT_TAG_COLOR } : { color: tag.color || DEFAULT_TAG_COLOR }}
+            onClick$={() => toggleTag(tag.id)}
+          >
+            {tag.name}
+          </button>
+        );
+      })}
+    </div>
+  );
+});
@@ -0,0 +1,89 @@
+import { component$, $, Signal } from '@builder.io/qwik';
+import { HiPlusOutline, HiTrashOutline } from '@qwikest/icons/heroicons';
+import { RedirectVariant, getVariantShares } from '@reduced.to/utils';
+import { normalizeUrl } from '../../../../../utils';
+
+export const MIN_VARIANTS = 2;
+export const MAX_VARIANTS = 10;
+
+export const toVariants = (variants: RedirectVariant[]): RedirectVariant[] =>
+  variants.map(({ url, weight }) => ({ url: url && normalizeUrl(url), weight: Number(weight) || 0 }));
+
+export interface VariantsProps {
+  variants: Signal<RedirectVariant[]>;
+  sticky: Signal<boolean>;
+}
+
+export const Variants = component$(({ variants, sticky }: VariantsProps) => {
+  const updateVariant = $((index: number, changes: Partial<RedirectVariant>) => {
+    variants.value = variants.value.map((variant, i) => (i === index ? { ...variant, ...changes } : variant));
+  });
+
+  const addVariant = $(() => {
+    variants.value = [...variants.value, { url: '', weight: 50 }];
+  });
+
+  const removeVariant = $((index: number) => {
+    variants.value = variants.value.filter((_, i) => i !== index);
+  });
+
+  const shares = getVariantShares(variants.value);
+
+  return (
+    <div class="px-4">
+      <p class="text-xs text-gray-500 pb-2">
+        Visitors that do not match a redirect rule are split across the variants by their weight, instead of the destination URL.
+      </p>
+      {variants.value.map((variant, index) => (
+        <div key={index} class="flex items-center gap-2 pb-2">
+          <input
+            type="text"
+            placeholder="https://example.com/landing-b"
+            class="input input-bordered input-sm w-full"
+            value={variant.url}
+            onInput$={(ev: InputEvent) => updateVariant(index, { url: (ev.target as HTMLInputElement).value })}
+          />
+          <input
+            type="number"
+            min={0}
+            max={100}
+            class="input input-bordered input-sm w-20"
+            value={variant.weight}
+            onInput$={(ev: InputEvent) => updateVariant(index, { weight: parseInt((ev.target as HTMLInputElement).value, 10) || 0 })}
+          />
+          <span class="text-xs text-gray-500 w-12 text-right">{shares[index]?.share}%</span>
+          <button
+            type="button"
+            class="btn btn-xs btn-ghost text-red-500"
+            disabled={variants.value.length <= MIN_VARIANTS}
+            onClick$={() => removeVariant(index)}
+          >
+            <HiTrashOutline class="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      <div class="flex items-center justify-between">
+        {variants.value.length < MAX_VARIANTS ? (
+          <button type="button" class="btn btn-sm btn-ghost" onClick$={addVariant}>
+            <HiPlusOutline class="w-4 h-4" />
+            Add variant
+          </button>
+        ) : (
+          <span />
+        )}
+        <label class="cursor-pointer label gap-2">
+          <span class="label-text text-xs text-gray-500">Same variant for returning visitors</span>
+          <input
+            type="checkbox"
+            name="stickyVariants"
+            class="checkbox checkbox-sm checkbox-primary"
+            checked={sticky.value}
+            onChange$={(ev: Event) => {
+              sticky.value = (ev.target as HTMLInputElement).checked;
+            }}
+          />
+        </label>
+      </div>
+    </div>
+  );
+});
@@ -1,29 +1,117 @@
 import { component$, $ } from '@builder.io/qwik';
 import { getLinkFromKey } from '../../../temporary-links/utils';
 import LinkActionsDropdown from './link-actions-dropdown';
-import { HiArrowTopRightOnSquareOutline, HiClipboardDocumentOutline, HiQrCodeOutline, HiTrashOutline } from '@qwikest/icons/heroicons';
-import { formatDateDay } from '../../../../lib/date-utils';
+import {
+  HiArrowTopRightOnSquareOutline,
+  HiClipboardDocumentOutline,
+  HiCodeBracketOutline,
+  HiDocumentOutline,
+  HiPencilSquareOutline,
+  HiQrCodeOutline,
+  HiTrashOutline,
+  HiArrowUturnLeftOutline,
+} from '@qwikest/icons/heroicons';
+import { formatDate, formatDateDay } from '../../../../lib/date-utils';
 import { useToaster } from '../../../toaster/toaster';
 import { copyToClipboard } from '../../../../utils';
 import { LuLineChart } from '@qwikest/icons/lucide';
 import { Link } from '@builder.io/qwik-city';
+import { DEFAULT_TAG_COLOR } from '../../../../lib/tags-utils';
+import { MIGRATION_SOURCES, MigrationSource } from '../import-links/import-links';
 
-export interface LinkBlockProps {
+export type LinkHealth = 'HEALTHY' | 'BROKEN';
+
+// URL links redirect to their url, payload and snippet links serve a page and file links a download,
+// the url of those is a summary of their content
+export type LinkType = 'URL' | 'PAYLOAD' | 'FILE' | 'SNIPPET';
+
+// Last health check of the destination, links are checked periodically by the server
+export interface LinkHealthCheck {
+  healthStatus?: LinkHealth | null;
+  healthStatusCode?: number | null;
+  healthRedirects?: string[];
+  healthLatency?: number | null;
+  healthError?: string | null;
+  healthCheckedAt?: string | null;
+}
+
+const getHealthTip = ({ healthStatusCode, healthRedirects, healthLatency, healthError, healthCheckedAt }: LinkHealthCheck) => {
+  const result = healthStatusCode ? `HTTP ${healthStatusCode}` : healthError;
+  const redirects = healthRedirects?.length ? ` after ${healthRedirects.length} redirects` : '';
+  const latency = healthLatency !== null && healthLatency !== undefined ? ` in ${healthLatency} ms` : '';
+
+  const checkedAt = healthCheckedAt ? `, checked ${formatDate(new Date(healthCheckedAt))}` : '';
+
+  return `${result}${redirects}${latency}${checkedAt}`;
+};
+
+export interface LinkBlockProps extends LinkHealthCheck {
   id: string;
   urlKey: string;
+  domain?: string;
+  type?: LinkType;
   url: string;
   clicks: number;
   favicon?: string;
   createdAt: string;
   expirationTime?: string;
+  maxClicks?: number | null;
+  redirects?: number;
+  activeFrom?: string | null;
+  scheduledChanges?: { url: string; scheduledAt: string }[];
+  tags?: { id: string; name: string; color?: string | null }[];
+  folder?: { id: string; name: string } | null;
+  archivedAt?: string | null;
+  quarantinedAt?: string | null; // Set when the destination was flagged as unsafe, the link does not redirect
+  migratedFrom?: MigrationSource | null;
   onShowQR: () => void;
+  onEdit: (id: string) => void;
   onDelete: (id: string) => void;
+  onRestore?: (id: string) => void;
+  // Links can be selected for bulk actions when a handler is given
+  selected?: boolean;
+  onSelect?: (id: string, selected: boolean) => void;
 }
 
 export const LinkBlock = component$(
-  ({ id, urlKey, url, favicon, createdAt, expirationTime, clicks, onShowQR, onDelete }: LinkBlockProps) => {
-    const link = getLinkFromKey(urlKey);
+  ({
+    id,
+    urlKey,
+    domain,
+    type,
+    url,
+    favicon,
+    createdAt,
+    expirationTime,
+    maxClicks,
+    redirects,
+    activeFrom,
+    scheduledChanges,
+    tags,
+    folder,
+    archivedAt,
+    quarantinedAt,
+    migratedFrom,
+    healthStatus,
+    healthStatusCode,
+    healthRedirects,
+    healthLatency,
+    healthError,
+    healthCheckedAt,
+    clicks,
+    onShowQR,
+    onEdit,
+    onDelete,
+    onRestore,
+    selected,
+    onSelect,
+  }: LinkBlockProps) => {
+    const link = getLinkFromKey(urlKey, domain);
+    const hasDestination = !type || type === 'URL';
     const toaster = useToaster();
+    const clicksLeft = maxClicks ? Math.max(maxClicks - (redirects || 0), 0) : null;
+    const startsAt = activeFrom && new Date(activeFrom) > new Date() ? new Date(activeFrom) : null;
+    const healthTip = healthStatus && getHealthTip({ healthStatusCode, healthRedirects, healthLatency, healthError, healthCheckedAt });
 
     return (
       <>
@@ -31,31 +119,111 @@ export const LinkBlock = component$(
           <div class="grid grid-cols-12 gap-4">
             {/* First column with the link and favicon */}
             <div class="flex items-center space-x-3 col-span-6">
-              <div class="hidden sm:block flex-shrink-0">
-                <img
-                  alt={new URL(url).hostname}
-                  src={favicon || `https://www.google.com/s2/favicons?sz=128&domain_url=${url}`}
-                  class="w-8 h-8 rounded-full"
+              {onSelect && (
+                <input
+                  type="checkbox"
+                  class="checkbox checkbox-sm"
+                  checked={!!selected}
+                  onChange$={(ev: Event) => onSelect(id, (ev.target as HTMLInputElement).checked)}
                 />
+              )}
+              <div class="hidden sm:block flex-shrink-0">
+                {hasDestination ? (
+                  <img
+                    alt={new URL(url).hostname}
+                    src={favicon || `https://www.google.com/s2/favicons?sz=128&domain_url=${url}`}
+                    class="w-8 h-8 rounded-full"
+                  />
+                ) : (
+                  <div class="w-8 h-8 rounded-full bg-base-200 flex items-center justify-center">
+                    {type === 'FILE' ? (
+                      <HiDocumentOutline class="w-5 h-5" />
+                    ) : type === 'SNIPPET' ? (
+                      <HiCodeBracketOutline class="w-5 h-5" />
+                    ) : (
+                      <HiQrCodeOutline class="w-5 h-5" />
+                    )}
+                  </div>
+                )}
               </div>
               <div class="flex flex-col text-left w-full">
                 <a href={link} target="_blank" rel="noopener noreferrer" class="text-sm font-medium truncate">
                   {link}
                 </a>
-                <a href={url} target="_blank" rel="noopener noreferrer" class="text-xs mt-1 font-medium text-gray-500 truncate">
-                  {url}
-                </a>
+                {hasDestination ? (
+                  <a href={url} target="_blank" rel="noopener noreferrer" class="text-xs mt-1 font-medium text-gray-500 truncate">
+                    {url}
+                  </a>
+                ) : (
+                  <span class="text-xs mt-1 font-medium text-gray-500 truncate">{url}</span>
+                )}
+                {(!!tags?.length || folder || migratedFrom || healthStatus || quarantinedAt) && (
+                  <div class="flex flex-wrap gap-1 mt-1">
+                    {quarantinedAt && (
+                      <span
+                        class="badge badge-sm badge-error tooltip tooltip-right"
+                        data-tip="The destination was flagged as unsafe, the link does not redirect until it is reviewed"
+                      >
+                        Quarantined
+                      </span>
+                    )}
+                    {healthStatus && (
+                      <span
+                        class={`badge badge-sm tooltip tooltip-right ${healthStatus === 'BROKEN' ? 'badge-error' : 'badge-success'}`}
+                        data-tip={healthTip}
+                      >
+                        {healthStatus === 'BROKEN' ? 'Broken' : 'Healthy'}
+                      </span>
+                    )}
+                    {migratedFrom && <span class="badge badge-sm badge-ghost">From {MIGRATION_SOURCES[migratedFrom]}</span>}
+                    {folder && <span class="badge badge-sm badge-outline">{folder.name}</span>}
+                    {tags?.map((tag) => (
+                      <span
+                        key={tag.id}
+                        class="badge badge-sm border-0 text-white"
+                        style={{ backgroundColor: tag.color || DEFAULT_TAG_COLOR }}
+                      >
+                        {tag.name}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                {scheduledChanges?.map((change) => (
+                  <span key={change.scheduledAt} class="text-xs mt-1 text-gray-400 truncate">
+                    {formatDate(new Date(change.scheduledAt))} → {change.url}
+                  </span>
+                ))}
               </div>
             </div>
 
             {/* Second column with the created date */}
             <div class="gap-4 mt-2 items-center justify-end hidden sm:flex col-span-4 sm:mr-4">
+              {archivedAt && (
+                <div class="flex flex-col justify-start mr-3">
+                  <span class="text-xs font-medium  ">{formatDateDay(new Date(archivedAt))}</span>
+                  <span class="text-xs font-medium text-gray-500 mb-1 mt-1">Archived At</span>
+                </div>
+              )}
+              {startsAt && (
+                <div class="flex flex-col justify-start mr-3">
+                  <span class="text-xs font-medium  ">{formatDateDay(startsAt)}</span>
+                  <span class="text-xs font-medium text-gray-500 mb-1 mt-1">Starts At</span>
+                </div>
+              )}
               {expirationTime && (
                 <div class="flex flex-col justify-start mr-3">
                   <span class="text-xs font-medium  ">{formatDateDay(new Date(expirationTime))}</span>
                   <span class="text-xs font-medium text-gray-500 mb-1 mt-1">Expire At</span>
                 </div>
               )}
+              {clicksLeft !== null && (
+                <div class="flex flex-col justify-start mr-3">
+                  <span class={`text-xs font-medium ${clicksLeft === 0 ? 'text-red-500' : ''}`}>
+                    {clicksLeft === 0 ? 'Expired' : `${clicksLeft} / ${maxClicks}`}
+                  </span>
+                  <span class="text-xs font-medium text-gray-500 mb-1 mt-1">Clicks Left</span>
+                </div>
+              )}
               <div class="flex flex-col justify-start mr-3">
                 <span class="text-xs font-medium  ">{formatDateDay(new Date(createdAt))}</span>
                 <span class="text-xs font-medium text-gray-500 mb-1 mt-1">Created At</span>
@@ -65,7 +233,7 @@ export const LinkBlock = component$(
             {/* Third column with the actions dropdown */}
             <div class="flex items-center justify-end col-span-6 sm:col-span-2">
               <div class="flex items center justify-end">
-                <Link href={`/dashboard/analytics/${urlKey}`} class="btn btn-xs btn-ghost border border-gray-200 dark:border-gray-600">
+                <Link href={`/dashboard/analytics/${id}`} class="btn btn-xs btn-ghost border border-gray-200 dark:border-gray-600">
                   <LuLineChart class="w-4 h-4" />
                   {clicks}
                   <span class="hidden md:block">clicks</span>
@@ -73,37 +241,56 @@ export const LinkBlock = component$(
               </div>
               <LinkActionsDropdown
                 url={url}
-                actions={[
-                  {
-                    name: 'Open',
-                    icon: <HiArrowTopRightOnSquareOutline />,
-                    href: url,
-                    target: '_blank',
-                  },
-                  {
-                    name: 'Copy',
-                    icon: <HiClipboardDocumentOutline />,
-                    action: $(() => {
-                      copyToClipboard(getLinkFromKey(urlKey));
-                      toaster.add({ title: 'Success', description: 'The url has been copied to the clipboard!' });
-                    }),
-                  },
-                  {
-                    name: 'QR',
-                    icon: <HiQrCodeOutline />,
-                    action: $(() => {
-                      onShowQR();
-                    }),
-                  },
-                  {
-                    name: 'Delete',
-                    class: 'text-red-500',
-                    action: $(() => {
-                      onDelete(id);
-                    }),
-                    icon: <HiTrashOutline />,
-                  },
-                ]}
+                actions={
+                  archivedAt
+                    ? [
+                        {
+                          name: 'Restore',
+                          icon: <HiArrowUturnLeftOutline />,
+                          action: $(() => {
+                            onRestore?.(id);
+                          }),
+                        },
+                      ]
+                    : [
+                        {
+                          name: 'Open',
+                          icon: <HiArrowTopRightOnSquareOutline />,
+                          href: hasDestination ? url : link,
+                          target: '_blank',
+                        },
+                        {
+                          name: 'Copy',
+                          icon: <HiClipboardDocumentOutline />,
+                          action: $(() => {
+                            copyToClipboard(link);
+                            toaster.add({ title: 'Success', description: 'The url has been copied to the clipboard!' });
+                          }),
+                        },
+                        {
+                          name: 'QR',
+                          icon: <HiQrCodeOutline />,
+                          action: $(() => {
+                            onShowQR();
+                          }),
+                        },
+                        {
+                          name: 'Edit',
+                          icon: <HiPencilSquareOutline />,
+                          action: $(() => {
+                            onEdit(id);
+                          }),
+                        },
+                        {
+                          name: 'Delete',
+                          class: 'text-red-500',
+                          action: $(() => {
+                            onDelete(id);
+                          }),
+                          icon: <HiTrashOutline />,
+                        },
+                      ]
+                }
               />
             </div>
           </div>
@@ -113,12 +300,26 @@ export const LinkBlock = component$(
               <span class="text-xs font-medium  ">{formatDateDay(new Date(createdAt))}</span>
             </div>
 
+            {startsAt && (
+              <div class="flex justify-start items-center gap-1 mr-3">
+                <span class="text-xs font-medium text-gray-500 mb-1 mt-1">Starts At</span>
+                <span class="text-xs font-medium  ">{formatDateDay(startsAt)}</span>
+              </div>
+            )}
+
             {expirationTime && (
               <div class="flex justify-start items-center gap-1 mr-3">
                 <span class="text-xs font-medium text-gray-500 mb-1 mt-1">Expire At</span>
                 <span class="text-xs font-medium  ">{formatDateDay(new Date(expirationTime))}</span>
               </div>
             )}
+
+            {clicksLeft !== null && (
+              <div class="flex justify-start items-center gap-1 mr-3">
+                <span class="text-xs font-medium text-gray-500 mb-1 mt-1">Clicks Left</span>
+                <span class={`text-xs font-medium ${clicksLeft === 0 ? 'text-red-500' : ''}`}>{clicksLeft}</span>
+              </div>
+            )}
           </div>
         </div>
       </>
@@ -0,0 +1,201 @@
+import { component$, $, Signal, useSignal } from '@builder.io/qwik';
+import {
+  HiArchiveBoxOutline,
+  HiExclamationTriangleOutline,
+  HiFolderOutline,
+  HiPlusOutline,
+  HiTagOutline,
+  HiXMarkOutline,
+} from '@qwikest/icons/heroicons';
+import { authorizedFetch } from '../../../../shared/auth.service';
+import { useToaster } from '../../../toaster/toaster';
+import { DEFAULT_TAG_COLOR, FOLDERS_API, Folder, TAGS_API, Tag, fetchFolders, fetchTags } from '../../../../lib/tags-utils';
+
+export interface LinksSidebarProps {
+  tags: Signal<Tag[]>;
+  folders: Signal<Folder[]>;
+  selectedTag: Signal<string>;
+  selectedFolder: Signal<string>;
+  archived: Signal<boolean>;
+  broken: Signal<boolean>;
+
+  // Called when the selected filters change, or when the links should be reloaded
+  onChange: () => void;
+}
+
+export const LinksSidebar = component$(({ tags, folders, selectedTag, selectedFolder, archived, broken, onChange }: LinksSidebarProps) => {
+  const toaster = useToaster();
+  const newTag = useSignal('');
+  const newTagColor = useSignal(DEFAULT_TAG_COLOR);
+  const newFolder = useSignal('');
+  const isLoading = useSignal(false);
+
+  const request = $(async (url: string, options: RequestInit) => {
+    isLoading.value = true;
+
+    try {
+      const response = await authorizedFetch(url, { ...options, headers: { 'Content-Type': 'application/json' } });
+
+      if (!response.ok) {
+        const data = await response.json();
+        toaster.add({
+          title: 'Something went wrong',
+          description: data?.message || 'Please try again later',
+          type: 'error',
+        });
+        return false;
+      }
+
+      [tags.value, folders.value] = await Promise.all([fetchTags(), fetchFolders()]);
+      return true;
+    } finally {
+      isLoading.value = false;
+    }
+  });
+
+  const select = $((tagId: string, folderId: string, isArchived = archived.value, isBroken = broken.value) => {
+    selectedTag.value = tagId;
+    selectedFolder.value = folderId;
+    archived.value = isArchived;
+    broken.value = isBroken;
+    onChange();
+  });
+
+  const addTag = $(async () => {
+    if (!newTag.value) {
+      return;
+    }
+
+    if (await request(TAGS_API, { method: 'POST', body: JSON.stringify({ name: newTag.value, color: newTagColor.value }) })) {
+      newTag.value = '';
+    }
+  });
+
+  const addFolder = $(async () => {
+    if (!newFolder.value) {
+      return;
+    }
+
+    if (await request(FOLDERS_API, { method: 'POST', body: JSON.stringify({ name: newFolder.value }) })) {
+      newFolder.value = '';
+    }
+  });
+
+  const deleteTag = $(async (id: string) => {
+    if (await request(`${TAGS_API}/${id}`, { method: 'DELETE' })) {
+      select(selectedTag.value === id ? '' : selectedTag.value, selectedFolder.value);
+    }
+  });
+
+  const deleteFolder = $(async (id: string) => {
+    if (await request(`${FOLDERS_API}/${id}`, { method: 'DELETE' })) {
+      select(selectedTag.value, selectedFolder.value === id ? '' : selectedFolder.value);
+    }
+  });
+
+  return (
+    <aside class="w-56 flex-shrink-0 hidden lg:block pt-5 pl-5">
+      <ul class="menu menu-sm p-0">
+        <li>
+          <button
+            type="button"
+            class={!selectedTag.value && !selectedFolder.value && !archived.value && !broken.value ? 'active' : ''}
+            onClick$={() => select('', '', false, false)}
+          >
+            All links
+          </button>
+        </li>
+        <li>
+          <button
+            type="button"
+            class={`flex items-center gap-2 ${archived.value ? 'active' : ''}`}
+            onClick$={() => select('', '', true, false)}
+          >
+            <HiArchiveBoxOutline class="w-4 h-4" />
+            Archived
+          </button>
+        </li>
+        <li>
+          <button
+            type="button"
+            class={`flex items-center gap-2 ${broken.value ? 'active' : ''}`}
+            onClick$={() => select('', '', false, true)}
+          >
+            <HiExclamationTriangleOutline class="w-4 h-4" />
+            Broken links
+          </button>
+        </li>
+        <li class="menu-title">Folders</li>
+        {folders.value.map((folder) => (
+          <li key={folder.id}>
+            <div class={`flex justify-between ${selectedFolder.value === folder.id ? 'active' : ''}`}>
+              <button type="button" class="flex items-center gap-2 truncate" onClick$={() => select(selectedTag.value, folder.id)}>
+                <HiFolderOutline class="w-4 h-4" />
+                <span class="truncate">{folder.name}</span>
+                <span class="text-xs text-gray-500">{folder._count?.links}</span>
+              </button>
+              <button type="button" class="text-gray-500" disabled={isLoading.value} onClick$={() => deleteFolder(folder.id)}>
+                <HiXMarkOutline class="w-3 h-3" />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+      <div class="join w-full mt-2">
+        <input
+          type="text"
+          placeholder="New folder"
+          maxLength={50}
+          class="input input-bordered input-xs join-item w-full"
+          value={newFolder.value}
+          onInput$={(ev: InputEvent) => {
+            newFolder.value = (ev.target as HTMLInputElement).value;
+          }}
+        />
+        <button type="button" class="btn btn-xs join-item" disabled={isLoading.value} onClick$={addFolder}>
+          <HiPlusOutline class="w-3 h-3" />
+        </button>
+      </div>
+      <ul class="menu menu-sm p-0 mt-4">
+        <li class="menu-title">Tags</li>
+        {tags.value.map((tag) => (
+          <li key={tag.id}>
+            <div class={`flex justify-between ${selectedTag.value === tag.id ? 'active' : ''}`}>
+              <button type="button" class="flex items-center gap-2 truncate" onClick$={() => select(tag.id, selectedFolder.value)}>
+                <HiTagOutline class="w-4 h-4" style={{ color: tag.color || DEFAULT_TAG_COLOR }} />
+                <span class="truncate">{tag.name}</span>
+                <span class="text-xs text-gray-500">{tag._count?.links}</span>
+              </button>
+              <button type="button" class="text-gray-500" disabled={isLoading.value} onClick$={() => deleteTag(tag.id)}>
+                <HiXMarkOutline class="w-3 h-3" />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+      <div class="join w-full mt-2">
+        <input
+          type="color"
+          class="input input-bordered input-xs join-item w-8 p-0"
+          value={newTagColor.value}
+          onInput$={(ev: InputEvent) => {
+            newTagColor.value = (ev.target as HTMLInputElement).value;
+          }}
+        />
+        <input
+          type="text"
+          placeholder="New tag"
+          maxLength={30}
+          class="input input-bordered input-xs join-item w-full"
+          value={newTag.value}
+          onInput$={(ev: InputEvent) => {
+            newTag.value = (ev.target as HTMLInputElement).value;
+          }}
+        />
+        <button type="button" class="btn btn-xs join-item" disabled={isLoading.value} onClick$={addTag}>
+          <HiPlusOutline class="w-3 h-3" />
+        </button>
+      </div>
+    </aside>
+  );
+});
@@ -0,0 +1,381 @@
+import { component$, $, useSignal, useVisibleTask$ } from '@builder.io/qwik';
+import { HiArrowDownTrayOutline, HiArrowUpTrayOutline, HiTrashOutline } from '@qwikest/icons/heroicons';
+import { DEFAULT_QR_STYLE, QR_ERROR_CORRECTION_LEVELS, QrErrorCorrectionLevel } from '@reduced.to/utils';
+import { authorizedFetch } from '../../../../shared/auth.service';
+import { useGetCurrentUser } from '../../../../routes/layout';
+import { useToaster } from '../../../toaster/toaster';
+import { resizeImage } from '../../../../utils/images';
+import { ConditionalWrapper, getRequiredFeatureLevel } from '../../plan-wrapper';
+
+export const QR_CODE_MODAL_ID = 'QR_CODE_MODAL';
+
+const MAX_LOGO_SIZE = 2 * 1024 * 1024; // 2MB
+const LOGO_DIMENSION = 512;
+
+// Sizes of the downloaded codes, in pixels for SVG and PNG and in points for PDF
+const QR_SIZES = [256, 512, 1024, 2048];
+const PREVIEW_SIZE = 256;
+
+type QrDownloadFormat = 'png' | 'svg' | 'pdf';
+
+const ERROR_CORRECTION_LABELS: Record<QrErrorCorrectionLevel, string> = {
+  L: 'Low (7%)',
+  M: 'Medium (15%)',
+  Q: 'Quartile (25%)',
+  H: 'High (30%)',
+};
+
+interface QrStyleForm {
+  fgColor: string;
+  bgColor: string;
+  errorCorrection: QrErrorCorrectionLevel;
+  margin: number;
+  // Data URI of a new logo, storage path of the saved logo or empty without a logo
+  logo: string;
+}
+
+const isNewLogo = (logo: string) => logo.startsWith('data:');
+
+const getLogoUrl = (logo: string) => (isNewLogo(logo) ? logo : `${process.env.STORAGE_DOMAIN}/${logo}`);
+
+export interface QrCodeModalProps {
+  link: {
+    id?: string;
+    key?: string;
+  };
+}
+
+export const QrCodeModal = component$(({ link }: QrCodeModalProps) => {
+  const toaster = useToaster();
+  const user = useGetCurrentUser();
+  const canStyle = !getRequiredFeatureLevel(user.value?.plan || 'FREE', 'QR_CODES');
+
+  const style = useSignal<QrStyleForm>({ ...DEFAULT_QR_STYLE, logo: '' });
+  const savedLogo = useSignal('');
+  const size = useSignal(1024);
+  const previewUrl = useSignal('');
+  const isSaving = useSignal(false);
+
+  const linkApi = `${process.env.CLIENTSIDE_API_DOMAIN}/api/v1/links/${link.id}`;
+
+  // The unsaved style is previewed with query overrides, only the saved logo can be rendered by the server
+  const getQrUrl = $((format: 'svg' | 'pdf', codeSize: number, download = false) => {
+    const { fgColor, bgColor, errorCorrection, margin } = style.value;
+    const params = new URLSearchParams({
+      format,
+      size: `${codeSize}`,
+      ...(download && { download: 'true' }),
+      margin: `${margin}`,
+      ...(canStyle && { fgColor, bgColor, errorCorrection }),
+    });
+
+    return `${linkApi}/qr?${params.toString()}`;
+  });
+
+  useVisibleTask$(async ({ track }) => {
+    track(() => link.id);
+    if (!link.id) {
+      return;
+    }
+
+    const response = await authorizedFetch(linkApi);
+    const { qrStyle } = response.ok ? await response.json() : { qrStyle: null };
+    style.value = { ...DEFAULT_QR_STYLE, ...qrStyle, logo: qrStyle?.logo || '' };
+    savedLogo.value = style.value.logo;
+  });
+
+  useVisibleTask$(async ({ track, cleanup }) => {
+    track(() => style.value);
+    if (!link.id) {
+      return;
+    }
+
+    const response = await authorizedFetch(await getQrUrl('svg', PREVIEW_SIZE));
+    if (!response.ok) {
+      return;
+    }
+
+    const url = URL.createObjectURL(await response.blob());
+    previewUrl.value = url;
+    cleanup(() => URL.revokeObjectURL(url));
+  });
+
+  const onUploadLogo = $(async (event: Event) => {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+
+    // Allow selecting the same file again after the logo was removed
+    input.value = '';
+
+    if (!file || !/\.(jpe?g|png)$/i.test(file.name)) {
+      toaster.add({
+        title: 'Invalid file type',
+        description: 'Only JPG, JPEG and PNG files are allowed',
+        type: 'error',
+      });
+      return;
+    }
+
+    if (file.size > MAX_LOGO_SIZE) {
+      toaster.add({
+        title: 'File too large',
+        description: 'The file you are trying to upload is too large. 2MB max.',
+        type: 'error',
+      });
+      return;
+    }
+
+    try {
+      const processedBlob = await resizeImage(file, LOGO_DIMENSION, LOGO_DIMENSION, 0.9);
+
+      // Convert blob to base64 string
+      const reader = new FileReader();
+      reader.readAsDataURL(processedBlob);
+      reader.onloadend = () => {
+        style.value = { ...style.value, logo: reader.result as string };
+      };
+    } catch (error) {
+      toaster.add({
+        title: 'Error processing image',
+        description: 'Something went wrong with the image you are trying to upload. Please try again later.',
+        type: 'error',
+      });
+    }
+  });
+
+  const save = $(async () => {
+    isSaving.value = true;
+
+    const { logo, ...rest } = style.value;
+    const body = canStyle
+      ? { ...rest, ...(isNewLogo(logo) ? { logo } : !logo && savedLogo.value && { logo: null }) }
+      : { margin: rest.margin };
+
+    try {
+      const response = await authorizedFetch(`${linkApi}/qr`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toaster.add({
+          title: 'Something went wrong',
+          description: data?.message || 'Please try again later',
+          type: 'error',
+        });
+        return;
+      }
+
+      style.value = { ...style.value, logo: data.qrStyle?.logo || '' };
+      savedLogo.value = style.value.logo;
+      toaster.add({ title: 'Success', description: 'The QR code style has been saved', type: 'info' });
+    } finally {
+      isSaving.value = false;
+    }
+  });
+
+  const download = $(async (format: QrDownloadFormat) => {
+    try {
+      let blob: Blob;
+      if (format === 'png') {
+        blob = await toPng(await getQrUrl('svg', size.value), size.value);
+      } else {
+        const response = await authorizedFetch(await getQrUrl(format, size.value, true));
+        if (!response.ok) {
+          throw new Error('Failed to download the QR code');
+        }
+
+        blob = await response.blob();
+      }
+
+      const url = URL.createObjectURL(blob);
+      const anchor = document.createElement('a');
+      anchor.href = url;
+      anchor.download = `${link.key}.${format}`;
+      anchor.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      toaster.add({
+        title: 'Something went wrong',
+        description: 'The QR code could not be downloaded, please try again later',
+        type: 'error',
+      });
+    }
+  });
+
+  return (
+    <dialog id={QR_CODE_MODAL_ID} class="modal">
+      <div class="modal-box max-w-2xl">
+        <h1 class="text-2xl font-bold text-gray-800 dark:text-gray-200">QR Code</h1>
+        <p class="text-gray-600 dark:text-gray-400">Scans of the QR code are counted separately from the clicks of the link.</p>
+        <div class="flex flex-col md:flex-row gap-6 pt-5">
+          <div class="flex flex-col items-center gap-2 md:w-1/2">
+            {previewUrl.value ? (
+              <img src={previewUrl.value} width={PREVIEW_SIZE} height={PREVIEW_SIZE} alt={`QR code of ${link.key}`} />
+            ) : (
+              <div class="flex items-center justify-center" style={{ width: `${PREVIEW_SIZE}px`, height: `${PREVIEW_SIZE}px` }}>
+                <span class="loading loading-spinner loading-lg" />
+              </div>
+            )}
+            {isNewLogo(style.value.logo) && <span class="text-xs text-gray-500">Save the style to add the new logo to the code</span>}
+          </div>
+          <div class="flex flex-col gap-2 md:w-1/2 text-left">
+            <ConditionalWrapper access="QR_CODES">
+              <div class="flex gap-4">
+                <label class="form-control">
+                  <div class="label">
+                    <span class="label-text text-xs text-gray-500">Color</span>
+                  </div>
+                  <input
+                    type="color"
+                    class="w-16 h-8 cursor-pointer"
+                    value={style.value.fgColor}
+                    onChange$={(ev: Event) => {
+                      style.value = { ...style.value, fgColor: (ev.target as HTMLInputElement).value };
+                    }}
+                  />
+                </label>
+                <label class="form-control">
+                  <div class="label">
+                    <span class="label-text text-xs text-gray-500">Background</span>
+                  </div>
+                  <input
+                    type="color"
+                    class="w-16 h-8 cursor-pointer"
+                    value={style.value.bgColor}
+                    onChange$={(ev: Event) => {
+                      style.value = { ...style.value, bgColor: (ev.target as HTMLInputElement).value };
+                    }}
+                  />
+                </label>
+              </div>
+              <label class="form-control w-full">
+                <div class="label">
+                  <span class="label-text text-xs text-gray-500">Error correction</span>
+                </div>
+                <select
+                  class="select select-bordered select-sm w-full"
+                  disabled={!!style.value.logo}
+                  onChange$={(ev: Event) => {
+                    style.value = { ...style.value, errorCorrection: (ev.target as HTMLSelectElement).value as QrErrorCorrectionLevel };
+                  }}
+                >
+                  {QR_ERROR_CORRECTION_LEVELS.map((level) => (
+                    <option key={level} value={level} selected={(style.value.logo ? 'H' : style.value.errorCorrection) === level}>
+                      {ERROR_CORRECTION_LABELS[level]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <div class="label">
+                <span class="label-text text-xs text-gray-500">Logo</span>
+              </div>
+              <input
+                type="file"
+                id="qrLogoSelector"
+                accept=".jpg, .jpeg, .png"
+                style="display: none;"
+                onChange$={(event) => onUploadLogo(event)}
+              />
+              {style.value.logo ? (
+                <div class="flex items-center gap-2">
+                  <img src={getLogoUrl(style.value.logo)} alt="Logo" class="w-10 h-10 object-contain rounded" />
+                  <button
+                    type="button"
+                    class="btn btn-ghost btn-sm"
+                    onClick$={() => {
+                      style.value = { ...style.value, logo: '' };
+                    }}
+                  >
+                    <HiTrashOutline class="h-4 w-4" />
+                    Remove
+                  </button>
+                </div>
+              ) : (
+                <button type="button" class="btn btn-sm" onClick$={() => document.getElementById('qrLogoSelector')?.click()}>
+                  <HiArrowUpTrayOutline class="h-4 w-4" />
+                  Upload logo
+                </button>
+              )}
+            </ConditionalWrapper>
+            <label class="form-control w-full">
+              <div class="label">
+                <span class="label-text text-xs text-gray-500">Margin</span>
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={10}
+                class="range range-xs"
+                value={style.value.margin}
+                onChange$={(ev: Event) => {
+                  style.value = { ...style.value, margin: parseInt((ev.target as HTMLInputElement).value, 10) };
+                }}
+              />
+            </label>
+            <button type="button" class="btn btn-sm btn-primary mt-2" disabled={isSaving.value} onClick$={save}>
+              {isSaving.value && <span class="loading loading-spinner loading-xs" />}
+              Save style
+            </button>
+          </div>
+        </div>
+        <div class="divider" />
+        <div class="flex flex-wrap items-center justify-between gap-2">
+          <select
+            class="select select-bordered select-sm"
+            onChange$={(ev: Event) => {
+              size.value = parseInt((ev.target as HTMLSelectElement).value, 10);
+            }}
+          >
+            {QR_SIZES.map((value) => (
+              <option key={value} value={value} selected={size.value === value}>
+                {`${value}px`}
+              </option>
+            ))}
+          </select>
+          <div class="flex gap-2">
+            {(['png', 'svg', 'pdf'] as QrDownloadFormat[]).map((format) => (
+              <button key={format} type="button" class="btn btn-ghost btn-sm" onClick$={() => download(format)}>
+                <HiArrowDownTrayOutline class="h-4 w-4" />
+                {format.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+      <form method="dialog" class="modal-backdrop">
+        <button>close</button>
+      </form>
+    </dialog>
+  );
+});
+
+/**
+ * Rasterizes the SVG code of the server, so PNG codes have the same style as the other formats.
+ */
+const toPng = async (svgUrl: string, size: number): Promise<Blob> => {
+  const response = await authorizedFetch(svgUrl);
+  if (!response.ok) {
+    throw new Error('Failed to download the QR code');
+  }
+
+  const url = URL.createObjectURL(await response.blob());
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    canvas.getContext('2d')?.drawImage(image, 0, 0, size, size);
+
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Canvas is empty'))), 'image/png')
+    );
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,278 @@
+import { component$, useSignal, useVisibleTask$, $, QRL } from '@builder.io/qwik';
+import { HiArrowDownOutline, HiArrowUpOutline, HiTrashOutline } from '@qwikest/icons/heroicons';
+import { authorizedFetch } from '../../../shared/auth.service';
+import { useToaster } from '../../toaster/toaster';
+
+export const PAGES_API = `${process.env.CLIENTSIDE_API_DOMAIN}/api/v1/pages`;
+
+export const PAGE_THEMES = ['LIGHT', 'DARK', 'OCEAN', 'SUNSET'] as const;
+
+export type PageTheme = (typeof PAGE_THEMES)[number];
+
+// Maximum number of links shown in the link selector, same as the maximum page size of the links api
+const LINKS_LIMIT = 100;
+
+export interface PageEditorItem {
+  linkId: string;
+  key: string;
+  url: string;
+  title: string;
+  icon: string;
+}
+
+export interface PageEditorForm {
+  handle: string;
+  title: string;
+  description: string;
+  theme: PageTheme;
+  items: PageEditorItem[];
+}
+
+interface LinkOption {
+  id: string;
+  key: string;
+  url: string;
+}
+
+export interface PageEditorProps {
+  // The page to edit, a new page is created when omitted
+  pageId?: string;
+  onSaved$: QRL<() => void>;
+}
+
+const EMPTY_FORM: PageEditorForm = { handle: '', title: '', description: '', theme: 'LIGHT', items: [] };
+
+export const PageEditor = component$(({ pageId, onSaved$ }: PageEditorProps) => {
+  const toaster = useToaster();
+
+  const form = useSignal<PageEditorForm>(EMPTY_FORM);
+  const links = useSignal<LinkOption[]>([]);
+  const isLoading = useSignal(false);
+
+  useVisibleTask$(async ({ track }) => {
+    const id = track(() => pageId);
+
+    const linksResponse = await authorizedFetch(`${process.env.CLIENTSIDE_API_DOMAIN}/api/v1/links?limit=${LINKS_LIMIT}`);
+    if (linksResponse.ok) {
+      links.value = (await linksResponse.json()).data;
+    }
+
+    if (!id) {
+      form.value = EMPTY_FORM;
+      return;
+    }
+
+    const response = await authorizedFetch(`${PAGES_API}/${id}`);
+    if (!response.ok) {
+      return;
+    }
+
+    const page = await response.json();
+    form.value = {
+      handle: page.handle,
+      title: page.title,
+      description: page.description || '',
+      theme: page.theme,
+      items: page.items.map(({ title, icon, link }: { title: string | null; icon: string | null; link: LinkOption }) => ({
+        linkId: link.id,
+        key: link.key,
+        url: link.url,
+        title: title || '',
+        icon: icon || '',
+      })),
+    };
+  });
+
+  const updateItem = $((index: number, changes: Partial<PageEditorItem>) => {
+    const items = [...form.value.items];
+    items[index] = { ...items[index], ...changes };
+    form.value = { ...form.value, items };
+  });
+
+  const moveItem = $((index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= form.value.items.length) {
+      return;
+    }
+
+    const items = [...form.value.items];
+    [items[index], items[target]] = [items[target], items[index]];
+    form.value = { ...form.value, items };
+  });
+
+  const addItem = $((linkId: string) => {
+    const link = links.value.find(({ id }) => id === linkId);
+    if (!link) {
+      return;
+    }
+
+    form.value = { ...form.value, items: [...form.value.items, { linkId: link.id, key: link.key, url: link.url, title: '', icon: '' }] };
+  });
+
+  const save = $(async () => {
+    isLoading.value = true;
+
+    const { handle, title, description, theme, items } = form.value;
+    const body = {
+      handle,
+      title,
+      description: pageId ? description : description || undefined,
+      theme,
+      items: items.map((item) => ({ linkId: item.linkId, title: item.title || undefined, icon: item.icon || undefined })),
+    };
+
+    try {
+      const response = await authorizedFetch(pageId ? `${PAGES_API}/${pageId}` : PAGES_API, {
+        method: pageId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        const message = Array.isArray(data?.message) ? data.message[0] : data?.message;
+        toaster.add({ title: 'Something went wrong', description: message || 'Please try again later', type: 'error' });
+        return;
+      }
+
+      toaster.add({ title: 'Success', description: pageId ? 'The page has been updated' : 'The page has been created', type: 'info' });
+      await onSaved$();
+    } finally {
+      isLoading.value = false;
+    }
+  });
+
+  return (
+    <div class="flex flex-col gap-2">
+      <label class="form-control w-full">
+        <div class="label">
+          <span class="label-text">Handle</span>
+        </div>
+        <div class="join w-full">
+          <span class="join-item btn btn-sm no-animation pointer-events-none">{process.env.DOMAIN}/p/</span>
+          <input
+            type="text"
+            placeholder="my-links"
+            maxLength={30}
+            class="input input-bordered input-sm join-item w-full"
+            value={form.value.handle}
+            onInput$={(ev: InputEvent) => {
+              form.value = { ...form.value, handle: (ev.target as HTMLInputElement).value };
+            }}
+          />
+        </div>
+      </label>
+      <label class="form-control w-full">
+        <div class="label">
+          <span class="label-text">Title</span>
+        </div>
+        <input
+          type="text"
+          maxLength={100}
+          class="input input-bordered input-sm w-full"
+          value={form.value.title}
+          onInput$={(ev: InputEvent) => {
+            form.value = { ...form.value, title: (ev.target as HTMLInputElement).value };
+          }}
+        />
+      </label>
+      <label class="form-control w-full">
+        <div class="label">
+          <span class="label-text">Description</span>
+        </div>
+        <textarea
+          maxLength={300}
+          class="textarea textarea-bordered textarea-sm w-full"
+          value={form.value.description}
+          onInput$={(ev: InputEvent) => {
+            form.value = { ...form.value, description: (ev.target as HTMLTextAreaElement).value };
+          }}
+        />
+      </label>
+      <label class="form-control w-full">
+        <div class="label">
+          <span class="label-text">Theme</span>
+        </div>
+        <select
+          class="select select-bordered select-sm w-full"
+          value={form.value.theme}
+          onChange$={(ev: Event) => {
+            form.value = { ...form.value, theme: (ev.target as HTMLSelectElement).value as PageTheme };
+          }}
+        >
+          {PAGE_THEMES.map((theme) => (
+            <option key={theme} value={theme} selected={form.value.theme === theme}>
+              {theme.charAt(0) + theme.slice(1).toLowerCase()}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div class="label">
+        <span class="label-text">Links</span>
+      </div>
+      {form.value.items.map((item, index) => (
+        <div key={`${item.linkId}-${index}`} class="flex items-center gap-2 rounded-lg border border-gray-200 dark:border-gray-700 p-2">
+          <input
+            type="text"
+            placeholder="🔗"
+            maxLength={8}
+            class="input input-bordered input-sm w-14 text-center"
+            value={item.icon}
+            onInput$={(ev: InputEvent) => updateItem(index, { icon: (ev.target as HTMLInputElement).value })}
+          />
+          <div class="flex-1 min-w-0">
+            <input
+              type="text"
+              placeholder={item.url}
+              maxLength={100}
+              class="input input-bordered input-sm w-full"
+              value={item.title}
+              onInput$={(ev: InputEvent) => updateItem(index, { title: (ev.target as HTMLInputElement).value })}
+            />
+            <span class="text-xs text-gray-500 truncate block mt-1">/{item.key}</span>
+          </div>
+          <button type="button" class="btn btn-xs btn-ghost" disabled={index === 0} onClick$={() => moveItem(index, -1)}>
+            <HiArrowUpOutline class="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            class="btn btn-xs btn-ghost"
+            disabled={index === form.value.items.length - 1}
+            onClick$={() => moveItem(index, 1)}
+          >
+            <HiArrowDownOutline class="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            class="btn btn-xs btn-ghost text-red-500"
+            onClick$={() => {
+              form.value = { ...form.value, items: form.value.items.filter((_, i) => i !== index) };
+            }}
+          >
+            <HiTrashOutline class="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      <select
+        class="select select-bordered select-sm w-full"
+        onChange$={async (ev: Event) => {
+          const select = ev.target as HTMLSelectElement;
+          await addItem(select.value);
+          select.value = '';
+        }}
+      >
+        <option value="" selected>
+          Add a link...
+        </option>
+        {links.value.map((link) => (
+          <option key={link.id} value={link.id}>
+            {`/${link.key} - ${link.url}`}
+          </option>
+        ))}
+      </select>
+      <button class="btn btn-primary btn-sm mt-4" disabled={isLoading.value || !form.value.handle || !form.value.title} onClick$={save}>
+        {pageId ? 'Save changes' : 'Create page'}
+      </button>
+    </div>
+  );
+});
@@ -0,0 +1,78 @@
+import { component$, useSignal, useVisibleTask$ } from '@builder.io/qwik';
+import { authorizedFetch } from '../../../shared/auth.service';
+import { PAGES_API } from './page-editor';
+
+const STATS_DAYS = 30;
+
+interface PageStatsData {
+  viewsOverTime: { day: string; count: string }[];
+  referrers: { referrer: string | null; count: number }[];
+  items: { id: string; title: string | null; key: string; url: string; clicks: number }[];
+}
+
+export interface PageStatsProps {
+  pageId: string;
+}
+
+export const PageStats = component$(({ pageId }: PageStatsProps) => {
+  const stats = useSignal<PageStatsData | null>(null);
+
+  useVisibleTask$(async ({ track }) => {
+    const id = track(() => pageId);
+    stats.value = null;
+
+    const response = await authorizedFetch(`${PAGES_API}/${id}/analytics?days=${STATS_DAYS}`);
+    if (response.ok) {
+      stats.value = await response.json();
+    }
+  });
+
+  if (!stats.value) {
+    return <span class="loading loading-spinner loading-sm"></span>;
+  }
+
+  const totalViews = stats.value.viewsOverTime.reduce((total, { count }) => total + Number(count), 0);
+
+  return (
+    <div class="flex flex-col gap-4">
+      <div class="stats shadow">
+        <div class="stat">
+          <div class="stat-title">Views</div>
+          <div class="stat-value">{totalViews}</div>
+          <div class="stat-desc">Last {STATS_DAYS} days</div>
+        </div>
+      </div>
+      {stats.value.viewsOverTime.length > 0 && (
+        <div>
+          <div class="font-semibold mb-2">Views per day</div>
+          {stats.value.viewsOverTime.map(({ day, count }) => (
+            <div key={day} class="flex justify-between text-sm">
+              <span>{new Date(day).toLocaleDateString()}</span>
+              <span>{count}</span>
+            </div>
+          ))}
+        </div>
+      )}
+      {stats.value.referrers.length > 0 && (
+        <div>
+          <div class="font-semibold mb-2">Top referrers</div>
+          {stats.value.referrers.map(({ referrer, count }) => (
+            <div key={referrer || 'direct'} class="flex justify-between text-sm">
+              <span class="truncate">{referrer || 'Direct'}</span>
+              <span>{count}</span>
+            </div>
+          ))}
+        </div>
+      )}
+      <div>
+        <div class="font-semibold mb-2">Clicks per link (all time)</div>
+        {stats.value.items.map(({ id, title, key, clicks }) => (
+          <div key={id} class="flex justify-between text-sm">
+            <span class="truncate">{title || `/${key}`}</span>
+            <span>{clicks}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+});
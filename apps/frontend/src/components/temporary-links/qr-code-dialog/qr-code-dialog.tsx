@@ -8,6 +8,7 @@ export const QR_CODE_DIALOG_ID = 'QR_MODAL';
 export interface QrCodeDialogProps {
   link: {
     key?: string;
+    domain?: string;
   };
 }
 
@@ -22,7 +23,7 @@ export const QrCodeDialog = component$((props: QrCodeDialogProps) => {
 
   useVisibleTask$(({ track }) => {
     track(() => link);
-    const url = getLinkFromKey(link.key!);
+    const url = getLinkFromKey(link.key!, link.domain);
     generateQRCode(url);
   });
 
@@ -11,7 +11,12 @@ export const getFavicon = async (url: string) => {
   }
 };
 
-export const getLinkFromKey = (key: string) => {
+export const getLinkFromKey = (key: string, domain?: string) => {
+  // Custom domains are always served over https
+  if (domain) {
+    return `https://${domain}/${key}`;
+  }
+
   const suffix = `${process.env.DOMAIN}/${key}`;
 
   // This is a temporary solution until we have a better way to handle this, maybe use env file? 🤔
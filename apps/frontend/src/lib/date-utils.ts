@@ -13,6 +13,11 @@ export const formatDateDay = (date: Date): string => {
   return `${date.getDate().toString().padStart(2, '0')}/${(date.getMonth() + 1).toString().padStart(2, '0')}/${date.getFullYear()}`;
 };
 
+// Formats the date as the value of a datetime-local input, in the local timezone
+export const toDateTimeInputValue = (date: Date): string => {
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+};
+
 export const tomorrow = (): Date => {
   const date = new Date();
   date.setDate(date.getDate() + 1);
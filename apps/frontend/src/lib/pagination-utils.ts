@@ -7,6 +7,7 @@ export interface PaginationParams {
   limit: number;
   filter?: string;
   sort: Record<string, SortOrder>;
+  query?: Record<string, string | undefined>;
 }
 
 export interface PaginationResult {
@@ -14,8 +15,12 @@ export interface PaginationResult {
   total: number;
 }
 
-export const fetchWithPagination = async ({ url, page, limit, sort, filter }: PaginationParams) => {
-  const queryParams = serializeQueryUserPaginationParams({ page, limit, sort, filter });
+export const fetchWithPagination = async ({ url, page, limit, sort, filter, query }: PaginationParams) => {
+  const queryParams = new URLSearchParams(serializeQueryUserPaginationParams({ page, limit, sort, filter }));
+
+  // Extra query params, such as the tag and folder filters of the links
+  Object.entries(query || {}).forEach(([key, value]) => value && queryParams.set(key, value));
+
   const response = await authorizedFetch(`${url}?${queryParams}`);
   const data = (await response.json()) as PaginationResult;
   if (!data || !data.data) {
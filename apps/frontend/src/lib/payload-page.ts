@@ -0,0 +1,108 @@
+import { QrPayload, getQrPayloadUri, toVCard } from '@reduced.to/utils';
+import { escapeHtml } from './html-utils';
+
+const PAYLOAD_TITLES: Record<QrPayload['type'], string> = {
+  vcard: 'Contact',
+  wifi: 'Wi-Fi network',
+  sms: 'Text message',
+  email: 'Email',
+  geo: 'Location',
+  text: 'Message',
+};
+
+const getPayloadAction = (href: string, label: string, download?: string) =>
+  `<a class="action" href="${escapeHtml(href)}"${download ? ` download="${escapeHtml(download)}"` : ''}>${label}</a>`;
+
+const getPayloadFields = (fields: [string, string | number | boolean | undefined][]) =>
+  fields
+    .filter(([, value]) => value !== undefined && value !== '' && value !== false)
+    .map(([label, value]) => `<dt>${label}</dt><dd>${escapeHtml(String(value === true ? 'Yes' : value))}</dd>`)
+    .join('');
+
+/**
+ * Returns the landing page of payload links, it shows the payload and offers the action that delivers it, e.g. saving a contact.
+ */
+export const getPayloadHtml = (payload: QrPayload) => {
+  let body: string;
+  switch (payload.type) {
+    case 'vcard': {
+      const name = [payload.firstName, payload.lastName].filter(Boolean).join(' ');
+      body = [
+        `<dl>${getPayloadFields([
+          ['Name', name],
+          ['Organization', payload.organization],
+          ['Title', payload.title],
+          ['Phone', payload.phone],
+          ['Email', payload.email],
+          ['Website', payload.website],
+          ['Address', payload.address],
+          ['Note', payload.note],
+        ])}</dl>`,
+        getPayloadAction(`data:text/vcard;charset=utf-8,${encodeURIComponent(toVCard(payload))}`, 'Save contact', `${name}.vcf`),
+      ].join('');
+      break;
+    }
+    case 'wifi':
+      // Browsers cannot join networks, the visitor copies the credentials into the settings of their device
+      body = `<dl>${getPayloadFields([
+        ['Network', payload.ssid],
+        ['Password', payload.encryption !== 'nopass' ? payload.password : undefined],
+        ['Security', payload.encryption === 'nopass' ? 'None' : payload.encryption],
+        ['Hidden network', payload.hidden],
+      ])}</dl>`;
+      break;
+    case 'sms':
+      body = [
+        `<dl>${getPayloadFields([
+          ['To', payload.phone],
+          ['Message', payload.message],
+        ])}</dl>`,
+        getPayloadAction(getQrPayloadUri(payload) as string, 'Send message'),
+      ].join('');
+      break;
+    case 'email':
+      body = [
+        `<dl>${getPayloadFields([
+          ['To', payload.email],
+          ['Subject', payload.subject],
+          ['Message', payload.body],
+        ])}</dl>`,
+        getPayloadAction(getQrPayloadUri(payload) as string, 'Write email'),
+      ].join('');
+      break;
+    case 'geo':
+      body = [
+        `<dl>${getPayloadFields([
+          ['Place', payload.label],
+          ['Coordinates', `${payload.latitude}, ${payload.longitude}`],
+        ])}</dl>`,
+        getPayloadAction(getQrPayloadUri(payload) as string, 'Open in maps'),
+        // geo: uris are not handled by desktop browsers
+        getPayloadAction(
+          `https://www.openstreetmap.org/?mlat=${payload.latitude}&mlon=${payload.longitude}#map=17/${payload.latitude}/${payload.longitude}`,
+          'View on the map'
+        ),
+      ].join('');
+      break;
+    default:
+      body = `<p class="text">${escapeHtml(payload.text)}</p>`;
+  }
+
+  const title = PAYLOAD_TITLES[payload.type];
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head><meta charset="utf-8" /><meta name="viewport" content="width=device-width, initial-scale=1" />',
+    `<meta name="robots" content="noindex" /><title>${title}</title>`,
+    '<style>',
+    'body{margin:0;padding:24px;font-family:system-ui,sans-serif;background:#f3f4f6;color:#1f2937}',
+    'main{max-width:28rem;margin:0 auto;padding:24px;background:#fff;border-radius:12px;box-shadow:0 1px 3px rgba(0,0,0,.1)}',
+    'h1{margin:0 0 16px;font-size:1.5rem}dt{font-size:.75rem;color:#6b7280}dd{margin:0 0 12px;word-break:break-word}',
+    '.text{white-space:pre-wrap;word-break:break-word}',
+    '.action{display:block;margin-top:12px;padding:12px;border-radius:8px;background:#4f46e5;color:#fff;text-align:center;text-decoration:none}',
+    '</style></head>',
+    `<body><main><h1>${title}</h1>${body}</main></body>`,
+    '</html>',
+  ].join('');
+};
@@ -0,0 +1,72 @@
+import { Language, Prism } from 'prism-react-renderer';
+import { LinkSnippet, SnippetLanguage } from '@reduced.to/utils';
+import { escapeHtml } from './html-utils';
+import { SNIPPET_LANGUAGE_LABELS } from './snippet-utils';
+
+// Grammars of the highlighted languages, plain text is only escaped
+const PRISM_LANGUAGES: Record<Exclude<SnippetLanguage, 'text'>, Language> = {
+  markdown: 'markdown',
+  json: 'json',
+  yaml: 'yaml',
+  bash: 'bash',
+  javascript: 'javascript',
+  typescript: 'typescript',
+  python: 'python',
+  sql: 'sql',
+  html: 'markup',
+  css: 'css',
+  go: 'go',
+  diff: 'diff',
+};
+
+/**
+ * Returns the highlighted markup of the snippet, Prism escapes the content so it cannot inject markup into the page.
+ * Markdown is highlighted as source rather than rendered for the same reason.
+ */
+const highlightSnippet = ({ content, language }: LinkSnippet) => {
+  if (language === 'text') {
+    return escapeHtml(content);
+  }
+
+  const prismLanguage = PRISM_LANGUAGES[language];
+  return Prism.highlight(content, Prism.languages[prismLanguage], prismLanguage);
+};
+
+/**
+ * Returns the page of snippet links, it shows the highlighted snippet with a button copying it.
+ */
+export const getSnippetHtml = (snippet: LinkSnippet) => {
+  const label = SNIPPET_LANGUAGE_LABELS[snippet.language];
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head><meta charset="utf-8" /><meta name="viewport" content="width=device-width, initial-scale=1" />',
+    '<meta name="robots" content="noindex" /><title>Snippet</title>',
+    '<style>',
+    'body{margin:0;padding:24px;font-family:system-ui,sans-serif;background:#f3f4f6;color:#1f2937}',
+    'main{max-width:56rem;margin:0 auto;background:#fff;border-radius:12px;box-shadow:0 1px 3px rgba(0,0,0,.1);overflow:hidden}',
+    'header{display:flex;align-items:center;justify-content:space-between;padding:12px 16px;border-bottom:1px solid #e5e7eb}',
+    '.language{font-size:.75rem;color:#6b7280}',
+    'button{padding:6px 12px;border:0;border-radius:8px;background:#4f46e5;color:#fff;cursor:pointer}',
+    'pre{margin:0;padding:16px;overflow:auto;font:.875rem/1.5 ui-monospace,SFMono-Regular,Menlo,monospace;white-space:pre-wrap;word-break:break-word}',
+    '.token.comment,.token.prolog,.token.doctype,.token.cdata{color:#6a737d}',
+    '.token.punctuation{color:#24292e}',
+    '.token.property,.token.tag,.token.boolean,.token.number,.token.constant,.token.symbol,.token.deleted{color:#005cc5}',
+    '.token.selector,.token.attr-name,.token.string,.token.char,.token.builtin,.token.inserted{color:#22863a}',
+    '.token.operator,.token.entity,.token.url,.token.variable{color:#e36209}',
+    '.token.atrule,.token.attr-value,.token.keyword{color:#d73a49}',
+    '.token.function,.token.class-name{color:#6f42c1}',
+    '.token.regex,.token.important{color:#e36209}',
+    '.token.title,.token.bold,.token.important{font-weight:600}.token.italic{font-style:italic}',
+    '</style></head>',
+    `<body><main><header><span class="language">${label}</span><button type="button" id="copy">Copy</button></header>`,
+    `<pre><code>${highlightSnippet(snippet)}</code></pre></main>`,
+    '<script>',
+    "document.getElementById('copy').addEventListener('click', function (event) {",
+    "  navigator.clipboard.writeText(document.querySelector('code').textContent).then(function () { event.target.textContent = 'Copied'; });",
+    '});',
+    '</script></body>',
+    '</html>',
+  ].join('');
+};
@@ -0,0 +1,17 @@
+import { SnippetLanguage } from '@reduced.to/utils';
+
+export const SNIPPET_LANGUAGE_LABELS: Record<SnippetLanguage, string> = {
+  text: 'Plain text',
+  markdown: 'Markdown',
+  json: 'JSON',
+  yaml: 'YAML',
+  bash: 'Shell',
+  javascript: 'JavaScript',
+  typescript: 'TypeScript',
+  python: 'Python',
+  sql: 'SQL',
+  html: 'HTML',
+  css: 'CSS',
+  go: 'Go',
+  diff: 'Diff',
+};
@@ -0,0 +1,29 @@
+import { authorizedFetch } from '../shared/auth.service';
+
+export interface Tag {
+  id: string;
+  name: string;
+  color?: string | null;
+  _count?: { links: number };
+}
+
+export interface Folder {
+  id: string;
+  name: string;
+  _count?: { links: number };
+}
+
+export const TAGS_API = `${process.env.CLIENTSIDE_API_DOMAIN}/api/v1/tags`;
+export const FOLDERS_API = `${process.env.CLIENTSIDE_API_DOMAIN}/api/v1/folders`;
+
+export const DEFAULT_TAG_COLOR = '#6b7280';
+
+export const fetchTags = async (): Promise<Tag[]> => {
+  const response = await authorizedFetch(TAGS_API);
+  return response.ok ? response.json() : [];
+};
+
+export const fetchFolders = async (): Promise<Folder[]> => {
+  const response = await authorizedFetch(FOLDERS_API);
+  return response.ok ? response.json() : [];
+};
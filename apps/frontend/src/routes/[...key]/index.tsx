@@ -1,24 +1,171 @@
-import { RequestHandler } from '@builder.io/qwik-city';
+import { component$ } from '@builder.io/qwik';
+import { DocumentHead, RequestHandler, routeLoader$ } from '@builder.io/qwik-city';
+import { HiShieldCheckOutline, HiShieldExclamationOutline, HiArrowsRightLeftOutline } from '@qwikest/icons/heroicons';
+import { isbot } from 'isbot';
+import { LINK_PREVIEW_SUFFIX, LinkSnippet, QR_SCAN_PARAM, QrPayload } from '@reduced.to/utils';
+import { formatDateDay } from '../../lib/date-utils';
+import { escapeHtml } from '../../lib/html-utils';
+import { getPayloadHtml } from '../../lib/payload-page';
+import { getSnippetHtml } from '../../lib/snippet-page';
 
 const UNKNOWN_URL = '/unknown';
 
+// Links whose destination was flagged as unsafe are blocked by this page instead of redirecting
+const QUARANTINED_URL = '/quarantined';
+
+// Time given to the app to open before mobile visitors are sent to the store
+const APP_OPEN_TIMEOUT = 1500;
+
+// Set by the social preview page on the short link it sends visitors to, so they are redirected as usual
+const VISIT_PARAM = 'visit';
+
+interface LinkPreview {
+  key: string;
+  url: string | null; // Null for click-capped links
+  dynamic: boolean;
+  title: string | null;
+  description: string | null;
+  image: string | null;
+  safe: boolean | null;
+  createdAt: string | null;
+  clicks: number | null;
+}
+
+// Open Graph overrides of a link, served to social crawlers instead of a redirect
+interface SocialPreview {
+  title: string | null;
+  description: string | null;
+  image: string | null; // Storage path of the image
+}
+
+/**
+ * Returns the social preview of the link, null if the link has no overrides (the crawler is then redirected as usual).
+ */
+const fetchSocialPreview = async (key: string, host: string): Promise<SocialPreview | null> => {
+  try {
+    // Crawlers unfurling a link are not counted as visits, so the tracking headers are not forwarded
+    const res = await fetch(`${process.env.API_DOMAIN}/api/v1/shortener/og/${key}`, {
+      headers: {
+        'x-forwarded-host': host,
+      },
+    });
+
+    if (!res.ok) {
+      return null;
+    }
+
+    const preview: SocialPreview = await res.json();
+    return preview.title || preview.description || preview.image ? preview : null;
+  } catch (err) {
+    console.error(err);
+    return null;
+  }
+};
+
+/**
+ * Returns the page served to social crawlers, it holds the Open Graph tags of the link but not its destination.
+ */
+const getSocialPreviewHtml = ({ title, description, image }: SocialPreview, shortUrl: string) => {
+  const previewTitle = title || shortUrl;
+  const imageUrl = image ? `${process.env.STORAGE_DOMAIN}/${image}` : null;
+
+  const tags: [string, string, string | null][] = [
+    ['name', 'description', description],
+    ['property', 'og:type', 'website'],
+    ['property', 'og:url', shortUrl],
+    ['property', 'og:title', previewTitle],
+    ['property', 'og:description', description],
+    ['property', 'og:image', imageUrl],
+    ['name', 'twitter:card', imageUrl ? 'summary_large_image' : 'summary'],
+    ['name', 'twitter:title', previewTitle],
+    ['name', 'twitter:description', description],
+    ['name', 'twitter:image', imageUrl],
+  ];
+
+  const meta = tags
+    .filter((tag): tag is [string, string, string] => !!tag[2])
+    .map(([attribute, name, content]) => `<meta ${attribute}="${name}" content="${escapeHtml(content)}" />`)
+    .join('');
+
+  const visitUrl = escapeHtml(`${shortUrl}?${VISIT_PARAM}=1`);
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    `<head><meta charset="utf-8" /><title>${escapeHtml(previewTitle)}</title>${meta}`,
+    // Visitors wrongly detected as crawlers open the short link again, their visit is then counted like any other
+    `<meta http-equiv="refresh" content="0;url=${visitUrl}" /></head>`,
+    `<body><a href="${visitUrl}">${escapeHtml(shortUrl)}</a></body>`,
+    '</html>',
+  ].join('');
+};
+
+// Embeds a value in an inline script, "<" is escaped so the value cannot close the script tag
+const toScriptValue = (value: string) => JSON.stringify(value).replace(/</g, '\\u003c');
+
+/**
+ * Returns the intermediate page of deep links, it opens the app and falls back to the store when the app is not installed.
+ */
+const getDeepLinkHtml = (appUrl: string, storeUrl: string) => {
+  const store = escapeHtml(storeUrl);
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head><meta charset="utf-8" /><meta name="viewport" content="width=device-width, initial-scale=1" />',
+    '<meta name="robots" content="noindex" /><title>Opening the app...</title></head>',
+    `<body><p>Opening the app... <a href="${store}">Continue</a></p>`,
+    '<script>',
+    `var fallback = setTimeout(function () { location.replace(${toScriptValue(storeUrl)}); }, ${APP_OPEN_TIMEOUT});`,
+    // The page is hidden once the app opens, the visitor should not find the store when they come back
+    "document.addEventListener('visibilitychange', function () { if (document.hidden) clearTimeout(fallback); });",
+    `location.href = ${toScriptValue(appUrl)};`,
+    '</script></body>',
+    '</html>',
+  ].join('');
+};
+
 const isValidKey = (key: string) => {
   return key && key.split('/')[0] !== UNKNOWN_URL.substring(1) && key !== 'null';
 };
 
-export const onGet: RequestHandler = async ({ params: { key }, query, redirect, clientConn, request, next }) => {
+const isPreviewKey = (key: string) => key.length > LINK_PREVIEW_SUFFIX.length && key.endsWith(LINK_PREVIEW_SUFFIX);
+
+export const onGet: RequestHandler = async ({ params: { key }, query, redirect, clientConn, request, url, next, html }) => {
   let redirectTo: string | null = null; // Variable to store the redirect target
+  let appUrl: string | null = null; // Opened before the redirect target for links with deep links
+  let payload: QrPayload | null = null; // Delivered by a landing page instead of a redirect
+  let snippet: LinkSnippet | null = null; // Shown by a page instead of a redirect
 
   if (!isValidKey(key)) {
     throw next();
   }
 
+  // Previews are rendered by the page below
+  if (isPreviewKey(key)) {
+    return;
+  }
+
+  // Social crawlers get the custom Open Graph tags of the link instead of the metadata of the destination
+  if (isbot(request.headers.get('user-agent')) && !query.has(VISIT_PARAM)) {
+    const preview = await fetchSocialPreview(key, url.host);
+    if (preview) {
+      html(200, getSocialPreviewHtml(preview, `${url.origin}/${key}`));
+      return;
+    }
+  }
+
   try {
-    const res = await fetch(`${process.env.API_DOMAIN}/api/v1/shortener/${key}?pw=${query.get('pw')}`, {
+    // Scans of the QR code of the link are marked, so they are counted apart from clicks
+    const qr = query.get(QR_SCAN_PARAM) ? `&${QR_SCAN_PARAM}=1` : '';
+    const res = await fetch(`${process.env.API_DOMAIN}/api/v1/shortener/${key}?pw=${query.get('pw')}${qr}`, {
       headers: {
         'x-forwarded-for': clientConn.ip || '',
         referer: request.headers.get('referer') || '',
         'user-agent': request.headers.get('user-agent') || '',
+        // Used by the backend to resolve links of custom domains
+        'x-forwarded-host': url.host,
+        'accept-language': request.headers.get('accept-language') || '',
       },
     });
 
@@ -27,8 +174,15 @@ export const onGet: RequestHandler = async ({ params: { key }, query, redirect,
     if (res.status === 401) {
       // If unauthorized, set the redirect target to the password page
       redirectTo = `/password/${key}`;
+    } else if (res.status === 403) {
+      redirectTo = `${QUARANTINED_URL}/${key}`;
+    } else if (res.status === 200 && data.payload) {
+      payload = data.payload;
+    } else if (res.status === 200 && data.snippet) {
+      snippet = data.snippet;
     } else if (res.status === 200 && data.url) {
       redirectTo = data.url;
+      appUrl = data.appUrl || null;
     } else if (res.status === 404) {
       throw new Error('Shortened URL is wrong or expired');
     } else {
@@ -38,6 +192,131 @@ export const onGet: RequestHandler = async ({ params: { key }, query, redirect,
     console.error(err);
   }
 
+  if (payload) {
+    html(200, getPayloadHtml(payload));
+    return;
+  }
+
+  if (snippet) {
+    html(200, getSnippetHtml(snippet));
+    return;
+  }
+
+  // Mobile visitors of deep links go through the intermediate page, the redirect target is the store of their platform
+  if (redirectTo && appUrl) {
+    html(200, getDeepLinkHtml(appUrl, redirectTo));
+    return;
+  }
+
   // Throw the redirect after the try-catch block
   throw redirect(302, redirectTo || UNKNOWN_URL);
 };
+
+export const useLinkPreview = routeLoader$(async ({ params: { key }, query, redirect, url }) => {
+  const linkKey = key.slice(0, -LINK_PREVIEW_SUFFIX.length);
+
+  // The preview endpoint does not count a visit, so the tracking headers are not forwarded
+  const res = await fetch(`${process.env.API_DOMAIN}/api/v1/shortener/preview/${linkKey}?pw=${query.get('pw') || ''}`, {
+    headers: {
+      'x-forwarded-host': url.host,
+    },
+  });
+
+  if (res.status === 401) {
+    return { key: linkKey, passwordProtected: true as const };
+  }
+
+  if (res.status === 403) {
+    throw redirect(302, `${QUARANTINED_URL}/${linkKey}`);
+  }
+
+  if (!res.ok) {
+    throw redirect(302, UNKNOWN_URL);
+  }
+
+  return { ...((await res.json()) as LinkPreview), passwordProtected: false as const };
+});
+
+export default component$(() => {
+  const preview = useLinkPreview();
+
+  return (
+    <div class="flex flex-col h-[calc(100vh-64px)]">
+      <div class="flex flex-1 content-center justify-center items-center">
+        <div class="w-full max-w-lg mx-auto p-6">
+          <div class="mt-7 bg-white border border-gray-200 rounded-xl shadow-sm dark:bg-gray-800 dark:border-gray-700">
+            <div class="bg-gray-100 border-b rounded-t-xl py-3 px-4 md:py-4 md:px-5 dark:bg-gray-900 dark:border-gray-700 flex justify-center items-center">
+              <img src="/favicon.png" alt="Reduced.to logo" class="w-10 h-10" />
+              <p class="ml-4 text-xl font-semibold text-gray-800 dark:text-white">Reduced.to</p>
+            </div>
+            <div class="p-4 sm:p-5">
+              <h1 class="block text-2xl font-bold text-center text-gray-800 dark:text-white">Link Preview</h1>
+              {preview.value.passwordProtected ? (
+                <p class="mt-4 text-center text-gray-600 dark:text-gray-400">
+                  This short link is password protected, its destination is only shown after entering the password.
+                </p>
+              ) : (
+                <>
+                  {preview.value.image && (
+                    <img src={preview.value.image} alt={preview.value.title || ''} class="mt-4 w-full max-h-60 object-cover rounded-lg" />
+                  )}
+                  {preview.value.title && <p class="mt-4 text-lg font-semibold text-gray-800 dark:text-white">{preview.value.title}</p>}
+                  {preview.value.description && <p class="mt-1 text-sm text-gray-600 dark:text-gray-400">{preview.value.description}</p>}
+                  {preview.value.url ? (
+                    <div class="mt-4">
+                      <span class="text-xs text-gray-500">This link goes to</span>
+                      <p class="font-mono text-sm break-all">{preview.value.url}</p>
+                    </div>
+                  ) : (
+                    <p class="mt-4 text-sm text-gray-500">
+                      This short link can only be opened a limited number of times, its destination is only shown when it is opened.
+                    </p>
+                  )}
+                  {preview.value.dynamic && (
+                    <p class="mt-2 flex items-center gap-2 text-sm text-gray-500">
+                      <HiArrowsRightLeftOutline class="w-4 h-4 shrink-0" />
+                      Visitors may be sent to another destination depending on their location, device or language.
+                    </p>
+                  )}
+                  {preview.value.safe !== null && (
+                    <p class={`mt-2 flex items-center gap-2 text-sm ${preview.value.safe ? 'text-success' : 'text-error'}`}>
+                      {preview.value.safe ? <HiShieldCheckOutline class="w-4 h-4" /> : <HiShieldExclamationOutline class="w-4 h-4" />}
+                      {preview.value.safe ? 'No threats were found for this destination' : 'This destination was flagged as unsafe'}
+                    </p>
+                  )}
+                  {(preview.value.createdAt || preview.value.clicks !== null) && (
+                    <div class="mt-4 flex gap-4 text-xs text-gray-500">
+                      {preview.value.createdAt && <span>Created on {formatDateDay(new Date(preview.value.createdAt))}</span>}
+                      {preview.value.clicks !== null && <span>{preview.value.clicks} clicks</span>}
+                    </div>
+                  )}
+                </>
+              )}
+              <a href={`/${preview.value.key}`} class="btn btn-primary w-full mt-6">
+                Continue
+              </a>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+});
+
+export const head: DocumentHead = {
+  title: 'Link Preview | Reduced.to',
+  meta: [
+    {
+      name: 'title',
+      content: 'Reduced.to | Link Preview',
+    },
+    {
+      name: 'description',
+      content: 'See where a short link goes before visiting it.',
+    },
+    {
+      name: 'robots',
+      content: 'noindex',
+    },
+  ],
+};
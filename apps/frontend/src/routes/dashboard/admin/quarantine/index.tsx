@@ -0,0 +1,122 @@
+import { component$, $, useSignal } from '@builder.io/qwik';
+import { Columns, SortOrder, TableServerPagination } from '../../../../components/dashboard/table/table-server-pagination';
+import { DocumentHead } from '@builder.io/qwik-city';
+import { formatDate } from '../../../../lib/date-utils';
+import { useToaster } from '../../../../components/toaster/toaster';
+import { authorizedFetch } from '../../../../shared/auth.service';
+
+export default component$(() => {
+  const refetchSignal = useSignal<number>(0);
+  const toaster = useToaster();
+
+  const reviewLink = $(async (linkId: string, release: boolean) => {
+    try {
+      const response = await authorizedFetch(
+        `${process.env.CLIENTSIDE_API_DOMAIN}/api/v1/quarantine/${linkId}${release ? '/release' : ''}`,
+        {
+          method: release ? 'POST' : 'DELETE',
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error('Something went wrong');
+      }
+
+      const title = release ? 'Link released successfully' : 'Link deleted successfully';
+      const description = release ? 'The link redirects to its destination again' : 'The link has been deleted successfully';
+
+      refetchSignal.value++;
+      toaster.add({
+        title,
+        description,
+      });
+    } catch (error: any) {
+      toaster.add({
+        title: 'Oops!',
+        description: error.message,
+        type: 'error',
+      });
+    }
+  });
+
+  const columns: Columns = {
+    key: {
+      displayName: 'Shortened URL',
+      headerClassNames: 'w-1/4',
+      format: $(({ row }) => {
+        return `${row.domain?.name || process.env.DOMAIN}/${row.key}`;
+      }),
+    },
+    url: { displayName: 'Destination URL', headerClassNames: 'w-1/4' },
+    owner: {
+      displayName: 'Owner',
+      headerClassNames: 'w-1/6',
+      format: $(({ row }) => {
+        return row.user?.email;
+      }),
+    },
+    quarantinedAt: {
+      displayName: 'Quarantined At',
+      headerClassNames: 'w-1/6',
+      sortable: true,
+      format: $(({ value }) => {
+        return formatDate(new Date(value));
+      }),
+    },
+    actions: {
+      displayName: '',
+      headerClassNames: 'w-1/6',
+      format: $(({ row }) => {
+        return (
+          <div class="flex gap-2">
+            <button
+              class="btn btn-sm"
+              onClick$={async () => {
+                await reviewLink(row.id, true);
+              }}
+            >
+              Release
+            </button>
+            <button
+              class="btn btn-sm btn-error"
+              onClick$={async () => {
+                await reviewLink(row.id, false);
+              }}
+            >
+              Delete Link
+            </button>
+          </div>
+        );
+      }),
+    },
+  };
+
+  const defaultSort = { quarantinedAt: SortOrder.DESC };
+
+  return (
+    <>
+      <div class="shadow-[0_8px_30px_rgb(0,0,0,0.12)] rounded-xl w-full p-5">
+        <TableServerPagination
+          endpoint={`${process.env.CLIENTSIDE_API_DOMAIN}/api/v1/quarantine`}
+          refetch={refetchSignal}
+          columns={columns}
+          defaultSort={defaultSort}
+        />
+      </div>
+    </>
+  );
+});
+
+export const head: DocumentHead = {
+  title: 'Reduced.to | Admin Dashboard - Quarantine',
+  meta: [
+    {
+      name: 'title',
+      content: 'Reduced.to | Admin Dashboard - Quarantine',
+    },
+    {
+      name: 'description',
+      content: 'Reduced.to | Admin Dashboard - Review the links with an unsafe destination',
+    },
+  ],
+};
@@ -4,15 +4,18 @@ import { component$, useSignal } from '@builder.io/qwik';
 import { ClicksChart } from '../../../../components/dashboard/analytics/clicks-chart/clicks-chart';
 import { CountriesChart } from '../../../../components/dashboard/analytics/contries-chart/countries-chart';
 import { DevicesChart } from '../../../../components/dashboard/analytics/devices-chart/devices-chart';
+import { VariantsChart } from '../../../../components/dashboard/analytics/variants-chart/variants-chart';
+import { LinkHistory, LinkHistoryEntry, toHistoryAnnotations } from '../../../../components/dashboard/analytics/link-history/link-history';
 import { useGetCurrentUser } from '../../../layout';
 import { PLAN_LEVELS } from '@reduced.to/subscription-manager';
 import { LuLock } from '@qwikest/icons/lucide';
+import { MIGRATION_SOURCES, MigrationSource } from '../../../../components/dashboard/links/import-links/import-links';
 
-export const useGetAnalytics = routeLoader$(async ({ params: { key }, cookie, redirect }) => {
+export const useGetAnalytics = routeLoader$(async ({ params: { id }, cookie, redirect }) => {
   const [clicksResponse, countriesResponse, devicesResponse] = await Promise.all([
-    serverSideFetch(`${process.env.API_DOMAIN}/api/v1/analytics/${key}?days=7`, cookie),
-    serverSideFetch(`${process.env.API_DOMAIN}/api/v1/analytics/${key}/countries?days=7`, cookie),
-    serverSideFetch(`${process.env.API_DOMAIN}/api/v1/analytics/${key}/devices?days=7`, cookie),
+    serverSideFetch(`${process.env.API_DOMAIN}/api/v1/analytics/${id}?days=7`, cookie),
+    serverSideFetch(`${process.env.API_DOMAIN}/api/v1/analytics/${id}/countries?days=7`, cookie),
+    serverSideFetch(`${process.env.API_DOMAIN}/api/v1/analytics/${id}/devices?days=7`, cookie),
   ]);
 
   if (clicksResponse.status !== 200 || countriesResponse.status !== 200 || devicesResponse.status !== 200) {
@@ -21,13 +24,29 @@ export const useGetAnalytics = routeLoader$(async ({ params: { key }, cookie, re
 
   const [clicks, countries, devices] = await Promise.all([clicksResponse.json(), countriesResponse.json(), devicesResponse.json()]);
 
+  // The variants breakdown is only relevant for links with weighted destinations
+  let variants = [];
+  if (clicks.variants?.length) {
+    const variantsResponse = await serverSideFetch(`${process.env.API_DOMAIN}/api/v1/analytics/${id}/variants?days=7`, cookie);
+    variants = variantsResponse.status === 200 ? (await variantsResponse.json()).data : [];
+  }
+
+  // The changes of the link are shown on the clicks timeline
+  const historyResponse = await serverSideFetch(`${process.env.API_DOMAIN}/api/v1/links/${id}/history`, cookie);
+  const history: LinkHistoryEntry[] = historyResponse.status === 200 ? await historyResponse.json() : [];
+
   return {
-    key,
+    id,
     data: {
       clicksOverTime: clicks.clicksOverTime,
       countries: countries.data,
       devices: devices.data,
+      variants,
+      linkVariants: clicks.variants || [],
       url: clicks.url,
+      migratedFrom: clicks.migratedFrom as MigrationSource | null,
+      migratedClicks: clicks.migratedClicks as number,
+      history,
     },
   };
 });
@@ -35,6 +54,7 @@ export const useGetAnalytics = routeLoader$(async ({ params: { key }, cookie, re
 export default component$(() => {
   const daysDuration = useSignal(7);
   const analytics = useGetAnalytics();
+  const history = useSignal<LinkHistoryEntry[]>(analytics.value.data.history);
   const user = useGetCurrentUser();
   const plan = PLAN_LEVELS[user.value?.plan || 'FREE'];
 
@@ -93,15 +113,35 @@ export default component$(() => {
           </div>
         </div>
       </div>
+      {analytics.value.data.migratedFrom && (
+        <div class="alert mb-4">
+          <span>
+            This link was migrated from {MIGRATION_SOURCES[analytics.value.data.migratedFrom]}. The {analytics.value.data.migratedClicks}{' '}
+            clicks counted there are included in the total clicks of the link, but not in these charts.
+          </span>
+        </div>
+      )}
       <ClicksChart
-        urlKey={analytics.value.key}
+        linkId={analytics.value.id}
         daysDuration={daysDuration.value}
         initialData={analytics.value.data.clicksOverTime}
         url={analytics.value.data.url}
+        annotations={toHistoryAnnotations(history.value)}
       />
       <div class="grid grid-cols-1 gap-4 md:grid-cols-2 pt-4">
-        <CountriesChart urlKey={analytics.value.key} daysDuration={daysDuration.value} initialData={analytics.value.data.countries} />
-        <DevicesChart urlKey={analytics.value.key} daysDuration={daysDuration.value} initialData={analytics.value.data.devices} />
+        <CountriesChart linkId={analytics.value.id} daysDuration={daysDuration.value} initialData={analytics.value.data.countries} />
+        <DevicesChart linkId={analytics.value.id} daysDuration={daysDuration.value} initialData={analytics.value.data.devices} />
+        {analytics.value.data.linkVariants.length > 0 && (
+          <VariantsChart
+            linkId={analytics.value.id}
+            daysDuration={daysDuration.value}
+            initialData={analytics.value.data.variants}
+            variants={analytics.value.data.linkVariants}
+          />
+        )}
+      </div>
+      <div class="pt-4">
+        <LinkHistory linkId={analytics.value.id} history={history} />
       </div>
     </>
   );
@@ -1,24 +1,24 @@
 import { component$, useSignal, useVisibleTask$, $ } from '@builder.io/qwik';
-import { DocumentHead, globalAction$, zod$ } from '@builder.io/qwik-city';
-import { LinkBlock } from '../../components/dashboard/links/link/link';
+import { DocumentHead } from '@builder.io/qwik-city';
+import { LinkBlock, LinkHealthCheck, LinkType } from '../../components/dashboard/links/link/link';
 import {
   LINK_MODAL_ID,
   LinkModal,
 } from '../../components/dashboard/links/link-modal/link-modal';
 import { fetchWithPagination } from '../../lib/pagination-utils';
+import { Folder, Tag, fetchFolders, fetchTags } from '../../lib/tags-utils';
+import { LinksSidebar } from '../../components/dashboard/links/links-sidebar/links-sidebar';
 import { SortOrder } from '../../components/dashboard/table/table-server-pagination';
 import { FilterInput } from '../../components/dashboard/table/default-filter';
 import { useToaster } from '../../components/toaster/toaster';
 import { NoData } from '../../components/dashboard/empty-data/no-data';
 import { DELETE_MODAL_ID, GenericModal } from '../../components/dashboard/generic-modal/generic-modal';
 import { useDeleteLink } from '../../components/dashboard/links/link/use-delete-link';
-import { QR_CODE_DIALOG_ID, QrCodeDialog } from '../../components/temporary-links/qr-code-dialog/qr-code-dialog';
+import { QR_CODE_MODAL_ID, QrCodeModal } from '../../components/dashboard/links/qr-code-modal/qr-code-modal';
 import { addUtmParams, sleep } from '@reduced.to/utils';
-import { fetchTotalClicksData } from '../../components/dashboard/analytics/utils';
-import { writeFile, utils as xlsxUtils, read as xlsxRead } from "xlsx";
-import { isValidUrl, normalizeUrl } from '../../utils';
-import { ACCESS_COOKIE_NAME } from '../../shared/auth.service';
-import { z } from 'zod';
+import { authorizedFetch } from '../../shared/auth.service';
+import { BulkActions } from '../../components/dashboard/links/bulk-actions/bulk-actions';
+import { IMPORT_LINKS_MODAL_ID, ImportLinks, MigrationSource } from '../../components/dashboard/links/import-links/import-links';
 
 export default component$(() => {
   const toaster = useToaster();
@@ -30,7 +30,19 @@ export default component$(() => {
   const total = useSignal(0);
   const filter = useSignal('');
   const refetch = useSignal(0);
-  const qrLink = useSignal<string | null>(null);
+  const qrLink = useSignal<{ id: string; key: string } | null>(null);
+
+  // Tags and folders, the selected ones are used to filter the links
+  const tags = useSignal<Tag[]>([]);
+  const folders = useSignal<Folder[]>([]);
+  const selectedTag = useSignal('');
+  const selectedFolder = useSignal('');
+
+  // Archived links are listed separately, so they can be restored
+  const archived = useSignal(false);
+
+  // Links whose destination failed its last health check
+  const broken = useSignal(false);
 
   const isLoadingData = useSignal(true);
 
@@ -38,11 +50,36 @@ export default component$(() => {
   const linksMap = useSignal(
     new Map<
       string,
-      { id: string; key: string; url: string; createdAt: string; clicks: number; expirationTime?: string; utm?: Record<string, string> }
+      LinkHealthCheck & {
+        id: string;
+        key: string;
+        domain?: { name: string } | null;
+        type?: LinkType;
+        url: string;
+        createdAt: string;
+        clicks: number;
+        expirationTime?: string;
+        maxClicks?: number | null;
+        redirects?: number;
+        activeFrom?: string | null;
+        scheduledChanges?: { url: string; scheduledAt: string }[];
+        tags?: Tag[];
+        folder?: Folder | null;
+        archivedAt?: string | null;
+        quarantinedAt?: string | null;
+        migratedFrom?: MigrationSource | null;
+        utm?: Record<string, string>;
+      }
     >()
   );
   const linksArray = Array.from(linksMap.value.values());
 
+  // Ids of the links selected for a bulk action
+  const selectedIds = useSignal<string[]>([]);
+
+  // Edit modal
+  const idToEdit = useSignal<string | null>(null);
+
   // Delete modal
   const idToDelete = useSignal('');
   const deleteLinkAction = useDeleteLink();
@@ -70,12 +107,19 @@ export default component$(() => {
         limit: limit.value,
         sort: sort.value,
         filter: filter.value,
+        query: {
+          tag: selectedTag.value,
+          folder: selectedFolder.value,
+          archived: archived.value ? 'true' : undefined,
+          broken: broken.value ? 'true' : undefined,
+        },
       });
 
       isLoadingData.value = false;
 
       if ((filter.value && page.value === 1) || refetch.value) {
         refetch.value = 0;
+        selectedIds.value = [];
         linksMap.value.clear();
         data.data.forEach((link) => linksMap.value.set(link.key, link));
       } else {
@@ -96,6 +140,12 @@ export default component$(() => {
     }
   });
 
+  useVisibleTask$(async ({ track }) => {
+    track(() => refetch.value);
+
+    [tags.value, folders.value] = await Promise.all([fetchTags(), fetchFolders()]);
+  });
+
   // Watch for scroll events and load more items if necessary
   useVisibleTask$(
     () => {
@@ -127,6 +177,16 @@ export default component$(() => {
     refetch.value++;
     filter.value = '';
 
+    if (idToEdit.value) {
+      idToEdit.value = null;
+      toaster.add({
+        title: 'Link updated',
+        description: 'Link updated successfully!',
+        type: 'info',
+      });
+      return;
+    }
+
     toaster.add({
       title: 'Link created',
       description: 'Link created successfully and ready to use!',
@@ -134,86 +194,57 @@ export default component$(() => {
     });
   });
 
-  const getStats = $(async () => {
-    const data = await fetchTotalClicksData();
-    const worksheet = xlsxUtils.json_to_sheet(data);
-    const workbook = xlsxUtils.book_new();
-    xlsxUtils.book_append_sheet(workbook, worksheet, 'Stats');
-    writeFile(workbook, 'stats.xlsx', {compression: true});
-  });
-
-  const useCreateBulkLink = globalAction$(async ({ urls }, { fail, cookie }) => {
-    const response: Response = await fetch(`${process.env.API_DOMAIN}/api/v1/shortener/bulk`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${cookie.get(ACCESS_COOKIE_NAME)?.value}`,
-      },
-      body: JSON.stringify(urls.map((url: string) => ({ url }))),
-    });
-
-    const data: { keys: string[]; message?: string[] } = await response.json();
+  const restoreLink = $(async (id: string) => {
+    const response = await authorizedFetch(`${process.env.CLIENTSIDE_API_DOMAIN}/api/v1/links/${id}/restore`, { method: 'POST' });
 
-    if (response.status !== 201) {
-      return fail(500, {
-        message: data?.message || 'There was an error creating your link. Please try again.',
+    if (!response.ok) {
+      const data = await response.json();
+      toaster.add({
+        title: 'Oops! Something went wrong',
+        description: data?.message || 'We could not restore your link. Please try again later.',
+        type: 'error',
       });
+      return;
     }
 
-    return data.keys.map((key: string) => ({ key }));
-  }, zod$(z.object({ urls: z.array(z.string()) })));
-
-  const action = useCreateBulkLink();
-
-  const createLink = async (urls: string[]) => {
-    const { value } = await action.submit({ urls });
-    console.log(value);
-  }
-
-  const handleFileUpload = (event: { target: any }) => {
-    const file = event.target?.files[0];
-    if (!file) return;
-
-    isLoadingData.value = true;
-
-    const reader = new FileReader();
-
-    reader.onload = async (e) => {
-      try {
-        const arrayBuffer = e.target?.result;
-        const workbook = xlsxRead(arrayBuffer, { type: 'array', sheetRows: 100 });
-
-        // Читаем первый лист
-        const firstSheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[firstSheetName];
-
-        // Конвертируем в JSON
-        const jsonData = xlsxUtils.sheet_to_json(worksheet, { header: 1 });
-        const mappedData = jsonData.map((item) => Array.isArray(item) ? item[0] : item)
-          .filter(isValidUrl).map(normalizeUrl)
-
-        await createLink(mappedData)
-
-        isLoadingData.value = false;
-        refetch.value++;
+    refetch.value++;
+    toaster.add({
+      title: 'Link restored',
+      description: 'Link restored successfully and ready to use!',
+      type: 'info',
+    });
+  });
 
-        toaster.add({
-          title: 'Links created',
-          description: `${mappedData.length} links created successfully!`,
-          type: 'info',
-        });
-      } catch (error) {
-        toaster.add({
-          title: 'Oops! Something went wrong',
-          description: 'We could not load your links. Please try again later.',
-          type: 'error',
-        });
-        isLoadingData.value = false;
-      }
-    };
+  // Every link matching the filters is exported by the server, not only the loaded ones
+  const exportLinks = $(async (format: 'csv' | 'ndjson' | 'xlsx') => {
+    const queryParams = new URLSearchParams({ format });
+    Object.entries({
+      filter: filter.value,
+      tag: selectedTag.value,
+      folder: selectedFolder.value,
+      archived: archived.value ? 'true' : '',
+      broken: broken.value ? 'true' : '',
+    }).forEach(([key, value]) => value && queryParams.set(key, value));
+    Object.entries(sort.value).forEach(([key, value]) => queryParams.set(`sort[${key}]`, value));
+
+    const response = await authorizedFetch(`${process.env.CLIENTSIDE_API_DOMAIN}/api/v1/links/export?${queryParams}`);
+    if (!response.ok) {
+      // Rejected exports explain why, e.g. too many links for an XLSX file
+      const { message } = response.status === 400 ? await response.json() : { message: null };
+      toaster.add({
+        title: 'Oops! Something went wrong',
+        description: message || 'We could not export your links. Please try again later.',
+        type: 'error',
+      });
+      return;
+    }
 
-    reader.readAsArrayBuffer(file);
-  };
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(await response.blob());
+    link.download = `links.${format}`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  });
 
   return (
     <>
@@ -222,14 +253,27 @@ export default component$(() => {
           refetch.value++;
         })}
         idToDelete={idToDelete.value}
-        operationType="delete"
+        operationType="archive"
         id={DELETE_MODAL_ID}
         confirmation="DELETE"
         type="link"
         action={deleteLinkAction}
       />
-      <LinkModal onSubmitHandler={onModalSubmit} />
-      <QrCodeDialog link={{ key: qrLink.value! }} />
+      <LinkModal
+        onSubmitHandler={onModalSubmit}
+        onCloseHandler={$(() => {
+          idToEdit.value = null;
+        })}
+        editLinkId={idToEdit.value}
+        tags={tags.value}
+        folders={folders.value}
+      />
+      <QrCodeModal link={{ id: qrLink.value?.id, key: qrLink.value?.key }} />
+      <ImportLinks
+        onDone={$(() => {
+          refetch.value++;
+        })}
+      />
       <div className="flex">
         <FilterInput
           filter={filter}
@@ -239,76 +283,167 @@ export default component$(() => {
           })}
         />
         <div className="ml-auto pl-4">
-          <button className="btn btn-natural" onClick$={getStats}>
-            Get stats
-          </button>
+          <div class="dropdown dropdown-end">
+            <div tabIndex={0} role="button" class="btn btn-natural">
+              Export
+            </div>
+            <ul tabIndex={0} class="dropdown-content z-[1] menu p-2 shadow bg-base-100 rounded-box w-40">
+              <li>
+                <button onClick$={() => exportLinks('csv')}>CSV</button>
+              </li>
+              <li>
+                <button onClick$={() => exportLinks('xlsx')}>Excel</button>
+              </li>
+              <li>
+                <button onClick$={() => exportLinks('ndjson')}>JSON (NDJSON)</button>
+              </li>
+            </ul>
+          </div>
         </div>
         <div className="pl-4">
-          <button className="btn btn-primary" onClick$={() => (document.getElementById(LINK_MODAL_ID) as any).showModal()}>
+          <button
+            className="btn btn-primary"
+            onClick$={() => {
+              idToEdit.value = null;
+              (document.getElementById(LINK_MODAL_ID) as any).showModal();
+            }}
+          >
             Create a new link
           </button>
         </div>
         <div className="pl-4">
-          <label>
-            <input
-              type="file"
-              accept=".xlsx,.xls"
-              onchange={handleFileUpload}
-              className="hidden"
-            />
-            <span className="btn btn-natural">
-              Group link shortening
-            </span>
-          </label>
+          <button
+            className="btn btn-natural"
+            onClick$={() => {
+              (document.getElementById(IMPORT_LINKS_MODAL_ID) as any).showModal();
+            }}
+          >
+            Import links
+          </button>
         </div>
       </div>
-      <div ref={linksContainerRef} class="links overflow-y-auto h-screen p-5" style={{ maxHeight: 'calc(100vh - 160px)' }}>
-        {!linksArray.length && isLoadingData.value ? ( // Only if it's the first load (links are empty)
-          <div class="flex items-center justify-center h-40">
-            <span class="loading loading-spinner loading-lg"></span>
-          </div>
-        ) : linksArray.length ? (
-          <>
-            {linksArray.map((link) => {
-              let url = link.url;
-
-              if (link.utm) {
-                url = addUtmParams(url, link.utm);
-              }
-              return (
-                <LinkBlock
-                  id={link.id}
-                  key={link.key}
-                  urlKey={link.key}
-                  url={url}
-                  clicks={link.clicks}
-                  expirationTime={link.expirationTime}
-                  createdAt={link.createdAt}
-                  onShowQR={$(() => {
-                    qrLink.value = link.key;
-                    (document.getElementById(QR_CODE_DIALOG_ID) as any).showModal();
-                  })}
-                  onDelete={$((id: string) => {
-                    idToDelete.value = id;
-                    (document.getElementById('delete-modal') as any).showModal();
+      <div class="flex">
+        <LinksSidebar
+          tags={tags}
+          folders={folders}
+          selectedTag={selectedTag}
+          selectedFolder={selectedFolder}
+          archived={archived}
+          broken={broken}
+          onChange={$(() => {
+            refetch.value++;
+          })}
+        />
+        <div ref={linksContainerRef} class="links overflow-y-auto h-screen p-5 flex-grow" style={{ maxHeight: 'calc(100vh - 160px)' }}>
+          {!linksArray.length && isLoadingData.value ? ( // Only if it's the first load (links are empty)
+            <div class="flex items-center justify-center h-40">
+              <span class="loading loading-spinner loading-lg"></span>
+            </div>
+          ) : linksArray.length ? (
+            <>
+              {/* Bulk actions only apply to active links, archived links are restored one by one */}
+              {!archived.value && (
+                <div class="flex items-center gap-2 px-3 mb-3">
+                  <input
+                    type="checkbox"
+                    class="checkbox checkbox-sm"
+                    checked={selectedIds.value.length === linksArray.length}
+                    onChange$={(ev: Event) => {
+                      selectedIds.value = (ev.target as HTMLInputElement).checked ? linksArray.map(({ id }) => id) : [];
+                    }}
+                  />
+                  <span class="text-sm text-gray-500">Select all</span>
+                </div>
+              )}
+              {!archived.value && selectedIds.value.length > 0 && (
+                <BulkActions
+                  selectedIds={selectedIds}
+                  tags={tags.value}
+                  folders={folders.value}
+                  onDone={$(() => {
+                    refetch.value++;
                   })}
                 />
-              );
-            })}
-            {isLoadingData.value && (
-              <div class="flex items-center justify-center h-40">
-                <span class="loading loading-spinner loading-md"></span>
-              </div>
-            )}
-          </>
-        ) : (
-          <div class="text-center pt-10">
-            <NoData
-              title={'Oops! No links found'}
-              description={`${filter.value ? 'Try to change your filter or ' : 'Try to '} create a new link`}
-            ></NoData>
-          </div>
-        )}
+              )}
+              {linksArray.map((link) => {
+                let url = link.url;
+
+                if (link.utm && (!link.type || link.type === 'URL')) {
+                  url = addUtmParams(url, link.utm);
+                }
+                return (
+                  <LinkBlock
+                    id={link.id}
+                    key={link.id}
+                    urlKey={link.key}
+                    domain={link.domain?.name}
+                    type={link.type}
+                    url={url}
+                    clicks={link.clicks}
+                    expirationTime={link.expirationTime}
+                    maxClicks={link.maxClicks}
+                    redirects={link.redirects}
+                    activeFrom={link.activeFrom}
+                    scheduledChanges={link.scheduledChanges}
+                    tags={link.tags}
+                    folder={link.folder}
+                    archivedAt={link.archivedAt}
+                    quarantinedAt={link.quarantinedAt}
+                    migratedFrom={link.migratedFrom}
+                    healthStatus={link.healthStatus}
+                    healthStatusCode={link.healthStatusCode}
+                    healthRedirects={link.healthRedirects}
+                    healthLatency={link.healthLatency}
+                    healthError={link.healthError}
+                    healthCheckedAt={link.healthCheckedAt}
+                    createdAt={link.createdAt}
+                    onShowQR={$(() => {
+                      qrLink.value = { id: link.id, key: link.key };
+                      (document.getElementById(QR_CODE_MODAL_ID) as any).showModal();
+                    })}
+                    onEdit={$((id: string) => {
+                      idToEdit.value = id;
+                      (document.getElementById(LINK_MODAL_ID) as any).showModal();
+                    })}
+                    onDelete={$((id: string) => {
+                      idToDelete.value = id;
+                      (document.getElementById('delete-modal') as any).showModal();
+                    })}
+                    onRestore={restoreLink}
+                    selected={selectedIds.value.includes(link.id)}
+                    onSelect={
+                      archived.value
+                        ? undefined
+                        : $((id: string, selected: boolean) => {
+                            selectedIds.value = selected
+                              ? [...selectedIds.value, id]
+                              : selectedIds.value.filter((selectedId) => selectedId !== id);
+                          })
+                    }
+                  />
+                );
+              })}
+              {isLoadingData.value && (
+                <div class="flex items-center justify-center h-40">
+                  <span class="loading loading-spinner loading-md"></span>
+                </div>
+              )}
+            </>
+          ) : (
+            <div class="text-center pt-10">
+              {archived.value ? (
+                <NoData title={'No archived links'} description={'Links you delete are kept here until they are purged'}></NoData>
+              ) : broken.value ? (
+                <NoData title={'No broken links'} description={'The destinations of your links are checked periodically'}></NoData>
+              ) : (
+                <NoData
+                  title={'Oops! No links found'}
+                  description={`${filter.value ? 'Try to change your filter or ' : 'Try to '} create a new link`}
+                ></NoData>
+              )}
+            </div>
+          )}
+        </div>
       </div>
     </>
   );
@@ -2,7 +2,16 @@ import { component$, Slot, useSignal, $ } from '@builder.io/qwik';
 import { Link, RequestHandler, useLocation } from '@builder.io/qwik-city';
 import { validateAccessToken } from '../../shared/auth.service';
 import { Role, useGetCurrentUser } from '../layout';
-import { LuAlertOctagon, LuLineChart, LuLink, LuShield, LuSlidersHorizontal, LuUsers } from '@qwikest/icons/lucide';
+import {
+  LuAlertOctagon,
+  LuLineChart,
+  LuLayoutList,
+  LuLink,
+  LuShield,
+  LuShieldAlert,
+  LuSlidersHorizontal,
+  LuUsers,
+} from '@qwikest/icons/lucide';
 
 export const onGet: RequestHandler = async ({ cookie, redirect }) => {
   const validAccessToken = await validateAccessToken(cookie);
@@ -34,6 +43,16 @@ export default component$(() => {
               <span class="font-medium">My Links</span>
             </Link>
           </li>
+          <li class="py-1 mt-1">
+            <Link
+              href="/dashboard/pages"
+              class={`${location.url.pathname.slice(0, -1) === '/dashboard/pages' ? 'active' : ''}`}
+              onClick$={toggleDrawer}
+            >
+              <LuLayoutList class="w-5 h-5" />
+              <span class="font-medium">Pages</span>
+            </Link>
+          </li>
           <li class="py-1 mt-1">
             <Link
               href="/dashboard/settings"
@@ -84,6 +103,16 @@ export default component$(() => {
                         <span class="font-medium">Reports</span>
                       </Link>
                     </li>
+                    <li class="py-1 mt-1">
+                      <Link
+                        href="/dashboard/admin/quarantine"
+                        class={`${location.url.pathname.slice(0, -1) === '/dashboard/admin/quarantine' ? 'active' : ''}`}
+                        onClick$={toggleDrawer}
+                      >
+                        <LuShieldAlert class="w-5 h-5" />
+                        <span class="font-medium">Quarantine</span>
+                      </Link>
+                    </li>
                   </ul>
                 </details>
               </li>
@@ -0,0 +1,145 @@
+import { component$, useSignal, useVisibleTask$, $ } from '@builder.io/qwik';
+import { DocumentHead } from '@builder.io/qwik-city';
+import { HiArrowTopRightOnSquareOutline, HiPlusOutline, HiTrashOutline } from '@qwikest/icons/heroicons';
+import { authorizedFetch } from '../../../shared/auth.service';
+import { useToaster } from '../../../components/toaster/toaster';
+import { PAGES_API, PageEditor, PageTheme } from '../../../components/dashboard/pages/page-editor';
+import { PageStats } from '../../../components/dashboard/pages/page-stats';
+import { NoData } from '../../../components/dashboard/empty-data/no-data';
+
+interface Page {
+  id: string;
+  handle: string;
+  title: string;
+  theme: PageTheme;
+  _count: { items: number; views: number };
+}
+
+export default component$(() => {
+  const toaster = useToaster();
+
+  const pages = useSignal<Page[]>([]);
+  // Id of the page being edited, an empty string when creating a new page
+  const selectedPageId = useSignal<string | null>(null);
+  const tab = useSignal<'edit' | 'stats'>('edit');
+
+  const fetchPages = $(async () => {
+    const response = await authorizedFetch(PAGES_API);
+    if (response.ok) {
+      pages.value = await response.json();
+    }
+  });
+
+  useVisibleTask$(async () => {
+    await fetchPages();
+  });
+
+  const deletePage = $(async (id: string) => {
+    const response = await authorizedFetch(`${PAGES_API}/${id}`, { method: 'DELETE' });
+
+    if (!response.ok) {
+      toaster.add({ title: 'Something went wrong', description: 'Please try again later', type: 'error' });
+      return;
+    }
+
+    toaster.add({ title: 'Success', description: 'The page has been deleted', type: 'info' });
+    if (selectedPageId.value === id) {
+      selectedPageId.value = null;
+    }
+    await fetchPages();
+  });
+
+  return (
+    <div class="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      <div class="bg-base-100 rounded-lg shadow p-4">
+        <div class="flex items-center justify-between mb-4">
+          <div>
+            <div class="font-bold text-lg">Pages</div>
+            <span class="text-sm text-gray-500">Share several links at once with a single link-in-bio page</span>
+          </div>
+          <button
+            class="btn btn-primary btn-sm"
+            onClick$={() => {
+              selectedPageId.value = '';
+              tab.value = 'edit';
+            }}
+          >
+            <HiPlusOutline class="w-4 h-4" />
+            New page
+          </button>
+        </div>
+        {pages.value.length === 0 && (
+          <div class="text-center py-8">
+            <NoData title="No pages yet" description="Create your first page to share your links" />
+          </div>
+        )}
+        {pages.value.map((page) => (
+          <div
+            key={page.id}
+            class={`flex items-center justify-between rounded-lg border p-3 mt-2 ${
+              selectedPageId.value === page.id ? 'border-primary' : 'border-gray-200 dark:border-gray-700'
+            }`}
+          >
+            <button
+              class="min-w-0 flex-1 text-left"
+              onClick$={() => {
+                selectedPageId.value = page.id;
+              }}
+            >
+              <div class="font-medium truncate">{page.title}</div>
+              <div class="text-xs text-gray-500">
+                /p/{page.handle} · {page._count.items} links · {page._count.views} views
+              </div>
+            </button>
+            <div class="flex gap-2">
+              <a href={`/p/${page.handle}`} target="_blank" class="btn btn-xs btn-ghost">
+                <HiArrowTopRightOnSquareOutline class="w-4 h-4" />
+              </a>
+              <button class="btn btn-xs btn-ghost text-red-500" onClick$={() => deletePage(page.id)}>
+                <HiTrashOutline class="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+      {selectedPageId.value !== null && (
+        <div class="bg-base-100 rounded-lg shadow p-4">
+          {selectedPageId.value && (
+            <div role="tablist" class="tabs tabs-bordered mb-4">
+              <a role="tab" class={`tab ${tab.value === 'edit' ? 'tab-active' : ''}`} onClick$={() => (tab.value = 'edit')}>
+                Edit
+              </a>
+              <a role="tab" class={`tab ${tab.value === 'stats' ? 'tab-active' : ''}`} onClick$={() => (tab.value = 'stats')}>
+                Stats
+              </a>
+            </div>
+          )}
+          {tab.value === 'stats' && selectedPageId.value ? (
+            <PageStats pageId={selectedPageId.value} />
+          ) : (
+            <PageEditor
+              pageId={selectedPageId.value || undefined}
+              onSaved$={async () => {
+                await fetchPages();
+              }}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+});
+
+export const head: DocumentHead = {
+  title: 'Reduced.to | Pages',
+  meta: [
+    {
+      name: 'title',
+      content: 'Reduced.to | Pages',
+    },
+    {
+      name: 'description',
+      content: 'Reduced.to | Create link-in-bio pages with your short links',
+    },
+  ],
+};
@@ -10,6 +10,7 @@ import { formatRenewalDate } from '../../../lib/date-utils';
 import * as Paddle from '@paddle/paddle-js';
 import { RESUME_CONFIRMATION, RESUME_PLAN_MODAL_ID, useResumePlan } from './billing/use-resume-plan';
 import { PLAN_MODAL_ID, PlanModal } from '../../../components/dashboard/plan-modal/plan-modal';
+import { Domains } from '../../../components/dashboard/domains/domains';
 
 const MAX_FILE_SIZE = 1024 * 1024; // 1MB
 const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/jpg', 'image/png'];
@@ -428,6 +429,8 @@ export default component$(() => {
           </div>
         </div>
         <div class="divider py-3"></div>
+        <Domains />
+        <div class="divider py-3"></div>
 
         <div class="block sm:grid grid-cols-3 gap-4">
           <div>
@@ -0,0 +1,129 @@
+import { component$ } from '@builder.io/qwik';
+import { DocumentHead, routeLoader$ } from '@builder.io/qwik-city';
+import { UNKNOWN_FAVICON, getLinkFromKey } from '../../../components/temporary-links/utils';
+
+type PageTheme = 'LIGHT' | 'DARK' | 'OCEAN' | 'SUNSET';
+
+interface PublicPageItem {
+  title: string | null;
+  icon: string | null;
+  key: string;
+  domain: string | null;
+  url: string | null; // Null for password protected links
+}
+
+interface PublicPage {
+  handle: string;
+  title: string;
+  description: string | null;
+  theme: PageTheme;
+  items: PublicPageItem[];
+}
+
+const THEMES: Record<PageTheme, { background: string; text: string; item: string }> = {
+  LIGHT: {
+    background: 'bg-gray-50',
+    text: 'text-gray-800',
+    item: 'bg-white border border-gray-200 hover:bg-gray-100',
+  },
+  DARK: {
+    background: 'bg-gray-900',
+    text: 'text-white',
+    item: 'bg-gray-800 border border-gray-700 hover:bg-gray-700',
+  },
+  OCEAN: {
+    background: 'bg-gradient-to-b from-sky-400 to-blue-700',
+    text: 'text-white',
+    item: 'bg-white/20 border border-white/30 hover:bg-white/30',
+  },
+  SUNSET: {
+    background: 'bg-gradient-to-b from-orange-400 to-pink-600',
+    text: 'text-white',
+    item: 'bg-white/20 border border-white/30 hover:bg-white/30',
+  },
+};
+
+export const usePage = routeLoader$(async ({ params: { handle }, request, redirect }) => {
+  try {
+    // The tracking headers are forwarded so the view is attributed to the visitor
+    const res = await fetch(`${process.env.API_DOMAIN}/api/v1/pages/public/${handle}`, {
+      headers: {
+        referer: request.headers.get('referer') || '',
+        'user-agent': request.headers.get('user-agent') || '',
+      },
+    });
+
+    if (res.ok) {
+      return (await res.json()) as PublicPage;
+    }
+  } catch (err) {
+    console.error(err);
+  }
+
+  throw redirect(302, '/unknown');
+});
+
+export default component$(() => {
+  const page = usePage();
+  const theme = THEMES[page.value.theme] || THEMES.LIGHT;
+
+  return (
+    <div class={`min-h-[calc(100vh-64px)] ${theme.background} ${theme.text}`}>
+      <div class="w-full max-w-xl mx-auto px-6 py-12 flex flex-col items-center">
+        <h1 class="text-3xl font-bold text-center break-words w-full">{page.value.title}</h1>
+        {page.value.description && <p class="mt-3 text-center opacity-80 whitespace-pre-line">{page.value.description}</p>}
+        <div class="mt-8 w-full flex flex-col gap-3">
+          {page.value.items.map((item) => (
+            // Items go through the short link, so the clicks are tracked like any other visit
+            <a
+              key={item.key}
+              href={getLinkFromKey(item.key, item.domain || undefined)}
+              rel="noopener noreferrer"
+              class={`flex items-center gap-3 rounded-xl px-4 py-3 transition-colors ${theme.item}`}
+            >
+              {item.icon ? (
+                <span class="w-6 text-xl text-center">{item.icon}</span>
+              ) : (
+                <img
+                  src={item.url ? `https://www.google.com/s2/favicons?sz=128&domain_url=${item.url}` : UNKNOWN_FAVICON}
+                  alt=""
+                  width={24}
+                  height={24}
+                  class="w-6 h-6 rounded"
+                />
+              )}
+              <span class="flex-1 text-center font-medium truncate">{item.title || item.url || item.key}</span>
+              <span class="w-6" />
+            </a>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+});
+
+export const head: DocumentHead = ({ resolveValue }) => {
+  const page = resolveValue(usePage);
+
+  return {
+    title: `${page.title} | Reduced.to`,
+    meta: [
+      {
+        name: 'title',
+        content: page.title,
+      },
+      {
+        name: 'description',
+        content: page.description || `Links of ${page.title}`,
+      },
+      {
+        property: 'og:title',
+        content: page.title,
+      },
+      {
+        property: 'og:description',
+        content: page.description || `Links of ${page.title}`,
+      },
+    ],
+  };
+};
@@ -2,6 +2,8 @@ import { Form, routeAction$, z, zod$ } from '@builder.io/qwik-city';
 import { component$ } from '@builder.io/qwik';
 import { DocumentHead } from '@builder.io/qwik-city';
 import { ClientConn, RequestHandler } from '@builder.io/qwik-city/middleware/request-handler';
+import { getPayloadHtml } from '../../../lib/payload-page';
+import { getSnippetHtml } from '../../../lib/snippet-page';
 
 export const getLinkUsingPassword = async (key: string, password: string, clientConn: ClientConn, request: Request) => {
   return fetch(`${process.env.API_DOMAIN}/api/v1/shortener/${key}?pw=${password}`, {
@@ -34,6 +36,15 @@ export const usePasswordProtected = routeAction$(
       });
     }
 
+    // Payload and snippet links are not redirected, their page is shown once the password is verified
+    if (res.status === 200 && data.payload) {
+      return { contentHtml: getPayloadHtml(data.payload) };
+    }
+
+    if (res.status === 200 && data.snippet) {
+      return { contentHtml: getSnippetHtml(data.snippet) };
+    }
+
     if (res.status === 200 && data.url) {
       headers.set('location', data.url);
       return;
@@ -58,6 +69,7 @@ export const usePasswordProtected = routeAction$(
 
 export default component$(() => {
   const action = usePasswordProtected();
+  const contentHtml = action.value && 'contentHtml' in action.value ? action.value.contentHtml : null;
   return (
     <div class="flex flex-col h-[calc(100vh-64px)]">
       <div class="flex flex-1 content-center justify-center items-center">
@@ -75,26 +87,28 @@ export default component$(() => {
                 </p>
               </div>
               <div class="mt-6">
-                <Form action={action}>
-                  <div class="grid gap-y-4">
-                    <div>
-                      <input
-                        type="password"
-                        id="password"
-                        name="password"
-                        class="py-3 px-4 w-full input input-bordered"
-                        placeholder="Enter password"
-                        required
-                      />
+                {contentHtml ? (
+                  <iframe srcdoc={contentHtml} title="Link content" allow="clipboard-write" class="w-full h-[32rem] rounded-lg border-0" />
+                ) : (
+                  <Form action={action}>
+                    <div class="grid gap-y-4">
+                      <div>
+                        <input
+                          type="password"
+                          id="password"
+                          name="password"
+                          class="py-3 px-4 w-full input input-bordered"
+                          placeholder="Enter password"
+                          required
+                        />
+                      </div>
+                      <button type="submit" class="btn btn-primary w-full">
+                        {action.isRunning ? <span class="loading loading-spinner-small"></span> : 'Submit'}
+                      </button>
+                      {action.value?.failed && <span class="text-error text-left">{action.value.fieldErrors?.password}</span>}
                     </div>
-                    <button type="submit" class="btn btn-primary w-full">
-                      {action.isRunning ? <span class="loading loading-spinner-small"></span> : 'Submit'}
-                    </button>
-                    {(action.value?.failed || action.value?.fieldErrors?.password) && (
-                      <span class="text-error text-left">{action.value?.fieldErrors?.password}</span>
-                    )}
-                  </div>
-                </Form>
+                  </Form>
+                )}
               </div>
             </div>
           </div>
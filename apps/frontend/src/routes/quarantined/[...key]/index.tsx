@@ -0,0 +1,54 @@
+import { component$ } from '@builder.io/qwik';
+import { DocumentHead, Link, useLocation } from '@builder.io/qwik-city';
+import { HiShieldExclamationOutline } from '@qwikest/icons/heroicons';
+
+// Quarantined links stop redirecting until an admin reviews them, the destination is never shown
+export default component$(() => {
+  const location = useLocation();
+
+  return (
+    <div class="flex flex-col h-[calc(100vh-64px)]">
+      <div class="flex flex-1 content-center justify-center items-center">
+        <div class="w-full max-w-lg mx-auto p-6">
+          <div class="mt-7 bg-white border border-gray-200 rounded-xl shadow-sm dark:bg-gray-800 dark:border-gray-700">
+            <div class="bg-gray-100 border-b rounded-t-xl py-3 px-4 md:py-4 md:px-5 dark:bg-gray-900 dark:border-gray-700 flex justify-center items-center">
+              <img src="/favicon.png" alt="Reduced.to logo" class="w-10 h-10" />
+              <p class="ml-4 text-xl font-semibold text-gray-800 dark:text-white">Reduced.to</p>
+            </div>
+            <div class="p-4 sm:p-5">
+              <div class="text-center">
+                <HiShieldExclamationOutline class="w-12 h-12 mx-auto text-error" />
+                <h1 class="mt-2 block text-2xl font-bold text-gray-800 dark:text-white">Unsafe Destination</h1>
+                <p class="mt-4 text-gray-600 dark:text-gray-400">
+                  The destination of <span class="font-mono">/{location.params.key}</span> was flagged as malicious or deceptive. This short
+                  link has been blocked to protect you.
+                </p>
+              </div>
+              <Link href="/" class="btn btn-primary w-full mt-6">
+                Back to homepage
+              </Link>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+});
+
+export const head: DocumentHead = {
+  title: 'Unsafe Destination | Reduced.to',
+  meta: [
+    {
+      name: 'title',
+      content: 'Reduced.to | Unsafe Destination',
+    },
+    {
+      name: 'description',
+      content: 'The destination of this short link was flagged as unsafe.',
+    },
+    {
+      name: 'robots',
+      content: 'noindex',
+    },
+  ],
+};
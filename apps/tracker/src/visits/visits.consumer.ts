@@ -7,7 +7,7 @@ import { KafkaMessage } from 'kafkajs';
 import { isbot } from 'isbot';
 import geoip from 'geoip-lite';
 import { VisitsService } from './visits.service';
-import { PrismaService } from '@reduced.to/prisma';
+import { PrismaService, VisitSource } from '@reduced.to/prisma';
 import { UsageService } from '@reduced.to/subscription-manager';
 
 @Injectable()
@@ -23,43 +23,49 @@ export class VisitsConsumer extends ConsumerService {
   }
 
   async onMessage(_topic: string, _partition: number, message: KafkaMessage) {
-    const { ip, userAgent, key } = JSON.parse(message.value.toString()) as {
+    const { ip, userAgent, key, domain, variant, source } = JSON.parse(message.value.toString()) as {
       ip: string;
       userAgent: string;
       key: string;
       url: string;
+      domain?: string;
+      variant?: string; // Url of the served variant, for links with weighted destinations
+      source?: VisitSource; // Set for scans of the QR code of the link
     };
 
     this.loggerService.debug(`Received message for ${key} with ip: ${ip} and user agent: ${userAgent}`);
 
-    const user = await this.prismaService.link.findUnique({
-      where: { key },
+    // Keys are unique per domain, links of the default domain have no domain
+    const link = await this.prismaService.link.findFirst({
+      where: domain ? { key, domain: { name: domain } } : { key, domainId: null },
       select: {
+        id: true,
         userId: true,
       },
     });
 
-    if (!user) {
+    if (!link) {
       this.loggerService.debug('Could not find user id for key: ', key);
       return;
     }
 
-    const isEligleToTrackClick = await this.usageService.isEligibleToTrackClicks(user.userId);
+    const isEligleToTrackClick = await this.usageService.isEligibleToTrackClicks(link.userId);
 
     if (!isEligleToTrackClick) {
       this.loggerService.debug('User has reached the limit of tracked clicks');
       return;
     }
 
-    const hashedIp = createHash('sha256').update(ip).digest('hex');
-    const isUniqueVisit = await this.visitsService.isUnique(key, hashedIp);
-
-    if (!isUniqueVisit) {
+    if (isbot(userAgent)) {
+      this.loggerService.debug(`Bot detected for ${key} and user agent: ${userAgent}, skipping...`);
       return;
     }
 
-    if (isbot(userAgent)) {
-      this.loggerService.debug(`Bot detected for ${key} and user agent: ${userAgent}, skipping...`);
+    const hashedIp = createHash('sha256').update(ip).digest('hex');
+    const isUniqueVisit = await this.visitsService.isUnique(link.id, hashedIp);
+
+    if (!isUniqueVisit) {
+      await this.visitsService.addRepeatedVisit(link.id);
       return;
     }
 
@@ -67,12 +73,14 @@ export class VisitsConsumer extends ConsumerService {
     this.loggerService.debug(`Parsed ip ${ip} to geo location: ${JSON.stringify(geoLocation)}`);
 
     await Promise.all([
-      this.visitsService.add(key, {
+      this.visitsService.add(link.id, {
         hashedIp,
         ua: userAgent,
         geoLocation,
+        variant,
+        source,
       }),
-      this.usageService.incrementClicksCount(user.userId),
+      this.usageService.incrementClicksCount(link.userId),
     ]);
 
     this.loggerService.log(`Added unique visit for ${key}`);
@@ -1,6 +1,6 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { VisitsService } from './visits.service';
-import { PrismaService, Prisma } from '@reduced.to/prisma';
+import { PrismaService, Prisma, VisitSource } from '@reduced.to/prisma';
 
 describe('VisitsService', () => {
   let service: VisitsService;
@@ -13,6 +13,9 @@ describe('VisitsService', () => {
       findFirst: jest.fn(),
       count: jest.fn(),
     },
+    link: {
+      update: jest.fn(),
+    },
   };
 
   beforeEach(async () => {
@@ -39,27 +42,75 @@ describe('VisitsService', () => {
       const error = new Prisma.PrismaClientKnownRequestError('message', { code: 'P2025', meta: {}, clientVersion: 'v1' });
       mockPrismaService.visit.create.mockRejectedValue(error);
       await expect(
-        service.add('testKey', { hashedIp: 'testIp', ua: 'testAgent', geoLocation: { country: 'United States' } as any })
+        service.add('testLinkId', { hashedIp: 'testIp', ua: 'testAgent', geoLocation: { country: 'United States' } as any })
       ).resolves.toBeUndefined();
     });
 
+    it('should store the served variant of the link', async () => {
+      const tx = { visit: { create: jest.fn() }, link: { update: jest.fn() } };
+      mockPrismaService.$transaction.mockImplementation((callback) => callback(tx));
+
+      await service.add('testLinkId', {
+        hashedIp: 'testIp',
+        ua: 'testAgent',
+        geoLocation: { country: 'US' } as any,
+        variant: 'https://example.com/b',
+      });
+
+      expect(tx.visit.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ variant: 'https://example.com/b', link: { connect: { id: 'testLinkId' } } }),
+      });
+    });
+
+    it('should store the source of the visit', async () => {
+      const tx = { visit: { create: jest.fn() }, link: { update: jest.fn() } };
+      mockPrismaService.$transaction.mockImplementation((callback) => callback(tx));
+
+      await service.add('testLinkId', { hashedIp: 'testIp', ua: 'testAgent', geoLocation: null, source: VisitSource.QR });
+      await service.add('testLinkId', { hashedIp: 'testIp', ua: 'testAgent', geoLocation: null });
+
+      expect(tx.visit.create).toHaveBeenNthCalledWith(1, { data: expect.objectContaining({ source: VisitSource.QR }) });
+      expect(tx.visit.create).toHaveBeenNthCalledWith(2, { data: expect.objectContaining({ source: VisitSource.CLICK }) });
+    });
+
+    it('should count the visit in the clicks and the total visits of the link', async () => {
+      const tx = { visit: { create: jest.fn() }, link: { update: jest.fn() } };
+      mockPrismaService.$transaction.mockImplementation((callback) => callback(tx));
+
+      await service.add('testLinkId', { hashedIp: 'testIp', ua: 'testAgent', geoLocation: null });
+
+      expect(tx.link.update).toHaveBeenCalledWith({
+        where: { id: 'testLinkId' },
+        data: { clicks: { increment: 1 }, visits: { increment: 1 } },
+      });
+    });
+
     it('should throw an error for unexpected errors', async () => {
       mockPrismaService.$transaction.mockRejectedValue(new Error('Unexpected error'));
       await expect(
-        service.add('testKey', { hashedIp: 'testIp', ua: 'testAgent', geoLocation: { country: 'United States' } as any })
+        service.add('testLinkId', { hashedIp: 'testIp', ua: 'testAgent', geoLocation: { country: 'United States' } as any })
       ).rejects.toThrow('Unexpected error');
     });
   });
 
+  describe('addRepeatedVisit', () => {
+    it('should only count the visit in the total visits of the link', async () => {
+      await service.addRepeatedVisit('testLinkId');
+
+      expect(mockPrismaService.link.update).toHaveBeenCalledWith({ where: { id: 'testLinkId' }, data: { visits: { increment: 1 } } });
+    });
+  });
+
   describe('isUniqueVisit', () => {
     it('should return true for a unique visit', async () => {
       mockPrismaService.visit.count.mockResolvedValue(0);
-      await expect(service.isUnique('testKey', 'testIp')).resolves.toBeTruthy();
+      await expect(service.isUnique('testLinkId', 'testIp')).resolves.toBeTruthy();
+      expect(mockPrismaService.visit.count).toHaveBeenCalledWith({ where: { ip: 'testIp', linkId: 'testLinkId' } });
     });
 
     it('should return false for a non-unique visit', async () => {
       mockPrismaService.visit.count.mockResolvedValue(1);
-      await expect(service.isUnique('testKey', 'testIp')).resolves.toBeFalsy();
+      await expect(service.isUnique('testLinkId', 'testIp')).resolves.toBeFalsy();
     });
   });
 });
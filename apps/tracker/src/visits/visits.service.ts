@@ -1,5 +1,5 @@
 import { Injectable } from '@nestjs/common';
-import { PrismaService } from '@reduced.to/prisma';
+import { PrismaService, VisitSource } from '@reduced.to/prisma';
 import uap from 'ua-parser-js';
 import geoip from 'geoip-lite';
 import { capitalize, setToIfUndefined } from '@reduced.to/utils';
@@ -8,8 +8,8 @@ import { capitalize, setToIfUndefined } from '@reduced.to/utils';
 export class VisitsService {
   constructor(private readonly prismaService: PrismaService) {}
 
-  async add(key: string, opts: { hashedIp: string; ua: string; geoLocation: geoip.Lookup }) {
-    const { hashedIp, ua, geoLocation } = opts;
+  async add(linkId: string, opts: { hashedIp: string; ua: string; geoLocation: geoip.Lookup; variant?: string; source?: VisitSource }) {
+    const { hashedIp, ua, geoLocation, variant, source } = opts;
 
     return this.prismaService.$transaction(async (prisma) => {
       const { browser, os, device } = await this.parseUa(ua);
@@ -25,17 +25,29 @@ export class VisitsService {
           country: setToIfUndefined(geoLocation?.country, null),
           region: setToIfUndefined(geoLocation?.region, null),
           city: setToIfUndefined(geoLocation?.city, null),
-          link: { connect: { key } },
+          variant: variant || null,
+          source: source || VisitSource.CLICK,
+          link: { connect: { id: linkId } },
         },
       });
 
       await prisma.link.update({
-        where: { key },
-        data: { clicks: { increment: 1 } },
+        where: { id: linkId },
+        data: { clicks: { increment: 1 }, visits: { increment: 1 } },
       });
     });
   }
 
+  /**
+   * Counts a repeated visit of a visitor, it is part of the total visits of the link but not of its clicks.
+   */
+  async addRepeatedVisit(linkId: string) {
+    await this.prismaService.link.update({
+      where: { id: linkId },
+      data: { visits: { increment: 1 } },
+    });
+  }
+
   async parseUa(ua: string): Promise<{ browser: string; os: string; device: string }> {
     const parsed = uap(ua);
 
@@ -49,11 +61,11 @@ export class VisitsService {
     };
   }
 
-  async isUnique(key: string, hashedIp: string): Promise<boolean> {
+  async isUnique(linkId: string, hashedIp: string): Promise<boolean> {
     const count = await this.prismaService.visit.count({
       where: {
         ip: hashedIp,
-        link: { key },
+        linkId,
       },
     });
 
@@ -0,0 +1,35 @@
+import { configFactory } from './config.factory';
+
+describe('configFactory', () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    process.env = { ...env };
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it('should require a signing secret when the storage is enabled', () => {
+    process.env.STORAGE_ENABLE = 'true';
+    delete process.env.STORAGE_SIGNING_SECRET;
+
+    expect(() => configFactory()).toThrow('STORAGE_SIGNING_SECRET must be set when the storage is enabled');
+  });
+
+  it('should use the configured signing secret', () => {
+    process.env.STORAGE_ENABLE = 'true';
+    process.env.STORAGE_SIGNING_SECRET = 'a-long-random-secret';
+
+    expect((configFactory() as any).config.storage.signingSecret).toBe('a-long-random-secret');
+  });
+
+  it('should not check the health of the links unless it is enabled', () => {
+    delete process.env.LINKS_HEALTH_CHECK_ENABLE;
+    expect((configFactory() as any).config.links.healthCheck.enable).toBe(false);
+
+    process.env.LINKS_HEALTH_CHECK_ENABLE = 'true';
+    expect((configFactory() as any).config.links.healthCheck.enable).toBe(true);
+  });
+});
@@ -2,6 +2,11 @@ import { ConfigFactory } from '@nestjs/config';
 import { LOG_LEVEL } from '@origranot/ts-logger';
 
 export const configFactory: ConfigFactory<{ config: Configuration }> = () => {
+  // Anyone knowing the secret can sign download urls of shared files, so there is no default to fall back to
+  if (process.env.STORAGE_ENABLE === 'true' && !process.env.STORAGE_SIGNING_SECRET) {
+    throw new Error('STORAGE_SIGNING_SECRET must be set when the storage is enabled');
+  }
+
   return {
     config: {
       general: {
@@ -61,6 +66,7 @@ export const configFactory: ConfigFactory<{ config: Configuration }> = () => {
           apiKey: process.env.SAFE_URL_GOOGLE_SAFE_BROWSING_API_KEY,
         },
         enable: process.env.SAFE_URL_ENABLE === 'true' || false,
+        rescanIntervalHours: +process.env.SAFE_URL_RESCAN_INTERVAL_HOURS || 24,
       },
       tracker: {
         stats: {
@@ -73,6 +79,36 @@ export const configFactory: ConfigFactory<{ config: Configuration }> = () => {
         accessKey: process.env.STORAGE_ACCESS_KEY,
         secretKey: process.env.STORAGE_SECRET_KEY,
         bucket: process.env.STORAGE_BUCKET_NAME,
+        signingSecret: process.env.STORAGE_SIGNING_SECRET,
+        signedUrlTtlSeconds: +process.env.STORAGE_SIGNED_URL_TTL_SECONDS || 300,
+      },
+      domains: {
+        resolver: process.env.DOMAINS_DNS_RESOLVER === 'stub' ? 'stub' : 'dns',
+        stubRecords: process.env.DOMAINS_DNS_STUB_RECORDS,
+      },
+      links: {
+        archiveRetentionDays: +process.env.LINKS_ARCHIVE_RETENTION_DAYS || 30,
+        healthCheck: {
+          // Opt-in, the checks send requests to the destinations of all the links
+          enable: process.env.LINKS_HEALTH_CHECK_ENABLE === 'true' || false,
+          intervalHours: +process.env.LINKS_HEALTH_CHECK_INTERVAL_HOURS || 24,
+          concurrency: +process.env.LINKS_HEALTH_CHECK_CONCURRENCY || 10,
+          timeoutMs: +process.env.LINKS_HEALTH_CHECK_TIMEOUT_MS || 10000,
+          hostDelayMs: +process.env.LINKS_HEALTH_CHECK_HOST_DELAY_MS || 1000,
+        },
+      },
+      keys: {
+        strategy: ['random', 'counter', 'pool'].includes(process.env.KEYS_STRATEGY)
+          ? (process.env.KEYS_STRATEGY as KeysStrategy)
+          : 'random',
+        alphabet: process.env.KEYS_ALPHABET || '0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ',
+        minLength: +process.env.KEYS_MIN_LENGTH || 5,
+        maxOccupancy: +process.env.KEYS_MAX_OCCUPANCY || 0.01,
+        poolSize: +process.env.KEYS_POOL_SIZE || 1000,
+        reserved: (process.env.KEYS_RESERVED || '')
+          .split(',')
+          .map((key) => key.trim())
+          .filter(Boolean),
       },
     },
   };
@@ -143,6 +179,7 @@ export interface SafeUrlConfig {
     apiKey: string;
   };
   enable: boolean;
+  rescanIntervalHours: number; // The destinations of the active links are checked again once per interval
 }
 
 export interface StorageConfig {
@@ -151,6 +188,37 @@ export interface StorageConfig {
   accessKey: string;
   secretKey: string;
   bucket: string;
+  signingSecret: string; // Signs the download urls of shared files
+  signedUrlTtlSeconds: number; // Download urls of shared files expire after this many seconds
+}
+
+export interface DomainsConfig {
+  resolver: 'dns' | 'stub';
+  stubRecords?: string; // JSON map of hostname => TXT records, used by the stub resolver
+}
+
+export interface LinkHealthCheckConfig {
+  enable: boolean;
+  intervalHours: number; // Every destination is checked once per interval
+  concurrency: number; // Number of hosts checked at the same time
+  timeoutMs: number; // Time to wait for every response of a check
+  hostDelayMs: number; // Time to wait between two requests to the same host
+}
+
+export interface LinksConfig {
+  archiveRetentionDays: number; // Archived links can be restored for this many days before they are purged
+  healthCheck: LinkHealthCheckConfig;
+}
+
+export type KeysStrategy = 'random' | 'counter' | 'pool';
+
+export interface KeysConfig {
+  strategy: KeysStrategy;
+  alphabet: string;
+  minLength: number;
+  maxOccupancy: number; // Keys grow by one character when the ratio of used keys to possible keys exceeds this value
+  poolSize: number; // Number of pre-generated keys kept in memory by the pool strategy
+  reserved: string[]; // Keys that cannot be used, on top of the frontend routes and the ones managed by admins
 }
 
 export interface PaddleConfig {
@@ -172,4 +240,7 @@ export interface Configuration {
   tracker: TrackerConfig;
   storage: StorageConfig;
   paddle: PaddleConfig;
+  domains: DomainsConfig;
+  links: LinksConfig;
+  keys: KeysConfig;
 }
@@ -0,0 +1,48 @@
+/*
+  Warnings:
+
+  - Link keys are now unique per domain. Links without a domain (the default domain) keep a partial unique index on `key`.
+
+*/
+-- DropIndex
+DROP INDEX "Link_key_key";
+
+-- AlterTable
+ALTER TABLE "Link" ADD COLUMN     "domainId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Domain" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "verified" BOOLEAN NOT NULL DEFAULT false,
+    "verificationToken" TEXT NOT NULL,
+    "verifiedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Domain_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Domain_name_key" ON "Domain"("name");
+
+-- CreateIndex
+CREATE INDEX "Domain_userId_idx" ON "Domain"("userId");
+
+-- CreateIndex
+CREATE INDEX "Domain_verified_idx" ON "Domain"("verified");
+
+-- CreateIndex
+CREATE INDEX "Link_domainId_idx" ON "Link"("domainId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Link_key_domainId_key" ON "Link"("key", "domainId");
+
+-- CreateIndex (NULLs are distinct in unique indexes, keep default domain keys unique)
+CREATE UNIQUE INDEX "Link_key_default_domain_key" ON "Link"("key") WHERE "domainId" IS NULL;
+
+-- AddForeignKey
+ALTER TABLE "Link" ADD CONSTRAINT "Link_domainId_fkey" FOREIGN KEY ("domainId") REFERENCES "Domain"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Domain" ADD CONSTRAINT "Domain_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
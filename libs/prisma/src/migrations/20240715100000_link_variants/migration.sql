@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Link" ADD COLUMN     "stickyVariants" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "variants" JSONB;
+
+-- AlterTable
+ALTER TABLE "Visit" ADD COLUMN     "variant" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Visit_variant_idx" ON "Visit"("variant");
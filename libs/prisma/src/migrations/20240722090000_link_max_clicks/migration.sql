@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Link" ADD COLUMN     "maxClicks" INTEGER,
+ADD COLUMN     "redirects" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "Link" ADD COLUMN     "activeFrom" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "ScheduledChange" (
+    "id" TEXT NOT NULL,
+    "linkId" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "scheduledAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ScheduledChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ScheduledChange_linkId_idx" ON "ScheduledChange"("linkId");
+
+-- CreateIndex
+CREATE INDEX "ScheduledChange_scheduledAt_idx" ON "ScheduledChange"("scheduledAt");
+
+-- CreateIndex
+CREATE INDEX "Link_activeFrom_idx" ON "Link"("activeFrom");
+
+-- AddForeignKey
+ALTER TABLE "ScheduledChange" ADD CONSTRAINT "ScheduledChange_linkId_fkey" FOREIGN KEY ("linkId") REFERENCES "Link"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Link" ADD COLUMN     "archivedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Link_archivedAt_idx" ON "Link"("archivedAt");
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "LinkHistory" (
+    "id" TEXT NOT NULL,
+    "linkId" TEXT NOT NULL,
+    "actorId" TEXT,
+    "url" TEXT NOT NULL,
+    "utm" JSONB,
+    "password" TEXT,
+    "expirationTime" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LinkHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LinkHistory_linkId_idx" ON "LinkHistory"("linkId");
+
+-- CreateIndex
+CREATE INDEX "LinkHistory_createdAt_idx" ON "LinkHistory"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "LinkHistory" ADD CONSTRAINT "LinkHistory_linkId_fkey" FOREIGN KEY ("linkId") REFERENCES "Link"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LinkHistory" ADD CONSTRAINT "LinkHistory_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
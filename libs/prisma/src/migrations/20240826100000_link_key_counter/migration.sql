@@ -0,0 +1,2 @@
+-- Counter used by the "counter" short key strategy
+CREATE SEQUENCE "LinkKeyCounter";
@@ -0,0 +1,16 @@
+-- CreateEnum
+CREATE TYPE "ReservedKeyMatch" AS ENUM ('EXACT', 'CONTAINS');
+
+-- CreateTable
+CREATE TABLE "ReservedKey" (
+    "id" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "match" "ReservedKeyMatch" NOT NULL DEFAULT 'EXACT',
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReservedKey_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReservedKey_value_key" ON "ReservedKey"("value");
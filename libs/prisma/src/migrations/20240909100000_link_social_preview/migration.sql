@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Link" ADD COLUMN     "ogDescription" TEXT,
+ADD COLUMN     "ogImage" TEXT,
+ADD COLUMN     "ogTitle" TEXT;
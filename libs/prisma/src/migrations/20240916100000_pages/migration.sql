@@ -0,0 +1,67 @@
+-- CreateEnum
+CREATE TYPE "PageTheme" AS ENUM ('LIGHT', 'DARK', 'OCEAN', 'SUNSET');
+
+-- CreateTable
+CREATE TABLE "Page" (
+    "id" TEXT NOT NULL,
+    "handle" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "theme" "PageTheme" NOT NULL DEFAULT 'LIGHT',
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Page_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PageItem" (
+    "id" TEXT NOT NULL,
+    "pageId" TEXT NOT NULL,
+    "linkId" TEXT NOT NULL,
+    "title" TEXT,
+    "icon" TEXT,
+    "order" INTEGER NOT NULL,
+
+    CONSTRAINT "PageItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PageView" (
+    "id" TEXT NOT NULL,
+    "pageId" TEXT NOT NULL,
+    "referrer" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PageView_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Page_handle_key" ON "Page"("handle");
+
+-- CreateIndex
+CREATE INDEX "Page_userId_idx" ON "Page"("userId");
+
+-- CreateIndex
+CREATE INDEX "PageItem_pageId_idx" ON "PageItem"("pageId");
+
+-- CreateIndex
+CREATE INDEX "PageItem_linkId_idx" ON "PageItem"("linkId");
+
+-- CreateIndex
+CREATE INDEX "PageView_pageId_idx" ON "PageView"("pageId");
+
+-- CreateIndex
+CREATE INDEX "PageView_createdAt_idx" ON "PageView"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Page" ADD CONSTRAINT "Page_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PageItem" ADD CONSTRAINT "PageItem_pageId_fkey" FOREIGN KEY ("pageId") REFERENCES "Page"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PageItem" ADD CONSTRAINT "PageItem_linkId_fkey" FOREIGN KEY ("linkId") REFERENCES "Link"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PageView" ADD CONSTRAINT "PageView_pageId_fkey" FOREIGN KEY ("pageId") REFERENCES "Page"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "ImportJobStatus" AS ENUM ('PENDING', 'PROCESSING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "ImportJob" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "status" "ImportJobStatus" NOT NULL DEFAULT 'PENDING',
+    "rows" JSONB NOT NULL,
+    "totalRows" INTEGER NOT NULL,
+    "processedRows" INTEGER NOT NULL DEFAULT 0,
+    "createdCount" INTEGER NOT NULL DEFAULT 0,
+    "failedCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ImportJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ImportJobError" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "row" INTEGER NOT NULL,
+    "url" TEXT,
+    "message" TEXT NOT NULL,
+
+    CONSTRAINT "ImportJobError_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ImportJob_userId_idx" ON "ImportJob"("userId");
+
+-- CreateIndex
+CREATE INDEX "ImportJob_status_idx" ON "ImportJob"("status");
+
+-- CreateIndex
+CREATE INDEX "ImportJobError_jobId_idx" ON "ImportJobError"("jobId");
+
+-- AddForeignKey
+ALTER TABLE "ImportJob" ADD CONSTRAINT "ImportJob_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ImportJobError" ADD CONSTRAINT "ImportJobError_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "ImportJob"("id") ON DELETE CASCADE ON UPDATE CASCADE;
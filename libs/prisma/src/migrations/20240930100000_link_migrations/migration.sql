@@ -0,0 +1,13 @@
+-- CreateEnum
+CREATE TYPE "MigrationSource" AS ENUM ('BITLY', 'REBRANDLY', 'YOURLS');
+
+-- CreateEnum
+CREATE TYPE "ImportKeyConflict" AS ENUM ('GENERATE', 'REPORT');
+
+-- AlterTable
+ALTER TABLE "ImportJob" ADD COLUMN     "onKeyConflict" "ImportKeyConflict" NOT NULL DEFAULT 'REPORT',
+ADD COLUMN     "source" "MigrationSource";
+
+-- AlterTable
+ALTER TABLE "Link" ADD COLUMN     "migratedClicks" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "migratedFrom" "MigrationSource";
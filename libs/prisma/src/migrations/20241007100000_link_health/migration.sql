@@ -0,0 +1,16 @@
+-- CreateEnum
+CREATE TYPE "LinkHealth" AS ENUM ('HEALTHY', 'BROKEN');
+
+-- AlterTable
+ALTER TABLE "Link" ADD COLUMN     "healthCheckedAt" TIMESTAMP(3),
+ADD COLUMN     "healthError" TEXT,
+ADD COLUMN     "healthLatency" INTEGER,
+ADD COLUMN     "healthRedirects" TEXT[],
+ADD COLUMN     "healthStatus" "LinkHealth",
+ADD COLUMN     "healthStatusCode" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "Link_healthStatus_idx" ON "Link"("healthStatus");
+
+-- CreateIndex
+CREATE INDEX "Link_healthCheckedAt_idx" ON "Link"("healthCheckedAt");
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Link" ADD COLUMN     "quarantinedAt" TIMESTAMP(3),
+ADD COLUMN     "safeUrlCheckedAt" TIMESTAMP(3),
+ADD COLUMN     "safeUrlReleasedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Link_quarantinedAt_idx" ON "Link"("quarantinedAt");
+
+-- CreateIndex
+CREATE INDEX "Link_safeUrlCheckedAt_idx" ON "Link"("safeUrlCheckedAt");
@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "VisitSource" AS ENUM ('CLICK', 'QR');
+
+-- AlterTable
+ALTER TABLE "Link" ADD COLUMN     "qrStyle" JSONB;
+
+-- AlterTable
+ALTER TABLE "Visit" ADD COLUMN     "source" "VisitSource" NOT NULL DEFAULT 'CLICK';
+
+-- CreateIndex
+CREATE INDEX "Visit_source_idx" ON "Visit"("source");
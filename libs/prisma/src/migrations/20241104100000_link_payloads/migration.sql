@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "LinkType" AS ENUM ('URL', 'PAYLOAD');
+
+-- AlterTable
+ALTER TABLE "Link" ADD COLUMN     "payload" JSONB,
+ADD COLUMN     "type" "LinkType" NOT NULL DEFAULT 'URL';
+
+-- AlterTable
+ALTER TABLE "LinkHistory" ADD COLUMN     "payload" JSONB;
+
+-- CreateIndex
+CREATE INDEX "Link_type_idx" ON "Link"("type");
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "LinkType" ADD VALUE 'FILE';
+
+-- AlterTable
+ALTER TABLE "Link" ADD COLUMN     "file" JSONB;
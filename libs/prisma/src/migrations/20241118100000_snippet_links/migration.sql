@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "LinkType" ADD VALUE 'SNIPPET';
+
+-- AlterTable
+ALTER TABLE "Link" ADD COLUMN     "snippet" JSONB;
+
+-- AlterTable
+ALTER TABLE "LinkHistory" ADD COLUMN     "snippet" JSONB;
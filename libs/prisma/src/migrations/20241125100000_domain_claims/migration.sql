@@ -0,0 +1,14 @@
+/*
+  Warnings:
+
+  - Unverified domains no longer block other users from adding the same hostname. Only one verified domain can use a hostname.
+
+*/
+-- DropIndex
+DROP INDEX "Domain_name_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Domain_name_userId_key" ON "Domain"("name", "userId");
+
+-- CreateIndex (a hostname can be claimed by several users, but only verified by one of them)
+CREATE UNIQUE INDEX "Domain_name_verified_key" ON "Domain"("name") WHERE "verified";
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "ImportJobRow" (
+    "jobId" TEXT NOT NULL,
+    "index" INTEGER NOT NULL,
+    "data" JSONB NOT NULL,
+
+    CONSTRAINT "ImportJobRow_pkey" PRIMARY KEY ("jobId","index")
+);
+
+-- AddForeignKey
+ALTER TABLE "ImportJobRow" ADD CONSTRAINT "ImportJobRow_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "ImportJob"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Move the rows of the unfinished jobs, the processed ones are not needed anymore
+INSERT INTO "ImportJobRow" ("jobId", "index", "data")
+SELECT "ImportJob"."id", "row"."ordinality" - 1, "row"."value"
+FROM "ImportJob", jsonb_array_elements("ImportJob"."rows") WITH ORDINALITY AS "row"("value", "ordinality")
+WHERE "ImportJob"."status" IN ('PENDING', 'PROCESSING') AND "row"."ordinality" > "ImportJob"."processedRows";
+
+-- Jobs are only PROCESSING while a batch is claimed, they wait for their next batch as PENDING
+UPDATE "ImportJob" SET "status" = 'PENDING' WHERE "status" = 'PROCESSING';
+
+-- AlterTable
+ALTER TABLE "ImportJob" DROP COLUMN "rows";
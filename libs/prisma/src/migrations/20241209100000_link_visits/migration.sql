@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Link" ADD COLUMN     "visits" INTEGER NOT NULL DEFAULT 0;
+
+-- Repeated visits were not counted so far, the unique ones are the best known total
+UPDATE "Link" SET "visits" = "clicks";
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "LinkHistory" ADD COLUMN     "passwordEnabled" BOOLEAN NOT NULL DEFAULT false;
+
+-- Only whether a version was protected is kept, the hashes of previous passwords are dropped
+UPDATE "LinkHistory" SET "passwordEnabled" = true WHERE "password" IS NOT NULL;
+
+ALTER TABLE "LinkHistory" DROP COLUMN "password";
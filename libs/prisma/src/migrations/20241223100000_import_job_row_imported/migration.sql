@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ImportJobRow" ADD COLUMN     "imported" BOOLEAN NOT NULL DEFAULT false;
@@ -3,8 +3,25 @@ interface Limit {
   enabled: boolean;
   description?: string;
   value?: number;
+  contentTypes?: string[]; // Allowed content types of uploaded files, "image/*" allows every image
 }
 
+// Content types of the files that can be shared, per group
+const DOCUMENT_TYPES = ['application/pdf', 'text/plain', 'text/csv', 'image/*'];
+const OFFICE_TYPES = [
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'application/vnd.oasis.opendocument.text',
+  'application/vnd.oasis.opendocument.spreadsheet',
+  'application/vnd.oasis.opendocument.presentation',
+  'application/vnd.apple.keynote',
+];
+const MEDIA_TYPES = ['audio/*', 'video/*', 'application/zip'];
+
 export const FEATURES = {
   LINKS_COUNT: {
     tooltip: 'Number of new links you can create each month',
@@ -28,8 +45,9 @@ export const FEATURES = {
     apiGuard: /^utm_.*$/,
   },
   QR_CODES: {
-    displayName: 'QR Code',
-    tooltip: 'Generate QR codes for your links',
+    displayName: 'Custom QR Codes',
+    tooltip: 'Style the QR codes of your links with your colors and logo, every plan can download plain QR codes',
+    apiGuard: /^(fgColor|bgColor|errorCorrection|logo)$/,
   },
   PASSWORD_PROTECTION: {
     displayName: 'Password Protection',
@@ -41,11 +59,50 @@ export const FEATURES = {
     tooltip: 'Set an expiration date for your links',
     apiGuard: 'expirationTime',
   },
+  CLICK_LIMIT: {
+    displayName: 'Click Limit',
+    tooltip: 'Expire your links after a number of clicks, like one-time links',
+    apiGuard: 'maxClicks',
+  },
+  LINK_SCHEDULING: {
+    displayName: 'Link Scheduling',
+    tooltip: 'Activate your links and change their destination at a set time',
+    apiGuard: /^(activeFrom|scheduledChanges)$/,
+  },
   CUSTOM_SHORT_KEY: {
     displayName: 'Custom Short Key',
     tooltip: 'Create custom short keys for your links',
     apiGuard: 'key',
   },
+  CUSTOM_DOMAINS: {
+    displayName: 'Custom Domains',
+    tooltip: 'Use your own branded domains for your links',
+    apiGuard: 'domain',
+  },
+  REDIRECT_RULES: {
+    displayName: 'Redirect Rules',
+    tooltip: 'Send visitors to different destinations based on their country, device, language or time',
+    apiGuard: 'rules',
+  },
+  AB_TESTING: {
+    displayName: 'A/B Testing',
+    tooltip: 'Split the traffic of your links across several destinations',
+    apiGuard: /variants/i,
+  },
+  DEEP_LINKS: {
+    displayName: 'Mobile Deep Links',
+    tooltip: 'Open your iOS and Android apps from your links, falling back to the app stores',
+    apiGuard: 'deepLinks',
+  },
+  SOCIAL_PREVIEW: {
+    displayName: 'Custom Social Previews',
+    tooltip: 'Customize the title, description and image shown when your links are shared',
+    apiGuard: /^og(Title|Description|Image)$/,
+  },
+  FILE_LINKS: {
+    displayName: 'File Sharing',
+    tooltip: 'Share files with short links and track their downloads, the size and types of the files depend on the plan',
+  },
 };
 export type FeatureKey = keyof typeof FEATURES;
 export interface Plan {
@@ -91,10 +148,24 @@ const BASE_PLAN: Plan = {
     LINK_EXPIRATION: {
       enabled: false,
     },
+    CLICK_LIMIT: { enabled: false },
+    LINK_SCHEDULING: { enabled: false },
     UTM_BUILDER: { enabled: true },
-    QR_CODES: { enabled: true },
+    QR_CODES: { enabled: false },
     PASSWORD_PROTECTION: { enabled: false },
     CUSTOM_SHORT_KEY: { enabled: false },
+    CUSTOM_DOMAINS: { enabled: false },
+    REDIRECT_RULES: { enabled: false },
+    AB_TESTING: { enabled: false },
+    DEEP_LINKS: { enabled: false },
+    SOCIAL_PREVIEW: { enabled: false },
+    FILE_LINKS: {
+      marketingText: 'Share PDFs and images up to 5MB',
+      description: '5MB, PDFs and images',
+      value: 5, // Maximum file size in MB
+      contentTypes: DOCUMENT_TYPES,
+      enabled: true,
+    },
   },
   MONTHLY_PRICE: 0,
   YEARLY_PRICE: 0,
@@ -124,10 +195,29 @@ const PRO_PLAN: Plan = {
       value: 30,
     },
     LINK_EXPIRATION: { enabled: true },
+    CLICK_LIMIT: { enabled: true },
+    LINK_SCHEDULING: { enabled: true },
     PASSWORD_PROTECTION: { enabled: true },
     UTM_BUILDER: { enabled: true },
     QR_CODES: { enabled: true },
     CUSTOM_SHORT_KEY: { enabled: true },
+    CUSTOM_DOMAINS: {
+      marketingText: '3 custom domains',
+      description: '3 domains',
+      value: 3,
+      enabled: true,
+    },
+    REDIRECT_RULES: { enabled: true },
+    AB_TESTING: { enabled: true },
+    DEEP_LINKS: { enabled: true },
+    SOCIAL_PREVIEW: { enabled: true },
+    FILE_LINKS: {
+      marketingText: 'Share files up to 50MB',
+      description: '50MB, documents and decks',
+      value: 50,
+      contentTypes: [...DOCUMENT_TYPES, ...OFFICE_TYPES],
+      enabled: true,
+    },
   },
   MONTHLY_PRICE: 9,
   YEARLY_PRICE: 90,
@@ -159,6 +249,19 @@ const BUSINESS_PLAN: Plan = {
       description: '1 year analytics',
       value: 3650,
     },
+    CUSTOM_DOMAINS: {
+      marketingText: '10 custom domains',
+      description: '10 domains',
+      value: 10,
+      enabled: true,
+    },
+    FILE_LINKS: {
+      marketingText: 'Share files up to 250MB',
+      description: '250MB, all file types',
+      value: 250,
+      contentTypes: [...DOCUMENT_TYPES, ...OFFICE_TYPES, ...MEDIA_TYPES],
+      enabled: true,
+    },
   },
   MONTHLY_PRICE: 30,
   YEARLY_PRICE: 300,
@@ -0,0 +1,34 @@
+import { findDeepLink, hasDeepLinks } from './deep-links';
+
+describe('deep-links', () => {
+  const DEEP_LINKS = {
+    ios: { appUrl: 'myapp://product/42', storeUrl: 'https://apps.apple.com/app/id123' },
+    android: { appUrl: 'myapp://product/42', storeUrl: 'https://play.google.com/store/apps/details?id=com.example' },
+  };
+
+  describe('findDeepLink', () => {
+    it('should return the app destination of the platform of the visitor', () => {
+      expect(findDeepLink(DEEP_LINKS, 'iOS')).toBe(DEEP_LINKS.ios);
+      expect(findDeepLink(DEEP_LINKS, 'Android')).toBe(DEEP_LINKS.android);
+    });
+
+    it('should return null for other platforms', () => {
+      expect(findDeepLink(DEEP_LINKS, 'Windows')).toBeNull();
+      expect(findDeepLink(DEEP_LINKS, null)).toBeNull();
+    });
+
+    it('should return null when the platform has no app destination', () => {
+      expect(findDeepLink({ ios: DEEP_LINKS.ios }, 'Android')).toBeNull();
+      expect(findDeepLink(null, 'iOS')).toBeNull();
+    });
+  });
+
+  describe('hasDeepLinks', () => {
+    it('should tell whether a platform has an app destination', () => {
+      expect(hasDeepLinks(DEEP_LINKS)).toBe(true);
+      expect(hasDeepLinks({ android: DEEP_LINKS.android })).toBe(true);
+      expect(hasDeepLinks({})).toBe(false);
+      expect(hasDeepLinks(null)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,31 @@
+export const DEEP_LINK_PLATFORMS = ['ios', 'android'] as const;
+export type DeepLinkPlatform = (typeof DEEP_LINK_PLATFORMS)[number];
+
+export interface DeepLink {
+  appUrl: string; // Custom scheme (myapp://product/42) or universal link, opens the app when it is installed
+  storeUrl: string; // App Store or Play Store page, used when the app is not installed
+}
+
+export type DeepLinks = Partial<Record<DeepLinkPlatform, DeepLink>>;
+
+// Operating systems as named by ua-parser-js, iPads are reported as iOS too
+const PLATFORM_OS: Record<DeepLinkPlatform, string> = {
+  ios: 'iOS',
+  android: 'Android',
+};
+
+/**
+ * Returns the app destination of the platform of the visitor.
+ * @param deepLinks The app destinations of the link.
+ * @param os The operating system of the visitor, e.g. iOS.
+ * @returns The app destination, or null for visitors of other platforms (e.g. desktop) who go to the url of the link.
+ */
+export const findDeepLink = (deepLinks: DeepLinks | undefined | null, os?: string | null): DeepLink | null => {
+  const platform = DEEP_LINK_PLATFORMS.find((platform) => PLATFORM_OS[platform] === os);
+  return (platform && deepLinks?.[platform]) || null;
+};
+
+/**
+ * Whether at least one platform has an app destination.
+ */
+export const hasDeepLinks = (deepLinks: DeepLinks | undefined | null) => DEEP_LINK_PLATFORMS.some((platform) => !!deepLinks?.[platform]);
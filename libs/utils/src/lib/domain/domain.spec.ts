@@ -0,0 +1,36 @@
+import { getCustomDomain, isValidHostname, normalizeHostname } from './domain';
+
+describe('normalizeHostname', () => {
+  test('lowercases and strips the port', () => {
+    expect(normalizeHostname('Go.Example.com:8080')).toBe('go.example.com');
+  });
+
+  test('returns an empty string for an empty host', () => {
+    expect(normalizeHostname(undefined)).toBe('');
+  });
+});
+
+describe('isValidHostname', () => {
+  test('accepts a valid hostname', () => {
+    expect(isValidHostname('go.example.com')).toBe(true);
+  });
+
+  test('rejects hostnames without a tld or with invalid characters', () => {
+    expect(isValidHostname('localhost')).toBe(false);
+    expect(isValidHostname('go_example.com')).toBe(false);
+    expect(isValidHostname('https://go.example.com')).toBe(false);
+  });
+});
+
+describe('getCustomDomain', () => {
+  test('returns undefined for the default domain', () => {
+    expect(getCustomDomain('reduced.to', 'reduced.to')).toBeUndefined();
+    expect(getCustomDomain('www.reduced.to', 'reduced.to')).toBeUndefined();
+    expect(getCustomDomain('localhost:5173', 'localhost')).toBeUndefined();
+    expect(getCustomDomain(undefined, 'reduced.to')).toBeUndefined();
+  });
+
+  test('returns the hostname of a custom domain', () => {
+    expect(getCustomDomain('Go.Example.com:443', 'reduced.to')).toBe('go.example.com');
+  });
+});
@@ -0,0 +1,27 @@
+const HOSTNAME_REGEX = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+export const normalizeHostname = (host?: string) => {
+  if (!host) {
+    return '';
+  }
+
+  return host.trim().toLowerCase().split(':')[0].replace(/\.$/, '');
+};
+
+export const isValidHostname = (host: string) => HOSTNAME_REGEX.test(normalizeHostname(host));
+
+/**
+ * Returns the custom domain of a request host, or undefined when the host is the default domain.
+ * @param host The host the request was made to (may include a port).
+ * @param defaultDomain The default (shared) domain of the app.
+ */
+export const getCustomDomain = (host: string | undefined, defaultDomain: string) => {
+  const hostname = normalizeHostname(host);
+  const defaultHostname = normalizeHostname(defaultDomain);
+
+  if (!hostname || hostname === defaultHostname || hostname === `www.${defaultHostname}` || hostname === 'localhost') {
+    return undefined;
+  }
+
+  return hostname;
+};
@@ -0,0 +1,41 @@
+import { describeLinkFile, formatFileSize, isAllowedContentType, sanitizeFileName } from './files';
+
+describe('files', () => {
+  describe('sanitizeFileName', () => {
+    it('should drop directories and quotes', () => {
+      expect(sanitizeFileName('C:\\Users\\jane\\"Q3" deck.pdf')).toBe('Q3 deck.pdf');
+      expect(sanitizeFileName('../../etc/passwd')).toBe('passwd');
+    });
+
+    it('should fall back to a default name', () => {
+      expect(sanitizeFileName('  ')).toBe('file');
+    });
+  });
+
+  describe('isAllowedContentType', () => {
+    it('should match exact types and wildcards', () => {
+      expect(isAllowedContentType('application/pdf', ['application/pdf'])).toBe(true);
+      expect(isAllowedContentType('image/png', ['image/*'])).toBe(true);
+      expect(isAllowedContentType('Text/Plain; charset=utf-8', ['text/plain'])).toBe(true);
+    });
+
+    it('should reject other types', () => {
+      expect(isAllowedContentType('application/zip', ['application/pdf', 'image/*'])).toBe(false);
+      expect(isAllowedContentType('imagex/png', ['image/*'])).toBe(false);
+    });
+  });
+
+  describe('formatFileSize', () => {
+    it('should use the largest unit', () => {
+      expect(formatFileSize(512)).toBe('512 B');
+      expect(formatFileSize(1536)).toBe('1.5 KB');
+      expect(formatFileSize(50 * 1024 * 1024)).toBe('50 MB');
+    });
+  });
+
+  describe('describeLinkFile', () => {
+    it('should describe the file by its name', () => {
+      expect(describeLinkFile({ name: 'deck.pdf' })).toBe('File: deck.pdf');
+    });
+  });
+});
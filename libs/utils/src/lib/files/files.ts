@@ -0,0 +1,52 @@
+// Uploaded file shared by a FILE link, visitors are redirected to a signed url of it
+export interface LinkFile {
+  path: string; // Storage path of the file
+  name: string; // Original name, used when the file is downloaded
+  size: number; // Size in bytes
+  contentType: string;
+}
+
+export const MAX_FILE_NAME_LENGTH = 255;
+
+/**
+ * Returns the name of an uploaded file without directories and control characters, so it can be used in headers.
+ * @param name The name sent by the browser.
+ */
+export const sanitizeFileName = (name: string): string => {
+  const sanitized = (name.split(/[\\/]/).pop() || '')
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u001f\u007f"]/g, '')
+    .trim();
+
+  return sanitized.slice(0, MAX_FILE_NAME_LENGTH) || 'file';
+};
+
+/**
+ * Checks the content type of a file against a list of allowed types, entries like "image/*" match every subtype.
+ */
+export const isAllowedContentType = (contentType: string, allowed: string[]): boolean => {
+  const type = contentType.split(';')[0].trim().toLowerCase();
+
+  return allowed.some((entry) => (entry.endsWith('/*') ? type.startsWith(entry.slice(0, -1)) : type === entry));
+};
+
+const FILE_SIZE_UNITS = ['B', 'KB', 'MB', 'GB'];
+
+/**
+ * Returns a readable size, e.g. 1.5 MB
+ */
+export const formatFileSize = (bytes: number): string => {
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < FILE_SIZE_UNITS.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+
+  return `${unit ? Math.round(size * 10) / 10 : size} ${FILE_SIZE_UNITS[unit]}`;
+};
+
+/**
+ * Returns a readable summary of the file, it is kept as the url of file links since their destination is signed on every visit.
+ */
+export const describeLinkFile = ({ name }: Pick<LinkFile, 'name'>): string => `File: ${name}`;
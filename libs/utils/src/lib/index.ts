@@ -1,3 +1,12 @@
 export * from './utm/utm';
 export * from './promise/promise';
 export * from './helpers/helpers';
+export * from './domain/domain';
+export * from './rules/rules';
+export * from './variants/variants';
+export * from './deep-links/deep-links';
+export * from './qr/qr';
+export * from './qr-payloads/qr-payloads';
+export * from './files/files';
+export * from './snippets/snippets';
+export * from './keys/keys';
@@ -0,0 +1,86 @@
+import { readdirSync } from 'fs';
+import { join } from 'path';
+import { LINK_KEY_REGEX, LINK_PREVIEW_SUFFIX, RESERVED_ROUTE_KEYS, findReservedKey, isReservedKey } from './keys';
+
+describe('RESERVED_ROUTE_KEYS', () => {
+  test('contains every top level route and public file of the frontend', () => {
+    const frontend = join(__dirname, '../../../../../apps/frontend');
+    const routes = readdirSync(join(frontend, 'src/routes'), { withFileTypes: true })
+      .filter((entry) => entry.isDirectory() && !entry.name.startsWith('['))
+      .map((entry) => entry.name);
+    const publicFiles = readdirSync(join(frontend, 'public'));
+
+    expect(RESERVED_ROUTE_KEYS).toEqual(expect.arrayContaining([...routes, ...publicFiles]));
+  });
+
+  test('only contains lowercase segments, so they can be compared to the first segment of the keys', () => {
+    expect(RESERVED_ROUTE_KEYS.filter((value) => value !== value.toLowerCase() || value.includes('/'))).toEqual([]);
+  });
+});
+
+describe('isReservedKey', () => {
+  test('rejects frontend routes regardless of the case', () => {
+    expect(isReservedKey('dashboard')).toBe(true);
+    expect(isReservedKey('Login')).toBe(true);
+  });
+
+  test('does not reject keys that only start with a route', () => {
+    expect(isReservedKey('dashboard-tips')).toBe(false);
+  });
+
+  test('rejects keys whose first segment is a route', () => {
+    expect(isReservedKey('api/v1')).toBe(true);
+    expect(isReservedKey('P/my-page')).toBe(true);
+    expect(isReservedKey('dashboard/')).toBe(true);
+    expect(isReservedKey('blog/api')).toBe(false);
+  });
+
+  test('rejects keys containing blocked terms, ignoring separators', () => {
+    expect(isReservedKey('PayPal-Verify')).toBe(true);
+    expect(isReservedKey('pay-pal')).toBe(true);
+    expect(isReservedKey('my_google_docs')).toBe(true);
+  });
+
+  test('accepts regular keys', () => {
+    expect(isReservedKey('summer-sale')).toBe(false);
+    expect(isReservedKey('aB3dE')).toBe(false);
+  });
+
+  test('checks the extra entries', () => {
+    const entries = [
+      { value: 'promo', match: 'EXACT' as const },
+      { value: 'acme', match: 'CONTAINS' as const },
+    ];
+
+    expect(isReservedKey('promo', entries)).toBe(true);
+    expect(isReservedKey('promo-2024', entries)).toBe(false);
+    expect(isReservedKey('acme-login', entries)).toBe(true);
+  });
+
+  test('ignores empty entries', () => {
+    expect(isReservedKey('summer-sale', [{ value: '-', match: 'CONTAINS' }])).toBe(false);
+  });
+});
+
+describe('findReservedKey', () => {
+  test('returns the matching entry', () => {
+    expect(findReservedKey('netflix-login')).toEqual({ value: 'netflix', match: 'CONTAINS' });
+    expect(findReservedKey('summer-sale')).toBeUndefined();
+    expect(findReservedKey('login/help')).toEqual({ value: 'login', match: 'EXACT' });
+  });
+});
+
+describe('LINK_KEY_REGEX', () => {
+  test('accepts letters, numbers, dashes and underscores', () => {
+    expect(LINK_KEY_REGEX.test('Summer_sale-2024')).toBe(true);
+  });
+
+  test('rejects the separators of cache keys and paths', () => {
+    expect(LINK_KEY_REGEX.test('domain:x.io:abcd')).toBe(false);
+    expect(LINK_KEY_REGEX.test('api/v1')).toBe(false);
+  });
+
+  test('rejects keys ending with the preview suffix, the link could never redirect', () => {
+    expect(LINK_KEY_REGEX.test(`promo${LINK_PREVIEW_SUFFIX}`)).toBe(false);
+  });
+});
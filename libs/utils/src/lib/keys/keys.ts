@@ -0,0 +1,106 @@
+export type ReservedKeyMatch = 'EXACT' | 'CONTAINS';
+
+export interface ReservedKeyEntry {
+  value: string;
+  match: ReservedKeyMatch;
+}
+
+// Characters of custom keys, the separators of cache keys and paths (e.g. ":" and "/") cannot be used
+export const LINK_KEY_REGEX = /^[a-zA-Z0-9_-]+$/;
+
+// Appended to a key to show the preview of the link instead of redirecting, so no key can end with it
+export const LINK_PREVIEW_SUFFIX = '+';
+
+/**
+ * Top level routes and static files of the frontend, a link with one of these keys would be shadowed by the page.
+ * Keep it in sync with apps/frontend/src/routes and apps/frontend/public.
+ */
+export const RESERVED_ROUTE_KEYS = [
+  'api',
+  'assets',
+  'build',
+  'dashboard',
+  'favicon.png',
+  'features',
+  'images',
+  'login',
+  'logo.png',
+  'logo.svg',
+  'logout',
+  'manifest.json',
+  'p',
+  'password',
+  'pricing',
+  'privacy-policy',
+  'q-manifest.json',
+  'quarantined',
+  'register',
+  'report',
+  'robots.txt',
+  'service-worker.js',
+  'sitemap.xml',
+  'terms',
+  'unknown',
+];
+
+/**
+ * Keys containing one of these terms are rejected, they are used by abusive links or to impersonate well known brands.
+ */
+export const BLOCKED_KEY_TERMS = [
+  // Profanity
+  'fuck',
+  'shit',
+  'cunt',
+  'bitch',
+  'whore',
+  'porn',
+  'nazi',
+  // Brand impersonation
+  'reducedto',
+  'paypal',
+  'appleid',
+  'icloud',
+  'google',
+  'gmail',
+  'microsoft',
+  'office365',
+  'outlook',
+  'amazon',
+  'netflix',
+  'facebook',
+  'instagram',
+  'whatsapp',
+  'coinbase',
+  'binance',
+  'metamask',
+];
+
+export const DEFAULT_RESERVED_KEYS: ReservedKeyEntry[] = [
+  ...RESERVED_ROUTE_KEYS.map((value) => ({ value, match: 'EXACT' as const })),
+  ...BLOCKED_KEY_TERMS.map((value) => ({ value, match: 'CONTAINS' as const })),
+];
+
+// Separators are ignored when looking for blocked terms, so "pay-pal" is caught as well
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[-_.]/g, '');
+
+/**
+ * Returns the entry that blocks the given key, undefined if the key can be used.
+ * Keys are compared case insensitively, the default entries are always checked.
+ * The first segment of keys with slashes is checked against the routes as well, e.g. "api/x" is handled by the api.
+ */
+export const findReservedKey = (key: string, entries: ReservedKeyEntry[] = []): ReservedKeyEntry | undefined => {
+  const lowerKey = key.toLowerCase();
+  const normalizedKey = normalizeKey(key);
+
+  const [segment] = lowerKey.split('/');
+  const route = RESERVED_ROUTE_KEYS.find((value) => value === segment);
+  if (route) {
+    return { value: route, match: 'EXACT' };
+  }
+
+  return [...DEFAULT_RESERVED_KEYS, ...entries].find(({ value, match }) =>
+    match === 'EXACT' ? value.toLowerCase() === lowerKey : !!normalizeKey(value) && normalizedKey.includes(normalizeKey(value))
+  );
+};
+
+export const isReservedKey = (key: string, entries: ReservedKeyEntry[] = []) => !!findReservedKey(key, entries);
@@ -0,0 +1,69 @@
+import { describeQrPayload, getQrPayloadUri, sanitizeQrPayload, toVCard, toWifiConfig } from './qr-payloads';
+
+describe('qr-payloads', () => {
+  describe('sanitizeQrPayload', () => {
+    it('should keep the fields of the type of the payload', () => {
+      expect(sanitizeQrPayload({ type: 'sms', phone: '+1 555 0100', message: '', text: 'Hello' } as never)).toEqual({
+        type: 'sms',
+        phone: '+1 555 0100',
+      });
+    });
+  });
+
+  describe('toVCard', () => {
+    it('should create a vCard with the fields of the contact', () => {
+      expect(toVCard({ type: 'vcard', firstName: 'Jane', lastName: 'Doe', organization: 'Acme, Inc.', phone: '+1 555 0100' })).toBe(
+        ['BEGIN:VCARD', 'VERSION:3.0', 'N:Doe;Jane;;;', 'FN:Jane Doe', 'ORG:Acme\\, Inc.', 'TEL;TYPE=CELL:+1 555 0100', 'END:VCARD'].join(
+          '\r\n'
+        )
+      );
+    });
+
+    it('should escape new lines', () => {
+      expect(toVCard({ type: 'vcard', firstName: 'Jane', note: 'First line\nSecond; line' })).toContain('NOTE:First line\\nSecond\\; line');
+    });
+  });
+
+  describe('toWifiConfig', () => {
+    it('should create the configuration of the network', () => {
+      expect(toWifiConfig({ type: 'wifi', ssid: 'Venue;Guest', password: 'p:ss', encryption: 'WPA', hidden: true })).toBe(
+        'WIFI:T:WPA;S:Venue\\;Guest;P:p\\:ss;H:true;;'
+      );
+    });
+
+    it('should not include a password for open networks', () => {
+      expect(toWifiConfig({ type: 'wifi', ssid: 'Venue', password: 'ignored', encryption: 'nopass' })).toBe('WIFI:T:nopass;S:Venue;;');
+    });
+  });
+
+  describe('getQrPayloadUri', () => {
+    it('should return the uri of the app of the payload', () => {
+      expect(getQrPayloadUri({ type: 'sms', phone: '+1 (555) 0100', message: 'Hi there' })).toBe('sms:+15550100?body=Hi%20there');
+      expect(getQrPayloadUri({ type: 'email', email: 'jane@example.com', subject: 'Hello', body: 'A & B' })).toBe(
+        'mailto:jane@example.com?subject=Hello&body=A%20%26%20B'
+      );
+      expect(getQrPayloadUri({ type: 'geo', latitude: 32.08, longitude: 34.78 })).toBe('geo:32.08,34.78');
+      expect(getQrPayloadUri({ type: 'geo', latitude: 32.08, longitude: 34.78, label: 'Hall A' })).toBe(
+        'geo:32.08,34.78?q=32.08,34.78(Hall%20A)'
+      );
+    });
+
+    it('should return null for payloads without an app', () => {
+      expect(getQrPayloadUri({ type: 'text', text: 'Hello' })).toBeNull();
+    });
+  });
+
+  describe('describeQrPayload', () => {
+    it('should describe the payload without its secrets', () => {
+      expect(describeQrPayload({ type: 'vcard', firstName: 'Jane', lastName: 'Doe' })).toBe('Contact: Jane Doe');
+      expect(describeQrPayload({ type: 'wifi', ssid: 'Venue', password: 'secret', encryption: 'WPA' })).toBe('Wi-Fi: Venue');
+    });
+
+    it('should truncate long payloads', () => {
+      const summary = describeQrPayload({ type: 'text', text: 'a'.repeat(500) });
+
+      expect(summary).toHaveLength(100);
+      expect(summary.endsWith('...')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,173 @@
+export const QR_PAYLOAD_TYPES = ['vcard', 'wifi', 'sms', 'email', 'geo', 'text'] as const;
+export type QrPayloadType = (typeof QR_PAYLOAD_TYPES)[number];
+
+export const WIFI_ENCRYPTIONS = ['WPA', 'WEP', 'nopass'] as const;
+export type WifiEncryption = (typeof WIFI_ENCRYPTIONS)[number];
+
+export interface VCardPayload {
+  type: 'vcard';
+  firstName: string;
+  lastName?: string;
+  organization?: string;
+  title?: string;
+  phone?: string;
+  email?: string;
+  website?: string;
+  address?: string;
+  note?: string;
+}
+
+export interface WifiPayload {
+  type: 'wifi';
+  ssid: string;
+  password?: string; // Not used by open networks
+  encryption: WifiEncryption;
+  hidden?: boolean;
+}
+
+export interface SmsPayload {
+  type: 'sms';
+  phone: string;
+  message?: string;
+}
+
+export interface EmailPayload {
+  type: 'email';
+  email: string;
+  subject?: string;
+  body?: string;
+}
+
+export interface GeoPayload {
+  type: 'geo';
+  latitude: number;
+  longitude: number;
+  label?: string;
+}
+
+export interface TextPayload {
+  type: 'text';
+  text: string;
+}
+
+// Content delivered by the landing page of a payload link instead of a redirect
+export type QrPayload = VCardPayload | WifiPayload | SmsPayload | EmailPayload | GeoPayload | TextPayload;
+
+// Fields of every payload type, other fields are dropped before the payload is stored
+export const QR_PAYLOAD_FIELDS: { [T in QrPayloadType]: (keyof Extract<QrPayload, { type: T }>)[] } = {
+  vcard: ['type', 'firstName', 'lastName', 'organization', 'title', 'phone', 'email', 'website', 'address', 'note'],
+  wifi: ['type', 'ssid', 'password', 'encryption', 'hidden'],
+  sms: ['type', 'phone', 'message'],
+  email: ['type', 'email', 'subject', 'body'],
+  geo: ['type', 'latitude', 'longitude', 'label'],
+  text: ['type', 'text'],
+};
+
+/**
+ * Keeps the fields of the type of the payload, empty values are dropped.
+ * @param payload The payload, possibly with fields of other types.
+ */
+export const sanitizeQrPayload = (payload: QrPayload): QrPayload =>
+  Object.fromEntries(
+    (QR_PAYLOAD_FIELDS[payload.type] as string[])
+      .map((field) => [field, (payload as unknown as Record<string, unknown>)[field]])
+      .filter(([, value]) => value !== undefined && value !== null && value !== '')
+  ) as unknown as QrPayload;
+
+const escapeVCardValue = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/\r?\n/g, '\\n')
+    .replace(/([,;])/g, '\\$1');
+
+/**
+ * Returns the vCard 3.0 document of a contact, served as a .vcf file.
+ */
+export const toVCard = ({ firstName, lastName, organization, title, phone, email, website, address, note }: VCardPayload): string => {
+  const lines = [
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    `N:${escapeVCardValue(lastName || '')};${escapeVCardValue(firstName)};;;`,
+    `FN:${escapeVCardValue([firstName, lastName].filter(Boolean).join(' '))}`,
+    organization && `ORG:${escapeVCardValue(organization)}`,
+    title && `TITLE:${escapeVCardValue(title)}`,
+    phone && `TEL;TYPE=CELL:${escapeVCardValue(phone)}`,
+    email && `EMAIL:${escapeVCardValue(email)}`,
+    website && `URL:${escapeVCardValue(website)}`,
+    address && `ADR:;;${escapeVCardValue(address)};;;;`,
+    note && `NOTE:${escapeVCardValue(note)}`,
+    'END:VCARD',
+  ];
+
+  return lines.filter(Boolean).join('\r\n');
+};
+
+const escapeWifiValue = (value: string) => value.replace(/([\\;,:"])/g, '\\$1');
+
+/**
+ * Returns the Wi-Fi network configuration understood by the camera apps of phones, e.g. WIFI:T:WPA;S:Venue;P:secret;;
+ */
+export const toWifiConfig = ({ ssid, password, encryption, hidden }: WifiPayload): string =>
+  [
+    'WIFI:',
+    `T:${encryption};`,
+    `S:${escapeWifiValue(ssid)};`,
+    encryption !== 'nopass' && password ? `P:${escapeWifiValue(password)};` : '',
+    hidden ? 'H:true;' : '',
+    ';',
+  ].join('');
+
+/**
+ * Returns the uri that opens the app of the payload (messages, mail or maps), null for payloads without one.
+ */
+export const getQrPayloadUri = (payload: QrPayload): string | null => {
+  switch (payload.type) {
+    case 'sms':
+      return `sms:${payload.phone.replace(/[^\d+]/g, '')}${payload.message ? `?body=${encodeURIComponent(payload.message)}` : ''}`;
+    case 'email': {
+      const params = [
+        payload.subject && `subject=${encodeURIComponent(payload.subject)}`,
+        payload.body && `body=${encodeURIComponent(payload.body)}`,
+      ].filter(Boolean);
+      return `mailto:${payload.email}${params.length ? `?${params.join('&')}` : ''}`;
+    }
+    case 'geo':
+      return `geo:${payload.latitude},${payload.longitude}${
+        payload.label ? `?q=${payload.latitude},${payload.longitude}(${encodeURIComponent(payload.label)})` : ''
+      }`;
+    default:
+      return null;
+  }
+};
+
+const MAX_SUMMARY_LENGTH = 100;
+
+/**
+ * Returns a readable summary of the payload, it is kept as the url of payload links since they do not redirect.
+ * Secrets such as the password of a Wi-Fi network are never part of it.
+ */
+export const describeQrPayload = (payload: QrPayload): string => {
+  let summary: string;
+  switch (payload.type) {
+    case 'vcard':
+      summary = `Contact: ${[payload.firstName, payload.lastName].filter(Boolean).join(' ')}`;
+      break;
+    case 'wifi':
+      summary = `Wi-Fi: ${payload.ssid}`;
+      break;
+    case 'sms':
+      summary = `SMS: ${payload.phone}`;
+      break;
+    case 'email':
+      summary = `Email: ${payload.email}`;
+      break;
+    case 'geo':
+      summary = `Location: ${payload.label || `${payload.latitude}, ${payload.longitude}`}`;
+      break;
+    case 'text':
+      summary = `Text: ${payload.text.replace(/\s+/g, ' ').trim()}`;
+      break;
+  }
+
+  return summary.length > MAX_SUMMARY_LENGTH ? `${summary.slice(0, MAX_SUMMARY_LENGTH - 3)}...` : summary;
+};
@@ -0,0 +1,9 @@
+import { getQrCodeUrl } from './qr';
+
+describe('qr', () => {
+  describe('getQrCodeUrl', () => {
+    it('should mark the short link as a scan', () => {
+      expect(getQrCodeUrl('https://reduced.to/promo')).toBe('https://reduced.to/promo?qr=1');
+    });
+  });
+});
@@ -0,0 +1,26 @@
+export const QR_ERROR_CORRECTION_LEVELS = ['L', 'M', 'Q', 'H'] as const;
+export type QrErrorCorrectionLevel = (typeof QR_ERROR_CORRECTION_LEVELS)[number];
+
+export interface QrStyle {
+  fgColor?: string; // Hex color of the modules, e.g. #000000
+  bgColor?: string; // Hex color of the background
+  errorCorrection?: QrErrorCorrectionLevel;
+  margin?: number; // Quiet zone around the code, in modules
+  logo?: string; // Storage path of the logo shown in the center of the code
+}
+
+export const DEFAULT_QR_STYLE: Required<Omit<QrStyle, 'logo'>> = {
+  fgColor: '#000000',
+  bgColor: '#ffffff',
+  errorCorrection: 'M',
+  margin: 2,
+};
+
+// Query parameter of the short links encoded in QR codes, visits with it are counted as scans instead of clicks
+export const QR_SCAN_PARAM = 'qr';
+
+/**
+ * Returns the url encoded in the QR code of a short link, marked so its scans can be told apart from clicks.
+ * @param shortUrl The short link, e.g. https://reduced.to/promo
+ */
+export const getQrCodeUrl = (shortUrl: string) => `${shortUrl}?${QR_SCAN_PARAM}=1`;
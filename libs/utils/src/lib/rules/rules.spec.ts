@@ -0,0 +1,81 @@
+import { getPrimaryLanguage, matchesRule, resolveRedirectUrl, RedirectContext, RedirectRule } from './rules';
+
+// Wednesday 2024-07-03 10:30 UTC
+const DATE = new Date('2024-07-03T10:30:00Z');
+const CONTEXT: RedirectContext = { country: 'IL', device: 'Mobile', os: 'iOS', language: 'he-il', date: DATE };
+
+describe('getPrimaryLanguage', () => {
+  test('returns the language with the highest quality', () => {
+    expect(getPrimaryLanguage('en;q=0.8,he-IL,he;q=0.9')).toBe('he-il');
+  });
+
+  test('returns null for an empty or wildcard header', () => {
+    expect(getPrimaryLanguage(undefined)).toBeNull();
+    expect(getPrimaryLanguage('*')).toBeNull();
+  });
+});
+
+describe('matchesRule', () => {
+  test('matches a rule without conditions', () => {
+    expect(matchesRule({ url: 'https://a.com' }, CONTEXT)).toBe(true);
+  });
+
+  test('matches countries, devices and os ignoring case', () => {
+    expect(matchesRule({ url: 'https://a.com', countries: ['il', 'US'], devices: ['Mobile'], os: ['ios'] }, CONTEXT)).toBe(true);
+    expect(matchesRule({ url: 'https://a.com', countries: ['US'] }, CONTEXT)).toBe(false);
+    expect(matchesRule({ url: 'https://a.com', devices: ['Desktop'] }, CONTEXT)).toBe(false);
+    expect(matchesRule({ url: 'https://a.com', os: ['Android'] }, CONTEXT)).toBe(false);
+  });
+
+  test('does not match a condition when the context value is unknown', () => {
+    expect(matchesRule({ url: 'https://a.com', countries: ['IL'] }, { ...CONTEXT, country: null })).toBe(false);
+  });
+
+  test('matches a language and its regional variants', () => {
+    expect(matchesRule({ url: 'https://a.com', languages: ['he'] }, CONTEXT)).toBe(true);
+    expect(matchesRule({ url: 'https://a.com', languages: ['he-IL'] }, CONTEXT)).toBe(true);
+    expect(matchesRule({ url: 'https://a.com', languages: ['h'] }, CONTEXT)).toBe(false);
+    expect(matchesRule({ url: 'https://a.com', languages: ['en'] }, CONTEXT)).toBe(false);
+  });
+
+  test('matches time windows in the given timezone', () => {
+    expect(matchesRule({ url: 'https://a.com', timeWindow: { start: '09:00', end: '17:00' } }, CONTEXT)).toBe(true);
+    expect(matchesRule({ url: 'https://a.com', timeWindow: { start: '11:00', end: '17:00' } }, CONTEXT)).toBe(false);
+    // 13:30 in Jerusalem (UTC+3 in the summer)
+    expect(matchesRule({ url: 'https://a.com', timeWindow: { start: '13:00', end: '14:00', timezone: 'Asia/Jerusalem' } }, CONTEXT)).toBe(
+      true
+    );
+  });
+
+  test('matches time windows that span midnight', () => {
+    const rule: RedirectRule = { url: 'https://a.com', timeWindow: { start: '22:00', end: '06:00', days: [2] } };
+
+    // Tuesday 23:00 and Wednesday 02:00 both belong to the Tuesday night window
+    expect(matchesRule(rule, { ...CONTEXT, date: new Date('2024-07-02T23:00:00Z') })).toBe(true);
+    expect(matchesRule(rule, { ...CONTEXT, date: new Date('2024-07-03T02:00:00Z') })).toBe(true);
+    expect(matchesRule(rule, { ...CONTEXT, date: new Date('2024-07-03T23:00:00Z') })).toBe(false);
+    expect(matchesRule(rule, CONTEXT)).toBe(false);
+  });
+
+  test('matches days of the week', () => {
+    expect(matchesRule({ url: 'https://a.com', timeWindow: { start: '00:00', end: '23:59', days: [3] } }, CONTEXT)).toBe(true);
+    expect(matchesRule({ url: 'https://a.com', timeWindow: { start: '00:00', end: '23:59', days: [0, 6] } }, CONTEXT)).toBe(false);
+  });
+});
+
+describe('resolveRedirectUrl', () => {
+  const RULES: RedirectRule[] = [
+    { url: 'https://us.com', countries: ['US'] },
+    { url: 'https://mobile.com', devices: ['Mobile'] },
+    { url: 'https://hebrew.com', languages: ['he'] },
+  ];
+
+  test('returns the url of the first matching rule', () => {
+    expect(resolveRedirectUrl('https://default.com', RULES, CONTEXT)).toBe('https://mobile.com');
+  });
+
+  test('returns the fallback url when no rule matches', () => {
+    expect(resolveRedirectUrl('https://default.com', RULES, { date: DATE })).toBe('https://default.com');
+    expect(resolveRedirectUrl('https://default.com', undefined, CONTEXT)).toBe('https://default.com');
+  });
+});
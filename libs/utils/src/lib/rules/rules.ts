@@ -0,0 +1,141 @@
+export const RULE_DEVICES = ['Desktop', 'Mobile'] as const;
+export type RuleDevice = (typeof RULE_DEVICES)[number];
+
+export interface RuleTimeWindow {
+  start: string; // HH:mm
+  end: string; // HH:mm, may be before start to span midnight
+  timezone?: string; // IANA timezone, defaults to UTC
+  days?: number[]; // 0 (Sunday) - 6 (Saturday), every day when empty
+}
+
+export interface RedirectRule {
+  url: string;
+  countries?: string[]; // ISO 3166-1 alpha-2 codes
+  devices?: RuleDevice[];
+  os?: string[];
+  languages?: string[]; // e.g. en, he, pt-br
+  timeWindow?: RuleTimeWindow;
+}
+
+export interface RedirectContext {
+  country?: string | null;
+  device?: string | null;
+  os?: string | null;
+  language?: string | null;
+  date: Date;
+}
+
+// Times of the rules are in HH:mm format, 24 hours
+export const RULE_TIME_REGEX = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export const isValidRuleTime = (time: string) => RULE_TIME_REGEX.test(time);
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':');
+  return +hours * 60 + +minutes;
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const getZonedTime = (date: Date, timezone = 'UTC') => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    hour: '2-digit',
+    minute: '2-digit',
+    weekday: 'short',
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find((part) => part.type === type)?.value || '';
+  return {
+    day: WEEKDAYS.indexOf(get('weekday')),
+    minutes: +get('hour') * 60 + +get('minute'),
+  };
+};
+
+/**
+ * Returns the primary (highest quality) language of an Accept-Language header, e.g. "he-IL,he;q=0.9,en;q=0.8" => "he-il"
+ */
+export const getPrimaryLanguage = (acceptLanguage?: string) => {
+  if (!acceptLanguage) {
+    return null;
+  }
+
+  const [primary] = acceptLanguage
+    .split(',')
+    .map((part) => {
+      const [language, quality] = part.trim().split(';q=');
+      return { language: language.toLowerCase(), quality: quality === undefined ? 1 : +quality };
+    })
+    .filter(({ language, quality }) => language && language !== '*' && !isNaN(quality))
+    .sort((a, b) => b.quality - a.quality);
+
+  return primary?.language ?? null;
+};
+
+const includesIgnoreCase = (values: string[], value?: string | null) =>
+  !!value && values.some((v) => v.toLowerCase() === value.toLowerCase());
+
+const matchesLanguage = (languages: string[], language?: string | null) =>
+  !!language && languages.some((l) => language === l.toLowerCase() || language.startsWith(`${l.toLowerCase()}-`));
+
+const matchesTimeWindow = ({ start, end, timezone, days }: RuleTimeWindow, date: Date) => {
+  const { day, minutes } = getZonedTime(date, timezone);
+  const startMinutes = toMinutes(start);
+  const endMinutes = toMinutes(end);
+
+  // A window that spans midnight belongs to the day it started on
+  const spansMidnight = startMinutes > endMinutes;
+  const inWindow = spansMidnight ? minutes >= startMinutes || minutes < endMinutes : minutes >= startMinutes && minutes < endMinutes;
+  if (!inWindow) {
+    return false;
+  }
+
+  if (!days?.length) {
+    return true;
+  }
+
+  const windowDay = spansMidnight && minutes < endMinutes ? (day + 6) % 7 : day;
+  return days.includes(windowDay);
+};
+
+/**
+ * Checks if a rule matches the context, every condition that is set on the rule has to match.
+ */
+export const matchesRule = (rule: RedirectRule, context: RedirectContext) => {
+  if (rule.countries?.length && !includesIgnoreCase(rule.countries, context.country)) {
+    return false;
+  }
+
+  if (rule.devices?.length && !includesIgnoreCase(rule.devices, context.device)) {
+    return false;
+  }
+
+  if (rule.os?.length && !includesIgnoreCase(rule.os, context.os)) {
+    return false;
+  }
+
+  if (rule.languages?.length && !matchesLanguage(rule.languages, context.language)) {
+    return false;
+  }
+
+  if (rule.timeWindow && !matchesTimeWindow(rule.timeWindow, context.date)) {
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * Returns the first rule that matches the context, rules are ordered by priority.
+ */
+export const findMatchingRule = (rules: RedirectRule[] | undefined | null, context: RedirectContext) =>
+  (rules || []).find((rule) => matchesRule(rule, context)) || null;
+
+/**
+ * Returns the url of the first matching rule, or the fallback url when no rule matches.
+ */
+export const resolveRedirectUrl = (fallbackUrl: string, rules: RedirectRule[] | undefined | null, context: RedirectContext) => {
+  const rule = findMatchingRule(rules, context);
+  return rule ? rule.url : fallbackUrl;
+};
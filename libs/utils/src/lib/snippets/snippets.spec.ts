@@ -0,0 +1,23 @@
+import { describeLinkSnippet } from './snippets';
+
+describe('snippets', () => {
+  describe('describeLinkSnippet', () => {
+    it('should use the first line with text', () => {
+      expect(describeLinkSnippet({ content: '\n  server:\n    port: 3000', language: 'yaml' })).toBe('Snippet: server:');
+    });
+
+    it('should drop the heading marks of markdown snippets', () => {
+      expect(describeLinkSnippet({ content: '## Release notes\n\n- Faster redirects', language: 'markdown' })).toBe(
+        'Snippet: Release notes'
+      );
+      expect(describeLinkSnippet({ content: '# not a heading', language: 'bash' })).toBe('Snippet: # not a heading');
+    });
+
+    it('should truncate long lines', () => {
+      const summary = describeLinkSnippet({ content: 'a'.repeat(200), language: 'text' });
+
+      expect(summary).toHaveLength(100);
+      expect(summary.endsWith('...')).toBe(true);
+    });
+  });
+});
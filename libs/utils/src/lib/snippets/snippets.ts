@@ -0,0 +1,47 @@
+// Languages snippets can be highlighted as, text snippets are shown as they are
+export const SNIPPET_LANGUAGES = [
+  'text',
+  'markdown',
+  'json',
+  'yaml',
+  'bash',
+  'javascript',
+  'typescript',
+  'python',
+  'sql',
+  'html',
+  'css',
+  'go',
+  'diff',
+] as const;
+export type SnippetLanguage = (typeof SNIPPET_LANGUAGES)[number];
+
+// Text served by the page of a SNIPPET link, e.g. a config snippet or release notes
+export interface LinkSnippet {
+  content: string;
+  language: SnippetLanguage;
+}
+
+export const MAX_SNIPPET_LENGTH = 100000;
+
+/**
+ * Keeps the fields of the snippet, other fields are dropped before the snippet is stored.
+ */
+export const sanitizeLinkSnippet = ({ content, language }: LinkSnippet): LinkSnippet => ({ content, language });
+
+const MAX_SUMMARY_LENGTH = 100;
+
+/**
+ * Returns a readable summary of the snippet, it is kept as the url of snippet links since they do not redirect.
+ * The first line with text is used, without the heading marks of markdown snippets.
+ */
+export const describeLinkSnippet = ({ content, language }: LinkSnippet): string => {
+  const line = content
+    .split('\n')
+    .map((value) => value.trim())
+    .find(Boolean);
+  const title = (language === 'markdown' ? line?.replace(/^#+\s*/, '') : line) || '';
+
+  const summary = `Snippet: ${title}`.trim();
+  return summary.length > MAX_SUMMARY_LENGTH ? `${summary.slice(0, MAX_SUMMARY_LENGTH - 3)}...` : summary;
+};
@@ -0,0 +1,59 @@
+import { getVariantShares, pickVariant } from './variants';
+
+describe('variants', () => {
+  const VARIANTS = [
+    { url: 'https://example.com/a', weight: 70 },
+    { url: 'https://example.com/b', weight: 20 },
+    { url: 'https://example.com/c', weight: 10 },
+  ];
+
+  describe('pickVariant', () => {
+    it('should pick the variant by its weight', () => {
+      expect(pickVariant(VARIANTS, 0).url).toBe('https://example.com/a');
+      expect(pickVariant(VARIANTS, 0.69).url).toBe('https://example.com/a');
+      expect(pickVariant(VARIANTS, 0.7).url).toBe('https://example.com/b');
+      expect(pickVariant(VARIANTS, 0.89).url).toBe('https://example.com/b');
+      expect(pickVariant(VARIANTS, 0.9).url).toBe('https://example.com/c');
+      expect(pickVariant(VARIANTS, 0.9999).url).toBe('https://example.com/c');
+    });
+
+    it('should skip variants without weight', () => {
+      const variants = [{ url: 'https://example.com/a', weight: 0 }, ...VARIANTS.slice(1)];
+      expect(pickVariant(variants, 0).url).toBe('https://example.com/b');
+    });
+
+    it('should split the traffic according to the weights', () => {
+      const counts: Record<string, number> = {};
+      for (let i = 0; i < 1000; i++) {
+        const { url } = pickVariant(VARIANTS, i / 1000);
+        counts[url] = (counts[url] || 0) + 1;
+      }
+
+      expect(counts).toStrictEqual({ 'https://example.com/a': 700, 'https://example.com/b': 200, 'https://example.com/c': 100 });
+    });
+
+    it('should return null when there are no variants', () => {
+      expect(pickVariant([], 0.5)).toBeNull();
+      expect(pickVariant(undefined, 0.5)).toBeNull();
+      expect(pickVariant([{ url: 'https://example.com/a', weight: 0 }], 0.5)).toBeNull();
+    });
+  });
+
+  describe('getVariantShares', () => {
+    it('should return the share of each variant', () => {
+      expect(getVariantShares([VARIANTS[0], { url: 'https://example.com/b', weight: 30 }])).toStrictEqual([
+        { url: 'https://example.com/a', share: 70 },
+        { url: 'https://example.com/b', share: 30 },
+      ]);
+      expect(
+        getVariantShares([
+          { url: 'https://example.com/a', weight: 1 },
+          { url: 'https://example.com/b', weight: 2 },
+        ])
+      ).toStrictEqual([
+        { url: 'https://example.com/a', share: 33.3 },
+        { url: 'https://example.com/b', share: 66.7 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,40 @@
+export interface RedirectVariant {
+  url: string;
+  weight: number; // Relative weight, e.g. 70/20/10
+}
+
+/**
+ * Picks a variant by its weight.
+ * @param variants The variants of the link.
+ * @param seed A number in the range [0, 1), a random number or a stable hash of the visitor for sticky assignment.
+ * @returns The picked variant, or null when there are no variants with a positive weight.
+ */
+export const pickVariant = (variants: RedirectVariant[] | undefined | null, seed: number): RedirectVariant | null => {
+  const candidates = (variants || []).filter(({ weight }) => weight > 0);
+  const totalWeight = candidates.reduce((total, { weight }) => total + weight, 0);
+  if (!totalWeight) {
+    return null;
+  }
+
+  let threshold = seed * totalWeight;
+  for (const variant of candidates) {
+    threshold -= variant.weight;
+    if (threshold < 0) {
+      return variant;
+    }
+  }
+
+  // Floating point leftovers belong to the last variant
+  return candidates[candidates.length - 1];
+};
+
+/**
+ * Returns the share of each variant in percentages, rounded to one decimal.
+ */
+export const getVariantShares = (variants: RedirectVariant[]) => {
+  const totalWeight = variants.reduce((total, { weight }) => total + Math.max(weight, 0), 0);
+  return variants.map(({ url, weight }) => ({
+    url,
+    share: totalWeight ? Math.round((Math.max(weight, 0) / totalWeight) * 1000) / 10 : 0,
+  }));
+};